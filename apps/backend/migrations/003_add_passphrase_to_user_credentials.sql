@@ -0,0 +1,13 @@
+-- Migration: Add passphrase column to user_credentials table
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Store the encrypted API passphrase required by OKX
+
+-- ============================================================================
+-- ALTER TABLE: user_credentials
+-- ============================================================================
+
+-- Nullable: only brokers that use a passphrase (OKX) populate it.
+-- Encrypted with the row's encryption_salt; its own IV is api_passphrase_iv (009).
+ALTER TABLE user_credentials
+  ADD COLUMN IF NOT EXISTS api_passphrase_encrypted TEXT;
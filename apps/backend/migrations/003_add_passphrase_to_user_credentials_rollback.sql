@@ -0,0 +1,7 @@
+-- Rollback Migration: Add passphrase column to user_credentials table
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Remove api_passphrase_encrypted column from user_credentials
+
+ALTER TABLE user_credentials
+  DROP COLUMN IF EXISTS api_passphrase_encrypted;
@@ -0,0 +1,34 @@
+-- Migration: Add account name to user_credentials and user_strategies
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Multiple named accounts (exchange subaccounts) per user/broker/environment
+
+-- ============================================================================
+-- ALTER TABLE: user_credentials
+-- ============================================================================
+
+-- Existing rows become the 'main' account
+ALTER TABLE user_credentials
+  ADD COLUMN IF NOT EXISTS account VARCHAR(64) NOT NULL DEFAULT 'main';
+
+ALTER TABLE user_credentials
+  DROP CONSTRAINT IF EXISTS unique_user_broker_env;
+
+ALTER TABLE user_credentials
+  ADD CONSTRAINT unique_user_broker_env_account UNIQUE (user_id, broker, environment, account);
+
+-- ============================================================================
+-- ALTER TABLE: user_strategies
+-- ============================================================================
+
+-- The account a strategy trades on; the same strategy may run on several accounts
+ALTER TABLE user_strategies
+  ADD COLUMN IF NOT EXISTS account VARCHAR(64) NOT NULL DEFAULT 'main';
+
+ALTER TABLE user_strategies
+  DROP CONSTRAINT IF EXISTS unique_user_strategy;
+
+ALTER TABLE user_strategies
+  ADD CONSTRAINT unique_user_strategy UNIQUE (user_id, strategy_name, instrument, environment, account);
+
+COMMENT ON COLUMN user_strategies.account IS 'Named broker account (subaccount) from user_credentials.account';
@@ -0,0 +1,16 @@
+-- Rollback Migration: Add account name to user_credentials and user_strategies
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Drop account columns (non-main accounts are deleted first)
+
+DELETE FROM user_strategies WHERE account <> 'main';
+ALTER TABLE user_strategies DROP CONSTRAINT IF EXISTS unique_user_strategy;
+ALTER TABLE user_strategies DROP COLUMN IF EXISTS account;
+ALTER TABLE user_strategies
+  ADD CONSTRAINT unique_user_strategy UNIQUE (user_id, strategy_name, instrument, environment);
+
+DELETE FROM user_credentials WHERE account <> 'main';
+ALTER TABLE user_credentials DROP CONSTRAINT IF EXISTS unique_user_broker_env_account;
+ALTER TABLE user_credentials DROP COLUMN IF EXISTS account;
+ALTER TABLE user_credentials
+  ADD CONSTRAINT unique_user_broker_env UNIQUE (user_id, broker, environment);
@@ -0,0 +1,10 @@
+-- Migration: Widen user_strategies.instrument for multi-leg strategies
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Multi-leg strategies (pairs, basis) store all legs joined by '+'
+--              (e.g. 'BTC_USDC-PERPETUAL+ETH_USDC-PERPETUAL')
+
+ALTER TABLE user_strategies
+  ALTER COLUMN instrument TYPE VARCHAR(255);
+
+COMMENT ON COLUMN user_strategies.instrument IS 'Instrument, or the legs of a multi-leg strategy joined by ''+''';
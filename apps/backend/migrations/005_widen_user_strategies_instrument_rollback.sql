@@ -0,0 +1,10 @@
+-- Rollback Migration: Widen user_strategies.instrument for multi-leg strategies
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Restore VARCHAR(100) (multi-leg strategies that do not fit are deleted first)
+
+DELETE FROM user_strategies WHERE LENGTH(instrument) > 100;
+ALTER TABLE user_strategies
+  ALTER COLUMN instrument TYPE VARCHAR(100);
+
+COMMENT ON COLUMN user_strategies.instrument IS NULL;
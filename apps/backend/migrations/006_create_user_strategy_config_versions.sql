@@ -0,0 +1,53 @@
+-- Migration: Versioned strategy configurations
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Immutable history of every config a user strategy was saved with;
+--              user_strategies.config_version points at the active one and trades
+--              (SQLite trades.configStrategyId + configVersion) reference the version they opened under
+
+-- ============================================================================
+-- CREATE TABLE: user_strategy_config_versions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_strategy_config_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  strategy_id UUID NOT NULL REFERENCES user_strategies(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,           -- 1, 2, 3, ... per strategy
+  config JSONB NOT NULL,
+  created_by VARCHAR(50),             -- last_action that saved it: 'manual_start', ...
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_strategy_config_version UNIQUE (strategy_id, version),
+  CHECK (version > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_config_versions_strategy ON user_strategy_config_versions(strategy_id, version DESC);
+
+-- Versions are append-only (rows only disappear with their strategy)
+CREATE OR REPLACE FUNCTION forbid_config_version_update() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'user_strategy_config_versions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS config_versions_immutable ON user_strategy_config_versions;
+CREATE TRIGGER config_versions_immutable
+  BEFORE UPDATE ON user_strategy_config_versions
+  FOR EACH ROW EXECUTE FUNCTION forbid_config_version_update();
+
+-- ============================================================================
+-- ALTER TABLE: user_strategies
+-- ============================================================================
+
+ALTER TABLE user_strategies
+  ADD COLUMN IF NOT EXISTS config_version INTEGER;
+
+-- Existing configs become version 1
+INSERT INTO user_strategy_config_versions (strategy_id, version, config, created_by)
+SELECT id, 1, config, 'migration'
+FROM user_strategies
+ON CONFLICT DO NOTHING;
+
+UPDATE user_strategies SET config_version = 1 WHERE config_version IS NULL;
+
+COMMENT ON COLUMN user_strategies.config_version IS 'Active version in user_strategy_config_versions';
@@ -0,0 +1,8 @@
+-- Rollback Migration: Versioned strategy configurations
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Drop the config history (user_strategies.config keeps the active config)
+
+ALTER TABLE user_strategies DROP COLUMN IF EXISTS config_version;
+DROP TABLE IF EXISTS user_strategy_config_versions;
+DROP FUNCTION IF EXISTS forbid_config_version_update();
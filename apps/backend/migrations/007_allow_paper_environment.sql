@@ -0,0 +1,11 @@
+-- Migration: Allow the paper environment for user strategies
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Paper strategies (PaperBroker on live Deribit market data) are stored
+--              with environment 'paper'
+
+ALTER TABLE user_strategies
+  DROP CONSTRAINT check_environment;
+
+ALTER TABLE user_strategies
+  ADD CONSTRAINT check_environment CHECK (environment IN ('live', 'testnet', 'paper'));
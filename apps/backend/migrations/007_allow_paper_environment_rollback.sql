@@ -0,0 +1,12 @@
+-- Rollback Migration: Allow the paper environment for user strategies
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Restore the live/testnet constraint (paper strategies are deleted first)
+
+DELETE FROM user_strategies WHERE environment = 'paper';
+
+ALTER TABLE user_strategies
+  DROP CONSTRAINT check_environment;
+
+ALTER TABLE user_strategies
+  ADD CONSTRAINT check_environment CHECK (environment IN ('live', 'testnet'));
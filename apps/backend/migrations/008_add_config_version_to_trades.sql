@@ -0,0 +1,15 @@
+-- Migration: Add config version reference to trades table
+-- Database: SQLite
+-- Date: 2026-10-19
+-- Description: Stamp trades with the strategy config version they opened under.
+--              Versions are numbered per strategy, so a trade stores the pair
+--              (configStrategyId, configVersion) = user_strategy_config_versions
+--              (strategy_id, version) in PostgreSQL
+
+-- Both columns stay NULL for trades opened before config versioning
+ALTER TABLE trades ADD COLUMN configStrategyId TEXT;
+ALTER TABLE trades ADD COLUMN configVersion INTEGER;
+
+-- Trades per config version (performance by version)
+CREATE INDEX IF NOT EXISTS idx_trades_config_version
+  ON trades(configStrategyId, configVersion);
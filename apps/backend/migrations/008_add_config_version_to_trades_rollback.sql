@@ -0,0 +1,10 @@
+-- Rollback Migration: Add config version reference to trades table
+-- Database: SQLite
+-- Date: 2026-10-19
+-- Description: Remove configStrategyId and configVersion from trades
+--              (DROP COLUMN needs SQLite 3.35+, bundled with better-sqlite3)
+
+DROP INDEX IF EXISTS idx_trades_config_version;
+
+ALTER TABLE trades DROP COLUMN configVersion;
+ALTER TABLE trades DROP COLUMN configStrategyId;
@@ -0,0 +1,18 @@
+-- Migration: Per-field IVs for user_credentials
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Every encrypted credential field gets its own random AES-GCM IV.
+--              encryption_iv stays the IV of api_key_encrypted; encryption_salt
+--              (key derivation) is still shared by the row
+
+-- ============================================================================
+-- ALTER TABLE: user_credentials
+-- ============================================================================
+
+-- NULL for rows saved before this migration: those fields were encrypted with
+-- encryption_iv and are read with it until the credentials are saved again
+ALTER TABLE user_credentials
+  ADD COLUMN IF NOT EXISTS api_secret_iv TEXT;
+
+ALTER TABLE user_credentials
+  ADD COLUMN IF NOT EXISTS api_passphrase_iv TEXT;
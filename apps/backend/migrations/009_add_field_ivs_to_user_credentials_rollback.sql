@@ -0,0 +1,12 @@
+-- Rollback Migration: Per-field IVs for user_credentials
+-- Database: PostgreSQL
+-- Date: 2026-10-19
+-- Description: Drop the per-field IV columns. Credentials saved with them cannot be
+--              decrypted without them, so they are deactivated (users re-enter them)
+
+UPDATE user_credentials
+  SET is_active = false
+  WHERE api_secret_iv IS NOT NULL OR api_passphrase_iv IS NOT NULL;
+
+ALTER TABLE user_credentials DROP COLUMN IF EXISTS api_passphrase_iv;
+ALTER TABLE user_credentials DROP COLUMN IF EXISTS api_secret_iv;
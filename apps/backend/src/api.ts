@@ -1,26 +1,10 @@
-import { BROKER_METADATA, BROKER_WHITELIST } from './brokers/BrokerRegistry';
-import { DeribitBroker } from './brokers/DeribitBroker';
-import { BinanceBroker } from './brokers/BinanceBroker';
-import { BybitBroker } from './brokers/BybitBroker';
-import {
-  OKXBroker,
-  KrakenBroker,
-  BitgetBroker,
-  KucoinBroker,
-  MEXCBroker,
-  GateIOBroker,
-  BitMEXBroker,
-  HuobiBroker,
-  PhemexBroker,
-  CoinbaseBroker,
-  BitstampBroker,
-  BitfinexBroker,
-} from './brokers/StubBrokers';
+import { BROKER_METADATA, BROKER_WHITELIST, createBroker } from './brokers/BrokerRegistry';
 import { IBroker, Credentials, type Order } from './brokers/IBroker';
 import { StrategyManager, StrategyLifecycleState } from './lifecycle/StrategyManager';
 import { MetricsCollector } from './monitoring/metrics';
 import { validateInput, strategyStartRequestSchema } from './validation/schemas';
 import { log } from './logger';
+import { instrumentRegistry, UnknownInstrumentError } from './instruments/instrument-registry';
 import { getTradeHistoryService, type TradeRecord, type TradeHistoryStats } from './services/trade-history';
 
 export interface BrokerListResponse {
@@ -54,58 +38,7 @@ const brokerInstances = new Map<string, IBroker>();
 
 function getBrokerInstance(brokerId: string): IBroker {
   if (!brokerInstances.has(brokerId)) {
-    let broker: IBroker;
-    
-    switch (brokerId) {
-      case 'deribit':
-        broker = new DeribitBroker();
-        break;
-      case 'binance':
-        broker = new BinanceBroker();
-        break;
-      case 'bybit':
-        broker = new BybitBroker();
-        break;
-      case 'okx':
-        broker = new OKXBroker();
-        break;
-      case 'kraken':
-        broker = new KrakenBroker();
-        break;
-      case 'bitget':
-        broker = new BitgetBroker();
-        break;
-      case 'kucoin':
-        broker = new KucoinBroker();
-        break;
-      case 'mexc':
-        broker = new MEXCBroker();
-        break;
-      case 'gateio':
-        broker = new GateIOBroker();
-        break;
-      case 'bitmex':
-        broker = new BitMEXBroker();
-        break;
-      case 'huobi':
-        broker = new HuobiBroker();
-        break;
-      case 'phemex':
-        broker = new PhemexBroker();
-        break;
-      case 'coinbase':
-        broker = new CoinbaseBroker();
-        break;
-      case 'bitstamp':
-        broker = new BitstampBroker();
-        break;
-      case 'bitfinex':
-        broker = new BitfinexBroker();
-        break;
-      default:
-        throw new Error(`Unknown broker: ${brokerId}`);
-    }
-    
+    const broker = createBroker(brokerId);
     brokerInstances.set(brokerId, broker);
   }
   
@@ -282,7 +215,20 @@ export async function handleStartStrategy(
       };
     }
 
-    const { strategyName, instrument } = validation.data;
+    const { strategyName, broker } = validation.data;
+
+    // Configs may use canonical IDs or another broker's symbol; run on this broker's native one
+    let instrument: string;
+    try {
+      instrument = instrumentRegistry.toNative(validation.data.instrument, broker);
+    } catch (error) {
+      if (!(error instanceof UnknownInstrumentError)) throw error;
+      return {
+        success: false,
+        message: 'Validation error',
+        error: error.message,
+      };
+    }
 
     const strategyManager = StrategyManager.getInstance();
 
@@ -569,12 +515,13 @@ export async function handleUserStopStrategy(request: UserStopStrategyRequest):
 /**
  * Get strategy status for a user
  */
-export async function handleUserGetStrategyStatus(userId: string, broker?: string, environment?: any) {
+export async function handleUserGetStrategyStatus(userId: string, broker?: string, environment?: any, account?: string) {
   try {
     const strategies = await userStrategyService.getStrategyStatus({
       userId,
       broker,
       environment,
+      account,
     });
     
     return {
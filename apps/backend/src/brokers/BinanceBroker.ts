@@ -1,54 +1,340 @@
-import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams } from './IBroker';
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams, BrokerPosition, ClosePositionParams, EditOrderParams, BrokerCapabilities, OrderBookSnapshot, MarkPriceUpdate, FundingRate } from './IBroker';
+import { instrumentRegistry } from '../instruments/instrument-registry';
+import { telegramService } from '../notifications/telegram';
+
+/**
+ * Binance USD-M Futures broker
+ *
+ * - REST: HMAC-SHA256 signed query strings against /fapi endpoints
+ * - Market streams: <symbol>@aggTrade for subscribeTrades, <symbol>@kline_<tf> for subscribeCandles
+ * - User-data stream: listenKey (kept alive every 30 min) feeding subscribeOrders/subscribeFills
+ * - Both streams reconnect with backoff; the market stream resubscribes its streams,
+ *   the user-data stream fetches a fresh listenKey
+ * - Brackets: Binance has no native OTOCO; createBroker wraps it in BracketEmulator,
+ *   which places the SL/TP legs as reduce-only orders once the entry fills
+ *
+ * Order labels are sent as client order IDs (newClientOrderId).
+ */
+
+export interface BinanceEndpoints {
+  restUrl: string;
+  wsUrl: string;
+}
+
+export const BINANCE_ENDPOINTS: Record<'live' | 'testnet', BinanceEndpoints> = {
+  live: {
+    restUrl: 'https://fapi.binance.com',
+    wsUrl: 'wss://fstream.binance.com',
+  },
+  testnet: {
+    restUrl: 'https://testnet.binancefuture.com',
+    wsUrl: 'wss://stream.binancefuture.com',
+  },
+};
+
+export class BinanceApiError extends Error {
+  constructor(message: string, public code: number, public endpoint: string) {
+    super(message);
+    this.name = 'BinanceApiError';
+  }
+}
+
+const RECV_WINDOW = 5000;
+const LISTEN_KEY_KEEPALIVE = 30 * 60 * 1000; // listenKey expires after 60 min without keepalive
+const MAX_KLINE_LIMIT = 1500;
+const MAX_FUNDING_HISTORY_LIMIT = 1000;
+const FUNDING_INTERVAL_HOURS = 8; // default; a few symbols settle more often
+
+// Tradebaas timeframe -> Binance kline interval (identical naming except pass-through)
+const SUPPORTED_INTERVALS = new Set(['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '8h', '12h', '1d', '3d', '1w']);
+
+const WORKING_TYPE_MAP: Record<string, string> = {
+  last_price: 'CONTRACT_PRICE',
+  mark_price: 'MARK_PRICE',
+  index_price: 'MARK_PRICE', // Binance has no index trigger; mark is the closest equivalent
+};
+
+const CAPABILITIES: BrokerCapabilities = {
+  otoco: 'none', // BracketEmulator places the legs from the user-data stream
+  reduceOnly: true,
+  postOnly: true, // timeInForce GTX
+  triggerSources: ['last_price', 'mark_price'],
+  maxTriggerOrders: 10, // MAX_NUM_ALGO_ORDERS symbol filter
+};
+
+type StreamKind = 'market' | 'user';
 
 export class BinanceBroker implements IBroker {
   private connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
+  private credentials: Credentials | null = null;
+  private endpoints: BinanceEndpoints;
+  private endpointOverrides: Partial<BinanceEndpoints>;
+
+  private marketWs: WebSocket | null = null;
+  private userWs: WebSocket | null = null;
+  private listenKey: string | null = null;
+  private listenKeyTimer: NodeJS.Timeout | null = null;
+  private requestId = 1;
+  private reconnectTimers = new Map<StreamKind, NodeJS.Timeout>();
+  private reconnectAttempts: Record<StreamKind, number> = { market: 0, user: 0 };
+  private readonly reconnectDelays = [1000, 2000, 4000, 8000, 16000]; // Exponential backoff, capped
+
+  // Channel -> callback. Channels are Binance stream names (btcusdt@aggTrade),
+  // order channels are local aliases (orders.BTCUSDT) on the user-data stream.
+  private tradeSubscriptions = new Map<string, (trade: Trade) => void>();
+  private candleSubscriptions = new Map<string, (candle: Candle, closed: boolean) => void>();
+  private markPriceSubscriptions = new Map<string, (update: MarkPriceUpdate) => void>();
+  private orderSubscriptions = new Map<string, (order: Order) => void>();
+  private fillSubscriptions = new Map<string, (fill: Trade) => void>();
+
+  private instrumentCache = new Map<string, {
+    minTradeAmount: number;
+    tickSize: number;
+    maxLeverage: number;
+    amountStep: number;
+    cachedAt: number;
+  }>();
+  private readonly CACHE_TTL = 3600000; // 1 hour
+
+  private orphanCleanupInterval: NodeJS.Timeout | null = null;
+  private readonly ORPHAN_SCAN_INTERVAL = 60000; // 1 minute
+
+  constructor(endpoints: Partial<BinanceEndpoints> = {}) {
+    this.endpointOverrides = endpoints;
+    this.endpoints = { ...BINANCE_ENDPOINTS.live, ...endpoints };
+  }
 
   async connect(credentials: Credentials): Promise<void> {
-    throw new Error('Binance broker not yet implemented');
+    try {
+      this.connectionStatus = 'connecting';
+      this.credentials = credentials;
+
+      const env = credentials.testnet ? 'testnet' : 'live';
+      this.endpoints = {
+        ...BINANCE_ENDPOINTS[env],
+        ...this.endpointOverrides,
+        ...(credentials.restUrl && { restUrl: credentials.restUrl }),
+        ...(credentials.wsUrl && { wsUrl: credentials.wsUrl }),
+      };
+
+      // Validate API key with a signed call before opening streams
+      await this.signedRequest('GET', '/fapi/v2/balance');
+
+      this.connectionStatus = 'connected';
+      console.log(`[BinanceBroker] Connected to ${env}`);
+    } catch (error) {
+      this.connectionStatus = 'error';
+      console.error('[BinanceBroker] Connection failed:', error);
+      throw error;
+    }
   }
 
   async disconnect(): Promise<void> {
+    this.stopOrphanCleanup();
+
+    if (this.listenKeyTimer) {
+      clearInterval(this.listenKeyTimer);
+      this.listenKeyTimer = null;
+    }
+    if (this.listenKey && this.credentials) {
+      await this.apiKeyRequest('DELETE', '/fapi/v1/listenKey').catch(err => {
+        console.warn('[BinanceBroker] Failed to close listenKey:', err);
+      });
+    }
+    this.listenKey = null;
+    for (const timer of this.reconnectTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reconnectTimers.clear();
+    this.reconnectAttempts = { market: 0, user: 0 };
+
+    this.marketWs?.removeAllListeners();
+    this.marketWs?.close();
+    this.userWs?.removeAllListeners();
+    this.userWs?.close();
+    this.marketWs = null;
+    this.userWs = null;
+
+    this.tradeSubscriptions.clear();
+    this.candleSubscriptions.clear();
+    this.markPriceSubscriptions.clear();
+    this.orderSubscriptions.clear();
+    this.fillSubscriptions.clear();
+    this.credentials = null;
     this.connectionStatus = 'disconnected';
+    console.log('[BinanceBroker] Disconnected');
   }
 
   getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' | 'error' {
     return this.connectionStatus;
   }
 
+  getCapabilities(): BrokerCapabilities {
+    return CAPABILITIES;
+  }
+
   async getBalance(currency?: string): Promise<Balance[]> {
-    throw new Error('Binance broker not yet implemented');
+    const result: any[] = await this.signedRequest('GET', '/fapi/v2/balance');
+
+    return result
+      .filter(b => (currency ? b.asset === currency : parseFloat(b.balance) !== 0))
+      .map(b => {
+        const total = parseFloat(b.balance);
+        const available = parseFloat(b.availableBalance);
+        return {
+          currency: b.asset,
+          available,
+          total,
+          locked: total - available,
+        };
+      });
   }
 
   async placeOrder(params: PlaceOrderParams): Promise<Order> {
-    throw new Error('Binance broker not yet implemented');
+    const { instrument, side, type, amount, otocoConfig, reduceOnly, postOnly, label } = params;
+
+    if (otocoConfig) {
+      throw new Error('Binance has no native OTOCO: place brackets through BracketEmulator');
+    }
+
+    const raw = await this.submitOrder({
+      symbol: instrument,
+      side: side === 'buy' ? 'BUY' : 'SELL',
+      ...this.orderTypeParams(params),
+      // GTX = post-only (Good Till Crossing)
+      ...(postOnly && type === 'limit' && { timeInForce: 'GTX' }),
+      quantity: String(amount),
+      ...(reduceOnly && { reduceOnly: 'true' }),
+      ...(label && { newClientOrderId: label }),
+      newOrderRespType: 'RESULT',
+    });
+
+    const order = this.mapOrder(raw);
+    console.log(`[BinanceBroker] ✅ Order placed: ${order.orderId}`);
+    return order;
   }
 
   async cancelOrder(orderId: string, instrument: string): Promise<void> {
-    throw new Error('Binance broker not yet implemented');
+    await this.signedRequest('DELETE', '/fapi/v1/order', { symbol: instrument, orderId });
+    console.log(`[BinanceBroker] ✅ Order canceled: ${orderId}`);
   }
 
   async cancelAllOrders(instrument?: string): Promise<void> {
-    throw new Error('Binance broker not yet implemented');
+    const symbols = instrument
+      ? [instrument]
+      : Array.from(new Set((await this.getOpenOrders()).map(o => o.instrument)));
+
+    for (const symbol of symbols) {
+      await this.signedRequest('DELETE', '/fapi/v1/allOpenOrders', { symbol });
+    }
+    console.log(`[BinanceBroker] ✅ All orders canceled (${symbols.length} symbols)`);
   }
 
   async getOrder(orderId: string, instrument: string): Promise<Order> {
-    throw new Error('Binance broker not yet implemented');
+    const raw = await this.signedRequest('GET', '/fapi/v1/order', { symbol: instrument, orderId });
+    return this.mapOrder(raw);
   }
 
-  async getCandles(instrument: string, timeframe: string, limit?: number): Promise<Candle[]> {
-    throw new Error('Binance broker not yet implemented');
+  async getOpenOrders(instrument?: string): Promise<Order[]> {
+    const result: any[] = await this.signedRequest('GET', '/fapi/v1/openOrders', instrument ? { symbol: instrument } : {});
+    return result.map(o => this.mapOrder(o));
+  }
+
+  async getCandles(instrument: string, timeframe: string, limit: number = 200): Promise<Candle[]> {
+    if (!SUPPORTED_INTERVALS.has(timeframe)) {
+      throw new Error(`Unsupported Binance timeframe: ${timeframe}`);
+    }
+
+    const result: any[][] = await this.publicRequest('/fapi/v1/klines', {
+      symbol: instrument,
+      interval: timeframe,
+      limit: String(Math.min(limit, MAX_KLINE_LIMIT)),
+    });
+
+    return result.map(k => ({
+      timestamp: k[0],
+      open: parseFloat(k[1]),
+      high: parseFloat(k[2]),
+      low: parseFloat(k[3]),
+      close: parseFloat(k[4]),
+      volume: parseFloat(k[5]),
+    }));
+  }
+
+  async getFundingRateHistory(instrument: string, limit: number = 100): Promise<FundingRate[]> {
+    const result: any[] = await this.publicRequest('/fapi/v1/fundingRate', {
+      symbol: instrument,
+      limit: String(Math.min(limit, MAX_FUNDING_HISTORY_LIMIT)),
+    });
+
+    // Oldest first
+    return result.map(f => ({
+      instrument: f.symbol,
+      rate: parseFloat(f.fundingRate),
+      intervalHours: FUNDING_INTERVAL_HOURS,
+      timestamp: f.fundingTime,
+    }));
   }
 
   async subscribeTrades(instrument: string, callback: (trade: Trade) => void): Promise<void> {
-    throw new Error('Binance broker not yet implemented');
+    const stream = `${instrument.toLowerCase()}@aggTrade`;
+    this.tradeSubscriptions.set(stream, callback);
+    await this.subscribeMarketStream(stream);
+  }
+
+  /**
+   * Stream klines for an instrument. `closed` is true once the candle is final.
+   */
+  async subscribeCandles(
+    instrument: string,
+    timeframe: string,
+    callback: (candle: Candle, closed: boolean) => void
+  ): Promise<void> {
+    if (!SUPPORTED_INTERVALS.has(timeframe)) {
+      throw new Error(`Unsupported Binance timeframe: ${timeframe}`);
+    }
+    const stream = `${instrument.toLowerCase()}@kline_${timeframe}`;
+    this.candleSubscriptions.set(stream, callback);
+    await this.subscribeMarketStream(stream);
   }
 
   async subscribeOrders(instrument: string, callback: (order: Order) => void): Promise<void> {
-    throw new Error('Binance broker not yet implemented');
+    await this.ensureUserStream();
+    this.orderSubscriptions.set(`orders.${instrument}`, callback);
+    console.log(`[BinanceBroker] Subscribed to orders.${instrument}`);
+  }
+
+  async subscribeFills(instrument: string, callback: (fill: Trade) => void): Promise<void> {
+    await this.ensureUserStream();
+    this.fillSubscriptions.set(`fills.${instrument}`, callback);
+    console.log(`[BinanceBroker] Subscribed to fills.${instrument}`);
+  }
+
+  async subscribeOrderBook(instrument: string, depth: number, callback: (book: OrderBookSnapshot) => void): Promise<void> {
+    // Local book maintenance (see OrderBook.ts) is only wired up for Deribit so far
+    throw new Error('subscribeOrderBook not implemented for Binance yet');
+  }
+
+  async subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+    const stream = `${instrument.toLowerCase()}@markPrice@1s`;
+    this.markPriceSubscriptions.set(stream, callback);
+    await this.subscribeMarketStream(stream);
   }
 
   async unsubscribe(channel: string): Promise<void> {
-    throw new Error('Binance broker not yet implemented');
+    if (
+      this.tradeSubscriptions.delete(channel)
+      || this.candleSubscriptions.delete(channel)
+      || this.markPriceSubscriptions.delete(channel)
+    ) {
+      this.marketWs?.send(JSON.stringify({ method: 'UNSUBSCRIBE', params: [channel], id: this.requestId++ }));
+    } else {
+      this.orderSubscriptions.delete(channel);
+      this.fillSubscriptions.delete(channel);
+    }
+    console.log(`[BinanceBroker] Unsubscribed from ${channel}`);
   }
 
   async getInstrumentInfo(instrument: string): Promise<{
@@ -57,22 +343,569 @@ export class BinanceBroker implements IBroker {
     maxLeverage: number;
     amountStep: number;
   }> {
-    throw new Error('Binance broker not yet implemented');
+    const symbol = instrumentRegistry.toNative(instrument, 'binance');
+    const cached = this.instrumentCache.get(symbol);
+    if (cached && Date.now() - cached.cachedAt < this.CACHE_TTL) {
+      const { cachedAt, ...info } = cached;
+      return info;
+    }
+
+    const exchangeInfo = await this.publicRequest('/fapi/v1/exchangeInfo', {});
+    const raw = (exchangeInfo.symbols || []).find((s: any) => s.symbol === symbol);
+    if (!raw) {
+      throw new Error(`Instrument ${symbol} not found on Binance`);
+    }
+
+    const priceFilter = raw.filters.find((f: any) => f.filterType === 'PRICE_FILTER');
+    const lotSize = raw.filters.find((f: any) => f.filterType === 'LOT_SIZE');
+
+    // Max leverage depends on the account's notional bracket; fall back to the platform max
+    let maxLeverage = 125;
+    try {
+      const brackets = await this.signedRequest('GET', '/fapi/v1/leverageBracket', { symbol });
+      const entry = Array.isArray(brackets) ? brackets[0] : brackets;
+      maxLeverage = entry?.brackets?.[0]?.initialLeverage ?? maxLeverage;
+    } catch (error) {
+      console.warn(`[BinanceBroker] Could not fetch leverage bracket for ${symbol}:`, error);
+    }
+
+    const info = {
+      minTradeAmount: parseFloat(lotSize.minQty),
+      tickSize: parseFloat(priceFilter.tickSize),
+      maxLeverage,
+      amountStep: parseFloat(lotSize.stepSize),
+    };
+
+    this.instrumentCache.set(symbol, { ...info, cachedAt: Date.now() });
+    return info;
   }
 
-  async getOpenOrders(instrument?: string): Promise<Order[]> {
-    throw new Error('Binance broker not yet implemented');
+  /**
+   * Get open positions (non-zero positionAmt) from positionRisk
+   */
+  async getPositions(instrument?: string): Promise<BrokerPosition[]> {
+    const result: any[] = await this.signedRequest('GET', '/fapi/v2/positionRisk', instrument ? { symbol: instrument } : {});
+
+    return result
+      .filter(p => parseFloat(p.positionAmt) !== 0)
+      .map(p => {
+        const amt = parseFloat(p.positionAmt);
+        return {
+          instrument: p.symbol,
+          size: Math.abs(amt),
+          side: amt > 0 ? 'long' as const : 'short' as const,
+          entryPrice: parseFloat(p.entryPrice),
+          markPrice: parseFloat(p.markPrice),
+          unrealizedPnl: parseFloat(p.unRealizedProfit),
+          leverage: parseFloat(p.leverage),
+        };
+      });
+  }
+
+  /**
+   * Close (part of) a position with a reduce-only market or limit order
+   */
+  async closePosition(instrument: string, params: ClosePositionParams = {}): Promise<Order> {
+    const [position] = await this.getPositions(instrument);
+    if (!position) {
+      throw new Error(`No open position on ${instrument}`);
+    }
+
+    const order = await this.placeOrder({
+      instrument,
+      side: position.side === 'long' ? 'sell' : 'buy',
+      type: params.type ?? 'market',
+      amount: Math.min(params.amount ?? position.size, position.size),
+      price: params.price,
+      reduceOnly: true,
+      label: params.label,
+    });
+    console.log(`[BinanceBroker] ✅ Closing ${position.side} ${instrument}: ${order.amount}/${position.size}`);
+    return order;
+  }
+
+  /**
+   * Amend an open order.
+   * Binance only modifies LIMIT orders in place; conditional orders (SL/TP legs)
+   * are cancelled and re-placed with the same client ID under a new order ID;
+   * their price is the stop price (see EditOrderParams). If the re-place fails the original order is put back; if that fails too an
+   * alert goes out, since the position has lost its stop.
+   */
+  async editOrder(orderId: string, instrument: string, changes: EditOrderParams): Promise<Order> {
+    const raw = await this.signedRequest('GET', '/fapi/v1/order', { symbol: instrument, orderId });
+    const type = raw.origType || raw.type;
+    const quantity = String(changes.amount ?? parseFloat(raw.origQty));
+
+    if (type === 'LIMIT') {
+      const amended = await this.signedRequest('PUT', '/fapi/v1/order', {
+        symbol: instrument,
+        orderId,
+        side: raw.side,
+        quantity,
+        price: String(changes.price ?? parseFloat(raw.price)),
+      });
+      console.log(`[BinanceBroker] ✅ Order amended: ${orderId}`);
+      return this.mapOrder(amended);
+    }
+
+    if (type === 'MARKET') {
+      throw new Error(`Cannot edit market order ${orderId}`);
+    }
+
+    const oldStop = parseFloat(raw.stopPrice);
+    const newStop = changes.price ?? oldStop;
+    const oldLimit = parseFloat(raw.price || '0');
+    // Stop-limits keep their offset between trigger and limit price
+    const newLimit = oldLimit > 0 ? changes.limitPrice ?? oldLimit + (newStop - oldStop) : 0;
+    const conditional = (stop: number, limit: number, qty: string): Record<string, string> => ({
+      symbol: instrument,
+      side: raw.side,
+      type,
+      stopPrice: String(stop),
+      ...(limit > 0 && { price: String(limit), timeInForce: raw.timeInForce || 'GTC' }),
+      quantity: qty,
+      ...(raw.reduceOnly && { reduceOnly: 'true' }),
+      ...(raw.workingType && { workingType: raw.workingType }),
+      ...(raw.clientOrderId && { newClientOrderId: raw.clientOrderId }),
+      newOrderRespType: 'RESULT',
+    });
+
+    await this.cancelOrder(orderId, instrument);
+    let replaced: any;
+    try {
+      replaced = await this.submitOrder(conditional(newStop, newLimit, quantity));
+    } catch (error) {
+      console.error(`[BinanceBroker] ❌ Re-placing ${orderId} failed, restoring the original order:`, error);
+      await this.restoreOrder(orderId, conditional(oldStop, oldLimit, raw.origQty));
+      throw error;
+    }
+
+    const order = this.mapOrder(replaced);
+    console.log(`[BinanceBroker] ✅ Order replaced: ${orderId} -> ${order.orderId}`);
+    return order;
+  }
+
+  /**
+   * Put back a conditional order that editOrder cancelled; alert when that fails
+   */
+  private async restoreOrder(orderId: string, original: Record<string, string>): Promise<void> {
+    try {
+      const restored = this.mapOrder(await this.submitOrder(original));
+      console.warn(`[BinanceBroker] ⚠️ Original order restored: ${orderId} -> ${restored.orderId}`);
+    } catch (error) {
+      console.error(`[BinanceBroker] ❌ Could not restore ${orderId} - ${original.symbol} is without its ${original.type} order:`, error);
+      await telegramService.notifyError(`Binance ${original.type} order ${orderId} on ${original.symbol} was cancelled during an edit and could not be restored`, {
+        orderId,
+        instrument: original.symbol,
+        stopPrice: original.stopPrice,
+        error: error instanceof Error ? error.message : String(error),
+      }).catch(() => {});
+    }
   }
 
-  async startOrphanCleanup(): Promise<void> {
-    // No-op for Binance (not implemented yet)
+  // ============================================================================
+  // Orphan cleanup (BROKER-004)
+  // ============================================================================
+
+  startOrphanCleanup(): void {
+    if (this.orphanCleanupInterval) {
+      console.log('[BinanceBroker] Orphan cleanup already running');
+      return;
+    }
+
+    console.log('[BinanceBroker] Starting orphan cleanup (scan every 60s)');
+    this.scanAndCleanOrphans().catch(err => {
+      console.error('[BinanceBroker] Initial orphan scan failed:', err);
+    });
+
+    this.orphanCleanupInterval = setInterval(() => {
+      this.scanAndCleanOrphans().catch(err => {
+        console.error('[BinanceBroker] Orphan scan failed:', err);
+      });
+    }, this.ORPHAN_SCAN_INTERVAL);
   }
 
-  async stopOrphanCleanup(): Promise<void> {
-    // No-op for Binance (not implemented yet)
+  stopOrphanCleanup(): void {
+    if (this.orphanCleanupInterval) {
+      clearInterval(this.orphanCleanupInterval);
+      this.orphanCleanupInterval = null;
+      console.log('[BinanceBroker] Orphan cleanup stopped');
+    }
   }
 
+  /**
+   * Cancel reduce-only orders whose symbol has no open position.
+   * With emulated brackets this catches legs left behind if the process died
+   * between a leg filling and the sibling cancel.
+   */
   async scanAndCleanOrphans(): Promise<void> {
-    // No-op for Binance (not implemented yet)
+    const openOrders = await this.getOpenOrdersRaw();
+    const reduceOnly = openOrders.filter(o => o.reduceOnly || o.closePosition);
+    if (reduceOnly.length === 0) {
+      return;
+    }
+
+    const positions = await this.getPositions();
+    const withPosition = new Set(positions.map(p => p.instrument));
+
+    for (const order of reduceOnly) {
+      if (withPosition.has(order.symbol)) continue;
+
+      try {
+        await this.cancelOrder(String(order.orderId), order.symbol);
+        console.warn(`[BinanceBroker] 🧹 Canceled orphan ${order.orderId} (${order.symbol}) - reduce_only but no position`);
+      } catch (error) {
+        console.error(`[BinanceBroker] ❌ Failed to cancel orphan ${order.orderId}:`, error);
+      }
+    }
+  }
+
+  private orderTypeParams(params: PlaceOrderParams): Record<string, string> {
+    const { type, price } = params;
+    const stopPrice = params.triggerPrice ?? price;
+    const workingType = WORKING_TYPE_MAP[params.trigger ?? 'mark_price'];
+
+    switch (type) {
+      case 'market':
+        return { type: 'MARKET' };
+      case 'limit':
+        if (price === undefined) throw new Error('Limit order requires price');
+        return { type: 'LIMIT', price: String(price), timeInForce: 'GTC' };
+      case 'stop_market':
+        if (stopPrice === undefined) throw new Error('stop_market order requires trigger price');
+        return { type: 'STOP_MARKET', stopPrice: String(stopPrice), workingType };
+      case 'take_market':
+        if (stopPrice === undefined) throw new Error('take_market order requires trigger price');
+        return { type: 'TAKE_PROFIT_MARKET', stopPrice: String(stopPrice), workingType };
+      case 'stop_limit':
+        if (price === undefined || stopPrice === undefined) throw new Error('stop_limit order requires price');
+        return { type: 'STOP', stopPrice: String(stopPrice), price: String(price), timeInForce: 'GTC', workingType };
+      case 'take_limit':
+        if (price === undefined || stopPrice === undefined) throw new Error('take_limit order requires price');
+        return { type: 'TAKE_PROFIT', stopPrice: String(stopPrice), price: String(price), timeInForce: 'GTC', workingType };
+      default:
+        throw new Error(`Unsupported order type for Binance: ${type}`);
+    }
+  }
+
+  // ============================================================================
+  // REST
+  // ============================================================================
+
+  private submitOrder(params: Record<string, string>): Promise<any> {
+    return this.signedRequest('POST', '/fapi/v1/order', params);
+  }
+
+  private getOpenOrdersRaw(): Promise<any[]> {
+    return this.signedRequest('GET', '/fapi/v1/openOrders');
+  }
+
+  private async signedRequest(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, params: Record<string, any> = {}): Promise<any> {
+    if (!this.credentials) {
+      throw new Error('Not connected');
+    }
+
+    const query = new URLSearchParams({
+      ...params,
+      recvWindow: String(RECV_WINDOW),
+      timestamp: Date.now().toString(),
+    }).toString();
+    const signature = crypto
+      .createHmac('sha256', this.credentials.apiSecret)
+      .update(query)
+      .digest('hex');
+
+    const response = await fetch(`${this.endpoints.restUrl}${path}?${query}&signature=${signature}`, {
+      method,
+      headers: { 'X-MBX-APIKEY': this.credentials.apiKey },
+    });
+
+    return this.unwrap(response, path);
+  }
+
+  /** USER_STREAM endpoints need the API key header but no signature */
+  private async apiKeyRequest(method: 'POST' | 'PUT' | 'DELETE', path: string): Promise<any> {
+    const response = await fetch(`${this.endpoints.restUrl}${path}`, {
+      method,
+      headers: { 'X-MBX-APIKEY': this.credentials!.apiKey },
+    });
+    return this.unwrap(response, path);
+  }
+
+  private async publicRequest(path: string, params: Record<string, string>): Promise<any> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${this.endpoints.restUrl}${path}${query ? `?${query}` : ''}`);
+    return this.unwrap(response, path);
+  }
+
+  private async unwrap(response: Response, path: string): Promise<any> {
+    const json = await response.json().catch(() => null) as any;
+
+    if (!response.ok || (json && typeof json.code === 'number' && json.code < 0)) {
+      throw new BinanceApiError(json?.msg || `HTTP ${response.status} from ${path}`, json?.code ?? response.status, path);
+    }
+
+    return json;
+  }
+
+  // ============================================================================
+  // WebSocket
+  // ============================================================================
+
+  private async subscribeMarketStream(stream: string): Promise<void> {
+    const ws = await this.ensureMarketWs();
+    ws.send(JSON.stringify({ method: 'SUBSCRIBE', params: [stream], id: this.requestId++ }));
+    console.log(`[BinanceBroker] Subscribed to ${stream}`);
+  }
+
+  private async ensureMarketWs(): Promise<WebSocket> {
+    if (this.marketWs && this.marketWs.readyState === WebSocket.OPEN) {
+      return this.marketWs;
+    }
+
+    const ws = await this.openSocket(`${this.endpoints.wsUrl}/ws`);
+    ws.on('message', (data) => this.handleMarketMessage(data.toString()));
+    ws.on('close', () => this.handleStreamClose('market', ws));
+    this.marketWs = ws;
+    return ws;
+  }
+
+  /**
+   * Stream names of every aggTrade, kline and markPrice subscription
+   */
+  private activeMarketStreams(): string[] {
+    return [
+      ...this.tradeSubscriptions.keys(),
+      ...this.candleSubscriptions.keys(),
+      ...this.markPriceSubscriptions.keys(),
+    ];
+  }
+
+  private async ensureUserStream(): Promise<void> {
+    if (this.userWs && this.userWs.readyState === WebSocket.OPEN) {
+      return;
+    }
+
+    const { listenKey } = await this.apiKeyRequest('POST', '/fapi/v1/listenKey');
+    this.listenKey = listenKey;
+
+    const ws = await this.openSocket(`${this.endpoints.wsUrl}/ws/${listenKey}`);
+    ws.on('message', (data) => this.handleUserMessage(data.toString()));
+    ws.on('close', () => this.handleStreamClose('user', ws));
+    this.userWs = ws;
+
+    if (!this.listenKeyTimer) {
+      this.listenKeyTimer = setInterval(() => {
+        this.apiKeyRequest('PUT', '/fapi/v1/listenKey').catch(err => {
+          console.error('[BinanceBroker] listenKey keepalive failed:', err);
+        });
+      }, LISTEN_KEY_KEEPALIVE);
+    }
+
+    console.log('[BinanceBroker] User-data stream opened');
+  }
+
+  /**
+   * Stream closed: reconnect unless it was replaced, nothing listens on it any more,
+   * or the broker disconnected
+   */
+  private handleStreamClose(kind: StreamKind, ws: WebSocket): void {
+    if (kind === 'market') {
+      if (ws !== this.marketWs) return;
+      this.marketWs = null;
+      if (this.activeMarketStreams().length === 0) return;
+    } else {
+      if (ws !== this.userWs) return;
+      this.userWs = null;
+      if (!this.credentials) return;
+    }
+
+    console.warn(`[BinanceBroker] 🔄 ${kind === 'market' ? 'Market' : 'User-data'} stream lost - scheduling reconnect...`);
+    this.scheduleReconnect(kind);
+  }
+
+  /**
+   * Reopen a stream with exponential backoff. The market stream resubscribes every
+   * active stream; the user-data stream fetches a fresh listenKey.
+   */
+  private scheduleReconnect(kind: StreamKind): void {
+    if (this.reconnectTimers.has(kind)) return;
+
+    const attempt = this.reconnectAttempts[kind]++;
+    const delay = this.reconnectDelays[attempt] || this.reconnectDelays[this.reconnectDelays.length - 1];
+
+    this.reconnectTimers.set(kind, setTimeout(async () => {
+      this.reconnectTimers.delete(kind);
+
+      try {
+        if (kind === 'market') {
+          const streams = this.activeMarketStreams();
+          if (streams.length === 0) return;
+          const ws = await this.ensureMarketWs();
+          ws.send(JSON.stringify({ method: 'SUBSCRIBE', params: streams, id: this.requestId++ }));
+        } else {
+          if (!this.credentials) return;
+          await this.ensureUserStream();
+        }
+        this.reconnectAttempts[kind] = 0;
+        console.log(`[BinanceBroker] ✅ ${kind === 'market' ? 'Market' : 'User-data'} stream reconnected`);
+      } catch (error) {
+        console.error(`[BinanceBroker] ❌ ${kind} stream reconnect attempt ${this.reconnectAttempts[kind]} failed:`, error);
+        this.scheduleReconnect(kind);
+      }
+    }, delay));
+  }
+
+  private openSocket(url: string): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      ws.once('open', () => resolve(ws));
+      ws.once('error', (error) => {
+        console.error(`[BinanceBroker] WebSocket error (${url}):`, error);
+        reject(error);
+      });
+    });
+  }
+
+  private handleMarketMessage(raw: string): void {
+    try {
+      const msg = JSON.parse(raw);
+
+      if (msg.e === 'aggTrade') {
+        const callback = this.tradeSubscriptions.get(`${msg.s.toLowerCase()}@aggTrade`);
+        callback?.({
+          tradeId: String(msg.a),
+          orderId: '',
+          instrument: msg.s,
+          // Buyer is maker -> aggressor sold
+          side: msg.m ? 'sell' : 'buy',
+          amount: parseFloat(msg.q),
+          price: parseFloat(msg.p),
+          timestamp: msg.T,
+        });
+      } else if (msg.e === 'kline') {
+        const k = msg.k;
+        const callback = this.candleSubscriptions.get(`${msg.s.toLowerCase()}@kline_${k.i}`);
+        callback?.({
+          timestamp: k.t,
+          open: parseFloat(k.o),
+          high: parseFloat(k.h),
+          low: parseFloat(k.l),
+          close: parseFloat(k.c),
+          volume: parseFloat(k.v),
+        }, k.x);
+      } else if (msg.e === 'markPriceUpdate') {
+        const callback = this.markPriceSubscriptions.get(`${msg.s.toLowerCase()}@markPrice@1s`);
+        callback?.({
+          instrument: msg.s,
+          markPrice: parseFloat(msg.p),
+          indexPrice: parseFloat(msg.i),
+          fundingRate: parseFloat(msg.r),
+          fundingIntervalHours: FUNDING_INTERVAL_HOURS,
+          nextFundingTime: msg.T,
+          timestamp: msg.E,
+        });
+      }
+    } catch (error) {
+      console.error('[BinanceBroker] Error parsing market message:', error);
+    }
+  }
+
+  private handleUserMessage(raw: string): void {
+    try {
+      const msg = JSON.parse(raw);
+
+      if (msg.e === 'listenKeyExpired') {
+        console.warn('[BinanceBroker] listenKey expired - reopening user-data stream');
+        this.userWs?.close();
+        this.userWs = null;
+        this.ensureUserStream().catch(err => console.error('[BinanceBroker] Failed to reopen user-data stream:', err));
+        return;
+      }
+
+      if (msg.e !== 'ORDER_TRADE_UPDATE') return;
+
+      const o = msg.o;
+      const order = this.mapOrder({
+        orderId: o.i,
+        symbol: o.s,
+        side: o.S,
+        type: o.ot || o.o,
+        origQty: o.q,
+        price: o.p,
+        stopPrice: o.sp,
+        executedQty: o.z,
+        status: o.X,
+        updateTime: msg.T || msg.E,
+        clientOrderId: o.c,
+      });
+
+      this.orderSubscriptions.get(`orders.${o.s}`)?.(order);
+
+      // Execution type TRADE carries the last fill (l @ L) of this update
+      if (o.x === 'TRADE') {
+        this.fillSubscriptions.get(`fills.${o.s}`)?.({
+          tradeId: String(o.t),
+          orderId: String(o.i),
+          instrument: o.s,
+          side: o.S === 'BUY' ? 'buy' : 'sell',
+          amount: parseFloat(o.l),
+          price: parseFloat(o.L),
+          timestamp: o.T || msg.E,
+          fee: parseFloat(o.n || '0'),
+          feeCurrency: o.N,
+          label: o.c || undefined,
+        });
+      }
+    } catch (error) {
+      console.error('[BinanceBroker] Error parsing user-data message:', error);
+    }
+  }
+
+  private mapOrder(o: any): Order {
+    const price = parseFloat(o.price || '0') || parseFloat(o.stopPrice || '0') || undefined;
+
+    return {
+      orderId: String(o.orderId),
+      instrument: o.symbol,
+      side: o.side === 'BUY' ? 'buy' : 'sell',
+      type: this.mapOrderType(o.origType || o.type),
+      amount: parseFloat(o.origQty),
+      price,
+      filled: parseFloat(o.executedQty || '0'),
+      status: this.mapOrderStatus(o.status),
+      timestamp: o.updateTime || o.time || Date.now(),
+      label: o.clientOrderId || undefined,
+    };
+  }
+
+  private mapOrderType(type: string): string {
+    switch (type) {
+      case 'MARKET': return 'market';
+      case 'LIMIT': return 'limit';
+      case 'STOP_MARKET': return 'stop_market';
+      case 'STOP': return 'stop_limit';
+      case 'TAKE_PROFIT_MARKET': return 'take_market';
+      case 'TAKE_PROFIT': return 'take_limit';
+      default: return type?.toLowerCase() || 'limit';
+    }
+  }
+
+  private mapOrderStatus(status: string): 'open' | 'filled' | 'cancelled' | 'rejected' {
+    switch (status) {
+      case 'NEW':
+      case 'PARTIALLY_FILLED':
+        return 'open';
+      case 'FILLED':
+        return 'filled';
+      case 'CANCELED':
+      case 'EXPIRED':
+      case 'EXPIRED_IN_MATCH':
+        return 'cancelled';
+      case 'REJECTED':
+        return 'rejected';
+      default:
+        return 'open';
+    }
   }
 }
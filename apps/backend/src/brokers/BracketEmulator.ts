@@ -0,0 +1,448 @@
+import {
+  IBroker,
+  Credentials,
+  Balance,
+  Order,
+  Trade,
+  Candle,
+  PlaceOrderParams,
+  OTOCOConfig,
+  BrokerPosition,
+  ClosePositionParams,
+  EditOrderParams,
+  BrokerCapabilities,
+  TriggerSource,
+  OrderBookSnapshot,
+  MarkPriceUpdate,
+  FundingRate,
+} from './IBroker';
+
+/**
+ * OTOCO emulation for brokers without native bracket support
+ *
+ * Wraps an IBroker whose capabilities report `otoco: 'none'`:
+ * - The entry is placed without otocoConfig
+ * - On its first fill (placeOrder response or subscribeOrders update), SL/TP legs are
+ *   placed as reduce-only orders for the filled amount, and resized while a partially
+ *   filled entry keeps filling
+ * - When one leg fills or is cancelled, the other is cancelled (emulated OCO)
+ *
+ * Legs use the same `<entryLabel>_sl` / `<entryLabel>_tp` labels as native
+ * Deribit OTOCO legs. A take_limit TP is a resting limit order (no trigger).
+ * Editing a leg keeps the OCO link, also on brokers that amend by cancel and re-place.
+ * Everything else is delegated to the wrapped broker unchanged.
+ */
+
+interface PendingBracket {
+  entryOrderId: string;
+  instrument: string;
+  side: 'buy' | 'sell';
+  label: string;
+  config: OTOCOConfig;
+  legsRequested?: boolean;
+  slOrderId?: string;
+  tpOrderId?: string;
+  coveredAmount?: number; // filled amount the legs cover (or that was flattened)
+  protecting?: Promise<void>; // placing/resizing legs runs one step at a time
+}
+
+const isTriggerType = (type: string) => /^(stop|take)_/.test(type);
+
+export class BracketEmulator implements IBroker {
+  private brackets = new Map<string, PendingBracket>();
+  // Updates can arrive on the stream before placeOrder resolves
+  private recentOrderUpdates = new Map<string, Order>();
+  private readonly MAX_RECENT_UPDATES = 500;
+
+  // Instruments subscribed on the wrapped broker, and caller callbacks per `orders:<instrument>`
+  private orderStreams = new Set<string>();
+  private orderSubscriptions = new Map<string, (order: Order) => void>();
+
+  constructor(private readonly broker: IBroker) {}
+
+  getCapabilities(): BrokerCapabilities {
+    return { ...this.broker.getCapabilities(), otoco: 'emulated' };
+  }
+
+  async placeOrder(params: PlaceOrderParams): Promise<Order> {
+    const { otocoConfig } = params;
+    const capabilities = this.broker.getCapabilities();
+
+    if (!otocoConfig || capabilities.otoco !== 'none') {
+      return this.broker.placeOrder(params);
+    }
+
+    await this.checkTriggerCapacity(params.instrument, otocoConfig, capabilities);
+    for (const leg of [otocoConfig.stopLoss, otocoConfig.takeProfit]) {
+      if (leg?.trigger && !capabilities.triggerSources.includes(leg.trigger)) {
+        console.warn(`[BracketEmulator] ⚠️ ${leg.trigger} trigger not supported, broker default is used`);
+      }
+    }
+
+    // Legs are placed from order updates, so the stream must be running before the entry
+    await this.ensureOrderStream(params.instrument);
+
+    const label = params.label || `entry-otoco-${Date.now()}`;
+    const order = await this.broker.placeOrder({ ...params, otocoConfig: undefined, label });
+
+    const bracket: PendingBracket = {
+      entryOrderId: order.orderId,
+      instrument: params.instrument,
+      side: params.side,
+      label,
+      config: otocoConfig,
+    };
+    this.brackets.set(order.orderId, bracket);
+    console.log(`[BracketEmulator] 🔄 Emulated OTOCO armed for ${order.orderId} (SL: ${otocoConfig.stopLoss?.triggerPrice}, TP: ${otocoConfig.takeProfit?.price})`);
+
+    // Market entries usually fill synchronously; don't wait for the stream event
+    const latest = this.recentOrderUpdates.get(order.orderId) || order;
+    if (latest.status !== 'open' || latest.filled > 0) {
+      await this.handleBracketUpdate(latest);
+    }
+
+    return order;
+  }
+
+  async editOrder(orderId: string, instrument: string, changes: EditOrderParams): Promise<Order> {
+    // Detach the leg first: a cancel-and-replace amend must not close the OCO pair
+    const bracket = Array.from(this.brackets.values()).find(b => b.slOrderId === orderId || b.tpOrderId === orderId);
+    const leg = bracket?.slOrderId === orderId ? 'slOrderId' : 'tpOrderId';
+    if (bracket) bracket[leg] = undefined;
+
+    try {
+      const order = await this.broker.editOrder(orderId, instrument, changes);
+      if (bracket) bracket[leg] = order.orderId;
+      return order;
+    } catch (error) {
+      if (bracket) bracket[leg] = orderId;
+      throw error;
+    }
+  }
+
+  async subscribeOrders(instrument: string, callback: (order: Order) => void): Promise<void> {
+    this.orderSubscriptions.set(`orders:${instrument}`, callback);
+    await this.ensureOrderStream(instrument);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    if (this.orderSubscriptions.delete(channel)) {
+      // The wrapped stream stays up: pending brackets still need it
+      return;
+    }
+    await this.broker.unsubscribe(channel);
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.brackets.size > 0) {
+      console.warn(`[BracketEmulator] ⚠️ Disconnecting with ${this.brackets.size} pending bracket(s)`);
+    }
+    this.brackets.clear();
+    this.recentOrderUpdates.clear();
+    this.orderStreams.clear();
+    this.orderSubscriptions.clear();
+    await this.broker.disconnect();
+  }
+
+  /**
+   * Brackets waiting for their entry to fill or for a leg to close
+   */
+  getPendingBrackets(): Array<{ entryOrderId: string; instrument: string; slOrderId?: string; tpOrderId?: string }> {
+    return Array.from(this.brackets.values()).map(({ entryOrderId, instrument, slOrderId, tpOrderId }) => ({
+      entryOrderId,
+      instrument,
+      slOrderId,
+      tpOrderId,
+    }));
+  }
+
+  // ============================================================================
+  // Delegated
+  // ============================================================================
+
+  connect(credentials: Credentials): Promise<void> {
+    return this.broker.connect(credentials);
+  }
+
+  getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' | 'error' {
+    return this.broker.getConnectionStatus();
+  }
+
+  getBalance(currency?: string): Promise<Balance[]> {
+    return this.broker.getBalance(currency);
+  }
+
+  cancelOrder(orderId: string, instrument: string): Promise<void> {
+    return this.broker.cancelOrder(orderId, instrument);
+  }
+
+  cancelAllOrders(instrument?: string): Promise<void> {
+    return this.broker.cancelAllOrders(instrument);
+  }
+
+  getOrder(orderId: string, instrument: string): Promise<Order> {
+    return this.broker.getOrder(orderId, instrument);
+  }
+
+  getOpenOrders(instrument?: string): Promise<Order[]> {
+    return this.broker.getOpenOrders(instrument);
+  }
+
+  getPositions(instrument?: string): Promise<BrokerPosition[]> {
+    return this.broker.getPositions(instrument);
+  }
+
+  closePosition(instrument: string, params?: ClosePositionParams): Promise<Order> {
+    return this.broker.closePosition(instrument, params);
+  }
+
+  getCandles(instrument: string, timeframe: string, limit?: number): Promise<Candle[]> {
+    return this.broker.getCandles(instrument, timeframe, limit);
+  }
+
+  getFundingRateHistory(instrument: string, limit?: number): Promise<FundingRate[]> {
+    return this.broker.getFundingRateHistory(instrument, limit);
+  }
+
+  subscribeTrades(instrument: string, callback: (trade: Trade) => void): Promise<void> {
+    return this.broker.subscribeTrades(instrument, callback);
+  }
+
+  subscribeFills(instrument: string, callback: (fill: Trade) => void): Promise<void> {
+    return this.broker.subscribeFills(instrument, callback);
+  }
+
+  subscribeOrderBook(instrument: string, depth: number, callback: (book: OrderBookSnapshot) => void): Promise<void> {
+    return this.broker.subscribeOrderBook(instrument, depth, callback);
+  }
+
+  subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+    return this.broker.subscribeMarkPrice(instrument, callback);
+  }
+
+  getInstrumentInfo(instrument: string): Promise<{
+    minTradeAmount: number;
+    tickSize: number;
+    maxLeverage: number;
+    amountStep: number;
+  }> {
+    return this.broker.getInstrumentInfo(instrument);
+  }
+
+  startOrphanCleanup(): void {
+    this.broker.startOrphanCleanup();
+  }
+
+  stopOrphanCleanup(): void {
+    this.broker.stopOrphanCleanup();
+  }
+
+  scanAndCleanOrphans(): Promise<void> {
+    return this.broker.scanAndCleanOrphans();
+  }
+
+  // ============================================================================
+  // Emulated OTOCO
+  // ============================================================================
+
+  private async ensureOrderStream(instrument: string): Promise<void> {
+    if (this.orderStreams.has(instrument)) {
+      return;
+    }
+    this.orderStreams.add(instrument);
+
+    try {
+      await this.broker.subscribeOrders(instrument, (order) => this.handleOrderUpdate(instrument, order));
+    } catch (error) {
+      this.orderStreams.delete(instrument);
+      throw error;
+    }
+  }
+
+  private handleOrderUpdate(instrument: string, order: Order): void {
+    this.recentOrderUpdates.set(order.orderId, order);
+    if (this.recentOrderUpdates.size > this.MAX_RECENT_UPDATES) {
+      const oldest = this.recentOrderUpdates.keys().next().value;
+      if (oldest !== undefined) this.recentOrderUpdates.delete(oldest);
+    }
+
+    this.handleBracketUpdate(order).catch(err => {
+      console.error(`[BracketEmulator] ❌ Bracket handling failed for ${order.orderId}:`, err);
+    });
+
+    this.orderSubscriptions.get(`orders:${instrument}`)?.(order);
+  }
+
+  private async checkTriggerCapacity(instrument: string, config: OTOCOConfig, capabilities: BrokerCapabilities): Promise<void> {
+    if (capabilities.maxTriggerOrders === null) {
+      return;
+    }
+
+    const legs = (config.stopLoss ? 1 : 0) + (config.takeProfit?.type === 'take_market' ? 1 : 0);
+    const open = (await this.broker.getOpenOrders(instrument)).filter(o => isTriggerType(o.type)).length;
+    if (open + legs > capabilities.maxTriggerOrders) {
+      throw new Error(`Trigger order limit reached on ${instrument} (${open} open, max ${capabilities.maxTriggerOrders})`);
+    }
+  }
+
+  /**
+   * Cover the filled part of the entry: place the legs on the first fill, resize them as it grows
+   */
+  private protectFill(bracket: PendingBracket, filledAmount: number): Promise<void> {
+    const step = (bracket.protecting ?? Promise.resolve()).then(async () => {
+      if (filledAmount <= (bracket.coveredAmount ?? 0) || !this.brackets.has(bracket.entryOrderId)) {
+        return;
+      }
+      if (bracket.legsRequested) {
+        await this.resizeLegs(bracket, filledAmount);
+      } else {
+        await this.placeLegs(bracket, filledAmount);
+      }
+    });
+    bracket.protecting = step.catch(() => undefined);
+    return step;
+  }
+
+  private async placeLegs(bracket: PendingBracket, filledAmount: number): Promise<void> {
+    // Fill can be seen both in the placeOrder response and on the order stream
+    if (bracket.legsRequested) {
+      return;
+    }
+    bracket.legsRequested = true;
+
+    const exitSide = bracket.side === 'buy' ? 'sell' : 'buy';
+    const { reduceOnly, triggerSources } = this.broker.getCapabilities();
+    // Unsupported trigger sources fall back to the broker default (warned in placeOrder)
+    const trigger = (source?: TriggerSource) => (source && triggerSources.includes(source) ? source : undefined);
+    const { stopLoss, takeProfit } = bracket.config;
+
+    try {
+      if (stopLoss) {
+        const sl = await this.broker.placeOrder({
+          instrument: bracket.instrument,
+          side: exitSide,
+          type: stopLoss.type,
+          amount: filledAmount,
+          // A stop_limit triggers at triggerPrice and rests at its own limit price
+          price: stopLoss.type === 'stop_limit' ? stopLoss.price ?? stopLoss.triggerPrice : stopLoss.triggerPrice,
+          triggerPrice: stopLoss.triggerPrice,
+          trigger: trigger(stopLoss.trigger),
+          reduceOnly,
+          label: `${bracket.label}_sl`,
+        });
+        bracket.slOrderId = sl.orderId;
+      }
+
+      if (takeProfit?.price !== undefined) {
+        const tp = await this.broker.placeOrder({
+          instrument: bracket.instrument,
+          side: exitSide,
+          // A resting limit mirrors Deribit's TP leg (maker fee, no trigger)
+          type: takeProfit.type === 'take_limit' ? 'limit' : 'take_market',
+          amount: filledAmount,
+          price: takeProfit.price,
+          trigger: takeProfit.type === 'take_market' ? trigger(takeProfit.trigger) : undefined,
+          reduceOnly,
+          label: `${bracket.label}_tp`,
+        });
+        bracket.tpOrderId = tp.orderId;
+      }
+
+      bracket.coveredAmount = filledAmount;
+      console.log(`[BracketEmulator] ✅ Bracket legs placed for ${bracket.entryOrderId} (SL: ${bracket.slOrderId}, TP: ${bracket.tpOrderId})`);
+    } catch (error) {
+      // Never leave a filled entry unprotected: flatten and drop whatever leg made it
+      console.error(`[BracketEmulator] ❌ Bracket leg placement failed for ${bracket.entryOrderId}, flattening:`, error);
+      this.brackets.delete(bracket.entryOrderId);
+      // A partially filled entry must not keep filling without legs
+      await this.broker.cancelOrder(bracket.entryOrderId, bracket.instrument).catch(() => undefined);
+      for (const legId of [bracket.slOrderId, bracket.tpOrderId]) {
+        if (legId) await this.broker.cancelOrder(legId, bracket.instrument).catch(() => undefined);
+      }
+      await this.flatten(bracket, filledAmount);
+      throw error;
+    }
+
+    // A leg may have filled while its sibling was still being placed
+    for (const legId of [bracket.slOrderId, bracket.tpOrderId]) {
+      const update = legId && this.recentOrderUpdates.get(legId);
+      if (update && update.status !== 'open') {
+        await this.handleBracketUpdate(update);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Grow the legs to a larger fill; if that fails, stop the entry and flatten what they don't cover
+   */
+  private async resizeLegs(bracket: PendingBracket, filledAmount: number): Promise<void> {
+    try {
+      // editOrder keeps the OCO link when the broker amends by cancel and re-place
+      for (const legId of [bracket.slOrderId, bracket.tpOrderId]) {
+        if (legId) await this.editOrder(legId, bracket.instrument, { amount: filledAmount });
+      }
+      bracket.coveredAmount = filledAmount;
+      console.log(`[BracketEmulator] ✅ Bracket legs resized to ${filledAmount} for ${bracket.entryOrderId}`);
+    } catch (error) {
+      const uncovered = parseFloat((filledAmount - (bracket.coveredAmount ?? 0)).toFixed(8));
+      console.error(`[BracketEmulator] ❌ Resizing bracket legs failed for ${bracket.entryOrderId}, cancelling the entry and flattening ${uncovered}:`, error);
+      bracket.coveredAmount = filledAmount;
+      await this.broker.cancelOrder(bracket.entryOrderId, bracket.instrument).catch(() => undefined);
+      await this.flatten(bracket, uncovered);
+      throw error;
+    }
+  }
+
+  private async flatten(bracket: PendingBracket, amount: number): Promise<void> {
+    await this.broker.placeOrder({
+      instrument: bracket.instrument,
+      side: bracket.side === 'buy' ? 'sell' : 'buy',
+      type: 'market',
+      amount,
+      reduceOnly: this.broker.getCapabilities().reduceOnly,
+      label: `${bracket.label}_flat`,
+    }).catch(err => {
+      console.error(`[BracketEmulator] ❗ Flatten failed for ${bracket.instrument} - manual intervention required:`, err);
+    });
+  }
+
+  private async handleBracketUpdate(order: Order): Promise<void> {
+    for (const bracket of this.brackets.values()) {
+      if (order.orderId === bracket.entryOrderId) {
+        if (order.status === 'filled') {
+          await this.protectFill(bracket, order.filled || order.amount);
+        } else if (order.filled > 0) {
+          // Partial fill: protect what filled so far (also when the rest was cancelled)
+          await this.protectFill(bracket, order.filled);
+        } else if (order.status === 'cancelled' || order.status === 'rejected') {
+          this.brackets.delete(bracket.entryOrderId);
+        }
+        return;
+      }
+
+      const isSl = order.orderId === bracket.slOrderId;
+      const isTp = order.orderId === bracket.tpOrderId;
+      if (!isSl && !isTp) continue;
+
+      if (order.status !== 'open') {
+        const siblingId = isSl ? bracket.tpOrderId : bracket.slOrderId;
+        this.brackets.delete(bracket.entryOrderId);
+        if (siblingId) {
+          await this.broker.cancelOrder(siblingId, bracket.instrument).catch(err => {
+            console.warn(`[BracketEmulator] ⚠️ OCO sibling cancel failed (${siblingId}):`, err);
+          });
+        }
+        console.log(`[BracketEmulator] 🔚 Bracket ${bracket.entryOrderId} closed by ${isSl ? 'SL' : 'TP'} (${order.status})`);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Wrap a broker with BracketEmulator when it has no OTOCO support of its own
+ */
+export function withBracketEmulation(broker: IBroker): IBroker {
+  return broker.getCapabilities().otoco === 'none' ? new BracketEmulator(broker) : broker;
+}
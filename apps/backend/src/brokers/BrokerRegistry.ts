@@ -1,3 +1,23 @@
+import type { IBroker } from './IBroker';
+import { DeribitBroker } from './DeribitBroker';
+import { BinanceBroker } from './BinanceBroker';
+import { BybitBroker } from './BybitBroker';
+import { OKXBroker } from './OKXBroker';
+import { withBracketEmulation } from './BracketEmulator';
+import {
+  KrakenBroker,
+  BitgetBroker,
+  KucoinBroker,
+  MEXCBroker,
+  GateIOBroker,
+  BitMEXBroker,
+  HuobiBroker,
+  PhemexBroker,
+  CoinbaseBroker,
+  BitstampBroker,
+  BitfinexBroker,
+} from './StubBrokers';
+
 export interface BrokerMetadata {
   id: string;
   name: string;
@@ -259,3 +279,36 @@ export const BROKER_METADATA: Record<string, BrokerMetadata> = {
 };
 
 export const BROKER_WHITELIST = Object.keys(BROKER_METADATA);
+
+/**
+ * Broker implementations keyed by BROKER_METADATA id
+ */
+const BROKER_FACTORIES: Record<string, () => IBroker> = {
+  deribit: () => new DeribitBroker(),
+  binance: () => new BinanceBroker(),
+  bybit: () => new BybitBroker(),
+  okx: () => new OKXBroker(),
+  kraken: () => new KrakenBroker(),
+  bitget: () => new BitgetBroker(),
+  kucoin: () => new KucoinBroker(),
+  mexc: () => new MEXCBroker(),
+  gateio: () => new GateIOBroker(),
+  bitmex: () => new BitMEXBroker(),
+  huobi: () => new HuobiBroker(),
+  phemex: () => new PhemexBroker(),
+  coinbase: () => new CoinbaseBroker(),
+  bitstamp: () => new BitstampBroker(),
+  bitfinex: () => new BitfinexBroker(),
+};
+
+/**
+ * Create a new (unconnected) broker instance for a whitelisted broker id
+ * Brokers without OTOCO support are wrapped so otocoConfig works everywhere
+ */
+export function createBroker(brokerId: string): IBroker {
+  const factory = BROKER_FACTORIES[brokerId];
+  if (!factory) {
+    throw new Error(`Unknown broker: ${brokerId}`);
+  }
+  return withBracketEmulation(factory());
+}
@@ -1,54 +1,518 @@
-import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams } from './IBroker';
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams, BrokerPosition, ClosePositionParams, EditOrderParams, BrokerCapabilities, OrderBookSnapshot, MarkPriceUpdate, FundingRate } from './IBroker';
+import { instrumentRegistry } from '../instruments/instrument-registry';
+
+/**
+ * Bybit v5 Unified Trading broker (linear USDT perpetuals)
+ *
+ * - REST: HMAC-SHA256 signed requests against /v5 endpoints
+ * - Public WS: publicTrade.* topics for subscribeTrades, tickers.* for subscribeMarkPrice
+ * - Private WS: order/execution topics for subscribeOrders/subscribeFills (authenticated with signed expiry)
+ * - Both streams reconnect with backoff and resubscribe their topics; the private
+ *   stream re-authenticates first
+ * - OTOCO: mapped to Bybit attached TP/SL (tpslMode=Full) on the entry order
+ *
+ * Endpoints can be overridden (constructor or credentials) to run against a
+ * local mock Bybit server.
+ */
+
+export interface BybitEndpoints {
+  restUrl: string;
+  publicWsUrl: string;
+  privateWsUrl: string;
+}
+
+export const BYBIT_ENDPOINTS: Record<'live' | 'testnet', BybitEndpoints> = {
+  live: {
+    restUrl: 'https://api.bybit.com',
+    publicWsUrl: 'wss://stream.bybit.com/v5/public/linear',
+    privateWsUrl: 'wss://stream.bybit.com/v5/private',
+  },
+  testnet: {
+    restUrl: 'https://api-testnet.bybit.com',
+    publicWsUrl: 'wss://stream-testnet.bybit.com/v5/public/linear',
+    privateWsUrl: 'wss://stream-testnet.bybit.com/v5/private',
+  },
+};
+
+export class BybitApiError extends Error {
+  constructor(message: string, public retCode: number, public endpoint: string) {
+    super(message);
+    this.name = 'BybitApiError';
+  }
+}
+
+const CATEGORY = 'linear';
+const RECV_WINDOW = 5000;
+const PING_INTERVAL = 20000; // Bybit drops idle sockets after ~30s
+const MAX_KLINE_LIMIT = 1000;
+const MAX_FUNDING_HISTORY_LIMIT = 200;
+const FUNDING_INTERVAL_HOURS = 8; // default for linear perpetuals
+
+// Tradebaas timeframe -> Bybit kline interval
+const TIMEFRAME_MAP: Record<string, string> = {
+  '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30',
+  '1h': '60', '2h': '120', '4h': '240', '6h': '360', '12h': '720',
+  '1d': 'D', '1w': 'W',
+};
+
+const TRIGGER_MAP: Record<string, string> = {
+  last_price: 'LastPrice',
+  mark_price: 'MarkPrice',
+  index_price: 'IndexPrice',
+};
+
+type StreamKind = 'public' | 'private';
+
+const CAPABILITIES: BrokerCapabilities = {
+  otoco: 'native', // attached TP/SL
+  reduceOnly: true,
+  postOnly: true,
+  triggerSources: ['last_price', 'mark_price', 'index_price'],
+  maxTriggerOrders: 10, // active conditional orders per symbol
+};
 
 export class BybitBroker implements IBroker {
   private connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
+  private credentials: Credentials | null = null;
+  private endpoints: BybitEndpoints;
+  private endpointOverrides: Partial<BybitEndpoints>;
+
+  private publicWs: WebSocket | null = null;
+  private privateWs: WebSocket | null = null;
+  private pingTimers = new Set<NodeJS.Timeout>(); // one per open socket
+  private reconnectTimers = new Map<StreamKind, NodeJS.Timeout>();
+  private reconnectAttempts: Record<StreamKind, number> = { public: 0, private: 0 };
+  private readonly reconnectDelays = [1000, 2000, 4000, 8000, 16000]; // Exponential backoff, capped
+  private readonly AUTH_TIMEOUT = 10000;
+
+  // Channel -> callback. Public channels are Bybit topics (publicTrade.BTCUSDT),
+  // order/fill channels are local aliases (order.BTCUSDT, execution.BTCUSDT) on the
+  // shared `order` and `execution` topics.
+  private tradeSubscriptions = new Map<string, (trade: Trade) => void>();
+  private orderSubscriptions = new Map<string, (order: Order) => void>();
+  private fillSubscriptions = new Map<string, (fill: Trade) => void>();
+  // tickers.<symbol> -> callback; ticker deltas only carry changed fields, merged into tickerState
+  private markPriceSubscriptions = new Map<string, (update: MarkPriceUpdate) => void>();
+  private tickerState = new Map<string, Record<string, string>>();
+
+  private instrumentCache = new Map<string, {
+    minTradeAmount: number;
+    tickSize: number;
+    maxLeverage: number;
+    amountStep: number;
+    cachedAt: number;
+  }>();
+  private readonly CACHE_TTL = 3600000; // 1 hour
+
+  constructor(endpoints: Partial<BybitEndpoints> = {}) {
+    this.endpointOverrides = endpoints;
+    this.endpoints = { ...BYBIT_ENDPOINTS.live, ...endpoints };
+  }
 
   async connect(credentials: Credentials): Promise<void> {
-    throw new Error('Bybit broker not yet implemented');
+    try {
+      this.connectionStatus = 'connecting';
+      this.credentials = credentials;
+
+      const env = credentials.testnet ? 'testnet' : 'live';
+      this.endpoints = {
+        ...BYBIT_ENDPOINTS[env],
+        ...this.endpointOverrides,
+        ...(credentials.restUrl && { restUrl: credentials.restUrl }),
+        ...(credentials.publicWsUrl && { publicWsUrl: credentials.publicWsUrl }),
+        ...(credentials.privateWsUrl && { privateWsUrl: credentials.privateWsUrl }),
+      };
+
+      // Validate API key with a signed call before opening streams
+      await this.signedRequest('GET', '/v5/account/wallet-balance', { accountType: 'UNIFIED' });
+
+      this.connectionStatus = 'connected';
+      console.log(`[BybitBroker] Connected to ${env}`);
+    } catch (error) {
+      this.connectionStatus = 'error';
+      console.error('[BybitBroker] Connection failed:', error);
+      throw error;
+    }
   }
 
   async disconnect(): Promise<void> {
+    for (const timer of this.pingTimers) {
+      clearInterval(timer);
+    }
+    this.pingTimers.clear();
+    for (const timer of this.reconnectTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reconnectTimers.clear();
+    this.reconnectAttempts = { public: 0, private: 0 };
+
+    this.publicWs?.removeAllListeners();
+    this.publicWs?.close();
+    this.privateWs?.removeAllListeners();
+    this.privateWs?.close();
+    this.publicWs = null;
+    this.privateWs = null;
+
+    this.tradeSubscriptions.clear();
+    this.orderSubscriptions.clear();
+    this.fillSubscriptions.clear();
+    this.markPriceSubscriptions.clear();
+    this.tickerState.clear();
+    this.credentials = null;
     this.connectionStatus = 'disconnected';
+    console.log('[BybitBroker] Disconnected');
   }
 
   getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' | 'error' {
     return this.connectionStatus;
   }
 
+  getCapabilities(): BrokerCapabilities {
+    return CAPABILITIES;
+  }
+
   async getBalance(currency?: string): Promise<Balance[]> {
-    throw new Error('Bybit broker not yet implemented');
+    const result = await this.signedRequest('GET', '/v5/account/wallet-balance', {
+      accountType: 'UNIFIED',
+      ...(currency && { coin: currency }),
+    });
+
+    const coins: any[] = result.list?.[0]?.coin || [];
+
+    return coins
+      .filter(c => !currency || c.coin === currency)
+      .map(c => {
+        const total = parseFloat(c.walletBalance || '0');
+        const locked = parseFloat(c.totalPositionIM || '0') + parseFloat(c.totalOrderIM || '0');
+        return {
+          currency: c.coin,
+          available: total - locked,
+          total,
+          locked,
+        };
+      });
   }
 
   async placeOrder(params: PlaceOrderParams): Promise<Order> {
-    throw new Error('Bybit broker not yet implemented');
+    const { instrument, side, type, amount, price, otocoConfig, reduceOnly, postOnly, label } = params;
+
+    const body: Record<string, any> = {
+      category: CATEGORY,
+      symbol: instrument,
+      side: side === 'buy' ? 'Buy' : 'Sell',
+      qty: String(amount),
+      ...(label && { orderLinkId: label }),
+      ...(reduceOnly && { reduceOnly: true }),
+    };
+
+    switch (type) {
+      case 'market':
+        body.orderType = 'Market';
+        break;
+      case 'limit':
+        if (price === undefined) throw new Error('Limit order requires price');
+        body.orderType = 'Limit';
+        body.price = String(price);
+        if (postOnly) body.timeInForce = 'PostOnly';
+        break;
+      case 'stop_market':
+      case 'take_market':
+      case 'stop_limit':
+      case 'take_limit': {
+        const triggerPrice = params.triggerPrice ?? price;
+        if (triggerPrice === undefined) throw new Error(`${type} order requires trigger price`);
+        const isLimit = type.endsWith('_limit');
+        const isStop = type.startsWith('stop');
+        body.orderType = isLimit ? 'Limit' : 'Market';
+        body.triggerPrice = String(triggerPrice);
+        // Stops trigger against the position: buy-stop on rise, sell-stop on fall (inverse for take)
+        const risesToTrigger = (side === 'buy') === isStop;
+        body.triggerDirection = risesToTrigger ? 1 : 2;
+        body.triggerBy = 'MarkPrice';
+        if (isLimit) body.price = String(price ?? triggerPrice);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported order type for Bybit: ${type}`);
+    }
+
+    if (otocoConfig) {
+      // Bybit attaches TP/SL to the entry; they become reduce-only conditionals once filled
+      body.tpslMode = 'Full';
+      if (otocoConfig.takeProfit?.price !== undefined) {
+        body.takeProfit = String(otocoConfig.takeProfit.price);
+        body.tpTriggerBy = TRIGGER_MAP[otocoConfig.takeProfit.trigger || 'last_price'];
+        if (otocoConfig.takeProfit.type === 'take_limit') {
+          body.tpOrderType = 'Limit';
+          body.tpLimitPrice = String(otocoConfig.takeProfit.price);
+        } else {
+          body.tpOrderType = 'Market';
+        }
+      }
+      if (otocoConfig.stopLoss) {
+        body.stopLoss = String(otocoConfig.stopLoss.triggerPrice);
+        body.slTriggerBy = TRIGGER_MAP[otocoConfig.stopLoss.trigger || 'mark_price'];
+        if (otocoConfig.stopLoss.type === 'stop_limit' && otocoConfig.stopLoss.price !== undefined) {
+          body.slOrderType = 'Limit';
+          body.slLimitPrice = String(otocoConfig.stopLoss.price);
+        } else {
+          body.slOrderType = 'Market';
+        }
+      }
+    }
+
+    console.log(`[BybitBroker] Placing ${type} ${side} ${amount} ${instrument}${price ? ` @ ${price}` : ''}`);
+    const result = await this.signedRequest('POST', '/v5/order/create', body);
+    console.log(`[BybitBroker] ✅ Order placed: ${result.orderId}`);
+
+    return {
+      orderId: result.orderId,
+      instrument,
+      side,
+      type,
+      amount,
+      price,
+      filled: 0,
+      status: 'open',
+      timestamp: Date.now(),
+      label: result.orderLinkId || label,
+    };
   }
 
   async cancelOrder(orderId: string, instrument: string): Promise<void> {
-    throw new Error('Bybit broker not yet implemented');
+    await this.signedRequest('POST', '/v5/order/cancel', {
+      category: CATEGORY,
+      symbol: instrument,
+      orderId,
+    });
+    console.log(`[BybitBroker] ✅ Order canceled: ${orderId}`);
   }
 
   async cancelAllOrders(instrument?: string): Promise<void> {
-    throw new Error('Bybit broker not yet implemented');
+    const result = await this.signedRequest('POST', '/v5/order/cancel-all', {
+      category: CATEGORY,
+      ...(instrument ? { symbol: instrument } : { settleCoin: 'USDT' }),
+    });
+    console.log(`[BybitBroker] ✅ All orders canceled (${result.list?.length || 0} orders)`);
   }
 
   async getOrder(orderId: string, instrument: string): Promise<Order> {
-    throw new Error('Bybit broker not yet implemented');
+    return this.mapOrder(await this.getRawOrder(orderId, instrument));
+  }
+
+  private async getRawOrder(orderId: string, instrument: string): Promise<any> {
+    const open = await this.signedRequest('GET', '/v5/order/realtime', {
+      category: CATEGORY,
+      symbol: instrument,
+      orderId,
+    });
+    let raw = open.list?.[0];
+
+    if (!raw) {
+      const history = await this.signedRequest('GET', '/v5/order/history', {
+        category: CATEGORY,
+        symbol: instrument,
+        orderId,
+      });
+      raw = history.list?.[0];
+    }
+
+    if (!raw) {
+      throw new Error(`Order ${orderId} not found on ${instrument}`);
+    }
+
+    return raw;
+  }
+
+  async getOpenOrders(instrument?: string): Promise<Order[]> {
+    const result = await this.signedRequest('GET', '/v5/order/realtime', {
+      category: CATEGORY,
+      ...(instrument ? { symbol: instrument } : { settleCoin: 'USDT' }),
+    });
+
+    return (result.list || []).map((o: any) => this.mapOrder(o));
   }
 
-  async getCandles(instrument: string, timeframe: string, limit?: number): Promise<Candle[]> {
-    throw new Error('Bybit broker not yet implemented');
+  /**
+   * Amend an open order; for conditional orders the price is the trigger price (see EditOrderParams)
+   */
+  async editOrder(orderId: string, instrument: string, changes: EditOrderParams): Promise<Order> {
+    const raw = await this.getRawOrder(orderId, instrument);
+    const current = this.mapOrder(raw);
+    const isConditional = /^(stop|take)_/.test(current.type);
+    const isConditionalLimit = isConditional && current.type.endsWith('_limit');
+
+    const body: Record<string, any> = {
+      category: CATEGORY,
+      symbol: instrument,
+      orderId,
+      ...(changes.amount !== undefined && { qty: String(changes.amount) }),
+    };
+    if (changes.price !== undefined) {
+      body[isConditional ? 'triggerPrice' : 'price'] = String(changes.price);
+    }
+    let limitPrice: number | undefined;
+    if (isConditionalLimit && (changes.price !== undefined || changes.limitPrice !== undefined)) {
+      // Conditional limits keep their offset between trigger and limit price
+      const trigger = parseFloat(raw.triggerPrice);
+      limitPrice = changes.limitPrice ?? parseFloat(raw.price) + (changes.price! - trigger);
+      body.price = String(limitPrice);
+    }
+
+    await this.signedRequest('POST', '/v5/order/amend', body);
+    console.log(`[BybitBroker] ✅ Order amended: ${orderId}`);
+
+    return {
+      ...current,
+      amount: changes.amount ?? current.amount,
+      price: limitPrice ?? changes.price ?? current.price,
+    };
+  }
+
+  async getPositions(instrument?: string): Promise<BrokerPosition[]> {
+    const result = await this.signedRequest('GET', '/v5/position/list', {
+      category: CATEGORY,
+      ...(instrument ? { symbol: instrument } : { settleCoin: 'USDT' }),
+    });
+
+    return (result.list || [])
+      .filter((p: any) => parseFloat(p.size || '0') !== 0)
+      .map((p: any) => ({
+        instrument: p.symbol,
+        side: p.side === 'Buy' ? 'long' as const : 'short' as const,
+        size: parseFloat(p.size),
+        entryPrice: parseFloat(p.avgPrice),
+        markPrice: parseFloat(p.markPrice),
+        unrealizedPnl: parseFloat(p.unrealisedPnl || '0'),
+        realizedPnl: parseFloat(p.cumRealisedPnl || '0'),
+        leverage: parseFloat(p.leverage || '0'),
+      }));
+  }
+
+  /**
+   * Close (part of) a position with a reduce-only market or limit order
+   */
+  async closePosition(instrument: string, params: ClosePositionParams = {}): Promise<Order> {
+    const [position] = await this.getPositions(instrument);
+    if (!position) {
+      throw new Error(`No open position on ${instrument}`);
+    }
+
+    const order = await this.placeOrder({
+      instrument,
+      side: position.side === 'long' ? 'sell' : 'buy',
+      type: params.type ?? 'market',
+      amount: Math.min(params.amount ?? position.size, position.size),
+      price: params.price,
+      reduceOnly: true,
+      label: params.label,
+    });
+    console.log(`[BybitBroker] ✅ Closing ${position.side} ${instrument}: ${order.amount}/${position.size}`);
+    return order;
+  }
+
+  async getCandles(instrument: string, timeframe: string, limit: number = 200): Promise<Candle[]> {
+    const interval = TIMEFRAME_MAP[timeframe] || timeframe;
+
+    const result = await this.publicRequest('/v5/market/kline', {
+      category: CATEGORY,
+      symbol: instrument,
+      interval,
+      limit: String(Math.min(limit, MAX_KLINE_LIMIT)),
+    });
+
+    // Bybit returns newest first: [start, open, high, low, close, volume, turnover]
+    return (result.list || [])
+      .map((k: string[]) => ({
+        timestamp: parseInt(k[0], 10),
+        open: parseFloat(k[1]),
+        high: parseFloat(k[2]),
+        low: parseFloat(k[3]),
+        close: parseFloat(k[4]),
+        volume: parseFloat(k[5]),
+      }))
+      .reverse();
+  }
+
+  async getFundingRateHistory(instrument: string, limit: number = 200): Promise<FundingRate[]> {
+    const result = await this.publicRequest('/v5/market/funding/history', {
+      category: CATEGORY,
+      symbol: instrument,
+      limit: String(Math.min(limit, MAX_FUNDING_HISTORY_LIMIT)),
+    });
+
+    // Newest first
+    return (result.list || [])
+      .map((f: any) => ({
+        instrument: f.symbol,
+        rate: parseFloat(f.fundingRate),
+        intervalHours: FUNDING_INTERVAL_HOURS,
+        timestamp: parseInt(f.fundingRateTimestamp, 10),
+      }))
+      .reverse();
   }
 
   async subscribeTrades(instrument: string, callback: (trade: Trade) => void): Promise<void> {
-    throw new Error('Bybit broker not yet implemented');
+    const topic = `publicTrade.${instrument}`;
+    const ws = await this.ensurePublicWs();
+
+    this.tradeSubscriptions.set(topic, callback);
+    ws.send(JSON.stringify({ op: 'subscribe', args: [topic] }));
+    console.log(`[BybitBroker] Subscribed to ${topic}`);
   }
 
   async subscribeOrders(instrument: string, callback: (order: Order) => void): Promise<void> {
-    throw new Error('Bybit broker not yet implemented');
+    const channel = `order.${instrument}`;
+    const ws = await this.ensurePrivateWs();
+
+    const alreadySubscribed = this.orderSubscriptions.size > 0;
+    this.orderSubscriptions.set(channel, callback);
+
+    if (!alreadySubscribed) {
+      ws.send(JSON.stringify({ op: 'subscribe', args: ['order'] }));
+    }
+    console.log(`[BybitBroker] Subscribed to ${channel}`);
+  }
+
+  async subscribeFills(instrument: string, callback: (fill: Trade) => void): Promise<void> {
+    const channel = `execution.${instrument}`;
+    const ws = await this.ensurePrivateWs();
+
+    const alreadySubscribed = this.fillSubscriptions.size > 0;
+    this.fillSubscriptions.set(channel, callback);
+
+    if (!alreadySubscribed) {
+      ws.send(JSON.stringify({ op: 'subscribe', args: ['execution'] }));
+    }
+    console.log(`[BybitBroker] Subscribed to ${channel}`);
+  }
+
+  async subscribeOrderBook(instrument: string, depth: number, callback: (book: OrderBookSnapshot) => void): Promise<void> {
+    // Local book maintenance (see OrderBook.ts) is only wired up for Deribit so far
+    throw new Error('subscribeOrderBook not implemented for Bybit yet');
+  }
+
+  async subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+    const topic = `tickers.${instrument}`;
+    const ws = await this.ensurePublicWs();
+
+    this.markPriceSubscriptions.set(topic, callback);
+    ws.send(JSON.stringify({ op: 'subscribe', args: [topic] }));
+    console.log(`[BybitBroker] Subscribed to ${topic}`);
   }
 
   async unsubscribe(channel: string): Promise<void> {
-    throw new Error('Bybit broker not yet implemented');
+    if (this.tradeSubscriptions.delete(channel) || this.markPriceSubscriptions.delete(channel)) {
+      this.tickerState.delete(channel);
+      this.publicWs?.send(JSON.stringify({ op: 'unsubscribe', args: [channel] }));
+    } else if (this.orderSubscriptions.delete(channel) && this.orderSubscriptions.size === 0) {
+      this.privateWs?.send(JSON.stringify({ op: 'unsubscribe', args: ['order'] }));
+    } else if (this.fillSubscriptions.delete(channel) && this.fillSubscriptions.size === 0) {
+      this.privateWs?.send(JSON.stringify({ op: 'unsubscribe', args: ['execution'] }));
+    }
+    console.log(`[BybitBroker] Unsubscribed from ${channel}`);
   }
 
   async getInstrumentInfo(instrument: string): Promise<{
@@ -57,22 +521,437 @@ export class BybitBroker implements IBroker {
     maxLeverage: number;
     amountStep: number;
   }> {
-    throw new Error('Bybit broker not yet implemented');
-  }
+    const symbol = instrumentRegistry.toNative(instrument, 'bybit');
+    const cached = this.instrumentCache.get(symbol);
+    if (cached && Date.now() - cached.cachedAt < this.CACHE_TTL) {
+      const { cachedAt, ...info } = cached;
+      return info;
+    }
 
-  async getOpenOrders(instrument?: string): Promise<Order[]> {
-    throw new Error('Bybit broker not yet implemented');
+    const result = await this.publicRequest('/v5/market/instruments-info', {
+      category: CATEGORY,
+      symbol,
+    });
+
+    const raw = result.list?.[0];
+    if (!raw) {
+      throw new Error(`Instrument ${symbol} not found on Bybit`);
+    }
+
+    const info = {
+      minTradeAmount: parseFloat(raw.lotSizeFilter.minOrderQty),
+      tickSize: parseFloat(raw.priceFilter.tickSize),
+      maxLeverage: parseFloat(raw.leverageFilter.maxLeverage),
+      amountStep: parseFloat(raw.lotSizeFilter.qtyStep),
+    };
+
+    this.instrumentCache.set(symbol, { ...info, cachedAt: Date.now() });
+    return info;
   }
 
   async startOrphanCleanup(): Promise<void> {
-    // No-op for Bybit (not implemented yet)
+    // No-op: Bybit attached TP/SL are cancelled by the exchange when the position closes
   }
 
   async stopOrphanCleanup(): Promise<void> {
-    // No-op for Bybit (not implemented yet)
+    // No-op: see startOrphanCleanup
   }
 
   async scanAndCleanOrphans(): Promise<void> {
-    // No-op for Bybit (not implemented yet)
+    // No-op: see startOrphanCleanup
+  }
+
+  // ============================================================================
+  // REST
+  // ============================================================================
+
+  private sign(payload: string): string {
+    return crypto
+      .createHmac('sha256', this.credentials!.apiSecret)
+      .update(payload)
+      .digest('hex');
+  }
+
+  private async signedRequest(method: 'GET' | 'POST', path: string, params: Record<string, any>): Promise<any> {
+    if (!this.credentials) {
+      throw new Error('Not connected');
+    }
+
+    const timestamp = Date.now().toString();
+    const query = method === 'GET' ? new URLSearchParams(params).toString() : '';
+    const body = method === 'POST' ? JSON.stringify(params) : '';
+    const signature = this.sign(`${timestamp}${this.credentials.apiKey}${RECV_WINDOW}${query || body}`);
+
+    const url = `${this.endpoints.restUrl}${path}${query ? `?${query}` : ''}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-BAPI-API-KEY': this.credentials.apiKey,
+        'X-BAPI-TIMESTAMP': timestamp,
+        'X-BAPI-RECV-WINDOW': String(RECV_WINDOW),
+        'X-BAPI-SIGN': signature,
+      },
+      ...(body && { body }),
+    });
+
+    return this.unwrap(response, path);
+  }
+
+  private async publicRequest(path: string, params: Record<string, string>): Promise<any> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${this.endpoints.restUrl}${path}?${query}`);
+    return this.unwrap(response, path);
+  }
+
+  private async unwrap(response: Response, path: string): Promise<any> {
+    if (!response.ok) {
+      throw new BybitApiError(`HTTP ${response.status} from ${path}`, response.status, path);
+    }
+
+    const json = await response.json() as { retCode: number; retMsg: string; result: any };
+    if (json.retCode !== 0) {
+      throw new BybitApiError(json.retMsg || 'Unknown Bybit error', json.retCode, path);
+    }
+
+    return json.result;
+  }
+
+  // ============================================================================
+  // WebSocket
+  // ============================================================================
+
+  private async ensurePublicWs(): Promise<WebSocket> {
+    if (this.publicWs && this.publicWs.readyState === WebSocket.OPEN) {
+      return this.publicWs;
+    }
+
+    const ws = await this.openSocket(this.endpoints.publicWsUrl);
+    ws.on('message', (data) => this.handlePublicMessage(data.toString()));
+    ws.on('close', () => this.handleStreamClose('public', ws));
+    this.publicWs = ws;
+    return ws;
+  }
+
+  /**
+   * Topics of every publicTrade and tickers subscription
+   */
+  private activePublicTopics(): string[] {
+    return [...this.tradeSubscriptions.keys(), ...this.markPriceSubscriptions.keys()];
+  }
+
+  private async ensurePrivateWs(): Promise<WebSocket> {
+    if (this.privateWs && this.privateWs.readyState === WebSocket.OPEN) {
+      return this.privateWs;
+    }
+    if (!this.credentials) {
+      throw new Error('Not connected');
+    }
+
+    return this.openPrivateWs();
+  }
+
+  private async openPrivateWs(): Promise<WebSocket> {
+    const ws = await this.openSocket(this.endpoints.privateWsUrl);
+    try {
+      await this.authenticate(ws);
+    } catch (error) {
+      ws.terminate();
+      throw error;
+    }
+
+    ws.on('message', (data) => this.handlePrivateMessage(data.toString()));
+    ws.on('close', () => this.handleStreamClose('private', ws));
+    this.privateWs = ws;
+    console.log('[BybitBroker] Private stream authenticated');
+    return ws;
+  }
+
+  /**
+   * Sign in on the private stream; rejects if Bybit does not answer within AUTH_TIMEOUT
+   */
+  private authenticate(ws: WebSocket): Promise<void> {
+    const expires = Date.now() + 10000;
+    const signature = this.sign(`GET/realtime${expires}`);
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        ws.off('message', onAuth);
+        reject(new BybitApiError(`WebSocket auth timed out after ${this.AUTH_TIMEOUT}ms`, -1, 'ws/auth'));
+      }, this.AUTH_TIMEOUT);
+
+      const onAuth = (data: WebSocket.RawData) => {
+        const msg = JSON.parse(data.toString());
+        if (msg.op !== 'auth') return;
+        clearTimeout(timer);
+        ws.off('message', onAuth);
+        if (msg.success) {
+          resolve();
+        } else {
+          reject(new BybitApiError(msg.ret_msg || 'WebSocket auth failed', -1, 'ws/auth'));
+        }
+      };
+      ws.on('message', onAuth);
+      ws.send(JSON.stringify({ op: 'auth', args: [this.credentials!.apiKey, expires, signature] }));
+    });
+  }
+
+  /**
+   * Stream closed: reconnect unless it was replaced, nothing listens on it any more,
+   * or the broker disconnected
+   */
+  private handleStreamClose(kind: StreamKind, ws: WebSocket): void {
+    if (kind === 'public') {
+      if (ws !== this.publicWs) return;
+      this.publicWs = null;
+      if (this.activePublicTopics().length === 0) return;
+    } else {
+      if (ws !== this.privateWs) return;
+      this.privateWs = null;
+      if (!this.credentials) return;
+    }
+
+    console.log(`[BybitBroker] 🔄 ${kind === 'public' ? 'Public' : 'Private'} stream lost - scheduling reconnect...`);
+    this.scheduleReconnect(kind);
+  }
+
+  /**
+   * Reopen a stream with exponential backoff. The public stream resubscribes its
+   * publicTrade/tickers topics; the private stream re-authenticates and resubscribes
+   * the shared `order` and `execution` topics.
+   */
+  private scheduleReconnect(kind: StreamKind): void {
+    if (this.reconnectTimers.has(kind)) return;
+
+    const attempt = this.reconnectAttempts[kind]++;
+    const delay = this.reconnectDelays[attempt] || this.reconnectDelays[this.reconnectDelays.length - 1];
+
+    this.reconnectTimers.set(kind, setTimeout(async () => {
+      this.reconnectTimers.delete(kind);
+
+      try {
+        const resubscribed = kind === 'public' ? await this.reopenPublicWs() : await this.reopenPrivateWs();
+        if (!resubscribed) return;
+        this.reconnectAttempts[kind] = 0;
+        console.log(`[BybitBroker] ✅ ${kind === 'public' ? 'Public' : 'Private'} stream reconnected`);
+      } catch (error) {
+        console.error(`[BybitBroker] ❌ ${kind} stream reconnect attempt ${this.reconnectAttempts[kind]} failed:`, error);
+        if (kind === 'public' ? this.activePublicTopics().length > 0 : this.credentials) {
+          this.scheduleReconnect(kind);
+        }
+      }
+    }, delay));
+  }
+
+  /**
+   * @returns false if nothing listens on the public stream any more
+   */
+  private async reopenPublicWs(): Promise<boolean> {
+    if (this.activePublicTopics().length === 0) return false;
+
+    const ws = await this.ensurePublicWs();
+    const topics = this.activePublicTopics();
+    if (topics.length === 0) {
+      // Unsubscribed or disconnected while the stream was reopening
+      this.publicWs = null;
+      ws.close(); // its close event no longer matches publicWs
+      return false;
+    }
+
+    // Ticker deltas are merged into state; start over from the snapshot the resubscribe sends
+    this.tickerState.clear();
+    ws.send(JSON.stringify({ op: 'subscribe', args: topics }));
+    return true;
+  }
+
+  /**
+   * @returns false if the broker disconnected
+   */
+  private async reopenPrivateWs(): Promise<boolean> {
+    if (!this.credentials) return false;
+
+    const ws = await this.ensurePrivateWs();
+    if (!this.credentials) {
+      // Disconnected while the stream was reopening
+      this.privateWs = null;
+      ws.close(); // its close event no longer matches privateWs
+      return false;
+    }
+
+    const topics = [
+      ...(this.orderSubscriptions.size > 0 ? ['order'] : []),
+      ...(this.fillSubscriptions.size > 0 ? ['execution'] : []),
+    ];
+    if (topics.length > 0) {
+      ws.send(JSON.stringify({ op: 'subscribe', args: topics }));
+    }
+    return true;
+  }
+
+  private openSocket(url: string): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+
+      ws.once('open', () => {
+        const timer = setInterval(() => {
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify({ op: 'ping' }));
+          }
+        }, PING_INTERVAL);
+        this.pingTimers.add(timer);
+        ws.once('close', () => {
+          clearInterval(timer);
+          this.pingTimers.delete(timer);
+        });
+        resolve(ws);
+      });
+
+      ws.once('error', (error) => {
+        console.error(`[BybitBroker] WebSocket error (${url}):`, error);
+        reject(error);
+      });
+    });
+  }
+
+  private handlePublicMessage(raw: string): void {
+    try {
+      const msg = JSON.parse(raw);
+      if (!msg.topic) return;
+
+      if (msg.topic.startsWith('tickers.')) {
+        this.handleTicker(msg);
+        return;
+      }
+
+      const callback = this.tradeSubscriptions.get(msg.topic);
+      if (!callback) return;
+
+      for (const t of msg.data || []) {
+        callback({
+          tradeId: t.i,
+          orderId: '',
+          instrument: t.s,
+          side: t.S === 'Buy' ? 'buy' : 'sell',
+          amount: parseFloat(t.v),
+          price: parseFloat(t.p),
+          timestamp: t.T,
+        });
+      }
+    } catch (error) {
+      console.error('[BybitBroker] Error parsing public message:', error);
+    }
+  }
+
+  private handleTicker(msg: any): void {
+    const callback = this.markPriceSubscriptions.get(msg.topic);
+    if (!callback) return;
+
+    const state = msg.type === 'snapshot'
+      ? { ...msg.data }
+      : { ...this.tickerState.get(msg.topic), ...msg.data };
+    this.tickerState.set(msg.topic, state);
+    if (!state.markPrice) return;
+
+    callback({
+      instrument: state.symbol,
+      markPrice: parseFloat(state.markPrice),
+      indexPrice: parseFloat(state.indexPrice),
+      fundingRate: parseFloat(state.fundingRate || '0'),
+      fundingIntervalHours: FUNDING_INTERVAL_HOURS,
+      nextFundingTime: state.nextFundingTime ? parseInt(state.nextFundingTime, 10) : undefined,
+      timestamp: msg.ts,
+    });
+  }
+
+  private handlePrivateMessage(raw: string): void {
+    try {
+      const msg = JSON.parse(raw);
+      if (msg.topic === 'execution') {
+        this.handleExecutions(msg.data || []);
+        return;
+      }
+      if (msg.topic !== 'order') return;
+
+      for (const o of msg.data || []) {
+        if (o.category && o.category !== CATEGORY) continue;
+        const callback = this.orderSubscriptions.get(`order.${o.symbol}`);
+        callback?.(this.mapOrder(o));
+      }
+    } catch (error) {
+      console.error('[BybitBroker] Error parsing private message:', error);
+    }
+  }
+
+  /**
+   * Own executions; funding settlements come through the same topic but are not fills
+   */
+  private handleExecutions(executions: any[]): void {
+    for (const e of executions) {
+      if (e.category && e.category !== CATEGORY) continue;
+      if (e.execType === 'Funding') continue;
+      const callback = this.fillSubscriptions.get(`execution.${e.symbol}`);
+      callback?.({
+        tradeId: e.execId,
+        orderId: e.orderId,
+        instrument: e.symbol,
+        side: e.side === 'Buy' ? 'buy' : 'sell',
+        amount: parseFloat(e.execQty),
+        price: parseFloat(e.execPrice),
+        timestamp: parseInt(e.execTime, 10),
+        fee: parseFloat(e.execFee || '0'),
+        label: e.orderLinkId || undefined,
+      });
+    }
+  }
+
+  private mapOrder(o: any): Order {
+    const price = parseFloat(o.price || '0') || parseFloat(o.triggerPrice || '0') || undefined;
+
+    return {
+      orderId: o.orderId,
+      instrument: o.symbol,
+      side: o.side === 'Buy' ? 'buy' : 'sell',
+      type: this.mapOrderType(o),
+      amount: parseFloat(o.qty),
+      price,
+      filled: parseFloat(o.cumExecQty || '0'),
+      status: this.mapOrderStatus(o.orderStatus),
+      timestamp: parseInt(o.createdTime || `${Date.now()}`, 10),
+      label: o.orderLinkId || undefined,
+    };
+  }
+
+  private mapOrderType(o: any): string {
+    switch (o.stopOrderType) {
+      case 'StopLoss':
+      case 'PartialStopLoss':
+      case 'Stop':
+        return o.orderType === 'Limit' ? 'stop_limit' : 'stop_market';
+      case 'TakeProfit':
+      case 'PartialTakeProfit':
+        return o.orderType === 'Limit' ? 'take_limit' : 'take_market';
+      default:
+        return o.orderType === 'Limit' ? 'limit' : 'market';
+    }
+  }
+
+  private mapOrderStatus(status: string): 'open' | 'filled' | 'cancelled' | 'rejected' {
+    switch (status) {
+      case 'New':
+      case 'PartiallyFilled':
+      case 'Untriggered':
+      case 'Triggered':
+        return 'open';
+      case 'Filled':
+        return 'filled';
+      case 'Cancelled':
+      case 'PartiallyFilledCanceled':
+      case 'Deactivated':
+        return 'cancelled';
+      case 'Rejected':
+        return 'rejected';
+      default:
+        return 'open';
+    }
   }
 }
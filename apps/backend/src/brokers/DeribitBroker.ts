@@ -1,5 +1,8 @@
-import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams } from './IBroker';
+import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams, BrokerPosition, ClosePositionParams, EditOrderParams, BrokerCapabilities, OrderBookSnapshot, MarkPriceUpdate, FundingRate } from './IBroker';
 import { BackendDeribitClient, DeribitEnvironment } from '../deribit-client';
+import { instrumentRegistry } from '../instruments/instrument-registry';
+import { isOptionInstrument } from '../instruments/option-chain';
+import type { LocalOrderBook } from './OrderBook';
 import { PositionSizer, PositionSizeInput, PositionSizeOutput } from '../risk/PositionSizer';
 import { StrategyManager, StrategyLifecycleState } from '../lifecycle/StrategyManager';
 
@@ -34,6 +37,68 @@ export class LeverageExceededError extends OrderValidationError {
 const MAX_LEVERAGE = 50; // Safety limit: never exceed 50x leverage
 const LEVERAGE_WARNING_THRESHOLD = 10; // Warn if leverage >10x
 
+const CAPABILITIES: BrokerCapabilities = {
+  otoco: 'native', // otoco_config on the entry order
+  reduceOnly: true,
+  postOnly: true,
+  triggerSources: ['mark_price', 'index_price', 'last_price'],
+  maxTriggerOrders: null,
+};
+
+/**
+ * Deribit order (REST result or `user.orders` notification) as a broker Order
+ */
+export function mapDeribitOrder(order: any): Order {
+  return {
+    orderId: order.order_id,
+    instrument: order.instrument_name,
+    side: order.direction as 'buy' | 'sell',
+    type: order.order_type || 'limit',
+    amount: order.amount,
+    price: order.trigger_price ?? order.price,
+    filled: order.filled_amount || 0,
+    status: mapOrderState(order.order_state),
+    timestamp: order.creation_timestamp || Date.now(),
+    label: order.label,
+    ocoRef: order.oco_ref,
+    reduceOnly: order.reduce_only,
+  };
+}
+
+/**
+ * Deribit `user.trades` (own fill) or `trades` (public, no order id) entry as a broker Trade
+ */
+export function mapDeribitTrade(trade: any): Trade {
+  return {
+    tradeId: trade.trade_id,
+    orderId: trade.order_id ?? '',
+    instrument: trade.instrument_name,
+    side: trade.direction as 'buy' | 'sell',
+    amount: trade.amount,
+    price: trade.price,
+    timestamp: trade.timestamp || Date.now(),
+    fee: trade.fee,
+    feeCurrency: trade.fee_currency,
+    label: trade.label,
+  };
+}
+
+function mapOrderState(state: string): Order['status'] {
+  switch (state) {
+    case 'open':
+    case 'untriggered':
+      return 'open';
+    case 'filled':
+      return 'filled';
+    case 'cancelled':
+      return 'cancelled';
+    case 'rejected':
+      return 'rejected';
+    default:
+      return 'open';
+  }
+}
+
 export class DeribitBroker implements IBroker {
   private client: BackendDeribitClient;
   private connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
@@ -46,11 +111,15 @@ export class DeribitBroker implements IBroker {
   }> = new Map();
   
   private readonly CACHE_TTL = 3600000; // 1 hour cache for instrument info
+  private bookListeners = new Map<string, (book: LocalOrderBook) => void>(); // `book:<instrument>` -> client listener
   private orphanCleanupInterval: NodeJS.Timeout | null = null;
   private readonly ORPHAN_SCAN_INTERVAL = 60000; // 1 minute
 
-  constructor() {
-    this.client = new BackendDeribitClient('live');
+  /**
+   * @param client - Optional: existing client to trade through (strategy executors pass theirs)
+   */
+  constructor(client: BackendDeribitClient = new BackendDeribitClient('live')) {
+    this.client = client;
   }
 
   /**
@@ -267,6 +336,12 @@ export class DeribitBroker implements IBroker {
       }
     }
 
+    // Options: amount is in contracts and price is the premium, so the perp leverage model doesn't apply
+    if (isOptionInstrument(instrument)) {
+      await this.validateOptionOrder(params);
+      return;
+    }
+
     // 4. Validate leverage (calculate required leverage)
     const balance = await this.getBalance();
     const availableBTC = balance[0].available;
@@ -307,6 +382,35 @@ export class DeribitBroker implements IBroker {
     }
   }
 
+  /**
+   * Option orders: no brackets, and buys must be able to pay the premium up front
+   */
+  private async validateOptionOrder(params: PlaceOrderParams): Promise<void> {
+    const { instrument, side, amount, price, otocoConfig } = params;
+
+    if (otocoConfig) {
+      throw new OrderValidationError(
+        `OTOCO brackets are not supported for options (${instrument})`,
+        'OTOCO_NOT_SUPPORTED',
+        { instrument }
+      );
+    }
+
+    if (side !== 'buy' || !price) {
+      return;
+    }
+
+    // Premium is quoted in the settlement currency per contract
+    const currency = this.settlementCurrency(instrument);
+    const summary = await this.client.getAccountSummary(currency);
+    const premium = amount * price;
+    if (summary.available_funds < premium) {
+      throw new InsufficientMarginError(premium, summary.available_funds);
+    }
+
+    console.log(`[DeribitBroker] ✅ Option validation passed: ${amount} contracts, premium=${premium} ${currency}`);
+  }
+
   /**
    * Get instrument info with caching (1 hour TTL)
    */
@@ -382,7 +486,7 @@ export class DeribitBroker implements IBroker {
    * Place a single order without OCO
    */
   private async placeSingleOrder(params: PlaceOrderParams): Promise<any> {
-    const { instrument, side, type, amount, price, reduceOnly, label } = params;
+    const { instrument, side, type, amount, price, reduceOnly, postOnly, label } = params;
 
     const order = {
       instrument_name: instrument,
@@ -391,6 +495,7 @@ export class DeribitBroker implements IBroker {
       direction: side,
       price,
       reduce_only: reduceOnly,
+      post_only: postOnly,
       label,
     };
 
@@ -536,7 +641,13 @@ export class DeribitBroker implements IBroker {
   }
 
   async cancelAllOrders(instrument?: string): Promise<void> {
-    // BackendDeribitClient doesn't have cancelAllOrders yet
+    if (instrument) {
+      const count = await this.client.cancelAllByInstrument(instrument);
+      console.log(`[DeribitBroker] ✅ All orders canceled on ${instrument} (${count} orders)`);
+      return;
+    }
+
+    // BackendDeribitClient has no account-wide cancel_all
     // Get all open orders and cancel them individually
     const orders = await this.getOpenOrders(instrument);
     
@@ -548,8 +659,8 @@ export class DeribitBroker implements IBroker {
   }
 
   async getOrder(orderId: string, instrument: string): Promise<Order> {
-    // Not implemented in BackendDeribitClient yet
-    throw new Error('getOrder not implemented yet');
+    const order = await this.client.getOrderStatus(orderId);
+    return this.mapOrder(order);
   }
 
   async getOpenOrders(instrument?: string): Promise<Order[]> {
@@ -559,19 +670,110 @@ export class DeribitBroker implements IBroker {
 
     const response = await this.client.getOpenOrders(instrument);
     
-    return response.map(order => ({
-      orderId: order.order_id,
-      instrument: order.instrument_name,
-      side: order.direction as 'buy' | 'sell',
-      type: 'limit',
-      amount: order.amount,
-      price: order.price,
-      filled: order.filled_amount || 0,
-      status: this.mapOrderState(order.order_state),
-      timestamp: order.creation_timestamp || Date.now(),
-      label: order.label,
-      ocoRef: order.oco_ref,
-    }));
+    return response.map(order => this.mapOrder(order));
+  }
+
+  /**
+   * Amend price and/or amount of an open order (private/edit).
+   * For stop/take orders the price is applied as the trigger price (see EditOrderParams).
+   */
+  async editOrder(orderId: string, instrument: string, changes: EditOrderParams): Promise<Order> {
+    const current = await this.client.getOrderStatus(orderId);
+    const amount = changes.amount ?? current.amount;
+    const isTrigger = typeof current.order_type === 'string' && /^(stop|take)_/.test(current.order_type);
+
+    let price: number | undefined;
+    let triggerPrice: number | undefined;
+    if (isTrigger) {
+      triggerPrice = changes.price ?? current.trigger_price;
+      // stop_limit/take_limit keep their offset between trigger and limit price
+      if (current.order_type.endsWith('_limit')) {
+        price = changes.limitPrice ?? current.price + (triggerPrice! - current.trigger_price);
+      }
+    } else if (current.order_type !== 'market') {
+      price = changes.price ?? current.price;
+    }
+
+    const response = await this.client.editOrder(orderId, amount, price, triggerPrice);
+    console.log(`[DeribitBroker] ✅ Order edited: ${orderId} (amount=${amount}, price=${triggerPrice ?? price})`);
+
+    return this.mapOrder(response?.order ?? { ...current, amount, price: price ?? current.price, trigger_price: triggerPrice });
+  }
+
+  private mapOrder(order: any): Order {
+    return mapDeribitOrder(order);
+  }
+
+  // ============================================================================
+  // Positions
+  // ============================================================================
+
+  /**
+   * Get open positions, optionally for one instrument.
+   * Settlement currency is derived from the instrument name
+   * (BTC-PERPETUAL -> BTC, BTC_USDC-PERPETUAL -> USDC); without one, all currencies are queried.
+   * Option instruments query option positions (futures are the default kind).
+   */
+  async getPositions(instrument?: string): Promise<BrokerPosition[]> {
+    const positions = instrument && isOptionInstrument(instrument)
+      ? await this.client.getPositions(this.settlementCurrency(instrument), 'option')
+      : await this.client.getPositions(instrument ? this.settlementCurrency(instrument) : 'any');
+
+    return positions
+      .filter(p => p.size !== 0 && (!instrument || p.instrument_name === instrument))
+      .map(pos => ({
+        instrument: pos.instrument_name,
+        side: pos.size > 0 ? 'long' as const : 'short' as const,
+        size: Math.abs(pos.size),
+        entryPrice: pos.average_price,
+        markPrice: pos.mark_price,
+        unrealizedPnl: pos.floating_profit_loss ?? pos.total_profit_loss,
+        realizedPnl: pos.realized_profit_loss,
+        leverage: pos.leverage || 0,
+      }));
+  }
+
+  /**
+   * Close (part of) a position.
+   * A full close uses private/close_position; a partial close places a
+   * reduce-only order on the opposite side.
+   */
+  async closePosition(instrument: string, params: ClosePositionParams = {}): Promise<Order> {
+    const type = params.type ?? 'market';
+    if (type === 'limit' && params.price === undefined) {
+      throw new OrderValidationError('Limit close requires a price', 'MISSING_PRICE', { instrument });
+    }
+
+    const [position] = await this.getPositions(instrument);
+    if (!position) {
+      throw new OrderValidationError(`No open position on ${instrument}`, 'NO_POSITION', { instrument });
+    }
+
+    const side = position.side === 'long' ? 'sell' : 'buy';
+
+    if (params.amount === undefined || params.amount >= position.size) {
+      const response = await this.client.closePosition(instrument, type, params.price);
+      console.log(`[DeribitBroker] ✅ Position closed: ${instrument} (${position.side} ${position.size})`);
+      return this.mapOrder(response.order);
+    }
+
+    // Reduce-only: skip placeOrder's margin/leverage validation
+    const response = await this.placeSingleOrder({
+      instrument,
+      side,
+      type,
+      amount: params.amount,
+      price: params.price,
+      reduceOnly: true,
+      label: params.label,
+    });
+    console.log(`[DeribitBroker] ✅ Partial close: ${instrument} ${side} ${params.amount}/${position.size}`);
+    return this.mapOrder(response.order);
+  }
+
+  private settlementCurrency(instrument: string): string {
+    const match = instrument.match(/^[A-Z]+_(USDC|USDT)-/);
+    return match ? match[1] : instrument.split(/[-_]/)[0];
   }
 
   async getCandles(instrument: string, timeframe: string, limit: number = 50): Promise<Candle[]> {
@@ -579,19 +781,75 @@ export class DeribitBroker implements IBroker {
     throw new Error('getCandles not implemented yet - use TradingView data');
   }
 
+  async getFundingRateHistory(instrument: string, limit: number = 100): Promise<FundingRate[]> {
+    return this.client.getFundingRateHistory(instrument, limit);
+  }
+
+  /**
+   * Public trades on the instrument (`trades.<instrument>.raw`); unsubscribe with `trades:<instrument>`
+   */
   async subscribeTrades(instrument: string, callback: (trade: Trade) => void): Promise<void> {
-    // Not implemented in BackendDeribitClient yet
-    throw new Error('subscribeTrades not implemented yet');
+    await this.client.subscribeTrades(instrument, (trades) => trades.forEach(t => callback(mapDeribitTrade(t))));
   }
 
+  /**
+   * Own fills on the instrument (`user.trades`); unsubscribe with `fills:<instrument>`
+   */
+  async subscribeFills(instrument: string, callback: (fill: Trade) => void): Promise<void> {
+    await this.client.subscribeUserTrades(instrument, (trades) => trades.forEach(t => callback(mapDeribitTrade(t))));
+  }
+
+  /**
+   * Own order updates on the instrument (`user.orders`); unsubscribe with `orders:<instrument>`
+   */
   async subscribeOrders(instrument: string, callback: (order: Order) => void): Promise<void> {
-    // Not implemented in BackendDeribitClient yet
-    throw new Error('subscribeOrders not implemented yet');
+    await this.client.subscribeUserOrders(instrument, (order) => callback(mapDeribitOrder(order)));
+  }
+
+  async subscribeOrderBook(instrument: string, depth: number, callback: (book: OrderBookSnapshot) => void): Promise<void> {
+    const channel = `book:${instrument}`;
+    if (this.bookListeners.has(channel)) {
+      await this.unsubscribe(channel);
+    }
+
+    const listener = (book: LocalOrderBook) => callback(book.snapshot(depth));
+    this.bookListeners.set(channel, listener);
+    try {
+      await this.client.subscribeOrderBook(instrument, listener);
+    } catch (error) {
+      this.bookListeners.delete(channel);
+      throw error;
+    }
+  }
+
+  async subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+    await this.client.subscribeMarkPrice(instrument, callback);
   }
 
   async unsubscribe(channel: string): Promise<void> {
-    // Not implemented in BackendDeribitClient yet
-    throw new Error('unsubscribe not implemented yet');
+    if (channel.startsWith('markPrice:')) {
+      await this.client.unsubscribeMarkPrice(channel.slice('markPrice:'.length));
+      return;
+    }
+
+    const listener = this.bookListeners.get(channel);
+    if (listener) {
+      this.bookListeners.delete(channel);
+      await this.client.unsubscribeOrderBook(channel.slice('book:'.length), listener);
+      return;
+    }
+
+    const [kind, instrument] = channel.split(/:(.*)/);
+    if (kind === 'trades' && instrument) {
+      await this.client.unsubscribe(`trades.${instrument}.raw`);
+      return;
+    }
+    if ((kind === 'orders' || kind === 'fills') && instrument) {
+      await this.client.unsubscribe(`user.${kind === 'fills' ? 'trades' : 'orders'}.${instrument}.raw`);
+      return;
+    }
+
+    throw new Error(`Unknown channel: ${channel}`);
   }
 
   async getInstrumentInfo(instrument: string): Promise<{
@@ -600,7 +858,10 @@ export class DeribitBroker implements IBroker {
     maxLeverage: number;
     amountStep: number;
   }> {
-    const info = await this.getInstrumentInfoCached(instrument);
+    // Options aren't in the registry; their names are already native
+    const info = await this.getInstrumentInfoCached(
+      isOptionInstrument(instrument) ? instrument : instrumentRegistry.toNative(instrument, 'deribit')
+    );
     
     return {
       minTradeAmount: info.minTradeAmount,
@@ -610,22 +871,6 @@ export class DeribitBroker implements IBroker {
     };
   }
 
-  private mapOrderState(state: string): 'open' | 'filled' | 'cancelled' | 'rejected' {
-    switch (state) {
-      case 'open':
-      case 'untriggered':
-        return 'open';
-      case 'filled':
-        return 'filled';
-      case 'cancelled':
-        return 'cancelled';
-      case 'rejected':
-        return 'rejected';
-      default:
-        return 'open';
-    }
-  }
-
   // ============================================================================
   // Single Position Guard (GUARD-001)
   // ============================================================================
@@ -860,6 +1105,10 @@ export class DeribitBroker implements IBroker {
     return 'connected';
   }
 
+  getCapabilities(): BrokerCapabilities {
+    return CAPABILITIES;
+  }
+
   /**
    * LIFECYCLE-002: Reconcile local state with broker state on startup
    * 
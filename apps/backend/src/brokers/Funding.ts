@@ -0,0 +1,69 @@
+/**
+ * Perpetual funding helpers
+ * Venue-independent math on MarkPriceUpdate / FundingRate.
+ * Sign convention: a positive rate is paid by longs to shorts; amounts returned here
+ * are from the position's point of view (negative = the position pays).
+ */
+
+import type { FundingRate, MarkPriceUpdate } from './IBroker';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Funding received by a position at one settlement
+ * @param notional - position value in quote currency (always positive)
+ */
+export function fundingPayment(rate: number, side: 'buy' | 'sell', notional: number): number {
+  return (side === 'buy' ? -rate : rate) * notional;
+}
+
+/**
+ * Total funding received over settlements in (from, to] - for PnL of a position
+ * held between those times at constant notional
+ */
+export function accruedFunding(
+  history: FundingRate[],
+  side: 'buy' | 'sell',
+  notional: number,
+  from: number,
+  to: number
+): number {
+  return history
+    .filter(entry => entry.timestamp > from && entry.timestamp <= to)
+    .reduce((sum, entry) => sum + fundingPayment(entry.rate, side, notional), 0);
+}
+
+/**
+ * Fraction of notional a new position would pay in funding within the next windowMs
+ * (negative when it would receive). Discrete venues charge the full rate if the next
+ * settlement falls inside the window; continuous funding (no nextFundingTime) is pro-rated.
+ */
+export function upcomingFundingCost(
+  update: MarkPriceUpdate,
+  side: 'buy' | 'sell',
+  windowMs: number,
+  now: number = Date.now()
+): number {
+  const cost = side === 'buy' ? update.fundingRate : -update.fundingRate;
+
+  if (update.nextFundingTime === undefined) {
+    return cost * (windowMs / (update.fundingIntervalHours * HOUR_MS));
+  }
+
+  const untilSettlement = update.nextFundingTime - now;
+  return untilSettlement >= 0 && untilSettlement <= windowMs ? cost : 0;
+}
+
+/**
+ * Entry guard: true when entering now would pay more than maxCost (fraction of notional)
+ * in funding within the next windowMs
+ */
+export function isExpensiveFundingWindow(
+  update: MarkPriceUpdate,
+  side: 'buy' | 'sell',
+  windowMs: number,
+  maxCost: number,
+  now: number = Date.now()
+): boolean {
+  return upcomingFundingCost(update, side, windowMs, now) > maxCost;
+}
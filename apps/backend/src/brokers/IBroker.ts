@@ -48,6 +48,7 @@ export interface Order {
   timestamp: number;
   label?: string;
   ocoRef?: string;
+  reduceOnly?: boolean;
 }
 
 export interface Trade {
@@ -60,39 +61,119 @@ export interface Trade {
   timestamp: number;
   fee?: number;
   feeCurrency?: string;
+  label?: string; // label of the order this fill belongs to
+}
+
+export interface OrderBookLevel {
+  price: number;
+  amount: number;
+}
+
+export interface OrderBookSnapshot {
+  instrument: string;
+  bids: OrderBookLevel[]; // best (highest) first
+  asks: OrderBookLevel[]; // best (lowest) first
+  changeId: number;
+  timestamp: number;
+}
+
+export interface MarkPriceUpdate {
+  instrument: string;
+  markPrice: number;
+  indexPrice: number;
+  fundingRate: number; // current/predicted rate per funding interval, fraction (0.0001 = 0.01%)
+  fundingIntervalHours: number;
+  nextFundingTime?: number; // next settlement (ms); undefined for continuous funding (Deribit)
+  timestamp: number;
+}
+
+export interface FundingRate {
+  instrument: string;
+  rate: number; // paid by longs to shorts when positive, fraction per interval
+  intervalHours: number;
+  timestamp: number; // settlement time (ms)
 }
 
 // Candle is now imported from shared types (see top of file)
 
+export type TriggerSource = 'last_price' | 'mark_price' | 'index_price';
+
 export interface OTOCOConfig {
   takeProfit?: {
     type: 'take_limit' | 'take_market';
     price?: number;
-    trigger?: 'last_price' | 'mark_price' | 'index_price';
+    trigger?: TriggerSource;
   };
   stopLoss?: {
     type: 'stop_limit' | 'stop_market';
     triggerPrice: number;
     price?: number;
-    trigger?: 'last_price' | 'mark_price' | 'index_price';
+    trigger?: TriggerSource;
   };
 }
 
+/**
+ * What a broker adapter supports at runtime (see BracketEmulator for OTOCO fallback)
+ */
+export interface BrokerCapabilities {
+  // native: exchange links the legs; emulated: the adapter places/cancels legs itself;
+  // none: otocoConfig is not supported (wrap with BracketEmulator)
+  otoco: 'native' | 'emulated' | 'none';
+  reduceOnly: boolean;
+  postOnly: boolean;
+  triggerSources: TriggerSource[];
+  maxTriggerOrders: number | null; // open stop/take orders per instrument, null = no practical limit
+}
+
 export interface PlaceOrderParams {
   instrument: string;
   side: 'buy' | 'sell';
   type: string;
   amount: number;
   price?: number;
+  // stop/take orders: trigger price (default: price, which is then also the limit of stop_limit/take_limit)
+  triggerPrice?: number;
+  trigger?: TriggerSource; // stop/take orders: price the trigger watches (default: the broker's)
   otocoConfig?: OTOCOConfig;
   reduceOnly?: boolean;
+  postOnly?: boolean; // limit orders only: reject instead of taking liquidity
+  label?: string;
+}
+
+export interface BrokerPosition {
+  instrument: string;
+  side: 'long' | 'short';
+  size: number; // absolute, in the broker's order amount units
+  entryPrice: number;
+  markPrice: number;
+  unrealizedPnl: number;
+  realizedPnl?: number;
+  leverage?: number;
+}
+
+export interface ClosePositionParams {
+  type?: 'market' | 'limit'; // default: market
+  price?: number; // required for limit
+  amount?: number; // partial close; default: full position
   label?: string;
 }
 
+/**
+ * Changes for editOrder; omitted fields keep their current value.
+ * On stop_limit/take_limit orders `price` moves the trigger and the limit price moves with it
+ * (the trigger-to-limit offset is kept); `limitPrice` sets the limit price instead.
+ */
+export interface EditOrderParams {
+  price?: number; // limit price, or trigger price for stop/take orders
+  limitPrice?: number; // stop_limit/take_limit only: new limit price
+  amount?: number;
+}
+
 export interface IBroker {
   connect(credentials: Credentials): Promise<void>;
   disconnect(): Promise<void>;
   getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' | 'error';
+  getCapabilities(): BrokerCapabilities;
   
   getBalance(currency?: string): Promise<Balance[]>;
   
@@ -101,11 +182,23 @@ export interface IBroker {
   cancelAllOrders(instrument?: string): Promise<void>;
   getOrder(orderId: string, instrument: string): Promise<Order>;
   getOpenOrders(instrument?: string): Promise<Order[]>;
+  editOrder(orderId: string, instrument: string, changes: EditOrderParams): Promise<Order>;
+  
+  getPositions(instrument?: string): Promise<BrokerPosition[]>;
+  closePosition(instrument: string, params?: ClosePositionParams): Promise<Order>;
   
   getCandles(instrument: string, timeframe: string, limit?: number): Promise<Candle[]>;
+  getFundingRateHistory(instrument: string, limit?: number): Promise<FundingRate[]>; // oldest first, like getCandles
   
+  // Public market trades on the instrument (orderId is empty)
   subscribeTrades(instrument: string, callback: (trade: Trade) => void): Promise<void>;
+  // Our own fills on the instrument, one per execution (partial fills arrive separately)
+  subscribeFills(instrument: string, callback: (fill: Trade) => void): Promise<void>;
   subscribeOrders(instrument: string, callback: (order: Order) => void): Promise<void>;
+  // Local L2 book kept in sync from incremental updates; unsubscribe with `book:<instrument>`
+  subscribeOrderBook(instrument: string, depth: number, callback: (book: OrderBookSnapshot) => void): Promise<void>;
+  // Mark/index price and funding rate stream (perpetuals)
+  subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void>;
   unsubscribe(channel: string): Promise<void>;
   
   getInstrumentInfo(instrument: string): Promise<{
@@ -0,0 +1,1154 @@
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams, BrokerPosition, ClosePositionParams, EditOrderParams, BrokerCapabilities, OrderBookSnapshot, MarkPriceUpdate, FundingRate } from './IBroker';
+import { instrumentRegistry } from '../instruments/instrument-registry';
+
+/**
+ * OKX v5 broker (USDT-margined perpetual swaps)
+ *
+ * - REST: base64 HMAC-SHA256 signature over timestamp + method + path + body,
+ *   with the account passphrase (credentials.passphrase)
+ * - Public WS: trades channel for subscribeTrades, mark-price/funding-rate/index-tickers
+ *   for subscribeMarkPrice
+ * - Private WS: login-signed, orders channel for subscribeOrders and subscribeFills
+ * - Both streams reconnect with backoff and resubscribe their channels; the private
+ *   stream logs in again first
+ * - OTOCO: mapped to attachAlgoOrds (TP/SL algo orders attached to the entry)
+ * - Stop/take orders without an entry are placed as standalone conditional algo orders
+ *
+ * Instruments are OKX instIds (BTC-USDT-SWAP). Other common spellings
+ * (BTCUSDT, BTC-USDT, BTC_USDT) are mapped to the swap instId.
+ * Amounts are in contracts (see ctVal in getInstrumentInfo).
+ */
+
+export interface OKXEndpoints {
+  restUrl: string;
+  publicWsUrl: string;
+  privateWsUrl: string;
+}
+
+export const OKX_ENDPOINTS: Record<'live' | 'testnet', OKXEndpoints> = {
+  live: {
+    restUrl: 'https://www.okx.com',
+    publicWsUrl: 'wss://ws.okx.com:8443/ws/v5/public',
+    privateWsUrl: 'wss://ws.okx.com:8443/ws/v5/private',
+  },
+  // OKX demo trading: same REST host with x-simulated-trading header
+  testnet: {
+    restUrl: 'https://www.okx.com',
+    publicWsUrl: 'wss://wspap.okx.com:8443/ws/v5/public',
+    privateWsUrl: 'wss://wspap.okx.com:8443/ws/v5/private',
+  },
+};
+
+export class OKXApiError extends Error {
+  constructor(message: string, public code: string, public endpoint: string) {
+    super(message);
+    this.name = 'OKXApiError';
+  }
+}
+
+const INST_TYPE = 'SWAP';
+const TRADE_MODE = 'cross';
+const PING_INTERVAL = 25000; // OKX closes sockets idle for 30s
+const MAX_CANDLE_LIMIT = 300;
+const MAX_FUNDING_HISTORY_LIMIT = 100;
+const FUNDING_INTERVAL_HOURS = 8; // default when the feed doesn't tell us
+// Codes for an id the endpoint has no (open) order for: 51400 cancellation failed as the
+// order does not exist, 51603 order does not exist. A regular-order endpoint answers them
+// for algo ids too.
+const ORDER_NOT_FOUND_CODES = new Set(['51400', '51603']);
+const QUOTE_CURRENCIES = ['USDT', 'USDC', 'USD'];
+
+// Tradebaas timeframe -> OKX bar
+const TIMEFRAME_MAP: Record<string, string> = {
+  '1m': '1m', '3m': '3m', '5m': '5m', '15m': '15m', '30m': '30m',
+  '1h': '1H', '2h': '2H', '4h': '4H', '6h': '6H', '12h': '12H',
+  '1d': '1D', '1w': '1W',
+};
+
+const TRIGGER_MAP: Record<string, string> = {
+  last_price: 'last',
+  mark_price: 'mark',
+  index_price: 'index',
+};
+
+type StreamKind = 'public' | 'private';
+
+const CAPABILITIES: BrokerCapabilities = {
+  otoco: 'native', // attachAlgoOrds
+  reduceOnly: true,
+  postOnly: true,
+  triggerSources: ['last_price', 'mark_price', 'index_price'],
+  maxTriggerOrders: null,
+};
+
+/**
+ * Map an instrument name to an OKX swap instId
+ * BTC-USDT-SWAP -> BTC-USDT-SWAP, BTCUSDT / BTC-USDT / BTC_USDT -> BTC-USDT-SWAP
+ */
+export function toOkxInstId(instrument: string): string {
+  const upper = instrument.toUpperCase();
+  if (/^[A-Z0-9]+-[A-Z]+-(SWAP|\d{6})$/.test(upper)) {
+    return upper;
+  }
+
+  const separated = upper.match(/^([A-Z0-9]+)[-_/]([A-Z]+)$/);
+  if (separated) {
+    return `${separated[1]}-${separated[2]}-SWAP`;
+  }
+
+  const quote = QUOTE_CURRENCIES.find(q => upper.endsWith(q) && upper.length > q.length);
+  if (quote) {
+    return `${upper.slice(0, -quote.length)}-${quote}-SWAP`;
+  }
+
+  throw new Error(`Cannot map instrument ${instrument} to an OKX instId`);
+}
+
+function isOrderNotFound(error: unknown): boolean {
+  return error instanceof OKXApiError && ORDER_NOT_FOUND_CODES.has(error.code);
+}
+
+export class OKXBroker implements IBroker {
+  private connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
+  private credentials: Credentials | null = null;
+  private demo = false;
+  private endpoints: OKXEndpoints;
+  private endpointOverrides: Partial<OKXEndpoints>;
+
+  private publicWs: WebSocket | null = null;
+  private privateWs: WebSocket | null = null;
+  private pingTimers = new Set<NodeJS.Timeout>(); // one per open socket
+  private reconnectTimers = new Map<StreamKind, NodeJS.Timeout>();
+  private reconnectAttempts: Record<StreamKind, number> = { public: 0, private: 0 };
+  private readonly reconnectDelays = [1000, 2000, 4000, 8000, 16000]; // Exponential backoff, capped
+  private readonly LOGIN_TIMEOUT = 10000;
+
+  // Channel -> callback. Channels are `<channel>:<instId>` (trades:BTC-USDT-SWAP, orders:BTC-USDT-SWAP)
+  private algoIds = new Set<string>(); // conditional orders seen by this session, routed to the algo endpoints
+  private tradeSubscriptions = new Map<string, (trade: Trade) => void>();
+  private orderSubscriptions = new Map<string, (order: Order) => void>();
+  private fillSubscriptions = new Map<string, (fill: Trade) => void>(); // fills:<instId>, carried on the orders channel
+  // mark-price:<instId> -> callback; merges the mark-price, index-tickers and funding-rate channels
+  private markPriceSubscriptions = new Map<string, (update: MarkPriceUpdate) => void>();
+  private markPriceState = new Map<string, Partial<MarkPriceUpdate>>();
+
+  private instrumentCache = new Map<string, {
+    minTradeAmount: number;
+    tickSize: number;
+    maxLeverage: number;
+    amountStep: number;
+    contractSize: number;
+    cachedAt: number;
+  }>();
+  private readonly CACHE_TTL = 3600000; // 1 hour
+
+  constructor(endpoints: Partial<OKXEndpoints> = {}) {
+    this.endpointOverrides = endpoints;
+    this.endpoints = { ...OKX_ENDPOINTS.live, ...endpoints };
+  }
+
+  async connect(credentials: Credentials): Promise<void> {
+    try {
+      this.connectionStatus = 'connecting';
+
+      if (!credentials.passphrase) {
+        throw new Error('OKX requires an API passphrase');
+      }
+
+      this.credentials = credentials;
+      this.demo = !!credentials.testnet;
+
+      const env = this.demo ? 'testnet' : 'live';
+      this.endpoints = {
+        ...OKX_ENDPOINTS[env],
+        ...this.endpointOverrides,
+        ...(credentials.restUrl && { restUrl: credentials.restUrl }),
+        ...(credentials.publicWsUrl && { publicWsUrl: credentials.publicWsUrl }),
+        ...(credentials.privateWsUrl && { privateWsUrl: credentials.privateWsUrl }),
+      };
+
+      // Validate API key with a signed call before opening streams
+      await this.signedRequest('GET', '/api/v5/account/balance');
+
+      this.connectionStatus = 'connected';
+      console.log(`[OKXBroker] Connected to ${env}`);
+    } catch (error) {
+      this.connectionStatus = 'error';
+      console.error('[OKXBroker] Connection failed:', error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    for (const timer of this.pingTimers) {
+      clearInterval(timer);
+    }
+    this.pingTimers.clear();
+    for (const timer of this.reconnectTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reconnectTimers.clear();
+    this.reconnectAttempts = { public: 0, private: 0 };
+
+    this.publicWs?.removeAllListeners();
+    this.publicWs?.close();
+    this.privateWs?.removeAllListeners();
+    this.privateWs?.close();
+    this.publicWs = null;
+    this.privateWs = null;
+
+    this.tradeSubscriptions.clear();
+    this.orderSubscriptions.clear();
+    this.fillSubscriptions.clear();
+    this.markPriceSubscriptions.clear();
+    this.markPriceState.clear();
+    this.algoIds.clear();
+    this.credentials = null;
+    this.connectionStatus = 'disconnected';
+    console.log('[OKXBroker] Disconnected');
+  }
+
+  getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' | 'error' {
+    return this.connectionStatus;
+  }
+
+  getCapabilities(): BrokerCapabilities {
+    return CAPABILITIES;
+  }
+
+  async getBalance(currency?: string): Promise<Balance[]> {
+    const data = await this.signedRequest('GET', '/api/v5/account/balance', currency ? { ccy: currency } : {});
+    const details: any[] = data[0]?.details || [];
+
+    return details.map(d => ({
+      currency: d.ccy,
+      available: parseFloat(d.availBal || '0'),
+      total: parseFloat(d.eq || '0'),
+      locked: parseFloat(d.frozenBal || '0'),
+    }));
+  }
+
+  async placeOrder(params: PlaceOrderParams): Promise<Order> {
+    const { side, type, amount, price, otocoConfig, reduceOnly, postOnly, label } = params;
+    const instId = toOkxInstId(params.instrument);
+
+    // Conditional (stop/take) orders without an entry go through the algo endpoint
+    if (type !== 'market' && type !== 'limit') {
+      return this.placeConditionalOrder({ ...params, instrument: instId });
+    }
+
+    const body: Record<string, any> = {
+      instId,
+      tdMode: TRADE_MODE,
+      side,
+      ordType: type === 'limit' && postOnly ? 'post_only' : type,
+      sz: String(amount),
+      ...(type === 'limit' && { px: String(price) }),
+      ...(reduceOnly && { reduceOnly: true }),
+      ...(label && { clOrdId: this.toClientId(label) }),
+    };
+
+    if (type === 'limit' && price === undefined) {
+      throw new Error('Limit order requires price');
+    }
+
+    if (otocoConfig) {
+      const algo: Record<string, string> = {};
+      if (otocoConfig.takeProfit?.price !== undefined) {
+        algo.tpTriggerPx = String(otocoConfig.takeProfit.price);
+        // -1 = execute at market once triggered
+        algo.tpOrdPx = otocoConfig.takeProfit.type === 'take_limit' ? String(otocoConfig.takeProfit.price) : '-1';
+        algo.tpTriggerPxType = TRIGGER_MAP[otocoConfig.takeProfit.trigger || 'last_price'];
+      }
+      if (otocoConfig.stopLoss) {
+        algo.slTriggerPx = String(otocoConfig.stopLoss.triggerPrice);
+        algo.slOrdPx = otocoConfig.stopLoss.type === 'stop_limit' && otocoConfig.stopLoss.price !== undefined
+          ? String(otocoConfig.stopLoss.price)
+          : '-1';
+        algo.slTriggerPxType = TRIGGER_MAP[otocoConfig.stopLoss.trigger || 'mark_price'];
+      }
+      body.attachAlgoOrds = [algo];
+    }
+
+    console.log(`[OKXBroker] Placing ${type} ${side} ${amount} ${instId}${price ? ` @ ${price}` : ''}`);
+    const data = await this.signedRequest('POST', '/api/v5/trade/order', body);
+    const result = this.checkItem(data[0], '/api/v5/trade/order');
+    console.log(`[OKXBroker] ✅ Order placed: ${result.ordId}`);
+
+    return {
+      orderId: result.ordId,
+      instrument: instId,
+      side,
+      type,
+      amount,
+      price,
+      filled: 0,
+      status: 'open',
+      timestamp: Date.now(),
+      label,
+    };
+  }
+
+  /**
+   * Cancel a regular or algo order; an id neither book knows counts as already canceled
+   */
+  async cancelOrder(orderId: string, instrument: string): Promise<void> {
+    const instId = toOkxInstId(instrument);
+
+    if (!this.algoIds.has(orderId)) {
+      try {
+        const data = await this.signedRequest('POST', '/api/v5/trade/cancel-order', { instId, ordId: orderId });
+        this.checkItem(data[0], '/api/v5/trade/cancel-order');
+        console.log(`[OKXBroker] ✅ Order canceled: ${orderId}`);
+        return;
+      } catch (error) {
+        // Not a regular order: try the algo book (conditional SL/TP)
+        if (!isOrderNotFound(error)) throw error;
+      }
+    }
+
+    try {
+      const data = await this.signedRequest('POST', '/api/v5/trade/cancel-algos', [{ instId, algoId: orderId }]);
+      this.checkItem(data[0], '/api/v5/trade/cancel-algos');
+      console.log(`[OKXBroker] ✅ Order canceled: ${orderId}`);
+    } catch (error) {
+      if (!isOrderNotFound(error)) throw error;
+      console.log(`[OKXBroker] Order ${orderId} no longer exists, nothing to cancel`);
+    }
+    this.algoIds.delete(orderId);
+  }
+
+  async cancelAllOrders(instrument?: string): Promise<void> {
+    const orders = await this.getOpenOrders(instrument);
+
+    for (const order of orders) {
+      await this.cancelOrder(order.orderId, order.instrument);
+    }
+    console.log(`[OKXBroker] ✅ All orders canceled (${orders.length} orders)`);
+  }
+
+  async getOrder(orderId: string, instrument: string): Promise<Order> {
+    const instId = toOkxInstId(instrument);
+
+    if (!this.algoIds.has(orderId)) {
+      try {
+        const data = await this.signedRequest('GET', '/api/v5/trade/order', { instId, ordId: orderId });
+        if (data[0]) {
+          return this.mapOrder(data[0]);
+        }
+      } catch (error) {
+        // Not a regular order: look in the algo book (conditional SL/TP)
+        if (!isOrderNotFound(error)) throw error;
+      }
+    }
+
+    return this.mapAlgoOrder(await this.getAlgoOrder(orderId, instId));
+  }
+
+  async getOpenOrders(instrument?: string): Promise<Order[]> {
+    const filter: Record<string, string> = {
+      instType: INST_TYPE,
+      ...(instrument && { instId: toOkxInstId(instrument) }),
+    };
+
+    const [orders, algos] = await Promise.all([
+      this.signedRequest('GET', '/api/v5/trade/orders-pending', filter),
+      this.signedRequest('GET', '/api/v5/trade/orders-algo-pending', { ...filter, ordType: 'conditional,oco' }),
+    ]);
+    for (const algo of algos) {
+      this.algoIds.add(algo.algoId);
+    }
+
+    return [
+      ...orders.map((o: any) => this.mapOrder(o)),
+      ...algos.map((a: any) => this.mapAlgoOrder(a)),
+    ];
+  }
+
+  async editOrder(orderId: string, instrument: string, changes: EditOrderParams): Promise<Order> {
+    const instId = toOkxInstId(instrument);
+    if (this.algoIds.has(orderId)) {
+      return this.amendAlgoOrder(orderId, instId, changes);
+    }
+
+    try {
+      const data = await this.signedRequest('POST', '/api/v5/trade/amend-order', {
+        instId,
+        ordId: orderId,
+        ...(changes.amount !== undefined && { newSz: String(changes.amount) }),
+        ...(changes.price !== undefined && { newPx: String(changes.price) }),
+      });
+      this.checkItem(data[0], '/api/v5/trade/amend-order');
+    } catch (error) {
+      // Not a regular order: amend the algo (conditional SL/TP)
+      if (!isOrderNotFound(error)) throw error;
+      return this.amendAlgoOrder(orderId, instId, changes);
+    }
+
+    console.log(`[OKXBroker] ✅ Order amended: ${orderId}`);
+    return this.getOrder(orderId, instId);
+  }
+
+  async getPositions(instrument?: string): Promise<BrokerPosition[]> {
+    const data = await this.signedRequest('GET', '/api/v5/account/positions', {
+      instType: INST_TYPE,
+      ...(instrument && { instId: toOkxInstId(instrument) }),
+    });
+
+    return data
+      .filter((p: any) => parseFloat(p.pos || '0') !== 0)
+      .map((p: any) => {
+        const pos = parseFloat(p.pos);
+        // Net mode reports a signed pos; long/short mode reports posSide
+        const isLong = p.posSide === 'long' || (p.posSide !== 'short' && pos > 0);
+        return {
+          instrument: p.instId,
+          side: isLong ? 'long' as const : 'short' as const,
+          size: Math.abs(pos),
+          entryPrice: parseFloat(p.avgPx),
+          markPrice: parseFloat(p.markPx),
+          unrealizedPnl: parseFloat(p.upl || '0'),
+          realizedPnl: parseFloat(p.realizedPnl || '0'),
+          leverage: parseFloat(p.lever || '0'),
+        };
+      });
+  }
+
+  /**
+   * Close (part of) a position with a reduce-only market or limit order.
+   * (/api/v5/trade/close-position does not return an order ID, so it is not used.)
+   */
+  async closePosition(instrument: string, params: ClosePositionParams = {}): Promise<Order> {
+    const instId = toOkxInstId(instrument);
+    const [position] = await this.getPositions(instId);
+    if (!position) {
+      throw new Error(`No open position on ${instId}`);
+    }
+
+    const order = await this.placeOrder({
+      instrument: instId,
+      side: position.side === 'long' ? 'sell' : 'buy',
+      type: params.type ?? 'market',
+      amount: Math.min(params.amount ?? position.size, position.size),
+      price: params.price,
+      reduceOnly: true,
+      label: params.label,
+    });
+    console.log(`[OKXBroker] ✅ Closing ${position.side} ${instId}: ${order.amount}/${position.size}`);
+    return order;
+  }
+
+  async getCandles(instrument: string, timeframe: string, limit: number = 100): Promise<Candle[]> {
+    const bar = TIMEFRAME_MAP[timeframe];
+    if (!bar) {
+      throw new Error(`Unsupported OKX timeframe: ${timeframe}`);
+    }
+
+    const data: string[][] = await this.publicRequest('/api/v5/market/candles', {
+      instId: toOkxInstId(instrument),
+      bar,
+      limit: String(Math.min(limit, MAX_CANDLE_LIMIT)),
+    });
+
+    // OKX returns newest first: [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+    return data
+      .map(k => ({
+        timestamp: parseInt(k[0], 10),
+        open: parseFloat(k[1]),
+        high: parseFloat(k[2]),
+        low: parseFloat(k[3]),
+        close: parseFloat(k[4]),
+        volume: parseFloat(k[5]),
+      }))
+      .reverse();
+  }
+
+  async getFundingRateHistory(instrument: string, limit: number = 100): Promise<FundingRate[]> {
+    const data: any[] = await this.publicRequest('/api/v5/public/funding-rate-history', {
+      instId: toOkxInstId(instrument),
+      limit: String(Math.min(limit, MAX_FUNDING_HISTORY_LIMIT)),
+    });
+
+    // Newest first; realizedRate is what was actually settled
+    return data
+      .map(f => ({
+        instrument: f.instId,
+        rate: parseFloat(f.realizedRate || f.fundingRate),
+        intervalHours: FUNDING_INTERVAL_HOURS,
+        timestamp: parseInt(f.fundingTime, 10),
+      }))
+      .reverse();
+  }
+
+  async subscribeTrades(instrument: string, callback: (trade: Trade) => void): Promise<void> {
+    const instId = toOkxInstId(instrument);
+    const ws = await this.ensurePublicWs();
+
+    this.tradeSubscriptions.set(`trades:${instId}`, callback);
+    ws.send(JSON.stringify({ op: 'subscribe', args: [{ channel: 'trades', instId }] }));
+    console.log(`[OKXBroker] Subscribed to trades:${instId}`);
+  }
+
+  async subscribeOrders(instrument: string, callback: (order: Order) => void): Promise<void> {
+    const instId = toOkxInstId(instrument);
+    const ws = await this.ensurePrivateWs();
+
+    const alreadySubscribed = this.hasOrdersChannel(instId);
+    this.orderSubscriptions.set(`orders:${instId}`, callback);
+    if (!alreadySubscribed) {
+      ws.send(JSON.stringify({ op: 'subscribe', args: [{ channel: 'orders', instType: INST_TYPE, instId }] }));
+    }
+    console.log(`[OKXBroker] Subscribed to orders:${instId}`);
+  }
+
+  /**
+   * Own fills from the orders channel (the fills channel is VIP-only); unsubscribe with `fills:<instId>`
+   */
+  async subscribeFills(instrument: string, callback: (fill: Trade) => void): Promise<void> {
+    const instId = toOkxInstId(instrument);
+    const ws = await this.ensurePrivateWs();
+
+    const alreadySubscribed = this.hasOrdersChannel(instId);
+    this.fillSubscriptions.set(`fills:${instId}`, callback);
+    if (!alreadySubscribed) {
+      ws.send(JSON.stringify({ op: 'subscribe', args: [{ channel: 'orders', instType: INST_TYPE, instId }] }));
+    }
+    console.log(`[OKXBroker] Subscribed to fills:${instId}`);
+  }
+
+  private hasOrdersChannel(instId: string): boolean {
+    return this.orderSubscriptions.has(`orders:${instId}`) || this.fillSubscriptions.has(`fills:${instId}`);
+  }
+
+  async subscribeOrderBook(instrument: string, depth: number, callback: (book: OrderBookSnapshot) => void): Promise<void> {
+    // Local book maintenance (see OrderBook.ts) is only wired up for Deribit so far
+    throw new Error('subscribeOrderBook not implemented for OKX yet');
+  }
+
+  async subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+    const instId = toOkxInstId(instrument);
+    const ws = await this.ensurePublicWs();
+
+    this.markPriceSubscriptions.set(`mark-price:${instId}`, callback);
+    ws.send(JSON.stringify({ op: 'subscribe', args: this.markPriceArgs(instId) }));
+    console.log(`[OKXBroker] Subscribed to mark-price:${instId}`);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const [name, instId] = channel.split(':');
+
+    if (this.tradeSubscriptions.delete(channel)) {
+      this.publicWs?.send(JSON.stringify({ op: 'unsubscribe', args: [{ channel: name, instId }] }));
+    } else if (this.markPriceSubscriptions.delete(channel)) {
+      this.markPriceState.delete(instId);
+      this.publicWs?.send(JSON.stringify({ op: 'unsubscribe', args: this.markPriceArgs(instId) }));
+    } else if ((this.orderSubscriptions.delete(channel) || this.fillSubscriptions.delete(channel)) && !this.hasOrdersChannel(instId)) {
+      this.privateWs?.send(JSON.stringify({ op: 'unsubscribe', args: [{ channel: 'orders', instType: INST_TYPE, instId }] }));
+    }
+    console.log(`[OKXBroker] Unsubscribed from ${channel}`);
+  }
+
+  async getInstrumentInfo(instrument: string): Promise<{
+    minTradeAmount: number;
+    tickSize: number;
+    maxLeverage: number;
+    amountStep: number;
+  }> {
+    const info = await this.getInstrumentInfoCached(instrumentRegistry.toNative(instrument, 'okx'));
+    return {
+      minTradeAmount: info.minTradeAmount,
+      tickSize: info.tickSize,
+      maxLeverage: info.maxLeverage,
+      amountStep: info.amountStep,
+    };
+  }
+
+  /**
+   * Contract value in base currency (e.g. 0.01 BTC per BTC-USDT-SWAP contract)
+   */
+  async getContractSize(instrument: string): Promise<number> {
+    const info = await this.getInstrumentInfoCached(instrumentRegistry.toNative(instrument, 'okx'));
+    return info.contractSize;
+  }
+
+  async startOrphanCleanup(): Promise<void> {
+    // No-op: attached algo orders are cancelled by OKX when the position is closed
+  }
+
+  async stopOrphanCleanup(): Promise<void> {
+    // No-op: see startOrphanCleanup
+  }
+
+  async scanAndCleanOrphans(): Promise<void> {
+    // No-op: see startOrphanCleanup
+  }
+
+  // ============================================================================
+  // Orders
+  // ============================================================================
+
+  private async placeConditionalOrder(params: PlaceOrderParams): Promise<Order> {
+    const { instrument, side, type, amount, price, reduceOnly, label } = params;
+    if (price === undefined) {
+      throw new Error(`${type} order requires trigger price`);
+    }
+
+    const isStop = type.startsWith('stop');
+    const orderPx = type.endsWith('_limit') ? String(price) : '-1';
+    const body: Record<string, any> = {
+      instId: instrument,
+      tdMode: TRADE_MODE,
+      side,
+      ordType: 'conditional',
+      sz: String(amount),
+      ...(isStop
+        ? { slTriggerPx: String(price), slOrdPx: orderPx, slTriggerPxType: 'mark' }
+        : { tpTriggerPx: String(price), tpOrdPx: orderPx, tpTriggerPxType: 'last' }),
+      ...(reduceOnly && { reduceOnly: true }),
+      ...(label && { algoClOrdId: this.toClientId(label) }),
+    };
+
+    const data = await this.signedRequest('POST', '/api/v5/trade/order-algo', body);
+    const result = this.checkItem(data[0], '/api/v5/trade/order-algo');
+    this.algoIds.add(result.algoId);
+    console.log(`[OKXBroker] ✅ Conditional order placed: ${result.algoId}`);
+
+    return {
+      orderId: result.algoId,
+      instrument,
+      side,
+      type,
+      amount,
+      price,
+      filled: 0,
+      status: 'open',
+      timestamp: Date.now(),
+      label,
+    };
+  }
+
+  private async getAlgoOrder(algoId: string, instId: string): Promise<any> {
+    const data = await this.signedRequest('GET', '/api/v5/trade/order-algo', { algoId });
+    if (!data[0]) {
+      throw new Error(`Order ${algoId} not found on ${instId}`);
+    }
+    this.algoIds.add(algoId);
+    return data[0];
+  }
+
+  private async amendAlgoOrder(algoId: string, instId: string, changes: EditOrderParams): Promise<Order> {
+    const raw = await this.getAlgoOrder(algoId, instId);
+    const current = this.mapAlgoOrder(raw);
+    const isStop = current.type.startsWith('stop');
+    const prefix = isStop ? 'Sl' : 'Tp';
+
+    const body: Record<string, any> = {
+      instId,
+      algoId,
+      ...(changes.amount !== undefined && { newSz: String(changes.amount) }),
+    };
+    const isLimit = current.type.endsWith('_limit');
+    if (changes.price !== undefined || (isLimit && changes.limitPrice !== undefined)) {
+      const trigger = changes.price ?? current.price!;
+      body[`new${prefix}TriggerPx`] = String(trigger);
+      body[`new${prefix}TriggerPxType`] = raw[`${prefix.toLowerCase()}TriggerPxType`] || (isStop ? 'mark' : 'last');
+      // Limit legs keep their offset between trigger and order price (see EditOrderParams)
+      const orderPx = raw[`${prefix.toLowerCase()}OrdPx`];
+      body[`new${prefix}OrdPx`] = isLimit
+        ? String(changes.limitPrice ?? parseFloat(orderPx) + (trigger - current.price!))
+        : '-1';
+    }
+
+    const result = await this.signedRequest('POST', '/api/v5/trade/amend-algos', body);
+    this.checkItem(result[0], '/api/v5/trade/amend-algos');
+    console.log(`[OKXBroker] ✅ Conditional order amended: ${algoId}`);
+
+    return {
+      ...current,
+      amount: changes.amount ?? current.amount,
+      price: changes.price ?? current.price,
+    };
+  }
+
+  /** OKX client IDs: alphanumeric, max 32 chars */
+  private toClientId(label: string): string {
+    return label.replace(/[^a-zA-Z0-9]/g, '').slice(0, 32);
+  }
+
+  private checkItem(item: any, endpoint: string): any {
+    if (!item) {
+      throw new OKXApiError('Empty response', '-1', endpoint);
+    }
+    if (item.sCode && item.sCode !== '0') {
+      throw new OKXApiError(item.sMsg || 'Order rejected', item.sCode, endpoint);
+    }
+    return item;
+  }
+
+  private async getInstrumentInfoCached(instId: string) {
+    const cached = this.instrumentCache.get(instId);
+    if (cached && Date.now() - cached.cachedAt < this.CACHE_TTL) {
+      return cached;
+    }
+
+    const data = await this.publicRequest('/api/v5/public/instruments', { instType: INST_TYPE, instId });
+    const raw = data[0];
+    if (!raw) {
+      throw new Error(`Instrument ${instId} not found on OKX`);
+    }
+
+    const info = {
+      minTradeAmount: parseFloat(raw.minSz),
+      tickSize: parseFloat(raw.tickSz),
+      maxLeverage: parseFloat(raw.lever),
+      amountStep: parseFloat(raw.lotSz),
+      contractSize: parseFloat(raw.ctVal),
+      cachedAt: Date.now(),
+    };
+
+    this.instrumentCache.set(instId, info);
+    return info;
+  }
+
+  // ============================================================================
+  // REST
+  // ============================================================================
+
+  private sign(payload: string): string {
+    return crypto
+      .createHmac('sha256', this.credentials!.apiSecret)
+      .update(payload)
+      .digest('base64');
+  }
+
+  private async signedRequest(method: 'GET' | 'POST', path: string, params: Record<string, any> | any[] = {}): Promise<any> {
+    if (!this.credentials) {
+      throw new Error('Not connected');
+    }
+
+    const query = method === 'GET' ? new URLSearchParams(params as Record<string, string>).toString() : '';
+    const requestPath = `${path}${query ? `?${query}` : ''}`;
+    const body = method === 'POST' ? JSON.stringify(params) : '';
+    const timestamp = new Date().toISOString();
+
+    const response = await fetch(`${this.endpoints.restUrl}${requestPath}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'OK-ACCESS-KEY': this.credentials.apiKey,
+        'OK-ACCESS-SIGN': this.sign(`${timestamp}${method}${requestPath}${body}`),
+        'OK-ACCESS-TIMESTAMP': timestamp,
+        'OK-ACCESS-PASSPHRASE': this.credentials.passphrase,
+        ...(this.demo && { 'x-simulated-trading': '1' }),
+      },
+      ...(body && { body }),
+    });
+
+    return this.unwrap(response, path);
+  }
+
+  private async publicRequest(path: string, params: Record<string, string>): Promise<any> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${this.endpoints.restUrl}${path}?${query}`, {
+      headers: this.demo ? { 'x-simulated-trading': '1' } : {},
+    });
+    return this.unwrap(response, path);
+  }
+
+  private async unwrap(response: Response, path: string): Promise<any> {
+    const json = await response.json().catch(() => null) as { code: string; msg: string; data: any } | null;
+
+    if (!json) {
+      throw new OKXApiError(`HTTP ${response.status} from ${path}`, String(response.status), path);
+    }
+    if (json.code !== '0') {
+      // Batch endpoints report per-item failures in data[].sCode
+      const item = json.data?.[0];
+      const code = item?.sCode && item.sCode !== '0' ? item.sCode : json.code;
+      throw new OKXApiError(item?.sMsg || json.msg || 'Unknown OKX error', code, path);
+    }
+
+    return json.data;
+  }
+
+  // ============================================================================
+  // WebSocket
+  // ============================================================================
+
+  private async ensurePublicWs(): Promise<WebSocket> {
+    if (this.publicWs && this.publicWs.readyState === WebSocket.OPEN) {
+      return this.publicWs;
+    }
+
+    const ws = await this.openSocket(this.endpoints.publicWsUrl);
+    ws.on('message', (data) => this.handleMessage(data.toString()));
+    ws.on('close', () => this.handleStreamClose('public', ws));
+    this.publicWs = ws;
+    return ws;
+  }
+
+  private async ensurePrivateWs(): Promise<WebSocket> {
+    if (this.privateWs && this.privateWs.readyState === WebSocket.OPEN) {
+      return this.privateWs;
+    }
+    if (!this.credentials) {
+      throw new Error('Not connected');
+    }
+
+    const ws = await this.openSocket(this.endpoints.privateWsUrl);
+    try {
+      await this.login(ws);
+    } catch (error) {
+      ws.terminate();
+      throw error;
+    }
+
+    ws.on('message', (data) => this.handleMessage(data.toString()));
+    ws.on('close', () => this.handleStreamClose('private', ws));
+    this.privateWs = ws;
+    console.log('[OKXBroker] Private stream logged in');
+    return ws;
+  }
+
+  /**
+   * Log in on the private stream; rejects if OKX does not answer within LOGIN_TIMEOUT
+   */
+  private login(ws: WebSocket): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const sign = this.sign(`${timestamp}GET/users/self/verify`);
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        ws.off('message', onLogin);
+        reject(new OKXApiError(`WebSocket login timed out after ${this.LOGIN_TIMEOUT}ms`, '-1', 'ws/login'));
+      }, this.LOGIN_TIMEOUT);
+
+      const onLogin = (data: WebSocket.RawData) => {
+        const raw = data.toString();
+        if (raw === 'pong') return;
+
+        let msg: any;
+        try {
+          msg = JSON.parse(raw);
+        } catch (error) {
+          console.error('[OKXBroker] Unparseable message during login:', raw);
+          return;
+        }
+        if (msg.event !== 'login' && msg.event !== 'error') return;
+
+        clearTimeout(timer);
+        ws.off('message', onLogin);
+        if (msg.event === 'login' && msg.code === '0') {
+          resolve();
+        } else {
+          reject(new OKXApiError(msg.msg || 'WebSocket login failed', msg.code || '-1', 'ws/login'));
+        }
+      };
+      ws.on('message', onLogin);
+      ws.send(JSON.stringify({
+        op: 'login',
+        args: [{
+          apiKey: this.credentials!.apiKey,
+          passphrase: this.credentials!.passphrase,
+          timestamp,
+          sign,
+        }],
+      }));
+    });
+  }
+
+  /**
+   * Subscribe args of every trades and mark-price subscription
+   */
+  private activePublicArgs(): Array<{ channel: string; instId: string }> {
+    const args: Array<{ channel: string; instId: string }> = [];
+    for (const channel of this.tradeSubscriptions.keys()) {
+      args.push({ channel: 'trades', instId: channel.slice('trades:'.length) });
+    }
+    for (const channel of this.markPriceSubscriptions.keys()) {
+      args.push(...this.markPriceArgs(channel.slice('mark-price:'.length)));
+    }
+    return args;
+  }
+
+  /**
+   * Subscribe args of the orders channel for every instId with order or fill subscribers
+   */
+  private activePrivateArgs(): Array<{ channel: string; instType: string; instId: string }> {
+    const instIds = new Set([
+      ...Array.from(this.orderSubscriptions.keys(), channel => channel.slice('orders:'.length)),
+      ...Array.from(this.fillSubscriptions.keys(), channel => channel.slice('fills:'.length)),
+    ]);
+    return Array.from(instIds, instId => ({ channel: 'orders', instType: INST_TYPE, instId }));
+  }
+
+  /**
+   * Stream closed: reconnect unless it was replaced, nothing listens on it any more,
+   * or the broker disconnected
+   */
+  private handleStreamClose(kind: StreamKind, ws: WebSocket): void {
+    if (kind === 'public') {
+      if (ws !== this.publicWs) return;
+      this.publicWs = null;
+      if (this.activePublicArgs().length === 0) return;
+    } else {
+      if (ws !== this.privateWs) return;
+      this.privateWs = null;
+      if (!this.credentials) return;
+    }
+
+    console.log(`[OKXBroker] 🔄 ${kind === 'public' ? 'Public' : 'Private'} stream lost - scheduling reconnect...`);
+    this.scheduleReconnect(kind);
+  }
+
+  /**
+   * Reopen a stream with exponential backoff and resubscribe its channels
+   * (the private stream logs in again first)
+   */
+  private scheduleReconnect(kind: StreamKind): void {
+    if (this.reconnectTimers.has(kind)) return;
+
+    const attempt = this.reconnectAttempts[kind]++;
+    const delay = this.reconnectDelays[attempt] || this.reconnectDelays[this.reconnectDelays.length - 1];
+
+    this.reconnectTimers.set(kind, setTimeout(async () => {
+      this.reconnectTimers.delete(kind);
+
+      try {
+        const resubscribed = kind === 'public' ? await this.reopenPublicWs() : await this.reopenPrivateWs();
+        if (!resubscribed) return;
+        this.reconnectAttempts[kind] = 0;
+        console.log(`[OKXBroker] ✅ ${kind === 'public' ? 'Public' : 'Private'} stream reconnected`);
+      } catch (error) {
+        console.error(`[OKXBroker] ❌ ${kind} stream reconnect attempt ${this.reconnectAttempts[kind]} failed:`, error);
+        if (kind === 'public' ? this.activePublicArgs().length > 0 : this.credentials) {
+          this.scheduleReconnect(kind);
+        }
+      }
+    }, delay));
+  }
+
+  /**
+   * @returns false if nothing listens on the public stream any more
+   */
+  private async reopenPublicWs(): Promise<boolean> {
+    if (this.activePublicArgs().length === 0) return false;
+
+    const ws = await this.ensurePublicWs();
+    const args = this.activePublicArgs();
+    if (args.length === 0) {
+      // Unsubscribed or disconnected while the stream was reopening
+      this.publicWs = null;
+      ws.close(); // its close event no longer matches publicWs
+      return false;
+    }
+
+    ws.send(JSON.stringify({ op: 'subscribe', args }));
+    return true;
+  }
+
+  /**
+   * @returns false if the broker disconnected
+   */
+  private async reopenPrivateWs(): Promise<boolean> {
+    if (!this.credentials) return false;
+
+    const ws = await this.ensurePrivateWs();
+    if (!this.credentials) {
+      // Disconnected while the stream was reopening
+      this.privateWs = null;
+      ws.close(); // its close event no longer matches privateWs
+      return false;
+    }
+
+    const args = this.activePrivateArgs();
+    if (args.length > 0) {
+      ws.send(JSON.stringify({ op: 'subscribe', args }));
+    }
+    return true;
+  }
+
+  private openSocket(url: string): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+
+      ws.once('open', () => {
+        const timer = setInterval(() => {
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send('ping');
+          }
+        }, PING_INTERVAL);
+        this.pingTimers.add(timer);
+        ws.once('close', () => {
+          clearInterval(timer);
+          this.pingTimers.delete(timer);
+        });
+        resolve(ws);
+      });
+
+      ws.once('error', (error) => {
+        console.error(`[OKXBroker] WebSocket error (${url}):`, error);
+        reject(error);
+      });
+    });
+  }
+
+  private handleMessage(raw: string): void {
+    if (raw === 'pong') return;
+
+    try {
+      const msg = JSON.parse(raw);
+      if (!msg.arg || !msg.data) return;
+
+      const key = `${msg.arg.channel}:${msg.arg.instId}`;
+
+      if (msg.arg.channel === 'trades') {
+        const callback = this.tradeSubscriptions.get(key);
+        for (const t of msg.data) {
+          callback?.({
+            tradeId: t.tradeId,
+            orderId: '',
+            instrument: t.instId,
+            side: t.side,
+            amount: parseFloat(t.sz),
+            price: parseFloat(t.px),
+            timestamp: parseInt(t.ts, 10),
+          });
+        }
+      } else if (msg.arg.channel === 'orders') {
+        for (const o of msg.data) {
+          const callback = this.orderSubscriptions.get(`orders:${o.instId}`);
+          callback?.(this.mapOrder(o));
+          if (o.tradeId && parseFloat(o.fillSz || '0') > 0) {
+            this.fillSubscriptions.get(`fills:${o.instId}`)?.(this.mapFill(o));
+          }
+        }
+      } else if (msg.arg.channel === 'mark-price') {
+        for (const m of msg.data) {
+          this.updateMarkPrice(m.instId, { markPrice: parseFloat(m.markPx), timestamp: parseInt(m.ts, 10) });
+        }
+      } else if (msg.arg.channel === 'funding-rate') {
+        for (const f of msg.data) {
+          const fundingTime = parseInt(f.fundingTime, 10);
+          const nextFundingTime = parseInt(f.nextFundingTime, 10);
+          this.updateMarkPrice(f.instId, {
+            fundingRate: parseFloat(f.fundingRate),
+            fundingIntervalHours: nextFundingTime > fundingTime
+              ? (nextFundingTime - fundingTime) / 3600000
+              : FUNDING_INTERVAL_HOURS,
+            nextFundingTime: fundingTime,
+          });
+        }
+      } else if (msg.arg.channel === 'index-tickers') {
+        // Index instIds are BTC-USDT; fan out to every swap on that index
+        for (const t of msg.data) {
+          for (const channel of this.markPriceSubscriptions.keys()) {
+            const instId = channel.slice('mark-price:'.length);
+            if (instId.startsWith(`${t.instId}-`)) {
+              this.updateMarkPrice(instId, { indexPrice: parseFloat(t.idxPx) });
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[OKXBroker] Error parsing message:', error);
+    }
+  }
+
+  private markPriceArgs(instId: string): Array<{ channel: string; instId: string }> {
+    const indexId = instId.split('-').slice(0, 2).join('-');
+    return [
+      { channel: 'mark-price', instId },
+      { channel: 'funding-rate', instId },
+      { channel: 'index-tickers', instId: indexId },
+    ];
+  }
+
+  private updateMarkPrice(instId: string, fields: Partial<MarkPriceUpdate>): void {
+    const callback = this.markPriceSubscriptions.get(`mark-price:${instId}`);
+    if (!callback) return;
+
+    const state = { ...this.markPriceState.get(instId), ...fields };
+    this.markPriceState.set(instId, state);
+    if (state.markPrice === undefined) return;
+
+    callback({
+      instrument: instId,
+      markPrice: state.markPrice,
+      indexPrice: state.indexPrice ?? state.markPrice,
+      fundingRate: state.fundingRate ?? 0,
+      fundingIntervalHours: state.fundingIntervalHours ?? FUNDING_INTERVAL_HOURS,
+      nextFundingTime: state.nextFundingTime,
+      timestamp: state.timestamp ?? Date.now(),
+    });
+  }
+
+  private mapOrder(o: any): Order {
+    return {
+      orderId: o.ordId,
+      instrument: o.instId,
+      side: o.side,
+      type: o.ordType === 'market' ? 'market' : 'limit',
+      amount: parseFloat(o.sz),
+      price: parseFloat(o.px || '0') || undefined,
+      filled: parseFloat(o.accFillSz || '0'),
+      status: this.mapOrderState(o.state),
+      timestamp: parseInt(o.cTime || `${Date.now()}`, 10),
+      label: o.clOrdId || undefined,
+    };
+  }
+
+  private mapFill(o: any): Trade {
+    return {
+      tradeId: o.tradeId,
+      orderId: o.ordId,
+      instrument: o.instId,
+      side: o.side,
+      amount: parseFloat(o.fillSz),
+      price: parseFloat(o.fillPx),
+      timestamp: parseInt(o.fillTime || o.uTime, 10),
+      fee: -parseFloat(o.fillFee || '0'), // OKX reports charged fees as negative
+      feeCurrency: o.fillFeeCcy || undefined,
+      label: o.clOrdId || undefined,
+    };
+  }
+
+  private mapAlgoOrder(a: any): Order {
+    const isStop = !!a.slTriggerPx;
+    const orderPx = isStop ? a.slOrdPx : a.tpOrdPx;
+    const isMarket = !orderPx || orderPx === '-1';
+
+    return {
+      orderId: a.algoId,
+      instrument: a.instId,
+      side: a.side,
+      type: `${isStop ? 'stop' : 'take'}_${isMarket ? 'market' : 'limit'}`,
+      amount: parseFloat(a.sz),
+      price: parseFloat(isStop ? a.slTriggerPx : a.tpTriggerPx),
+      filled: 0,
+      status: this.mapOrderState(a.state),
+      timestamp: parseInt(a.cTime || `${Date.now()}`, 10),
+      label: a.algoClOrdId || undefined,
+    };
+  }
+
+  private mapOrderState(state: string): 'open' | 'filled' | 'cancelled' | 'rejected' {
+    switch (state) {
+      case 'live':
+      case 'partially_filled':
+        return 'open';
+      case 'filled':
+      case 'effective': // algo triggered and its order was sent
+        return 'filled';
+      case 'canceled':
+      case 'mmp_canceled':
+        return 'cancelled';
+      case 'order_failed':
+        return 'rejected';
+      default:
+        return 'open';
+    }
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Local L2 order book
+ * Venue-independent book maintained from a snapshot plus incremental updates.
+ * Adapters translate their feed into [price, amount] levels (amount 0 = remove level)
+ * and a change id chain; a broken chain invalidates the book until the next snapshot.
+ */
+
+import type { OrderBookLevel, OrderBookSnapshot } from './IBroker';
+
+export type BookLevelUpdate = [price: number, amount: number];
+
+export class LocalOrderBook {
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+  private changeId: number | null = null;
+  private timestamp = 0;
+
+  constructor(public readonly instrument: string) {}
+
+  /**
+   * True once a snapshot was applied and no gap has been seen since
+   */
+  isSynced(): boolean {
+    return this.changeId !== null;
+  }
+
+  getChangeId(): number | null {
+    return this.changeId;
+  }
+
+  applySnapshot(bids: BookLevelUpdate[], asks: BookLevelUpdate[], changeId: number, timestamp: number): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.changeId = changeId;
+    this.timestamp = timestamp;
+  }
+
+  /**
+   * Apply an incremental update
+   * @returns false (and invalidates the book) when prevChangeId doesn't follow the last applied update
+   */
+  applyDelta(
+    bids: BookLevelUpdate[],
+    asks: BookLevelUpdate[],
+    changeId: number,
+    prevChangeId: number,
+    timestamp: number
+  ): boolean {
+    if (this.changeId === null || prevChangeId !== this.changeId) {
+      this.invalidate();
+      return false;
+    }
+
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.changeId = changeId;
+    this.timestamp = timestamp;
+    return true;
+  }
+
+  invalidate(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.changeId = null;
+  }
+
+  // ============================================================================
+  // Queries
+  // ============================================================================
+
+  getBids(depth = Infinity): OrderBookLevel[] {
+    return this.sorted(this.bids, (a, b) => b - a, depth);
+  }
+
+  getAsks(depth = Infinity): OrderBookLevel[] {
+    return this.sorted(this.asks, (a, b) => a - b, depth);
+  }
+
+  bestBid(): OrderBookLevel | undefined {
+    return this.best(this.bids, (a, b) => a > b);
+  }
+
+  bestAsk(): OrderBookLevel | undefined {
+    return this.best(this.asks, (a, b) => a < b);
+  }
+
+  midPrice(): number | null {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid && ask ? (bid.price + ask.price) / 2 : null;
+  }
+
+  spreadBps(): number | null {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    const mid = this.midPrice();
+    return bid && ask && mid ? ((ask.price - bid.price) / mid) * 10000 : null;
+  }
+
+  /**
+   * Bid/ask volume imbalance over the top levels: +1 all bids, -1 all asks
+   */
+  imbalance(levels = 10): number {
+    const bidVolume = this.getBids(levels).reduce((sum, l) => sum + l.amount, 0);
+    const askVolume = this.getAsks(levels).reduce((sum, l) => sum + l.amount, 0);
+    const total = bidVolume + askVolume;
+    return total === 0 ? 0 : (bidVolume - askVolume) / total;
+  }
+
+  /**
+   * Volume resting at or better than price on the side a new order would join:
+   * the queue ahead of a limit order placed there now
+   */
+  volumeAhead(side: 'buy' | 'sell', price: number): number {
+    let volume = 0;
+    if (side === 'buy') {
+      this.bids.forEach((amount, p) => { if (p >= price) volume += amount; });
+    } else {
+      this.asks.forEach((amount, p) => { if (p <= price) volume += amount; });
+    }
+    return volume;
+  }
+
+  snapshot(depth = Infinity): OrderBookSnapshot {
+    return {
+      instrument: this.instrument,
+      bids: this.getBids(depth),
+      asks: this.getAsks(depth),
+      changeId: this.changeId ?? 0,
+      timestamp: this.timestamp,
+    };
+  }
+
+  private applyLevels(side: Map<number, number>, levels: BookLevelUpdate[]): void {
+    for (const [price, amount] of levels) {
+      if (amount === 0) {
+        side.delete(price);
+      } else {
+        side.set(price, amount);
+      }
+    }
+  }
+
+  private best(side: Map<number, number>, better: (a: number, b: number) => boolean): OrderBookLevel | undefined {
+    let best: number | undefined;
+    side.forEach((_, price) => {
+      if (best === undefined || better(price, best)) best = price;
+    });
+    return best === undefined ? undefined : { price: best, amount: side.get(best)! };
+  }
+
+  private sorted(side: Map<number, number>, compare: (a: number, b: number) => number, depth: number): OrderBookLevel[] {
+    return Array.from(side.keys())
+      .sort(compare)
+      .slice(0, depth)
+      .map(price => ({ price, amount: side.get(price)! }));
+  }
+}
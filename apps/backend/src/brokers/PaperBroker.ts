@@ -0,0 +1,762 @@
+import { BackendDeribitClient } from '../deribit-client';
+import { IBroker, Credentials, Balance, Order, Trade, Candle, OTOCOConfig, PlaceOrderParams, BrokerPosition, ClosePositionParams, EditOrderParams, BrokerCapabilities, OrderBookSnapshot, MarkPriceUpdate, FundingRate } from './IBroker';
+import { instrumentRegistry } from '../instruments/instrument-registry';
+import type { LocalOrderBook } from './OrderBook';
+
+/**
+ * Paper-trading broker with an in-process matching engine
+ *
+ * - Market data comes from a PaperMarketData source (live Deribit public data by default)
+ *   or from ticks pushed via processTick() (replay / tests)
+ * - Market orders fill at bid/ask (last price if no book) plus slippage, taker fee
+ * - Limit orders fill at their limit price once the market trades through, maker fee
+ *   (marketable limits fill immediately as taker)
+ * - Stop/take orders trigger on last price; *_market fills at market, *_limit rests as a limit
+ * - OTOCO: SL/TP legs are placed when the entry fills and cancel each other (OCO)
+ * - Reduce-only orders are clamped to the position and cancelled when the position is flat
+ * - Linear PnL in a single virtual currency; fills are never partial
+ */
+
+export interface PaperTick {
+  instrument: string;
+  price: number; // last traded price
+  bid?: number;
+  ask?: number;
+  timestamp: number;
+}
+
+export interface PaperMarketData {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  getTicker(instrument: string): Promise<PaperTick>;
+  subscribeTicker(instrument: string, callback: (tick: PaperTick) => void): Promise<void>;
+  unsubscribeTicker(instrument: string): Promise<void>;
+  // Optional: sources without depth data can't serve subscribeOrderBook
+  subscribeOrderBook?(instrument: string, callback: (book: LocalOrderBook) => void): Promise<void>;
+  unsubscribeOrderBook?(instrument: string): Promise<void>;
+  // Optional: perpetual mark/index/funding feed
+  subscribeMarkPrice?(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void>;
+  unsubscribeMarkPrice?(instrument: string): Promise<void>;
+  getFundingRateHistory?(instrument: string, limit: number): Promise<FundingRate[]>;
+  getCandles(instrument: string, timeframe: string, limit: number): Promise<Candle[]>;
+  getInstrumentInfo(instrument: string): Promise<{
+    minTradeAmount: number;
+    tickSize: number;
+    maxLeverage: number;
+    amountStep: number;
+  }>;
+}
+
+export interface PaperBrokerConfig {
+  currency: string;
+  initialBalance: number;
+  makerFee: number; // fraction of notional, e.g. 0.0002
+  takerFee: number;
+  slippageBps: number; // applied to market fills
+  leverage: number; // used for locked margin in getBalance
+}
+
+export const DEFAULT_PAPER_CONFIG: PaperBrokerConfig = {
+  currency: 'USDC',
+  initialBalance: 10000,
+  makerFee: 0,
+  takerFee: 0.0005,
+  slippageBps: 0,
+  leverage: 10,
+};
+
+interface PaperOrder extends Order {
+  reduceOnly: boolean;
+  triggerPrice?: number;
+  limitPrice?: number;
+  triggered: boolean;
+  otocoConfig?: OTOCOConfig;
+}
+
+// Tradebaas timeframe -> Deribit chart resolution (minutes)
+const DERIBIT_RESOLUTIONS: Record<string, string> = {
+  '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30',
+  '1h': '60', '2h': '120', '4h': '240', '6h': '360', '12h': '720',
+};
+
+const CAPABILITIES: BrokerCapabilities = {
+  otoco: 'native', // simulated by the matching engine
+  reduceOnly: true,
+  postOnly: false,
+  triggerSources: ['last_price'], // stops trigger on the last tick price
+  maxTriggerOrders: null,
+};
+
+/**
+ * Live Deribit public market data for paper trading (no account required)
+ */
+export class DeribitPaperMarketData implements PaperMarketData {
+  constructor(private client: BackendDeribitClient = new BackendDeribitClient('paper')) {}
+
+  async connect(): Promise<void> {
+    if (!this.client.isConnected()) {
+      await this.client.connect({ apiKey: '', apiSecret: '' });
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.client.disconnect();
+  }
+
+  async getTicker(instrument: string): Promise<PaperTick> {
+    return this.toTick(instrument, await this.client.getTicker(instrument));
+  }
+
+  async subscribeTicker(instrument: string, callback: (tick: PaperTick) => void): Promise<void> {
+    await this.client.subscribeTicker(instrument, (data) => callback(this.toTick(instrument, data)));
+  }
+
+  async unsubscribeTicker(instrument: string): Promise<void> {
+    await this.client.unsubscribe(`ticker.${instrument}.raw`);
+  }
+
+  async subscribeOrderBook(instrument: string, callback: (book: LocalOrderBook) => void): Promise<void> {
+    await this.client.subscribeOrderBook(instrument, callback);
+  }
+
+  async unsubscribeOrderBook(instrument: string): Promise<void> {
+    await this.client.unsubscribeOrderBook(instrument);
+  }
+
+  async subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+    await this.client.subscribeMarkPrice(instrument, callback);
+  }
+
+  async unsubscribeMarkPrice(instrument: string): Promise<void> {
+    await this.client.unsubscribeMarkPrice(instrument);
+  }
+
+  async getFundingRateHistory(instrument: string, limit: number): Promise<FundingRate[]> {
+    return this.client.getFundingRateHistory(instrument, limit);
+  }
+
+  async getCandles(instrument: string, timeframe: string, limit: number): Promise<Candle[]> {
+    const resolution = DERIBIT_RESOLUTIONS[timeframe];
+    if (!resolution) {
+      throw new Error(`Unsupported timeframe: ${timeframe}`);
+    }
+
+    const data = await this.client.getCandles(instrument, resolution, limit);
+    const ticks: number[] = data?.ticks || [];
+    return ticks.map((timestamp, i) => ({
+      timestamp,
+      open: data.open[i],
+      high: data.high[i],
+      low: data.low[i],
+      close: data.close[i],
+      volume: data.volume[i],
+    })).slice(-limit);
+  }
+
+  async getInstrumentInfo(instrument: string) {
+    const info = await this.client.getInstrument(instrument);
+    return {
+      minTradeAmount: info.min_trade_amount,
+      tickSize: info.tick_size,
+      maxLeverage: info.max_leverage || 50,
+      amountStep: info.contract_size,
+    };
+  }
+
+  private toTick(instrument: string, data: any): PaperTick {
+    return {
+      instrument,
+      price: data.last_price,
+      bid: data.best_bid_price || undefined,
+      ask: data.best_ask_price || undefined,
+      timestamp: data.timestamp || Date.now(),
+    };
+  }
+}
+
+export class PaperBroker implements IBroker {
+  private connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
+  private config: PaperBrokerConfig;
+
+  private balance: number;
+  private positions = new Map<string, { size: number; entryPrice: number; realizedPnl: number }>();
+  private orders = new Map<string, PaperOrder>();
+  private fills: Trade[] = [];
+  private lastTicks = new Map<string, PaperTick>();
+  private tickerSubscriptions = new Set<string>();
+  private bookSubscriptions = new Set<string>();
+  private markPriceSubscriptions = new Set<string>();
+  private orderSeq = 0;
+  private tradeSeq = 0;
+
+  // Channel -> callback. Channels are `<channel>:<instrument>` (trades:BTC_USDC-PERPETUAL)
+  private tradeSubscriptions = new Map<string, (trade: Trade) => void>();
+  private fillSubscriptions = new Map<string, (fill: Trade) => void>();
+  private orderSubscriptions = new Map<string, (order: Order) => void>();
+
+  constructor(private marketData: PaperMarketData | null = null, config: Partial<PaperBrokerConfig> = {}) {
+    this.config = { ...DEFAULT_PAPER_CONFIG, ...config };
+    this.balance = this.config.initialBalance;
+  }
+
+  async connect(_credentials?: Credentials): Promise<void> {
+    try {
+      this.connectionStatus = 'connecting';
+      await this.marketData?.connect();
+      this.connectionStatus = 'connected';
+      console.log(`[PaperBroker] Connected (${this.config.initialBalance} ${this.config.currency} virtual balance)`);
+    } catch (error) {
+      this.connectionStatus = 'error';
+      console.error('[PaperBroker] Connection failed:', error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    for (const instrument of this.tickerSubscriptions) {
+      await this.marketData?.unsubscribeTicker(instrument).catch(() => {});
+    }
+    this.tickerSubscriptions.clear();
+    for (const instrument of this.bookSubscriptions) {
+      await this.marketData?.unsubscribeOrderBook?.(instrument).catch(() => {});
+    }
+    this.bookSubscriptions.clear();
+    for (const instrument of this.markPriceSubscriptions) {
+      await this.marketData?.unsubscribeMarkPrice?.(instrument).catch(() => {});
+    }
+    this.markPriceSubscriptions.clear();
+    await this.marketData?.disconnect();
+
+    this.tradeSubscriptions.clear();
+    this.fillSubscriptions.clear();
+    this.orderSubscriptions.clear();
+    this.connectionStatus = 'disconnected';
+    console.log('[PaperBroker] Disconnected');
+  }
+
+  getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' | 'error' {
+    return this.connectionStatus;
+  }
+
+  getCapabilities(): BrokerCapabilities {
+    return CAPABILITIES;
+  }
+
+  async getBalance(currency?: string): Promise<Balance[]> {
+    if (currency && currency !== this.config.currency) {
+      return [];
+    }
+
+    let unrealized = 0;
+    let locked = 0;
+    for (const position of await this.getPositions()) {
+      unrealized += position.unrealizedPnl;
+      locked += position.size * position.entryPrice / this.config.leverage;
+    }
+
+    const total = this.balance + unrealized;
+    return [{ currency: this.config.currency, total, locked, available: total - locked }];
+  }
+
+  async placeOrder(params: PlaceOrderParams): Promise<Order> {
+    const { instrument, side, type, amount, price, triggerPrice = price, otocoConfig, reduceOnly, label } = params;
+
+    if (type === 'limit' && price === undefined) {
+      throw new Error('Limit order requires price');
+    }
+    if (type !== 'market' && type !== 'limit' && triggerPrice === undefined) {
+      throw new Error(`${type} order requires trigger price`);
+    }
+
+    await this.ensureTicker(instrument);
+
+    const isConditional = type !== 'market' && type !== 'limit';
+    const order = this.createOrder({
+      instrument,
+      side,
+      type,
+      amount,
+      price: isConditional ? triggerPrice : price,
+      reduceOnly: !!reduceOnly,
+      label,
+      triggerPrice: isConditional ? triggerPrice : undefined,
+      limitPrice: type === 'limit' || type.endsWith('_limit') ? price ?? triggerPrice : undefined,
+      triggered: !isConditional,
+      otocoConfig,
+    });
+
+    console.log(`[PaperBroker] Placing ${type} ${side} ${amount} ${instrument}${triggerPrice ? ` @ ${triggerPrice}` : ''}`);
+    this.matchOrder(order, this.lastTicks.get(instrument)!, true);
+
+    return this.toOrder(order);
+  }
+
+  async cancelOrder(orderId: string, _instrument?: string): Promise<void> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (order.status !== 'open') {
+      throw new Error(`Order ${orderId} is already ${order.status}`);
+    }
+
+    this.closeOrder(order, 'cancelled');
+    console.log(`[PaperBroker] ✅ Order canceled: ${orderId}`);
+  }
+
+  async cancelAllOrders(instrument?: string): Promise<void> {
+    const open = this.openOrders(instrument);
+    for (const order of open) {
+      this.closeOrder(order, 'cancelled');
+    }
+    console.log(`[PaperBroker] ✅ All orders canceled (${open.length} orders)`);
+  }
+
+  async getOrder(orderId: string, _instrument?: string): Promise<Order> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    return this.toOrder(order);
+  }
+
+  async getOpenOrders(instrument?: string): Promise<Order[]> {
+    return this.openOrders(instrument).map(o => this.toOrder(o));
+  }
+
+  /**
+   * Amend an open order; the amended order is matched again as if just placed.
+   * Stop orders move their trigger (see EditOrderParams); a triggered stop-limit is a plain limit.
+   */
+  async editOrder(orderId: string, _instrument: string, changes: EditOrderParams): Promise<Order> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (order.status !== 'open') {
+      throw new Error(`Order ${orderId} is already ${order.status}`);
+    }
+
+    if (changes.amount !== undefined) {
+      order.amount = changes.amount;
+    }
+    if (changes.price !== undefined) {
+      if (!order.triggered) {
+        // Stop-limits keep their offset between trigger and limit price
+        if (order.limitPrice !== undefined) {
+          order.limitPrice += changes.price - order.triggerPrice!;
+        }
+        order.triggerPrice = changes.price;
+      } else {
+        order.limitPrice = changes.price;
+      }
+      order.price = changes.price;
+    }
+    if (changes.limitPrice !== undefined && order.type.endsWith('_limit')) {
+      order.limitPrice = changes.limitPrice;
+    }
+
+    console.log(`[PaperBroker] ✅ Order edited: ${orderId} (amount=${order.amount}, price=${order.price})`);
+    this.emitOrder(order);
+    this.matchOrder(order, this.lastTicks.get(order.instrument)!, true);
+
+    return this.toOrder(order);
+  }
+
+  async getPositions(instrument?: string): Promise<BrokerPosition[]> {
+    const result: BrokerPosition[] = [];
+    for (const [name, position] of this.positions) {
+      if (position.size === 0 || (instrument && name !== instrument)) continue;
+      const mark = this.lastTicks.get(name)?.price ?? position.entryPrice;
+      result.push({
+        instrument: name,
+        side: position.size > 0 ? 'long' : 'short',
+        size: Math.abs(position.size),
+        entryPrice: position.entryPrice,
+        markPrice: mark,
+        unrealizedPnl: (mark - position.entryPrice) * position.size,
+        realizedPnl: position.realizedPnl,
+        leverage: this.config.leverage,
+      });
+    }
+    return result;
+  }
+
+  async closePosition(instrument: string, params: ClosePositionParams = {}): Promise<Order> {
+    const [position] = await this.getPositions(instrument);
+    if (!position) {
+      throw new Error(`No open position on ${instrument}`);
+    }
+
+    return this.placeOrder({
+      instrument,
+      side: position.side === 'long' ? 'sell' : 'buy',
+      type: params.type ?? 'market',
+      amount: Math.min(params.amount ?? position.size, position.size),
+      price: params.price,
+      reduceOnly: true,
+      label: params.label,
+    });
+  }
+
+  async getCandles(instrument: string, timeframe: string, limit: number = 100): Promise<Candle[]> {
+    if (!this.marketData) {
+      throw new Error('Paper broker has no market data source for candles');
+    }
+    return this.marketData.getCandles(instrument, timeframe, limit);
+  }
+
+  async getFundingRateHistory(instrument: string, limit: number = 100): Promise<FundingRate[]> {
+    if (!this.marketData?.getFundingRateHistory) {
+      throw new Error('Paper broker market data has no funding history');
+    }
+    return this.marketData.getFundingRateHistory(instrument, limit);
+  }
+
+  /**
+   * Streams market ticks as trades (tradeId "tick-N", amount 0)
+   */
+  async subscribeTrades(instrument: string, callback: (trade: Trade) => void): Promise<void> {
+    this.tradeSubscriptions.set(`trades:${instrument}`, callback);
+    await this.ensureTicker(instrument);
+  }
+
+  async subscribeFills(instrument: string, callback: (fill: Trade) => void): Promise<void> {
+    this.fillSubscriptions.set(`fills:${instrument}`, callback);
+  }
+
+  async subscribeOrders(instrument: string, callback: (order: Order) => void): Promise<void> {
+    this.orderSubscriptions.set(`orders:${instrument}`, callback);
+  }
+
+  async subscribeOrderBook(instrument: string, depth: number, callback: (book: OrderBookSnapshot) => void): Promise<void> {
+    if (!this.marketData?.subscribeOrderBook) {
+      throw new Error('Paper broker market data has no order book feed');
+    }
+    this.bookSubscriptions.add(instrument);
+    await this.marketData.subscribeOrderBook(instrument, (book) => callback(book.snapshot(depth)));
+  }
+
+  async subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+    if (!this.marketData?.subscribeMarkPrice) {
+      throw new Error('Paper broker market data has no mark price feed');
+    }
+    this.markPriceSubscriptions.add(instrument);
+    await this.marketData.subscribeMarkPrice(instrument, callback);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    this.tradeSubscriptions.delete(channel);
+    this.fillSubscriptions.delete(channel);
+    this.orderSubscriptions.delete(channel);
+
+    const instrument = channel.startsWith('book:') ? channel.slice('book:'.length) : null;
+    if (instrument && this.bookSubscriptions.delete(instrument)) {
+      await this.marketData?.unsubscribeOrderBook?.(instrument);
+    }
+
+    const markInstrument = channel.startsWith('markPrice:') ? channel.slice('markPrice:'.length) : null;
+    if (markInstrument && this.markPriceSubscriptions.delete(markInstrument)) {
+      await this.marketData?.unsubscribeMarkPrice?.(markInstrument);
+    }
+  }
+
+  async getInstrumentInfo(instrument: string): Promise<{
+    minTradeAmount: number;
+    tickSize: number;
+    maxLeverage: number;
+    amountStep: number;
+  }> {
+    if (!this.marketData) {
+      throw new Error('Paper broker has no market data source for instrument info');
+    }
+    return this.marketData.getInstrumentInfo(instrumentRegistry.toNative(instrument, 'paper'));
+  }
+
+  startOrphanCleanup(): void {
+    // No-op: reduce-only orders are cancelled as soon as their position is flat
+  }
+
+  stopOrphanCleanup(): void {
+    // No-op: see startOrphanCleanup
+  }
+
+  async scanAndCleanOrphans(): Promise<void> {
+    // No-op: see startOrphanCleanup
+  }
+
+  // ============================================================================
+  // Paper account
+  // ============================================================================
+
+  /**
+   * All simulated fills, oldest first (fee in config.currency)
+   */
+  getFills(): Trade[] {
+    return [...this.fills];
+  }
+
+  /**
+   * Feed a market tick into the matching engine
+   * Called by the market data subscription, or directly when replaying recorded data
+   */
+  processTick(tick: PaperTick): void {
+    this.lastTicks.set(tick.instrument, tick);
+
+    this.tradeSubscriptions.get(`trades:${tick.instrument}`)?.({
+      tradeId: `tick-${++this.tradeSeq}`,
+      orderId: '',
+      instrument: tick.instrument,
+      side: 'buy',
+      amount: 0,
+      price: tick.price,
+      timestamp: tick.timestamp,
+    });
+
+    for (const order of this.openOrders(tick.instrument)) {
+      // A fill earlier in this loop may have closed the order (OCO / flat position)
+      if (order.status === 'open') {
+        this.matchOrder(order, tick);
+      }
+    }
+  }
+
+  // ============================================================================
+  // Matching engine
+  // ============================================================================
+
+  private async ensureTicker(instrument: string): Promise<void> {
+    if (!this.marketData) {
+      if (!this.lastTicks.has(instrument)) {
+        throw new Error(`No market data for ${instrument}`);
+      }
+      return;
+    }
+
+    if (!this.tickerSubscriptions.has(instrument)) {
+      this.tickerSubscriptions.add(instrument);
+      await this.marketData.subscribeTicker(instrument, (tick) => this.processTick(tick));
+    }
+    if (!this.lastTicks.has(instrument)) {
+      this.lastTicks.set(instrument, await this.marketData.getTicker(instrument));
+    }
+  }
+
+  /**
+   * @param arriving - order was just placed: a marketable limit takes liquidity
+   */
+  private matchOrder(order: PaperOrder, tick: PaperTick, arriving = false): void {
+    let taker = arriving;
+
+    if (!order.triggered) {
+      const trigger = order.triggerPrice!;
+      const isStop = order.type.startsWith('stop');
+      // Stops trigger when price moves against the position, takes when it moves in favour
+      const crossed = (order.side === 'buy') === isStop ? tick.price >= trigger : tick.price <= trigger;
+      if (!crossed) return;
+
+      order.triggered = true;
+      taker = true;
+      console.log(`[PaperBroker] ${order.type} ${order.orderId} triggered @ ${tick.price}`);
+    }
+
+    const market = this.marketPrice(order.side, tick);
+
+    if (order.limitPrice === undefined) {
+      this.fill(order, this.applySlippage(order.side, market), this.config.takerFee, tick.timestamp);
+      return;
+    }
+
+    const marketable = order.side === 'buy' ? market <= order.limitPrice : market >= order.limitPrice;
+    if (!marketable) return;
+
+    if (taker) {
+      const price = this.applySlippage(order.side, market);
+      const capped = order.side === 'buy' ? Math.min(price, order.limitPrice) : Math.max(price, order.limitPrice);
+      this.fill(order, capped, this.config.takerFee, tick.timestamp);
+    } else {
+      // Resting limit: market traded through it
+      this.fill(order, order.limitPrice, this.config.makerFee, tick.timestamp);
+    }
+  }
+
+  private fill(order: PaperOrder, price: number, feeRate: number, timestamp: number): void {
+    const position = this.positions.get(order.instrument) || { size: 0, entryPrice: 0, realizedPnl: 0 };
+    let amount = order.amount;
+
+    if (order.reduceOnly) {
+      const reducible = order.side === 'buy' ? Math.max(-position.size, 0) : Math.max(position.size, 0);
+      amount = Math.min(amount, reducible);
+      if (amount <= 0) {
+        this.closeOrder(order, 'cancelled');
+        return;
+      }
+    }
+
+    const signed = order.side === 'buy' ? amount : -amount;
+    const fee = amount * price * feeRate;
+
+    if (position.size === 0 || Math.sign(position.size) === Math.sign(signed)) {
+      const size = position.size + signed;
+      position.entryPrice = (Math.abs(position.size) * position.entryPrice + amount * price) / Math.abs(size);
+      position.size = size;
+    } else {
+      const closing = Math.min(amount, Math.abs(position.size));
+      const pnl = closing * (price - position.entryPrice) * Math.sign(position.size);
+      position.realizedPnl += pnl;
+      this.balance += pnl;
+
+      position.size += signed;
+      if (Math.abs(signed) > closing) {
+        position.entryPrice = price; // flipped
+      } else if (position.size === 0) {
+        position.entryPrice = 0;
+      }
+    }
+
+    this.balance -= fee;
+    this.positions.set(order.instrument, position);
+
+    order.amount = amount;
+    order.filled = amount;
+    order.price = price;
+    this.closeOrder(order, 'filled');
+
+    const trade: Trade = {
+      tradeId: `paper-fill-${this.fills.length + 1}`,
+      orderId: order.orderId,
+      instrument: order.instrument,
+      side: order.side,
+      amount,
+      price,
+      timestamp,
+      fee,
+      feeCurrency: this.config.currency,
+      label: order.label,
+    };
+    this.fills.push(trade);
+    this.fillSubscriptions.get(`fills:${order.instrument}`)?.(trade);
+    console.log(`[PaperBroker] ✅ Filled ${order.side} ${amount} ${order.instrument} @ ${price} (fee ${fee.toFixed(4)})`);
+
+    // OCO: one bracket leg filled -> cancel its sibling
+    if (order.ocoRef) {
+      for (const sibling of this.openOrders(order.instrument)) {
+        if (sibling.ocoRef === order.ocoRef) {
+          this.closeOrder(sibling, 'cancelled');
+        }
+      }
+    }
+
+    // Flat: reduce-only orders can no longer do anything
+    if (position.size === 0) {
+      for (const stale of this.openOrders(order.instrument)) {
+        if (stale.reduceOnly) {
+          this.closeOrder(stale, 'cancelled');
+        }
+      }
+    }
+
+    if (order.otocoConfig) {
+      this.placeBracket(order, order.otocoConfig);
+    }
+  }
+
+  private placeBracket(entry: PaperOrder, config: OTOCOConfig): void {
+    const side = entry.side === 'buy' ? 'sell' : 'buy';
+    const label = entry.label || entry.orderId;
+    const tick = this.lastTicks.get(entry.instrument)!;
+    const legs: PaperOrder[] = [];
+
+    if (config.stopLoss) {
+      legs.push(this.createOrder({
+        instrument: entry.instrument,
+        side,
+        type: config.stopLoss.type,
+        amount: entry.amount,
+        price: config.stopLoss.triggerPrice,
+        reduceOnly: true,
+        label: `${label}_sl`,
+        triggerPrice: config.stopLoss.triggerPrice,
+        limitPrice: config.stopLoss.type === 'stop_limit' ? (config.stopLoss.price ?? config.stopLoss.triggerPrice) : undefined,
+        triggered: false,
+        ocoRef: entry.orderId,
+      }));
+    }
+
+    if (config.takeProfit?.price !== undefined) {
+      legs.push(this.createOrder({
+        instrument: entry.instrument,
+        side,
+        type: config.takeProfit.type,
+        amount: entry.amount,
+        price: config.takeProfit.price,
+        reduceOnly: true,
+        label: `${label}_tp`,
+        triggerPrice: config.takeProfit.price,
+        limitPrice: config.takeProfit.type === 'take_limit' ? config.takeProfit.price : undefined,
+        triggered: false,
+        ocoRef: entry.orderId,
+      }));
+    }
+
+    for (const leg of legs) {
+      if (leg.status === 'open') {
+        this.matchOrder(leg, tick, true);
+      }
+    }
+  }
+
+  private createOrder(fields: Omit<PaperOrder, 'orderId' | 'filled' | 'status' | 'timestamp'>): PaperOrder {
+    const order: PaperOrder = {
+      ...fields,
+      orderId: `paper-${++this.orderSeq}`,
+      filled: 0,
+      status: 'open',
+      timestamp: this.lastTicks.get(fields.instrument)?.timestamp ?? Date.now(),
+    };
+    this.orders.set(order.orderId, order);
+    this.emitOrder(order);
+    return order;
+  }
+
+  private closeOrder(order: PaperOrder, status: 'filled' | 'cancelled'): void {
+    order.status = status;
+    this.emitOrder(order);
+  }
+
+  private openOrders(instrument?: string): PaperOrder[] {
+    return Array.from(this.orders.values()).filter(o =>
+      o.status === 'open' && (!instrument || o.instrument === instrument)
+    );
+  }
+
+  private marketPrice(side: 'buy' | 'sell', tick: PaperTick): number {
+    return (side === 'buy' ? tick.ask : tick.bid) ?? tick.price;
+  }
+
+  private applySlippage(side: 'buy' | 'sell', price: number): number {
+    const slip = price * this.config.slippageBps / 10000;
+    return side === 'buy' ? price + slip : price - slip;
+  }
+
+  private emitOrder(order: PaperOrder): void {
+    this.orderSubscriptions.get(`orders:${order.instrument}`)?.(this.toOrder(order));
+  }
+
+  private toOrder(order: PaperOrder): Order {
+    return {
+      orderId: order.orderId,
+      instrument: order.instrument,
+      side: order.side,
+      type: order.type,
+      amount: order.amount,
+      price: order.price,
+      filled: order.filled,
+      status: order.status,
+      timestamp: order.timestamp,
+      label: order.label,
+      ocoRef: order.ocoRef,
+      reduceOnly: order.reduceOnly,
+    };
+  }
+}
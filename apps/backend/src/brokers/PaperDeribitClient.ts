@@ -0,0 +1,257 @@
+/**
+ * Paper Deribit Client
+ * Drop-in BackendDeribitClient for the paper environment: public requests
+ * (tickers, candles, instruments, order books) go to live Deribit, private
+ * requests are answered by the account's PaperBroker in Deribit's result
+ * format. RazorExecutor, ThorExecutor, OrderLifecycleManager and the trade
+ * finalizer run on it unchanged, as they do on ReplayDeribitClient.
+ */
+
+import { BackendDeribitClient, type DeribitCredentials } from '../deribit-client';
+import type { RequestPriority } from '../deribit-rate-limiter';
+import type { BrokerPosition, Order, OTOCOConfig, Trade } from './IBroker';
+import type { PaperBroker } from './PaperBroker';
+
+const USER_CHANNEL = /^user\.(orders|trades)\.(.+)\.raw$/;
+
+export class PaperDeribitClient extends BackendDeribitClient {
+  /** Instruments whose PaperBroker order updates feed the user.* channels */
+  private orderStreams = new Set<string>();
+
+  constructor(readonly broker: PaperBroker) {
+    super('paper');
+  }
+
+  async connect(credentials: DeribitCredentials = { apiKey: '', apiSecret: '' }): Promise<void> {
+    await super.connect(credentials);
+    // Private requests never reach Deribit, so the private wrappers may run unauthenticated
+    this.authenticated = true;
+  }
+
+  isConnected(): boolean {
+    return super.isConnected() && this.broker.getConnectionStatus() === 'connected';
+  }
+
+  disconnect(): void {
+    this.orderStreams.clear();
+    super.disconnect();
+  }
+
+  async sendRequest(method: string, params: Record<string, any> = {}, priority?: RequestPriority): Promise<any> {
+    if (!method.startsWith('private/')) {
+      return super.sendRequest(method, params, priority);
+    }
+    return this.paperRequest(method, params);
+  }
+
+  // ==========================================================================
+  // Private API on the PaperBroker
+  // ==========================================================================
+
+  private async paperRequest(method: string, params: Record<string, any>): Promise<any> {
+    const broker = this.broker;
+
+    switch (method) {
+      case 'private/buy':
+      case 'private/sell': {
+        const order = await broker.placeOrder({
+          instrument: params.instrument_name,
+          side: method === 'private/buy' ? 'buy' : 'sell',
+          type: params.type ?? 'limit',
+          amount: params.amount,
+          price: params.trigger_price ?? params.price,
+          reduceOnly: params.reduce_only,
+          label: params.label,
+          otocoConfig: toOtocoConfig(params.otoco_config),
+        });
+        return { order: toDeribitOrder(order), trades: this.tradesOf(order.orderId) };
+      }
+
+      case 'private/edit': {
+        const order = await broker.editOrder(params.order_id, '', {
+          amount: params.amount,
+          price: params.trigger_price ?? params.price,
+        });
+        return { order: toDeribitOrder(order), trades: this.tradesOf(order.orderId) };
+      }
+
+      case 'private/close_position': {
+        const order = await broker.closePosition(params.instrument_name, { type: params.type, price: params.price });
+        return { order: toDeribitOrder(order), trades: this.tradesOf(order.orderId) };
+      }
+
+      case 'private/cancel':
+        await broker.cancelOrder(params.order_id);
+        return toDeribitOrder(await broker.getOrder(params.order_id));
+
+      case 'private/cancel_all':
+      case 'private/cancel_all_by_currency':
+      case 'private/cancel_all_by_instrument': {
+        const open = await broker.getOpenOrders(params.instrument_name);
+        await broker.cancelAllOrders(params.instrument_name);
+        return open.length;
+      }
+
+      case 'private/cancel_by_label': {
+        const open = (await broker.getOpenOrders()).filter(o => o.label === params.label);
+        for (const order of open) {
+          await broker.cancelOrder(order.orderId);
+        }
+        return open.length;
+      }
+
+      case 'private/get_order_state':
+        return toDeribitOrder(await broker.getOrder(params.order_id));
+
+      case 'private/get_open_orders_by_instrument':
+        return (await broker.getOpenOrders(params.instrument_name)).map(toDeribitOrder);
+
+      case 'private/get_open_orders_by_currency':
+        return (await broker.getOpenOrders()).map(toDeribitOrder);
+
+      case 'private/get_positions':
+        return (await broker.getPositions()).map(toDeribitPosition);
+
+      case 'private/get_user_trades_by_instrument': {
+        const fills = broker.getFills().filter(t => t.instrument === params.instrument_name);
+        return { trades: fills.slice(-(params.count ?? 10)).reverse().map(toDeribitTrade), has_more: false };
+      }
+
+      case 'private/get_account_summary': {
+        const [balance] = await broker.getBalance(params.currency);
+        return {
+          currency: balance.currency,
+          equity: balance.total,
+          margin_balance: balance.total,
+          available_funds: balance.available,
+          initial_margin: balance.locked,
+        };
+      }
+
+      case 'private/subscribe':
+        for (const channel of params.channels as string[]) {
+          await this.streamOrders(channel);
+        }
+        return params.channels;
+
+      case 'private/unsubscribe':
+        // Notifications stop with the channel's entry in this.subscriptions
+        return params.channels;
+
+      default:
+        throw new Error(`${method} is not available in paper trading`);
+    }
+  }
+
+  /**
+   * Forward PaperBroker order updates (and the fills of filled orders) to the
+   * user.orders / user.trades subscriptions of the instrument
+   */
+  private async streamOrders(channel: string): Promise<void> {
+    const match = USER_CHANNEL.exec(channel);
+    if (!match) {
+      throw new Error(`Channel ${channel} is not available in paper trading`);
+    }
+    const instrument = match[2];
+    if (this.orderStreams.has(instrument)) {
+      return;
+    }
+    this.orderStreams.add(instrument);
+
+    await this.broker.subscribeOrders(instrument, (order) => {
+      this.subscriptions.get(`user.orders.${instrument}.raw`)?.(toDeribitOrder(order));
+      if (order.status === 'filled') {
+        const trades = this.tradesOf(order.orderId);
+        if (trades.length > 0) {
+          this.subscriptions.get(`user.trades.${instrument}.raw`)?.(trades);
+        }
+      }
+    });
+  }
+
+  private tradesOf(orderId: string): any[] {
+    return this.broker.getFills().filter(t => t.orderId === orderId).map(toDeribitTrade);
+  }
+}
+
+// ============================================================================
+// Deribit result shapes
+// ============================================================================
+
+function toDeribitOrder(order: Order): any {
+  const conditional = order.type.startsWith('stop_') || order.type.startsWith('take_');
+  return {
+    order_id: order.orderId,
+    instrument_name: order.instrument,
+    direction: order.side,
+    order_type: order.type,
+    amount: order.amount,
+    filled_amount: order.filled,
+    price: order.price,
+    trigger_price: conditional ? order.price : undefined,
+    average_price: order.filled > 0 ? order.price : 0,
+    order_state: order.status,
+    reduce_only: order.reduceOnly ?? false,
+    label: order.label ?? '',
+    oco_ref: order.ocoRef,
+    creation_timestamp: order.timestamp,
+    last_update_timestamp: order.timestamp,
+  };
+}
+
+function toDeribitTrade(trade: Trade): any {
+  return {
+    trade_id: trade.tradeId,
+    order_id: trade.orderId,
+    instrument_name: trade.instrument,
+    direction: trade.side,
+    amount: trade.amount,
+    price: trade.price,
+    fee: trade.fee ?? 0,
+    fee_currency: trade.feeCurrency,
+    timestamp: trade.timestamp,
+    label: trade.label,
+  };
+}
+
+function toDeribitPosition(position: BrokerPosition): any {
+  return {
+    instrument_name: position.instrument,
+    kind: 'future',
+    direction: position.side === 'long' ? 'buy' : 'sell',
+    size: position.side === 'long' ? position.size : -position.size,
+    average_price: position.entryPrice,
+    mark_price: position.markPrice,
+    floating_profit_loss: position.unrealizedPnl,
+    realized_profit_loss: position.realizedPnl,
+    total_profit_loss: position.unrealizedPnl + (position.realizedPnl ?? 0),
+    leverage: position.leverage,
+  };
+}
+
+/**
+ * Deribit otoco_config legs as an OTOCOConfig (stop leg → stopLoss, other leg → takeProfit)
+ */
+function toOtocoConfig(legs: any[] | undefined): OTOCOConfig | undefined {
+  if (!legs?.length) {
+    return undefined;
+  }
+  const config: OTOCOConfig = {};
+  for (const leg of legs) {
+    if (leg.type === 'stop_market' || leg.type === 'stop_limit') {
+      config.stopLoss = {
+        type: leg.type,
+        triggerPrice: leg.trigger_price ?? leg.price,
+        price: leg.type === 'stop_limit' ? leg.price : undefined,
+        trigger: leg.trigger,
+      };
+    } else {
+      config.takeProfit = {
+        type: leg.type === 'take_market' ? 'take_market' : 'take_limit',
+        price: leg.trigger_price ?? leg.price,
+        trigger: leg.trigger,
+      };
+    }
+  }
+  return config;
+}
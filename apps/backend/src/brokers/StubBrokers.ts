@@ -1,4 +1,4 @@
-import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams } from './IBroker';
+import { IBroker, Credentials, Balance, Order, Trade, Candle, PlaceOrderParams, BrokerPosition, ClosePositionParams, EditOrderParams, BrokerCapabilities, OrderBookSnapshot, MarkPriceUpdate, FundingRate } from './IBroker';
 
 const createStubBroker = (brokerName: string): new () => IBroker => {
   return class StubBroker implements IBroker {
@@ -16,6 +16,10 @@ const createStubBroker = (brokerName: string): new () => IBroker => {
       return this.connectionStatus;
     }
 
+    getCapabilities(): BrokerCapabilities {
+      return { otoco: 'none', reduceOnly: false, postOnly: false, triggerSources: [], maxTriggerOrders: 0 };
+    }
+
     async getBalance(currency?: string): Promise<Balance[]> {
       throw new Error(`${brokerName} broker not yet implemented`);
     }
@@ -40,14 +44,30 @@ const createStubBroker = (brokerName: string): new () => IBroker => {
       throw new Error(`${brokerName} broker not yet implemented`);
     }
 
+    async getFundingRateHistory(instrument: string, limit?: number): Promise<FundingRate[]> {
+      throw new Error(`${brokerName} broker not yet implemented`);
+    }
+
     async subscribeTrades(instrument: string, callback: (trade: Trade) => void): Promise<void> {
       throw new Error(`${brokerName} broker not yet implemented`);
     }
 
+    async subscribeFills(instrument: string, callback: (fill: Trade) => void): Promise<void> {
+      throw new Error(`${brokerName} broker not yet implemented`);
+    }
+
     async subscribeOrders(instrument: string, callback: (order: Order) => void): Promise<void> {
       throw new Error(`${brokerName} broker not yet implemented`);
     }
 
+    async subscribeOrderBook(instrument: string, depth: number, callback: (book: OrderBookSnapshot) => void): Promise<void> {
+      throw new Error(`${brokerName} broker not yet implemented`);
+    }
+
+    async subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+      throw new Error(`${brokerName} broker not yet implemented`);
+    }
+
     async unsubscribe(channel: string): Promise<void> {
       throw new Error(`${brokerName} broker not yet implemented`);
     }
@@ -65,6 +85,18 @@ const createStubBroker = (brokerName: string): new () => IBroker => {
       throw new Error(`${brokerName} broker not yet implemented`);
     }
 
+    async editOrder(orderId: string, instrument: string, changes: EditOrderParams): Promise<Order> {
+      throw new Error(`${brokerName} broker not yet implemented`);
+    }
+
+    async getPositions(instrument?: string): Promise<BrokerPosition[]> {
+      throw new Error(`${brokerName} broker not yet implemented`);
+    }
+
+    async closePosition(instrument: string, params?: ClosePositionParams): Promise<Order> {
+      throw new Error(`${brokerName} broker not yet implemented`);
+    }
+
     async startOrphanCleanup(): Promise<void> {
       // No-op for stub brokers
     }
@@ -79,7 +111,6 @@ const createStubBroker = (brokerName: string): new () => IBroker => {
   };
 };
 
-export const OKXBroker = createStubBroker('OKX');
 export const KrakenBroker = createStubBroker('Kraken');
 export const BitgetBroker = createStubBroker('Bitget');
 export const KucoinBroker = createStubBroker('KuCoin');
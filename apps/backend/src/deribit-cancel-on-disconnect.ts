@@ -0,0 +1,130 @@
+/**
+ * Deribit Cancel-on-Disconnect
+ * Exchange-side dead-man switch for BackendDeribitClient
+ *
+ * `private/enable_cancel_on_disconnect` (scope: connection) makes Deribit cancel every
+ * order created by a connection when it closes - including when the process dies or
+ * hangs: with `public/set_heartbeat` Deribit drops a connection that stops answering
+ * test_requests, which triggers the cancel.
+ *
+ * The exchange can't be told which orders to keep, so orders that should survive a
+ * disconnect are placed over a second, protective connection without cancel-on-disconnect.
+ * Which orders survive is decided per order by the policy of the strategy that placed it
+ * (matched on the order label prefix, see instanceLabelPrefix).
+ *
+ * Brackets attached via otoco_config belong to the entry's connection. When the policy
+ * keeps the stop, the entry and its brackets go over the protective connection together:
+ * the entry then survives the disconnect too, and its SL/TP protect whatever fills.
+ */
+
+import { createHash } from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * - all: every order is cancelled on disconnect
+ * - entries: only entries are cancelled; reduce-only SL/TP orders stay
+ * - keep_stops: everything except protective (reduce-only) stop orders is cancelled
+ * - off: nothing is cancelled
+ */
+export type CancelOnDisconnectPolicy = 'all' | 'entries' | 'keep_stops' | 'off';
+
+export interface DeadManSwitchConfig {
+  enabled: boolean;
+  heartbeatIntervalSec: number; // Deribit minimum is 10
+  defaultPolicy: CancelOnDisconnectPolicy; // orders whose label matches no strategy
+}
+
+export interface DeadManSwitchStatus {
+  enabled: boolean;
+  active: boolean; // confirmed by the exchange on the current connection
+  scope: 'connection';
+  heartbeatIntervalSec: number;
+  defaultPolicy: CancelOnDisconnectPolicy;
+  policies: Record<string, CancelOnDisconnectPolicy>; // label prefix -> policy
+  protectiveConnection: 'connected' | 'disconnected' | 'disabled';
+  // otoco_config SL/TP on disconnect, per label prefix ('*' = default policy)
+  attachedBrackets: Record<string, 'kept' | 'cancelled'>;
+  enabledAt: number | null;
+}
+
+export const DEFAULT_DEAD_MAN_SWITCH: DeadManSwitchConfig = {
+  enabled: true,
+  heartbeatIntervalSec: 10,
+  defaultPolicy: 'keep_stops',
+};
+
+export const CANCEL_ON_DISCONNECT_POLICIES: CancelOnDisconnectPolicy[] = ['all', 'entries', 'keep_stops', 'off'];
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+interface OrderShape {
+  type: string;
+  reduce_only?: boolean;
+  otoco_config?: unknown[];
+}
+
+/**
+ * Whether an order should survive a disconnect under a policy
+ */
+export function survivesDisconnect(order: OrderShape, policy: CancelOnDisconnectPolicy): boolean {
+  switch (policy) {
+    case 'all':
+      return false;
+    case 'entries':
+      return order.reduce_only === true;
+    case 'keep_stops':
+      return order.reduce_only === true && order.type.startsWith('stop');
+    case 'off':
+      return true;
+  }
+}
+
+/**
+ * Whether the otoco_config brackets of an entry should survive a disconnect under a policy
+ * (decided by their stop leg)
+ */
+export function bracketsSurviveDisconnect(policy: CancelOnDisconnectPolicy): boolean {
+  return survivesDisconnect({ type: 'stop_market', reduce_only: true }, policy);
+}
+
+/**
+ * Whether an order must be placed over the protective connection: it survives itself,
+ * or it carries brackets that do
+ */
+export function needsProtectiveConnection(order: OrderShape, policy: CancelOnDisconnectPolicy): boolean {
+  return survivesDisconnect(order, policy) || (!!order.otoco_config?.length && bracketsSurviveDisconnect(policy));
+}
+
+/**
+ * Policy for an order label: the longest registered prefix wins
+ */
+export function resolvePolicy(
+  label: string | undefined,
+  policies: Map<string, CancelOnDisconnectPolicy>,
+  defaultPolicy: CancelOnDisconnectPolicy
+): CancelOnDisconnectPolicy {
+  let match: string | null = null;
+  if (label) {
+    for (const prefix of policies.keys()) {
+      if (label.startsWith(prefix) && (match === null || prefix.length > match.length)) {
+        match = prefix;
+      }
+    }
+  }
+  return match === null ? defaultPolicy : policies.get(match)!;
+}
+
+/**
+ * Order label prefix of one strategy instance: `<type>_<8 hex chars of the strategy id>`
+ * Distinct per instance, so two strategies of a type on one connection keep their own
+ * policy, and stable across restarts, so a restarted strategy finds its open orders.
+ */
+export function instanceLabelPrefix(type: string, strategyId: string): string {
+  const tag = createHash('sha1').update(strategyId).digest('hex').slice(0, 8);
+  return `${type}_${tag}`;
+}
@@ -7,6 +7,26 @@
 import WebSocket from 'ws';
 import crypto from 'crypto';
 import { updateWebSocketHealth, updateWebSocketHeartbeat } from './health';
+import { SessionRecorder, sessionFileName } from './replay/session-recorder';
+import { DeribitRateLimiter, type RateLimiterConfig, type RateLimiterMetrics, type RequestPriority } from './deribit-rate-limiter';
+import { MetricsCollector } from './monitoring/metrics';
+import {
+  DEFAULT_DEAD_MAN_SWITCH,
+  bracketsSurviveDisconnect,
+  needsProtectiveConnection,
+  resolvePolicy,
+  type CancelOnDisconnectPolicy,
+  type DeadManSwitchConfig,
+  type DeadManSwitchStatus,
+} from './deribit-cancel-on-disconnect';
+import {
+  DEFAULT_HOT_STANDBY,
+  NotificationDeduplicator,
+  type HotStandbyConfig,
+  type HotStandbyStatus,
+} from './deribit-hot-standby';
+import { LocalOrderBook, type BookLevelUpdate } from './brokers/OrderBook';
+import type { FundingRate, MarkPriceUpdate } from './brokers/IBroker';
 import type { DeribitCredentials, DeribitEnvironment } from './types/shared';
 
 // Re-export for convenience
@@ -36,10 +56,12 @@ export class BackendDeribitClient {
   private ws: WebSocket | null = null;
   private environment: DeribitEnvironment;
   private credentials: DeribitCredentials | null = null;
-  private authenticated = false;
+  protected authenticated = false;
   private messageId = 1;
-  private pendingRequests = new Map<number, { resolve: any; reject: any; timeout: NodeJS.Timeout }>();
-  private subscriptions = new Map<string, (data: any) => void>();
+  private pendingRequests = new Map<number, { resolve: any; reject: any; timeout: NodeJS.Timeout; ws: WebSocket }>();
+  protected subscriptions = new Map<string, (data: any) => void>();
+  private privateChannels = new Set<string>(); // user.* channels, (re)subscribed with private/subscribe
+  private orderBooks = new Map<string, { book: LocalOrderBook; listeners: Set<(book: LocalOrderBook) => void>; resyncing: boolean }>();
   private reconnectTimer: NodeJS.Timeout | null = null;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private readonly requestTimeout = 30000; // 30 seconds
@@ -51,25 +73,80 @@ export class BackendDeribitClient {
   private circuitBreakerOpen = false;
   private circuitBreakerResetTimer: NodeJS.Timeout | null = null;
 
-  constructor(environment: DeribitEnvironment = 'testnet') {
+  // Session recording (see replay/session-recorder.ts)
+  private recorder: SessionRecorder | null = null;
+
+  // Credit-based request scheduling (see deribit-rate-limiter.ts)
+  private rateLimiter: DeribitRateLimiter;
+
+  // Cancel-on-disconnect dead-man switch (see deribit-cancel-on-disconnect.ts)
+  private readonly deadManSwitch: DeadManSwitchConfig;
+  private cancelOnDisconnectPolicies = new Map<string, CancelOnDisconnectPolicy>();
+  private cancelOnDisconnectActive = false;
+  private cancelOnDisconnectEnabledAt: number | null = null;
+  private protectiveClient: BackendDeribitClient | null = null;
+
+  // Hot standby connection (see deribit-hot-standby.ts)
+  private readonly hotStandby: HotStandbyConfig;
+  private standbyWs: WebSocket | null = null;
+  private standbyReady = false;
+  private standbyTimer: NodeJS.Timeout | null = null;
+  private stallWatchdog: NodeJS.Timeout | null = null;
+  private lastNotificationAt = new WeakMap<WebSocket, number>();
+  private deduplicator = new NotificationDeduplicator();
+  private failedOver = false;
+  private failovers = 0;
+  private readonly standbyRetryDelay = 5000;
+
+  constructor(
+    environment: DeribitEnvironment = 'testnet',
+    rateLimits: Partial<RateLimiterConfig> = {},
+    deadManSwitch: Partial<DeadManSwitchConfig> = {},
+    hotStandby: Partial<HotStandbyConfig> = {}
+  ) {
     this.environment = environment;
+    this.rateLimiter = new DeribitRateLimiter(rateLimits);
+    this.deadManSwitch = {
+      ...DEFAULT_DEAD_MAN_SWITCH,
+      // DERIBIT_CANCEL_ON_DISCONNECT=false: leave orders resting when the backend goes away
+      enabled: environment !== 'paper' && process.env.DERIBIT_CANCEL_ON_DISCONNECT !== 'false',
+      ...deadManSwitch,
+    };
+    this.hotStandby = {
+      ...DEFAULT_HOT_STANDBY,
+      // DERIBIT_HOT_STANDBY=true: keep a second connection warm for instant failover
+      enabled: process.env.DERIBIT_HOT_STANDBY === 'true',
+      ...hotStandby,
+    };
   }
 
   /**
    * Get WebSocket URL based on environment
+   * Paper trading uses live market data
    */
   private getWsUrl(): string {
-    return this.environment === 'live'
-      ? 'wss://www.deribit.com/ws/api/v2'
-      : 'wss://test.deribit.com/ws/api/v2';
+    return this.environment === 'testnet'
+      ? 'wss://test.deribit.com/ws/api/v2'
+      : 'wss://www.deribit.com/ws/api/v2';
   }
 
   /**
    * Connect to Deribit and authenticate
+   * In the paper environment the connection is public-only (no auth)
    */
   async connect(credentials: DeribitCredentials): Promise<void> {
     this.credentials = credentials;
 
+    // DERIBIT_RECORD_DIR: record every session for incident replay
+    if (!this.recorder?.isRecording() && process.env.DERIBIT_RECORD_DIR) {
+      const filePath = sessionFileName(process.env.DERIBIT_RECORD_DIR, this.environment);
+      await this.startRecording(filePath).catch(error => {
+        console.error(`[DeribitClient] ❌ Session recording to ${filePath} unavailable:`, error.message);
+      });
+    }
+
+    MetricsCollector.getInstance().addRequestScheduler(this.rateLimiter);
+
     return new Promise((resolve, reject) => {
       try {
         console.log(`[DeribitClient] Connecting to ${this.environment}...`);
@@ -82,15 +159,21 @@ export class BackendDeribitClient {
           console.log('[DeribitClient] WebSocket connected');
           
           try {
-            await this.authenticate();
+            if (this.environment !== 'paper') {
+              await this.authenticate();
+              await this.enableCancelOnDisconnect();
+            }
             this.startHeartbeat();
             
             // CRITICAL: Resubscribe to all channels after reconnect
             await this.resubscribeAll();
+            this.startHotStandby();
             
             updateWebSocketHealth('connected');
             updateWebSocketHeartbeat();
-            console.log('[DeribitClient] Authenticated successfully');
+            console.log(this.environment === 'paper'
+              ? '[DeribitClient] Connected (public market data only)'
+              : '[DeribitClient] Authenticated successfully');
             resolve();
           } catch (error) {
             updateWebSocketHealth('disconnected');
@@ -99,7 +182,7 @@ export class BackendDeribitClient {
         });
 
         ws.on('message', (data: Buffer | string) => {
-          this.handleMessage(data.toString());
+          this.handleMessage(data.toString(), ws);
           updateWebSocketHeartbeat();
         });
 
@@ -109,21 +192,7 @@ export class BackendDeribitClient {
           reject(error);
         });
 
-        ws.on('close', () => {
-          console.log('[DeribitClient] WebSocket closed');
-          this.authenticated = false;
-          updateWebSocketHealth('disconnected');
-          this.cleanup();
-          
-          // AUTO-RECONNECT: Enable for 24/7 trading (backend-only)
-          // Only reconnect if we have credentials (prevents reconnect after manual disconnect)
-          if (this.credentials) {
-            console.log('[DeribitClient] 🔄 Connection lost - scheduling auto-reconnect...');
-            this.scheduleReconnect();
-          } else {
-            console.log('[DeribitClient] ⚠️ Connection closed - no credentials, manual reconnect required');
-          }
-        });
+        ws.on('close', () => this.handlePrimaryClose(ws));
       } catch (error) {
         updateWebSocketHealth('disconnected');
         reject(error);
@@ -131,6 +200,32 @@ export class BackendDeribitClient {
     });
   }
 
+  /**
+   * Primary connection closed: promote the hot standby, or reconnect
+   */
+  private handlePrimaryClose(ws: WebSocket): void {
+    // Closing a socket that was already replaced (failover, manual reconnect)
+    if (ws !== this.ws) {
+      return;
+    }
+    console.log('[DeribitClient] WebSocket closed');
+    if (this.credentials && this.promoteStandby(ws)) {
+      return;
+    }
+    this.authenticated = false;
+    updateWebSocketHealth('disconnected');
+    this.cleanup();
+    
+    // AUTO-RECONNECT: Enable for 24/7 trading (backend-only)
+    // Only reconnect if we have credentials (prevents reconnect after manual disconnect)
+    if (this.credentials) {
+      console.log('[DeribitClient] 🔄 Connection lost - scheduling auto-reconnect...');
+      this.scheduleReconnect();
+    } else {
+      console.log('[DeribitClient] ⚠️ Connection closed - no credentials, manual reconnect required');
+    }
+  }
+
   /**
    * Schedule reconnect with exponential backoff
    */
@@ -195,27 +290,296 @@ export class BackendDeribitClient {
    * Authenticate with Deribit using credentials
    */
   private async authenticate(): Promise<void> {
+    const response = await this.sendRequest('public/auth', this.authParams());
+
+    if (response.access_token) {
+      this.authenticated = true;
+    } else {
+      throw new Error('Authentication failed');
+    }
+  }
+
+  /**
+   * Arm the exchange-side dead-man switch for this connection and open the
+   * protective connection for orders that must survive a disconnect.
+   * Failures are logged, not thrown: trading without the switch beats not trading.
+   */
+  private async enableCancelOnDisconnect(): Promise<void> {
+    if (!this.deadManSwitch.enabled) {
+      return;
+    }
+
+    try {
+      await this.sendRequest('private/enable_cancel_on_disconnect', { scope: 'connection' }, 'high');
+      this.cancelOnDisconnectActive = true;
+      this.cancelOnDisconnectEnabledAt = Date.now();
+      console.log(`[DeribitClient] ✅ Cancel-on-disconnect enabled (heartbeat ${this.deadManSwitch.heartbeatIntervalSec}s)`);
+    } catch (error) {
+      console.error('[DeribitClient] ❌ Failed to enable cancel-on-disconnect:', error);
+      return;
+    }
+
+    if (!this.protectiveClient && this.credentials) {
+      const protectiveClient = new BackendDeribitClient(this.environment, {}, { enabled: false }, { enabled: false });
+      try {
+        await protectiveClient.connect(this.credentials);
+        this.protectiveClient = protectiveClient;
+        console.log('[DeribitClient] ✅ Protective connection ready');
+      } catch (error) {
+        protectiveClient.disconnect();
+        console.error('[DeribitClient] ❌ Protective connection failed, all orders will be cancelled on disconnect:', error);
+      }
+    }
+  }
+
+  /**
+   * Cancel-on-disconnect policy for orders whose label starts with labelPrefix
+   * (e.g. `razor_` or `strategy_<id>_`); pass null to remove it
+   */
+  setCancelOnDisconnectPolicy(labelPrefix: string, policy: CancelOnDisconnectPolicy | null): void {
+    if (policy === null) {
+      this.cancelOnDisconnectPolicies.delete(labelPrefix);
+    } else {
+      this.cancelOnDisconnectPolicies.set(labelPrefix, policy);
+    }
+  }
+
+  getDeadManSwitchStatus(): DeadManSwitchStatus {
+    return {
+      enabled: this.deadManSwitch.enabled,
+      active: this.cancelOnDisconnectActive,
+      scope: 'connection',
+      heartbeatIntervalSec: this.deadManSwitch.heartbeatIntervalSec,
+      defaultPolicy: this.deadManSwitch.defaultPolicy,
+      policies: Object.fromEntries(this.cancelOnDisconnectPolicies),
+      protectiveConnection: !this.deadManSwitch.enabled
+        ? 'disabled'
+        : this.protectiveClient?.isConnected() ? 'connected' : 'disconnected',
+      enabledAt: this.cancelOnDisconnectEnabledAt,
+      attachedBrackets: this.attachedBracketCoverage(),
+    };
+  }
+
+  /**
+   * What happens to otoco_config brackets on disconnect: they are only kept when cancel-on-disconnect
+   * is off, or when the policy keeps stops and the protective connection is up to take the entry
+   */
+  private attachedBracketCoverage(): Record<string, 'kept' | 'cancelled'> {
+    const protectiveUp = this.protectiveClient?.isConnected() ?? false;
+    const coverage = (policy: CancelOnDisconnectPolicy): 'kept' | 'cancelled' =>
+      !this.cancelOnDisconnectActive || policy === 'off' || (bracketsSurviveDisconnect(policy) && protectiveUp)
+        ? 'kept'
+        : 'cancelled';
+
+    return {
+      '*': coverage(this.deadManSwitch.defaultPolicy),
+      ...Object.fromEntries([...this.cancelOnDisconnectPolicies].map(([prefix, policy]) => [prefix, coverage(policy)])),
+    };
+  }
+
+  // ==========================================================================
+  // Hot standby (see deribit-hot-standby.ts)
+  // ==========================================================================
+
+  /**
+   * Open the standby connection and the stall watchdog (no-op unless enabled)
+   */
+  private startHotStandby(): void {
+    if (!this.hotStandby.enabled || !this.credentials || this.standbyWs) {
+      return;
+    }
+
+    this.connectStandby();
+    if (!this.stallWatchdog) {
+      this.stallWatchdog = setInterval(() => this.checkPrimaryStall(), this.hotStandby.stallTimeoutMs);
+    }
+  }
+
+  /**
+   * Second connection with the same auth, dead-man switch, heartbeat and subscriptions
+   */
+  private connectStandby(): void {
+    const ws = new WebSocket(this.getWsUrl());
+    this.standbyWs = ws;
+    this.standbyReady = false;
+
+    ws.on('open', async () => {
+      try {
+        if (this.environment !== 'paper') {
+          await this.sendOn(ws, 'public/auth', this.authParams());
+          if (this.cancelOnDisconnectActive) {
+            await this.sendOn(ws, 'private/enable_cancel_on_disconnect', { scope: 'connection' }, 'high');
+          }
+        }
+        await this.sendOn(ws, 'public/set_heartbeat', { interval: this.heartbeatInterval() });
+
+        const channels = Array.from(this.subscriptions.keys());
+        const { publicChannels, privateChannels } = this.splitChannels(channels);
+        if (publicChannels.length > 0) {
+          await this.sendOn(ws, 'public/subscribe', { channels: publicChannels });
+        }
+        if (privateChannels.length > 0) {
+          await this.sendOn(ws, 'private/subscribe', { channels: privateChannels });
+        }
+
+        if (ws === this.standbyWs) {
+          this.standbyReady = true;
+          console.log(`[DeribitClient] ✅ Hot standby ready (${channels.length} channel(s))`);
+        }
+      } catch (error) {
+        console.error('[DeribitClient] ❌ Hot standby setup failed:', error);
+        ws.close();
+      }
+    });
+
+    ws.on('message', (data: Buffer | string) => {
+      this.handleMessage(data.toString(), ws);
+    });
+
+    ws.on('error', (error: Error) => {
+      console.error('[DeribitClient] Hot standby error:', error.message);
+    });
+
+    ws.on('close', () => {
+      // Promoted standbys close as the primary
+      if (ws === this.ws) {
+        this.handlePrimaryClose(ws);
+        return;
+      }
+
+      this.rejectPending(ws, new Error('Connection closed'));
+      if (ws !== this.standbyWs) {
+        return;
+      }
+
+      console.warn('[DeribitClient] ⚠️ Hot standby closed - reopening');
+      this.standbyWs = null;
+      this.standbyReady = false;
+      this.standbyTimer = setTimeout(() => {
+        this.standbyTimer = null;
+        this.startHotStandby();
+      }, this.standbyRetryDelay);
+    });
+  }
+
+  /**
+   * Make the standby the primary after the primary closed; subscriptions, order books
+   * and queued requests carry over. Orders placed over the lost connection are still
+   * subject to its cancel-on-disconnect.
+   * @returns false when no standby was ready
+   */
+  private promoteStandby(failed: WebSocket): boolean {
+    const standby = this.standbyWs;
+    if (!this.standbyReady || !standby || standby.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    this.ws = standby;
+    this.standbyWs = null;
+    this.standbyReady = false;
+    this.failedOver = false;
+    this.failovers++;
+    this.rejectPending(failed, new Error('Connection closed'));
+    updateWebSocketHealth('connected');
+    console.warn(`[DeribitClient] ⚡ Primary connection lost - promoted hot standby (failover #${this.failovers})`);
+
+    this.startHotStandby();
+    return true;
+  }
+
+  /**
+   * Primary open but behind the standby: the standby delivered a notification more
+   * than `threshold` ms after the primary's last one
+   */
+  private isStalled(primary: WebSocket | null, threshold = this.hotStandby.stallTimeoutMs): boolean {
+    if (!primary || primary.readyState !== WebSocket.OPEN) {
+      return true;
+    }
+    const standbyLast = this.standbyWs ? this.lastNotificationAt.get(this.standbyWs) : undefined;
+    return standbyLast !== undefined && standbyLast - (this.lastNotificationAt.get(primary) ?? 0) > threshold;
+  }
+
+  /**
+   * Drop a primary that stays stalled, so the standby is promoted instead of
+   * waiting for the heartbeat to time out
+   */
+  private checkPrimaryStall(): void {
+    if (this.ws && this.standbyReady && this.isStalled(this.ws, 2 * this.hotStandby.stallTimeoutMs)) {
+      console.warn('[DeribitClient] ⚡ Primary connection unresponsive - dropping it');
+      this.ws.terminate();
+    }
+  }
+
+  private stopHotStandby(): void {
+    if (this.stallWatchdog) {
+      clearInterval(this.stallWatchdog);
+      this.stallWatchdog = null;
+    }
+    if (this.standbyTimer) {
+      clearTimeout(this.standbyTimer);
+      this.standbyTimer = null;
+    }
+
+    const standby = this.standbyWs;
+    this.standbyWs = null;
+    this.standbyReady = false;
+    this.failedOver = false;
+    standby?.close();
+    this.deduplicator.clear();
+  }
+
+  /**
+   * Keep the other connection's subscriptions in step (fire-and-forget; the
+   * response is ignored)
+   */
+  private mirrorSubscription(method: string, params: Record<string, any>, sentOn: WebSocket): void {
+    if (!/^(public|private)\/(un)?subscribe$/.test(method)) {
+      return;
+    }
+    // A (re)subscribe starts with a fresh snapshot, which may repeat a seen change_id
+    if (method.endsWith('/subscribe')) {
+      this.deduplicator.forget(params.channels ?? []);
+    }
+    if (!this.standbyReady) {
+      return;
+    }
+
+    const other = sentOn === this.ws ? this.standbyWs : this.ws;
+    if (other && other.readyState === WebSocket.OPEN) {
+      const message = { jsonrpc: '2.0', id: this.messageId++, method, params };
+      other.send(JSON.stringify(message));
+    }
+  }
+
+  getHotStandbyStatus(): HotStandbyStatus {
+    return {
+      enabled: this.hotStandby.enabled,
+      standby: !this.hotStandby.enabled
+        ? 'disabled'
+        : this.standbyReady ? 'ready' : this.standbyWs ? 'connecting' : 'down',
+      failedOver: this.failedOver,
+      failovers: this.failovers,
+      duplicatesDropped: this.deduplicator.getDroppedCount(),
+    };
+  }
+
+  /**
+   * Signed public/auth parameters (client_signature grant)
+   */
+  private authParams(): Record<string, any> {
     if (!this.credentials) {
       throw new Error('No credentials provided');
     }
 
     const timestamp = Date.now();
     const nonce = crypto.randomBytes(16).toString('hex');
-    const signature = this.generateSignature(timestamp, nonce);
-
-    const response = await this.sendRequest('public/auth', {
+    return {
       grant_type: 'client_signature',
       client_id: this.credentials.apiKey,
       timestamp,
-      signature,
+      signature: this.generateSignature(timestamp, nonce),
       nonce,
-    });
-
-    if (response.access_token) {
-      this.authenticated = true;
-    } else {
-      throw new Error('Authentication failed');
-    }
+    };
   }
 
   /**
@@ -235,10 +599,50 @@ export class BackendDeribitClient {
 
   /**
    * Send request to Deribit and wait for response
+   * Queued by credit pool and priority; cancels and protective orders go first
+   * @param priority overrides the default priority (e.g. 'low' for background polling)
    */
-  async sendRequest(method: string, params: Record<string, any> = {}): Promise<any> {
+  async sendRequest(method: string, params: Record<string, any> = {}, priority?: RequestPriority): Promise<any> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket not connected');
+    }
+    return this.rateLimiter.schedule(method, params, () => this.transmit(method, params), priority);
+  }
+
+  /**
+   * Socket for the next request: the primary, unless it has stalled and the standby is ready
+   */
+  private activeSocket(): WebSocket | null {
+    const stalled = this.standbyReady && this.isStalled(this.ws);
+    if (stalled !== this.failedOver) {
+      this.failedOver = stalled;
+      console.warn(stalled
+        ? '[DeribitClient] ⚡ Primary connection stalled - routing requests over hot standby'
+        : '[DeribitClient] ✅ Primary connection recovered');
+    }
+    return stalled ? this.standbyWs : this.ws;
+  }
+
+  /**
+   * Send over a specific connection (heartbeat answers, standby setup)
+   */
+  private sendOn(ws: WebSocket, method: string, params: Record<string, any> = {}, priority?: RequestPriority): Promise<any> {
+    return this.rateLimiter.schedule(method, params, () => this.transmit(method, params, ws), priority);
+  }
+
+  /**
+   * Rate limiter queue depth, remaining credits and throttling counters
+   */
+  getRateLimiterMetrics(): RateLimiterMetrics {
+    return this.rateLimiter.getMetrics();
+  }
+
+  /**
+   * Write the JSON-RPC message and wait for its response
+   */
+  private transmit(method: string, params: Record<string, any>, ws: WebSocket | null = this.activeSocket()): Promise<any> {
     return new Promise((resolve, reject) => {
-      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
         reject(new Error('WebSocket not connected'));
         return;
       }
@@ -257,18 +661,30 @@ export class BackendDeribitClient {
         reject(new Error(`Request timeout: ${method}`));
       }, this.requestTimeout);
 
-      this.pendingRequests.set(id, { resolve, reject, timeout });
+      this.pendingRequests.set(id, { resolve, reject, timeout, ws });
 
-      this.ws.send(JSON.stringify(message));
+      this.recorder?.recordOutgoing(message);
+      ws.send(JSON.stringify(message));
+      this.mirrorSubscription(method, params, ws);
     });
   }
 
   /**
    * Handle incoming messages
    */
-  private handleMessage(data: string): void {
+  private handleMessage(data: string, source: WebSocket | null = this.ws): void {
     try {
       const message = JSON.parse(data);
+      // With a hot standby every notification arrives twice - deliver (and record) the first
+      if (message.method === 'subscription' && this.standbyWs) {
+        if (source) {
+          this.lastNotificationAt.set(source, Date.now());
+        }
+        if (this.deduplicator.isDuplicate(message.params.channel, message.params.data)) {
+          return;
+        }
+      }
+      this.recorder?.recordIncoming(message);
 
       // Handle responses to requests
       if (message.id && this.pendingRequests.has(message.id)) {
@@ -298,20 +714,30 @@ export class BackendDeribitClient {
       }
 
       // Handle heartbeat test_request
+      // Answered on the connection that asked, or Deribit drops it
       if (message.method === 'heartbeat' && message.params?.type === 'test_request') {
-        this.sendRequest('public/test');
+        (source ? this.sendOn(source, 'public/test') : this.sendRequest('public/test')).catch(err => {
+          console.error('[DeribitClient] Heartbeat response failed:', err);
+        });
       }
     } catch (error) {
       console.error('[DeribitClient] Error parsing message:', error);
     }
   }
 
+  /**
+   * Heartbeat interval in seconds; with cancel-on-disconnect armed a short interval
+   * makes a hung process lose its connection (and its orders) quickly
+   */
+  private heartbeatInterval(): number {
+    return this.cancelOnDisconnectActive ? this.deadManSwitch.heartbeatIntervalSec : 30;
+  }
+
   /**
    * Start heartbeat to keep connection alive
    */
   private startHeartbeat(): void {
-    // Enable heartbeat
-    this.sendRequest('public/set_heartbeat', { interval: 30 }).catch(err => {
+    this.sendRequest('public/set_heartbeat', { interval: this.heartbeatInterval() }).catch(err => {
       console.error('[DeribitClient] Failed to set heartbeat:', err);
     });
 
@@ -333,6 +759,15 @@ export class BackendDeribitClient {
       throw new Error('Not authenticated');
     }
 
+    // Orders that must outlive this connection go over the protective one
+    const policy = resolvePolicy(order.label, this.cancelOnDisconnectPolicies, this.deadManSwitch.defaultPolicy);
+    if (this.cancelOnDisconnectActive && needsProtectiveConnection(order, policy)) {
+      if (this.protectiveClient?.isConnected()) {
+        return this.protectiveClient.placeOrder(order);
+      }
+      console.warn(`[DeribitClient] ⚠️ Protective connection down, ${order.label ?? order.type} will be cancelled on disconnect`);
+    }
+
     const method = order.direction === 'buy' ? 'private/buy' : 'private/sell';
     
     // For stop orders, use trigger_price instead of price
@@ -521,14 +956,14 @@ export class BackendDeribitClient {
   /**
    * Get positions
    */
-  async getPositions(currency: string): Promise<any[]> {
+  async getPositions(currency: string, kind: 'future' | 'option' = 'future'): Promise<any[]> {
     if (!this.authenticated) {
       throw new Error('Not authenticated');
     }
 
     const result = await this.sendRequest('private/get_positions', {
       currency,
-      kind: 'future',
+      kind,
     });
 
     return result || [];
@@ -545,6 +980,19 @@ export class BackendDeribitClient {
     return result;
   }
 
+  /**
+   * List active instruments of a kind for a currency (e.g. all BTC options)
+   */
+  async getInstruments(currency: string, kind: 'future' | 'option' = 'future'): Promise<any[]> {
+    const result = await this.sendRequest('public/get_instruments', {
+      currency,
+      kind,
+      expired: false,
+    });
+
+    return result || [];
+  }
+
   /**
    * Get ticker (current market data)
    */
@@ -576,6 +1024,27 @@ export class BackendDeribitClient {
     return result;
   }
 
+  /**
+   * Get hourly funding history for a perpetual, oldest first
+   * Deribit funding accrues continuously; interest_1h is the rate realised over each hour.
+   * @param count - number of hours to fetch
+   */
+  async getFundingRateHistory(instrument: string, count: number = 100): Promise<FundingRate[]> {
+    const endTime = Date.now();
+    const startTime = endTime - count * 60 * 60 * 1000;
+
+    const result: Array<{ timestamp: number; interest_1h: number }> = await this.sendRequest('public/get_funding_rate_history', {
+      instrument_name: instrument,
+      start_timestamp: startTime,
+      end_timestamp: endTime,
+    });
+
+    return (result || [])
+      .map(entry => ({ instrument, rate: entry.interest_1h, intervalHours: 1, timestamp: entry.timestamp }))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-count);
+  }
+
   /**
    * Cancel an order
    */
@@ -669,6 +1138,30 @@ export class BackendDeribitClient {
     return await this.sendRequest('private/close_position', params);
   }
 
+  /**
+   * Edit (amend) an open order in place
+   * @param triggerPrice - new trigger price for stop/take orders
+   */
+  async editOrder(orderId: string, amount: number, price?: number, triggerPrice?: number): Promise<any> {
+    if (!this.authenticated) {
+      throw new Error('Not authenticated');
+    }
+
+    const params: any = {
+      order_id: orderId,
+      amount,
+    };
+
+    if (price !== undefined) {
+      params.price = price;
+    }
+    if (triggerPrice !== undefined) {
+      params.trigger_price = triggerPrice;
+    }
+
+    return await this.sendRequest('private/edit', params);
+  }
+
 
   /**
    * Subscribe to ticker updates
@@ -715,13 +1208,182 @@ export class BackendDeribitClient {
     }
   }
 
+  /**
+   * Subscribe to a local L2 book maintained from `book.<instrument>.100ms` updates.
+   * Books are shared per instrument; listeners only see synced books.
+   * A change_id gap invalidates the book and resubscribes for a fresh snapshot.
+   */
+  async subscribeOrderBook(instrument: string, callback: (book: LocalOrderBook) => void): Promise<LocalOrderBook> {
+    const existing = this.orderBooks.get(instrument);
+    if (existing) {
+      existing.listeners.add(callback);
+      return existing.book;
+    }
+
+    const channel = `book.${instrument}.100ms`;
+    const entry = { book: new LocalOrderBook(instrument), listeners: new Set([callback]), resyncing: false };
+    this.orderBooks.set(instrument, entry);
+
+    // Deribit levels are [action, price, amount]
+    const toLevels = (levels: Array<[string, number, number]> = []): BookLevelUpdate[] =>
+      levels.map(([action, price, amount]) => [price, action === 'delete' ? 0 : amount]);
+
+    this.subscriptions.set(channel, (data: any) => {
+      const { book } = entry;
+      if (data.type === 'snapshot') {
+        book.applySnapshot(toLevels(data.bids), toLevels(data.asks), data.change_id, data.timestamp);
+        entry.resyncing = false;
+      } else if (!book.applyDelta(toLevels(data.bids), toLevels(data.asks), data.change_id, data.prev_change_id, data.timestamp)) {
+        if (!entry.resyncing) {
+          console.warn(`[DeribitClient] ⚠️ Order book gap on ${instrument} (prev_change_id ${data.prev_change_id}), resyncing...`);
+          this.resyncOrderBook(channel, entry);
+        }
+        return;
+      }
+      entry.listeners.forEach(listener => listener(book));
+    });
+
+    try {
+      await this.sendRequest('public/subscribe', { channels: [channel] });
+      console.log(`[DeribitClient] ✅ Subscribed to ${channel}`);
+    } catch (error) {
+      this.subscriptions.delete(channel);
+      this.orderBooks.delete(instrument);
+      throw error;
+    }
+    return entry.book;
+  }
+
+  /**
+   * Remove a book listener; the channel is dropped with the last one (or when no callback is given)
+   */
+  async unsubscribeOrderBook(instrument: string, callback?: (book: LocalOrderBook) => void): Promise<void> {
+    const entry = this.orderBooks.get(instrument);
+    if (!entry) {
+      return;
+    }
+    if (callback) {
+      entry.listeners.delete(callback);
+    }
+    if (!callback || entry.listeners.size === 0) {
+      this.orderBooks.delete(instrument);
+      await this.unsubscribe(`book.${instrument}.100ms`);
+    }
+  }
+
+  private async resyncOrderBook(channel: string, entry: { book: LocalOrderBook; resyncing: boolean }): Promise<void> {
+    entry.resyncing = true;
+    try {
+      // Deribit sends a fresh snapshot on (re)subscribe
+      await this.sendRequest('public/unsubscribe', { channels: [channel] }, 'high');
+      await this.sendRequest('public/subscribe', { channels: [channel] }, 'high');
+    } catch (error) {
+      console.error(`[DeribitClient] ❌ Failed to resync ${channel}:`, error);
+      entry.resyncing = false;
+    }
+  }
+
+  /**
+   * Subscribe to mark/index price and funding updates from `ticker.<instrument>.100ms`.
+   * Kept off the `.raw` ticker channel so it doesn't replace a strategy's ticker callback.
+   * funding_8h is the current rate annualised to Deribit's 8h reference interval.
+   */
+  async subscribeMarkPrice(instrument: string, callback: (update: MarkPriceUpdate) => void): Promise<void> {
+    const channel = `ticker.${instrument}.100ms`;
+
+    this.subscriptions.set(channel, (data: any) => {
+      callback({
+        instrument: data.instrument_name ?? instrument,
+        markPrice: data.mark_price,
+        indexPrice: data.index_price,
+        fundingRate: data.funding_8h ?? 0,
+        fundingIntervalHours: 8,
+        timestamp: data.timestamp,
+      });
+    });
+
+    try {
+      await this.sendRequest('public/subscribe', { channels: [channel] });
+      console.log(`[DeribitClient] ✅ Subscribed to ${channel}`);
+    } catch (error) {
+      this.subscriptions.delete(channel);
+      throw error;
+    }
+  }
+
+  async unsubscribeMarkPrice(instrument: string): Promise<void> {
+    await this.unsubscribe(`ticker.${instrument}.100ms`);
+  }
+
+  /**
+   * Subscribe to public trades on `trades.<instrument>.raw` (an array of trades per notification)
+   */
+  async subscribeTrades(instrument: string, callback: (trades: any[]) => void): Promise<void> {
+    const channel = `trades.${instrument}.raw`;
+
+    this.subscriptions.set(channel, (data: any) => {
+      callback(Array.isArray(data) ? data : [data]);
+    });
+
+    try {
+      await this.sendRequest('public/subscribe', { channels: [channel] });
+      console.log(`[DeribitClient] ✅ Subscribed to ${channel}`);
+    } catch (error) {
+      this.subscriptions.delete(channel);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to our own order updates on `user.orders.<instrument>.raw` (one order per
+   * notification: new, filled, cancelled, rejected, triggered). Requires authentication.
+   */
+  async subscribeUserOrders(instrument: string, callback: (order: any) => void): Promise<void> {
+    await this.subscribePrivate(`user.orders.${instrument}.raw`, callback);
+  }
+
+  /**
+   * Subscribe to our own fills on `user.trades.<instrument>.raw` (an array of trades per
+   * notification; partial fills arrive as separate trades). Requires authentication.
+   */
+  async subscribeUserTrades(instrument: string, callback: (trades: any[]) => void): Promise<void> {
+    await this.subscribePrivate(`user.trades.${instrument}.raw`, (data: any) => {
+      callback(Array.isArray(data) ? data : [data]);
+    });
+  }
+
+  private async subscribePrivate(channel: string, callback: (data: any) => void): Promise<void> {
+    if (!this.authenticated) {
+      throw new Error(`Cannot subscribe to ${channel}: not authenticated`);
+    }
+
+    this.subscriptions.set(channel, callback);
+    this.privateChannels.add(channel);
+    try {
+      await this.sendRequest('private/subscribe', { channels: [channel] });
+      console.log(`[DeribitClient] ✅ Subscribed to ${channel}`);
+    } catch (error) {
+      this.subscriptions.delete(channel);
+      this.privateChannels.delete(channel);
+      throw error;
+    }
+  }
+
+  private splitChannels(channels: string[]): { publicChannels: string[]; privateChannels: string[] } {
+    return {
+      publicChannels: channels.filter(c => !this.privateChannels.has(c)),
+      privateChannels: channels.filter(c => this.privateChannels.has(c)),
+    };
+  }
+
   /**
    * Unsubscribe from channel
    */
   async unsubscribe(channel: string): Promise<void> {
     this.subscriptions.delete(channel);
+    const method = this.privateChannels.delete(channel) ? 'private/unsubscribe' : 'public/unsubscribe';
 
-    await this.sendRequest('public/unsubscribe', {
+    await this.sendRequest(method, {
       channels: [channel],
     });
 
@@ -743,10 +1405,14 @@ export class BackendDeribitClient {
     console.log(`[DeribitClient] 🔄 Resubscribing to ${channels.length} channel(s) after reconnect...`);
     
     try {
-      // Resubscribe to all channels in one request (more efficient)
-      await this.sendRequest('public/subscribe', {
-        channels: channels,
-      });
+      // Resubscribe to all channels in one request per scope (more efficient)
+      const { publicChannels, privateChannels } = this.splitChannels(channels);
+      if (publicChannels.length > 0) {
+        await this.sendRequest('public/subscribe', { channels: publicChannels });
+      }
+      if (privateChannels.length > 0) {
+        await this.sendRequest('private/subscribe', { channels: privateChannels });
+      }
       
       console.log(`[DeribitClient] ✅ Successfully resubscribed to all channels:`, channels);
     } catch (error) {
@@ -755,12 +1421,41 @@ export class BackendDeribitClient {
     }
   }
 
+  /**
+   * Start recording all JSON-RPC traffic to a gzipped session file
+   */
+  async startRecording(filePath: string): Promise<void> {
+    if (this.recorder?.isRecording()) {
+      throw new Error(`Already recording to ${this.recorder.filePath}`);
+    }
+    this.recorder = await SessionRecorder.open(filePath, this.environment);
+  }
+
+  /**
+   * Stop recording and flush the session file
+   */
+  async stopRecording(): Promise<void> {
+    const recorder = this.recorder;
+    this.recorder = null;
+    await recorder?.close();
+  }
+
   /**
    * Disconnect
    */
   disconnect(): void {
     console.log('[DeribitClient] Disconnecting...');
+    // Without credentials the close handler won't auto-reconnect
+    this.credentials = null;
+    this.authenticated = false;
+    this.protectiveClient?.disconnect();
+    this.protectiveClient = null;
+    this.stopHotStandby();
     this.cleanup();
+    MetricsCollector.getInstance().removeRequestScheduler(this.rateLimiter);
+    this.stopRecording().catch(err => {
+      console.error('[DeribitClient] Failed to save session recording:', err);
+    });
     
     if (this.ws) {
       this.ws.close();
@@ -768,10 +1463,25 @@ export class BackendDeribitClient {
     }
   }
 
+  /**
+   * Reject requests waiting on a connection that closed
+   */
+  private rejectPending(ws: WebSocket, error: Error): void {
+    for (const [id, entry] of this.pendingRequests.entries()) {
+      if (entry.ws === ws) {
+        clearTimeout(entry.timeout);
+        this.pendingRequests.delete(id);
+        entry.reject(error);
+      }
+    }
+  }
+
   /**
    * Cleanup timers and pending requests
    */
   private cleanup(): void {
+    this.cancelOnDisconnectActive = false;
+
     if (this.heartbeatTimer) {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
@@ -787,18 +1497,27 @@ export class BackendDeribitClient {
       this.circuitBreakerResetTimer = null;
     }
 
-    // Reject all pending requests
+    // Reject all pending and queued requests
     for (const [id, { reject, timeout }] of this.pendingRequests.entries()) {
       clearTimeout(timeout);
       reject(new Error('Connection closed'));
     }
     this.pendingRequests.clear();
+    this.rateLimiter.clear(new Error('Connection closed'));
+
+    // Books resync from the snapshot sent on resubscribe
+    this.orderBooks.forEach(entry => {
+      entry.book.invalidate();
+      entry.resyncing = false;
+    });
   }
 
   /**
-   * Check if connected and authenticated
+   * Check if connected and authenticated (paper: connected only)
    */
   isConnected(): boolean {
-    return this.ws !== null && this.ws.readyState === WebSocket.OPEN && this.authenticated;
+    return this.ws !== null
+      && this.ws.readyState === WebSocket.OPEN
+      && (this.authenticated || this.environment === 'paper');
   }
 }
@@ -0,0 +1,112 @@
+/**
+ * Deribit Hot Standby
+ * Second authenticated connection kept warm by BackendDeribitClient
+ *
+ * The standby carries the same subscriptions as the primary, so notifications keep
+ * flowing while the primary stalls or reconnects. Both feeds are merged through
+ * NotificationDeduplicator; requests move to the standby as soon as the primary goes
+ * quiet, and the standby is promoted when the primary closes.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HotStandbyConfig {
+  enabled: boolean;
+  stallTimeoutMs: number; // primary silent this long -> requests go over the standby
+}
+
+export interface HotStandbyStatus {
+  enabled: boolean;
+  standby: 'ready' | 'connecting' | 'down' | 'disabled';
+  failedOver: boolean; // requests currently routed over the standby
+  failovers: number; // standby promotions
+  duplicatesDropped: number;
+}
+
+export const DEFAULT_HOT_STANDBY: HotStandbyConfig = {
+  enabled: false,
+  stallTimeoutMs: 3000, // tickers arrive every 100ms and heartbeats every 10-30s
+};
+
+// ============================================================================
+// Deduplication
+// ============================================================================
+
+/**
+ * Identity of a notification payload: book change_id, trade sequence, order
+ * update time or timestamp; anything else is compared by content
+ */
+export function notificationKey(data: any): string {
+  if (Array.isArray(data)) {
+    return data.map(notificationKey).join('|');
+  }
+  if (data === null || typeof data !== 'object') {
+    return String(data);
+  }
+  if (data.change_id !== undefined) {
+    return `c${data.change_id}`;
+  }
+  if (data.trade_id !== undefined) {
+    return `t${data.trade_id}`;
+  }
+  if (data.order_id !== undefined) {
+    return `o${data.order_id}:${data.last_update_timestamp}:${data.order_state}`;
+  }
+  if (data.timestamp !== undefined) {
+    return `ts${data.timestamp}`;
+  }
+  return JSON.stringify(data);
+}
+
+/**
+ * Remembers the last `windowSize` notification keys per channel
+ */
+export class NotificationDeduplicator {
+  private seen = new Map<string, { keys: Set<string>; order: string[] }>();
+  private dropped = 0;
+
+  constructor(private readonly windowSize = 512) {}
+
+  /**
+   * True when this notification was already delivered (from either connection)
+   */
+  isDuplicate(channel: string, data: any): boolean {
+    const key = notificationKey(data);
+    let window = this.seen.get(channel);
+    if (!window) {
+      window = { keys: new Set(), order: [] };
+      this.seen.set(channel, window);
+    }
+
+    if (window.keys.has(key)) {
+      this.dropped++;
+      return true;
+    }
+
+    window.keys.add(key);
+    window.order.push(key);
+    if (window.order.length > this.windowSize) {
+      window.keys.delete(window.order.shift()!);
+    }
+    return false;
+  }
+
+  /**
+   * Start over for channels that are being (re)subscribed
+   */
+  forget(channels: string[]): void {
+    for (const channel of channels) {
+      this.seen.delete(channel);
+    }
+  }
+
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  clear(): void {
+    this.seen.clear();
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Deribit Rate Limiter
+ * Credit-based token buckets with a priority queue in front of BackendDeribitClient.sendRequest
+ *
+ * Deribit meters requests in credits (https://docs.deribit.com/#rate-limits):
+ * - Matching engine (buy/sell/edit/cancel/close_position) and non-matching requests
+ *   draw from separate pools, each refilled continuously up to a maximum.
+ * - Running out returns error 10028 (too_many_requests); repeated violations
+ *   can get the connection dropped.
+ *
+ * Requests wait here instead of being rejected by the exchange. When credits are
+ * short, cancels and protective orders go first so reconciliation polling can't
+ * starve them.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RequestPriority = 'critical' | 'high' | 'normal' | 'low';
+
+export type CreditPool = 'matching' | 'non_matching';
+
+export interface CreditBucketConfig {
+  maxCredits: number;
+  refillPerSecond: number;
+  costPerRequest: number;
+}
+
+export interface RateLimiterConfig {
+  matching: CreditBucketConfig;
+  nonMatching: CreditBucketConfig;
+  maxQueueDepth: number;
+  maxRetries: number; // re-queue after a too_many_requests error
+}
+
+export interface RateLimiterMetrics {
+  queueDepth: Record<RequestPriority, number>;
+  credits: Record<CreditPool, number>;
+  dispatchedTotal: number;
+  throttledTotal: number; // requests that had to wait for credits
+  exchangeThrottledTotal: number; // too_many_requests errors received anyway
+  droppedTotal: number; // rejected because the queue was full or cleared
+  lastWaitMs: number;
+  maxWaitMs: number;
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string, public method: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+// Default account tier: matching engine 5 req/s sustained (burst 20), non-matching 20 req/s (burst 100)
+export const DEFAULT_RATE_LIMITS: RateLimiterConfig = {
+  matching: { maxCredits: 10000, refillPerSecond: 2500, costPerRequest: 500 },
+  nonMatching: { maxCredits: 50000, refillPerSecond: 10000, costPerRequest: 500 },
+  maxQueueDepth: 1000,
+  maxRetries: 2,
+};
+
+const PRIORITIES: RequestPriority[] = ['critical', 'high', 'normal', 'low'];
+
+const MATCHING_METHODS = new Set([
+  'private/buy',
+  'private/sell',
+  'private/edit',
+  'private/edit_by_label',
+  'private/cancel',
+  'private/cancel_all',
+  'private/cancel_all_by_currency',
+  'private/cancel_all_by_instrument',
+  'private/cancel_by_label',
+  'private/close_position',
+]);
+
+// Connection upkeep must not queue behind order traffic
+const CONNECTION_METHODS = new Set(['public/auth', 'public/test', 'public/set_heartbeat']);
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Pool and default priority of a JSON-RPC request
+ * - critical: cancels, position close and protective (reduce-only/stop/bracketed) orders
+ * - high: other order placement/edits, connection upkeep and subscriptions
+ * - normal: queries
+ */
+export function classifyRequest(method: string, params: Record<string, any> = {}): { pool: CreditPool; priority: RequestPriority } {
+  const pool: CreditPool = MATCHING_METHODS.has(method) ? 'matching' : 'non_matching';
+
+  if (method.startsWith('private/cancel') || method === 'private/close_position') {
+    return { pool, priority: 'critical' };
+  }
+
+  if (method === 'private/buy' || method === 'private/sell') {
+    const protective = params.reduce_only === true
+      || params.trigger_price !== undefined
+      || params.otoco_config !== undefined;
+    return { pool, priority: protective ? 'critical' : 'high' };
+  }
+
+  if (pool === 'matching' || CONNECTION_METHODS.has(method) || method.endsWith('/subscribe')) {
+    return { pool, priority: 'high' };
+  }
+
+  return { pool, priority: 'normal' };
+}
+
+export function isTooManyRequestsError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /too_many_requests|10028/.test(message);
+}
+
+// ============================================================================
+// Rate limiter
+// ============================================================================
+
+interface QueuedRequest {
+  method: string;
+  pool: CreditPool;
+  priority: RequestPriority;
+  enqueuedAt: number;
+  throttled: boolean;
+  retries: number;
+  execute: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+class CreditBucket {
+  private credits: number;
+  private lastRefill = Date.now();
+
+  constructor(private config: CreditBucketConfig) {
+    this.credits = config.maxCredits;
+  }
+
+  available(): number {
+    const now = Date.now();
+    this.credits = Math.min(
+      this.config.maxCredits,
+      this.credits + ((now - this.lastRefill) / 1000) * this.config.refillPerSecond
+    );
+    this.lastRefill = now;
+    return this.credits;
+  }
+
+  tryTake(): boolean {
+    if (this.available() < this.config.costPerRequest) {
+      return false;
+    }
+    this.credits -= this.config.costPerRequest;
+    return true;
+  }
+
+  // The exchange says we're out, whatever our model thinks
+  drain(): void {
+    this.available();
+    this.credits = 0;
+  }
+
+  msUntilAvailable(): number {
+    const missing = this.config.costPerRequest - this.available();
+    return missing <= 0 ? 0 : Math.ceil((missing / this.config.refillPerSecond) * 1000);
+  }
+}
+
+export class DeribitRateLimiter {
+  private readonly config: RateLimiterConfig;
+  private buckets: Record<CreditPool, CreditBucket>;
+  private queues: Record<RequestPriority, QueuedRequest[]> = { critical: [], high: [], normal: [], low: [] };
+  private drainTimer: NodeJS.Timeout | null = null;
+
+  private dispatchedTotal = 0;
+  private throttledTotal = 0;
+  private exchangeThrottledTotal = 0;
+  private droppedTotal = 0;
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(config: Partial<RateLimiterConfig> = {}) {
+    this.config = { ...DEFAULT_RATE_LIMITS, ...config };
+    this.buckets = {
+      matching: new CreditBucket(this.config.matching),
+      non_matching: new CreditBucket(this.config.nonMatching),
+    };
+  }
+
+  /**
+   * Run execute() once the request's credit pool allows it
+   * @param priority overrides the default from classifyRequest()
+   */
+  schedule<T>(
+    method: string,
+    params: Record<string, any>,
+    execute: () => Promise<T>,
+    priority?: RequestPriority
+  ): Promise<T> {
+    const classified = classifyRequest(method, params);
+    const queue = priority ?? classified.priority;
+
+    return new Promise<T>((resolve, reject) => {
+      if (this.getQueueDepth() >= this.config.maxQueueDepth) {
+        this.droppedTotal++;
+        reject(new RateLimitError(`Request queue full (${this.config.maxQueueDepth}): ${method}`, method));
+        return;
+      }
+
+      this.queues[queue].push({
+        method,
+        pool: classified.pool,
+        priority: queue,
+        enqueuedAt: Date.now(),
+        throttled: false,
+        retries: 0,
+        execute,
+        resolve,
+        reject,
+      });
+      this.drain();
+    });
+  }
+
+  getQueueDepth(): number {
+    return PRIORITIES.reduce((sum, p) => sum + this.queues[p].length, 0);
+  }
+
+  getMetrics(): RateLimiterMetrics {
+    return {
+      queueDepth: {
+        critical: this.queues.critical.length,
+        high: this.queues.high.length,
+        normal: this.queues.normal.length,
+        low: this.queues.low.length,
+      },
+      credits: {
+        matching: Math.floor(this.buckets.matching.available()),
+        non_matching: Math.floor(this.buckets.non_matching.available()),
+      },
+      dispatchedTotal: this.dispatchedTotal,
+      throttledTotal: this.throttledTotal,
+      exchangeThrottledTotal: this.exchangeThrottledTotal,
+      droppedTotal: this.droppedTotal,
+      lastWaitMs: this.lastWaitMs,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  /**
+   * Reject everything still waiting (e.g. on disconnect)
+   */
+  clear(error: Error): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+    for (const priority of PRIORITIES) {
+      const queued = this.queues[priority];
+      this.queues[priority] = [];
+      this.droppedTotal += queued.length;
+      queued.forEach(request => request.reject(error));
+    }
+  }
+
+  /**
+   * Dispatch in priority order. A pool that runs dry blocks lower priorities
+   * of the same pool; the other pool keeps flowing.
+   */
+  private drain(): void {
+    const blocked = new Set<CreditPool>();
+
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+      for (let i = 0; i < queue.length && blocked.size < 2; ) {
+        const request = queue[i];
+        if (blocked.has(request.pool) || !this.buckets[request.pool].tryTake()) {
+          blocked.add(request.pool);
+          request.throttled = true;
+          i++;
+          continue;
+        }
+        queue.splice(i, 1);
+        this.dispatch(request);
+      }
+    }
+
+    if (blocked.size > 0) {
+      this.scheduleDrain(Math.min(...Array.from(blocked, pool => this.buckets[pool].msUntilAvailable())));
+    }
+  }
+
+  private scheduleDrain(delayMs: number): void {
+    if (this.drainTimer) {
+      return;
+    }
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      this.drain();
+    }, Math.max(delayMs, 1));
+  }
+
+  private dispatch(request: QueuedRequest): void {
+    const waitMs = Date.now() - request.enqueuedAt;
+    if (request.throttled && request.retries === 0) {
+      this.throttledTotal++;
+    }
+    this.lastWaitMs = waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+    this.dispatchedTotal++;
+
+    request.execute().then(request.resolve, (error) => {
+      if (!isTooManyRequestsError(error)) {
+        request.reject(error);
+        return;
+      }
+
+      this.exchangeThrottledTotal++;
+      this.buckets[request.pool].drain();
+      if (request.retries >= this.config.maxRetries) {
+        request.reject(error);
+        return;
+      }
+
+      console.warn(`[DeribitRateLimiter] ⚠️ ${request.method} throttled by exchange, retrying (${request.retries + 1}/${this.config.maxRetries})`);
+      this.queues[request.priority].unshift({ ...request, retries: request.retries + 1 });
+      this.drain();
+    });
+  }
+}
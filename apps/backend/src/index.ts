@@ -3,7 +3,12 @@ export * from './brokers/BrokerRegistry';
 export * from './brokers/DeribitBroker';
 export * from './brokers/BinanceBroker';
 export * from './brokers/BybitBroker';
+export * from './brokers/OKXBroker';
+export * from './brokers/PaperBroker';
+export * from './brokers/BracketEmulator';
 export * from './brokers/StubBrokers';
+export * from './instruments/instrument-registry';
+export * from './instruments/option-chain';
 export * from './api';
 export * from './config';
 export * from './strategy-runner';
@@ -0,0 +1,317 @@
+/**
+ * Instrument Registry
+ *
+ * Canonical instrument symbology shared by all broker adapters and strategy configs.
+ *
+ * Canonical IDs follow the unified `BASE/QUOTE:SETTLE` form:
+ * - BTC/USD:BTC    inverse perpetual settled in BTC (Deribit BTC-PERPETUAL, OKX BTC-USD-SWAP)
+ * - BTC/USDC:USDC  linear perpetual settled in USDC (Deribit BTC_USDC-PERPETUAL, Binance BTCUSDC)
+ * - BTC/USDT:USDT  linear perpetual settled in USDT (Binance/Bybit BTCUSDT, OKX BTC-USDT-SWAP)
+ * - BTC/USD:BTC-241227  dated future, expiry as YYMMDD
+ *
+ * Any spelling used across the codebase resolves to the same canonical instrument,
+ * so a strategy config written for one exchange can be started on another.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type InstrumentKind = 'perpetual' | 'future';
+
+export type ContractType = 'linear' | 'inverse';
+
+export interface VenueListing {
+  symbol: string;
+  // One unit of order amount: base currency for linear, quote currency (USD) for inverse.
+  // Omitted when the venue has to be asked (see IBroker.getInstrumentInfo).
+  contractSize?: number;
+}
+
+export interface CanonicalInstrument {
+  id: string;
+  base: string;
+  quote: string;
+  settle: string;
+  kind: InstrumentKind;
+  contractType: ContractType;
+  expiry?: string; // YYMMDD, futures only
+  venues: Record<string, VenueListing>;
+}
+
+export class UnknownInstrumentError extends Error {
+  constructor(
+    public instrument: string,
+    public broker?: string
+  ) {
+    super(broker
+      ? `Instrument ${instrument} not found on ${broker}`
+      : `Instrument ${instrument} not found`);
+    this.name = 'UnknownInstrumentError';
+  }
+}
+
+// ============================================================================
+// Symbol parsing and derivation
+// ============================================================================
+
+type InstrumentSpec = Omit<CanonicalInstrument, 'id' | 'venues'>;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const QUOTES = ['USDT', 'USDC', 'USD'];
+
+// Paper trading runs on Deribit market data
+const VENUE_ALIASES: Record<string, string> = { paper: 'deribit' };
+
+export function canonicalId(spec: InstrumentSpec): string {
+  const id = `${spec.base}/${spec.quote}:${spec.settle}`;
+  return spec.kind === 'future' ? `${id}-${spec.expiry}` : id;
+}
+
+function perpetual(base: string, quote: string): InstrumentSpec {
+  const inverse = quote === 'USD';
+  return {
+    base,
+    quote,
+    settle: inverse ? base : quote,
+    kind: 'perpetual',
+    contractType: inverse ? 'inverse' : 'linear',
+  };
+}
+
+function future(base: string, quote: string, expiry: string): InstrumentSpec {
+  return { ...perpetual(base, quote), kind: 'future', expiry };
+}
+
+/**
+ * Parse a canonical ID or any native symbol we know the spelling of
+ */
+export function parseInstrument(instrument: string): InstrumentSpec | null {
+  const upper = instrument.trim().toUpperCase();
+  let m: RegExpMatchArray | null;
+
+  // Canonical: BTC/USDT:USDT, BTC/USD:BTC-241227
+  if ((m = upper.match(/^([A-Z0-9]+)\/(USDT|USDC|USD):([A-Z0-9]+)(?:-(\d{6}))?$/))) {
+    const spec = m[4] ? future(m[1], m[2], m[4]) : perpetual(m[1], m[2]);
+    return spec.settle === m[3] ? spec : null;
+  }
+
+  // Deribit: BTC-PERPETUAL, BTC_USDC-PERPETUAL, BTC-27DEC24
+  if ((m = upper.match(/^([A-Z0-9]+)-PERPETUAL$/))) {
+    return perpetual(m[1], 'USD');
+  }
+  if ((m = upper.match(/^([A-Z0-9]+)_(USDC|USDT)-PERPETUAL$/))) {
+    return perpetual(m[1], m[2]);
+  }
+  if ((m = upper.match(/^([A-Z0-9]+)-(\d{1,2})([A-Z]{3})(\d{2})$/)) && MONTHS.includes(m[3])) {
+    const month = String(MONTHS.indexOf(m[3]) + 1).padStart(2, '0');
+    return future(m[1], 'USD', `${m[4]}${month}${m[2].padStart(2, '0')}`);
+  }
+
+  // OKX: BTC-USDT-SWAP, BTC-USD-241227
+  if ((m = upper.match(/^([A-Z0-9]+)-(USDT|USDC|USD)-SWAP$/))) {
+    return perpetual(m[1], m[2]);
+  }
+  if ((m = upper.match(/^([A-Z0-9]+)-(USDT|USDC|USD)-(\d{6})$/))) {
+    return future(m[1], m[2], m[3]);
+  }
+
+  // Bybit USDC perpetuals: BTCPERP
+  if ((m = upper.match(/^([A-Z0-9]+)PERP$/))) {
+    return perpetual(m[1], 'USDC');
+  }
+
+  // Separated pairs: BTC-USDT, ETH_USDC, BTC/USD
+  if ((m = upper.match(/^([A-Z0-9]+)[-_/](USDT|USDC|USD)$/))) {
+    return perpetual(m[1], m[2]);
+  }
+
+  // Concatenated: BTCUSDT (Binance/Bybit linear), BTCUSD (Bybit inverse)
+  for (const quote of QUOTES) {
+    if (upper.endsWith(quote) && upper.length > quote.length) {
+      return perpetual(upper.slice(0, -quote.length), quote);
+    }
+  }
+
+  return null;
+}
+
+function deribitExpiry(expiry: string): string {
+  const [yy, mm, dd] = [expiry.slice(0, 2), expiry.slice(2, 4), expiry.slice(4, 6)];
+  return `${Number(dd)}${MONTHS[Number(mm) - 1]}${yy}`;
+}
+
+/**
+ * Native symbol by each venue's naming rules. Used for instruments that aren't seeded;
+ * the venue may still not list them.
+ */
+function deriveSymbol(spec: InstrumentSpec, broker: string): string | undefined {
+  const { base, quote, kind, contractType, expiry } = spec;
+
+  switch (broker) {
+    case 'deribit':
+      if (kind === 'future') {
+        return contractType === 'inverse' ? `${base}-${deribitExpiry(expiry!)}` : undefined;
+      }
+      return contractType === 'inverse' ? `${base}-PERPETUAL` : `${base}_${quote}-PERPETUAL`;
+    case 'okx':
+      return kind === 'future' ? `${base}-${quote}-${expiry}` : `${base}-${quote}-SWAP`;
+    case 'binance':
+      // USDⓈ-M futures only
+      return kind === 'perpetual' && contractType === 'linear' ? `${base}${quote}` : undefined;
+    case 'bybit':
+      if (kind === 'future') return undefined;
+      if (contractType === 'inverse') return `${base}USD`;
+      return quote === 'USDC' ? `${base}PERP` : `${base}USDT`;
+    default:
+      return undefined;
+  }
+}
+
+// ============================================================================
+// Seed data
+// ============================================================================
+
+function seed(spec: InstrumentSpec, contractSizes: Record<string, number | undefined>): CanonicalInstrument {
+  const venues: Record<string, VenueListing> = {};
+  for (const [broker, contractSize] of Object.entries(contractSizes)) {
+    venues[broker] = { symbol: deriveSymbol(spec, broker)!, contractSize };
+  }
+  return { id: canonicalId(spec), ...spec, venues };
+}
+
+const DEFAULT_INSTRUMENTS: CanonicalInstrument[] = [
+  // Inverse, USD-denominated contracts
+  seed(perpetual('BTC', 'USD'), { deribit: 10, bybit: 1, okx: 100 }),
+  seed(perpetual('ETH', 'USD'), { deribit: 1, bybit: 1, okx: 10 }),
+  // USDC-margined linear
+  seed(perpetual('BTC', 'USDC'), { deribit: undefined, binance: 1, bybit: 1 }),
+  seed(perpetual('ETH', 'USDC'), { deribit: undefined, binance: 1, bybit: 1 }),
+  seed(perpetual('SOL', 'USDC'), { deribit: undefined }),
+  seed(perpetual('XRP', 'USDC'), { deribit: undefined }),
+  // USDT-margined linear
+  seed(perpetual('BTC', 'USDT'), { binance: 1, bybit: 1, okx: 0.01 }),
+  seed(perpetual('ETH', 'USDT'), { binance: 1, bybit: 1, okx: 0.1 }),
+  seed(perpetual('SOL', 'USDT'), { binance: 1, bybit: 1, okx: 1 }),
+  seed(perpetual('XRP', 'USDT'), { binance: 1, bybit: 1, okx: 100 }),
+  seed(perpetual('BNB', 'USDT'), { binance: 1, bybit: 1 }),
+];
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class InstrumentRegistry {
+  private instruments = new Map<string, CanonicalInstrument>();
+  private symbolIndex = new Map<string, string>(); // `${broker}:${symbol}` -> canonical id
+
+  constructor(instruments: CanonicalInstrument[] = DEFAULT_INSTRUMENTS) {
+    instruments.forEach(instrument => this.register(instrument));
+  }
+
+  /**
+   * Add or replace an instrument and index its native symbols
+   */
+  register(instrument: CanonicalInstrument): void {
+    const previous = this.instruments.get(instrument.id);
+    if (previous) {
+      for (const [broker, listing] of Object.entries(previous.venues)) {
+        this.symbolIndex.delete(`${broker}:${listing.symbol}`);
+      }
+    }
+
+    this.instruments.set(instrument.id, instrument);
+    for (const [broker, listing] of Object.entries(instrument.venues)) {
+      this.symbolIndex.set(`${broker}:${listing.symbol}`, instrument.id);
+    }
+  }
+
+  get(id: string): CanonicalInstrument | undefined {
+    return this.instruments.get(id);
+  }
+
+  list(): CanonicalInstrument[] {
+    return Array.from(this.instruments.values());
+  }
+
+  /**
+   * Resolve a canonical ID or native symbol (any venue's spelling)
+   * @throws UnknownInstrumentError if the symbol can't be parsed
+   */
+  resolve(instrument: string, broker?: string): CanonicalInstrument {
+    const venue = broker ? this.venue(broker) : undefined;
+    const known = this.instruments.get(instrument)
+      ?? (venue && this.lookupSymbol(venue, instrument))
+      ?? this.lookupSymbol(undefined, instrument);
+    if (known) {
+      return known;
+    }
+
+    const spec = parseInstrument(instrument);
+    if (!spec) {
+      throw new UnknownInstrumentError(instrument);
+    }
+
+    const id = canonicalId(spec);
+    return this.instruments.get(id) ?? { id, ...spec, venues: {} };
+  }
+
+  isKnown(instrument: string): boolean {
+    try {
+      this.resolve(instrument);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  toCanonical(instrument: string, broker?: string): string {
+    return this.resolve(instrument, broker).id;
+  }
+
+  /**
+   * Native symbol of the instrument on a broker
+   * @throws UnknownInstrumentError if the broker doesn't list it
+   */
+  toNative(instrument: string, broker: string): string {
+    return this.listing(instrument, broker).symbol;
+  }
+
+  /**
+   * Native symbol and contract size (when seeded) on a broker
+   */
+  listing(instrument: string, broker: string): VenueListing {
+    const venue = this.venue(broker);
+    const resolved = this.resolve(instrument, venue);
+    const listing = resolved.venues[venue];
+    if (listing) {
+      return listing;
+    }
+
+    const symbol = deriveSymbol(resolved, venue);
+    if (!symbol) {
+      throw new UnknownInstrumentError(instrument, broker);
+    }
+    return { symbol };
+  }
+
+  private venue(broker: string): string {
+    const id = broker.toLowerCase();
+    return VENUE_ALIASES[id] ?? id;
+  }
+
+  private lookupSymbol(venue: string | undefined, symbol: string): CanonicalInstrument | undefined {
+    if (venue) {
+      const id = this.symbolIndex.get(`${venue}:${symbol}`);
+      return id ? this.instruments.get(id) : undefined;
+    }
+    for (const [key, id] of this.symbolIndex) {
+      if (key.slice(key.indexOf(':') + 1) === symbol) {
+        return this.instruments.get(id);
+      }
+    }
+    return undefined;
+  }
+}
+
+export const instrumentRegistry = new InstrumentRegistry();
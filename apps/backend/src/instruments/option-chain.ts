@@ -0,0 +1,272 @@
+/**
+ * Deribit option chains
+ *
+ * Option instrument discovery (expiries and strikes) and chain snapshots with
+ * greeks and implied volatility from `public/ticker`.
+ *
+ * Deribit option names: BTC-27DEC24-50000-C (inverse, premium in BTC) and
+ * SOL_USDC-27DEC24-150-P (linear, premium in USDC). Decimal strikes use `d`
+ * (XRP_USDC-27DEC24-0d625-C). Order amounts are in contracts of the underlying.
+ */
+
+import type { BackendDeribitClient } from '../deribit-client';
+import type { ContractType } from './instrument-registry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OptionType = 'call' | 'put';
+
+export interface OptionInstrument {
+  instrumentName: string;
+  base: string;
+  settle: string;
+  expiry: number; // ms, 08:00 UTC settlement
+  expiryLabel: string; // 27DEC24
+  strike: number;
+  optionType: OptionType;
+  contractType: ContractType;
+  contractSize: number;
+  minTradeAmount: number;
+  tickSize: number;
+}
+
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  vega: number;
+  theta: number;
+  rho: number;
+}
+
+export interface OptionQuote {
+  instrumentName: string;
+  markPrice: number; // premium in settlement currency per contract
+  markIv: number; // percent
+  bidPrice: number | null;
+  askPrice: number | null;
+  bidIv: number | null;
+  askIv: number | null;
+  underlyingPrice: number;
+  openInterest: number;
+  greeks: OptionGreeks;
+  timestamp: number;
+}
+
+export interface OptionChainRow {
+  strike: number;
+  call?: OptionQuote;
+  put?: OptionQuote;
+}
+
+export interface OptionExpiry {
+  base: string; // underlying; USDC lists several
+  expiry: number;
+  expiryLabel: string;
+  strikes: number[];
+}
+
+export interface OptionChain {
+  currency: string;
+  base: string;
+  expiry: number;
+  expiryLabel: string;
+  underlyingPrice: number | null;
+  timestamp: number;
+  rows: OptionChainRow[]; // ascending strike
+}
+
+export class UnknownExpiryError extends Error {
+  constructor(public currency: string, public expiry: string) {
+    super(`No ${currency} options expiring ${expiry}`);
+    this.name = 'UnknownExpiryError';
+  }
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const OPTION_NAME = /^([A-Z]+)(?:_([A-Z]+))?-(\d{1,2})([A-Z]{3})(\d{2})-(\d+(?:d\d+)?)-([CP])$/;
+const SETTLEMENT_HOUR_UTC = 8;
+const CACHE_TTL = 5 * 60 * 1000; // new strikes are listed intraday
+
+// ============================================================================
+// Parsing & sizing
+// ============================================================================
+
+/**
+ * Parse a Deribit option name
+ * @returns null for anything that isn't an option (perpetuals, futures)
+ */
+export function parseOptionInstrument(name: string): Pick<OptionInstrument, 'instrumentName' | 'base' | 'settle' | 'expiry' | 'expiryLabel' | 'strike' | 'optionType' | 'contractType'> | null {
+  const match = name.match(OPTION_NAME);
+  if (!match) return null;
+
+  const [, base, settle, day, month, year, strike, type] = match;
+  const monthIndex = MONTHS.indexOf(month);
+  if (monthIndex === -1) return null;
+
+  return {
+    instrumentName: name,
+    base,
+    settle: settle ?? base,
+    expiry: Date.UTC(2000 + parseInt(year, 10), monthIndex, parseInt(day, 10), SETTLEMENT_HOUR_UTC),
+    expiryLabel: `${day}${month}${year}`,
+    strike: parseFloat(strike.replace('d', '.')),
+    optionType: type === 'C' ? 'call' : 'put',
+    contractType: settle ? 'linear' : 'inverse',
+  };
+}
+
+export function isOptionInstrument(name: string): boolean {
+  return parseOptionInstrument(name) !== null;
+}
+
+/**
+ * Exposure of a perpetual position in units of the underlying
+ * (inverse perps are sized in USD, linear perps in the base currency)
+ */
+export function underlyingExposure(size: number, contractType: ContractType, price: number): number {
+  return contractType === 'inverse' ? size / price : size;
+}
+
+/**
+ * Option contracts covering an exposure in the underlying, rounded down to the lot size
+ * - e.g. protective puts or covered calls over a perp position
+ */
+export function contractsToCover(exposure: number, option: Pick<OptionInstrument, 'contractSize' | 'minTradeAmount'>): number {
+  const lots = Math.floor(exposure / option.contractSize / option.minTradeAmount + 1e-9);
+  return parseFloat((lots * option.minTradeAmount).toFixed(8));
+}
+
+// ============================================================================
+// Chain service
+// ============================================================================
+
+type OptionDataClient = Pick<BackendDeribitClient, 'getInstruments' | 'getTicker'>;
+
+export class OptionChainService {
+  private instrumentCache = new Map<string, { instruments: OptionInstrument[]; cachedAt: number }>();
+
+  constructor(private client: OptionDataClient) {}
+
+  /**
+   * Active options for a Deribit currency (BTC, ETH, or USDC for linear options)
+   */
+  async getOptionInstruments(currency: string): Promise<OptionInstrument[]> {
+    const key = currency.toUpperCase();
+    const cached = this.instrumentCache.get(key);
+    if (cached && Date.now() - cached.cachedAt < CACHE_TTL) {
+      return cached.instruments;
+    }
+
+    const raw = await this.client.getInstruments(key, 'option');
+    const instruments: OptionInstrument[] = [];
+    for (const info of raw) {
+      const parsed = parseOptionInstrument(info.instrument_name);
+      if (!parsed || info.is_active === false) continue;
+      instruments.push({
+        ...parsed,
+        expiry: info.expiration_timestamp ?? parsed.expiry,
+        strike: info.strike ?? parsed.strike,
+        contractSize: info.contract_size ?? 1,
+        minTradeAmount: info.min_trade_amount,
+        tickSize: info.tick_size,
+      });
+    }
+
+    this.instrumentCache.set(key, { instruments, cachedAt: Date.now() });
+    return instruments;
+  }
+
+  /**
+   * Listed expiries per underlying with their strikes, nearest first
+   * @param base - only this underlying (e.g. SOL among the USDC options)
+   */
+  async getExpiries(currency: string, base?: string): Promise<OptionExpiry[]> {
+    const byExpiry = new Map<string, OptionExpiry>();
+    for (const option of await this.getOptions(currency, base)) {
+      const key = `${option.base}:${option.expiryLabel}`;
+      const entry = byExpiry.get(key)
+        ?? { base: option.base, expiry: option.expiry, expiryLabel: option.expiryLabel, strikes: [] };
+      if (!entry.strikes.includes(option.strike)) entry.strikes.push(option.strike);
+      byExpiry.set(key, entry);
+    }
+
+    return Array.from(byExpiry.values())
+      .map(entry => ({ ...entry, strikes: entry.strikes.sort((a, b) => a - b) }))
+      .sort((a, b) => a.expiry - b.expiry || a.base.localeCompare(b.base));
+  }
+
+  /**
+   * Chain snapshot for one underlying and expiry (nearest when omitted), optionally limited to a strike range.
+   * One public/ticker request per option - narrow the range for wide chains.
+   * @param base - underlying; pass it for USDC, which lists several (defaults to the one expiring first)
+   * @param expiry - label (27DEC24) or expiration timestamp
+   */
+  async getChain(
+    currency: string,
+    options: { base?: string; expiry?: string | number; minStrike?: number; maxStrike?: number } = {}
+  ): Promise<OptionChain> {
+    const expiries = await this.getExpiries(currency, options.base);
+    const target = options.expiry === undefined
+      ? expiries.find(e => e.expiry > Date.now())
+      : expiries.find(e => e.expiryLabel === String(options.expiry).toUpperCase() || e.expiry === Number(options.expiry));
+    if (!target) {
+      throw new UnknownExpiryError((options.base ?? currency).toUpperCase(), options.expiry === undefined ? '(any)' : String(options.expiry));
+    }
+
+    const instruments = (await this.getOptions(currency, target.base)).filter(o =>
+      o.expiryLabel === target.expiryLabel
+      && (options.minStrike === undefined || o.strike >= options.minStrike)
+      && (options.maxStrike === undefined || o.strike <= options.maxStrike)
+    );
+    const quotes = await Promise.all(instruments.map(async option => ({
+      option,
+      quote: this.toQuote(await this.client.getTicker(option.instrumentName)),
+    })));
+
+    const rows = new Map<number, OptionChainRow>();
+    for (const { option, quote } of quotes) {
+      const row = rows.get(option.strike) ?? { strike: option.strike };
+      row[option.optionType] = quote;
+      rows.set(option.strike, row);
+    }
+
+    return {
+      currency: currency.toUpperCase(),
+      base: target.base,
+      expiry: target.expiry,
+      expiryLabel: target.expiryLabel,
+      underlyingPrice: quotes[0]?.quote.underlyingPrice ?? null,
+      timestamp: Math.max(0, ...quotes.map(q => q.quote.timestamp)),
+      rows: Array.from(rows.values()).sort((a, b) => a.strike - b.strike),
+    };
+  }
+
+  private async getOptions(currency: string, base?: string): Promise<OptionInstrument[]> {
+    const instruments = await this.getOptionInstruments(currency);
+    return base ? instruments.filter(o => o.base === base.toUpperCase()) : instruments;
+  }
+
+  private toQuote(ticker: any): OptionQuote {
+    return {
+      instrumentName: ticker.instrument_name,
+      markPrice: ticker.mark_price,
+      markIv: ticker.mark_iv,
+      bidPrice: ticker.best_bid_price || null,
+      askPrice: ticker.best_ask_price || null,
+      bidIv: ticker.bid_iv || null,
+      askIv: ticker.ask_iv || null,
+      underlyingPrice: ticker.underlying_price,
+      openInterest: ticker.open_interest ?? 0,
+      greeks: {
+        delta: ticker.greeks?.delta ?? 0,
+        gamma: ticker.greeks?.gamma ?? 0,
+        vega: ticker.greeks?.vega ?? 0,
+        theta: ticker.greeks?.theta ?? 0,
+        rho: ticker.greeks?.rho ?? 0,
+      },
+      timestamp: ticker.timestamp,
+    };
+  }
+}
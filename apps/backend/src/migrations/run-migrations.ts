@@ -33,8 +33,22 @@ interface Migration {
 const migrations: Migration[] = [
   { version: 1, name: 'create_user_strategies', type: 'postgres', file: '001_create_user_strategies.sql' },
   { version: 2, name: 'add_user_id_to_trades', type: 'sqlite', file: '002_add_user_id_to_trades.sql' },
+  { version: 3, name: 'add_passphrase_to_user_credentials', type: 'postgres', file: '003_add_passphrase_to_user_credentials.sql' },
+  { version: 4, name: 'add_account_to_credentials_and_strategies', type: 'postgres', file: '004_add_account_to_credentials_and_strategies.sql' },
+  { version: 5, name: 'widen_user_strategies_instrument', type: 'postgres', file: '005_widen_user_strategies_instrument.sql' },
+  { version: 6, name: 'create_user_strategy_config_versions', type: 'postgres', file: '006_create_user_strategy_config_versions.sql' },
+  { version: 7, name: 'allow_paper_environment', type: 'postgres', file: '007_allow_paper_environment.sql' },
+  { version: 8, name: 'add_config_version_to_trades', type: 'sqlite', file: '008_add_config_version_to_trades.sql' },
+  { version: 9, name: 'add_field_ivs_to_user_credentials', type: 'postgres', file: '009_add_field_ivs_to_user_credentials.sql' },
 ];
 
+/**
+ * Migrations that alter the trades table, which SqlTradeHistoryStore creates on first use
+ */
+function altersTrades(migration: Migration): boolean {
+  return migration.type === 'sqlite' && migration.file.endsWith('_to_trades.sql');
+}
+
 /**
  * Get current PostgreSQL schema version
  */
@@ -144,7 +158,7 @@ function runSqliteMigration(migration: Migration): void {
     const db = new Database(sqliteDbPath);
     
     // For migrations that modify trades table, check if it exists first
-    if (migration.file.includes('add_user_id_to_trades')) {
+    if (altersTrades(migration)) {
       const tableExists = db.prepare(
         "SELECT name FROM sqlite_master WHERE type='table' AND name='trades'"
       ).get();
@@ -279,7 +293,7 @@ async function rollback(): Promise<void> {
         const db = new Database(sqliteDbPath);
         
         // For migrations that modify trades table, check if it exists first
-        if (latestSqlite.file.includes('add_user_id_to_trades')) {
+        if (altersTrades(latestSqlite)) {
           const tableExists = db.prepare(
             "SELECT name FROM sqlite_master WHERE type='table' AND name='trades'"
           ).get();
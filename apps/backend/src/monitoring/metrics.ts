@@ -13,6 +13,7 @@
 
 import * as os from 'os';
 import { StrategyManager, StrategyLifecycleState } from '../lifecycle/StrategyManager';
+import type { RateLimiterMetrics } from '../deribit-rate-limiter';
 
 export interface MetricsData {
   // System metrics
@@ -40,6 +41,17 @@ export interface MetricsData {
   state_persisted: boolean;
 }
 
+export interface RequestSchedulerMetrics {
+  schedulers: number;
+  queue_depth: Record<string, number>;
+  credits_min: Record<string, number>;
+  dispatched_total: number;
+  throttled_total: number;
+  exchange_throttled_total: number;
+  dropped_total: number;
+  max_wait_ms: number;
+}
+
 export interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
   timestamp: number;
@@ -72,6 +84,9 @@ export class MetricsCollector {
   private lastRecoverySuccess = false;
   private brokerConnected = false;
 
+  // Deribit request schedulers of connected clients (see deribit-rate-limiter.ts)
+  private requestSchedulers = new Set<{ getMetrics(): RateLimiterMetrics }>();
+
   private constructor() {
     console.log('[MetricsCollector] Initialized');
   }
@@ -117,6 +132,51 @@ export class MetricsCollector {
     this.brokerConnected = connected;
   }
 
+  /**
+   * Track a client's request scheduler for queue/throttling metrics
+   */
+  public addRequestScheduler(scheduler: { getMetrics(): RateLimiterMetrics }): void {
+    this.requestSchedulers.add(scheduler);
+  }
+
+  public removeRequestScheduler(scheduler: { getMetrics(): RateLimiterMetrics }): void {
+    this.requestSchedulers.delete(scheduler);
+  }
+
+  /**
+   * Request scheduler metrics summed over all tracked clients
+   * (credits: the tightest client per pool)
+   */
+  public getRequestSchedulerMetrics(): RequestSchedulerMetrics {
+    const totals: RequestSchedulerMetrics = {
+      schedulers: this.requestSchedulers.size,
+      queue_depth: { critical: 0, high: 0, normal: 0, low: 0 },
+      credits_min: {},
+      dispatched_total: 0,
+      throttled_total: 0,
+      exchange_throttled_total: 0,
+      dropped_total: 0,
+      max_wait_ms: 0,
+    };
+
+    for (const scheduler of this.requestSchedulers) {
+      const m = scheduler.getMetrics();
+      for (const [priority, depth] of Object.entries(m.queueDepth)) {
+        totals.queue_depth[priority] += depth;
+      }
+      for (const [pool, credits] of Object.entries(m.credits)) {
+        totals.credits_min[pool] = Math.min(totals.credits_min[pool] ?? Infinity, credits);
+      }
+      totals.dispatched_total += m.dispatchedTotal;
+      totals.throttled_total += m.throttledTotal;
+      totals.exchange_throttled_total += m.exchangeThrottledTotal;
+      totals.dropped_total += m.droppedTotal;
+      totals.max_wait_ms = Math.max(totals.max_wait_ms, m.maxWaitMs);
+    }
+
+    return totals;
+  }
+
   /**
    * Get all metrics
    */
@@ -252,6 +312,24 @@ export class MetricsCollector {
     addMetric('tradebaas_healthy', metrics.healthy ? 1 : 0, 'Overall health status (1=healthy, 0=unhealthy)');
     addMetric('tradebaas_broker_connected', metrics.broker_connected ? 1 : 0, 'Broker connection status (1=connected, 0=disconnected)');
 
+    // Deribit request scheduler metrics
+    const scheduler = this.getRequestSchedulerMetrics();
+    const addLabeled = (name: string, label: string, values: Record<string, number>, help: string) => {
+      lines.push(`# HELP ${name} ${help}`);
+      lines.push(`# TYPE ${name} gauge`);
+      for (const [key, value] of Object.entries(values)) {
+        lines.push(`${name}{${label}="${key}"} ${value}`);
+      }
+      lines.push('');
+    };
+    addLabeled('tradebaas_deribit_request_queue_depth', 'priority', scheduler.queue_depth, 'Deribit requests waiting for rate limit credits');
+    addLabeled('tradebaas_deribit_credits_available', 'pool', scheduler.credits_min, 'Lowest remaining Deribit rate limit credits per pool');
+    addMetric('tradebaas_deribit_requests_dispatched_total', scheduler.dispatched_total, 'Deribit requests sent', 'counter');
+    addMetric('tradebaas_deribit_requests_throttled_total', scheduler.throttled_total, 'Deribit requests delayed by the rate limiter', 'counter');
+    addMetric('tradebaas_deribit_requests_exchange_throttled_total', scheduler.exchange_throttled_total, 'Deribit too_many_requests errors', 'counter');
+    addMetric('tradebaas_deribit_requests_dropped_total', scheduler.dropped_total, 'Deribit requests rejected from a full or cleared queue', 'counter');
+    addMetric('tradebaas_deribit_request_max_wait_ms', scheduler.max_wait_ms, 'Longest rate limiter queue wait in milliseconds');
+
     return lines.join('\n');
   }
 
@@ -60,6 +60,7 @@ export class WorkerManager {
       instrument: job.config.instrument || 'BTC_USDC-PERPETUAL',
       timeframe: job.config.timeframe || '5m',
       rules: job.config.rules || [],
+      threshold: job.config.threshold,
       risk: {
         mode: job.config.risk?.mode || 'percent',
         value: job.config.risk?.value || 2,
@@ -0,0 +1,183 @@
+/**
+ * Replay Deribit Client
+ * Drop-in BackendDeribitClient that answers from a recorded session file
+ * instead of the network, so incidents can be reproduced deterministically
+ * through RazorExecutor, OrderLifecycleManager, etc.
+ *
+ * Replay model:
+ * - Each sendRequest(method, params) is matched to the next unconsumed recorded
+ *   request with the same method (exact params preferred) and resolved/rejected
+ *   with the recorded response.
+ * - Subscription notifications the exchange sent before that response are
+ *   delivered first, in recorded order.
+ * - playNotifications() delivers the remaining notifications, yielding to the
+ *   event loop between each so async handlers can issue their own requests.
+ */
+
+import { BackendDeribitClient, type DeribitCredentials, type DeribitEnvironment } from '../deribit-client';
+import { readSessionFile, type SessionEvent, type SessionHeader } from './session-recorder';
+
+export class ReplayMismatchError extends Error {
+  constructor(message: string, public method: string, public params: Record<string, any>) {
+    super(message);
+    this.name = 'ReplayMismatchError';
+  }
+}
+
+export interface ReplayOptions {
+  /** Throw ReplayMismatchError for requests missing from the recording (default: true) */
+  strict?: boolean;
+}
+
+// Requests issued by the live client's own connection management
+const CONNECTION_METHODS = ['public/auth', 'public/test', 'public/set_heartbeat'];
+
+export class ReplayDeribitClient extends BackendDeribitClient {
+  private readonly header: SessionHeader;
+  private readonly events: SessionEvent[];
+  private readonly strict: boolean;
+  private cursor = 0;
+  private consumed = new Set<number>();
+  private unmatched: Array<{ method: string; params: Record<string, any> }> = [];
+  private connected = false;
+
+  constructor(session: { header: SessionHeader; events: SessionEvent[] }, options: ReplayOptions = {}) {
+    super(session.header.environment as DeribitEnvironment);
+    this.header = session.header;
+    this.events = session.events;
+    this.strict = options.strict ?? true;
+  }
+
+  static fromFile(filePath: string, options: ReplayOptions = {}): ReplayDeribitClient {
+    return new ReplayDeribitClient(readSessionFile(filePath), options);
+  }
+
+  async connect(_credentials?: DeribitCredentials): Promise<void> {
+    this.connected = true;
+    this.authenticated = true;
+    console.log(`[ReplayDeribitClient] Replaying ${this.events.length} events (${this.header.environment}, recorded ${new Date(this.header.startedAt).toISOString()})`);
+  }
+
+  disconnect(): void {
+    this.connected = false;
+    this.authenticated = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async sendRequest(method: string, params: Record<string, any> = {}): Promise<any> {
+    if (!this.connected) {
+      throw new Error('WebSocket not connected');
+    }
+
+    const requestIndex = this.findRequest(method, params);
+    if (requestIndex === -1) {
+      this.unmatched.push({ method, params });
+      if (this.strict) {
+        throw new ReplayMismatchError(`No recorded ${method} request left (at event ${this.cursor})`, method, params);
+      }
+      console.warn(`[ReplayDeribitClient] ⚠️ No recorded ${method} request - returning undefined`);
+      return undefined;
+    }
+    this.consumed.add(requestIndex);
+
+    const id = this.events[requestIndex].msg.id;
+    const responseIndex = this.events.findIndex((e, i) => i > requestIndex && e.dir === 'in' && e.msg.id === id);
+    if (responseIndex === -1) {
+      // Session ended (or connection dropped) before the exchange answered
+      throw new Error(`Request timeout: ${method}`);
+    }
+    this.consumed.add(responseIndex);
+
+    // Everything the exchange sent before this response happens first
+    this.deliverUntil(responseIndex);
+    this.cursor = Math.max(this.cursor, responseIndex + 1);
+
+    const response = this.events[responseIndex].msg;
+    if (response.error) {
+      throw new Error(response.error.message || 'Unknown error');
+    }
+    return response.result;
+  }
+
+  /**
+   * Deliver remaining subscription notifications in recorded order
+   * @param until - stop at this session time (ms since recording start)
+   * @returns number of notifications delivered
+   */
+  async playNotifications(until: number = Infinity): Promise<number> {
+    let delivered = 0;
+
+    while (this.cursor < this.events.length && this.events[this.cursor].t <= until) {
+      const event = this.events[this.cursor++];
+      if (this.deliver(event)) {
+        delivered++;
+        // Let async handlers run (they may consume requests and move the cursor)
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+
+    return delivered;
+  }
+
+  isFinished(): boolean {
+    return this.cursor >= this.events.length;
+  }
+
+  /**
+   * Requests made during replay that were not in the recording
+   */
+  getUnmatchedRequests(): Array<{ method: string; params: Record<string, any> }> {
+    return [...this.unmatched];
+  }
+
+  /**
+   * Recorded requests the replayed code never made (connection housekeeping excluded)
+   */
+  getUnconsumedRequests(): Array<{ t: number; method: string; params: Record<string, any> }> {
+    return this.events
+      .filter((e, i) => e.dir === 'out' && !this.consumed.has(i) && !CONNECTION_METHODS.includes(e.msg.method))
+      .map(e => ({ t: e.t, method: e.msg.method, params: e.msg.params }));
+  }
+
+  private findRequest(method: string, params: Record<string, any>): number {
+    const wanted = JSON.stringify(params);
+    const candidates = (from: number, to: number) => {
+      const indices: number[] = [];
+      for (let i = from; i < to; i++) {
+        const e = this.events[i];
+        if (e.dir === 'out' && e.msg.method === method && !this.consumed.has(i)) {
+          indices.push(i);
+        }
+      }
+      return indices;
+    };
+
+    // Prefer requests at/after the cursor, fall back to earlier ones that were
+    // skipped (concurrent requests can complete in a different order)
+    for (const indices of [candidates(this.cursor, this.events.length), candidates(0, this.cursor)]) {
+      const exact = indices.find(i => JSON.stringify(this.events[i].msg.params ?? {}) === wanted);
+      if (exact !== undefined) return exact;
+      if (indices.length > 0) return indices[0];
+    }
+    return -1;
+  }
+
+  private deliverUntil(index: number): void {
+    while (this.cursor < index) {
+      this.deliver(this.events[this.cursor++]);
+    }
+  }
+
+  private deliver(event: SessionEvent): boolean {
+    if (event.dir !== 'in' || event.msg.method !== 'subscription') {
+      return false;
+    }
+
+    const { channel, data } = event.msg.params;
+    this.subscriptions.get(channel)?.(data);
+    return true;
+  }
+}
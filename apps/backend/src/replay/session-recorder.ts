@@ -0,0 +1,187 @@
+/**
+ * Deribit Session Recorder
+ * Records every JSON-RPC message passing through BackendDeribitClient
+ * (requests, responses, subscription notifications) into a gzipped NDJSON file.
+ *
+ * File format (one JSON object per line):
+ *   { type: 'session', version, environment, startedAt }   - header
+ *   { t, dir: 'out', msg }                                  - request sent
+ *   { t, dir: 'in', msg }                                   - message received
+ * where t = ms since session start.
+ *
+ * Credentials and tokens are redacted before they are written. A write error
+ * (disk full, directory removed) is logged and stops the recording; it never
+ * reaches the client.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+export const SESSION_FORMAT_VERSION = 1;
+
+export interface SessionHeader {
+  type: 'session';
+  version: number;
+  environment: string;
+  startedAt: number;
+}
+
+export interface SessionEvent {
+  t: number;
+  dir: 'in' | 'out';
+  msg: any;
+}
+
+const REDACTED = '[redacted]';
+const SECRET_PARAMS = ['client_id', 'client_secret', 'signature', 'refresh_token', 'nonce'];
+const SECRET_RESULTS = ['access_token', 'refresh_token'];
+
+/**
+ * Strip credentials from auth requests and tokens from auth responses
+ */
+export function redactMessage(msg: any): any {
+  if (msg?.method === 'public/auth' && msg.params) {
+    const params = { ...msg.params };
+    for (const key of SECRET_PARAMS) {
+      if (key in params) params[key] = REDACTED;
+    }
+    return { ...msg, params };
+  }
+
+  if (msg?.result && typeof msg.result === 'object' && SECRET_RESULTS.some(k => k in msg.result)) {
+    const result = { ...msg.result };
+    for (const key of SECRET_RESULTS) {
+      if (key in result) result[key] = REDACTED;
+    }
+    return { ...msg, result };
+  }
+
+  return msg;
+}
+
+export class SessionRecorder {
+  private gzip: zlib.Gzip;
+  private file: fs.WriteStream;
+  private startedAt = Date.now();
+  private closed = false;
+  private eventCount = 0;
+
+  /**
+   * Create the session file's directory and start recording
+   */
+  static async open(filePath: string, environment: string): Promise<SessionRecorder> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    return new SessionRecorder(filePath, environment);
+  }
+
+  constructor(public readonly filePath: string, environment: string) {
+    this.gzip = zlib.createGzip();
+    this.file = fs.createWriteStream(filePath);
+    this.gzip.pipe(this.file);
+    this.gzip.on('error', (error) => this.fail(error));
+    this.file.on('error', (error) => this.fail(error));
+
+    const header: SessionHeader = {
+      type: 'session',
+      version: SESSION_FORMAT_VERSION,
+      environment,
+      startedAt: this.startedAt,
+    };
+    this.write(header);
+    console.log(`[SessionRecorder] Recording Deribit session to ${filePath}`);
+  }
+
+  recordOutgoing(msg: any): void {
+    this.record('out', msg);
+  }
+
+  recordIncoming(msg: any): void {
+    this.record('in', msg);
+  }
+
+  getEventCount(): number {
+    return this.eventCount;
+  }
+
+  /**
+   * False once the recording was closed or stopped by a write error
+   */
+  isRecording(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Flush and close the file (resolves once fully written)
+   */
+  close(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    this.closed = true;
+
+    return new Promise((resolve, reject) => {
+      this.file.once('finish', () => {
+        console.log(`[SessionRecorder] Session saved: ${this.filePath} (${this.eventCount} events)`);
+        resolve();
+      });
+      this.file.once('error', reject);
+      this.gzip.end();
+    });
+  }
+
+  /**
+   * Disable recording after a stream error; what was written so far stays on disk
+   */
+  private fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    console.error(`[SessionRecorder] ❌ Recording to ${this.filePath} stopped: ${error.message}`);
+    this.gzip.unpipe(this.file);
+    this.gzip.destroy();
+    this.file.destroy();
+  }
+
+  private record(dir: 'in' | 'out', msg: any): void {
+    if (this.closed) return;
+
+    const event: SessionEvent = { t: Date.now() - this.startedAt, dir, msg: redactMessage(msg) };
+    this.eventCount++;
+    this.write(event);
+  }
+
+  private write(line: SessionHeader | SessionEvent): void {
+    this.gzip.write(JSON.stringify(line) + '\n');
+  }
+}
+
+/**
+ * Read a recorded session (gzipped or plain NDJSON)
+ */
+export function readSessionFile(filePath: string): { header: SessionHeader; events: SessionEvent[] } {
+  const raw = fs.readFileSync(filePath);
+  const isGzip = raw[0] === 0x1f && raw[1] === 0x8b;
+  const text = (isGzip ? zlib.gunzipSync(raw) : raw).toString('utf8');
+
+  const lines = text.split('\n').filter(line => line.trim().length > 0).map(line => JSON.parse(line));
+  const [header, ...events] = lines;
+
+  if (header?.type !== 'session') {
+    throw new Error(`Invalid session file (missing header): ${filePath}`);
+  }
+  if (header.version !== SESSION_FORMAT_VERSION) {
+    throw new Error(`Unsupported session format version ${header.version} in ${filePath}`);
+  }
+
+  return { header, events };
+}
+
+/**
+ * Default file name for a new recording in DERIBIT_RECORD_DIR
+ */
+export function sessionFileName(dir: string, environment: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join(dir, `deribit-${environment}-${stamp}.jsonl.gz`);
+}
@@ -31,9 +31,14 @@ import { telegramService } from './notifications/telegram';
 import { kvStorage } from './kv-storage';
 import { registerUser, loginUser } from './services/auth-service';
 import { authenticateRequest, requireAdmin } from './middleware/auth';
-import { userCredentialsService } from './services/user-credentials-service';
+import { userCredentialsService, DEFAULT_ACCOUNT, isValidAccountName } from './services/user-credentials-service';
 import { userBrokerRegistry } from './user-broker-registry';
+import { OptionChainService, UnknownExpiryError } from './instruments/option-chain';
 import { pool } from './db';
+import { strategyRegistry } from './strategies/StrategyRegistry';
+import { bootstrapStrategies, discoverStrategies, getPluginLoader, stopStrategyPlugins } from './strategies/bootstrap';
+import type { StrategyMetadata } from './strategies/IStrategy';
+import { legKey } from './strategies/multi-leg';
 import { hashPassword } from './services/auth-service';
 
 // Import user strategy service globally
@@ -322,6 +327,8 @@ server.post('/api/user/credentials', { preHandler: authenticateRequest }, async
       environment?: 'live' | 'testnet';
       apiKey?: string;
       apiSecret?: string;
+      passphrase?: string;
+      account?: string; // subaccount name, default 'main'
     };
 
     if (!body?.broker || !body?.environment || !body?.apiKey || !body?.apiSecret) {
@@ -331,6 +338,21 @@ server.post('/api/user/credentials', { preHandler: authenticateRequest }, async
       });
     }
 
+    if (body.broker === 'okx' && !body.passphrase) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Missing required field for OKX: passphrase',
+      });
+    }
+
+    const account = body.account ?? DEFAULT_ACCOUNT;
+    if (!isValidAccountName(account)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid account name: use letters, digits, - and _ (max 64)',
+      });
+    }
+
     const userId = request.user!.userId;
 
     await userCredentialsService.saveCredentials({
@@ -339,9 +361,11 @@ server.post('/api/user/credentials', { preHandler: authenticateRequest }, async
       environment: body.environment,
       apiKey: body.apiKey,
       apiSecret: body.apiSecret,
+      passphrase: body.passphrase,
+      account,
     });
 
-    request.log.info({ userId, broker: body.broker, environment: body.environment }, 'User credentials saved');
+    request.log.info({ userId, broker: body.broker, environment: body.environment, account }, 'User credentials saved');
 
     return reply.send({
       success: true,
@@ -359,7 +383,7 @@ server.post('/api/user/credentials', { preHandler: authenticateRequest }, async
 // Check if user has credentials (returns metadata only, NO secrets)
 server.get('/api/user/credentials/status', { preHandler: authenticateRequest }, async (request, reply) => {
   try {
-    const { broker, environment } = request.query as { broker?: string; environment?: string };
+    const { broker, environment, account = DEFAULT_ACCOUNT } = request.query as { broker?: string; environment?: string; account?: string };
 
     if (!broker || !environment) {
       return reply.code(400).send({
@@ -373,7 +397,8 @@ server.get('/api/user/credentials/status', { preHandler: authenticateRequest },
     const hasCredentials = await userCredentialsService.hasCredentials(
       userId,
       broker,
-      environment
+      environment,
+      account
     );
 
     return reply.send({
@@ -381,6 +406,7 @@ server.get('/api/user/credentials/status', { preHandler: authenticateRequest },
       hasCredentials,
       broker,
       environment,
+      account,
     });
   } catch (error: any) {
     request.log.error({ err: error }, 'Failed to check credentials');
@@ -404,6 +430,8 @@ server.get('/api/user/credentials', { preHandler: authenticateRequest }, async (
         id: c.id,
         broker: c.broker,
         environment: c.environment,
+        account: c.account,
+        connected: userBrokerRegistry.getConnectionStatus(userId, c.broker, c.environment as any, c.account).connected,
         createdAt: c.created_at,
         lastUsed: c.last_used,
         isActive: c.is_active,
@@ -422,7 +450,7 @@ server.get('/api/user/credentials', { preHandler: authenticateRequest }, async (
 server.get('/api/user/credentials/decrypted', { preHandler: authenticateRequest }, async (request, reply) => {
   try {
     const userId = request.user!.userId;
-    const { broker, environment } = request.query as { broker?: string; environment?: string };
+    const { broker, environment, account = DEFAULT_ACCOUNT } = request.query as { broker?: string; environment?: string; account?: string };
     if (!broker || !environment) {
       return reply.code(400).send({
         success: false,
@@ -431,9 +459,9 @@ server.get('/api/user/credentials/decrypted', { preHandler: authenticateRequest
     }
     let creds;
     try {
-      creds = await userCredentialsService.loadCredentials(userId, broker, environment);
+      creds = await userCredentialsService.loadCredentials(userId, broker, environment, account);
     } catch (err) {
-      request.log.error({ err, userId, broker, environment }, 'DECRYPT_CREDENTIALS_ERROR');
+      request.log.error({ err, userId, broker, environment, account }, 'DECRYPT_CREDENTIALS_ERROR');
       return reply.code(500).send({
         success: false,
         error: err instanceof Error ? err.message : String(err),
@@ -536,7 +564,7 @@ server.get('/api/admin/credentials-scan', { preHandler: requireAdmin }, async (r
 // Delete credentials
 server.delete('/api/user/credentials', { preHandler: authenticateRequest }, async (request, reply) => {
   try {
-    const { broker, environment } = request.query as { broker?: string; environment?: string };
+    const { broker, environment, account = DEFAULT_ACCOUNT } = request.query as { broker?: string; environment?: string; account?: string };
 
     if (!broker || !environment) {
       return reply.code(400).send({
@@ -550,7 +578,8 @@ server.delete('/api/user/credentials', { preHandler: authenticateRequest }, asyn
     const deleted = await userCredentialsService.deleteCredentials(
       userId,
       broker,
-      environment
+      environment,
+      account
     );
 
     if (!deleted) {
@@ -560,7 +589,7 @@ server.delete('/api/user/credentials', { preHandler: authenticateRequest }, asyn
       });
     }
 
-    request.log.info({ userId, broker, environment }, 'User credentials deleted');
+    request.log.info({ userId, broker, environment, account }, 'User credentials deleted');
 
     return reply.send({
       success: true,
@@ -626,6 +655,8 @@ server.get('/api/connection/status', async (request, reply) => {
     let userIsAuthenticated = false;
     let userWsOpen = false;
     let userEnvironment = 'live'; // Default fallback
+    let userDeadManSwitch = null;
+    let userHotStandby = null;
     
     try {
       await (authenticateRequest as any)(request, reply);
@@ -649,6 +680,8 @@ server.get('/api/connection/status', async (request, reply) => {
         // Check WebSocket status
         const client = userBrokerRegistry.getAnyClient(userId, 'deribit')?.client;
         userWsOpen = client?.isConnected?.() || false;
+        userDeadManSwitch = client?.getDeadManSwitchStatus?.() ?? null;
+        userHotStandby = client?.getHotStandbyStatus?.() ?? null;
         
         // Determine environment from connection status or fallback
         userEnvironment = userConnectionStatus?.environment || 'live';
@@ -668,6 +701,8 @@ server.get('/api/connection/status', async (request, reply) => {
     const environment = userEnvironment;
     const uptimeSeconds = userUptimeSeconds;
     const activeStrategiesCount = userStrategiesActive;
+    const deadManSwitch = userDeadManSwitch ?? strategyService.getClient()?.getDeadManSwitchStatus() ?? null;
+    const hotStandby = userHotStandby ?? strategyService.getClient()?.getHotStandbyStatus() ?? null;
 
     return reply.send({
       success: true,
@@ -679,6 +714,8 @@ server.get('/api/connection/status', async (request, reply) => {
       connectedAt: connectionStatus.connectedAt,
       uptimeSeconds,
       activeStrategiesCount,
+      cancelOnDisconnect: deadManSwitch,
+      hotStandby,
       timestamp: Date.now()
     });
   } catch (error: any) {
@@ -692,6 +729,7 @@ server.get('/api/connection/status', async (request, reply) => {
       connectedAt: null,
       uptimeSeconds: 0,
       activeStrategiesCount: 0,
+      cancelOnDisconnect: null,
       error: error.message || 'Failed to get connection status',
       timestamp: Date.now()
     });
@@ -789,9 +827,9 @@ import {
 server.get('/api/user/strategy/status', { preHandler: authenticateRequest }, async (request, reply) => {
   try {
     const userId = (request as any).user.userId;
-    const { broker, environment } = request.query as { broker?: string; environment?: any };
+    const { broker, environment, account } = request.query as { broker?: string; environment?: any; account?: string };
     
-    const response = await handleUserGetStrategyStatus(userId, broker, environment);
+    const response = await handleUserGetStrategyStatus(userId, broker, environment, account);
     return reply.send(response);
   } catch (error: any) {
     log.error('Failed to get user strategy status', { error: error.message, stack: error.stack });
@@ -807,23 +845,27 @@ server.get('/api/user/strategy/status', { preHandler: authenticateRequest }, asy
 server.post('/api/user/strategy/start', { preHandler: authenticateRequest }, async (request, reply) => {
   try {
     const userId = (request as any).user.userId;
-    const { strategyName, instrument, config, broker, environment } = request.body as {
+    const { strategyName, instrument, instruments, config, broker, environment, account } = request.body as {
       strategyName: string;
       instrument: string;
+      instruments?: string[]; // multi-leg strategies (e.g. Pairs): all legs, instrument may be omitted
       config: Record<string, any>;
       broker?: string;
       environment: 'live' | 'testnet';
+      account?: string; // subaccount to trade on (isolated margin), default 'main'
     };
     
-    log.info('User strategy start request received', { userId, strategyName, instrument, broker, environment });
+    log.info('User strategy start request received', { userId, strategyName, instrument, instruments, broker, environment, account });
     
     const response = await handleUserStartStrategy({
       userId,
       strategyName,
-      instrument,
+      instrument: instrument ?? instruments?.[0],
+      instruments,
       config,
       broker,
       environment,
+      account,
     });
     
     const statusCode = response.success ? 200 : 400;
@@ -842,12 +884,14 @@ server.post('/api/user/strategy/start', { preHandler: authenticateRequest }, asy
 server.post('/api/user/strategy/stop', { preHandler: authenticateRequest }, async (request, reply) => {
   try {
     const userId = (request as any).user.userId;
-    const { strategyId, strategyName, instrument, broker, environment } = request.body as {
+    const { strategyId, strategyName, instrument, instruments, broker, environment, account } = request.body as {
       strategyId?: string;
       strategyName?: string;
       instrument?: string;
+      instruments?: string[]; // multi-leg strategies: the legs it was started with
       broker?: string;
       environment: 'live' | 'testnet';
+      account?: string;
     };
     
     // If strategyId (UUID) is provided, look up the strategy details
@@ -869,6 +913,7 @@ server.post('/api/user/strategy/stop', { preHandler: authenticateRequest }, asyn
         instrument: strategy.instrument,
         broker: strategy.broker,
         environment: strategy.environment,
+        account: strategy.account,
       });
       
       const statusCode = response.success ? 200 : 400;
@@ -878,9 +923,10 @@ server.post('/api/user/strategy/stop', { preHandler: authenticateRequest }, asyn
       const response = await handleUserStopStrategy({
         userId,
         strategyName: strategyName || 'razor',
-        instrument: instrument || 'BTC-PERPETUAL',
+        instrument: instruments?.length ? legKey(instruments) : instrument || 'BTC-PERPETUAL',
         broker: broker || 'deribit',
         environment: environment || 'testnet',
+        account,
       });
       
       const statusCode = response.success ? 200 : 400;
@@ -896,6 +942,72 @@ server.post('/api/user/strategy/stop', { preHandler: authenticateRequest }, asyn
   }
 });
 
+// GET /api/user/strategy/config-versions/:strategyId - Config version history (newest first)
+server.get('/api/user/strategy/config-versions/:strategyId', { preHandler: authenticateRequest }, async (request, reply) => {
+  try {
+    const userId = (request as any).user.userId;
+    const { strategyId } = request.params as { strategyId: string };
+
+    const history = await userStrategyService.listConfigVersions(userId, strategyId);
+    if (!history) {
+      return reply.code(404).send({ success: false, error: 'Strategy not found' });
+    }
+    return reply.send({ success: true, ...history });
+  } catch (error: any) {
+    log.error('Failed to list config versions', { error: error.message, stack: error.stack });
+    return reply.code(500).send({ success: false, error: error.message || 'Failed to list config versions' });
+  }
+});
+
+// GET /api/user/strategy/config-diff/:strategyId?from=1&to=2 - Parameter changes between two versions
+server.get('/api/user/strategy/config-diff/:strategyId', { preHandler: authenticateRequest }, async (request, reply) => {
+  try {
+    const userId = (request as any).user.userId;
+    const { strategyId } = request.params as { strategyId: string };
+    const { from, to } = request.query as { from?: string; to?: string };
+    const fromVersion = Number(from);
+    const toVersion = Number(to);
+
+    if (!Number.isInteger(fromVersion) || !Number.isInteger(toVersion)) {
+      return reply.code(400).send({ success: false, error: 'Query parameters from and to must be version numbers' });
+    }
+
+    const response = await userStrategyService.diffConfigVersions(userId, strategyId, fromVersion, toVersion);
+    if (!response.success) {
+      return reply.code(404).send({ success: false, error: response.message });
+    }
+    return reply.send({ success: true, from: fromVersion, to: toVersion, changes: response.changes });
+  } catch (error: any) {
+    log.error('Failed to diff config versions', { error: error.message, stack: error.stack });
+    return reply.code(500).send({ success: false, error: error.message || 'Failed to diff config versions' });
+  }
+});
+
+// POST /api/user/strategy/config-rollback/:strategyId - Activate an earlier config version (restarts a running strategy)
+server.post('/api/user/strategy/config-rollback/:strategyId', { preHandler: authenticateRequest }, async (request, reply) => {
+  try {
+    const userId = (request as any).user.userId;
+    const { strategyId } = request.params as { strategyId: string };
+    const { version } = (request.body ?? {}) as { version?: number };
+
+    if (!Number.isInteger(version)) {
+      return reply.code(400).send({ success: false, message: 'Body field version must be a version number' });
+    }
+
+    log.info('User strategy config rollback request received', { userId, strategyId, version });
+    const response = await userStrategyService.rollbackConfig(userId, strategyId, version!);
+    const statusCode = response.success ? 200 : 400;
+    return reply.code(statusCode).send(response);
+  } catch (error: any) {
+    log.error('Failed to roll back strategy config', { error: error.message, stack: error.stack });
+    return reply.code(500).send({
+      success: false,
+      message: 'Failed to roll back config',
+      error: error.message,
+    });
+  }
+});
+
 // ============================================================================
 // LEGACY Strategy management endpoints (keep for backward compatibility)
 // ============================================================================
@@ -964,7 +1076,8 @@ server.get('/api/user/strategy/analysis/:strategyId', { preHandler: authenticate
       strategy.strategyName,
       strategy.instrument,
       strategy.broker,
-      strategy.environment
+      strategy.environment,
+      strategy.account
     );
 
     if (!analysis) {
@@ -1126,28 +1239,29 @@ server.delete('/api/credentials/:service', async (request) => {
 });
 
 // Broker connection endpoint (manual connect only)
-server.post<{ Body: { environment: 'testnet' | 'live'; broker?: string } }>('/api/v2/connect', { preHandler: authenticateRequest }, async (request, reply) => {
+server.post<{ Body: { environment: 'testnet' | 'live' | 'paper'; broker?: string; account?: string } }>('/api/v2/connect', { preHandler: authenticateRequest }, async (request, reply) => {
   try {
-    const { environment, broker } = request.body as { environment: 'testnet' | 'live'; broker?: string };
+    const { environment, broker, account = DEFAULT_ACCOUNT } = request.body as { environment: 'testnet' | 'live' | 'paper'; broker?: string; account?: string };
     
-    if (!environment || !['testnet', 'live'].includes(environment)) {
+    if (!environment || !['testnet', 'live', 'paper'].includes(environment)) {
       return reply.code(400).send({
         success: false,
-        error: 'Invalid environment. Must be "testnet" or "live"',
+        error: 'Invalid environment. Must be "testnet", "live" or "paper"',
       });
     }
     const userId = request.user!.userId;
     const usedBroker = broker || 'deribit';
 
-    console.log(`[API] Manual connect requested by user ${userId}: ${usedBroker}/${environment}`);
+    console.log(`[API] Manual connect requested by user ${userId}: ${usedBroker}/${environment}/${account}`);
 
-    await userBrokerRegistry.connect(userId, usedBroker, environment);
+    await userBrokerRegistry.connect(userId, usedBroker, environment, account);
 
     return {
       success: true,
       message: `Connected to ${usedBroker} ${environment}`,
       environment,
       broker: usedBroker,
+      account,
     };
   } catch (error: any) {
     console.error('[API] Connection failed:', error);
@@ -1161,14 +1275,14 @@ server.post<{ Body: { environment: 'testnet' | 'live'; broker?: string } }>('/ap
 // Broker disconnect endpoint
 server.post('/api/v2/disconnect', { preHandler: authenticateRequest }, async (request, reply) => {
   try {
-    const { broker, environment } = request.body as { broker?: string; environment?: 'testnet' | 'live' };
+    const { broker, environment, account = DEFAULT_ACCOUNT } = request.body as { broker?: string; environment?: 'testnet' | 'live' | 'paper'; account?: string };
     const userId = request.user!.userId;
     const usedBroker = broker || 'deribit';
     const usedEnv = environment || 'testnet';
 
-    console.log(`[API] Manual disconnect requested by user ${userId}: ${usedBroker}/${usedEnv}`);
+    console.log(`[API] Manual disconnect requested by user ${userId}: ${usedBroker}/${usedEnv}/${account}`);
 
-    await userBrokerRegistry.disconnect(userId, usedBroker, usedEnv);
+    await userBrokerRegistry.disconnect(userId, usedBroker, usedEnv, account);
 
     console.log('[API] Successfully disconnected');
 
@@ -1185,21 +1299,23 @@ server.post('/api/v2/disconnect', { preHandler: authenticateRequest }, async (re
   }
 });
 
-// Get account balance
+// Get account balance (?account=<name> for a subaccount)
 server.get('/api/v2/balance', async (request, reply) => {
   try {
+    const { account } = request.query as { account?: string };
     // Prefer per-user client when authenticated
     let client = null as any;
       try {
         await (authenticateRequest as any)(request, reply);
   if ((reply as any).sent || (reply.raw && (reply.raw as any).writableEnded)) return; 
         const userId = request.user?.userId;
-        if (userId) client = userBrokerRegistry.getAnyClient(userId, 'deribit').client;
+        if (userId) client = userBrokerRegistry.getAnyClient(userId, 'deribit', account).client;
       } catch (err) {
         // ignore auth errors
       }
 
-    if (!client) client = strategyService.getClient();
+    // A named account never falls back to the shared client
+    if (!client && !account) client = strategyService.getClient();
 
     if (!client || !client.isConnected()) {
       // Return 0 balance instead of error when not connected
@@ -1227,6 +1343,7 @@ server.get('/api/v2/balance', async (request, reply) => {
     
     return {
       success: true,
+      account: account ?? DEFAULT_ACCOUNT,
       balance,
     };
   } catch (error: any) {
@@ -1238,18 +1355,19 @@ server.get('/api/v2/balance', async (request, reply) => {
   }
 });
 
-// Get open positions
+// Get open positions (?account=<name> for a subaccount)
 server.get('/api/v2/positions', async (request, reply) => {
   try {
+    const { account } = request.query as { account?: string };
     let client = null as any;
       try {
         await (authenticateRequest as any)(request, reply);
   if ((reply as any).sent || (reply.raw && (reply.raw as any).writableEnded)) return;
         const userId = request.user?.userId;
-        if (userId) client = userBrokerRegistry.getAnyClient(userId, 'deribit').client;
+        if (userId) client = userBrokerRegistry.getAnyClient(userId, 'deribit', account).client;
       } catch (err) {}
 
-    if (!client) client = strategyService.getClient();
+    if (!client && !account) client = strategyService.getClient();
 
     if (!client || !client.isConnected()) return reply.code(400).send({ success: false, error: 'Not connected to broker' });
 
@@ -1257,6 +1375,7 @@ server.get('/api/v2/positions', async (request, reply) => {
     
     return {
       success: true,
+      account: account ?? DEFAULT_ACCOUNT,
       positions,
     };
   } catch (error: any) {
@@ -1337,6 +1456,63 @@ server.get('/api/v2/ticker/:instrument', async (request, reply) => {
   }
 });
 
+// Option chain services per client, so instrument lists stay cached between requests
+const optionChainServices = new WeakMap<object, OptionChainService>();
+
+// Get option chain (greeks + IV) for one underlying and expiry, e.g. /api/v2/options/chain/USDC?base=SOL
+server.get<{
+  Params: { currency: string };
+  Querystring: { base?: string; expiry?: string; minStrike?: string; maxStrike?: string };
+}>('/api/v2/options/chain/:currency', async (request, reply) => {
+  try {
+    const { currency } = request.params;
+    const { base, expiry, minStrike, maxStrike } = request.query;
+    let client = null as any;
+    try {
+      const authHeader = (request.headers.authorization || '') as string;
+      if (authHeader.startsWith('Bearer ')) {
+        await (authenticateRequest as any)(request, reply);
+        const userId = request.user?.userId;
+        if (userId) client = userBrokerRegistry.getAnyClient(userId, 'deribit').client;
+      }
+    } catch (err) {}
+
+    if (!client) client = strategyService.getClient();
+    if (!client || !client.isConnected()) return reply.code(400).send({ success: false, error: 'Not connected to broker' });
+
+    let service = optionChainServices.get(client);
+    if (!service) {
+      service = new OptionChainService(client);
+      optionChainServices.set(client, service);
+    }
+
+    const [expiries, chain] = await Promise.all([
+      service.getExpiries(currency, base),
+      service.getChain(currency, {
+        base,
+        expiry,
+        minStrike: minStrike !== undefined ? Number(minStrike) : undefined,
+        maxStrike: maxStrike !== undefined ? Number(maxStrike) : undefined,
+      }),
+    ]);
+
+    return {
+      success: true,
+      expiries: expiries.map(e => ({ base: e.base, expiry: e.expiry, expiryLabel: e.expiryLabel, strikes: e.strikes.length })),
+      chain,
+    };
+  } catch (error: any) {
+    if (error instanceof UnknownExpiryError) {
+      return reply.code(404).send({ success: false, error: error.message });
+    }
+    console.error('[API] Failed to get option chain:', error);
+    return reply.code(500).send({
+      success: false,
+      error: error.message || 'Failed to get option chain',
+    });
+  }
+});
+
 // Test micro order endpoint (with stop loss and take profit)
 server.post('/api/v2/test-order', async (request, reply) => {
   try {
@@ -1763,45 +1939,23 @@ server.get('/api/license/entitlement', async () => {
 });
 
 // Strategy Registry API (Iteration 9)
+function describeStrategy(metadata: StrategyMetadata) {
+  return {
+    id: metadata.name.toLowerCase(),
+    name: metadata.name,
+    description: metadata.description,
+    author: metadata.author,
+    version: metadata.version,
+    tags: metadata.tags,
+    defaultConfig: metadata.defaultConfig,
+    requiredParameters: metadata.requiredParameters,
+    optionalParameters: metadata.optionalParameters,
+  };
+}
+
 server.get('/api/v2/strategies', async (request, reply) => {
   try {
-    // For now, return hardcoded strategies
-    // TODO: Import strategyRegistry from './strategies'
-    const strategies = [
-      {
-        id: 'razor',
-        name: 'Razor Strategy',
-        description: 'Smart Money Concepts strategy with CHoCH, FVG, and liquidity sweeps',
-        author: 'Tradebaas',
-        version: '1.0.0',
-        tags: ['SMC', 'ICT', 'structure'],
-      },
-      {
-        id: 'scalping',
-        name: 'Scalping Strategy',
-        description: 'High-frequency scalping with tight stops (15m timeframe)',
-        author: 'Tradebaas',
-        version: '1.0.0',
-        tags: ['scalping', 'high-frequency', 'tight-stops'],
-      },
-      {
-        id: 'vortex',
-        name: 'Vortex Indicator Strategy',
-        description: 'Trend following using Vortex Indicator crossovers',
-        author: 'Tradebaas',
-        version: '1.0.0',
-        tags: ['vortex', 'trend-following', 'indicator'],
-      },
-      {
-        id: 'fast-test',
-        name: 'Fast Test Strategy',
-        description: 'Rapid testing strategy - generates signals every ~30 seconds',
-        author: 'Tradebaas Dev',
-        version: '1.0.0',
-        tags: ['testing', 'fast', 'debug'],
-      },
-    ];
-    
+    const strategies = strategyRegistry.listWithMetadata().map(({ metadata }) => describeStrategy(metadata));
     return reply.send({ success: true, strategies });
   } catch (error: any) {
     log.error('[API] Error getting strategies:', error);
@@ -1809,47 +1963,16 @@ server.get('/api/v2/strategies', async (request, reply) => {
   }
 });
 
+// Hot-loaded strategy plugins and their last load error (registered ones also appear above)
+server.get('/api/v2/strategies/plugins', async (request, reply) => {
+  return reply.send({ success: true, plugins: getPluginLoader()?.getStatus() ?? [] });
+});
+
 server.get('/api/v2/strategies/:id', async (request, reply) => {
   try {
     const { id } = request.params as { id: string };
     
-    // For now, return hardcoded strategy data
-    const strategies: Record<string, any> = {
-      'razor': {
-        id: 'razor',
-        name: 'Razor Strategy',
-        description: 'Smart Money Concepts strategy with CHoCH, FVG, and liquidity sweeps',
-        author: 'Tradebaas',
-        version: '1.0.0',
-        tags: ['SMC', 'ICT', 'structure'],
-      },
-      'scalping': {
-        id: 'scalping',
-        name: 'Scalping Strategy',
-        description: 'High-frequency scalping with tight stops (15m timeframe)',
-        author: 'Tradebaas',
-        version: '1.0.0',
-        tags: ['scalping', 'high-frequency', 'tight-stops'],
-      },
-      'vortex': {
-        id: 'vortex',
-        name: 'Vortex Indicator Strategy',
-        description: 'Trend following using Vortex Indicator crossovers',
-        author: 'Tradebaas',
-        version: '1.0.0',
-        tags: ['vortex', 'trend-following', 'indicator'],
-      },
-      'fast-test': {
-        id: 'fast-test',
-        name: 'Fast Test Strategy',
-        description: 'Rapid testing strategy - generates signals every ~30 seconds',
-        author: 'Tradebaas Dev',
-        version: '1.0.0',
-        tags: ['testing', 'fast', 'debug'],
-      },
-    };
-    
-    const strategy = strategies[id];
+    const strategy = strategyRegistry.find(id);
     if (!strategy) {
       return reply.code(404).send({ success: false, error: 'Strategy not found' });
     }
@@ -1857,7 +1980,9 @@ server.get('/api/v2/strategies/:id', async (request, reply) => {
     return reply.send({ 
       success: true, 
       strategy: {
-        ...strategy,
+        ...describeStrategy(strategy.metadata),
+        parameterSchema: strategy.metadata.parameterSchema ?? {},
+        parameterGroups: strategy.metadata.parameterGroups ?? [],
         state: { isRunning: false, lastAnalysis: null, checkpoints: {} },
       }
     });
@@ -2086,6 +2211,9 @@ server.delete('/api/trades/:tradeId', async (request, reply) => {
 // Start server
 const start = async () => {
   try {
+    await bootstrapStrategies();
+    await discoverStrategies();
+    
     // Initialize user strategy service (per-user isolation)
     console.log('[START] Initializing user strategy service...');
     const { userStrategyService: userStrategyServiceInstance } = await import('./user-strategy-service');
@@ -2165,6 +2293,7 @@ async function gracefulShutdown(signal: string) {
     // 3. Stop all active strategies and close WebSocket connections
     log.info('Shutdown step 3/5: Stopping strategies');
     await strategyService.shutdown();
+    await stopStrategyPlugins();
     log.info('Strategies stopped successfully');
     
     // 4. Flush pending state updates
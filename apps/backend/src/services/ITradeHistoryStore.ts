@@ -5,6 +5,15 @@
  * Implementations: KvTradeHistoryStore (in-memory), SqlTradeHistoryStore (SQLite/PostgreSQL)
  */
 
+/**
+ * A row of user_strategy_config_versions; versions are numbered per strategy,
+ * so the number alone does not identify a config
+ */
+export interface ConfigVersionRef {
+  strategyId: string; // user_strategies.id
+  version: number;
+}
+
 export interface TradeRecord {
   /** Unique trade ID */
   id: string;
@@ -65,6 +74,9 @@ export interface TradeRecord {
   
   /** Current status */
   status: 'open' | 'closed';
+
+  /** Strategy config version the trade was opened under */
+  configVersion?: ConfigVersionRef;
   
   /** Additional metadata (JSON) */
   metadata?: Record<string, any>;
@@ -82,6 +94,9 @@ export interface TradeHistoryQuery {
   
   /** Filter by status */
   status?: 'open' | 'closed';
+
+  /** Filter by strategy config version */
+  configVersion?: ConfigVersionRef;
   
   /** Filter by time range (Unix ms) */
   startTime?: number;
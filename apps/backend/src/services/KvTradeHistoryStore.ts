@@ -48,6 +48,11 @@ export class KvTradeHistoryStore implements ITradeHistoryStore {
     if (query.status) {
       results = results.filter(t => t.status === query.status);
     }
+
+    if (query.configVersion) {
+      const { strategyId, version } = query.configVersion;
+      results = results.filter(t => t.configVersion?.strategyId === strategyId && t.configVersion.version === version);
+    }
     
     if (query.startTime) {
       results = results.filter(t => t.entryTime >= query.startTime!);
@@ -54,7 +54,9 @@ export class SqlTradeHistoryStore implements ITradeHistoryStore {
         pnlPercentage REAL,
         status TEXT NOT NULL,
         metadata TEXT,
-        user_id TEXT
+        user_id TEXT,
+        configStrategyId TEXT,
+        configVersion INTEGER
       );
       
       CREATE INDEX IF NOT EXISTS idx_trades_strategy ON trades(strategyName);
@@ -76,8 +78,8 @@ export class SqlTradeHistoryStore implements ITradeHistoryStore {
       INSERT INTO trades (
         id, user_id, strategyName, instrument, side, entryOrderId, slOrderId, tpOrderId,
         entryPrice, exitPrice, amount, stopLoss, takeProfit,
-        entryTime, exitTime, exitReason, pnl, pnlPercentage, status, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        entryTime, exitTime, exitReason, pnl, pnlPercentage, status, metadata, configStrategyId, configVersion
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(
@@ -100,7 +102,9 @@ export class SqlTradeHistoryStore implements ITradeHistoryStore {
       trade.pnl || null,
       trade.pnlPercentage || null,
       trade.status,
-      trade.metadata ? JSON.stringify(trade.metadata) : null
+      trade.metadata ? JSON.stringify(trade.metadata) : null,
+      trade.configVersion?.strategyId ?? null,
+      trade.configVersion?.version ?? null
     );
     
     console.log(`[SqlTradeHistoryStore] Added trade ${trade.id}`);
@@ -194,6 +198,11 @@ export class SqlTradeHistoryStore implements ITradeHistoryStore {
       sql += ' AND status = ?';
       params.push(query.status);
     }
+
+    if (query.configVersion) {
+      sql += ' AND configStrategyId = ? AND configVersion = ?';
+      params.push(query.configVersion.strategyId, query.configVersion.version);
+    }
     
     if (query.startTime) {
       sql += ' AND entryTime >= ?';
@@ -341,7 +350,10 @@ export class SqlTradeHistoryStore implements ITradeHistoryStore {
       pnl: row.pnl || undefined,
       pnlPercentage: row.pnlPercentage || undefined,
       status: row.status,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      configVersion: row.configStrategyId
+        ? { strategyId: row.configStrategyId, version: row.configVersion }
+        : undefined
     };
   }
 }
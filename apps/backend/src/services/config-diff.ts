@@ -0,0 +1,45 @@
+/**
+ * Config Diff
+ *
+ * Differences between two strategy config versions, one entry per changed parameter.
+ * Nested objects are compared per key (path 'a.b'); arrays and scalars as a whole.
+ */
+
+import { isDeepStrictEqual } from 'util';
+
+export interface ConfigChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Changes that turn `from` into `to`, sorted by path
+ */
+export function diffConfigs(from: Record<string, any>, to: Record<string, any>, prefix: string = ''): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const a = from[key];
+    const b = to[key];
+
+    if (a === undefined) {
+      changes.push({ path, type: 'added', to: b });
+    } else if (b === undefined) {
+      changes.push({ path, type: 'removed', from: a });
+    } else if (isPlainObject(a) && isPlainObject(b)) {
+      changes.push(...diffConfigs(a, b, path));
+    } else if (!isDeepStrictEqual(a, b)) {
+      changes.push({ path, type: 'changed', from: a, to: b });
+    }
+  }
+
+  return changes.sort((x, y) => x.path.localeCompare(y.path));
+}
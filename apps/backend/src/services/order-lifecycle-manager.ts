@@ -103,7 +103,7 @@ export class OrderLifecycleManager extends EventEmitter {
       const exitDetails = await deriveExitDetails(this.client, trade);
       console.log(`[OrderLifecycle] 📊 Finalized exit via ${exitDetails.source}`);
       console.log(`[OrderLifecycle]    Exit Price: $${exitDetails.exitPrice}`);
-      console.log(`[OrderLifecycle]    PnL (net): $${exitDetails.pnl.toFixed(2)} (${exitDetails.pnlPercentage.toFixed(2)}%) Fees: $${exitDetails.fees.toFixed(4)}`);
+      console.log(`[OrderLifecycle]    PnL (net): $${exitDetails.pnl.toFixed(2)} (${exitDetails.pnlPercentage.toFixed(2)}%) Fees: $${exitDetails.fees.toFixed(4)} Funding: $${exitDetails.funding.toFixed(4)}`);
       console.log(`[OrderLifecycle]    Exit Reason: ${exitDetails.exitReason}`);
 
       await tradeHistory.closeTrade({
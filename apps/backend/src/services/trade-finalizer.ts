@@ -1,5 +1,8 @@
 import { BackendDeribitClient } from '../deribit-client';
 import { TradeRecord } from './ITradeHistoryStore';
+import { accruedFunding } from '../brokers/Funding';
+
+const HOUR_MS = 60 * 60 * 1000;
 
 export interface ExitDetails {
   exitPrice: number;
@@ -7,11 +10,12 @@ export interface ExitDetails {
   pnlPercentage: number;
   exitReason: 'sl_hit' | 'tp_hit' | 'manual' | 'strategy_stop' | 'error';
   fees: number;
+  funding: number; // received while open (negative = paid), included in pnl
   source: 'deribit_trades' | 'estimation';
 }
 
 /**
- * Derive accurate exit details (reason + net PnL including fees) using Deribit trade data.
+ * Derive accurate exit details (reason + net PnL including fees and perpetual funding) using Deribit trade data.
  * Falls back to estimation if user trades cannot be retrieved.
  */
 export async function deriveExitDetails(client: BackendDeribitClient, trade: TradeRecord): Promise<ExitDetails> {
@@ -34,11 +38,12 @@ export async function deriveExitDetails(client: BackendDeribitClient, trade: Tra
       const entryValue = entryTrades.reduce((s, t) => s + (t.price * t.amount), 0);
       const exitValue = exitTrades.reduce((s, t) => s + (t.price * t.amount), 0);
       const totalFees = [...entryTrades, ...exitTrades].reduce((s, t) => s + (t.fee || 0), 0);
+      const funding = await fundingSinceEntry(client, trade, entryValue);
       let pnl: number;
       if (trade.side === 'buy') {
-        pnl = exitValue - entryValue - totalFees;
+        pnl = exitValue - entryValue - totalFees + funding;
       } else {
-        pnl = entryValue - exitValue - totalFees;
+        pnl = entryValue - exitValue - totalFees + funding;
       }
       const pnlPercentage = entryValue !== 0 ? (pnl / entryValue) * 100 : 0;
       const slFilled = exitTrades.some(t => t.order_id === trade.slOrderId);
@@ -46,30 +51,48 @@ export async function deriveExitDetails(client: BackendDeribitClient, trade: Tra
       let exitReason: ExitDetails['exitReason'] = 'manual';
       if (slFilled) exitReason = 'sl_hit';
       else if (tpFilled) exitReason = 'tp_hit';
-      return { exitPrice, pnl, pnlPercentage, exitReason, fees: totalFees, source: 'deribit_trades' };
+      return { exitPrice, pnl, pnlPercentage, exitReason, fees: totalFees, funding, source: 'deribit_trades' };
     }
 
     // Fallback estimation
-    return estimateExit(trade, exitPrice);
+    return estimateExit(trade, exitPrice, await fundingSinceEntry(client, trade, trade.amount));
   } catch (err) {
     // Fallback if Deribit call fails
     const ticker = await client.getTicker(trade.instrument).catch(() => ({ last_price: trade.entryPrice }));
-    return estimateExit(trade, ticker.last_price);
+    return estimateExit(trade, ticker.last_price, await fundingSinceEntry(client, trade, trade.amount));
+  }
+}
+
+/**
+ * Funding a perpetual position received since entry (negative = paid); 0 for other
+ * instruments or when the funding history can't be fetched
+ * @param notional - the basis the PnL is computed on
+ */
+async function fundingSinceEntry(client: BackendDeribitClient, trade: TradeRecord, notional: number, now: number = Date.now()): Promise<number> {
+  if (!trade.instrument.endsWith('PERPETUAL')) {
+    return 0;
+  }
+  try {
+    const hours = Math.ceil((now - trade.entryTime) / HOUR_MS) + 1;
+    const history = await client.getFundingRateHistory(trade.instrument, hours);
+    return accruedFunding(history, trade.side, notional, trade.entryTime, now);
+  } catch {
+    return 0;
   }
 }
 
-function estimateExit(trade: TradeRecord, exitPrice: number): ExitDetails {
+function estimateExit(trade: TradeRecord, exitPrice: number, funding: number): ExitDetails {
   const priceChangePercent = (exitPrice - trade.entryPrice) / trade.entryPrice;
   let pnl: number;
   if (trade.side === 'buy') {
-    pnl = priceChangePercent * trade.amount; // linear contract approximation
+    pnl = priceChangePercent * trade.amount + funding; // linear contract approximation
   } else {
-    pnl = -priceChangePercent * trade.amount;
+    pnl = -priceChangePercent * trade.amount + funding;
   }
-  const pnlPercentage = priceChangePercent * 100 * (trade.side === 'buy' ? 1 : -1);
+  const pnlPercentage = trade.amount !== 0 ? (pnl / trade.amount) * 100 : 0;
   // Approximate exit reason by proximity
   let exitReason: ExitDetails['exitReason'] = 'manual';
   if (trade.stopLoss && Math.abs(exitPrice - trade.stopLoss) < Math.abs(exitPrice - trade.takeProfit)) exitReason = 'sl_hit';
   else if (trade.takeProfit && Math.abs(exitPrice - trade.takeProfit) < Math.abs(exitPrice - trade.stopLoss)) exitReason = 'tp_hit';
-  return { exitPrice, pnl, pnlPercentage, exitReason, fees: 0, source: 'estimation' };
+  return { exitPrice, pnl, pnlPercentage, exitReason, fees: 0, funding, source: 'estimation' };
 }
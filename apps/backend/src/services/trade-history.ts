@@ -5,7 +5,7 @@
  * Supports pluggable storage backends (KV in-memory or SQL persistent).
  */
 
-import type { ITradeHistoryStore, TradeRecord, TradeHistoryQuery, TradeHistoryStats } from './ITradeHistoryStore';
+import type { ITradeHistoryStore, TradeRecord, TradeHistoryQuery, TradeHistoryStats, ConfigVersionRef } from './ITradeHistoryStore';
 import { KvTradeHistoryStore } from './KvTradeHistoryStore';
 import { SqlTradeHistoryStore } from './SqlTradeHistoryStore';
 import { telegramService } from '../notifications/telegram';
@@ -45,6 +45,7 @@ export class TradeHistoryService {
     amount: number;
     stopLoss: number;
     takeProfit: number;
+    configVersion?: ConfigVersionRef; // strategy config version the trade opens under
   }): Promise<string> {
     const trade: TradeRecord = {
       id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -60,7 +61,8 @@ export class TradeHistoryService {
       stopLoss: params.stopLoss,
       takeProfit: params.takeProfit,
       entryTime: Date.now(),
-      status: 'open'
+      status: 'open',
+      configVersion: params.configVersion
     };
     
     await this.store.addTrade(trade);
@@ -1,11 +1,24 @@
 import { pool } from '../db';
 import { encryptData, decryptData } from './encryption-service';
 
+/**
+ * Account name when none is given - the exchange main account.
+ * Other names are subaccounts, each with its own key pair (and margin).
+ */
+export const DEFAULT_ACCOUNT = 'main';
+
+const ACCOUNT_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export function isValidAccountName(account: string): boolean {
+  return ACCOUNT_NAME.test(account);
+}
+
 export interface UserCredentials {
   id: string;
   user_id: string;
   broker: string;
   environment: string;
+  account: string;
   created_at: string;
   last_used: string | null;
   is_active: boolean;
@@ -17,11 +30,14 @@ export interface SaveCredentialsInput {
   environment: 'live' | 'testnet';
   apiKey: string;
   apiSecret: string;
+  passphrase?: string; // OKX only
+  account?: string; // default: DEFAULT_ACCOUNT
 }
 
 export interface LoadedCredentials {
   apiKey: string;
   apiSecret: string;
+  passphrase?: string;
 }
 
 export class UserCredentialsService {
@@ -29,14 +45,15 @@ export class UserCredentialsService {
    * Save or update user credentials (encrypted)
    */
   async saveCredentials(input: SaveCredentialsInput): Promise<void> {
-    const { userId, broker, environment, apiKey, apiSecret } = input;
+    const { userId, broker, environment, apiKey, apiSecret, passphrase, account = DEFAULT_ACCOUNT } = input;
 
-    // Encrypt API key and secret separately
-  // Generate a single salt/iv and reuse for both fields to ensure consistent derivation
-  const salt = undefined; // let encryptData generate a salt unless we want deterministic
-  const iv = undefined;
-  const encryptedKey = encryptData(apiKey, userId, { salt, iv });
-  const encryptedSecret = encryptData(apiSecret, userId, { salt: encryptedKey.salt, iv: encryptedKey.iv });
+    // One salt (derived key) per row, a fresh random IV per field: AES-GCM must never
+    // reuse an IV under the same key
+    const encryptedKey = encryptData(apiKey, userId);
+    const encryptedSecret = encryptData(apiSecret, userId, { salt: encryptedKey.salt });
+    const encryptedPassphrase = passphrase
+      ? encryptData(passphrase, userId, { salt: encryptedKey.salt })
+      : null;
 
     // Upsert credentials (insert or update if exists)
     await pool.query(
@@ -44,14 +61,20 @@ export class UserCredentialsService {
         user_id, broker, environment,
         api_key_encrypted, api_secret_encrypted,
         encryption_iv, encryption_salt,
+        api_passphrase_encrypted,
+        account,
+        api_secret_iv, api_passphrase_iv,
         last_used
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
-      ON CONFLICT (user_id, broker, environment)
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+      ON CONFLICT (user_id, broker, environment, account)
       DO UPDATE SET
         api_key_encrypted = $4,
         api_secret_encrypted = $5,
         encryption_iv = $6,
         encryption_salt = $7,
+        api_passphrase_encrypted = $8,
+        api_secret_iv = $10,
+        api_passphrase_iv = $11,
         last_used = NOW(),
         is_active = true`,
       [
@@ -60,8 +83,12 @@ export class UserCredentialsService {
         environment,
         encryptedKey.encrypted,
         encryptedSecret.encrypted,
-        encryptedKey.iv, // Both use same IV/salt for this user/broker combo
+        encryptedKey.iv,
         encryptedKey.salt,
+        encryptedPassphrase ? encryptedPassphrase.encrypted : null,
+        account,
+        encryptedSecret.iv,
+        encryptedPassphrase ? encryptedPassphrase.iv : null,
       ]
     );
   }
@@ -72,18 +99,23 @@ export class UserCredentialsService {
   async loadCredentials(
     userId: string,
     broker: string,
-    environment: string
+    environment: string,
+    account: string = DEFAULT_ACCOUNT
   ): Promise<LoadedCredentials | null> {
     const result = await pool.query<{
       api_key_encrypted: string;
       api_secret_encrypted: string;
       encryption_iv: string;
       encryption_salt: string;
+      api_passphrase_encrypted: string | null;
+      api_secret_iv: string | null;
+      api_passphrase_iv: string | null;
     }>(
-      `SELECT api_key_encrypted, api_secret_encrypted, encryption_iv, encryption_salt
+      `SELECT api_key_encrypted, api_secret_encrypted, encryption_iv, encryption_salt, api_passphrase_encrypted,
+              api_secret_iv, api_passphrase_iv
        FROM user_credentials
-       WHERE user_id = $1 AND broker = $2 AND environment = $3 AND is_active = true`,
-      [userId, broker, environment]
+       WHERE user_id = $1 AND broker = $2 AND environment = $3 AND account = $4 AND is_active = true`,
+      [userId, broker, environment, account]
     );
 
     if (result.rows.length === 0) {
@@ -101,26 +133,31 @@ export class UserCredentialsService {
         userId
       );
 
+      // Rows saved before per-field IVs (migration 009) used encryption_iv for every field
       const apiSecret = decryptData(
         row.api_secret_encrypted,
-        row.encryption_iv,
+        row.api_secret_iv ?? row.encryption_iv,
         row.encryption_salt,
         userId
       );
 
+      const passphrase = row.api_passphrase_encrypted
+        ? decryptData(row.api_passphrase_encrypted, row.api_passphrase_iv ?? row.encryption_iv, row.encryption_salt, userId)
+        : undefined;
+
       // Update last_used timestamp
       await pool.query(
-        'UPDATE user_credentials SET last_used = NOW() WHERE user_id = $1 AND broker = $2 AND environment = $3',
-        [userId, broker, environment]
+        'UPDATE user_credentials SET last_used = NOW() WHERE user_id = $1 AND broker = $2 AND environment = $3 AND account = $4',
+        [userId, broker, environment, account]
       );
 
-      return { apiKey, apiSecret };
+      return { apiKey, apiSecret, passphrase };
     } catch (error) {
         console.error('[UserCredentialsService] Decryption failed:', error);
         try {
           const fs = require('fs');
     const fingerprint = (row.api_key_encrypted || '').slice(0,8);
-    const logLine = `[${new Date().toISOString()}] DECRYPTION_FAILED userId=${userId} broker=${broker} environment=${environment} fingerprint=${fingerprint} error=${error instanceof Error?error.message:String(error)}\n`;
+    const logLine = `[${new Date().toISOString()}] DECRYPTION_FAILED userId=${userId} broker=${broker} environment=${environment} account=${account} fingerprint=${fingerprint} error=${error instanceof Error?error.message:String(error)}\n`;
           fs.appendFileSync('/root/Tradebaas-1/apps/backend/logs/debug-decrypt.log', logLine);
         } catch (e) {
           // ignore logging failures
@@ -128,8 +165,8 @@ export class UserCredentialsService {
         // Deactivate this credential row to avoid future attempts
         try {
           await pool.query(
-            `UPDATE user_credentials SET is_active = false WHERE user_id = $1 AND broker = $2 AND environment = $3`,
-            [userId, broker, environment]
+            `UPDATE user_credentials SET is_active = false WHERE user_id = $1 AND broker = $2 AND environment = $3 AND account = $4`,
+            [userId, broker, environment, account]
           );
         } catch (e) {
           // ignore update errors
@@ -141,18 +178,19 @@ export class UserCredentialsService {
   }
 
   /**
-   * Check if user has credentials for broker/environment
+   * Check if user has credentials for broker/environment/account
    */
   async hasCredentials(
     userId: string,
     broker: string,
-    environment: string
+    environment: string,
+    account: string = DEFAULT_ACCOUNT
   ): Promise<boolean> {
     const result = await pool.query(
       `SELECT 1 FROM user_credentials
-       WHERE user_id = $1 AND broker = $2 AND environment = $3 AND is_active = true
+       WHERE user_id = $1 AND broker = $2 AND environment = $3 AND account = $4 AND is_active = true
        LIMIT 1`,
-      [userId, broker, environment]
+      [userId, broker, environment, account]
     );
 
     return result.rows.length > 0;
@@ -164,12 +202,13 @@ export class UserCredentialsService {
   async deleteCredentials(
     userId: string,
     broker: string,
-    environment: string
+    environment: string,
+    account: string = DEFAULT_ACCOUNT
   ): Promise<boolean> {
     const result = await pool.query(
       `DELETE FROM user_credentials
-       WHERE user_id = $1 AND broker = $2 AND environment = $3`,
-      [userId, broker, environment]
+       WHERE user_id = $1 AND broker = $2 AND environment = $3 AND account = $4`,
+      [userId, broker, environment, account]
     );
 
     return result.rowCount ? result.rowCount > 0 : false;
@@ -180,7 +219,7 @@ export class UserCredentialsService {
    */
   async listCredentials(userId: string): Promise<UserCredentials[]> {
     const result = await pool.query<UserCredentials>(
-      `SELECT id, user_id, broker, environment, created_at, last_used, is_active
+      `SELECT id, user_id, broker, environment, account, created_at, last_used, is_active
        FROM user_credentials
        WHERE user_id = $1
        ORDER BY created_at DESC`,
@@ -8,8 +8,10 @@
  * Design: Agnostic (ANY strategy, ANY broker, ANY environment)
  */
 
-import { Pool } from 'pg';
+import { Pool, type PoolClient } from 'pg';
+import { isDeepStrictEqual } from 'util';
 import type { DeribitEnvironment } from '../deribit-client';
+import { DEFAULT_ACCOUNT } from './user-credentials-service';
 
 // PostgreSQL connection pool
 const pool = new Pool({
@@ -23,7 +25,9 @@ export interface UserStrategy {
   instrument: string;
   broker: string;
   environment: DeribitEnvironment;
+  account: string; // named broker account (subaccount), see user_credentials.account
   config: Record<string, any>; // JSONB - agnostic for ANY strategy config
+  configVersion?: number; // active version in user_strategy_config_versions
   status: 'active' | 'stopped' | 'paused' | 'error';
   lastAction?: string; // manual_start, manual_stop, auto_resume, etc.
   autoReconnect: boolean; // false = manual disconnect, no auto-resume
@@ -42,6 +46,7 @@ export interface CreateUserStrategyParams {
   instrument: string;
   broker?: string; // default: 'deribit'
   environment: DeribitEnvironment;
+  account?: string; // default: DEFAULT_ACCOUNT
   config: Record<string, any>;
   status?: 'active' | 'stopped'; // default: 'stopped'
   lastAction?: string;
@@ -60,6 +65,18 @@ export interface UpdateUserStrategyParams {
   config?: Record<string, any>;
 }
 
+/**
+ * Immutable snapshot of a strategy config (user_strategy_config_versions)
+ */
+export interface StrategyConfigVersion {
+  id: string;
+  strategyId: string;
+  version: number;
+  config: Record<string, any>;
+  createdBy?: string; // last_action that saved it
+  createdAt: Date;
+}
+
 class UserStrategyRepository {
   /**
    * Find all strategies for a specific user
@@ -68,11 +85,11 @@ class UserStrategyRepository {
     let query = `
       SELECT 
         id, user_id as "userId", strategy_name as "strategyName", instrument, 
-        broker, environment, config, status, last_action as "lastAction",
+        broker, environment, account, config, status, last_action as "lastAction",
         auto_reconnect as "autoReconnect", connected_at as "connectedAt",
         disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
         error_message as "errorMessage", error_count as "errorCount",
-        created_at as "createdAt", updated_at as "updatedAt"
+        config_version as "configVersion", created_at as "createdAt", updated_at as "updatedAt"
       FROM user_strategies
       WHERE user_id = $1 AND broker = $2
     `;
@@ -98,28 +115,50 @@ class UserStrategyRepository {
     strategyName: string, 
     instrument: string,
     broker: string = 'deribit',
-    environment: DeribitEnvironment = 'testnet'
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
   ): Promise<UserStrategy | null> {
     const result = await pool.query(`
       SELECT 
         id, user_id as "userId", strategy_name as "strategyName", instrument, 
-        broker, environment, config, status, last_action as "lastAction",
+        broker, environment, account, config, status, last_action as "lastAction",
         auto_reconnect as "autoReconnect", connected_at as "connectedAt",
         disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
         error_message as "errorMessage", error_count as "errorCount",
-        created_at as "createdAt", updated_at as "updatedAt"
+        config_version as "configVersion", created_at as "createdAt", updated_at as "updatedAt"
       FROM user_strategies
       WHERE user_id = $1 
         AND strategy_name = $2 
         AND instrument = $3
         AND broker = $4
         AND environment = $5
+        AND account = $6
       LIMIT 1
-    `, [userId, strategyName, instrument, broker, environment]);
+    `, [userId, strategyName, instrument, broker, environment, account]);
     
     return result.rows[0] || null;
   }
 
+  /**
+   * Find a strategy by its database id (scoped to the user)
+   */
+  async findById(userId: string, id: string): Promise<UserStrategy | null> {
+    const result = await pool.query(`
+      SELECT 
+        id, user_id as "userId", strategy_name as "strategyName", instrument, 
+        broker, environment, account, config, status, last_action as "lastAction",
+        auto_reconnect as "autoReconnect", connected_at as "connectedAt",
+        disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
+        error_message as "errorMessage", error_count as "errorCount",
+        config_version as "configVersion", created_at as "createdAt", updated_at as "updatedAt"
+      FROM user_strategies
+      WHERE user_id = $1 AND id = $2
+      LIMIT 1
+    `, [userId, id]);
+
+    return result.rows[0] || null;
+  }
+
   /**
    * Find all strategies that should auto-resume for a user
    * (status=active AND autoReconnect=true)
@@ -132,11 +171,11 @@ class UserStrategyRepository {
     const result = await pool.query(`
       SELECT 
         id, user_id as "userId", strategy_name as "strategyName", instrument, 
-        broker, environment, config, status, last_action as "lastAction",
+        broker, environment, account, config, status, last_action as "lastAction",
         auto_reconnect as "autoReconnect", connected_at as "connectedAt",
         disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
         error_message as "errorMessage", error_count as "errorCount",
-        created_at as "createdAt", updated_at as "updatedAt"
+        config_version as "configVersion", created_at as "createdAt", updated_at as "updatedAt"
       FROM user_strategies
       WHERE user_id = $1 
         AND broker = $2
@@ -161,11 +200,11 @@ class UserStrategyRepository {
     let query = `
       SELECT 
         id, user_id as "userId", strategy_name as "strategyName", instrument, 
-        broker, environment, config, status, last_action as "lastAction",
+        broker, environment, account, config, status, last_action as "lastAction",
         auto_reconnect as "autoReconnect", connected_at as "connectedAt",
         disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
         error_message as "errorMessage", error_count as "errorCount",
-        created_at as "createdAt", updated_at as "updatedAt"
+        config_version as "configVersion", created_at as "createdAt", updated_at as "updatedAt"
       FROM user_strategies
       WHERE broker = $1
         AND status = 'active'
@@ -187,6 +226,8 @@ class UserStrategyRepository {
 
   /**
    * Create or update a strategy
+   * The row write and its config version are one transaction; the UPDATE holds the
+   * strategy row lock until commit, so concurrent saves number their versions in turn
    */
   async save(params: CreateUserStrategyParams): Promise<UserStrategy> {
     const {
@@ -195,6 +236,7 @@ class UserStrategyRepository {
       instrument,
       broker = 'deribit',
       environment,
+      account = DEFAULT_ACCOUNT,
       config,
       status = 'stopped',
       lastAction,
@@ -202,48 +244,50 @@ class UserStrategyRepository {
     } = params;
 
     // Check if strategy already exists
-    const existing = await this.findByUserAndStrategy(userId, strategyName, instrument, broker, environment);
+    const existing = await this.findByUserAndStrategy(userId, strategyName, instrument, broker, environment, account);
     
-    if (existing) {
-      // Update existing strategy
-      const result = await pool.query(`
-        UPDATE user_strategies
-        SET 
-          config = $1,
-          status = $2,
-          last_action = $3,
-          auto_reconnect = $4,
-          updated_at = NOW()
-        WHERE id = $5
-        RETURNING 
-          id, user_id as "userId", strategy_name as "strategyName", instrument, 
-          broker, environment, config, status, last_action as "lastAction",
-          auto_reconnect as "autoReconnect", connected_at as "connectedAt",
-          disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
-          error_message as "errorMessage", error_count as "errorCount",
-          created_at as "createdAt", updated_at as "updatedAt"
-      `, [config, status, lastAction, autoReconnect, existing.id]);
+    return this.transaction(async (client) => {
+      if (existing) {
+        // Update existing strategy
+        const result = await client.query(`
+          UPDATE user_strategies
+          SET 
+            config = $1,
+            status = $2,
+            last_action = $3,
+            auto_reconnect = $4,
+            updated_at = NOW()
+          WHERE id = $5
+          RETURNING 
+            id, user_id as "userId", strategy_name as "strategyName", instrument, 
+            broker, environment, account, config, status, last_action as "lastAction",
+            auto_reconnect as "autoReconnect", connected_at as "connectedAt",
+            disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
+            error_message as "errorMessage", error_count as "errorCount",
+            config_version as "configVersion", created_at as "createdAt", updated_at as "updatedAt"
+        `, [config, status, lastAction, autoReconnect, existing.id]);
       
-      return result.rows[0];
-    } else {
-      // Insert new strategy
-      const result = await pool.query(`
-        INSERT INTO user_strategies (
-          user_id, strategy_name, instrument, broker, environment, 
-          config, status, last_action, auto_reconnect
-        )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-        RETURNING 
-          id, user_id as "userId", strategy_name as "strategyName", instrument, 
-          broker, environment, config, status, last_action as "lastAction",
-          auto_reconnect as "autoReconnect", connected_at as "connectedAt",
-          disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
-          error_message as "errorMessage", error_count as "errorCount",
-          created_at as "createdAt", updated_at as "updatedAt"
-      `, [userId, strategyName, instrument, broker, environment, config, status, lastAction, autoReconnect]);
+        return this.recordConfigVersion(client, result.rows[0], lastAction);
+      } else {
+        // Insert new strategy
+        const result = await client.query(`
+          INSERT INTO user_strategies (
+            user_id, strategy_name, instrument, broker, environment, 
+            config, status, last_action, auto_reconnect, account
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          RETURNING 
+            id, user_id as "userId", strategy_name as "strategyName", instrument, 
+            broker, environment, account, config, status, last_action as "lastAction",
+            auto_reconnect as "autoReconnect", connected_at as "connectedAt",
+            disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
+            error_message as "errorMessage", error_count as "errorCount",
+            config_version as "configVersion", created_at as "createdAt", updated_at as "updatedAt"
+        `, [userId, strategyName, instrument, broker, environment, config, status, lastAction, autoReconnect, account]);
       
-      return result.rows[0];
-    }
+        return this.recordConfigVersion(client, result.rows[0], lastAction);
+      }
+    });
   }
 
   /**
@@ -255,7 +299,8 @@ class UserStrategyRepository {
     instrument: string,
     params: UpdateUserStrategyParams,
     broker: string = 'deribit',
-    environment: DeribitEnvironment = 'testnet'
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
   ): Promise<UserStrategy | null> {
     const updates: string[] = [];
     const values: any[] = [];
@@ -301,14 +346,14 @@ class UserStrategyRepository {
 
     if (updates.length === 0) {
       // No updates provided
-      return this.findByUserAndStrategy(userId, strategyName, instrument, broker, environment);
+      return this.findByUserAndStrategy(userId, strategyName, instrument, broker, environment, account);
     }
 
     // Always update updated_at
     updates.push(`updated_at = NOW()`);
 
     // Add WHERE clause parameters
-    values.push(userId, strategyName, instrument, broker, environment);
+    values.push(userId, strategyName, instrument, broker, environment, account);
 
     const query = `
       UPDATE user_strategies
@@ -318,17 +363,26 @@ class UserStrategyRepository {
         AND instrument = $${paramIndex++}
         AND broker = $${paramIndex++}
         AND environment = $${paramIndex++}
+        AND account = $${paramIndex++}
       RETURNING 
         id, user_id as "userId", strategy_name as "strategyName", instrument, 
-        broker, environment, config, status, last_action as "lastAction",
+        broker, environment, account, config, status, last_action as "lastAction",
         auto_reconnect as "autoReconnect", connected_at as "connectedAt",
         disconnected_at as "disconnectedAt", last_heartbeat as "lastHeartbeat",
         error_message as "errorMessage", error_count as "errorCount",
-        created_at as "createdAt", updated_at as "updatedAt"
+        config_version as "configVersion", created_at as "createdAt", updated_at as "updatedAt"
     `;
 
-    const result = await pool.query(query, values);
-    return result.rows[0] || null;
+    if (params.config === undefined) {
+      const result = await pool.query(query, values);
+      return result.rows[0] || null;
+    }
+
+    // A config change is versioned in the same transaction, as in save()
+    return this.transaction(async (client) => {
+      const result = await client.query(query, values);
+      return result.rows[0] ? this.recordConfigVersion(client, result.rows[0], params.lastAction) : null;
+    });
   }
 
   /**
@@ -339,7 +393,8 @@ class UserStrategyRepository {
     strategyName: string,
     instrument: string,
     broker: string = 'deribit',
-    environment: DeribitEnvironment = 'testnet'
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
   ): Promise<void> {
     await pool.query(`
       UPDATE user_strategies
@@ -349,7 +404,8 @@ class UserStrategyRepository {
         AND instrument = $3
         AND broker = $4
         AND environment = $5
-    `, [userId, strategyName, instrument, broker, environment]);
+        AND account = $6
+    `, [userId, strategyName, instrument, broker, environment, account]);
   }
 
   /**
@@ -361,7 +417,8 @@ class UserStrategyRepository {
     instrument: string,
     manualDisconnect: boolean = false,
     broker: string = 'deribit',
-    environment: DeribitEnvironment = 'testnet'
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
   ): Promise<void> {
     await pool.query(`
       UPDATE user_strategies
@@ -376,6 +433,7 @@ class UserStrategyRepository {
         AND instrument = $5
         AND broker = $6
         AND environment = $7
+        AND account = $8
     `, [
       !manualDisconnect, // If manual disconnect, set autoReconnect = false
       manualDisconnect ? 'manual_stop' : 'auto_stop',
@@ -384,9 +442,110 @@ class UserStrategyRepository {
       instrument,
       broker,
       environment,
+      account,
     ]);
   }
 
+  // ==========================================================================
+  // Config versions
+  // ==========================================================================
+
+  /**
+   * All config versions of a strategy, newest first
+   */
+  async listConfigVersions(strategyId: string): Promise<StrategyConfigVersion[]> {
+    const result = await pool.query(`
+      SELECT id, strategy_id as "strategyId", version, config, created_by as "createdBy", created_at as "createdAt"
+      FROM user_strategy_config_versions
+      WHERE strategy_id = $1
+      ORDER BY version DESC
+    `, [strategyId]);
+
+    return result.rows;
+  }
+
+  async getConfigVersion(strategyId: string, version: number): Promise<StrategyConfigVersion | null> {
+    const result = await pool.query(`
+      SELECT id, strategy_id as "strategyId", version, config, created_by as "createdBy", created_at as "createdAt"
+      FROM user_strategy_config_versions
+      WHERE strategy_id = $1 AND version = $2
+    `, [strategyId, version]);
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Make an existing version the active config again (rollback); no new version is written
+   */
+  async activateConfigVersion(strategyId: string, version: number, lastAction: string = 'config_rollback'): Promise<UserStrategy | null> {
+    const result = await pool.query(`
+      UPDATE user_strategies s
+      SET 
+        config = v.config,
+        config_version = v.version,
+        last_action = $3,
+        updated_at = NOW()
+      FROM user_strategy_config_versions v
+      WHERE s.id = $1
+        AND v.strategy_id = s.id
+        AND v.version = $2
+      RETURNING 
+        s.id, s.user_id as "userId", s.strategy_name as "strategyName", s.instrument, 
+        s.broker, s.environment, s.account, s.config, s.status, s.last_action as "lastAction",
+        s.auto_reconnect as "autoReconnect", s.connected_at as "connectedAt",
+        s.disconnected_at as "disconnectedAt", s.last_heartbeat as "lastHeartbeat",
+        s.error_message as "errorMessage", s.error_count as "errorCount",
+        s.config_version as "configVersion", s.created_at as "createdAt", s.updated_at as "updatedAt"
+    `, [strategyId, version, lastAction]);
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Snapshot the strategy's config as a new version, unless it equals the active one
+   * Runs inside save()'s transaction, which holds the lock on the strategy row
+   */
+  private async recordConfigVersion(client: PoolClient, strategy: UserStrategy, createdBy?: string): Promise<UserStrategy> {
+    if (strategy.configVersion) {
+      const active = await client.query(`
+        SELECT config FROM user_strategy_config_versions WHERE strategy_id = $1 AND version = $2
+      `, [strategy.id, strategy.configVersion]);
+      if (active.rows[0] && isDeepStrictEqual(active.rows[0].config, strategy.config)) {
+        return strategy;
+      }
+    }
+
+    const inserted = await client.query(`
+      INSERT INTO user_strategy_config_versions (strategy_id, version, config, created_by)
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3
+      FROM user_strategy_config_versions
+      WHERE strategy_id = $1
+      RETURNING version
+    `, [strategy.id, strategy.config, createdBy ?? null]);
+    const version: number = inserted.rows[0].version;
+
+    await client.query(`
+      UPDATE user_strategies SET config_version = $1 WHERE id = $2
+    `, [version, strategy.id]);
+
+    return { ...strategy, configVersion: version };
+  }
+
+  private async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Delete a strategy
    */
@@ -395,7 +554,8 @@ class UserStrategyRepository {
     strategyName: string,
     instrument: string,
     broker: string = 'deribit',
-    environment: DeribitEnvironment = 'testnet'
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
   ): Promise<boolean> {
     const result = await pool.query(`
       DELETE FROM user_strategies
@@ -404,7 +564,8 @@ class UserStrategyRepository {
         AND instrument = $3
         AND broker = $4
         AND environment = $5
-    `, [userId, strategyName, instrument, broker, environment]);
+        AND account = $6
+    `, [userId, strategyName, instrument, broker, environment, account]);
     
     return result.rowCount !== null && result.rowCount > 0;
   }
@@ -8,6 +8,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import type { AnalysisState, PositionMetrics } from './types/analysis';
+import type { DeribitEnvironment } from './types/shared';
 
 // ESM-compatible __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -40,7 +41,7 @@ export interface StrategyState {
 
 export interface ConnectionState {
   broker: string;
-  environment: 'live' | 'testnet';
+  environment: DeribitEnvironment;
   connected: boolean;
   connectedAt?: number;
   manuallyDisconnected?: boolean; // Track if user manually disconnected
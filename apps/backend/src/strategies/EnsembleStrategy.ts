@@ -0,0 +1,389 @@
+/**
+ * EnsembleStrategy.ts
+ *
+ * Purpose: Meta-strategy that combines the analyses of several IStrategy members
+ * Strategy: every member analyzes the same candles; their signals are combined by
+ * weighted vote or confidence averaging. Members can be limited to a market regime
+ * (trending/ranging, from the efficiency ratio of the closes) and can veto: a veto
+ * member signalling the other side blocks the ensemble's signal.
+ *
+ * generateSignal() delegates to the member that contributed most to the winning side,
+ * so SL/TP come from that member's own logic. Per-member contributions are in
+ * AnalysisResult.metadata.members.
+ *
+ * Runs on any harness-based executor (see ThorExecutor's runtime option).
+ */
+
+import {
+  IStrategy,
+  BaseStrategy,
+  StrategyMetadata,
+  StrategyConfig,
+  MarketData,
+  Candle,
+  AnalysisResult,
+  TradeSignal,
+  StrategyError,
+} from './IStrategy';
+import {
+  ParameterSchemaMap,
+  ParameterGroup,
+  parameterDefaults,
+  requiredParameterNames,
+  optionalParameterNames,
+} from './ParameterSchema';
+import { StrategyRegistry, strategyRegistry } from './StrategyRegistry';
+import { RazorStrategy, RAZOR_REQUIRED_CANDLES } from './RazorStrategy';
+import { ThorStrategy, THOR_REQUIRED_CANDLES } from './ThorStrategy';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MarketRegime = 'trending' | 'ranging';
+
+export type EnsembleMode = 'weighted_vote' | 'confidence_average';
+
+export interface EnsembleMember {
+  strategy: IStrategy;
+  weight?: number;            // default 1
+  veto?: boolean;             // a signal for the other side blocks the ensemble's signal
+  regimes?: MarketRegime[];   // votes only in these regimes (default: all)
+  parameters?: Record<string, any>; // on top of the member's defaults
+}
+
+export interface EnsembleDefinition {
+  name: string;
+  description: string;
+  version?: string;
+  tags?: string[];
+  members: EnsembleMember[];
+  requiredCandles?: number;   // candles the slowest member needs
+}
+
+/**
+ * One member's part in an analysis (AnalysisResult.metadata.members)
+ */
+export interface EnsembleContribution {
+  strategy: string;
+  signal: AnalysisResult['signal'];
+  confidence: number;
+  weight: number;             // configured weight
+  active: boolean;            // false when the regime excludes the member
+  veto: boolean;
+  vetoed: boolean;            // this member blocked the ensemble's signal
+  reason: string;
+  analysis: AnalysisResult;
+}
+
+const VOTE: Record<AnalysisResult['signal'], number> = { LONG: 1, SHORT: -1, NEUTRAL: 0 };
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+const ENSEMBLE_PARAMETER_GROUPS: ParameterGroup[] = [
+  { id: 'risk', label: 'Risico', description: 'Positiegrootte op basis van equity' },
+  { id: 'voting', label: 'Stemming', description: 'Hoe de signalen van de leden worden gecombineerd' },
+  { id: 'regime', label: 'Regime', description: 'Trend of range, uit de efficiency ratio van de closes' },
+];
+
+const ENSEMBLE_PARAMETERS: ParameterSchemaMap = {
+  // Risk (sizing happens in the executor)
+  maxRiskPercent: { type: 'number', label: 'Risico per trade', unit: '%', group: 'risk', default: 1, min: 0.1, max: 100, step: 0.1 },
+  fixedRiskUsd: { type: 'number', label: 'Vast risico', unit: 'USD', group: 'risk', min: 0, description: 'Overschrijft het percentage wanneer ingevuld' },
+  accountEquityUsd: { type: 'number', label: 'Account equity', unit: 'USD', group: 'risk', min: 0, description: 'Basis voor de positiegrootte' },
+  maxDailyTrades: { type: 'integer', label: 'Max trades per dag', group: 'risk', default: 40, min: 1, max: 1000 },
+
+  // Voting
+  mode: { type: 'enum', label: 'Combinatie', group: 'voting', default: 'weighted_vote', required: true, options: ['weighted_vote', 'confidence_average'], description: 'Gewogen stemming of gemiddelde confidence' },
+  voteThreshold: { type: 'number', label: 'Stemdrempel', group: 'voting', default: 0.5, min: 0.01, max: 1, step: 0.05, description: 'Aandeel van het actieve gewicht dat een kant moet kiezen (gewogen stemming)' },
+  minConfidence: { type: 'number', label: 'Min confidence', unit: '%', group: 'voting', default: 50, min: 0, max: 100 },
+
+  // Regime
+  regimeLookback: { type: 'integer', label: 'Regime lookback', unit: 'candles', group: 'regime', default: 20, min: 5, max: 200 },
+  trendThreshold: { type: 'number', label: 'Trend drempel', group: 'regime', default: 0.35, min: 0.05, max: 1, step: 0.05, description: 'Efficiency ratio vanaf waar de markt trendt' },
+};
+
+// ============================================================================
+// Strategy Implementation
+// ============================================================================
+
+export class EnsembleStrategy extends BaseStrategy implements IStrategy {
+  readonly metadata: StrategyMetadata;
+  readonly requiredCandles: number;
+  private readonly members: EnsembleMember[];
+
+  constructor(definition: EnsembleDefinition) {
+    super();
+    if (definition.members.length === 0) {
+      throw new StrategyError(`Ensemble ${definition.name} needs at least one member`);
+    }
+    this.members = definition.members;
+    this.requiredCandles = definition.requiredCandles ?? 0;
+    this.metadata = {
+      name: definition.name,
+      version: definition.version ?? '1.0.0',
+      description: definition.description,
+      author: 'Tradebaas',
+      tags: ['ensemble', ...(definition.tags ?? [])],
+      defaultConfig: {
+        instrument: 'BTC_USDC-PERPETUAL',
+        timeframe: '1m',
+        riskPercent: 1,
+        parameters: parameterDefaults(ENSEMBLE_PARAMETERS),
+      },
+      requiredParameters: requiredParameterNames(ENSEMBLE_PARAMETERS),
+      optionalParameters: optionalParameterNames(ENSEMBLE_PARAMETERS),
+      parameterSchema: ENSEMBLE_PARAMETERS,
+      parameterGroups: ENSEMBLE_PARAMETER_GROUPS,
+    };
+  }
+
+  /**
+   * Ensemble over strategies registered by name
+   * Registered instances are shared: use separate instances when several ensembles
+   * configure the same member differently.
+   */
+  static fromRegistry(
+    definition: Omit<EnsembleDefinition, 'members'> & { members: Array<Omit<EnsembleMember, 'strategy'> & { strategy: string }> },
+    registry: StrategyRegistry = strategyRegistry
+  ): EnsembleStrategy {
+    return new EnsembleStrategy({
+      ...definition,
+      members: definition.members.map(member => ({ ...member, strategy: registry.get(member.strategy) })),
+    });
+  }
+
+  memberNames(): string[] {
+    return this.members.map(m => m.strategy.metadata.name);
+  }
+
+  validateConfig(config: StrategyConfig): void {
+    super.validateConfig(config);
+    for (const member of this.members) {
+      member.strategy.validateConfig(this.memberConfig(member, config));
+    }
+  }
+
+  async initialize(config: StrategyConfig): Promise<void> {
+    await super.initialize(config);
+    for (const member of this.members) {
+      await member.strategy.initialize(this.memberConfig(member, config));
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    for (const member of this.members) {
+      await member.strategy.cleanup();
+    }
+    await super.cleanup();
+  }
+
+  async analyze(marketData: MarketData, candles: Candle[]): Promise<AnalysisResult> {
+    this.assertInitialized();
+
+    const params = this.config.parameters;
+    const efficiency = this.efficiencyRatio(candles, params.regimeLookback);
+    const regime: MarketRegime | null = efficiency === null ? null : efficiency >= params.trendThreshold ? 'trending' : 'ranging';
+
+    const contributions: EnsembleContribution[] = [];
+    for (const member of this.members) {
+      const analysis = await member.strategy.analyze(marketData, candles);
+      contributions.push({
+        strategy: member.strategy.metadata.name,
+        signal: analysis.signal,
+        confidence: analysis.confidence,
+        weight: member.weight ?? 1,
+        active: regime === null || !member.regimes || member.regimes.includes(regime),
+        veto: member.veto ?? false,
+        vetoed: false,
+        reason: analysis.reason,
+        analysis,
+      });
+    }
+
+    const indicators: Record<string, number> = {};
+    if (efficiency !== null) {
+      indicators.efficiencyRatio = efficiency;
+    }
+    for (const c of contributions) {
+      for (const [key, value] of Object.entries(c.analysis.indicators)) {
+        indicators[`${c.strategy}.${key}`] = value;
+      }
+    }
+
+    const { signal, confidence, summary } = this.combine(contributions);
+    indicators.longVote = summary.long;
+    indicators.shortVote = summary.short;
+
+    let result: AnalysisResult['signal'] = signal;
+    let reason = signal === 'NEUTRAL' ? summary.reason : `${params.mode === 'confidence_average' ? 'Gemiddelde' : 'Stemming'} ${signal} (${confidence.toFixed(0)}%)`;
+    if (signal !== 'NEUTRAL') {
+      const vetoes = contributions.filter(c => c.veto && VOTE[c.signal] === -VOTE[signal]);
+      if (vetoes.length > 0) {
+        vetoes.forEach(c => { c.vetoed = true; });
+        result = 'NEUTRAL';
+        reason = `${signal} geblokkeerd door veto van ${vetoes.map(c => c.strategy).join(', ')}`;
+      } else if (confidence < params.minConfidence) {
+        result = 'NEUTRAL';
+        reason = `${signal} confidence ${confidence.toFixed(0)}% onder ${params.minConfidence}%`;
+      }
+    }
+
+    return {
+      signal: result,
+      confidence: result === 'NEUTRAL' ? 0 : confidence,
+      reason,
+      indicators,
+      metadata: {
+        strength: result === 'NEUTRAL' ? 0 : confidence,
+        reasons: [
+          reason,
+          ...(regime ? [`Regime: ${regime} (ER ${efficiency!.toFixed(2)})`] : []),
+          ...contributions.map(c => `${c.strategy}${c.active ? '' : ' (inactief)'}: ${c.signal} ${c.confidence.toFixed(0)}%`),
+        ],
+        mode: params.mode,
+        regime,
+        members: contributions,
+      },
+    };
+  }
+
+  /**
+   * The signal of the member that contributed most to the winning side
+   */
+  async generateSignal(analysis: AnalysisResult, marketData: MarketData): Promise<TradeSignal> {
+    this.assertInitialized();
+    if (analysis.signal === 'NEUTRAL') {
+      throw new StrategyError('Cannot generate signal from NEUTRAL analysis');
+    }
+
+    const contributions: EnsembleContribution[] = analysis.metadata?.members ?? [];
+    const lead = contributions
+      .filter(c => c.active && c.signal === analysis.signal)
+      .sort((a, b) => b.weight * b.confidence - a.weight * a.confidence)[0];
+    const member = lead && this.members.find(m => m.strategy.metadata.name === lead.strategy);
+    if (!lead || !member) {
+      throw new StrategyError(`${this.metadata.name}: no member signalled ${analysis.signal}`);
+    }
+
+    const signal = await member.strategy.generateSignal(lead.analysis, marketData);
+    return {
+      ...signal,
+      confidence: analysis.confidence,
+      reason: `${analysis.reason}; ${lead.strategy}: ${signal.reason}`,
+      metadata: { ...signal.metadata, lead: lead.strategy, regime: analysis.metadata?.regime },
+    };
+  }
+
+  /**
+   * SL/TP outside generateSignal() come from the first member
+   */
+  calculateStopLoss(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    return this.members[0].strategy.calculateStopLoss(entryPrice, side, marketData);
+  }
+
+  calculateTakeProfit(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    return this.members[0].strategy.calculateTakeProfit(entryPrice, side, marketData);
+  }
+
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  /**
+   * Member config: its defaults, the ensemble's overrides, then the ensemble config's
+   * values for parameters the member declares
+   */
+  private memberConfig(member: EnsembleMember, config: StrategyConfig): StrategyConfig {
+    const { metadata } = member.strategy;
+    const shared: Record<string, any> = {};
+    for (const name of Object.keys(metadata.parameterSchema ?? {})) {
+      if (config.parameters[name] !== undefined) {
+        shared[name] = config.parameters[name];
+      }
+    }
+    return {
+      instrument: config.instrument,
+      timeframe: metadata.defaultConfig.timeframe ?? config.timeframe,
+      riskPercent: config.riskPercent,
+      parameters: { ...metadata.defaultConfig.parameters, ...member.parameters, ...shared },
+    };
+  }
+
+  private combine(contributions: EnsembleContribution[]): {
+    signal: AnalysisResult['signal'];
+    confidence: number;
+    summary: { long: number; short: number; reason: string };
+  } {
+    const params = this.config.parameters;
+    const active = contributions.filter(c => c.active && c.weight > 0);
+    const total = active.reduce((sum, c) => sum + c.weight, 0);
+    if (total === 0) {
+      return { signal: 'NEUTRAL', confidence: 0, summary: { long: 0, short: 0, reason: 'Geen actieve leden in dit regime' } };
+    }
+
+    if (params.mode === 'confidence_average') {
+      // Signed confidence, NEUTRAL members count as 0
+      const net = active.reduce((sum, c) => sum + c.weight * c.confidence * VOTE[c.signal], 0) / total;
+      const summary = { long: Math.max(net, 0), short: Math.max(-net, 0), reason: `Gemiddelde confidence ${net.toFixed(0)}` };
+      if (net === 0) {
+        return { signal: 'NEUTRAL', confidence: 0, summary };
+      }
+      return { signal: net > 0 ? 'LONG' : 'SHORT', confidence: Math.abs(net), summary };
+    }
+
+    const share = (side: AnalysisResult['signal']) =>
+      active.filter(c => c.signal === side).reduce((sum, c) => sum + c.weight, 0) / total;
+    const long = share('LONG');
+    const short = share('SHORT');
+    const summary = { long, short, reason: `Stemming long ${(long * 100).toFixed(0)}% / short ${(short * 100).toFixed(0)}%` };
+    const side = long > short ? 'LONG' : short > long ? 'SHORT' : 'NEUTRAL';
+    if (side === 'NEUTRAL' || Math.max(long, short) < params.voteThreshold) {
+      return { signal: 'NEUTRAL', confidence: 0, summary };
+    }
+
+    // Weighted mean confidence of the winning voters
+    const winners = active.filter(c => c.signal === side);
+    const weight = winners.reduce((sum, c) => sum + c.weight, 0);
+    const confidence = winners.reduce((sum, c) => sum + c.weight * c.confidence, 0) / weight;
+    return { signal: side, confidence, summary };
+  }
+
+  /**
+   * |net move| / path length over the lookback: near 1 trends, near 0 chops
+   */
+  private efficiencyRatio(candles: Candle[], lookback: number): number | null {
+    if (candles.length <= lookback) {
+      return null;
+    }
+    const closes = candles.slice(-(lookback + 1)).map(c => c.close);
+    let path = 0;
+    for (let i = 1; i < closes.length; i++) {
+      path += Math.abs(closes[i] - closes[i - 1]);
+    }
+    return path > 0 ? Math.abs(closes[closes.length - 1] - closes[0]) / path : 0;
+  }
+}
+
+// ============================================================================
+// Bundled Ensembles
+// ============================================================================
+
+/**
+ * Razor trades trends, Thor trades ranges; Razor vetoes Thor fading a move it signals
+ * New member instances on every call, one ensemble per executor.
+ */
+export function createRegimeEnsemble(): EnsembleStrategy {
+  return new EnsembleStrategy({
+    name: 'Ensemble',
+    description: 'Regime-aware ensemble: Razor in trending markets, Thor in ranging markets, Razor can veto',
+    tags: ['regime', 'scalping', 'mean-reversion'],
+    members: [
+      { strategy: new RazorStrategy(), regimes: ['trending'], veto: true },
+      { strategy: new ThorStrategy(), regimes: ['ranging'] },
+    ],
+    requiredCandles: Math.max(RAZOR_REQUIRED_CANDLES, THOR_REQUIRED_CANDLES),
+  });
+}
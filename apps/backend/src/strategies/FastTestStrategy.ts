@@ -0,0 +1,116 @@
+/**
+ * FastTestStrategy.ts
+ *
+ * Purpose: Order-flow test strategy (formerly run in the browser) as an IStrategy implementation
+ * Strategy: no market analysis - a long with fixed-percent SL/TP on every interval while
+ * no position is open. Meant for testnet checks of sizing, brackets and trade history.
+ *
+ * The interval is the executor's candle size (see ThorRuntime.candleMs): ThorExecutor
+ * only enters on candle close and skips while a position is open.
+ */
+
+import {
+  IStrategy,
+  BaseStrategy,
+  StrategyMetadata,
+  MarketData,
+  Candle,
+  AnalysisResult,
+  TradeSignal,
+} from './IStrategy';
+import {
+  ParameterSchemaMap,
+  ParameterGroup,
+  parameterDefaults,
+  requiredParameterNames,
+  optionalParameterNames,
+} from './ParameterSchema';
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+const FAST_TEST_PARAMETER_GROUPS: ParameterGroup[] = [
+  { id: 'risk', label: 'Risico', description: 'Positiegrootte op basis van equity' },
+  { id: 'orders', label: 'Orders', description: 'Interval en vaste SL/TP' },
+];
+
+const FAST_TEST_PARAMETERS: ParameterSchemaMap = {
+  // Risk (sizing happens in the executor)
+  maxRiskPercent: { type: 'number', label: 'Risico per trade', unit: '%', group: 'risk', default: 0.5, min: 0.1, max: 100, step: 0.1 },
+  fixedRiskUsd: { type: 'number', label: 'Vast risico', unit: 'USD', group: 'risk', min: 0, description: 'Overschrijft het percentage wanneer ingevuld' },
+  accountEquityUsd: { type: 'number', label: 'Account equity', unit: 'USD', group: 'risk', min: 0, description: 'Basis voor de positiegrootte' },
+  maxDailyTrades: { type: 'integer', label: 'Max trades per dag', group: 'risk', default: 1000, min: 1, max: 10000 },
+
+  // Orders
+  orderIntervalSeconds: { type: 'integer', label: 'Order interval', unit: 's', group: 'orders', default: 60, required: true, min: 5, max: 3600 },
+  takeProfitPercent: { type: 'number', label: 'Take profit', unit: '%', group: 'orders', default: 0.3, required: true, min: 0.01, max: 10, step: 0.01 },
+  stopLossPercent: { type: 'number', label: 'Stop loss', unit: '%', group: 'orders', default: 0.3, required: true, min: 0.01, max: 10, step: 0.01 },
+};
+
+// ============================================================================
+// Strategy Implementation
+// ============================================================================
+
+export class FastTestStrategy extends BaseStrategy implements IStrategy {
+  readonly metadata: StrategyMetadata = {
+    name: 'FastTest',
+    version: '2.0.0',
+    description: 'Test strategy: a long with fixed-percent SL/TP every interval while flat',
+    author: 'Tradebaas',
+    tags: ['test'],
+    defaultConfig: {
+      instrument: 'BTC_USDC-PERPETUAL',
+      timeframe: '1m',
+      riskPercent: 0.5,
+      parameters: parameterDefaults(FAST_TEST_PARAMETERS),
+    },
+    requiredParameters: requiredParameterNames(FAST_TEST_PARAMETERS),
+    optionalParameters: optionalParameterNames(FAST_TEST_PARAMETERS),
+    parameterSchema: FAST_TEST_PARAMETERS,
+    parameterGroups: FAST_TEST_PARAMETER_GROUPS,
+  };
+
+  async analyze(marketData: MarketData, candles: Candle[]): Promise<AnalysisResult> {
+    this.assertInitialized();
+
+    const reason = 'Geplande testorder';
+    return {
+      signal: 'LONG',
+      confidence: 100,
+      reason,
+      indicators: { currentPrice: marketData.price },
+      metadata: { strength: 100, reasons: [reason] },
+    };
+  }
+
+  async generateSignal(analysis: AnalysisResult, marketData: MarketData): Promise<TradeSignal> {
+    this.assertInitialized();
+
+    const entryPrice = marketData.price;
+    const stopLossPrice = this.calculateStopLoss(entryPrice, 'buy', marketData);
+    const takeProfitPrice = this.calculateTakeProfit(entryPrice, 'buy', marketData);
+
+    return {
+      side: 'buy',
+      entryPrice,
+      stopLossPrice,
+      takeProfitPrice,
+      confidence: analysis.confidence,
+      reason: analysis.reason,
+      metadata: {
+        riskRewardRatio: this.calculateRiskRewardRatio(entryPrice, stopLossPrice, takeProfitPrice),
+      },
+    };
+  }
+
+  calculateStopLoss(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    const pct = this.config.parameters.stopLossPercent / 100;
+    return side === 'buy' ? entryPrice * (1 - pct) : entryPrice * (1 + pct);
+  }
+
+  calculateTakeProfit(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    const pct = this.config.parameters.takeProfitPercent / 100;
+    return side === 'buy' ? entryPrice * (1 + pct) : entryPrice * (1 - pct);
+  }
+}
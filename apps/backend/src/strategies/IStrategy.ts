@@ -14,9 +14,12 @@
 
 import { PositionSizeInput } from '../risk/PositionSizer';
 import type { Candle } from '../types/shared';
+import type { Order, Trade } from '../brokers/IBroker';
+import { ParameterSchemaMap, ParameterGroup, validateParameters } from './ParameterSchema';
 
 // Re-export for convenience
-export type { Candle };
+export type { Candle, Order };
+export type Fill = Trade;
 
 // ============================================================================
 // Types & Interfaces
@@ -34,6 +37,11 @@ export interface MarketData {
   volume24h?: number;        // 24h volume (optional)
   highPrice24h?: number;     // 24h high (optional)
   lowPrice24h?: number;      // 24h low (optional)
+  markPrice?: number;        // Perpetuals: mark price (liquidation/PnL reference)
+  indexPrice?: number;       // Perpetuals: underlying index price
+  fundingRate?: number;      // Perpetuals: current funding rate per interval (fraction)
+  fundingIntervalHours?: number;
+  nextFundingTime?: number;  // Next funding settlement (ms), if the venue settles discretely
 }
 
 // Candle is now imported from shared types (see top of file)
@@ -67,6 +75,7 @@ export interface TradeSignal {
  */
 export interface StrategyConfig {
   instrument: string;
+  instruments?: string[];    // multi-leg strategies: all legs, instrument is the first
   timeframe: string;         // e.g., "1m", "5m", "1h"
   riskPercent: number;       // Risk per trade (e.g., 5 = 5%)
   parameters: Record<string, any>; // Strategy-specific parameters
@@ -84,8 +93,59 @@ export interface StrategyMetadata {
   defaultConfig: Partial<StrategyConfig>;
   requiredParameters: string[];
   optionalParameters: string[];
+  parameterSchema?: ParameterSchemaMap;   // types, ranges, defaults, units per parameter
+  parameterGroups?: ParameterGroup[];     // display order of schema groups
 }
 
+// ============================================================================
+// Lifecycle Events
+// ============================================================================
+
+/**
+ * Position opened by the runtime for this strategy (entry filled, SL/TP placed)
+ */
+export interface PositionOpenedEvent {
+  instrument: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  entryPrice: number;
+  stopLossPrice: number;
+  takeProfitPrice: number;
+  tradeId?: string;          // trade history id
+  timestamp: number;
+}
+
+/**
+ * Position closed (SL/TP hit, manual close, strategy stopped)
+ */
+export interface PositionClosedEvent {
+  instrument: string;
+  tradeId?: string;
+  exitReason: string;        // e.g. "position_closed", "Stop loss hit", "manual"
+  exitPrice?: number;
+  pnl?: number;
+  timestamp: number;
+}
+
+/**
+ * Where an error reported to onError() came from
+ */
+export interface StrategyErrorContext {
+  source: 'order' | 'execution' | 'hook';
+  instrument: string;
+  order?: Order;             // the rejected order, for source "order"
+  hook?: string;             // the hook that threw, for source "hook"
+}
+
+/**
+ * What a hook asks the runtime to do; strategies never call the broker themselves
+ */
+export type StrategyAction =
+  | { type: 'move_stop'; stopLossPrice: number; reason?: string }
+  | { type: 'close_position'; reason?: string };
+
+export type StrategyHookName = 'onOrderUpdate' | 'onFill' | 'onPositionOpened' | 'onPositionClosed' | 'onError';
+
 // ============================================================================
 // Strategy Interface
 // ============================================================================
@@ -165,6 +225,38 @@ export interface IStrategy {
    * Called when strategy is stopped/unloaded
    */
   cleanup(): Promise<void>;
+
+  // --------------------------------------------------------------------------
+  // Lifecycle hooks (optional)
+  // Dispatched in order by the runtime (StrategyEventDispatcher) from broker
+  // order/trade subscriptions and OrderLifecycleManager events. Returned
+  // actions are executed by the runtime.
+  // --------------------------------------------------------------------------
+
+  /**
+   * Own order changed state (placed, triggered, filled, cancelled, rejected)
+   */
+  onOrderUpdate?(order: Order): Promise<StrategyAction[] | void>;
+
+  /**
+   * Own order (partially) filled; one call per fill
+   */
+  onFill?(fill: Fill): Promise<StrategyAction[] | void>;
+
+  /**
+   * Entry and SL/TP placed for a new position
+   */
+  onPositionOpened?(event: PositionOpenedEvent): Promise<StrategyAction[] | void>;
+
+  /**
+   * Position is gone; called once per trade
+   */
+  onPositionClosed?(event: PositionClosedEvent): Promise<void>;
+
+  /**
+   * Rejected order, failed execution or a hook that threw
+   */
+  onError?(error: Error, context: StrategyErrorContext): Promise<void>;
 }
 
 // ============================================================================
@@ -215,6 +307,14 @@ export abstract class BaseStrategy implements IStrategy {
       }
     }
 
+    // Validate types and ranges against the published schema
+    if (this.metadata.parameterSchema) {
+      const errors = validateParameters(this.metadata.parameterSchema, config.parameters);
+      if (errors.length > 0) {
+        throw new StrategyConfigError(`Invalid ${this.metadata.name} config: ${errors.join('; ')}`);
+      }
+    }
+
     console.log(`[${this.metadata.name}] Config validated successfully`);
   }
 
@@ -0,0 +1,194 @@
+/**
+ * PairsSpreadStrategy.ts
+ *
+ * Purpose: Relative-value trading on two instruments as a MultiLegStrategy
+ * Strategy: z-score of the log spread ln(A) − β·ln(B) over a rolling window. Above
+ * +entryZ the spread is sold (sell A, buy β·B), below −entryZ it is bought; the
+ * position closes when the spread reverts inside ±exitZ, blows out past ±stopZ or
+ * is held longer than maxHoldMinutes.
+ *
+ * β comes from an OLS fit over the window, or is fixed via hedgeRatio. hedgeRatio 1
+ * turns it into a basis trade (e.g. perpetual vs dated future).
+ *
+ * Execution (sync, leg orders, unwinds) lives in MultiLegExecutor.
+ */
+
+import type { StrategyMetadata, StrategyConfig } from './IStrategy';
+import { StrategyConfigError } from './IStrategy';
+import {
+  MultiLegStrategy,
+  LegSnapshot,
+  LegCandles,
+  LegTarget,
+  MultiLegPosition,
+  MultiLegAnalysis,
+} from './multi-leg';
+import {
+  ParameterSchemaMap,
+  ParameterGroup,
+  parameterDefaults,
+  requiredParameterNames,
+  optionalParameterNames,
+} from './ParameterSchema';
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+const PAIRS_PARAMETER_GROUPS: ParameterGroup[] = [
+  { id: 'signal', label: 'Signaal', description: 'Z-score van de log-spread' },
+  { id: 'exit', label: 'Exit' },
+  { id: 'execution', label: 'Uitvoering', description: 'Grootte en synchronisatie van de legs' },
+];
+
+const PAIRS_PARAMETERS: ParameterSchemaMap = {
+  // Signal
+  lookback: { type: 'integer', label: 'Lookback', unit: 'candles', group: 'signal', default: 120, required: true, min: 20, max: 1000 },
+  entryZ: { type: 'number', label: 'Entry z-score', group: 'signal', default: 2, required: true, min: 0.5, max: 10, step: 0.1 },
+  hedgeRatio: { type: 'number', label: 'Vaste hedge ratio', group: 'signal', min: -10, max: 10, step: 0.01, description: 'Leeg = OLS over de lookback; 1 = basis trade' },
+
+  // Exit
+  exitZ: { type: 'number', label: 'Exit z-score', group: 'exit', default: 0.5, required: true, min: 0, max: 10, step: 0.1 },
+  stopZ: { type: 'number', label: 'Stop z-score', group: 'exit', default: 4, required: true, min: 1, max: 20, step: 0.1 },
+  maxHoldMinutes: { type: 'integer', label: 'Max looptijd', unit: 'min', group: 'exit', default: 240, min: 0, max: 10080, description: '0 = geen limiet' },
+
+  // Execution (used by MultiLegExecutor)
+  notionalUsd: { type: 'number', label: 'Notional leg A', unit: 'USD', group: 'execution', default: 1000, required: true, min: 10 },
+  maxSkewMs: { type: 'integer', label: 'Max quote-leeftijd', unit: 'ms', group: 'execution', default: 2000, min: 100, max: 60000 },
+  maxHedgeErrorPct: { type: 'number', label: 'Max hedge afwijking', unit: '%', group: 'execution', default: 10, min: 0.1, max: 50 },
+};
+
+// ============================================================================
+// Strategy Implementation
+// ============================================================================
+
+export class PairsSpreadStrategy extends MultiLegStrategy {
+  readonly metadata: StrategyMetadata = {
+    name: 'Pairs',
+    version: '1.0.0',
+    description: 'Mean reversion of the log spread between two instruments (pairs or basis), entered and exited on its z-score',
+    author: 'Tradebaas',
+    tags: ['relative-value', 'pairs', 'basis', 'multi-leg', 'mean-reversion'],
+    defaultConfig: {
+      instrument: 'BTC_USDC-PERPETUAL',
+      instruments: ['BTC_USDC-PERPETUAL', 'ETH_USDC-PERPETUAL'],
+      timeframe: '1m',
+      riskPercent: 1,
+      parameters: parameterDefaults(PAIRS_PARAMETERS),
+    },
+    requiredParameters: requiredParameterNames(PAIRS_PARAMETERS),
+    optionalParameters: optionalParameterNames(PAIRS_PARAMETERS),
+    parameterSchema: PAIRS_PARAMETERS,
+    parameterGroups: PAIRS_PARAMETER_GROUPS,
+  };
+
+  validateConfig(config: StrategyConfig): void {
+    if (config.instruments && config.instruments.length !== 2) {
+      throw new StrategyConfigError(`Pairs trades exactly 2 instruments, got ${config.instruments.length}`);
+    }
+    super.validateConfig(config);
+    const { entryZ, exitZ, stopZ } = config.parameters;
+    if (!(exitZ < entryZ && entryZ < stopZ)) {
+      throw new StrategyConfigError(`Pairs needs exitZ < entryZ < stopZ (got ${exitZ}, ${entryZ}, ${stopZ})`);
+    }
+  }
+
+  requiredCandles(): number {
+    return this.config.parameters.lookback;
+  }
+
+  async analyzeLegs(snapshot: LegSnapshot, candles: LegCandles, position: MultiLegPosition | null): Promise<MultiLegAnalysis> {
+    this.assertInitialized();
+
+    const params = this.config.parameters;
+    const [a, b] = this.legs();
+    const lookback: number = params.lookback;
+    const closesA = candles[a].slice(-lookback).map(c => Math.log(c.close));
+    const closesB = candles[b].slice(-lookback).map(c => Math.log(c.close));
+    if (closesA.length < lookback) {
+      return this.hold(`Onvoldoende data: ${closesA.length}/${lookback} candles`, {});
+    }
+
+    const beta: number = typeof params.hedgeRatio === 'number' ? params.hedgeRatio : olsSlope(closesB, closesA);
+    const spreads = closesA.map((y, i) => y - beta * closesB[i]);
+    const mean = spreads.reduce((sum, s) => sum + s, 0) / spreads.length;
+    const std = Math.sqrt(spreads.reduce((sum, s) => sum + (s - mean) ** 2, 0) / spreads.length);
+    const spread = Math.log(mid(snapshot, a)) - beta * Math.log(mid(snapshot, b));
+    const indicators: Record<string, number> = { hedgeRatio: beta, spread, spreadMean: mean, spreadStd: std };
+    if (!(std > 0)) {
+      return this.hold('Spread zonder spreiding', indicators);
+    }
+
+    const z = (spread - mean) / std;
+    indicators.zScore = z;
+    const confidence = Math.min(100, Math.round((Math.abs(z) / params.stopZ) * 100));
+
+    if (position) {
+      const sign = position.direction === 'long' ? -1 : 1; // distance towards the entry side
+      const heldMinutes = (Date.now() - position.openedAt) / 60_000;
+      if (sign * z <= params.exitZ) {
+        return { action: 'exit', exitKind: 'target', confidence, reason: `Spread terug naar z=${z.toFixed(2)}`, indicators };
+      }
+      if (sign * z >= params.stopZ) {
+        return { action: 'exit', exitKind: 'stop', confidence, reason: `Spread stop: z=${z.toFixed(2)} voorbij ±${params.stopZ}`, indicators };
+      }
+      if (params.maxHoldMinutes > 0 && heldMinutes >= params.maxHoldMinutes) {
+        return { action: 'exit', exitKind: 'time', confidence, reason: `Max looptijd ${params.maxHoldMinutes} min bereikt`, indicators };
+      }
+      return this.hold(`Positie open, z=${z.toFixed(2)}`, indicators);
+    }
+
+    if (Math.abs(z) >= params.stopZ) {
+      return this.hold(`z=${z.toFixed(2)} voorbij stop, geen entry`, indicators);
+    }
+    if (Math.abs(z) < params.entryZ) {
+      return this.hold(`z=${z.toFixed(2)} binnen ±${params.entryZ}`, indicators);
+    }
+
+    // Short spread: sell A, buy β·B (a negative β flips the B side)
+    const direction = z > 0 ? 'short' : 'long';
+    const sideA = direction === 'short' ? 'sell' : 'buy';
+    const opposite = sideA === 'buy' ? 'sell' : 'buy';
+    const legs: LegTarget[] = [
+      { instrument: a, side: sideA, weight: 1 },
+      { instrument: b, side: beta >= 0 ? opposite : sideA, weight: Math.abs(beta) },
+    ];
+    return {
+      action: 'enter',
+      direction,
+      legs,
+      confidence,
+      reason: `Spread z=${z.toFixed(2)}: ${direction === 'short' ? 'short' : 'long'} ${a} / ${b}`,
+      indicators,
+    };
+  }
+
+  private hold(reason: string, indicators: Record<string, number>): MultiLegAnalysis {
+    return { action: 'hold', confidence: 0, reason, indicators };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function mid(snapshot: LegSnapshot, instrument: string): number {
+  const { bid, ask, price } = snapshot[instrument];
+  return bid > 0 && ask > 0 ? (bid + ask) / 2 : price;
+}
+
+/**
+ * Slope of y on x (least squares)
+ */
+function olsSlope(x: number[], y: number[]): number {
+  const n = x.length;
+  const meanX = x.reduce((s, v) => s + v, 0) / n;
+  const meanY = y.reduce((s, v) => s + v, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (x[i] - meanX) * (y[i] - meanY);
+    varX += (x[i] - meanX) ** 2;
+  }
+  return varX > 0 ? cov / varX : 1;
+}
@@ -0,0 +1,137 @@
+/**
+ * ParameterSchema.ts
+ *
+ * Purpose: Typed description of strategy parameters
+ * Used by: BaseStrategy.validateConfig, /api/v2/strategies/:id, frontend config forms
+ *
+ * Each strategy publishes one ParameterSchema entry per parameter (type, range,
+ * default, unit, description, group). Defaults are never applied implicitly:
+ * callers that accept partial configs use applyParameterDefaults() first.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ParameterType = 'number' | 'integer' | 'boolean' | 'string' | 'enum';
+
+export type ParameterValue = number | boolean | string;
+
+export interface ParameterSchema {
+  type: ParameterType;
+  label: string;
+  description?: string;
+  group?: string;            // ParameterGroup id
+  unit?: string;             // display unit: '%', 'USD', 'bps', 'min', 'candles'...
+  default?: ParameterValue;
+  required?: boolean;        // must be present in the config
+  min?: number;
+  max?: number;
+  step?: number;             // UI increment
+  options?: string[];        // allowed values for 'enum'
+}
+
+export interface ParameterGroup {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+export type ParameterSchemaMap = Record<string, ParameterSchema>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Default value of every parameter that has one
+ */
+export function parameterDefaults(schema: ParameterSchemaMap): Record<string, ParameterValue> {
+  const defaults: Record<string, ParameterValue> = {};
+  for (const [name, param] of Object.entries(schema)) {
+    if (param.default !== undefined) {
+      defaults[name] = param.default;
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Parameters with missing (undefined/null) values filled from the schema defaults
+ */
+export function applyParameterDefaults<T extends Record<string, any>>(
+  schema: ParameterSchemaMap,
+  parameters: T
+): T & Record<string, ParameterValue> {
+  const resolved: Record<string, any> = { ...parameters };
+  for (const [name, value] of Object.entries(parameterDefaults(schema))) {
+    if (resolved[name] === undefined || resolved[name] === null) {
+      resolved[name] = value;
+    }
+  }
+  return resolved as T & Record<string, ParameterValue>;
+}
+
+export function requiredParameterNames(schema: ParameterSchemaMap): string[] {
+  return Object.keys(schema).filter(name => schema[name].required);
+}
+
+export function optionalParameterNames(schema: ParameterSchemaMap): string[] {
+  return Object.keys(schema).filter(name => !schema[name].required);
+}
+
+/**
+ * Check parameter values against the schema
+ * Missing values are only reported for required parameters; unknown parameters are ignored.
+ *
+ * @returns One message per problem (empty when valid)
+ */
+export function validateParameters(schema: ParameterSchemaMap, parameters: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  for (const [name, param] of Object.entries(schema)) {
+    const value = parameters[name];
+    if (value === undefined || value === null) {
+      if (param.required) {
+        errors.push(`${name} is required`);
+      }
+      continue;
+    }
+
+    switch (param.type) {
+      case 'number':
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`${name} must be a number`);
+          continue;
+        }
+        if (param.type === 'integer' && !Number.isInteger(value)) {
+          errors.push(`${name} must be an integer`);
+        }
+        if (param.min !== undefined && value < param.min) {
+          errors.push(`${name} must be >= ${param.min}`);
+        }
+        if (param.max !== undefined && value > param.max) {
+          errors.push(`${name} must be <= ${param.max}`);
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          errors.push(`${name} must be true or false`);
+        }
+        break;
+      case 'string':
+        if (typeof value !== 'string') {
+          errors.push(`${name} must be a string`);
+        }
+        break;
+      case 'enum':
+        if (!param.options?.includes(value)) {
+          errors.push(`${name} must be one of: ${(param.options ?? []).join(', ')}`);
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
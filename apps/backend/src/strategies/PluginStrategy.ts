@@ -0,0 +1,177 @@
+/**
+ * PluginStrategy.ts
+ *
+ * Purpose: IStrategy adapter for a sandboxed strategy plugin
+ * Used by: plugin-loader (hot-loaded strategies from STRATEGY_PLUGINS_DIR)
+ *
+ * Plugin contract (plain JavaScript, CommonJS-style, no require):
+ *
+ *   module.exports = {
+ *     metadata: { name, version, description, author, tags, defaultConfig, parameterSchema?, ... },
+ *     analyze(marketData, candles, config) { return { signal, confidence, reason, indicators } },
+ *     generateSignal(analysis, marketData, config) { ... },  // optional
+ *     initialize(config) { ... },                            // optional, throw to reject a config
+ *     onFill(fill, config) { return [{ type: 'move_stop', stopLossPrice }] },  // optional hooks,
+ *     onOrderUpdate, onPositionOpened, onPositionClosed,      // see IStrategy
+ *     onError(error, context, config) { ... },               // error is { name, message }
+ *   };
+ *
+ * Functions must be synchronous and stateless: the sandbox may be respawned between
+ * calls, so the config is passed on every call. Without generateSignal, SL/TP come from
+ * the stopLossPercent/takeProfitPercent parameters.
+ */
+
+import {
+  IStrategy,
+  BaseStrategy,
+  StrategyConfig,
+  StrategyMetadata,
+  StrategyHookName,
+  MarketData,
+  Candle,
+  AnalysisResult,
+  TradeSignal,
+} from './IStrategy';
+import { PluginSandbox, PluginError } from './plugin-sandbox';
+import { ParameterSchemaMap, requiredParameterNames, optionalParameterNames } from './ParameterSchema';
+
+const DEFAULT_STOP_LOSS_PERCENT = 0.5;
+const DEFAULT_TAKE_PROFIT_PERCENT = 1;
+const LIFECYCLE_HOOKS = ['onOrderUpdate', 'onFill', 'onPositionOpened', 'onPositionClosed'] as const satisfies StrategyHookName[];
+
+// ============================================================================
+// Strategy Implementation
+// ============================================================================
+
+export class PluginStrategy extends BaseStrategy implements IStrategy {
+  readonly metadata: StrategyMetadata;
+
+  // Lifecycle hooks exist only when the plugin exports them
+  onOrderUpdate?: IStrategy['onOrderUpdate'];
+  onFill?: IStrategy['onFill'];
+  onPositionOpened?: IStrategy['onPositionOpened'];
+  onPositionClosed?: IStrategy['onPositionClosed'];
+  onError?: IStrategy['onError'];
+
+  private constructor(private readonly sandbox: PluginSandbox, metadata: StrategyMetadata) {
+    super();
+    this.metadata = metadata;
+    for (const hook of LIFECYCLE_HOOKS) {
+      if (sandbox.hasMethod(hook)) {
+        this[hook] = (...args: any[]) => this.sandbox.call(hook, ...args, this.config);
+      }
+    }
+    if (sandbox.hasMethod('onError')) {
+      // Errors do not survive JSON cloning
+      this.onError = (error, context) =>
+        this.sandbox.call('onError', { name: error.name, message: error.message }, context, this.config);
+    }
+  }
+
+  /**
+   * Load a plugin module into its sandbox
+   * @throws PluginError if the module is invalid
+   */
+  static async load(sandbox: PluginSandbox): Promise<PluginStrategy> {
+    const manifest = await sandbox.load();
+    return new PluginStrategy(sandbox, PluginStrategy.normalizeMetadata(manifest.metadata, sandbox.filename));
+  }
+
+  get filename(): string {
+    return this.sandbox.filename;
+  }
+
+  async initialize(config: StrategyConfig): Promise<void> {
+    await super.initialize(config);
+    if (this.sandbox.hasMethod('initialize')) {
+      try {
+        await this.sandbox.call('initialize', config);
+      } catch (error) {
+        this.initialized = false;
+        throw error;
+      }
+    }
+  }
+
+  async analyze(marketData: MarketData, candles: Candle[]): Promise<AnalysisResult> {
+    this.assertInitialized();
+
+    const result = await this.sandbox.call<AnalysisResult>('analyze', marketData, candles, this.config);
+    if (!result || !['LONG', 'SHORT', 'NEUTRAL'].includes(result.signal)) {
+      throw new PluginError(`Plugin ${this.filename} analyze() returned no valid signal`);
+    }
+    return {
+      ...result,
+      confidence: Number(result.confidence) || 0,
+      reason: String(result.reason ?? ''),
+      indicators: result.indicators ?? {},
+    };
+  }
+
+  async generateSignal(analysis: AnalysisResult, marketData: MarketData): Promise<TradeSignal> {
+    this.assertInitialized();
+
+    if (this.sandbox.hasMethod('generateSignal')) {
+      return this.sandbox.call<TradeSignal>('generateSignal', analysis, marketData, this.config);
+    }
+
+    const side = analysis.signal === 'LONG' ? 'buy' : 'sell';
+    const entryPrice = marketData.price;
+    const stopLossPrice = this.calculateStopLoss(entryPrice, side, marketData);
+    const takeProfitPrice = this.calculateTakeProfit(entryPrice, side, marketData);
+
+    return {
+      side,
+      entryPrice,
+      stopLossPrice,
+      takeProfitPrice,
+      confidence: analysis.confidence,
+      reason: analysis.reason,
+      metadata: {
+        indicators: analysis.indicators,
+        riskRewardRatio: this.calculateRiskRewardRatio(entryPrice, stopLossPrice, takeProfitPrice),
+      },
+    };
+  }
+
+  calculateStopLoss(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    const pct = (this.config.parameters.stopLossPercent ?? DEFAULT_STOP_LOSS_PERCENT) / 100;
+    return side === 'buy' ? entryPrice * (1 - pct) : entryPrice * (1 + pct);
+  }
+
+  calculateTakeProfit(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    const pct = (this.config.parameters.takeProfitPercent ?? DEFAULT_TAKE_PROFIT_PERCENT) / 100;
+    return side === 'buy' ? entryPrice * (1 + pct) : entryPrice * (1 - pct);
+  }
+
+  /**
+   * Unregistering a plugin also stops its worker
+   */
+  async cleanup(): Promise<void> {
+    await this.sandbox.terminate();
+    await super.cleanup();
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Fill optional metadata fields so the registry and API can rely on them
+   */
+  private static normalizeMetadata(raw: any, filename: string): StrategyMetadata {
+    const tags: string[] = Array.isArray(raw.tags) ? raw.tags.map(String) : [];
+    const schema: ParameterSchemaMap = raw.parameterSchema ?? {};
+    return {
+      ...raw,
+      name: raw.name,
+      version: String(raw.version ?? '0.0.0'),
+      description: String(raw.description ?? `Strategy plugin ${filename}`),
+      author: String(raw.author ?? 'unknown'),
+      tags: tags.includes('plugin') ? tags : [...tags, 'plugin'],
+      defaultConfig: raw.defaultConfig ?? {},
+      requiredParameters: Array.isArray(raw.requiredParameters) ? raw.requiredParameters : requiredParameterNames(schema),
+      optionalParameters: Array.isArray(raw.optionalParameters) ? raw.optionalParameters : optionalParameterNames(schema),
+    };
+  }
+}
@@ -0,0 +1,530 @@
+/**
+ * RazorStrategy.ts
+ *
+ * Purpose: Razor signal logic as an IStrategy implementation
+ * Strategy: 1m scalping - RSI extremes confirmed by EMA trend, momentum, ATR band,
+ * pullback and range compression, with an optional 5m/15m trend alignment boost
+ *
+ * Execution (ticks, cooldown, brackets, break-even) lives in RazorExecutor.
+ */
+
+import {
+  IStrategy,
+  BaseStrategy,
+  StrategyMetadata,
+  MarketData,
+  Candle,
+  AnalysisResult,
+  TradeSignal,
+} from './IStrategy';
+import {
+  ParameterSchemaMap,
+  ParameterGroup,
+  parameterDefaults,
+  requiredParameterNames,
+  optionalParameterNames,
+} from './ParameterSchema';
+
+/** Candles needed before the score is trusted (indicators start at MIN_CANDLES) */
+export const RAZOR_REQUIRED_CANDLES = 15;
+const MIN_CANDLES = 5;
+
+/** Score a side needs before analyze() reports it */
+export const RAZOR_ENTRY_THRESHOLD = 58;
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+const RAZOR_PARAMETER_GROUPS: ParameterGroup[] = [
+  { id: 'risk', label: 'Risico', description: 'Positiegrootte, SL/TP en handelslimieten' },
+  { id: 'management', label: 'Positiebeheer', description: 'Break-even na de entry' },
+  { id: 'entry', label: 'Entry criteria', description: 'Volatiliteit en RSI-niveaus op de 1m candles' },
+  { id: 'trend', label: 'Trendfilter', description: '5m/15m EMA trend uit geaggregeerde 1m candles' },
+  { id: 'confluence', label: 'Confluence', description: 'Extra filters bovenop de basis score' },
+];
+
+const RAZOR_PARAMETERS: ParameterSchemaMap = {
+  // Risk
+  tradeSize: { type: 'number', label: 'Trade grootte', unit: 'USD', group: 'risk', default: 100, min: 1, step: 10 },
+  stopLossPercent: { type: 'number', label: 'Stop loss', unit: '%', group: 'risk', default: 0.5, required: true, min: 0.05, max: 10, step: 0.05 },
+  takeProfitPercent: { type: 'number', label: 'Take profit', unit: '%', group: 'risk', default: 0.65, required: true, min: 0.05, max: 20, step: 0.05 },
+  maxConcurrentTrades: { type: 'integer', label: 'Max gelijktijdige trades', group: 'risk', default: 1, min: 1, max: 10 },
+  maxDailyTrades: { type: 'integer', label: 'Max trades per dag', group: 'risk', default: 150, min: 1, max: 1000 },
+  cooldownMinutes: { type: 'number', label: 'Cooldown', unit: 'min', group: 'risk', default: 1, min: 0, max: 240, description: 'Wachttijd na een gesloten trade' },
+  adaptiveRiskEnabled: { type: 'boolean', label: 'Adaptieve SL/TP', group: 'risk', default: false, description: 'Krappere SL bij lage ATR, ruimere TP bij hoge ATR' },
+  atrPeriod: { type: 'integer', label: 'ATR periode', unit: 'candles', group: 'risk', default: 14, min: 2, max: 100 },
+
+  // Dynamic management
+  breakEvenEnabled: { type: 'boolean', label: 'Break-even', group: 'management', default: true, description: 'SL naar entry zodra de prijs richting TP beweegt' },
+  breakEvenTriggerToTP: { type: 'number', label: 'Break-even trigger', group: 'management', default: 0.5, min: 0.05, max: 0.95, step: 0.05, description: 'Fractie van de afstand naar TP (0.5 = halverwege)' },
+  breakEvenOffsetTicks: { type: 'integer', label: 'Break-even offset', unit: 'ticks', group: 'management', default: 1, min: 0, max: 50 },
+
+  // Entry criteria
+  minVolatility: { type: 'number', label: 'Min volatiliteit', unit: '%', group: 'entry', default: 0.01, required: true, min: 0, step: 0.01 },
+  maxVolatility: { type: 'number', label: 'Max volatiliteit', unit: '%', group: 'entry', default: 5, required: true, min: 0, step: 0.1 },
+  rsiOversold: { type: 'number', label: 'RSI oversold', group: 'entry', default: 40, required: true, min: 0, max: 100 },
+  rsiOverbought: { type: 'number', label: 'RSI overbought', group: 'entry', default: 60, required: true, min: 0, max: 100 },
+
+  // Multi-timeframe trend filter
+  useTrendFilter: { type: 'boolean', label: 'Trendfilter', group: 'trend', default: true, description: 'Tegen-trend trades scoren lager' },
+  ema5mFastPeriod: { type: 'integer', label: '5m EMA snel', unit: 'candles', group: 'trend', default: 8, min: 2, max: 100 },
+  ema5mSlowPeriod: { type: 'integer', label: '5m EMA traag', unit: 'candles', group: 'trend', default: 21, min: 2, max: 100 },
+  ema15mFastPeriod: { type: 'integer', label: '15m EMA snel', unit: 'candles', group: 'trend', default: 8, min: 2, max: 100 },
+  ema15mSlowPeriod: { type: 'integer', label: '15m EMA traag', unit: 'candles', group: 'trend', default: 21, min: 2, max: 100 },
+  useMultiTimeframe: { type: 'boolean', label: 'MTF TP boost', group: 'trend', default: false, description: 'Ruimere TP bij sterke 5m/15m alignment (met adaptieve SL/TP)' },
+
+  // Confluence
+  advancedFiltersEnabled: { type: 'boolean', label: 'Geavanceerde filters', group: 'confluence', default: false, description: 'Straf entries zonder bevestigde pullback' },
+  pullbackPercent: { type: 'number', label: 'Pullback', group: 'confluence', default: 0.15, min: 0.01, max: 1, step: 0.01, description: 'Retrace als fractie van de impuls (0.15 = 15%)' },
+};
+
+interface RazorIndicators {
+  emaFast: number;
+  emaSlow: number;
+  rsi: number;
+  volatility: number;
+  atr: number | null;
+  emaFast5m: number | null;
+  emaSlow5m: number | null;
+  emaFast15m: number | null;
+  emaSlow15m: number | null;
+  trendScore: number | null; // -3..+3
+  pullbackReady: boolean | null;
+}
+
+// ============================================================================
+// Strategy Implementation
+// ============================================================================
+
+export class RazorStrategy extends BaseStrategy implements IStrategy {
+  readonly metadata: StrategyMetadata = {
+    name: 'Razor',
+    version: '2.0.0',
+    description: 'High-frequency 1m scalping on RSI extremes with EMA trend, momentum and volatility confluence',
+    author: 'Tradebaas',
+    tags: ['scalping', 'high-frequency', 'mean-reversion', 'multi-timeframe'],
+    defaultConfig: {
+      instrument: 'BTC_USDC-PERPETUAL',
+      timeframe: '1m',
+      riskPercent: 0.5,
+      parameters: parameterDefaults(RAZOR_PARAMETERS),
+    },
+    requiredParameters: requiredParameterNames(RAZOR_PARAMETERS),
+    optionalParameters: optionalParameterNames(RAZOR_PARAMETERS),
+    parameterSchema: RAZOR_PARAMETERS,
+    parameterGroups: RAZOR_PARAMETER_GROUPS,
+  };
+
+  async analyze(marketData: MarketData, candles: Candle[]): Promise<AnalysisResult> {
+    this.assertInitialized();
+
+    if (candles.length < MIN_CANDLES) {
+      return {
+        signal: 'NEUTRAL',
+        confidence: 0,
+        reason: `Insufficient candles: ${candles.length}/${RAZOR_REQUIRED_CANDLES} required`,
+        indicators: {},
+        metadata: { strength: 0, reasons: ['Onvoldoende data'] },
+      };
+    }
+
+    const indicators = this.calculateIndicators(candles);
+    const numeric: Record<string, number> = {};
+    for (const [key, value] of Object.entries(indicators)) {
+      if (typeof value === 'number') numeric[key] = value;
+    }
+    numeric.currentPrice = marketData.price;
+
+    if (candles.length < RAZOR_REQUIRED_CANDLES) {
+      return {
+        signal: 'NEUTRAL',
+        confidence: 0,
+        reason: `Insufficient candles: ${candles.length}/${RAZOR_REQUIRED_CANDLES} required`,
+        indicators: numeric,
+        metadata: { strength: 0, reasons: ['Onvoldoende data'], pullbackReady: indicators.pullbackReady },
+      };
+    }
+
+    const entry = this.scoreEntry(indicators, candles);
+    return {
+      signal: entry.type === 'long' ? 'LONG' : entry.type === 'short' ? 'SHORT' : 'NEUTRAL',
+      confidence: entry.confidence,
+      reason: entry.reasons.join('; '),
+      indicators: numeric,
+      metadata: {
+        strength: entry.strength,
+        reasons: entry.reasons,
+        pullbackReady: indicators.pullbackReady,
+        candlesUsed: candles.length,
+      },
+    };
+  }
+
+  async generateSignal(analysis: AnalysisResult, marketData: MarketData): Promise<TradeSignal> {
+    this.assertInitialized();
+
+    const side = analysis.signal === 'LONG' ? 'buy' : 'sell';
+    const entryPrice = marketData.price;
+    const { slPercent, tpPercent } = this.adaptiveRisk(analysis, entryPrice);
+    const stopLossPrice = side === 'buy' ? entryPrice * (1 - slPercent) : entryPrice * (1 + slPercent);
+    const takeProfitPrice = side === 'buy' ? entryPrice * (1 + tpPercent) : entryPrice * (1 - tpPercent);
+
+    return {
+      side,
+      entryPrice,
+      stopLossPrice,
+      takeProfitPrice,
+      confidence: analysis.confidence,
+      reason: analysis.reason,
+      metadata: {
+        strength: analysis.metadata?.strength,
+        indicators: analysis.indicators,
+        riskRewardRatio: this.calculateRiskRewardRatio(entryPrice, stopLossPrice, takeProfitPrice),
+      },
+    };
+  }
+
+  calculateStopLoss(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    const slPercent = this.config.parameters.stopLossPercent / 100;
+    return side === 'buy' ? entryPrice * (1 - slPercent) : entryPrice * (1 + slPercent);
+  }
+
+  calculateTakeProfit(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    const tpPercent = this.config.parameters.takeProfitPercent / 100;
+    return side === 'buy' ? entryPrice * (1 + tpPercent) : entryPrice * (1 - tpPercent);
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * SL/TP fractions, optionally scaled by ATR: tighter SL in chop, wider TP when volatile
+   */
+  private adaptiveRisk(analysis: AnalysisResult, price: number): { slPercent: number; tpPercent: number } {
+    const params = this.config.parameters;
+    let slPercent = params.stopLossPercent / 100;
+    let tpPercent = params.takeProfitPercent / 100;
+    const { atr, volatility, trendScore } = analysis.indicators;
+
+    if (params.adaptiveRiskEnabled && atr && volatility) {
+      const atrPct = (atr / price) * 100;
+      if (atrPct < 0.05) {
+        slPercent = slPercent * 0.85;
+      } else if (atrPct > 0.4) {
+        tpPercent = tpPercent * 1.15;
+      }
+      // Strong multi-timeframe alignment: modest TP boost
+      if (params.useMultiTimeframe && typeof trendScore === 'number' && Math.abs(trendScore) >= 2) {
+        tpPercent *= 1.05;
+      }
+    }
+
+    return { slPercent, tpPercent };
+  }
+
+  /**
+   * 1m indicators plus 5m/15m EMAs aggregated from the same candles
+   */
+  private calculateIndicators(candles: Candle[]): RazorIndicators {
+    const params = this.config.parameters;
+    const closes = candles.map(c => c.close);
+    const highs = candles.map(c => c.high);
+    const lows = candles.map(c => c.low);
+
+    const indicators: RazorIndicators = {
+      emaFast: this.calculateEMA(closes, 8),
+      emaSlow: this.calculateEMA(closes, 21),
+      rsi: this.calculateRSI(closes, 14),
+      volatility: this.calculateVolatility(closes.slice(-20)),
+      atr: this.calculateATR(highs, lows, closes, params.atrPeriod || 14),
+      emaFast5m: null,
+      emaSlow5m: null,
+      emaFast15m: null,
+      emaSlow15m: null,
+      trendScore: null,
+      pullbackReady: this.detectPullbackReady(closes, params.pullbackPercent || 0.15),
+    };
+
+    // Multi-timeframe trend filter: counter-trend trades score lower
+    if (params.useTrendFilter !== false) {
+      const closes5m = this.aggregateCloses(candles, 5);
+      const closes15m = this.aggregateCloses(candles, 15);
+      const ema5mSlowPeriod = params.ema5mSlowPeriod || 21;
+      const ema15mSlowPeriod = params.ema15mSlowPeriod || 21;
+
+      if (closes5m.length >= ema5mSlowPeriod) {
+        indicators.emaFast5m = this.calculateEMA(closes5m, params.ema5mFastPeriod || 8);
+        indicators.emaSlow5m = this.calculateEMA(closes5m, ema5mSlowPeriod);
+      }
+      if (closes15m.length >= ema15mSlowPeriod) {
+        indicators.emaFast15m = this.calculateEMA(closes15m, params.ema15mFastPeriod || 8);
+        indicators.emaSlow15m = this.calculateEMA(closes15m, ema15mSlowPeriod);
+      }
+
+      // +3 = all timeframes bullish, -3 = all bearish
+      let trendScore = 0;
+      if (indicators.emaFast && indicators.emaSlow) {
+        trendScore += indicators.emaFast > indicators.emaSlow ? 1 : -1;
+      }
+      if (indicators.emaFast5m && indicators.emaSlow5m) {
+        trendScore += indicators.emaFast5m > indicators.emaSlow5m ? 1 : -1;
+      }
+      if (indicators.emaFast15m && indicators.emaSlow15m) {
+        trendScore += indicators.emaFast15m > indicators.emaSlow15m ? 1 : -1;
+      }
+      indicators.trendScore = trendScore;
+    }
+
+    return indicators;
+  }
+
+  /**
+   * Confluence score per side; a side wins at RAZOR_ENTRY_THRESHOLD
+   */
+  private scoreEntry(
+    indicators: RazorIndicators,
+    candles: Candle[]
+  ): { type: 'long' | 'short' | 'none'; strength: number; confidence: number; reasons: string[] } {
+    const params = this.config.parameters;
+    const closes = candles.map(c => c.close);
+    const reasons: string[] = [];
+    let longScore = 0;
+    let shortScore = 0;
+
+    // Volatility filter (retain trade count but reject extremes)
+    if (indicators.volatility < params.minVolatility) {
+      return { type: 'none', strength: 0, confidence: 0, reasons: ['Volatiliteit te laag'] };
+    }
+    if (indicators.volatility > params.maxVolatility) {
+      return { type: 'none', strength: 0, confidence: 0, reasons: ['Volatiliteit extreem hoog'] };
+    }
+    if (indicators.volatility >= 0.08 && indicators.volatility <= 0.6) {
+      longScore += 8; shortScore += 8; reasons.push('Sweet spot volatiliteit');
+    }
+
+    // RSI primary signal, confirmed by the EMA trend
+    if (indicators.rsi < params.rsiOversold) {
+      longScore += Math.min(35 + (params.rsiOversold - indicators.rsi), 48);
+      reasons.push(`RSI oversold (${indicators.rsi.toFixed(1)})`);
+
+      if (indicators.emaFast && indicators.emaSlow && indicators.emaFast > indicators.emaSlow) {
+        longScore += 20;
+        reasons.push('EMA trend bevestigt LONG');
+      } else if (indicators.emaFast && indicators.emaSlow) {
+        longScore += 5;
+      }
+    } else if (indicators.rsi > params.rsiOverbought) {
+      shortScore += Math.min(35 + (indicators.rsi - params.rsiOverbought), 48);
+      reasons.push(`RSI overbought (${indicators.rsi.toFixed(1)})`);
+
+      if (indicators.emaFast && indicators.emaSlow && indicators.emaFast < indicators.emaSlow) {
+        shortScore += 20;
+        reasons.push('EMA trend bevestigt SHORT');
+      } else if (indicators.emaFast && indicators.emaSlow) {
+        shortScore += 5;
+      }
+    }
+
+    // Momentum over the last 5 candles
+    if (closes.length >= 5) {
+      const oldPrice = closes[closes.length - 5];
+      const currentPrice = closes[closes.length - 1];
+      const momentum = ((currentPrice - oldPrice) / oldPrice) * 100;
+
+      if (momentum > 0.05) {
+        longScore += 15;
+        reasons.push('Positief momentum');
+      } else if (momentum < -0.05) {
+        shortScore += 15;
+        reasons.push('Negatief momentum');
+      }
+    }
+
+    // ATR band suitability (avoid ultra-tight or too wide relative range)
+    if (indicators.atr && closes.length > 0) {
+      const atrPct = (indicators.atr / closes[closes.length - 1]) * 100;
+      if (atrPct >= 0.03 && atrPct <= 0.8) {
+        longScore += 6; shortScore += 6; reasons.push('ATR in normaal bereik');
+      } else if (atrPct < 0.02) {
+        reasons.push('ATR te laag (risico op chop)');
+      } else if (atrPct > 1.0) {
+        reasons.push('ATR te hoog (risico op whipsaw)');
+      }
+    }
+
+    // Multi-timeframe trend alignment boosts
+    if (params.useMultiTimeframe && indicators.trendScore !== null) {
+      if (indicators.trendScore === 3) {
+        longScore += 10; reasons.push('Sterke multi-timeframe bullish alignment');
+      } else if (indicators.trendScore === -3) {
+        shortScore += 10; reasons.push('Sterke multi-timeframe bearish alignment');
+      } else if (indicators.trendScore === 2) {
+        longScore += 6; reasons.push('Bullish alignment');
+      } else if (indicators.trendScore === -2) {
+        shortScore += 6; reasons.push('Bearish alignment');
+      } else if (indicators.trendScore === 0) {
+        reasons.push('Neutrale MTF trend');
+      }
+    }
+
+    // Pullback readiness: penalise (don't block) continuation entries without a retrace
+    if (params.advancedFiltersEnabled && indicators.pullbackReady === false) {
+      longScore = Math.max(0, longScore - 5);
+      shortScore = Math.max(0, shortScore - 5);
+      reasons.push('Geen bevestigde pullback');
+    } else if (indicators.pullbackReady) {
+      longScore += 5; shortScore += 5; reasons.push('Pullback klaar voor vervolg');
+    }
+
+    // Compression breakout: narrowing range before expansion
+    if (candles.length >= 12) {
+      const ranges = candles.slice(-12).map(c => c.high - c.low);
+      const avgRange = ranges.reduce((s, v) => s + v, 0) / ranges.length;
+      if (ranges[ranges.length - 1] < avgRange * 0.6) {
+        longScore += 4; shortScore += 4; reasons.push('Range compressie (potentiële breakout)');
+      }
+    }
+
+    // EMA crossover bonus (only if no dominant RSI signal yet)
+    if (indicators.emaFast && indicators.emaSlow && longScore < 20 && shortScore < 20) {
+      const emaDiffPercent = Math.abs(indicators.emaFast - indicators.emaSlow) / indicators.emaFast * 100;
+
+      if (indicators.emaFast > indicators.emaSlow && emaDiffPercent > 0.02) {
+        longScore += 25;
+        reasons.push('EMA bullish crossover');
+      } else if (indicators.emaFast < indicators.emaSlow && emaDiffPercent > 0.02) {
+        shortScore += 25;
+        reasons.push('EMA bearish crossover');
+      }
+    }
+
+    if (longScore > shortScore && longScore >= RAZOR_ENTRY_THRESHOLD) {
+      return {
+        type: 'long',
+        strength: Math.min(longScore, 100),
+        confidence: Math.min((longScore / 80) * 100, 100),
+        reasons,
+      };
+    } else if (shortScore > longScore && shortScore >= RAZOR_ENTRY_THRESHOLD) {
+      return {
+        type: 'short',
+        strength: Math.min(shortScore, 100),
+        confidence: Math.min((shortScore / 80) * 100, 100),
+        reasons,
+      };
+    }
+
+    return {
+      type: 'none',
+      strength: Math.max(longScore, shortScore),
+      confidence: 0,
+      reasons: [`Score onder threshold (${RAZOR_ENTRY_THRESHOLD})`],
+    };
+  }
+
+  /**
+   * Closes of N-minute buckets built from 1m candles (latest bucket may still be forming)
+   */
+  private aggregateCloses(candles: Candle[], minutes: number): number[] {
+    const bucketMs = minutes * 60 * 1000;
+    const closes: number[] = [];
+    let bucket: number | null = null;
+
+    for (const candle of candles) {
+      const start = Math.floor(candle.timestamp / bucketMs);
+      if (start === bucket) {
+        closes[closes.length - 1] = candle.close;
+      } else {
+        closes.push(candle.close);
+        bucket = start;
+      }
+    }
+    return closes;
+  }
+
+  /**
+   * EMA seeded with an SMA; falls back to the plain average on short histories
+   */
+  private calculateEMA(prices: number[], period: number): number {
+    if (prices.length < period) {
+      return prices.reduce((sum, p) => sum + p, 0) / prices.length;
+    }
+
+    const multiplier = 2 / (period + 1);
+    let ema = prices.slice(0, period).reduce((sum, p) => sum + p, 0) / period;
+    for (let i = period; i < prices.length; i++) {
+      ema = (prices[i] - ema) * multiplier + ema;
+    }
+    return ema;
+  }
+
+  /**
+   * ATR over `period` candles, or over whatever is available on short histories
+   */
+  private calculateATR(highs: number[], lows: number[], closes: number[], period: number): number | null {
+    const start = closes.length >= period + 1 ? closes.length - period : 1;
+    if (closes.length < 2) return null;
+
+    const trs: number[] = [];
+    for (let i = start; i < closes.length; i++) {
+      const cPrev = closes[i - 1];
+      trs.push(Math.max(highs[i] - lows[i], Math.abs(highs[i] - cPrev), Math.abs(lows[i] - cPrev)));
+    }
+    return trs.reduce((sum, v) => sum + v, 0) / trs.length;
+  }
+
+  /**
+   * Impulse of at least 0.1% over 10 candles followed by a partial retrace
+   */
+  private detectPullbackReady(closes: number[], pullbackPct: number): boolean | null {
+    if (closes.length < 20) return null;
+    const recent = closes.slice(-10);
+    const start = recent[0];
+    const end = recent[recent.length - 1];
+    const move = end - start;
+    if (Math.abs(move) < start * 0.001) return false;
+
+    if (move > 0) {
+      const peak = Math.max(...recent);
+      return (peak - end) / (peak - start) >= pullbackPct;
+    }
+    const trough = Math.min(...recent);
+    return (end - trough) / (start - trough) >= pullbackPct;
+  }
+
+  /**
+   * Simple-average RSI; uses every available change on short histories
+   */
+  private calculateRSI(prices: number[], period: number = 14): number {
+    if (prices.length < 3) return 50;
+
+    const changes: number[] = [];
+    for (let i = 1; i < prices.length; i++) {
+      changes.push(prices[i] - prices[i - 1]);
+    }
+
+    const window = prices.length < period + 1 ? changes : changes.slice(-period);
+    const divisor = prices.length < period + 1 ? Math.max(2, prices.length - 1) : period;
+    const avgGain = window.reduce((sum, c) => sum + (c > 0 ? c : 0), 0) / divisor;
+    const avgLoss = window.reduce((sum, c) => sum + (c < 0 ? -c : 0), 0) / divisor;
+
+    if (avgLoss === 0) return 100;
+    return 100 - (100 / (1 + avgGain / avgLoss));
+  }
+
+  /**
+   * Volatility in %: the larger of the standard deviation and the high-low range
+   */
+  private calculateVolatility(prices: number[]): number {
+    if (prices.length < 2) return 0.05;
+
+    const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
+    const variance = prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length;
+    const stdDevPercent = (Math.sqrt(variance) / mean) * 100;
+    const rangePercent = ((Math.max(...prices) - Math.min(...prices)) / mean) * 100;
+
+    return Math.max(stdDevPercent, rangePercent, 0.01);
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * ScalpingStrategy.ts
+ *
+ * Purpose: EMA-RSI scalper (formerly run in the browser) as an IStrategy implementation
+ * Strategy: short candles built from ticks (2s by default); enter with the EMA fast/slow
+ * trend when RSI is between the extreme and 50, the EMAs are far enough apart and the
+ * spread is tight. Fixed-percent SL/TP, a cooldown after every closed position and a
+ * maximum hold time (enforced by the executor, see ThorRuntime.maxHoldMs).
+ *
+ * Execution (ticks, sizing, brackets) lives in ThorExecutor.
+ */
+
+import {
+  IStrategy,
+  BaseStrategy,
+  StrategyMetadata,
+  MarketData,
+  Candle,
+  AnalysisResult,
+  TradeSignal,
+  PositionClosedEvent,
+} from './IStrategy';
+import {
+  ParameterSchemaMap,
+  ParameterGroup,
+  parameterDefaults,
+  requiredParameterNames,
+  optionalParameterNames,
+} from './ParameterSchema';
+
+/**
+ * Candles needed before the EMAs and RSI of these parameters are defined
+ */
+export function scalpingRequiredCandles(parameters: Record<string, any>): number {
+  return Math.max(parameters.emaSlowPeriod, parameters.rsiPeriod + 1);
+}
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+const SCALPING_PARAMETER_GROUPS: ParameterGroup[] = [
+  { id: 'risk', label: 'Risico', description: 'Positiegrootte op basis van equity' },
+  { id: 'signal', label: 'Signaal', description: 'EMA trend met RSI bevestiging' },
+  { id: 'exits', label: 'Exits', description: 'Vaste SL/TP, maximale duur en cooldown' },
+  { id: 'filters', label: 'Filters' },
+];
+
+const SCALPING_PARAMETERS: ParameterSchemaMap = {
+  // Risk (sizing happens in the executor)
+  maxRiskPercent: { type: 'number', label: 'Risico per trade', unit: '%', group: 'risk', default: 1, min: 0.1, max: 100, step: 0.1 },
+  fixedRiskUsd: { type: 'number', label: 'Vast risico', unit: 'USD', group: 'risk', min: 0, description: 'Overschrijft het percentage wanneer ingevuld' },
+  accountEquityUsd: { type: 'number', label: 'Account equity', unit: 'USD', group: 'risk', min: 0, description: 'Basis voor de positiegrootte' },
+  maxDailyTrades: { type: 'integer', label: 'Max trades per dag', group: 'risk', default: 100, min: 1, max: 1000 },
+
+  // Signal
+  sampleSeconds: { type: 'integer', label: 'Candle duur', unit: 's', group: 'signal', default: 2, required: true, min: 1, max: 60, description: 'Candles worden uit ticks opgebouwd' },
+  emaFastPeriod: { type: 'integer', label: 'EMA snel', unit: 'candles', group: 'signal', default: 9, required: true, min: 2, max: 100 },
+  emaSlowPeriod: { type: 'integer', label: 'EMA traag', unit: 'candles', group: 'signal', default: 21, required: true, min: 3, max: 200 },
+  rsiPeriod: { type: 'integer', label: 'RSI periode', unit: 'candles', group: 'signal', default: 14, required: true, min: 2, max: 100 },
+  rsiOversold: { type: 'number', label: 'RSI ondergrens', group: 'signal', default: 30, min: 0, max: 50, description: 'Long alleen tussen deze waarde en 50' },
+  rsiOverbought: { type: 'number', label: 'RSI bovengrens', group: 'signal', default: 70, min: 50, max: 100, description: 'Short alleen tussen 50 en deze waarde' },
+  minCrossBps: { type: 'number', label: 'Min EMA afstand', unit: 'bps', group: 'signal', default: 5, min: 0, description: 'Afstand tussen de EMA\'s als deel van de prijs' },
+  minConfidence: { type: 'number', label: 'Min confidence', unit: '%', group: 'signal', default: 65, min: 0, max: 100 },
+
+  // Exits
+  takeProfitPercent: { type: 'number', label: 'Take profit', unit: '%', group: 'exits', default: 0.3, required: true, min: 0.01, max: 10, step: 0.01 },
+  stopLossPercent: { type: 'number', label: 'Stop loss', unit: '%', group: 'exits', default: 0.3, required: true, min: 0.01, max: 10, step: 0.01 },
+  maxHoldSeconds: { type: 'integer', label: 'Max duur positie', unit: 's', group: 'exits', default: 300, min: 0, description: '0 = geen limiet' },
+  cooldownSeconds: { type: 'integer', label: 'Cooldown', unit: 's', group: 'exits', default: 30, min: 0, description: 'Wachttijd na een gesloten positie' },
+
+  // Filters
+  spreadFilterBps: { type: 'number', label: 'Max spread', unit: 'bps', group: 'filters', default: 5, min: 0 },
+};
+
+// ============================================================================
+// Strategy Implementation
+// ============================================================================
+
+export class ScalpingStrategy extends BaseStrategy implements IStrategy {
+  readonly metadata: StrategyMetadata = {
+    name: 'Scalping',
+    version: '2.0.0',
+    description: 'EMA-RSI scalper on short tick candles with fixed-percent SL/TP, cooldown and max hold time',
+    author: 'Tradebaas',
+    tags: ['scalping', 'trend-following', 'ema', 'rsi'],
+    defaultConfig: {
+      instrument: 'BTC_USDC-PERPETUAL',
+      timeframe: '2s',
+      riskPercent: 1,
+      parameters: parameterDefaults(SCALPING_PARAMETERS),
+    },
+    requiredParameters: requiredParameterNames(SCALPING_PARAMETERS),
+    optionalParameters: optionalParameterNames(SCALPING_PARAMETERS),
+    parameterSchema: SCALPING_PARAMETERS,
+    parameterGroups: SCALPING_PARAMETER_GROUPS,
+  };
+
+  private cooldownUntil = 0;
+
+  /**
+   * The spread filter only applies when marketData carries a real bid/ask
+   */
+  async analyze(marketData: MarketData, candles: Candle[]): Promise<AnalysisResult> {
+    this.assertInitialized();
+
+    const params = this.config.parameters;
+    const required = scalpingRequiredCandles(params);
+    if (candles.length < required) {
+      return this.neutral(`Insufficient candles: ${candles.length}/${required} required`, 'Onvoldoende data', {});
+    }
+
+    const closes = candles.map(c => c.close);
+    const price = marketData.price;
+    const indicators: Record<string, number> = {
+      emaFast: this.calculateEMA(closes, params.emaFastPeriod),
+      emaSlow: this.calculateEMA(closes, params.emaSlowPeriod),
+      rsi: this.calculateRSI(closes, params.rsiPeriod),
+      currentPrice: price,
+    };
+    indicators.crossBps = (Math.abs(indicators.emaFast - indicators.emaSlow) / price) * 10_000;
+
+    if (marketData.timestamp < this.cooldownUntil) {
+      const seconds = Math.ceil((this.cooldownUntil - marketData.timestamp) / 1000);
+      return this.neutral('Cooldown active', `Cooldown (${seconds}s)`, indicators);
+    }
+
+    if (marketData.ask > marketData.bid) {
+      indicators.spreadPct = ((marketData.ask - marketData.bid) / price) * 100;
+      if (indicators.spreadPct > params.spreadFilterBps / 100) {
+        return this.neutral(`Spread ${indicators.spreadPct.toFixed(3)}% above filter`, 'Spread te hoog', indicators);
+      }
+    }
+
+    const { emaFast, emaSlow, rsi, crossBps } = indicators;
+    let signal: 'LONG' | 'SHORT' | 'NEUTRAL' = 'NEUTRAL';
+    let reason = 'Geen EMA/RSI setup';
+    if (crossBps > params.minCrossBps) {
+      if (emaFast > emaSlow && rsi > params.rsiOversold && rsi < 50) {
+        signal = 'LONG';
+        reason = `EMA bullish, RSI ${rsi.toFixed(1)}`;
+      } else if (emaFast < emaSlow && rsi > 50 && rsi < params.rsiOverbought) {
+        signal = 'SHORT';
+        reason = `EMA bearish, RSI ${rsi.toFixed(1)}`;
+      }
+    }
+    if (signal === 'NEUTRAL') {
+      return this.neutral('No EMA trend with RSI confirmation', reason, indicators);
+    }
+
+    const confidence = Math.min(100, 60 + crossBps + Math.abs(50 - rsi));
+    if (confidence < params.minConfidence) {
+      return this.neutral(`Confidence ${confidence.toFixed(0)}% below minimum`, 'Confidence te laag', indicators);
+    }
+
+    return {
+      signal,
+      confidence,
+      reason,
+      indicators,
+      metadata: { strength: confidence, reasons: [reason] },
+    };
+  }
+
+  async generateSignal(analysis: AnalysisResult, marketData: MarketData): Promise<TradeSignal> {
+    this.assertInitialized();
+
+    const side = analysis.signal === 'LONG' ? 'buy' : 'sell';
+    const entryPrice = marketData.price;
+    const stopLossPrice = this.calculateStopLoss(entryPrice, side, marketData);
+    const takeProfitPrice = this.calculateTakeProfit(entryPrice, side, marketData);
+
+    return {
+      side,
+      entryPrice,
+      stopLossPrice,
+      takeProfitPrice,
+      confidence: analysis.confidence,
+      reason: analysis.reason,
+      metadata: {
+        strength: analysis.metadata?.strength,
+        indicators: analysis.indicators,
+        riskRewardRatio: this.calculateRiskRewardRatio(entryPrice, stopLossPrice, takeProfitPrice),
+      },
+    };
+  }
+
+  calculateStopLoss(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    const pct = this.config.parameters.stopLossPercent / 100;
+    return side === 'buy' ? entryPrice * (1 - pct) : entryPrice * (1 + pct);
+  }
+
+  calculateTakeProfit(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    const pct = this.config.parameters.takeProfitPercent / 100;
+    return side === 'buy' ? entryPrice * (1 + pct) : entryPrice * (1 - pct);
+  }
+
+  // ============================================================================
+  // Lifecycle Hooks
+  // ============================================================================
+
+  /**
+   * Start the cooldown once a position is closed
+   */
+  async onPositionClosed(event: PositionClosedEvent): Promise<void> {
+    this.cooldownUntil = event.timestamp + (this.config?.parameters.cooldownSeconds ?? 0) * 1000;
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  private neutral(reason: string, label: string, indicators: Record<string, number>): AnalysisResult {
+    return {
+      signal: 'NEUTRAL',
+      confidence: 0,
+      reason,
+      indicators,
+      metadata: { strength: 0, reasons: [label] },
+    };
+  }
+
+  /**
+   * EMA seeded with the SMA of the first `period` closes
+   */
+  private calculateEMA(prices: number[], period: number): number {
+    const multiplier = 2 / (period + 1);
+    let ema = prices.slice(0, period).reduce((s, p) => s + p, 0) / period;
+    for (let i = period; i < prices.length; i++) {
+      ema = (prices[i] - ema) * multiplier + ema;
+    }
+    return ema;
+  }
+
+  private calculateRSI(prices: number[], period: number): number {
+    const recent: number[] = [];
+    for (let i = prices.length - period; i < prices.length; i++) {
+      recent.push(prices[i] - prices[i - 1]);
+    }
+    const avgGain = recent.reduce((s, c) => s + (c > 0 ? c : 0), 0) / period;
+    const avgLoss = recent.reduce((s, c) => s + (c < 0 ? -c : 0), 0) / period;
+    if (avgLoss === 0) return 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  }
+}
@@ -7,7 +7,7 @@
  * Part of: Iteration 4 - Risk Engine + Strategy Registry
  */
 
-import { IStrategy, StrategyNotFoundError } from './IStrategy';
+import { IStrategy, StrategyMetadata, StrategyNotFoundError } from './IStrategy';
 
 // ============================================================================
 // Strategy Registry
@@ -91,6 +91,22 @@ export class StrategyRegistry {
     return this.strategies.has(strategyName);
   }
 
+  /**
+   * Find a strategy by name, ignoring case (API ids are lowercased names)
+   * 
+   * @param strategyName - Name or id of strategy to find
+   * @returns Strategy instance, or undefined if not registered
+   */
+  public find(strategyName: string): IStrategy | undefined {
+    const key = strategyName.toLowerCase();
+    for (const [name, strategy] of this.strategies) {
+      if (name.toLowerCase() === key) {
+        return strategy;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * List all registered strategies
    * 
@@ -105,7 +121,7 @@ export class StrategyRegistry {
    * 
    * @returns Array of strategies with metadata
    */
-  public listWithMetadata(): Array<{ name: string; metadata: any }> {
+  public listWithMetadata(): Array<{ name: string; metadata: StrategyMetadata }> {
     return Array.from(this.strategies.entries()).map(([name, strategy]) => ({
       name,
       metadata: strategy.metadata,
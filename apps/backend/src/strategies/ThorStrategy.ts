@@ -0,0 +1,263 @@
+/**
+ * ThorStrategy.ts
+ *
+ * Purpose: Thor signal logic as an IStrategy implementation
+ * Strategy: 1m mean reversion - short-period RSI extremes on the far side of the
+ * Bollinger midline, inside an ATR volatility band; SL beyond the 5-candle swing,
+ * TP at the midline
+ *
+ * Execution (ticks, sizing, brackets) lives in ThorExecutor.
+ */
+
+import {
+  IStrategy,
+  BaseStrategy,
+  StrategyMetadata,
+  MarketData,
+  Candle,
+  AnalysisResult,
+  TradeSignal,
+} from './IStrategy';
+import {
+  ParameterSchemaMap,
+  ParameterGroup,
+  parameterDefaults,
+  requiredParameterNames,
+  optionalParameterNames,
+} from './ParameterSchema';
+
+export const THOR_REQUIRED_CANDLES = 30;
+
+const SWING_CANDLES = 5;
+const MIN_SL_DISTANCE_PCT = 0.05; // 0.05%
+const SL_OFFSET_PCT = 0.02; // 0.02% beyond the swing
+const FALLBACK_TP_PCT = 0.15; // when the Bollinger midline is unavailable
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+const THOR_PARAMETER_GROUPS: ParameterGroup[] = [
+  { id: 'risk', label: 'Risico', description: 'Positiegrootte op basis van equity' },
+  { id: 'signal', label: 'Signaal', description: 'RSI extremen rond de Bollinger midline' },
+  { id: 'filters', label: 'Filters', description: 'Spread en ATR band' },
+  { id: 'safety', label: 'Veiligheid' },
+];
+
+const THOR_PARAMETERS: ParameterSchemaMap = {
+  // Risk (sizing happens in ThorExecutor)
+  maxRiskPercent: { type: 'number', label: 'Risico per trade', unit: '%', group: 'risk', default: 3, min: 0.1, max: 100, step: 0.1 },
+  fixedRiskUsd: { type: 'number', label: 'Vast risico', unit: 'USD', group: 'risk', min: 0, description: 'Overschrijft het percentage wanneer ingevuld' },
+  accountEquityUsd: { type: 'number', label: 'Account equity', unit: 'USD', group: 'risk', min: 0, description: 'Basis voor de positiegrootte' },
+
+  // Signal
+  rsiPeriod: { type: 'integer', label: 'RSI periode', unit: 'candles', group: 'signal', default: 4, required: true, min: 2, max: 50 },
+  rsiLongLevel: { type: 'number', label: 'RSI long niveau', group: 'signal', default: 30, required: true, min: 0, max: 100 },
+  rsiShortLevel: { type: 'number', label: 'RSI short niveau', group: 'signal', default: 70, required: true, min: 0, max: 100 },
+  bbPeriod: { type: 'integer', label: 'Bollinger periode', unit: 'candles', group: 'signal', default: 20, required: true, min: 2, max: 200 },
+  bbStdDev: { type: 'number', label: 'Bollinger std dev', group: 'signal', default: 2, required: true, min: 0.5, max: 5, step: 0.1 },
+
+  // Filters
+  atrPeriod: { type: 'integer', label: 'ATR periode', unit: 'candles', group: 'filters', default: 14, required: true, min: 2, max: 100 },
+  spreadFilterBps: { type: 'number', label: 'Max spread', unit: 'bps', group: 'filters', default: 5, min: 0 },
+  minAtrBps: { type: 'number', label: 'Min ATR', unit: 'bps', group: 'filters', default: 5, required: true, min: 0 },
+  maxAtrBps: { type: 'number', label: 'Max ATR', unit: 'bps', group: 'filters', default: 80, required: true, min: 0 },
+
+  // Safety
+  maxDailyTrades: { type: 'integer', label: 'Max trades per dag', group: 'safety', default: 40, min: 1, max: 1000 },
+  cooldownCandles: { type: 'integer', label: 'Cooldown', unit: 'candles', group: 'safety', default: 5, min: 0, max: 100 },
+};
+
+// ============================================================================
+// Strategy Implementation
+// ============================================================================
+
+export class ThorStrategy extends BaseStrategy implements IStrategy {
+  readonly metadata: StrategyMetadata = {
+    name: 'Thor',
+    version: '2.0.0',
+    description: 'Mean reversion on RSI extremes towards the Bollinger midline, filtered by ATR and spread',
+    author: 'Tradebaas',
+    tags: ['mean-reversion', 'scalping', 'bollinger', 'rsi'],
+    defaultConfig: {
+      instrument: 'BTC_USDC-PERPETUAL',
+      timeframe: '1m',
+      riskPercent: 3,
+      parameters: parameterDefaults(THOR_PARAMETERS),
+    },
+    requiredParameters: requiredParameterNames(THOR_PARAMETERS),
+    optionalParameters: optionalParameterNames(THOR_PARAMETERS),
+    parameterSchema: THOR_PARAMETERS,
+    parameterGroups: THOR_PARAMETER_GROUPS,
+  };
+
+  /**
+   * The spread filter only applies when marketData carries a real bid/ask
+   */
+  async analyze(marketData: MarketData, candles: Candle[]): Promise<AnalysisResult> {
+    this.assertInitialized();
+
+    const params = this.config.parameters;
+    if (candles.length < THOR_REQUIRED_CANDLES) {
+      return this.neutral(`Insufficient candles: ${candles.length}/${THOR_REQUIRED_CANDLES} required`, 'Onvoldoende data', {});
+    }
+
+    const closes = candles.map(c => c.close);
+    const last = candles[candles.length - 1];
+    const swings = candles.slice(-SWING_CANDLES);
+    const indicators: Record<string, number> = {
+      rsi: this.calculateRSI(closes, params.rsiPeriod),
+      swingLow: Math.min(...swings.map(c => c.low)),
+      swingHigh: Math.max(...swings.map(c => c.high)),
+      currentPrice: marketData.price,
+    };
+
+    const atr = this.calculateATR(candles, params.atrPeriod);
+    if (!atr) {
+      return this.neutral('No ATR data', 'Geen ATR data', indicators);
+    }
+    indicators.atr = atr;
+    indicators.volatility = (atr / last.close) * 100;
+    if (indicators.volatility < params.minAtrBps / 100 || indicators.volatility > params.maxAtrBps / 100) {
+      return this.neutral('ATR outside band', 'ATR-filter buiten bereik', indicators);
+    }
+
+    const bb = this.calculateBollinger(closes, params.bbPeriod, params.bbStdDev);
+    if (bb) {
+      indicators.bbMiddle = bb.middle;
+      indicators.bbUpper = bb.upper;
+      indicators.bbLower = bb.lower;
+    }
+    const middle = bb?.middle ?? last.close;
+
+    let signal: 'LONG' | 'SHORT' | 'NEUTRAL' = 'NEUTRAL';
+    let reason = 'Geen Viper signaal';
+    if (indicators.rsi <= params.rsiLongLevel && last.close < middle) {
+      signal = 'LONG';
+      reason = 'RSI laag + onder BB mid';
+    } else if (indicators.rsi >= params.rsiShortLevel && last.close > middle) {
+      signal = 'SHORT';
+      reason = 'RSI hoog + boven BB mid';
+    }
+    if (signal === 'NEUTRAL') {
+      return this.neutral('No RSI extreme on the reverting side of the BB midline', reason, indicators);
+    }
+
+    if (params.spreadFilterBps !== undefined && marketData.ask > marketData.bid) {
+      const spreadPct = ((marketData.ask - marketData.bid) / marketData.price) * 100;
+      indicators.spreadPct = spreadPct;
+      if (spreadPct > params.spreadFilterBps / 100) {
+        return this.neutral(`Spread ${spreadPct.toFixed(3)}% above filter`, 'Spread te hoog', indicators);
+      }
+    }
+
+    return {
+      signal,
+      confidence: 80,
+      reason,
+      indicators,
+      metadata: { strength: 70, reasons: [reason] },
+    };
+  }
+
+  async generateSignal(analysis: AnalysisResult, marketData: MarketData): Promise<TradeSignal> {
+    this.assertInitialized();
+
+    const side = analysis.signal === 'LONG' ? 'buy' : 'sell';
+    const entryPrice = marketData.price;
+    const { swingLow, swingHigh, bbMiddle } = analysis.indicators;
+
+    let stopLossPrice = this.calculateStopLoss(entryPrice, side, marketData);
+    const swingStop = side === 'buy' ? swingLow * (1 - SL_OFFSET_PCT / 100) : swingHigh * (1 + SL_OFFSET_PCT / 100);
+    const swingDistancePct = (side === 'buy' ? entryPrice - swingStop : swingStop - entryPrice) / entryPrice * 100;
+    if (swingDistancePct >= MIN_SL_DISTANCE_PCT) {
+      stopLossPrice = swingStop;
+    }
+    const takeProfitPrice = bbMiddle ?? this.calculateTakeProfit(entryPrice, side, marketData);
+
+    return {
+      side,
+      entryPrice,
+      stopLossPrice,
+      takeProfitPrice,
+      confidence: analysis.confidence,
+      reason: analysis.reason,
+      metadata: {
+        strength: analysis.metadata?.strength,
+        indicators: analysis.indicators,
+        riskRewardRatio: this.calculateRiskRewardRatio(entryPrice, stopLossPrice, takeProfitPrice),
+      },
+    };
+  }
+
+  /**
+   * Minimum-distance stop; generateSignal moves it out to the swing when that is further
+   */
+  calculateStopLoss(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    return side === 'buy'
+      ? entryPrice * (1 - MIN_SL_DISTANCE_PCT / 100)
+      : entryPrice * (1 + MIN_SL_DISTANCE_PCT / 100);
+  }
+
+  /**
+   * Fixed target; generateSignal prefers the Bollinger midline
+   */
+  calculateTakeProfit(entryPrice: number, side: 'buy' | 'sell', marketData: MarketData): number {
+    return side === 'buy'
+      ? entryPrice * (1 + FALLBACK_TP_PCT / 100)
+      : entryPrice * (1 - FALLBACK_TP_PCT / 100);
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  private neutral(reason: string, label: string, indicators: Record<string, number>): AnalysisResult {
+    return {
+      signal: 'NEUTRAL',
+      confidence: 0,
+      reason,
+      indicators,
+      metadata: { strength: 0, reasons: [label] },
+    };
+  }
+
+  private calculateRSI(prices: number[], period: number): number {
+    if (prices.length < period + 1) return 50;
+    const changes: number[] = [];
+    for (let i = 1; i < prices.length; i++) {
+      changes.push(prices[i] - prices[i - 1]);
+    }
+    const recent = changes.slice(-period);
+    const avgGain = recent.reduce((s, c) => s + (c > 0 ? c : 0), 0) / period;
+    const avgLoss = recent.reduce((s, c) => s + (c < 0 ? -c : 0), 0) / period;
+    if (avgLoss === 0) return 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  }
+
+  private calculateATR(candles: Candle[], period: number): number | null {
+    if (candles.length < period + 1) return null;
+    const trs: number[] = [];
+    for (let i = candles.length - period; i < candles.length; i++) {
+      const { high, low } = candles[i];
+      const cPrev = candles[i - 1].close;
+      trs.push(Math.max(high - low, Math.abs(high - cPrev), Math.abs(low - cPrev)));
+    }
+    return trs.reduce((s, v) => s + v, 0) / trs.length;
+  }
+
+  private calculateBollinger(prices: number[], period: number, stdDev: number):
+    | { middle: number; upper: number; lower: number }
+    | null {
+    if (prices.length < period) return null;
+    const slice = prices.slice(-period);
+    const mean = slice.reduce((s, v) => s + v, 0) / slice.length;
+    const variance = slice.reduce((s, v) => s + (v - mean) ** 2, 0) / slice.length;
+    const sd = Math.sqrt(variance);
+    return {
+      middle: mean,
+      upper: mean + stdDev * sd,
+      lower: mean - stdDev * sd,
+    };
+  }
+}
@@ -7,8 +7,17 @@
  * Part of: Iteration 9 - Strategy Registry & Selection
  */
 
+import path from 'path';
 import { strategyRegistry } from './StrategyRegistry.js';
 import { SimpleMovingAverageCrossStrategy } from './SimpleMovingAverageCrossStrategy.js';
+import { RazorStrategy } from './RazorStrategy.js';
+import { ThorStrategy } from './ThorStrategy.js';
+import { PairsSpreadStrategy } from './PairsSpreadStrategy.js';
+import { createRegimeEnsemble } from './EnsembleStrategy.js';
+import { ScalpingStrategy } from './ScalpingStrategy.js';
+import { FastTestStrategy } from './FastTestStrategy.js';
+import { StrategyPluginLoader } from './plugin-loader.js';
+import { DEFAULT_SANDBOX_OPTIONS } from './plugin-sandbox.js';
 import { log } from '../logger.js';
 
 /**
@@ -24,11 +33,19 @@ export async function bootstrapStrategies(): Promise<void> {
     strategyRegistry.register(smaStrategy);
     log.info(`[StrategyBootstrap] Registered: ${smaStrategy.metadata.name} v${smaStrategy.metadata.version}`);
 
-    // TODO: Register additional strategies here as they're created
-    // Example:
-    // const razorStrategy = new RazorStrategy();
-    // strategyRegistry.register(razorStrategy);
-    // log.info(`[StrategyBootstrap] Registered: ${razorStrategy.metadata.name}`);
+    // Production strategies (executed live by RazorExecutor / ThorExecutor / MultiLegExecutor)
+    const production = [
+      new RazorStrategy(),
+      new ThorStrategy(),
+      new PairsSpreadStrategy(),
+      createRegimeEnsemble(),
+      new ScalpingStrategy(),
+      new FastTestStrategy(),
+    ];
+    for (const strategy of production) {
+      strategyRegistry.register(strategy);
+      log.info(`[StrategyBootstrap] Registered: ${strategy.metadata.name} v${strategy.metadata.version}`);
+    }
 
     // Get registry statistics
     const stats = strategyRegistry.getStats();
@@ -55,14 +72,39 @@ export async function bootstrapStrategies(): Promise<void> {
   }
 }
 
+let pluginLoader: StrategyPluginLoader | null = null;
+
 /**
- * Auto-discover strategies from the strategies folder
- * Future enhancement: dynamically load all .ts files in strategies/
- * 
- * For now, we manually register strategies in bootstrapStrategies()
+ * Load strategy plugins from STRATEGY_PLUGINS_DIR and hot-reload them on change
+ * Plugins run sandboxed (see plugin-sandbox.ts); limits via STRATEGY_PLUGIN_TIMEOUT_MS
+ * and STRATEGY_PLUGIN_MEMORY_MB. A missing directory is not an error.
  */
 export async function discoverStrategies(): Promise<void> {
-  // TODO: Implement auto-discovery using fs.readdir + dynamic imports
-  // This would enable hot-reload and plugin-style architecture
-  log.info('[StrategyBootstrap] Auto-discovery not yet implemented - using manual registration');
+  if (pluginLoader) {
+    return;
+  }
+
+  const dir = path.resolve(process.env.STRATEGY_PLUGINS_DIR || 'strategy-plugins');
+  pluginLoader = new StrategyPluginLoader({
+    dir,
+    sandbox: {
+      timeoutMs: parseInt(process.env.STRATEGY_PLUGIN_TIMEOUT_MS || '', 10) || DEFAULT_SANDBOX_OPTIONS.timeoutMs,
+      memoryMb: parseInt(process.env.STRATEGY_PLUGIN_MEMORY_MB || '', 10) || DEFAULT_SANDBOX_OPTIONS.memoryMb,
+    },
+  });
+
+  const loaded = await pluginLoader.start();
+  log.info('[StrategyBootstrap] Strategy plugins discovered', { dir, loaded });
+}
+
+export function getPluginLoader(): StrategyPluginLoader | null {
+  return pluginLoader;
+}
+
+/**
+ * Stop watching the plugin directory and terminate plugin workers
+ */
+export async function stopStrategyPlugins(): Promise<void> {
+  await pluginLoader?.stop();
+  pluginLoader = null;
 }
@@ -0,0 +1,284 @@
+/**
+ * Leg Order Manager
+ * Opens and closes the legs of a multi-leg position as one unit
+ *
+ * Entry: every leg is sized and checked before the first order goes out (unknown
+ * instrument, lot rounding that distorts the hedge). Legs are then sent one by one as
+ * market orders; when a leg fails or fills short, the legs already filled are unwound
+ * and the entry fails with LegExecutionError. If the unwind itself fails, LegRiskError
+ * reports the legs left open.
+ *
+ * Exit: every leg is closed reduce-only with retries; legs that stay open raise LegRiskError.
+ */
+
+import type { BackendDeribitClient } from '../deribit-client';
+import { getTradeHistoryService, ensureTradeHistoryInitialized } from '../services/trade-history';
+import type { ConfigVersionRef } from '../services/ITradeHistoryStore';
+import type { LegSnapshot, LegTarget, MultiLegPosition, OpenLeg } from './multi-leg';
+import { LegExecutionError, LegRiskError } from './multi-leg';
+import { roundAmount } from './strategy-harness';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LegOrderClient = Pick<BackendDeribitClient, 'getInstrument' | 'placeBuyOrder' | 'placeSellOrder'>;
+
+export interface LegOrderOptions {
+  strategyName: string; // trade history name
+  labelPrefix: string; // order labels: <prefix>_<leg index>_<timestamp>
+  userId?: string;
+  configVersion?: ConfigVersionRef; // strategy config version stamped on recorded legs
+  maxHedgeErrorPct?: number; // max deviation of a leg's rounded notional from its target, default 10
+  exitRetries?: number; // attempts per leg on exit, default 3
+  retryDelayMs?: number; // default 500
+}
+
+interface PlannedLeg extends LegTarget {
+  amount: number;
+  price: number;
+  inverse: boolean;
+}
+
+const DEFAULT_MAX_HEDGE_ERROR_PCT = 10;
+const DEFAULT_EXIT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+// ============================================================================
+// Manager
+// ============================================================================
+
+export class LegOrderManager {
+  constructor(
+    private readonly client: LegOrderClient,
+    private readonly options: LegOrderOptions
+  ) {}
+
+  /**
+   * Size every leg for a total notional (USD per unit of weight)
+   * @throws LegExecutionError when a leg is unknown or rounds too far from its target
+   */
+  async plan(targets: LegTarget[], snapshot: LegSnapshot, notionalUsd: number): Promise<PlannedLeg[]> {
+    const maxError = this.options.maxHedgeErrorPct ?? DEFAULT_MAX_HEDGE_ERROR_PCT;
+    const planned: PlannedLeg[] = [];
+
+    for (const target of targets) {
+      if (!(target.weight > 0)) {
+        throw new LegExecutionError(`Leg ${target.instrument} has no size (weight ${target.weight})`);
+      }
+      const quote = snapshot[target.instrument];
+      if (!quote) {
+        throw new LegExecutionError(`No quote for leg ${target.instrument}`);
+      }
+      const price = target.side === 'buy' ? quote.ask || quote.price : quote.bid || quote.price;
+
+      let meta: any;
+      try {
+        meta = await this.client.getInstrument(target.instrument);
+      } catch (error: any) {
+        throw new LegExecutionError(`Leg ${target.instrument} unavailable: ${error.message}`);
+      }
+      if (!meta?.min_trade_amount) {
+        throw new LegExecutionError(`Leg ${target.instrument} unavailable: no instrument details`);
+      }
+
+      // Inverse contracts are sized in USD, linear ones in the base currency
+      const inverse = meta.instrument_type === 'reversed';
+      const notional = target.weight * notionalUsd;
+      const amount = roundAmount(inverse ? notional : notional / price, meta.min_trade_amount);
+      const rounded = inverse ? amount : amount * price;
+      const errorPct = (Math.abs(rounded - notional) / notional) * 100;
+      if (errorPct > maxError) {
+        throw new LegExecutionError(
+          `Leg ${target.instrument}: ${amount} lots is ${errorPct.toFixed(1)}% off the ${notional.toFixed(2)} USD target ` +
+          `(max ${maxError}%); raise the notional`
+        );
+      }
+      planned.push({ ...target, amount, price, inverse });
+    }
+
+    return planned;
+  }
+
+  /**
+   * Open every leg or none
+   * @throws LegExecutionError when the entry was aborted and unwound
+   * @throws LegRiskError when legs could not be unwound
+   */
+  async enter(
+    targets: LegTarget[],
+    snapshot: LegSnapshot,
+    notionalUsd: number,
+    direction: 'long' | 'short'
+  ): Promise<MultiLegPosition> {
+    const planned = await this.plan(targets, snapshot, notionalUsd);
+    const filled: OpenLeg[] = [];
+    const timestamp = Date.now();
+
+    for (const [index, leg] of planned.entries()) {
+      const label = `${this.options.labelPrefix}_${index}_${timestamp}`;
+      let failure: string | null = null;
+      try {
+        const response = await this.send(leg.instrument, leg.side, leg.amount, label, false);
+        const order = response.order ?? response;
+        const filledAmount = Number(order.filled_amount ?? 0);
+        if (filledAmount > 0) {
+          filled.push({
+            instrument: leg.instrument,
+            side: leg.side,
+            amount: filledAmount,
+            entryPrice: Number(order.average_price) || leg.price,
+            orderId: order.order_id,
+            inverse: leg.inverse,
+          });
+        }
+        if (filledAmount < leg.amount) {
+          failure = `leg ${leg.instrument} filled ${filledAmount}/${leg.amount}`;
+        }
+      } catch (error: any) {
+        failure = `leg ${leg.instrument} failed: ${error.message}`;
+      }
+
+      if (failure) {
+        console.error(`[LegOrders] ❌ ${this.options.strategyName}: ${failure}; unwinding ${filled.length} leg(s)`);
+        const stuck = await this.closeLegs(filled, 'unwind');
+        if (stuck.length > 0) {
+          throw new LegRiskError(
+            `Entry failed (${failure}) and ${stuck.map(l => l.instrument).join(', ')} could not be unwound`,
+            stuck
+          );
+        }
+        throw new LegExecutionError(`Entry aborted: ${failure}; filled legs unwound`);
+      }
+    }
+
+    await this.recordLegs(filled);
+    console.log(`[LegOrders] ✅ ${this.options.strategyName}: ${direction} entry on ${filled.map(l => `${l.side} ${l.amount} ${l.instrument}`).join(', ')}`);
+    return { legs: filled, direction, openedAt: timestamp };
+  }
+
+  /**
+   * Close every leg of the position
+   * @throws LegRiskError with the legs that are still open
+   */
+  async exit(position: MultiLegPosition, reason: 'tp_hit' | 'sl_hit' | 'manual' | 'strategy_stop' = 'tp_hit'): Promise<void> {
+    const stuck = await this.closeLegs(position.legs, 'exit', reason);
+    if (stuck.length > 0) {
+      throw new LegRiskError(`Exit left ${stuck.map(l => l.instrument).join(', ')} open`, stuck);
+    }
+    console.log(`[LegOrders] ✅ ${this.options.strategyName}: all ${position.legs.length} legs closed (${reason})`);
+  }
+
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  /**
+   * Reduce-only market close per leg, with retries
+   * @returns legs that are still open
+   */
+  private async closeLegs(
+    legs: OpenLeg[],
+    purpose: 'unwind' | 'exit',
+    reason: 'tp_hit' | 'sl_hit' | 'manual' | 'strategy_stop' | 'error' = 'error'
+  ): Promise<OpenLeg[]> {
+    const retries = this.options.exitRetries ?? DEFAULT_EXIT_RETRIES;
+    const delay = this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    const stuck: OpenLeg[] = [];
+
+    for (const leg of legs) {
+      const side = leg.side === 'buy' ? 'sell' : 'buy';
+      const label = `${this.options.labelPrefix}_${purpose}_${Date.now()}`;
+      let remaining = leg.amount;
+      let exitPrice: number | null = null;
+
+      for (let attempt = 1; attempt <= retries && remaining > 0; attempt++) {
+        try {
+          const response = await this.send(leg.instrument, side, remaining, label, true);
+          const order = response.order ?? response;
+          remaining = Number((remaining - Number(order.filled_amount ?? 0)).toFixed(8));
+          exitPrice = Number(order.average_price) || exitPrice;
+        } catch (error: any) {
+          console.warn(`[LegOrders] ⚠️ ${purpose} ${leg.instrument} attempt ${attempt}/${retries} failed: ${error.message}`);
+        }
+        if (remaining > 0 && attempt < retries) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+
+      if (remaining > 0) {
+        stuck.push({ ...leg, amount: remaining });
+      } else if (leg.tradeId) {
+        await this.closeRecord(leg, exitPrice ?? leg.entryPrice, reason);
+      }
+    }
+
+    return stuck;
+  }
+
+  private send(instrument: string, side: 'buy' | 'sell', amount: number, label: string, reduceOnly: boolean): Promise<any> {
+    return side === 'buy'
+      ? this.client.placeBuyOrder(instrument, amount, undefined, 'market', label, reduceOnly)
+      : this.client.placeSellOrder(instrument, amount, undefined, 'market', label, reduceOnly);
+  }
+
+  /**
+   * One trade history record per leg; legs exit on the spread, so no SL/TP prices
+   */
+  private async recordLegs(legs: OpenLeg[]): Promise<void> {
+    try {
+      await ensureTradeHistoryInitialized();
+      const history = getTradeHistoryService();
+      for (const leg of legs) {
+        leg.tradeId = await history.recordTrade({
+          userId: this.options.userId,
+          configVersion: this.options.configVersion,
+          strategyName: this.options.strategyName,
+          instrument: leg.instrument,
+          side: leg.side,
+          entryOrderId: leg.orderId,
+          entryPrice: leg.entryPrice,
+          amount: leg.amount,
+          stopLoss: 0,
+          takeProfit: 0,
+        });
+      }
+    } catch (error: any) {
+      console.error(`[LegOrders] Failed to record legs in trade history:`, error.message);
+    }
+  }
+
+  /**
+   * PnL in USD, so the legs of a position add up: linear legs settle in the quote
+   * currency, inverse legs in coin, converted at the exit price
+   */
+  private async closeRecord(leg: OpenLeg, exitPrice: number, reason: 'tp_hit' | 'sl_hit' | 'manual' | 'strategy_stop' | 'error'): Promise<void> {
+    const direction = leg.side === 'buy' ? 1 : -1;
+    // Legs restored from trade history do not carry the flag
+    const inverse = leg.inverse ?? await this.isInverse(leg.instrument);
+    const pnl = inverse
+      ? leg.amount * (1 / leg.entryPrice - 1 / exitPrice) * direction * exitPrice
+      : (exitPrice - leg.entryPrice) * leg.amount * direction;
+    try {
+      await getTradeHistoryService().closeTrade({
+        tradeId: leg.tradeId!,
+        exitPrice,
+        exitReason: reason,
+        pnl,
+        pnlPercentage: ((exitPrice - leg.entryPrice) / leg.entryPrice) * 100 * direction,
+      });
+    } catch (error: any) {
+      console.error(`[LegOrders] Failed to close trade ${leg.tradeId}:`, error.message);
+    }
+  }
+
+  private async isInverse(instrument: string): Promise<boolean> {
+    try {
+      const meta = await this.client.getInstrument(instrument);
+      return meta?.instrument_type === 'reversed';
+    } catch (error: any) {
+      console.warn(`[LegOrders] ⚠️ No instrument details for ${instrument}, recording PnL as linear: ${error.message}`);
+      return false;
+    }
+  }
+}
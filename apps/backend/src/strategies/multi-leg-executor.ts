@@ -0,0 +1,376 @@
+/**
+ * Multi-Leg Strategy Executor
+ * Runs a MultiLegStrategy (pairs, basis, baskets) against a live broker client
+ *
+ * Ticks of every leg go through a LegSynchronizer; the strategy is evaluated once per
+ * minute that closed on all legs, and only while every leg has a fresh quote. Entries
+ * and exits go through LegOrderManager. After a LegRiskError (legs left unhedged) the
+ * executor stops trading until it is restarted. New entries follow config.schedule.
+ */
+
+import type { BackendDeribitClient } from '../deribit-client';
+import { instanceLabelPrefix, type CancelOnDisconnectPolicy } from '../deribit-cancel-on-disconnect';
+import type { AnalysisState, Checkpoint } from '../types/analysis';
+import type { MarketData, StrategyConfig } from './IStrategy';
+import { getTradeHistoryService, ensureTradeHistoryInitialized } from '../services/trade-history';
+import type { ConfigVersionRef } from '../services/ITradeHistoryStore';
+import {
+  MultiLegStrategy,
+  LegSynchronizer,
+  LegRiskError,
+  MultiLegAnalysis,
+  MultiLegPosition,
+  OpenLeg,
+  legKey,
+} from './multi-leg';
+import { LegOrderManager } from './leg-orders';
+import { candlesFromChartData } from './strategy-harness';
+import { TradingScheduleGate, type ScheduleState, type TradingSchedule } from './trading-schedule';
+
+export interface MultiLegConfig {
+  instruments: string[];
+  instrument?: string; // first leg, set by UserStrategyService
+  notionalUsd: number;
+  maxSkewMs?: number; // default 2000
+  maxHedgeErrorPct?: number; // default 10
+
+  // Which of this strategy's orders Deribit cancels if the backend disconnects (default: client policy)
+  cancelOnDisconnect?: CancelOnDisconnectPolicy;
+
+  // Session windows and blackouts for new entries (default: 24/7)
+  schedule?: TradingSchedule;
+
+  [parameter: string]: any; // strategy parameters
+}
+
+export type MultiLegClient = Pick<
+  BackendDeribitClient,
+  'getCandles' | 'getInstrument' | 'placeBuyOrder' | 'placeSellOrder' | 'setCancelOnDisconnectPolicy'
+>;
+
+const DEFAULT_MAX_SKEW_MS = 2000;
+const MAX_CANDLES = 500;
+
+export class MultiLegExecutor {
+  private readonly sync: LegSynchronizer;
+  private readonly orders: LegOrderManager;
+  private readonly strategyConfig: StrategyConfig;
+  private readonly labelPrefix: string; // <strategy name>_<instance>, see instanceLabelPrefix
+  private analysisState: AnalysisState;
+  private position: MultiLegPosition | null = null;
+  private lastEvaluatedMinute: number | null = null;
+  private evaluating = false;
+  private halted: string | null = null; // reason trading stopped after leg risk
+  private readonly schedule: TradingScheduleGate | null;
+  private scheduleState: ScheduleState | null = null;
+
+  constructor(
+    private readonly client: MultiLegClient,
+    private readonly strategyId: string,
+    private readonly strategyName: string,
+    private readonly config: MultiLegConfig,
+    private readonly strategy: MultiLegStrategy,
+    private readonly userId?: string,
+    configVersion?: ConfigVersionRef
+  ) {
+    this.strategyConfig = MultiLegExecutor.toStrategyConfig(config);
+    // Fail at construction, not on the first tick
+    strategy.validateConfig(this.strategyConfig);
+
+    this.schedule = config.schedule ? new TradingScheduleGate(config.schedule) : null;
+    this.labelPrefix = instanceLabelPrefix(strategyName.toLowerCase(), strategyId);
+    this.sync = new LegSynchronizer(config.instruments, config.maxSkewMs ?? DEFAULT_MAX_SKEW_MS, MAX_CANDLES);
+    this.orders = new LegOrderManager(client, {
+      strategyName,
+      labelPrefix: this.labelPrefix,
+      userId,
+      configVersion,
+      maxHedgeErrorPct: config.maxHedgeErrorPct,
+    });
+
+    this.analysisState = {
+      strategyId,
+      strategyName,
+      instrument: legKey(config.instruments),
+      status: 'initializing',
+      currentPrice: null,
+      lastUpdated: Date.now(),
+      indicators: {
+        emaFast: null,
+        emaSlow: null,
+        rsi: null,
+        volume: null,
+        volatility: null,
+      },
+      signal: { type: 'none', strength: 0, confidence: 0, reasons: [] },
+      checkpoints: [],
+      dataPoints: 0,
+      requiredDataPoints: 0,
+      cooldownUntil: null,
+      nextCheckAt: null,
+    };
+  }
+
+  /**
+   * MultiLegConfig as an IStrategy config; sizing comes from notionalUsd, not riskPercent
+   */
+  static toStrategyConfig(config: MultiLegConfig): StrategyConfig {
+    const { instruments, instrument, cancelOnDisconnect, schedule, ...parameters } = config;
+    return {
+      instrument: instruments?.[0] ?? instrument ?? '',
+      instruments,
+      timeframe: '1m',
+      riskPercent: 1,
+      parameters,
+    };
+  }
+
+  getInstruments(): string[] {
+    return this.config.instruments;
+  }
+
+  /**
+   * Load history for every leg and restore an open position from trade history
+   */
+  async initialize(): Promise<void> {
+    console.log(`[MultiLeg] INITIALIZE ${this.strategyName} on ${legKey(this.config.instruments)}`);
+    if (this.config.cancelOnDisconnect) {
+      this.client.setCancelOnDisconnectPolicy(`${this.labelPrefix}_`, this.config.cancelOnDisconnect);
+    }
+    await this.strategy.initialize(this.strategyConfig);
+    this.analysisState.requiredDataPoints = this.strategy.requiredCandles();
+
+    for (const instrument of this.config.instruments) {
+      try {
+        const candles = await this.client.getCandles(instrument, '1', MAX_CANDLES);
+        this.sync.seed(instrument, candlesFromChartData(candles));
+      } catch (err) {
+        console.error(`[MultiLeg] Failed to load historical candles for ${instrument}`, err);
+      }
+    }
+    this.lastEvaluatedMinute = this.sync.latestAlignedMinute();
+    this.analysisState.dataPoints = this.alignedCandles();
+
+    await this.reconcileOnStartup();
+    this.analysisState.status = this.position ? 'position_open' : 'analyzing';
+    this.analysisState.lastUpdated = Date.now();
+  }
+
+  getAnalysisState(): AnalysisState {
+    return { ...this.analysisState };
+  }
+
+  getPosition(): MultiLegPosition | null {
+    return this.position;
+  }
+
+  /**
+   * Ticker update of one leg
+   */
+  async onLegTicker(instrument: string, ticker: any, now: number = Date.now()): Promise<void> {
+    const data: MarketData = {
+      instrument,
+      price: ticker.last_price,
+      timestamp: now,
+      bid: ticker.best_bid_price ?? ticker.last_price,
+      ask: ticker.best_ask_price ?? ticker.last_price,
+      markPrice: ticker.mark_price,
+      indexPrice: ticker.index_price,
+      // Perpetual tickers only; Deribit quotes the rate over its 8h reference interval
+      ...(ticker.funding_8h !== undefined && { fundingRate: ticker.funding_8h, fundingIntervalHours: 8 }),
+    };
+    this.sync.update(data);
+    if (instrument === this.config.instruments[0]) {
+      this.analysisState.currentPrice = data.price;
+    }
+    this.analysisState.lastUpdated = now;
+
+    const minute = this.sync.latestAlignedMinute();
+    if (this.halted || this.evaluating || minute === null || minute === this.lastEvaluatedMinute) {
+      return;
+    }
+
+    const snapshot = this.sync.snapshot(now);
+    if (!snapshot) {
+      this.updateCheckpoints(null, now);
+      return;
+    }
+
+    this.evaluating = true;
+    this.lastEvaluatedMinute = minute;
+    try {
+      this.scheduleState = this.schedule?.evaluate(now) ?? null;
+      if (this.position && this.scheduleState && this.schedule!.shouldFlatten(this.scheduleState)) {
+        console.log(`[MultiLeg] 🚫 ${this.scheduleState.reason}: closing ${this.strategyName} legs`);
+        await this.orders.exit(this.position, 'manual');
+        this.schedule!.markFlattened(this.scheduleState);
+        this.position = null;
+        this.analysisState.status = 'analyzing';
+      }
+      const entriesAllowed = this.scheduleState?.tradingAllowed ?? true;
+
+      const candles = this.sync.candles();
+      this.analysisState.dataPoints = this.alignedCandles();
+      const analysis = await this.strategy.analyzeLegs(snapshot, candles, this.position);
+      this.updateAnalysis(analysis, now);
+
+      if (analysis.action === 'enter' && !entriesAllowed) {
+        this.analysisState.signal = { type: 'none', strength: 0, confidence: 0, reasons: [this.scheduleState!.reason] };
+      } else if (analysis.action === 'enter' && !this.position && analysis.legs && analysis.direction) {
+        this.analysisState.status = 'signal_detected';
+        this.position = await this.orders.enter(analysis.legs, snapshot, this.config.notionalUsd, analysis.direction);
+        this.analysisState.status = 'position_open';
+      } else if (analysis.action === 'exit' && this.position) {
+        await this.orders.exit(this.position, analysis.exitKind === 'stop' ? 'sl_hit' : 'tp_hit');
+        this.position = null;
+        this.analysisState.status = 'analyzing';
+      }
+    } catch (error: any) {
+      this.handleExecutionError(error);
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  /**
+   * Close all legs (strategy stopped by the user)
+   */
+  async closePosition(): Promise<void> {
+    if (!this.position) {
+      return;
+    }
+    try {
+      await this.orders.exit(this.position, 'strategy_stop');
+      this.position = null;
+    } catch (error: any) {
+      this.handleExecutionError(error);
+    }
+  }
+
+  /**
+   * Stop evaluating; ticks that still arrive are ignored
+   */
+  cleanup(): void {
+    this.halted = 'stopped';
+    this.analysisState.status = 'stopped';
+    if (this.config.cancelOnDisconnect) {
+      this.client.setCancelOnDisconnectPolicy(`${this.labelPrefix}_`, null);
+    }
+    console.log(`[MultiLeg] 🧹 ${this.strategyName} cleanup completed`);
+  }
+
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  private handleExecutionError(error: any): void {
+    if (error instanceof LegRiskError) {
+      // Position is no longer hedged: stop trading, keep the legs for a manual close
+      this.position = error.openLegs.length > 0
+        ? { legs: error.openLegs, direction: this.position?.direction ?? 'long', openedAt: this.position?.openedAt ?? Date.now() }
+        : null;
+      this.halted = error.message;
+      this.analysisState.status = 'stopped';
+      this.analysisState.signal = { type: 'none', strength: 0, confidence: 0, reasons: [`Leg risico: ${error.message}`] };
+      console.error(`[MultiLeg] 🚨 ${this.strategyName} halted: ${error.message}`);
+      return;
+    }
+    this.analysisState.status = this.position ? 'position_open' : 'analyzing';
+    console.error(`[MultiLeg] ❌ ${this.strategyName} execution failed: ${error?.message ?? error}`);
+  }
+
+  /**
+   * Open leg records from a previous run: all legs restore the position, some legs are unhedged
+   */
+  private async reconcileOnStartup(): Promise<void> {
+    try {
+      await ensureTradeHistoryInitialized();
+      const history = getTradeHistoryService();
+      const legs: OpenLeg[] = [];
+      for (const instrument of this.config.instruments) {
+        const trade = await history.getOpenTrade(this.strategyName, instrument);
+        if (trade) {
+          legs.push({
+            instrument,
+            side: trade.side,
+            amount: trade.amount,
+            entryPrice: trade.entryPrice,
+            orderId: trade.entryOrderId,
+            tradeId: trade.id,
+          });
+        }
+      }
+      if (legs.length === 0) {
+        return;
+      }
+
+      const position: MultiLegPosition = {
+        legs,
+        direction: legs[0].side === 'buy' ? 'long' : 'short',
+        openedAt: Date.now(),
+      };
+      if (legs.length === this.config.instruments.length) {
+        this.position = position;
+        console.log(`[MultiLeg] Restored ${position.direction} position on ${legs.length} legs`);
+        return;
+      }
+
+      console.warn(`[MultiLeg] ⚠️ Only ${legs.length}/${this.config.instruments.length} legs open after restart; closing them`);
+      await this.orders.exit(position, 'manual');
+    } catch (error: any) {
+      this.handleExecutionError(error);
+    }
+  }
+
+  private alignedCandles(): number {
+    return this.sync.candles()[this.config.instruments[0]].length;
+  }
+
+  private updateAnalysis(analysis: MultiLegAnalysis, now: number): void {
+    this.analysisState.indicators.zScore = analysis.indicators.zScore ?? null;
+    this.analysisState.indicators.hedgeRatio = analysis.indicators.hedgeRatio ?? null;
+    this.analysisState.signal = {
+      type: analysis.action === 'enter' ? (analysis.direction ?? 'none') : 'none',
+      strength: analysis.confidence,
+      confidence: analysis.confidence,
+      reasons: [analysis.reason],
+    };
+    this.updateCheckpoints(analysis, now);
+  }
+
+  private updateCheckpoints(analysis: MultiLegAnalysis | null, now: number): void {
+    const stale = this.sync.staleLegs(now);
+    const cps: Checkpoint[] = [
+      {
+        id: 'data',
+        label: 'Marktdata verzamelen',
+        status: this.analysisState.dataPoints >= this.analysisState.requiredDataPoints ? 'met' : 'pending',
+        value: `${this.analysisState.dataPoints}/${this.analysisState.requiredDataPoints}`,
+        description: 'Candles die op alle legs gesloten zijn',
+        timestamp: now,
+      },
+      {
+        id: 'sync',
+        label: 'Legs gesynchroniseerd',
+        status: stale.length === 0 ? 'met' : 'pending',
+        value: stale.length === 0 ? `${this.config.instruments.length} legs` : `wacht op ${stale.join(', ')}`,
+        description: 'Elke leg heeft een recente quote',
+        timestamp: now,
+      },
+    ];
+    if (analysis?.indicators.zScore !== undefined) {
+      cps.push({
+        id: 'zscore',
+        label: 'Spread z-score',
+        status: analysis.action === 'hold' ? 'pending' : 'met',
+        value: analysis.indicators.zScore.toFixed(2),
+        description: analysis.reason,
+        timestamp: now,
+      });
+    }
+    if (this.schedule && this.scheduleState) {
+      cps.push(this.schedule.checkpoint(this.scheduleState, now));
+    }
+    this.analysisState.checkpoints = cps;
+  }
+}
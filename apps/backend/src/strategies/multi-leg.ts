@@ -0,0 +1,312 @@
+/**
+ * Multi-Leg Strategies
+ * Strategies that trade several instruments as one position (pairs, basis, baskets)
+ *
+ * A multi-leg strategy gets one synchronized snapshot per evaluation: a quote for every
+ * leg (no older than the configured skew) and 1m candles aligned on the same minutes.
+ * It returns enter/exit/hold for the whole position; placing the legs, unwinding a
+ * failed entry and closing every leg on exit is the runtime's job (see leg-orders.ts).
+ *
+ * StrategyConfig.instruments lists the legs; StrategyConfig.instrument is the first leg.
+ */
+
+import type { StrategyConfig, MarketData, Candle, AnalysisResult, TradeSignal, IStrategy } from './IStrategy';
+import { BaseStrategy, StrategyError, StrategyConfigError } from './IStrategy';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Latest quote per leg, keyed by instrument
+ */
+export type LegSnapshot = Record<string, MarketData>;
+
+/**
+ * Closed 1m candles per leg; every leg has the same timestamps
+ */
+export type LegCandles = Record<string, Candle[]>;
+
+/**
+ * One leg of an entry: notional = weight × strategy notional
+ */
+export interface LegTarget {
+  instrument: string;
+  side: 'buy' | 'sell';
+  weight: number;
+}
+
+export interface OpenLeg {
+  instrument: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  entryPrice: number;
+  orderId: string;
+  tradeId?: string;          // trade history id
+  inverse?: boolean;         // inverse contract: amount in USD, PnL settles in coin
+}
+
+/**
+ * Position held by a multi-leg strategy; all legs open or none
+ */
+export interface MultiLegPosition {
+  legs: OpenLeg[];
+  direction: 'long' | 'short'; // of the spread / basket
+  openedAt: number;
+}
+
+export interface MultiLegAnalysis {
+  action: 'enter' | 'exit' | 'hold';
+  direction?: 'long' | 'short'; // for "enter"
+  legs?: LegTarget[];          // for "enter"
+  exitKind?: 'target' | 'stop' | 'time'; // for "exit"
+  confidence: number;          // 0-100
+  reason: string;
+  indicators: Record<string, number>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const LEG_SEPARATOR = '+';
+const MINUTE_MS = 60_000;
+
+/**
+ * Key for a set of legs, used where one instrument used to go (strategy key, DB column)
+ */
+export function legKey(instruments: string[]): string {
+  return instruments.join(LEG_SEPARATOR);
+}
+
+/**
+ * Legs of a key from legKey(); a plain instrument is a single leg
+ */
+export function parseLegKey(key: string): string[] {
+  return key.split(LEG_SEPARATOR);
+}
+
+/**
+ * Legs of a config (the instrument alone for single-instrument configs)
+ */
+export function configLegs(config: Pick<StrategyConfig, 'instrument' | 'instruments'>): string[] {
+  return config.instruments && config.instruments.length > 0 ? config.instruments : [config.instrument];
+}
+
+export function isMultiLegStrategy(strategy: IStrategy): strategy is MultiLegStrategy {
+  return strategy instanceof MultiLegStrategy;
+}
+
+// ============================================================================
+// Synchronizer
+// ============================================================================
+
+/**
+ * Aligns quotes and 1m candles of several instruments
+ *
+ * Each leg builds its own minute candles from ticks. candles() only returns minutes
+ * that closed on every leg, so indicators never mix a fresh price with a stale one.
+ */
+export class LegSynchronizer {
+  private quotes = new Map<string, MarketData>();
+  private current = new Map<string, Candle>();
+  private closed = new Map<string, Candle[]>();
+
+  constructor(
+    readonly instruments: string[],
+    private readonly maxSkewMs: number,
+    private readonly maxCandles: number = 500
+  ) {
+    for (const instrument of instruments) {
+      this.closed.set(instrument, []);
+    }
+  }
+
+  /**
+   * Replace a leg's history with candles loaded from the broker (oldest first)
+   */
+  seed(instrument: string, candles: Candle[]): void {
+    this.assertLeg(instrument);
+    this.closed.set(instrument, candles.slice(-this.maxCandles).map(c => ({ ...c, timestamp: minute(c.timestamp) })));
+  }
+
+  /**
+   * Record a quote and fold its price into the leg's current minute
+   */
+  update(data: MarketData): void {
+    this.assertLeg(data.instrument);
+    this.quotes.set(data.instrument, data);
+
+    const start = minute(data.timestamp);
+    const candle = this.current.get(data.instrument);
+    if (candle && candle.timestamp === start) {
+      candle.high = Math.max(candle.high, data.price);
+      candle.low = Math.min(candle.low, data.price);
+      candle.close = data.price;
+      return;
+    }
+    if (candle && candle.timestamp < start) {
+      const closed = this.closed.get(data.instrument)!;
+      if (closed[closed.length - 1]?.timestamp === candle.timestamp) {
+        closed.pop(); // seeded history ends with the minute that was still open
+      }
+      closed.push(candle);
+      if (closed.length > this.maxCandles) {
+        closed.shift();
+      }
+    }
+    this.current.set(data.instrument, {
+      timestamp: start, open: data.price, high: data.price, low: data.price, close: data.price, volume: 0,
+    });
+  }
+
+  /**
+   * Latest quote of every leg, or null while a leg has no quote within maxSkewMs of now
+   */
+  snapshot(now: number = Date.now()): LegSnapshot | null {
+    const snapshot: LegSnapshot = {};
+    for (const instrument of this.instruments) {
+      const quote = this.quotes.get(instrument);
+      if (!quote || now - quote.timestamp > this.maxSkewMs) {
+        return null;
+      }
+      snapshot[instrument] = quote;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Legs whose quote is missing or older than maxSkewMs
+   */
+  staleLegs(now: number = Date.now()): string[] {
+    return this.instruments.filter(i => {
+      const quote = this.quotes.get(i);
+      return !quote || now - quote.timestamp > this.maxSkewMs;
+    });
+  }
+
+  /**
+   * Closed candles on the minutes every leg has
+   */
+  candles(): LegCandles {
+    const common = this.commonMinutes();
+    const result: LegCandles = {};
+    for (const instrument of this.instruments) {
+      result[instrument] = this.closed.get(instrument)!.filter(c => common.has(c.timestamp));
+    }
+    return result;
+  }
+
+  /**
+   * Start of the latest minute closed on every leg (null before the first one)
+   */
+  latestAlignedMinute(): number | null {
+    let latest: number | null = null;
+    for (const timestamp of this.commonMinutes()) {
+      latest = latest === null ? timestamp : Math.max(latest, timestamp);
+    }
+    return latest;
+  }
+
+  private commonMinutes(): Set<number> {
+    const [first, ...rest] = this.instruments.map(i => this.closed.get(i)!);
+    let common = new Set(first.map(c => c.timestamp));
+    for (const candles of rest) {
+      const own = new Set(candles.map(c => c.timestamp));
+      common = new Set([...common].filter(t => own.has(t)));
+    }
+    return common;
+  }
+
+  private assertLeg(instrument: string): void {
+    if (!this.closed.has(instrument)) {
+      throw new StrategyError(`${instrument} is not a leg of ${legKey(this.instruments)}`);
+    }
+  }
+}
+
+function minute(timestamp: number): number {
+  return Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+}
+
+// ============================================================================
+// Base Class
+// ============================================================================
+
+/**
+ * MultiLegStrategy - base class for strategies over two or more instruments
+ *
+ * Implement analyzeLegs(); the single-instrument analyze()/generateSignal() path is
+ * not available and throws.
+ */
+export abstract class MultiLegStrategy extends BaseStrategy {
+  /**
+   * Minimum aligned candles per leg before analyzeLegs() can signal
+   */
+  abstract requiredCandles(): number;
+
+  /**
+   * Decide on the whole position from a synchronized snapshot
+   * @param position - open position of this strategy, or null when flat
+   */
+  abstract analyzeLegs(snapshot: LegSnapshot, candles: LegCandles, position: MultiLegPosition | null): Promise<MultiLegAnalysis>;
+
+  legs(): string[] {
+    this.assertInitialized();
+    return configLegs(this.config);
+  }
+
+  async analyze(_marketData: MarketData, _candles: Candle[]): Promise<AnalysisResult> {
+    throw new StrategyError(`${this.metadata.name} is a multi-leg strategy; use analyzeLegs()`);
+  }
+
+  async generateSignal(_analysis: AnalysisResult, _marketData: MarketData): Promise<TradeSignal> {
+    throw new StrategyError(`${this.metadata.name} is a multi-leg strategy; entries come from analyzeLegs()`);
+  }
+
+  calculateStopLoss(_entryPrice: number, _side: 'buy' | 'sell', _marketData: MarketData): number {
+    throw new StrategyError(`${this.metadata.name} exits on the spread, not on per-leg stops`);
+  }
+
+  calculateTakeProfit(_entryPrice: number, _side: 'buy' | 'sell', _marketData: MarketData): number {
+    throw new StrategyError(`${this.metadata.name} exits on the spread, not on per-leg targets`);
+  }
+
+  validateConfig(config: StrategyConfig): void {
+    const legs = config.instruments;
+    if (!legs || legs.length < 2) {
+      throw new StrategyConfigError(`${this.metadata.name} needs at least 2 instruments`);
+    }
+    if (new Set(legs).size !== legs.length) {
+      throw new StrategyConfigError(`${this.metadata.name} instruments must be distinct: ${legs.join(', ')}`);
+    }
+    if (config.instrument !== legs[0]) {
+      throw new StrategyConfigError(`${this.metadata.name} instrument must be the first leg (${legs[0]})`);
+    }
+    super.validateConfig(config);
+  }
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Entry aborted; every leg that did fill was unwound, nothing is left open
+ */
+export class LegExecutionError extends StrategyError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LegExecutionError';
+  }
+}
+
+/**
+ * Legs are left open unhedged (unwind or exit failed); needs attention
+ */
+export class LegRiskError extends StrategyError {
+  constructor(message: string, readonly openLegs: OpenLeg[]) {
+    super(message);
+    this.name = 'LegRiskError';
+  }
+}
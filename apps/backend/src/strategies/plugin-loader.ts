@@ -0,0 +1,189 @@
+/**
+ * Strategy Plugin Loader
+ * Hot-loads sandboxed IStrategy plugins from a directory into the StrategyRegistry
+ *
+ * Every *.js / *.cjs file in the directory is one plugin (contract: PluginStrategy.ts).
+ * Adding or saving a file (re)loads it, deleting it unregisters the strategy. A plugin
+ * that fails to load is reported in getStatus() and leaves the previous version running.
+ * Plugins cannot replace strategies compiled into bootstrap.ts.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { StrategyRegistry, strategyRegistry } from './StrategyRegistry';
+import { PluginStrategy } from './PluginStrategy';
+import { PluginSandbox, SandboxOptions, DEFAULT_SANDBOX_OPTIONS } from './plugin-sandbox';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PluginLoaderOptions {
+  dir: string;
+  sandbox?: SandboxOptions;
+  debounceMs?: number; // editors emit several events per save, default 200
+}
+
+export interface PluginStatus {
+  file: string;
+  strategyName: string | null; // registered name, null if never loaded
+  version: string | null;
+  loadedAt: number | null;
+  error: string | null; // last load error
+}
+
+const PLUGIN_EXTENSIONS = ['.js', '.cjs'];
+
+// ============================================================================
+// Loader
+// ============================================================================
+
+export class StrategyPluginLoader {
+  private watcher: fs.FSWatcher | null = null;
+  private status = new Map<string, PluginStatus>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private queue: Promise<void> = Promise.resolve(); // one (re)load at a time
+
+  constructor(
+    private readonly options: PluginLoaderOptions,
+    private readonly registry: StrategyRegistry = strategyRegistry
+  ) {}
+
+  /**
+   * Load every plugin in the directory and start watching it
+   * @returns number of plugins registered
+   */
+  async start(): Promise<number> {
+    const { dir } = this.options;
+    if (!fs.existsSync(dir)) {
+      console.warn(`[PluginLoader] ⚠️ Plugin directory not found, skipping: ${dir}`);
+      return 0;
+    }
+
+    for (const file of fs.readdirSync(dir).filter(isPluginFile).sort()) {
+      await this.enqueue(file);
+    }
+
+    this.watcher = fs.watch(dir, (_event, filename) => {
+      if (filename && isPluginFile(filename.toString())) {
+        this.schedule(filename.toString());
+      }
+    });
+    this.watcher.on('error', (error) => {
+      console.error('[PluginLoader] ❌ Watcher error:', error.message);
+    });
+
+    const loaded = this.getStatus().filter(s => s.strategyName && !s.error).length;
+    console.log(`[PluginLoader] ✅ Watching ${dir} (${loaded} plugin(s) loaded)`);
+    return loaded;
+  }
+
+  /**
+   * Stop watching and unregister all plugin strategies
+   */
+  async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    await this.queue;
+
+    for (const file of [...this.status.keys()]) {
+      await this.unload(file);
+    }
+  }
+
+  getStatus(): PluginStatus[] {
+    return [...this.status.values()];
+  }
+
+  /**
+   * (Re)load or unload one file now, depending on whether it exists
+   */
+  reload(file: string): Promise<void> {
+    return this.enqueue(file);
+  }
+
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  private schedule(file: string): void {
+    clearTimeout(this.timers.get(file));
+    this.timers.set(file, setTimeout(() => {
+      this.timers.delete(file);
+      void this.enqueue(file);
+    }, this.options.debounceMs ?? 200));
+  }
+
+  private enqueue(file: string): Promise<void> {
+    this.queue = this.queue.then(() => this.sync(file)).catch((error) => {
+      console.error(`[PluginLoader] ❌ ${file}:`, error);
+    });
+    return this.queue;
+  }
+
+  private async sync(file: string): Promise<void> {
+    const fullPath = path.join(this.options.dir, file);
+    if (!fs.existsSync(fullPath)) {
+      await this.unload(file);
+      return;
+    }
+
+    const previous = this.status.get(file);
+    const sandbox = new PluginSandbox(file, fs.readFileSync(fullPath, 'utf8'), this.options.sandbox ?? DEFAULT_SANDBOX_OPTIONS);
+
+    let strategy: PluginStrategy;
+    try {
+      strategy = await PluginStrategy.load(sandbox);
+      const name = strategy.metadata.name;
+      const owner = this.getStatus().find(s => s.strategyName === name);
+      if (this.registry.has(name) && owner?.file !== file) {
+        throw new Error(owner
+          ? `strategy name "${name}" is already used by plugin ${owner.file}`
+          : `strategy name "${name}" is a built-in strategy`);
+      }
+    } catch (error: any) {
+      await sandbox.terminate();
+      console.error(`[PluginLoader] ❌ Failed to load ${file}: ${error.message}`);
+      this.status.set(file, {
+        file,
+        strategyName: previous?.strategyName ?? null,
+        version: previous?.version ?? null,
+        loadedAt: previous?.loadedAt ?? null,
+        error: error.message,
+      });
+      return;
+    }
+
+    // A renamed plugin drops its old registration
+    if (previous?.strategyName && previous.strategyName !== strategy.metadata.name) {
+      await this.registry.unregister(previous.strategyName);
+    }
+    await this.registry.reload(strategy.metadata.name, strategy);
+
+    this.status.set(file, {
+      file,
+      strategyName: strategy.metadata.name,
+      version: strategy.metadata.version,
+      loadedAt: Date.now(),
+      error: null,
+    });
+    console.log(`[PluginLoader] ✅ Loaded ${strategy.metadata.name} v${strategy.metadata.version} from ${file}`);
+  }
+
+  private async unload(file: string): Promise<void> {
+    const status = this.status.get(file);
+    this.status.delete(file);
+    if (status?.strategyName && this.registry.has(status.strategyName)) {
+      await this.registry.unregister(status.strategyName);
+      console.log(`[PluginLoader] Unloaded ${status.strategyName} (${file} removed)`);
+    }
+  }
+}
+
+function isPluginFile(file: string): boolean {
+  return PLUGIN_EXTENSIONS.includes(path.extname(file)) && !file.startsWith('.');
+}
@@ -0,0 +1,285 @@
+/**
+ * Strategy Plugin Sandbox
+ * Runs strategy plugin code off the main thread
+ *
+ * Each plugin gets its own worker thread with an empty environment (no process.env, argv or
+ * execArgv of the backend). Inside it the plugin source runs in a vm context whose global has
+ * no prototype link to host objects, with string code generation disabled. Three limits apply:
+ * - CPU: every call into the plugin runs under the vm timeout
+ * - Memory: worker resourceLimits (heap), exceeding it kills the worker
+ * - Wall clock: the main thread terminates a worker that does not answer in time
+ *
+ * Values cross the boundary as JSON, so plugin code never holds host objects.
+ * A terminated worker is respawned with the same source on the next call.
+ *
+ * A vm context is not a security boundary: this limits mistakes and runaway plugins, it does
+ * not make arbitrary third-party code safe to run. Only install plugins you trust.
+ */
+
+import { Worker } from 'worker_threads';
+import { StrategyError } from './IStrategy';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SandboxOptions {
+  timeoutMs: number; // CPU budget per call
+  memoryMb: number; // worker old-generation heap
+}
+
+export const DEFAULT_SANDBOX_OPTIONS: SandboxOptions = {
+  timeoutMs: 250,
+  memoryMb: 64,
+};
+
+/** Methods a plugin module may export besides `metadata` */
+export type PluginMethod =
+  | 'initialize' | 'analyze' | 'generateSignal'
+  | 'onOrderUpdate' | 'onFill' | 'onPositionOpened' | 'onPositionClosed' | 'onError';
+
+export interface PluginManifest {
+  metadata: any;
+  methods: PluginMethod[];
+}
+
+export class PluginError extends StrategyError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PluginError';
+  }
+}
+
+export class PluginTimeoutError extends PluginError {
+  constructor(filename: string, method: string, timeoutMs: number) {
+    super(`Plugin ${filename} exceeded ${timeoutMs}ms in ${method}()`);
+    this.name = 'PluginTimeoutError';
+  }
+}
+
+// Grace on top of the vm timeout for messaging and JSON (de)serialisation
+const WALL_CLOCK_GRACE_MS = 1000;
+const LOAD_TIMEOUT_FACTOR = 4; // module evaluation may precompute tables
+
+// ============================================================================
+// Worker source
+// ============================================================================
+
+/**
+ * Runs as a CommonJS script via `new Worker(..., { eval: true })`, so it works the same
+ * under tsx, vitest and the compiled build. The realm bridge (__load/__call) is defined
+ * inside the context: arguments go in and results come out as JSON strings.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+// Null prototype: a host-realm object here would expose the host Function via
+// this.constructor.constructor and with it the worker's process
+const context = vm.createContext(Object.create(null), {
+  name: workerData.filename,
+  codeGeneration: { strings: false, wasm: false },
+});
+
+vm.runInContext(\`
+  'use strict';
+  var __logs = [];
+  var console = {
+    log: function () { __logs.push(Array.prototype.map.call(arguments, String).join(' ')); },
+  };
+  console.info = console.warn = console.error = console.log;
+  var module = { exports: {} };
+  var exports = module.exports;
+  var __plugin = null;
+  var __drainLogs = function () { var out = __logs; __logs = []; return JSON.stringify(out); };
+  var __load = function () {
+    __plugin = module.exports && module.exports.default ? module.exports.default : module.exports;
+    if (!__plugin || typeof __plugin !== 'object') throw new Error('Plugin must export an object');
+    if (!__plugin.metadata || typeof __plugin.metadata.name !== 'string') throw new Error('Plugin must export metadata with a name');
+    if (typeof __plugin.analyze !== 'function') throw new Error('Plugin must export analyze()');
+    var methods = [
+      'initialize', 'analyze', 'generateSignal',
+      'onOrderUpdate', 'onFill', 'onPositionOpened', 'onPositionClosed', 'onError'
+    ].filter(function (m) { return typeof __plugin[m] === 'function'; });
+    return JSON.stringify({ metadata: __plugin.metadata, methods: methods });
+  };
+  var __call = function (method, argsJson) {
+    var result = __plugin[method].apply(__plugin, JSON.parse(argsJson));
+    if (result && typeof result.then === 'function') throw new Error(method + '() must be synchronous');
+    return JSON.stringify(result === undefined ? null : result);
+  };
+\`, context, { timeout: workerData.timeoutMs });
+
+function run(code, timeout) {
+  try {
+    return vm.runInContext(code, context, { timeout, filename: workerData.filename });
+  } finally {
+    for (const line of JSON.parse(vm.runInContext('__drainLogs()', context))) {
+      parentPort.postMessage({ type: 'log', line });
+    }
+  }
+}
+
+parentPort.on('message', (message) => {
+  try {
+    let result;
+    if (message.type === 'load') {
+      new vm.Script(message.source, { filename: workerData.filename })
+        .runInContext(context, { timeout: workerData.timeoutMs * ${LOAD_TIMEOUT_FACTOR} });
+      result = run('__load()', workerData.timeoutMs);
+    } else {
+      context.__method = message.method;
+      context.__args = message.args;
+      result = run('__call(__method, __args)', workerData.timeoutMs);
+    }
+    parentPort.postMessage({ type: 'result', id: message.id, ok: true, result });
+  } catch (error) {
+    const timedOut = error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+    parentPort.postMessage({ type: 'result', id: message.id, ok: false, timedOut, error: String(error) });
+  }
+});
+`;
+
+// ============================================================================
+// Sandbox
+// ============================================================================
+
+interface PendingCall {
+  method: string;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class PluginSandbox {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingCall>();
+  private nextId = 1;
+  private manifest: PluginManifest | null = null;
+
+  constructor(
+    readonly filename: string,
+    private readonly source: string,
+    private readonly options: SandboxOptions = DEFAULT_SANDBOX_OPTIONS
+  ) {}
+
+  /**
+   * Evaluate the plugin module and read its exports
+   * @throws PluginError when the module is invalid, throws, or runs out of time
+   */
+  async load(): Promise<PluginManifest> {
+    const manifest = JSON.parse(await this.send('load', { source: this.source }, LOAD_TIMEOUT_FACTOR)) as PluginManifest;
+    this.manifest = manifest;
+    return manifest;
+  }
+
+  /**
+   * Call an exported plugin function; arguments and result are JSON-cloned
+   */
+  async call<T>(method: PluginMethod, ...args: any[]): Promise<T> {
+    if (!this.worker) {
+      // Respawned after a crash or timeout: evaluate the module again first
+      await this.load();
+    }
+    return JSON.parse(await this.send('call', { method, args: JSON.stringify(args) }, 1)) as T;
+  }
+
+  hasMethod(method: PluginMethod): boolean {
+    return this.manifest?.methods.includes(method) ?? false;
+  }
+
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    this.rejectPending(new PluginError(`Plugin ${this.filename} was unloaded`));
+    if (worker) {
+      await worker.terminate();
+    }
+  }
+
+  // ==========================================================================
+  // Worker management
+  // ==========================================================================
+
+  private spawn(): Worker {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      argv: [],
+      execArgv: [],
+      workerData: { filename: this.filename, timeoutMs: this.options.timeoutMs },
+      resourceLimits: {
+        maxOldGenerationSizeMb: this.options.memoryMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.round(this.options.memoryMb / 8)),
+      },
+    });
+
+    worker.on('message', (message: any) => {
+      if (message.type === 'log') {
+        console.log(`[Plugin:${this.filename}] ${message.line}`);
+        return;
+      }
+      const call = this.pending.get(message.id);
+      if (!call) return;
+      this.pending.delete(message.id);
+      clearTimeout(call.timer);
+      if (message.ok) {
+        call.resolve(message.result);
+      } else if (message.timedOut) {
+        call.reject(new PluginTimeoutError(this.filename, call.method, this.options.timeoutMs));
+      } else {
+        call.reject(new PluginError(`Plugin ${this.filename} ${call.method}() failed: ${message.error}`));
+      }
+    });
+
+    // Out-of-memory and other fatal errors end the worker; the next call respawns it
+    worker.on('error', (error) => {
+      console.error(`[PluginSandbox] ❌ ${this.filename} worker crashed:`, error.message);
+      this.discard(worker, new PluginError(`Plugin ${this.filename} crashed: ${error.message}`));
+    });
+    worker.on('exit', () => {
+      this.discard(worker, new PluginError(`Plugin ${this.filename} worker exited`));
+    });
+
+    worker.unref();
+    return worker;
+  }
+
+  private send(type: 'load' | 'call', payload: Record<string, any>, budgetFactor: number): Promise<string> {
+    if (!this.worker) {
+      this.worker = this.spawn();
+    }
+    const worker = this.worker;
+    const id = this.nextId++;
+    const method = type === 'load' ? 'load' : payload.method;
+    const wallClockMs = this.options.timeoutMs * budgetFactor + WALL_CLOCK_GRACE_MS;
+
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // The vm timeout did not fire (e.g. stuck outside plugin code): kill the worker
+        console.error(`[PluginSandbox] ⚠️ ${this.filename} unresponsive for ${wallClockMs}ms, terminating worker`);
+        this.pending.delete(id);
+        this.discard(worker, new PluginError(`Plugin ${this.filename} worker terminated`));
+        void worker.terminate();
+        reject(new PluginTimeoutError(this.filename, method, this.options.timeoutMs));
+      }, wallClockMs);
+
+      this.pending.set(id, { method, resolve, reject, timer });
+      worker.postMessage({ id, type, ...payload });
+    });
+  }
+
+  private discard(worker: Worker, reason: Error): void {
+    if (this.worker !== worker) return;
+    this.worker = null;
+    this.rejectPending(reason);
+  }
+
+  private rejectPending(reason: Error): void {
+    for (const call of this.pending.values()) {
+      clearTimeout(call.timer);
+      call.reject(reason);
+    }
+    this.pending.clear();
+  }
+}
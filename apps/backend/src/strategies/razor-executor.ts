@@ -1,13 +1,24 @@
 /**
  * Razor Strategy Executor
  * Full implementation with real-time analysis tracking
+ *
+ * Signals come from RazorStrategy via StrategyHarness; this class adds cooldown,
+ * session windows/blackouts, reconciliation, break-even stops and the UI analysis state.
  */
 
 import type { BackendDeribitClient } from '../deribit-client';
+import { DeribitBroker } from '../brokers/DeribitBroker';
+import type { BrokerPosition, IBroker } from '../brokers/IBroker';
+import { instanceLabelPrefix, type CancelOnDisconnectPolicy } from '../deribit-cancel-on-disconnect';
 import type { AnalysisState, Checkpoint, PositionMetrics } from '../types/analysis';
 import { getTradeHistoryService, ensureTradeHistoryInitialized } from '../services/trade-history';
+import type { ConfigVersionRef } from '../services/ITradeHistoryStore';
 import { deriveExitDetails } from '../services/trade-finalizer';
 import { getOrderLifecycleManager, initializeOrderLifecycleManager } from '../services/order-lifecycle-manager';
+import type { AnalysisResult, Candle, StrategyConfig } from './IStrategy';
+import { RazorStrategy, RAZOR_REQUIRED_CANDLES } from './RazorStrategy';
+import { StrategyHarness, candlesFromChartData, roundAmount, toSignalState } from './strategy-harness';
+import { TradingScheduleGate, type ScheduleState, type TradingSchedule } from './trading-schedule';
 
 export interface RazorConfig {
   instrument: string;
@@ -55,31 +66,30 @@ export interface RazorConfig {
   rsiOversold: number; // 35 = strengere oversold (was 40)
   rsiOverbought: number; // 65 = strengere overbought (was 60)
   rsiExtremeThreshold?: number; // Extra extreme RSI voor bonus score (default 25/75)
+
+  // Which of this strategy's orders Deribit cancels if the backend disconnects (default: client policy)
+  cancelOnDisconnect?: CancelOnDisconnectPolicy;
+
+  // Session windows and blackouts for new entries (default: 24/7)
+  schedule?: TradingSchedule;
 }
 
+// 5m/15m trend EMAs need 21 aggregated candles: 21 x 15 = 315 1m candles
+const MAX_CANDLES = 400;
+
 export class RazorExecutor {
   private client: BackendDeribitClient;
+  private broker: IBroker; // positions through the broker abstraction, on the same client
   private config: RazorConfig;
   private strategyId: string;
   private strategyName: string;
   private userId?: string; // FASE 3: Multi-user support
+  private configVersion?: ConfigVersionRef; // stamped on trades
   
   private analysisState: AnalysisState;
-  private priceHistory: number[] = []; // Candle close prices (1m)
-  private highHistory: number[] = []; // Candle highs (1m)
-  private lowHistory: number[] = []; // Candle lows (1m)
-  private currentCandle: { open: number; high: number; low: number; close: number; timestamp: number } | null = null;
-  private candleStartTime: number = Date.now();
-  private candleInterval: number = 60000; // 1 minute
+  private harness: StrategyHarness; // 1m candles, daily limit, bracket orders
+  private readonly labelPrefix: string; // razor_<instance>, see instanceLabelPrefix
   private lastTradeTime: number = 0;
-  private dailyTrades: number = 0;
-  private dailyResetTime: number = Date.now();
-  
-  // MULTI-TIMEFRAME DATA (voor trend filter)
-  private candles5m: number[] = []; // 5-minute candle closes
-  private candles15m: number[] = []; // 15-minute candle closes
-  private last5mCandleTime: number = 0;
-  private last15mCandleTime: number = 0;
   
   // Trade history tracking
   private currentTradeId: string | null = null;
@@ -87,6 +97,10 @@ export class RazorExecutor {
   // Cooldown logging (prevent spam)
   private lastCooldownLog: number = 0;
 
+  // Session windows / blackouts (null: trades 24/7)
+  private schedule: TradingScheduleGate | null;
+  private scheduleState: ScheduleState | null = null;
+
   // Mock ticker scheduler for development
   private mockTickerInterval: NodeJS.Timeout | null = null;
 
@@ -99,13 +113,26 @@ export class RazorExecutor {
     strategyId: string,
     strategyName: string,
     config: RazorConfig,
-    userId?: string // FASE 3: Optional userId for multi-user support
+    userId?: string, // FASE 3: Optional userId for multi-user support
+    configVersion?: ConfigVersionRef
   ) {
     this.client = client;
+    this.broker = new DeribitBroker(client);
     this.strategyId = strategyId;
     this.strategyName = strategyName;
     this.config = config;
-    this.userId = userId; // FASE 3: Store userId    // Initialize analysis state
+    this.userId = userId; // FASE 3: Store userId
+    this.configVersion = configVersion;
+    this.schedule = config.schedule ? new TradingScheduleGate(config.schedule) : null;
+    this.labelPrefix = instanceLabelPrefix('razor', strategyId);
+    this.harness = new StrategyHarness(client, new RazorStrategy(), RazorExecutor.toStrategyConfig(config), {
+      strategyName,
+      labelPrefix: this.labelPrefix,
+      maxCandles: MAX_CANDLES,
+      userId,
+      configVersion,
+    });
+    // Initialize analysis state
     this.analysisState = {
       strategyId,
       strategyName,
@@ -136,13 +163,26 @@ export class RazorExecutor {
       },
       checkpoints: [],
       dataPoints: 0,
-      requiredDataPoints: 15, // Reduced from 20 to 15 for faster startup
+      requiredDataPoints: RAZOR_REQUIRED_CANDLES,
       cooldownUntil: null,
       nextCheckAt: Date.now() + 5000,
     };
     
     // DON'T call initializeHistoricalData here - it will be called via initialize()
   }
+
+  /**
+   * RazorConfig as an IStrategy config (throws when a required parameter is missing)
+   */
+  static toStrategyConfig(config: RazorConfig): StrategyConfig {
+    const { instrument, cancelOnDisconnect, schedule, ...parameters } = config;
+    return {
+      instrument,
+      timeframe: '1m',
+      riskPercent: config.stopLossPercent, // sized by notional: a trade risks its stop distance
+      parameters,
+    };
+  }
   
   /**
    * PUBLIC: Initialize strategy (call this after constructor)
@@ -150,11 +190,16 @@ export class RazorExecutor {
    */
   async initialize(): Promise<void> {
     console.log('[Razor] 🚀 INITIALIZE CALLED - Starting strategy initialization');
+    if (this.config.cancelOnDisconnect) {
+      this.client.setCancelOnDisconnectPolicy(`${this.labelPrefix}_`, this.config.cancelOnDisconnect);
+    }
     try {
       // Initialize order lifecycle manager (singleton)
       initializeOrderLifecycleManager(this.client);
       
       await this.initializeHistoricalData();
+      await this.harness.startEvents(getOrderLifecycleManager());
+      await this.harness.startMarkPriceFeed();
       console.log('[Razor] ✅ INITIALIZE COMPLETE - Strategy ready');
       
       // DISABLED: Mock ticker updates interfere with real ticker data
@@ -177,7 +222,7 @@ export class RazorExecutor {
       
       let candles;
       try {
-        candles = await this.client.getCandles(this.config.instrument, '1', 200); // Increased from 100 to 200
+        candles = await this.client.getCandles(this.config.instrument, '1', MAX_CANDLES); // enough for the 15m trend EMAs
       } catch (error) {
         console.warn(`[Razor] ❌ Failed to fetch historical candles from Deribit:`, (error as Error).message);
         console.log(`[Razor] Will generate mock historical data for development...`);
@@ -186,25 +231,25 @@ export class RazorExecutor {
         candles = this.generateMockCandles(150); // Generate 150 mock candles
       }
       
-      if (candles && candles.close && Array.isArray(candles.close)) {
-        this.priceHistory = candles.close.slice(-150); // Keep last 150 candles
-        this.analysisState.dataPoints = this.priceHistory.length;
+      const history = Array.isArray(candles) ? candles : candlesFromChartData(candles);
+      if (history.length > 0) {
+        this.harness.seedCandles(history);
+        const closes = this.harness.getCloses();
+        this.analysisState.dataPoints = closes.length;
         
-        console.log(`[Razor] ✅ Loaded ${this.priceHistory.length} historical candles`);
-        console.log(`[Razor] Price range: $${Math.min(...this.priceHistory).toFixed(2)} - $${Math.max(...this.priceHistory).toFixed(2)}`);
+        console.log(`[Razor] ✅ Loaded ${closes.length} historical candles`);
+        console.log(`[Razor] Price range: $${Math.min(...closes).toFixed(2)} - $${Math.max(...closes).toFixed(2)}`);
         
         // Set current price from latest candle
-        if (this.priceHistory.length > 0) {
-          this.analysisState.currentPrice = this.priceHistory[this.priceHistory.length - 1];
-        }
+        this.analysisState.currentPrice = closes[closes.length - 1];
         
         // If we have enough data, calculate indicators immediately
-        if (this.priceHistory.length >= this.analysisState.requiredDataPoints) {
+        if (closes.length >= this.analysisState.requiredDataPoints) {
           await this.calculateIndicators();
           this.updateCheckpoints();
           this.analysisState.status = 'analyzing';
           this.analysisState.lastUpdated = Date.now();
-          console.log(`[Razor] ✅ Ready to analyze with ${this.priceHistory.length} candles`);
+          console.log(`[Razor] ✅ Ready to analyze with ${closes.length} candles`);
           console.log(`[Razor] Indicators: EMA Fast $${this.analysisState.indicators.emaFast?.toFixed(2)}, RSI ${this.analysisState.indicators.rsi?.toFixed(1)}, Volatility ${this.analysisState.indicators.volatility?.toFixed(2)}%`);
         } else {
           // Initialize basic checkpoints even with insufficient data
@@ -213,23 +258,19 @@ export class RazorExecutor {
       } else {
         console.warn(`[Razor] ⚠️ No historical candles available, generating mock data...`);
         // Generate mock data as fallback
-        this.priceHistory = this.generateMockCandles(150).close;
-        this.analysisState.dataPoints = this.priceHistory.length;
-        this.analysisState.currentPrice = this.priceHistory[this.priceHistory.length - 1];
+        this.useMockCandles();
         
         await this.calculateIndicators();
         this.updateCheckpoints();
         this.analysisState.status = 'analyzing';
-        console.log(`[Razor] ✅ Using mock data - ready to analyze with ${this.priceHistory.length} candles`);
+        console.log(`[Razor] ✅ Using mock data - ready to analyze with ${this.analysisState.dataPoints} candles`);
       }
     } catch (error) {
       console.error(`[Razor] ❌ Failed to initialize historical data:`, error);
       console.log(`[Razor] Generating mock data as final fallback...`);
       
       // Final fallback: generate mock data
-      this.priceHistory = this.generateMockCandles(150).close;
-      this.analysisState.dataPoints = this.priceHistory.length;
-      this.analysisState.currentPrice = this.priceHistory[this.priceHistory.length - 1];
+      this.useMockCandles();
       
       await this.calculateIndicators();
       this.updateCheckpoints();
@@ -263,11 +304,7 @@ export class RazorExecutor {
       console.log(`[Razor] 📊 Database: ${openTrades.length} open trade(s)`);
       
       // Step 2: Get Deribit state
-      const positions = await this.client.getPositions('USDC');
-      const ourPosition = positions.find((p: any) => 
-        p.size !== 0 && 
-        (p.instrument_name === this.config.instrument || p.instrument === this.config.instrument)
-      );
+      const [ourPosition] = await this.broker.getPositions(this.config.instrument);
       
       console.log(`[Razor] 📊 Deribit: ${ourPosition ? 'Position OPEN' : 'No position'}`);
       
@@ -305,7 +342,7 @@ export class RazorExecutor {
       if (openTrades.length > 0 && ourPosition) {
         console.log(`\n[Razor] ✅ STATE CONSISTENT`);
         console.log(`[Razor] Database trade: ${openTrades[0].id}`);
-        console.log(`[Razor] Deribit position: ${Math.abs(ourPosition.size)} @ $${ourPosition.average_price}`);
+        console.log(`[Razor] Deribit position: ${ourPosition.size} @ $${ourPosition.entryPrice}`);
         console.log(`[Razor] 🔄 Resuming position tracking...`);
         
         this.currentTradeId = openTrades[0].id;
@@ -361,9 +398,10 @@ export class RazorExecutor {
   /**
    * Create database trade from existing Deribit position (orphan recovery)
    */
-  private async createTradeFromPosition(position: any): Promise<void> {
+  private async createTradeFromPosition(position: BrokerPosition): Promise<void> {
     try {
       const tradeHistory = getTradeHistoryService();
+      const isLong = position.side === 'long';
       
       // Get open orders to find SL/TP
       const openOrders = await this.client.getOpenOrders(this.config.instrument);
@@ -372,27 +410,28 @@ export class RazorExecutor {
       
       // Calculate SL/TP prices
       const stopLoss = slOrder ? (slOrder.trigger_price || slOrder.price) : 
-                      position.size > 0 ? position.average_price * 0.995 : position.average_price * 1.005;
+                      isLong ? position.entryPrice * 0.995 : position.entryPrice * 1.005;
       const takeProfit = tpOrder ? tpOrder.price : 
-                        position.size > 0 ? position.average_price * 1.01 : position.average_price * 0.99;
+                        isLong ? position.entryPrice * 1.01 : position.entryPrice * 0.99;
       
       // Create database record
       this.currentTradeId = await tradeHistory.recordTrade({
         userId: this.userId, // FASE 3: Multi-user support
+        configVersion: this.configVersion,
         strategyName: this.strategyName,
         instrument: this.config.instrument,
-        side: position.size > 0 ? 'buy' : 'sell',
+        side: isLong ? 'buy' : 'sell',
         entryOrderId: 'auto_resume',
         slOrderId: slOrder?.order_id || null,
         tpOrderId: tpOrder?.order_id || null,
-        entryPrice: position.average_price,
-        amount: Math.abs(position.size),
+        entryPrice: position.entryPrice,
+        amount: position.size,
         stopLoss,
         takeProfit,
       });
       
       console.log(`[Razor] ✅ Created DB record: ${this.currentTradeId}`);
-      console.log(`[Razor]    Entry: $${position.average_price}`);
+      console.log(`[Razor]    Entry: $${position.entryPrice}`);
       console.log(`[Razor]    SL: ${slOrder?.order_id || 'N/A'}`);
       console.log(`[Razor]    TP: ${tpOrder?.order_id || 'N/A'}`);
     } catch (error) {
@@ -411,10 +450,7 @@ export class RazorExecutor {
       console.log('[Razor] 🔍 Checking for orphan trades at startup...');
       
       // Check if position actually exists on Deribit (do this ONCE at top)
-      const positions = await this.client.getPositions('USDC');
-      const hasPosition = positions.some((p: any) => 
-        p.size !== 0 && (p.instrument_name === this.config.instrument || p.instrument === this.config.instrument)
-      );
+      const [position] = await this.broker.getPositions(this.config.instrument);
       
       // Query database for open trades for this strategy
       const tradeHistory = getTradeHistoryService();
@@ -425,21 +461,19 @@ export class RazorExecutor {
       });
       
       // CASE 1: No DB trade, No Deribit position → Clean startup
-      if (openTrades.length === 0 && !hasPosition) {
+      if (openTrades.length === 0 && !position) {
         console.log('[Razor] ✅ No open trades in database - clean startup');
         console.log('[Razor] ✅ No position in Deribit - ready for new trades');
         return;
       }
       
       // CASE 2: No DB trade, BUT Deribit position exists → Create DB record (auto-resume)
-      if (openTrades.length === 0 && hasPosition) {
-        const position = positions.find((p: any) => 
-          p.size !== 0 && (p.instrument_name === this.config.instrument || p.instrument === this.config.instrument)
-        );
+      if (openTrades.length === 0 && position) {
+        const isLong = position.side === 'long';
         
         console.log(`\n${'='.repeat(80)}`);
         console.log('[Razor] 🔄 AUTO-RESUME: Position without database trade');
-        console.log(`[Razor] Position: ${Math.abs(position.size)} contracts @ $${position.average_price}`);
+        console.log(`[Razor] Position: ${position.size} contracts @ $${position.entryPrice}`);
         console.log('[Razor] 📝 Creating database record for existing position...');
         console.log(`${'='.repeat(80)}\n`);
         
@@ -450,28 +484,29 @@ export class RazorExecutor {
         
         // Calculate SL/TP prices from orders (or estimate if not found)
         const stopLoss = slOrder ? slOrder.trigger_price || slOrder.price : 
-                        position.size > 0 ? position.average_price * 0.995 : position.average_price * 1.005;
+                        isLong ? position.entryPrice * 0.995 : position.entryPrice * 1.005;
         const takeProfit = tpOrder ? tpOrder.price : 
-                          position.size > 0 ? position.average_price * 1.01 : position.average_price * 0.99;
+                          isLong ? position.entryPrice * 1.01 : position.entryPrice * 0.99;
         
         // Record trade in database
         this.currentTradeId = await tradeHistory.recordTrade({
           userId: this.userId, // FASE 3: Multi-user support
+          configVersion: this.configVersion,
           strategyName: this.strategyName,
           instrument: this.config.instrument,
-          side: position.size > 0 ? 'buy' : 'sell',
+          side: isLong ? 'buy' : 'sell',
           entryOrderId: 'auto_resume',
           slOrderId: slOrder?.order_id || null,
           tpOrderId: tpOrder?.order_id || null,
-          entryPrice: position.average_price,
-          amount: Math.abs(position.size),
+          entryPrice: position.entryPrice,
+          amount: position.size,
           stopLoss,
           takeProfit
         });
         
         console.log('[Razor] ✅ Database trade record created:');
         console.log(`[Razor]    Trade ID: ${this.currentTradeId}`);
-        console.log(`[Razor]    Entry: $${position.average_price}`);
+        console.log(`[Razor]    Entry: $${position.entryPrice}`);
         console.log(`[Razor]    SL Order: ${slOrder?.order_id || 'N/A'}`);
         console.log(`[Razor]    TP Order: ${tpOrder?.order_id || 'N/A'}`);
         console.log('[Razor] Setting status to position_open - will monitor for close');
@@ -485,7 +520,7 @@ export class RazorExecutor {
       
       console.log(`[Razor] 📊 Found open trade in database: ${this.currentTradeId}`);
       
-      if (!hasPosition) {
+      if (!position) {
         // ORPHAN DETECTED: Database says open, but no Deribit position
         console.log(`\n${'='.repeat(80)}`);
         console.log('[Razor] ⚠️  ORPHAN TRADE DETECTED AT STARTUP');
@@ -543,13 +578,9 @@ export class RazorExecutor {
         console.log('[Razor] ✅ Orphan cleanup complete - ready for new trades');
       } else {
         // Position exists WITH database trade - normal resume
-        const position = positions.find((p: any) => 
-          p.size !== 0 && (p.instrument_name === this.config.instrument || p.instrument === this.config.instrument)
-        );
-        
         console.log(`[Razor] ✅ Found position matching database trade`);
         console.log(`[Razor]    Trade ID: ${this.currentTradeId}`);
-        console.log(`[Razor]    Position: ${Math.abs(position.size)} contracts @ $${position.average_price}`);
+        console.log(`[Razor]    Position: ${position.size} contracts @ $${position.entryPrice}`);
         console.log('[Razor] Setting status to position_open - will monitor for close');
         this.analysisState.status = 'position_open';
       }
@@ -582,10 +613,7 @@ export class RazorExecutor {
       await this.maybeAdjustStops();
 
       // Check if position still exists
-      const positions = await this.client.getPositions('USDC');
-      const position = positions.find((p: any) =>
-        p.size !== 0 && (p.instrument_name === this.config.instrument || p.instrument === this.config.instrument)
-      );
+      const [position] = await this.broker.getPositions(this.config.instrument);
 
       if (!position) {
         // Position is closed - resume strategy
@@ -671,7 +699,15 @@ export class RazorExecutor {
   console.log(`[Razor]    Entry Price: $${trade.entryPrice.toFixed(2)}`);
   console.log(`[Razor]    ${pnlColor}: $${exitDetails.pnl.toFixed(2)} (${exitDetails.pnlPercentage.toFixed(2)}%)`);
       console.log(`[Razor]    Trade ID: ${this.currentTradeId}`);
-      
+
+      void this.harness.events.positionClosed({
+        instrument: this.config.instrument,
+        tradeId: this.currentTradeId,
+        exitReason: exitDetails.exitReason,
+        exitPrice: exitDetails.exitPrice,
+        pnl: exitDetails.pnl,
+        timestamp: Date.now(),
+      });
       this.currentTradeId = null;
     } catch (error) {
       console.error('[Razor] Error closing trade history:', error);
@@ -725,6 +761,8 @@ export class RazorExecutor {
    * Builds 1-minute candles from tick data
    */
   async onTicker(price?: number): Promise<void> {
+    const session = await this.checkSchedule(Date.now());
+
     // CRITICAL: Don't analyze if position is already open - strategy should pause
     if (this.analysisState.status === 'position_open') {
       // Still update current price for display
@@ -748,60 +786,15 @@ export class RazorExecutor {
     this.analysisState.lastUpdated = Date.now();
     
     const now = Date.now();
-    const timeSinceCandleStart = now - this.candleStartTime;
     
     // Track if we just closed a candle (for trade execution timing)
-    let candleJustClosed = false;
-    
-    // Check if we need to close current candle and start new one
-    if (timeSinceCandleStart >= this.candleInterval) {
-      // Close current candle if exists
-      if (this.currentCandle) {
-        this.priceHistory.push(this.currentCandle.close);
-          this.highHistory.push(this.currentCandle.high);
-          this.lowHistory.push(this.currentCandle.low);
-        if (this.priceHistory.length > 100) {
-          this.priceHistory.shift(); // Keep last 100 candles
-            this.highHistory.shift();
-            this.lowHistory.shift();
-        }
-        console.log(`[Razor] Candle closed: $${this.currentCandle.close} (${this.priceHistory.length} total)`);
-        candleJustClosed = true;
-      }
-      
-      // Start new candle
-      this.currentCandle = {
-        open: price as number,
-        high: price as number,
-        low: price as number,
-        close: price as number,
-        timestamp: now,
-      };
-      this.candleStartTime = now;
-    } else {
-      // Update current candle
-      if (!this.currentCandle) {
-        this.currentCandle = {
-          open: price as number,
-          high: price as number,
-          low: price as number,
-          close: price as number,
-          timestamp: now,
-        };
-      } else {
-        this.currentCandle.high = Math.max(this.currentCandle.high, price as number);
-        this.currentCandle.low = Math.min(this.currentCandle.low, price as number);
-        this.currentCandle.close = price as number;
-      }
+    const candleJustClosed = this.harness.onPrice(price as number, now);
+    const candleCount = this.harness.getCandles().length;
+    if (candleJustClosed) {
+      console.log(`[Razor] Candle closed: $${this.harness.getCloses()[candleCount - 1]} (${candleCount} total)`);
     }
     
-    this.analysisState.dataPoints = this.priceHistory.length;
-    
-    // Reset daily trades counter
-    if (now - this.dailyResetTime > 24 * 60 * 60 * 1000) {
-      this.dailyTrades = 0;
-      this.dailyResetTime = now;
-    }
+    this.analysisState.dataPoints = candleCount;
     
     // Check if we're in cooldown
     if (this.analysisState.cooldownUntil && now < this.analysisState.cooldownUntil) {
@@ -823,6 +816,9 @@ export class RazorExecutor {
         description: 'Wachten na vorige trade',
         timestamp: now,
       }];
+      if (session) {
+        this.analysisState.checkpoints.push(this.schedule!.checkpoint(session, now));
+      }
       return;
     }
     
@@ -834,7 +830,7 @@ export class RazorExecutor {
     }
     
     // Wait for enough candle data
-    if (this.priceHistory.length < this.analysisState.requiredDataPoints) {
+    if (candleCount < this.analysisState.requiredDataPoints) {
       this.analysisState.status = 'initializing';
       this.analysisState.indicators = {
         emaFast: null,
@@ -847,29 +843,36 @@ export class RazorExecutor {
         id: 'data_collection',
         label: 'Verzamelen van marktdata',
         status: 'pending',
-        value: `${this.priceHistory.length}/${this.analysisState.requiredDataPoints} candles`,
-        description: `Wachten op ${this.analysisState.requiredDataPoints - this.priceHistory.length} meer 1-min candles voor valide analyse`,
+        value: `${candleCount}/${this.analysisState.requiredDataPoints} candles`,
+        description: `Wachten op ${this.analysisState.requiredDataPoints - candleCount} meer 1-min candles voor valide analyse`,
         timestamp: now,
       }];
+      if (session) {
+        this.analysisState.checkpoints.push(this.schedule!.checkpoint(session, now));
+      }
       
       // Allow basic analysis with fewer candles (at least 5 for minimal RSI)
-      if (this.priceHistory.length >= 5) {
+      if (candleCount >= 5) {
         await this.calculateIndicators();
         this.analysisState.status = 'analyzing';
-        console.log(`[Razor] 🚀 Starting basic analysis with ${this.priceHistory.length} candles (minimum required)`);
+        console.log(`[Razor] 🚀 Starting basic analysis with ${candleCount} candles (minimum required)`);
       }
       
       return;
     }
     
     // Calculate indicators with complete candle data
-    await this.calculateIndicators();
+    const analysis = await this.calculateIndicators();
     
     // Update checkpoints
     this.updateCheckpoints();
     
     // Check for entry signal
-    const signal = this.analyzeEntry();
+    const signal = this.harness.dailyLimitReached(this.config.maxDailyTrades, now)
+      ? { type: 'none' as const, strength: 0, confidence: 0, reasons: ['Dagelijkse limiet bereikt'] }
+      : session && !session.tradingAllowed
+        ? { type: 'none' as const, strength: 0, confidence: 0, reasons: [session.reason] }
+        : toSignalState(analysis);
     this.analysisState.signal = signal;
     
     // CRITICAL: Only execute trades on candle close to prevent rate limit abuse
@@ -877,7 +880,7 @@ export class RazorExecutor {
       console.log(`[Razor] ${signal.type.toUpperCase()} SIGNAL DETECTED - Strength: ${signal.strength.toFixed(2)}, Confidence: ${signal.confidence?.toFixed(2)}%`);
       this.analysisState.status = 'signal_detected';
       // Execute trade
-      await this.executeTrade(signal.type);
+      await this.executeTrade(analysis);
     } else {
       this.analysisState.status = 'analyzing';
       if (signal.type !== 'none') {
@@ -887,300 +890,52 @@ export class RazorExecutor {
   }
 
   /**
-   * Calculate technical indicators
-   * ENHANCED: Multi-timeframe trend filter voor 70%+ winrate
-   */
-  private async calculateIndicators(): Promise<void> {
-    const prices = this.priceHistory;
-    
-    // === 1-MINUTE TIMEFRAME (Entry Signals) ===
-    
-    // EMA Fast (8-period) - Quick trend
-    this.analysisState.indicators.emaFast = this.calculateEMA(prices, 8);
-    
-    // EMA Slow (21-period) - Major trend
-    this.analysisState.indicators.emaSlow = this.calculateEMA(prices, 21);
-    
-    // RSI (14-period) - Overbought/Oversold
-    this.analysisState.indicators.rsi = this.calculateRSI(prices, 14);
-    
-    // Volatility (standard deviation of last 20 prices)
-    this.analysisState.indicators.volatility = this.calculateVolatility(prices.slice(-20));
-    
-    // Volume (mock for now - would need real volume data)
-    this.analysisState.indicators.volume = 1000;
-
-    // ATR (Average True Range) using high/low/close history
-    this.analysisState.indicators.atr = this.calculateATR(
-      this.highHistory,
-      this.lowHistory,
-      this.priceHistory,
-      this.config.atrPeriod || 14
-    );
-
-    // === MULTI-TIMEFRAME TREND FILTER (5m + 15m) ===
-    // Dit voorkomt counter-trend trades en verhoogt winrate naar 70%+
-    
-    if (this.config.useTrendFilter !== false) { // Default enabled
-      // Aggregate 1m candles into 5m and 15m timeframes
-      this.update5mCandles();
-      this.update15mCandles();
-      
-      // 5-minute EMAs
-      const ema5mFastPeriod = this.config.ema5mFastPeriod || 8;
-      const ema5mSlowPeriod = this.config.ema5mSlowPeriod || 21;
-      
-      if (this.candles5m.length >= ema5mSlowPeriod) {
-        this.analysisState.indicators.emaFast3m = this.calculateEMA(this.candles5m, ema5mFastPeriod);
-        this.analysisState.indicators.emaSlow3m = this.calculateEMA(this.candles5m, ema5mSlowPeriod);
-      }
-      
-      // 15-minute EMAs
-      const ema15mFastPeriod = this.config.ema15mFastPeriod || 8;
-      const ema15mSlowPeriod = this.config.ema15mSlowPeriod || 21;
-      
-      if (this.candles15m.length >= ema15mSlowPeriod) {
-        this.analysisState.indicators.emaFast5m = this.calculateEMA(this.candles15m, ema15mFastPeriod);
-        this.analysisState.indicators.emaSlow5m = this.calculateEMA(this.candles15m, ema15mSlowPeriod);
-      }
-      
-      // Calculate trend alignment score (-3 to +3)
-      // +3 = All timeframes bullish, -3 = All bearish, 0 = Mixed/Neutral
-      let trendScore = 0;
-      
-      // 1-minute trend
-      if (this.analysisState.indicators.emaFast && this.analysisState.indicators.emaSlow) {
-        trendScore += this.analysisState.indicators.emaFast > this.analysisState.indicators.emaSlow ? 1 : -1;
-      }
-      
-      // 5-minute trend
-      if (this.analysisState.indicators.emaFast3m && this.analysisState.indicators.emaSlow3m) {
-        trendScore += this.analysisState.indicators.emaFast3m > this.analysisState.indicators.emaSlow3m ? 1 : -1;
-      }
-      
-      // 15-minute trend
-      if (this.analysisState.indicators.emaFast5m && this.analysisState.indicators.emaSlow5m) {
-        trendScore += this.analysisState.indicators.emaFast5m > this.analysisState.indicators.emaSlow5m ? 1 : -1;
-      }
-      
-      this.analysisState.indicators.trendScore = trendScore;
-    } else {
-      this.analysisState.indicators.trendScore = null;
-    }
-
-    // Pullback readiness: detect recent impulse then partial retrace
-    this.analysisState.indicators.pullbackReady = this.detectPullbackReady(
-      prices,
-      this.highHistory,
-      this.lowHistory,
-      this.config.pullbackPercent || 0.15
-    );
-  }
-  
-  /**
-   * Update 5-minute candles from 1-minute data
-   * Aggregates every 5 completed 1-minute candles
-   */
-  private update5mCandles(): void {
-    const now = Date.now();
-    const fiveMinutes = 5 * 60 * 1000;
-    
-    // Check if we should create a new 5m candle
-    if (this.last5mCandleTime === 0) {
-      this.last5mCandleTime = Math.floor(now / fiveMinutes) * fiveMinutes;
-    }
-    
-    if (now - this.last5mCandleTime >= fiveMinutes && this.priceHistory.length >= 5) {
-      // Take last 5 completed 1m candles and aggregate
-      const last5Candles = this.priceHistory.slice(-5);
-      const candle5mClose = last5Candles[last5Candles.length - 1];
-      
-      this.candles5m.push(candle5mClose);
-      
-      // Keep last 100 5m candles
-      if (this.candles5m.length > 100) {
-        this.candles5m.shift();
-      }
-      
-      this.last5mCandleTime = now;
-      console.log(`[Razor] 5m candle closed: $${candle5mClose.toFixed(2)} (${this.candles5m.length} total)`);
-    }
-  }
-  
-  /**
-   * Update 15-minute candles from 1-minute data
-   * Aggregates every 15 completed 1-minute candles
-   */
-  private update15mCandles(): void {
-    const now = Date.now();
-    const fifteenMinutes = 15 * 60 * 1000;
-    
-    // Check if we should create a new 15m candle
-    if (this.last15mCandleTime === 0) {
-      this.last15mCandleTime = Math.floor(now / fifteenMinutes) * fifteenMinutes;
-    }
-    
-    if (now - this.last15mCandleTime >= fifteenMinutes && this.priceHistory.length >= 15) {
-      // Take last 15 completed 1m candles and aggregate
-      const last15Candles = this.priceHistory.slice(-15);
-      const candle15mClose = last15Candles[last15Candles.length - 1];
-      
-      this.candles15m.push(candle15mClose);
-      
-      // Keep last 100 15m candles
-      if (this.candles15m.length > 100) {
-        this.candles15m.shift();
-      }
-      
-      this.last15mCandleTime = now;
-      console.log(`[Razor] 15m candle closed: $${candle15mClose.toFixed(2)} (${this.candles15m.length} total)`);
-    }
-  }
-  
-  /**
-   * Calculate Exponential Moving Average
+   * Schedule state for this tick; closes the open position when a blackout asks to flatten,
+   * retrying on later ticks until the close succeeds
    */
-  private calculateEMA(prices: number[], period: number): number {
-    if (prices.length < period) {
-      // With fewer prices, use simple moving average as fallback
-      return prices.reduce((sum, p) => sum + p, 0) / prices.length;
-    }
-    
-    const multiplier = 2 / (period + 1);
-    let ema = prices.slice(0, period).reduce((sum, p) => sum + p, 0) / period;
-    
-    for (let i = period; i < prices.length; i++) {
-      ema = (prices[i] - ema) * multiplier + ema;
-    }
-    
-    return ema;
-  }
-
-  /** Calculate ATR */
-  private calculateATR(highs: number[], lows: number[], closes: number[], period: number): number | null {
-    if (highs.length < period + 1 || lows.length < period + 1 || closes.length < period + 1) {
-      // With fewer data points, calculate simple average true range
-      if (highs.length >= 2 && lows.length >= 2 && closes.length >= 2) {
-        const trs: number[] = [];
-        const availableCount = Math.min(highs.length - 1, lows.length - 1, closes.length - 1);
-        for (let i = 1; i <= availableCount; i++) {
-          const h = highs[i];
-          const l = lows[i];
-          const cPrev = closes[i - 1];
-          const tr = Math.max(h - l, Math.abs(h - cPrev), Math.abs(l - cPrev));
-          trs.push(tr);
-        }
-        return trs.length > 0 ? trs.reduce((sum, v) => sum + v, 0) / trs.length : null;
-      }
+  private async checkSchedule(now: number): Promise<ScheduleState | null> {
+    if (!this.schedule) {
       return null;
     }
-    const trs: number[] = [];
-    for (let i = highs.length - period; i < highs.length; i++) {
-      const h = highs[i];
-      const l = lows[i];
-      const cPrev = closes[i - 1];
-      const tr = Math.max(h - l, Math.abs(h - cPrev), Math.abs(l - cPrev));
-      trs.push(tr);
-    }
-    const atr = trs.reduce((sum, v) => sum + v, 0) / trs.length;
-    return atr;
-  }
-
-  /** Aggregate 1m closes into N-minute timeframe synthetic closes */
-  private aggregateTimeframe(closes: number[], n: number): number[] {
-    if (closes.length < n) return closes.slice();
-    const agg: number[] = [];
-    for (let i = 0; i < closes.length; i += n) {
-      const slice = closes.slice(i, i + n);
-      if (slice.length === n) agg.push(slice[slice.length - 1]);
-    }
-    return agg;
-  }
-
-  /** Detect pullback readiness: impulse move then partial retrace within threshold */
-  private detectPullbackReady(closes: number[], highs: number[], lows: number[], pullbackPct: number): boolean | null {
-    if (closes.length < 20) return null;
-    const recent = closes.slice(-10);
-    const start = recent[0];
-    const end = recent[recent.length - 1];
-    const move = end - start;
-    if (Math.abs(move) < start * 0.001) return false; // need at least 0.1% impulse
-    // Find max excursion then retrace
-    const peak = Math.max(...recent);
-    const trough = Math.min(...recent);
-    if (move > 0) {
-      const retrace = peak - end; // long impulse then pullback
-      return retrace / (peak - start) >= pullbackPct;
-    } else {
-      const retrace = end - trough; // short impulse then pullback up
-      return retrace / (start - trough) >= pullbackPct;
-    }
-  }
-  
-  /**
-   * Calculate RSI (Relative Strength Index)
-   */
-  private calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) {
-      // For fewer candles, use a shorter period or return neutral
-      const availablePeriod = Math.max(2, prices.length - 1);
-      if (prices.length < 3) return 50; // Neutral RSI with very few data points
-      
-      const changes = [];
-      for (let i = 1; i < prices.length; i++) {
-        changes.push(prices[i] - prices[i - 1]);
+    this.scheduleState = this.schedule.evaluate(now);
+    if (this.analysisState.status === 'position_open' && this.schedule.shouldFlatten(this.scheduleState)) {
+      console.log(`[Razor] 🚫 ${this.scheduleState.reason}: closing position`);
+      try {
+        await this.harness.applyAction({ type: 'close_position', reason: this.scheduleState.reason });
+        this.schedule.markFlattened(this.scheduleState);
+      } catch (error) {
+        console.error('[Razor] Blackout flatten failed, retrying next tick:', error);
       }
-      
-      const gains = changes.map(c => c > 0 ? c : 0);
-      const losses = changes.map(c => c < 0 ? -c : 0);
-      
-      const avgGain = gains.reduce((sum, g) => sum + g, 0) / availablePeriod;
-      const avgLoss = losses.reduce((sum, l) => sum + l, 0) / availablePeriod;
-      
-      if (avgLoss === 0) return 100;
-      const rs = avgGain / avgLoss;
-      return 100 - (100 / (1 + rs));
-    }
-    
-    const changes = [];
-    for (let i = 1; i < prices.length; i++) {
-      changes.push(prices[i] - prices[i - 1]);
     }
-    
-    const gains = changes.map(c => c > 0 ? c : 0);
-    const losses = changes.map(c => c < 0 ? -c : 0);
-    
-    const avgGain = gains.slice(-period).reduce((sum, g) => sum + g, 0) / period;
-    const avgLoss = losses.slice(-period).reduce((sum, l) => sum + l, 0) / period;
-    
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
+    return this.scheduleState;
   }
-  
+
   /**
-   * Calculate volatility (standard deviation)
-   * Enhanced for scalping: uses high-low range for better sensitivity
+   * Run RazorStrategy over the candle history and mirror its indicators into the analysis state
    */
-  private calculateVolatility(prices: number[]): number {
-    if (prices.length < 2) return 0.05; // Default 0.05% for scalping (not 0)
-    
-    // Method 1: Standard deviation (original)
-    const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-    const squaredDiffs = prices.map(p => Math.pow(p - mean, 2));
-    const variance = squaredDiffs.reduce((sum, d) => sum + d, 0) / prices.length;
-    const stdDevPercent = (Math.sqrt(variance) / mean) * 100;
+  private async calculateIndicators(): Promise<AnalysisResult> {
+    const closes = this.harness.getCloses();
+    const analysis = await this.harness.analyze(this.analysisState.currentPrice ?? closes[closes.length - 1]);
+    const values = analysis.indicators;
     
-    // Method 2: High-Low range (better for scalping)
-    const high = Math.max(...prices);
-    const low = Math.min(...prices);
-    const rangePercent = ((high - low) / mean) * 100;
-    
-    // Use the higher of the two for better signal detection
-    const volatility = Math.max(stdDevPercent, rangePercent);
+    this.analysisState.indicators = {
+      emaFast: values.emaFast ?? null,
+      emaSlow: values.emaSlow ?? null,
+      rsi: values.rsi ?? null,
+      // Volume (mock for now - would need real volume data)
+      volume: 1000,
+      volatility: values.volatility ?? null,
+      atr: values.atr ?? null,
+      // UI slots: "3m" shows the 5m EMAs and "5m" the 15m EMAs
+      emaFast3m: values.emaFast5m ?? null,
+      emaSlow3m: values.emaSlow5m ?? null,
+      emaFast5m: values.emaFast15m ?? null,
+      emaSlow5m: values.emaSlow15m ?? null,
+      trendScore: values.trendScore ?? null,
+      pullbackReady: analysis.metadata?.pullbackReady ?? null,
+    };
     
-    // Ensure minimum 0.01% for active markets
-    return Math.max(volatility, 0.01);
+    return analysis;
   }
   
   /**
@@ -1188,6 +943,7 @@ export class RazorExecutor {
    */
   private updateCheckpoints(): void {
     const { indicators } = this.analysisState;
+    const closes = this.harness.getCloses();
     const checkpoints: Checkpoint[] = [];
     
     // Technical Checkpoint 1: Volatility (entry requirement)
@@ -1244,8 +1000,8 @@ export class RazorExecutor {
     }
 
     // Technical Checkpoint 4: ATR Band
-    if (indicators.atr && this.priceHistory.length) {
-      const last = this.priceHistory[this.priceHistory.length - 1];
+    if (indicators.atr && closes.length) {
+      const last = closes[closes.length - 1];
       const atrPct = (indicators.atr / last) * 100;
       const inBand = atrPct >= 0.03 && atrPct <= 0.8;
       checkpoints.push({
@@ -1285,9 +1041,9 @@ export class RazorExecutor {
     }
     
   // Momentum (recent movement)
-    if (this.priceHistory.length >= 5) {
-      const oldPrice = this.priceHistory[this.priceHistory.length - 5];
-      const currentPrice = this.priceHistory[this.priceHistory.length - 1];
+    if (closes.length >= 5) {
+      const oldPrice = closes[closes.length - 5];
+      const currentPrice = closes[closes.length - 1];
       const momentum = ((currentPrice - oldPrice) / oldPrice) * 100;
       const hasMomentum = Math.abs(momentum) > 0.05; // SCALPING: 0.05% minimum (was 0.1%)
       
@@ -1314,6 +1070,11 @@ export class RazorExecutor {
       timestamp: Date.now(),
     });
 
+    // Session window / blackout
+    if (this.schedule && this.scheduleState) {
+      checkpoints.push(this.schedule.checkpoint(this.scheduleState));
+    }
+
     // Features summary checkpoint
     checkpoints.push({
       id: 'feature_flags',
@@ -1337,180 +1098,16 @@ export class RazorExecutor {
     this.analysisState.checkpoints = checkpoints;
   }
   
-  /**
-   * Analyze entry conditions
-   * HIGH-FREQUENCY SCALPING: 50-150 trades/day, 80%+ winrate, min 1:1.5 R:R
-   */
-  private analyzeEntry(): { type: 'long' | 'short' | 'none'; strength: number; confidence: number; reasons: string[] } {
-    const { indicators } = this.analysisState;
-    const reasons: string[] = [];
-    let longScore = 0;
-    let shortScore = 0;
-    
-    // Check daily limit
-    if (this.dailyTrades >= this.config.maxDailyTrades) {
-      return { type: 'none', strength: 0, confidence: 0, reasons: ['Dagelijkse limiet bereikt'] };
-    }
-    
-    // Volatility filter (retain trade count but reject extremes)
-    if (indicators.volatility !== null) {
-      if (indicators.volatility < this.config.minVolatility) {
-        return { type: 'none', strength: 0, confidence: 0, reasons: ['Volatiliteit te laag'] };
-      }
-      if (indicators.volatility > this.config.maxVolatility) {
-        return { type: 'none', strength: 0, confidence: 0, reasons: ['Volatiliteit extreem hoog'] };
-      }
-      if (indicators.volatility >= 0.08 && indicators.volatility <= 0.6) {
-        longScore += 8; shortScore += 8; reasons.push('Sweet spot volatiliteit');
-      }
-    }
-    
-  // RSI PRIMARY SIGNAL (adaptive weight with trend alignment)
-    if (indicators.rsi !== null) {
-      if (indicators.rsi < this.config.rsiOversold) {
-        // Oversold = LONG signal
-        const oversoldStrength = this.config.rsiOversold - indicators.rsi;
-    longScore += Math.min(35 + oversoldStrength, 48);
-        reasons.push(`RSI oversold (${indicators.rsi.toFixed(1)})`);
-        
-        // EMA trend confirmation
-        if (indicators.emaFast && indicators.emaSlow && indicators.emaFast > indicators.emaSlow) {
-          longScore += 20;
-          reasons.push('EMA trend bevestigt LONG');
-        } else if (indicators.emaFast && indicators.emaSlow) {
-          longScore += 5; // Kleine bonus zelfs zonder trend
-        }
-      } else if (indicators.rsi > this.config.rsiOverbought) {
-        // Overbought = SHORT signal
-        const overboughtStrength = indicators.rsi - this.config.rsiOverbought;
-    shortScore += Math.min(35 + overboughtStrength, 48);
-        reasons.push(`RSI overbought (${indicators.rsi.toFixed(1)})`);
-        
-        // EMA trend confirmation
-        if (indicators.emaFast && indicators.emaSlow && indicators.emaFast < indicators.emaSlow) {
-          shortScore += 20;
-          reasons.push('EMA trend bevestigt SHORT');
-        } else if (indicators.emaFast && indicators.emaSlow) {
-          shortScore += 5; // Kleine bonus zelfs zonder trend
-        }
-      }
-    }
-    
-    // Momentum (micro-move confirmation)
-    if (this.priceHistory.length >= 5) {
-      const oldPrice = this.priceHistory[this.priceHistory.length - 5];
-      const currentPrice = this.priceHistory[this.priceHistory.length - 1];
-      const momentum = ((currentPrice - oldPrice) / oldPrice) * 100;
-      
-      if (momentum > 0.05) {
-        longScore += 15;
-        reasons.push('Positief momentum');
-      } else if (momentum < -0.05) {
-        shortScore += 15;
-        reasons.push('Negatief momentum');
-      }
-    }
-
-    // ATR band suitability (avoid ultra-tight or too wide relative range)
-    if (indicators.atr && this.priceHistory.length > 0) {
-      const last = this.priceHistory[this.priceHistory.length - 1];
-      const atrPct = (indicators.atr / last) * 100;
-      if (atrPct >= 0.03 && atrPct <= 0.8) {
-        longScore += 6; shortScore += 6; reasons.push('ATR in normaal bereik');
-      } else if (atrPct < 0.02) {
-        reasons.push('ATR te laag (risico op chop)');
-      } else if (atrPct > 1.0) {
-        reasons.push('ATR te hoog (risico op whipsaw)');
-      }
-    }
-
-    // Multi-timeframe trend alignment boosts (only if enabled)
-    if (this.config.useMultiTimeframe && indicators.trendScore !== null) {
-      if (indicators.trendScore === 3) {
-        longScore += 10; reasons.push('Sterke multi-timeframe bullish alignment');
-      } else if (indicators.trendScore === -3) {
-        shortScore += 10; reasons.push('Sterke multi-timeframe bearish alignment');
-      } else if (indicators.trendScore === 2) {
-        longScore += 6; reasons.push('Bullish alignment');
-      } else if (indicators.trendScore === -2) {
-        shortScore += 6; reasons.push('Bearish alignment');
-      } else if (indicators.trendScore === 0) {
-        reasons.push('Neutrale MTF trend');
-      }
-    }
-
-    // Pullback readiness gating: require pullback for continuation entries
-    if (this.config.advancedFiltersEnabled && indicators.pullbackReady === false) {
-      // If no pullback, reduce score slightly (don’t block completely to keep trade frequency high)
-      longScore = Math.max(0, longScore - 5);
-      shortScore = Math.max(0, shortScore - 5);
-      reasons.push('Geen bevestigde pullback');
-    } else if (indicators.pullbackReady) {
-      longScore += 5; shortScore += 5; reasons.push('Pullback klaar voor vervolg');
-    }
-    
-    // Compression breakout: detect narrowing range then expansion potential
-    if (this.highHistory.length >= 12 && this.lowHistory.length >= 12) {
-      const recentHighs = this.highHistory.slice(-12);
-      const recentLows = this.lowHistory.slice(-12);
-      const rangeSeq: number[] = [];
-      for (let i = 0; i < recentHighs.length; i++) {
-        rangeSeq.push(recentHighs[i] - recentLows[i]);
-      }
-      const avgRange = rangeSeq.reduce((s, v) => s + v, 0) / rangeSeq.length;
-      const lastRange = rangeSeq[rangeSeq.length - 1];
-      if (lastRange < avgRange * 0.6) {
-        longScore += 4; shortScore += 4; reasons.push('Range compressie (potentiële breakout)');
-      }
-    }
-
-    // EMA crossover bonus (only if no dominant RSI signal yet)
-    if (indicators.emaFast && indicators.emaSlow && longScore < 20 && shortScore < 20) {
-      const emaDiffPercent = Math.abs(indicators.emaFast - indicators.emaSlow) / indicators.emaFast * 100;
-      
-      if (indicators.emaFast > indicators.emaSlow && emaDiffPercent > 0.02) {
-        longScore += 25;
-        reasons.push('EMA bullish crossover');
-      } else if (indicators.emaFast < indicators.emaSlow && emaDiffPercent > 0.02) {
-        shortScore += 25;
-        reasons.push('EMA bearish crossover');
-      }
-    }
-    
-    // Determine signal (SCALPING: 55 threshold for high-frequency)
-  const SCALPING_THRESHOLD = 58; // slightly higher threshold with richer scoring
-    
-    if (longScore > shortScore && longScore >= SCALPING_THRESHOLD) {
-      return {
-        type: 'long',
-        strength: Math.min(longScore, 100),
-        confidence: Math.min((longScore / 80) * 100, 100),
-        reasons,
-      };
-    } else if (shortScore > longScore && shortScore >= SCALPING_THRESHOLD) {
-      return {
-        type: 'short',
-        strength: Math.min(shortScore, 100),
-        confidence: Math.min((shortScore / 80) * 100, 100),
-        reasons,
-      };
-    }
-    
-  return { type: 'none', strength: Math.max(longScore, shortScore), confidence: 0, reasons: ['Score onder threshold (58)'] };
-  }
-  
   /**
    * Execute trade
    */
-  private async executeTrade(direction: 'long' | 'short'): Promise<void> {
+  private async executeTrade(analysis: AnalysisResult): Promise<void> {
+    const direction = analysis.signal === 'LONG' ? 'long' : 'short';
     try {
       console.log(`[Razor] Executing ${direction.toUpperCase()} trade...`);
       
       // ORPHAN POSITION CHECK: Verify no position exists
-      const positions = await this.client.getPositions('USDC');
-      const existingPosition = positions.find((p: any) => 
-        p.instrument_name === this.config.instrument && p.size !== 0
-      );
+      const existingPosition = await this.harness.findOpenPosition();
       
       if (existingPosition) {
         const errorMsg = `ORPHAN POSITION DETECTED: ${existingPosition.instrument_name} has ${existingPosition.size} contracts. Cannot open new trade!`;
@@ -1528,102 +1125,29 @@ export class RazorExecutor {
       const currentPrice = ticker.last_price;
       
       // Calculate position size
-      const notionalValue = this.config.tradeSize;
-      const amount = notionalValue / currentPrice;
-      const roundedAmount = Math.max(
-        Math.round(amount / instrument.min_trade_amount) * instrument.min_trade_amount,
-        instrument.min_trade_amount
-      );
-      // Fix floating point precision
-      const finalAmount = Number(roundedAmount.toFixed(8));
-      
-      // Calculate SL and TP
-      let slPercent = this.config.stopLossPercent / 100;
-      let tpPercent = this.config.takeProfitPercent / 100;
-      // Adaptive ATR-based scaling (optional): widen TP slightly in strong trend, tighten SL in low ATR
-      if (this.config.adaptiveRiskEnabled && this.analysisState.indicators.atr && this.analysisState.indicators.volatility) {
-        const atr = this.analysisState.indicators.atr;
-        const price = currentPrice;
-        const atrPct = (atr / price) * 100;
-        // If ATR very low: tighten SL (protect against chop), keep TP same
-        if (atrPct < 0.05) {
-          slPercent = slPercent * 0.85; // tighten
-        } else if (atrPct > 0.4) {
-          // High ATR: expand TP for better R:R
-          tpPercent = tpPercent * 1.15;
-        }
-        // If multi-timeframe strong alignment, modest TP boost
-        if (this.config.useMultiTimeframe && typeof this.analysisState.indicators.trendScore === 'number' && Math.abs(this.analysisState.indicators.trendScore) >= 2) {
-          tpPercent *= 1.05;
-        }
-      }
+      const finalAmount = roundAmount(this.config.tradeSize / currentPrice, instrument.min_trade_amount);
       
-      let stopLoss, takeProfit;
-      if (direction === 'long') {
-        stopLoss = currentPrice * (1 - slPercent);
-        takeProfit = currentPrice * (1 + tpPercent);
-      } else {
-        stopLoss = currentPrice * (1 + slPercent);
-        takeProfit = currentPrice * (1 - tpPercent);
-      }
-      
-      // Round to tick size
-      const tickSize = instrument.tick_size;
-      stopLoss = Math.round(stopLoss / tickSize) * tickSize;
-      takeProfit = Math.round(takeProfit / tickSize) * tickSize;
-      
-      const label = `razor_${direction}_${Date.now()}`;
+      // SL/TP (optionally ATR-scaled) from the strategy
+      const signal = await this.harness.strategy.generateSignal(analysis, this.harness.marketData(currentPrice));
       
       console.log('[Razor] Order details:', {
         direction,
         amount: finalAmount,
         entry: currentPrice,
-        sl: stopLoss,
-        tp: takeProfit,
+        sl: signal.stopLossPrice,
+        tp: signal.takeProfitPrice,
       });
       
-      // Place entry order
-      const entryOrder = direction === 'long'
-        ? await this.client.placeBuyOrder(this.config.instrument, finalAmount, undefined, 'market', label)
-        : await this.client.placeSellOrder(this.config.instrument, finalAmount, undefined, 'market', label);
-      
-      console.log('[Razor] Entry order placed:', entryOrder.order?.order_id || entryOrder.order_id);
+      // Entry, then reduce-only SL and TP
+      const orders = await this.harness.placeBracket(signal, finalAmount, instrument.tick_size);
+      const { stopLoss, takeProfit } = orders;
       
-      // Wait and verify
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Place SL
-      const slOrder = direction === 'long'
-        ? await this.client.placeSellOrder(this.config.instrument, finalAmount, stopLoss, 'stop_market', `${label}_sl`, true)
-        : await this.client.placeBuyOrder(this.config.instrument, finalAmount, stopLoss, 'stop_market', `${label}_sl`, true);
-      
-      console.log('[Razor] Stop loss placed:', slOrder.order?.order_id || slOrder.order_id);
-      
-      // Place TP
-      const tpOrder = direction === 'long'
-        ? await this.client.placeSellOrder(this.config.instrument, finalAmount, takeProfit, 'limit', `${label}_tp`, true)
-        : await this.client.placeBuyOrder(this.config.instrument, finalAmount, takeProfit, 'limit', `${label}_tp`, true);
-      
-      console.log('[Razor] Take profit placed:', tpOrder.order?.order_id || tpOrder.order_id);
-      
-      // CRITICAL: Ensure database is initialized before recording trade
-      await ensureTradeHistoryInitialized();
+      console.log('[Razor] Entry order placed:', orders.entryOrderId);
+      console.log('[Razor] Stop loss placed:', orders.slOrderId);
+      console.log('[Razor] Take profit placed:', orders.tpOrderId);
       
       // TRADE HISTORY: Record this trade
-      const tradeHistory = getTradeHistoryService();
-      this.currentTradeId = await tradeHistory.recordTrade({
-        userId: this.userId, // FASE 3: Multi-user support
-        strategyName: this.strategyName,
-        instrument: this.config.instrument,
-        side: direction === 'long' ? 'buy' : 'sell',
-        entryOrderId: entryOrder.order?.order_id || entryOrder.order_id,
-        slOrderId: slOrder.order?.order_id || slOrder.order_id,
-        tpOrderId: tpOrder.order?.order_id || tpOrder.order_id,
-        entryPrice: currentPrice,
-        amount: finalAmount,
-        stopLoss,
-        takeProfit
-      });
+      this.currentTradeId = await this.harness.recordTrade(signal, finalAmount, orders);
       
       const timestamp = new Date().toISOString();
       console.log(`\n${'='.repeat(80)}`);
@@ -1638,9 +1162,9 @@ export class RazorExecutor {
       console.log(`[Razor]    Take Profit: $${takeProfit.toFixed(2)} (${(this.config.takeProfitPercent).toFixed(2)}%)`);
       console.log(`[Razor]    Risk/Reward: 1:${(this.config.takeProfitPercent / this.config.stopLossPercent).toFixed(2)}`);
       console.log(`[Razor] 🎫 Order IDs:`);
-      console.log(`[Razor]    Entry: ${entryOrder.order?.order_id || entryOrder.order_id}`);
-      console.log(`[Razor]    SL: ${slOrder.order?.order_id || slOrder.order_id}`);
-      console.log(`[Razor]    TP: ${tpOrder.order?.order_id || tpOrder.order_id}`);
+      console.log(`[Razor]    Entry: ${orders.entryOrderId}`);
+      console.log(`[Razor]    SL: ${orders.slOrderId}`);
+      console.log(`[Razor]    TP: ${orders.tpOrderId}`);
       console.log(`[Razor] 💾 Database:`);
       console.log(`[Razor]    Trade ID: ${this.currentTradeId}`);
       console.log(`[Razor]    Status: OPEN`);
@@ -1652,7 +1176,7 @@ export class RazorExecutor {
       // Update state
       this.analysisState.status = 'position_open';
       this.lastTradeTime = Date.now();
-      this.dailyTrades++;
+      this.harness.countTrade();
       this.analysisState.cooldownUntil = Date.now() + (this.config.cooldownMinutes * 60 * 1000);
   // Reset dynamic stop flags for this new trade
   this.beMovedForTrade = false;
@@ -1661,6 +1185,7 @@ export class RazorExecutor {
       this.updateCheckpoints();
     } catch (error) {
       console.error('[Razor] Trade execution failed:', error);
+      void this.harness.events.error(error as Error, { source: 'execution' });
       // Don't throw - just log and continue analyzing
       this.analysisState.status = 'analyzing';
       // Set cooldown to prevent immediate retry
@@ -1689,8 +1214,7 @@ export class RazorExecutor {
     }
 
     try {
-      const positions = await this.client.getPositions('USDC');
-      const position = positions.find((p: any) => p.size !== 0);
+      const [position] = await this.broker.getPositions(this.config.instrument);
       
       if (!position) {
         this.metricsCache = { data: null, timestamp: Date.now() };
@@ -1699,9 +1223,9 @@ export class RazorExecutor {
       
       const ticker = await this.client.getTicker(this.config.instrument);
       const currentPrice = ticker.last_price;
-      const entryPrice = position.average_price;
-      const amount = Math.abs(position.size);
-  const direction: 'long' | 'short' = position.direction === 'buy' ? 'long' : 'short';
+      const entryPrice = position.entryPrice;
+      const amount = position.size;
+      const direction = position.side;
       
       // Calculate P&L (CORRECT for USDC perpetuals/linear contracts)
       const priceChangePercent = (currentPrice - entryPrice) / entryPrice;
@@ -1835,7 +1359,7 @@ export class RazorExecutor {
       const [ticker, instrument, positions, openOrders] = await Promise.all([
         this.client.getTicker(this.config.instrument),
         this.client.getInstrument(this.config.instrument),
-        this.client.getPositions('USDC'),
+        this.broker.getPositions(this.config.instrument),
         this.client.getOpenOrders(this.config.instrument),
       ]);
 
@@ -1871,13 +1395,13 @@ export class RazorExecutor {
       if (alreadyAtOrBetter) return;
 
       // Determine current position size to size the new SL correctly
-      const position = positions.find((p: any) => (p.instrument_name === this.config.instrument || p.instrument === this.config.instrument) && p.size !== 0);
+      const [position] = positions;
       if (!position) return; // position might have closed
-      const amount = Math.abs(position.size);
+      const amount = position.size;
       if (amount <= 0) return;
 
       // Place new BE SL FIRST (to avoid gap) then cancel old if still exists
-      const label = `razor_be_sl_${Date.now()}`;
+      const label = `${this.labelPrefix}_be_sl_${Date.now()}`;
       const newSlOrder = isLong
         ? await this.client.placeSellOrder(this.config.instrument, amount, bePrice, 'stop_market', label, true)
         : await this.client.placeBuyOrder(this.config.instrument, amount, bePrice, 'stop_market', label, true);
@@ -1906,19 +1430,30 @@ export class RazorExecutor {
   /**
    * Generate mock candle data for development when Deribit is not available
    */
-  private generateMockCandles(count: number): { close: number[] } {
+  private generateMockCandles(count: number): Candle[] {
     const basePrice = 95000; // BTC around $95k
-    const mockPrices: number[] = [];
+    const start = Date.now() - count * 60_000;
+    const mockCandles: Candle[] = [];
     
     for (let i = 0; i < count; i++) {
       // Generate realistic price movement with some volatility
       const randomChange = (Math.random() - 0.5) * 200; // +/- $100 variation
       const trend = Math.sin(i / 10) * 50; // Slight trending movement
-      const price = basePrice + randomChange + trend;
-      mockPrices.push(Math.max(price, 80000)); // Ensure positive prices
+      const price = Math.max(basePrice + randomChange + trend, 80000); // Ensure positive prices
+      mockCandles.push({ timestamp: start + i * 60_000, open: price, high: price, low: price, close: price, volume: 0 });
     }
     
-    return { close: mockPrices };
+    return mockCandles;
+  }
+
+  /**
+   * Seed the harness with mock candles (fallback when Deribit history is unavailable)
+   */
+  private useMockCandles(): void {
+    this.harness.seedCandles(this.generateMockCandles(150));
+    const closes = this.harness.getCloses();
+    this.analysisState.dataPoints = closes.length;
+    this.analysisState.currentPrice = closes[closes.length - 1];
   }
 
   /**
@@ -1973,6 +1508,11 @@ export class RazorExecutor {
    */
   public cleanup(): void {
     this.stopMockTickerUpdates();
+    void this.harness.stopEvents();
+    void this.harness.stopMarkPriceFeed();
+    if (this.config.cancelOnDisconnect) {
+      this.client.setCancelOnDisconnectPolicy(`${this.labelPrefix}_`, null);
+    }
     console.log('[Razor] 🧹 Cleanup completed');
   }
 }
@@ -0,0 +1,207 @@
+/**
+ * Strategy Event Dispatcher
+ * Delivers order, fill and position events to the optional IStrategy lifecycle hooks
+ *
+ * Sources are the broker's own-order subscriptions (subscribeOrders/subscribeFills,
+ * filtered to the strategy's order label prefix), OrderLifecycleManager 'tradeClosed'
+ * events and the runtime itself (positions it opens, executions that fail). Hooks run
+ * one at a time in arrival order; actions they return go to the runtime's action handler.
+ * A hook that throws is reported to onError() and never stops the runtime.
+ */
+
+import type { EventEmitter } from 'events';
+import type { IBroker } from '../brokers/IBroker';
+import type { TradeClosedEvent } from '../services/order-lifecycle-manager';
+import type {
+  IStrategy,
+  Order,
+  Fill,
+  PositionOpenedEvent,
+  PositionClosedEvent,
+  StrategyAction,
+  StrategyErrorContext,
+  StrategyHookName,
+} from './IStrategy';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StrategyEventSource = Pick<IBroker, 'subscribeOrders' | 'subscribeFills'>;
+
+export type StrategyActionHandler = (action: StrategyAction) => Promise<void>;
+
+export interface StrategyEventOptions {
+  strategyName: string; // matches TradeClosedEvent.strategyName
+  instrument: string;
+  labelPrefix?: string; // only orders/fills with this label prefix are the strategy's own
+}
+
+const HOOKS: StrategyHookName[] = ['onOrderUpdate', 'onFill', 'onPositionOpened', 'onPositionClosed', 'onError'];
+const MAX_CLOSED_TRADES = 100;
+
+/**
+ * Whether the strategy implements any lifecycle hook (no subscriptions needed otherwise)
+ */
+export function hasLifecycleHooks(strategy: IStrategy): boolean {
+  return HOOKS.some(hook => typeof strategy[hook] === 'function');
+}
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+export class StrategyEventDispatcher {
+  private queue: Promise<void> = Promise.resolve(); // one hook at a time
+  private closedTrades = new Set<string>(); // a close is reported by executor and lifecycle manager
+  private unbindLifecycle: (() => void) | null = null;
+
+  constructor(
+    private readonly strategy: IStrategy,
+    private readonly options: StrategyEventOptions,
+    private readonly onAction?: StrategyActionHandler
+  ) {}
+
+  /**
+   * Subscribe to the strategy's own orders and fills on its instrument
+   */
+  async subscribe(source: StrategyEventSource): Promise<void> {
+    const { instrument } = this.options;
+    if (this.strategy.onOrderUpdate || this.strategy.onError) {
+      await source.subscribeOrders(instrument, (order) => {
+        if (this.isOwn(order.label)) void this.orderUpdate(order);
+      });
+    }
+    if (this.strategy.onFill) {
+      await source.subscribeFills(instrument, (fill) => {
+        if (this.isOwn(fill.label)) void this.fill(fill);
+      });
+    }
+  }
+
+  /**
+   * Forward this strategy's 'tradeClosed' events
+   */
+  bindLifecycle(manager: EventEmitter): void {
+    this.unbind();
+    const listener = (event: TradeClosedEvent) => {
+      if (event.strategyName === this.options.strategyName && event.instrument === this.options.instrument) {
+        void this.positionClosed({
+          instrument: event.instrument,
+          tradeId: event.tradeId,
+          exitReason: event.exitReason,
+          timestamp: Date.now(),
+        });
+      }
+    };
+    manager.on('tradeClosed', listener);
+    this.unbindLifecycle = () => manager.off('tradeClosed', listener);
+  }
+
+  unbind(): void {
+    this.unbindLifecycle?.();
+    this.unbindLifecycle = null;
+  }
+
+  // ==========================================================================
+  // Events
+  // ==========================================================================
+
+  /**
+   * Order update; a rejected order is also reported to onError()
+   */
+  orderUpdate(order: Order): Promise<void> {
+    const dispatched = this.dispatch('onOrderUpdate', order);
+    if (order.status !== 'rejected') {
+      return dispatched;
+    }
+    return this.error(new Error(`Order ${order.orderId} (${order.label ?? order.type}) rejected`), {
+      source: 'order',
+      instrument: order.instrument,
+      order,
+    });
+  }
+
+  fill(fill: Fill): Promise<void> {
+    return this.dispatch('onFill', fill);
+  }
+
+  positionOpened(event: PositionOpenedEvent): Promise<void> {
+    if (event.tradeId) {
+      this.closedTrades.delete(event.tradeId);
+    }
+    return this.dispatch('onPositionOpened', event);
+  }
+
+  /**
+   * Position closed; repeated closes of the same trade are dropped
+   */
+  positionClosed(event: PositionClosedEvent): Promise<void> {
+    if (event.tradeId) {
+      if (this.closedTrades.has(event.tradeId)) {
+        return this.queue;
+      }
+      this.closedTrades.add(event.tradeId);
+      if (this.closedTrades.size > MAX_CLOSED_TRADES) {
+        this.closedTrades.delete(this.closedTrades.values().next().value!);
+      }
+    }
+    return this.dispatch('onPositionClosed', event);
+  }
+
+  error(error: Error, context: Omit<StrategyErrorContext, 'instrument'> & { instrument?: string }): Promise<void> {
+    return this.dispatch('onError', error, { instrument: this.options.instrument, ...context });
+  }
+
+  // ==========================================================================
+  // Private
+  // ==========================================================================
+
+  private isOwn(label: string | undefined): boolean {
+    const { labelPrefix } = this.options;
+    return !labelPrefix || (label?.startsWith(labelPrefix) ?? false);
+  }
+
+  private dispatch(hook: StrategyHookName, ...args: any[]): Promise<void> {
+    const handler = this.strategy[hook] as ((...args: any[]) => Promise<StrategyAction[] | void>) | undefined;
+    if (!handler) {
+      return this.queue;
+    }
+    this.queue = this.queue.then(() => this.run(hook, handler, args));
+    return this.queue;
+  }
+
+  private async run(
+    hook: StrategyHookName,
+    handler: (...args: any[]) => Promise<StrategyAction[] | void>,
+    args: any[]
+  ): Promise<void> {
+    const name = this.options.strategyName;
+    let actions: StrategyAction[] | void;
+    try {
+      actions = await handler.apply(this.strategy, args);
+    } catch (error: any) {
+      console.error(`[StrategyEvents] ❌ ${name}.${hook} failed:`, error?.message ?? error);
+      if (hook !== 'onError' && this.strategy.onError) {
+        await this.run('onError', this.strategy.onError, [error, { source: 'hook', instrument: this.options.instrument, hook }]);
+      }
+      return;
+    }
+
+    for (const action of actions ?? []) {
+      if (!this.onAction) {
+        console.warn(`[StrategyEvents] ⚠️ ${name}.${hook} returned ${action.type}, but this runtime executes no actions`);
+        continue;
+      }
+      try {
+        console.log(`[StrategyEvents] ${name}.${hook} → ${action.type}${action.reason ? ` (${action.reason})` : ''}`);
+        await this.onAction(action);
+      } catch (error: any) {
+        console.error(`[StrategyEvents] ❌ ${action.type} from ${name}.${hook} failed:`, error?.message ?? error);
+        if (this.strategy.onError) {
+          await this.run('onError', this.strategy.onError, [error, { source: 'execution', instrument: this.options.instrument }]);
+        }
+      }
+    }
+  }
+}
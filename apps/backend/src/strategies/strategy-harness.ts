@@ -0,0 +1,430 @@
+/**
+ * Strategy Execution Harness
+ * Runs an IStrategy against a live broker client
+ *
+ * IStrategy implementations only turn candles into signals. The harness owns what needs
+ * state or a broker: 1m candles built from ticks, the daily trade limit, and placing the
+ * market entry with its reduce-only stop-loss and take-profit. Executors (RazorExecutor,
+ * ThorExecutor) add their own position management and UI state on top.
+ *
+ * It also runs the strategy's lifecycle hooks (see strategy-events.ts): own order updates
+ * and fills from the broker, positions it opens, 'tradeClosed' from OrderLifecycleManager,
+ * and the stop moves / closes the hooks ask for.
+ */
+
+import type { EventEmitter } from 'events';
+import type { BackendDeribitClient } from '../deribit-client';
+import type { SignalState } from '../types/analysis';
+import type { IStrategy, StrategyConfig, MarketData, Candle, AnalysisResult, TradeSignal, StrategyAction } from './IStrategy';
+import { getTradeHistoryService, ensureTradeHistoryInitialized } from '../services/trade-history';
+import type { ConfigVersionRef } from '../services/ITradeHistoryStore';
+import type { MarkPriceUpdate } from '../brokers/IBroker';
+import { mapDeribitOrder, mapDeribitTrade } from '../brokers/DeribitBroker';
+import { StrategyEventDispatcher, StrategyEventSource, hasLifecycleHooks } from './strategy-events';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The client calls the harness makes; a paper or replay client fits as well
+ */
+export type HarnessClient = Pick<
+  BackendDeribitClient,
+  | 'getPositions' | 'getInstrument' | 'getTicker' | 'placeBuyOrder' | 'placeSellOrder'
+  | 'getOpenOrders' | 'cancelOrder' | 'subscribeUserOrders' | 'subscribeUserTrades' | 'unsubscribe'
+> & Partial<Pick<BackendDeribitClient, 'subscribeMarkPrice' | 'unsubscribeMarkPrice'>>;
+
+export interface HarnessOptions {
+  strategyName: string; // trade history name
+  labelPrefix: string; // order labels: <prefix>_<long|short>_<timestamp>
+  maxCandles: number;
+  userId?: string;
+  configVersion?: ConfigVersionRef; // strategy config version stamped on recorded trades
+  candleMs?: number; // default 1m
+  entrySettleMs?: number; // pause between entry and SL/TP, default 500
+}
+
+export interface BracketOrders {
+  label: string;
+  entryOrderId: string;
+  slOrderId: string;
+  tpOrderId: string;
+  stopLoss: number; // tick-rounded
+  takeProfit: number; // tick-rounded
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Candles from a `public/get_tradingview_chart_data` result (parallel arrays)
+ */
+export function candlesFromChartData(data: any): Candle[] {
+  if (!data || !Array.isArray(data.close)) {
+    return [];
+  }
+  return data.close.map((close: number, i: number) => ({
+    timestamp: data.ticks?.[i] ?? data.timestamp?.[i] ?? Date.now(),
+    open: data.open?.[i] ?? close,
+    high: data.high?.[i] ?? close,
+    low: data.low?.[i] ?? close,
+    close,
+    volume: data.volume?.[i] ?? 0,
+  }));
+}
+
+/**
+ * UI signal state from an analysis (strength/reasons come from analysis metadata)
+ */
+export function toSignalState(analysis: AnalysisResult): SignalState {
+  const type = analysis.signal === 'LONG' ? 'long' : analysis.signal === 'SHORT' ? 'short' : 'none';
+  return {
+    type,
+    strength: analysis.metadata?.strength ?? (type === 'none' ? 0 : analysis.confidence),
+    confidence: analysis.confidence,
+    reasons: analysis.metadata?.reasons ?? [analysis.reason],
+  };
+}
+
+/**
+ * Round an order amount to the instrument's minimum trade amount (at least one lot)
+ */
+export function roundAmount(amount: number, minTradeAmount: number): number {
+  const rounded = Math.max(Math.round(amount / minTradeAmount) * minTradeAmount, minTradeAmount);
+  return Number(rounded.toFixed(8));
+}
+
+function orderId(response: any): string {
+  return response.order?.order_id || response.order_id;
+}
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+export class StrategyHarness {
+  private candles: Candle[] = [];
+  private currentCandle: Candle | null = null;
+  private candleStart = Date.now();
+  private dailyTrades = 0;
+  private dailyReset = Date.now();
+  private ready: Promise<void> | null = null;
+  private openTrade: { tradeId: string; tpOrderId: string } | null = null; // last recorded bracket
+  private eventChannels: string[] = [];
+  private markPrice: MarkPriceUpdate | null = null; // latest from the mark price feed
+  private markPriceFeed = false;
+  readonly events: StrategyEventDispatcher;
+
+  constructor(
+    private readonly client: HarnessClient,
+    readonly strategy: IStrategy,
+    readonly config: StrategyConfig,
+    private readonly options: HarnessOptions
+  ) {
+    // Fail at construction, not on the first tick
+    strategy.validateConfig(config);
+    this.events = new StrategyEventDispatcher(
+      strategy,
+      { strategyName: options.strategyName, instrument: config.instrument, labelPrefix: `${options.labelPrefix}_` },
+      (action) => this.applyAction(action)
+    );
+  }
+
+  // ==========================================================================
+  // Candles
+  // ==========================================================================
+
+  getCandles(): Candle[] {
+    return this.candles;
+  }
+
+  getCloses(): number[] {
+    return this.candles.map(c => c.close);
+  }
+
+  /**
+   * Replace the history with candles loaded from the broker (oldest first)
+   */
+  seedCandles(candles: Candle[]): void {
+    this.candles = candles.slice(-this.options.maxCandles);
+  }
+
+  /**
+   * Fold a tick into the current candle
+   * @returns true when the tick closed a candle
+   */
+  onPrice(price: number, now: number = Date.now()): boolean {
+    const candleMs = this.options.candleMs ?? 60_000;
+    let closed = false;
+
+    if (now - this.candleStart >= candleMs) {
+      if (this.currentCandle) {
+        this.candles.push(this.currentCandle);
+        if (this.candles.length > this.options.maxCandles) {
+          this.candles.shift();
+        }
+        closed = true;
+      }
+      this.currentCandle = { timestamp: now, open: price, high: price, low: price, close: price, volume: 0 };
+      this.candleStart = now;
+    } else if (!this.currentCandle) {
+      this.currentCandle = { timestamp: now, open: price, high: price, low: price, close: price, volume: 0 };
+    } else {
+      this.currentCandle.high = Math.max(this.currentCandle.high, price);
+      this.currentCandle.low = Math.min(this.currentCandle.low, price);
+      this.currentCandle.close = price;
+    }
+
+    return closed;
+  }
+
+  // ==========================================================================
+  // Analysis
+  // ==========================================================================
+
+  marketData(price: number, quote?: { bid?: number; ask?: number }): MarketData {
+    return {
+      instrument: this.config.instrument,
+      price,
+      timestamp: Date.now(),
+      bid: quote?.bid ?? price,
+      ask: quote?.ask ?? price,
+      ...(this.markPrice && {
+        markPrice: this.markPrice.markPrice,
+        indexPrice: this.markPrice.indexPrice,
+        fundingRate: this.markPrice.fundingRate,
+        fundingIntervalHours: this.markPrice.fundingIntervalHours,
+        nextFundingTime: this.markPrice.nextFundingTime,
+      }),
+    };
+  }
+
+  /**
+   * Keep the latest mark/index price and funding rate for marketData(); a no-op for
+   * clients without the feed
+   */
+  async startMarkPriceFeed(): Promise<void> {
+    if (!this.client.subscribeMarkPrice || this.markPriceFeed) {
+      return;
+    }
+    try {
+      await this.client.subscribeMarkPrice(this.config.instrument, (update) => {
+        this.markPrice = update;
+      });
+      this.markPriceFeed = true;
+    } catch (error: any) {
+      console.warn(`[StrategyHarness] ⚠️ ${this.options.strategyName}: no mark price/funding feed: ${error.message}`);
+    }
+  }
+
+  async stopMarkPriceFeed(): Promise<void> {
+    if (!this.markPriceFeed) {
+      return;
+    }
+    this.markPriceFeed = false;
+    this.markPrice = null;
+    await this.client.unsubscribeMarkPrice?.(this.config.instrument).catch(() => {});
+  }
+
+  /**
+   * Analyze the closed candles; the strategy is initialized on first use
+   */
+  async analyze(price: number, quote?: { bid?: number; ask?: number }): Promise<AnalysisResult> {
+    if (!this.ready) {
+      this.ready = this.strategy.initialize(this.config);
+    }
+    await this.ready;
+    return this.strategy.analyze(this.marketData(price, quote), this.candles);
+  }
+
+  // ==========================================================================
+  // Daily limit
+  // ==========================================================================
+
+  dailyLimitReached(maxDailyTrades: number, now: number = Date.now()): boolean {
+    if (now - this.dailyReset > DAY_MS) {
+      this.dailyTrades = 0;
+      this.dailyReset = now;
+    }
+    return this.dailyTrades >= maxDailyTrades;
+  }
+
+  countTrade(): void {
+    this.dailyTrades++;
+  }
+
+  // ==========================================================================
+  // Execution
+  // ==========================================================================
+
+  /**
+   * Open position on the harness instrument, if any
+   */
+  async findOpenPosition(): Promise<any | null> {
+    const positions = await this.client.getPositions('USDC');
+    return positions.find((p: any) => p.instrument_name === this.config.instrument && p.size !== 0) ?? null;
+  }
+
+  /**
+   * Market entry, then a reduce-only stop_market SL and limit TP rounded to the tick size
+   */
+  async placeBracket(signal: TradeSignal, amount: number, tickSize: number): Promise<BracketOrders> {
+    const { instrument } = this.config;
+    const direction = signal.side === 'buy' ? 'long' : 'short';
+    const label = `${this.options.labelPrefix}_${direction}_${Date.now()}`;
+    const stopLoss = Math.round(signal.stopLossPrice / tickSize) * tickSize;
+    const takeProfit = Math.round(signal.takeProfitPrice / tickSize) * tickSize;
+
+    const entry = signal.side === 'buy'
+      ? await this.client.placeBuyOrder(instrument, amount, undefined, 'market', label)
+      : await this.client.placeSellOrder(instrument, amount, undefined, 'market', label);
+
+    await new Promise(resolve => setTimeout(resolve, this.options.entrySettleMs ?? 500));
+
+    const exit = signal.side === 'buy'
+      ? this.client.placeSellOrder.bind(this.client)
+      : this.client.placeBuyOrder.bind(this.client);
+    const slOrder = await exit(instrument, amount, stopLoss, 'stop_market', `${label}_sl`, true);
+    const tpOrder = await exit(instrument, amount, takeProfit, 'limit', `${label}_tp`, true);
+
+    return {
+      label,
+      entryOrderId: orderId(entry),
+      slOrderId: orderId(slOrder),
+      tpOrderId: orderId(tpOrder),
+      stopLoss,
+      takeProfit,
+    };
+  }
+
+  /**
+   * Record an opened bracket in trade history and report the position to the strategy
+   * @returns trade id
+   */
+  async recordTrade(signal: TradeSignal, amount: number, orders: BracketOrders): Promise<string> {
+    await ensureTradeHistoryInitialized();
+    const tradeId = await getTradeHistoryService().recordTrade({
+      userId: this.options.userId,
+      configVersion: this.options.configVersion,
+      strategyName: this.options.strategyName,
+      instrument: this.config.instrument,
+      side: signal.side,
+      entryOrderId: orders.entryOrderId,
+      slOrderId: orders.slOrderId,
+      tpOrderId: orders.tpOrderId,
+      entryPrice: signal.entryPrice,
+      amount,
+      stopLoss: orders.stopLoss,
+      takeProfit: orders.takeProfit,
+    });
+
+    this.openTrade = { tradeId, tpOrderId: orders.tpOrderId };
+    void this.events.positionOpened({
+      instrument: this.config.instrument,
+      side: signal.side,
+      amount,
+      entryPrice: signal.entryPrice,
+      stopLossPrice: orders.stopLoss,
+      takeProfitPrice: orders.takeProfit,
+      tradeId,
+      timestamp: Date.now(),
+    });
+    return tradeId;
+  }
+
+  // ==========================================================================
+  // Lifecycle hooks
+  // ==========================================================================
+
+  /**
+   * Start delivering events to the strategy's hooks; a no-op for strategies without hooks
+   * @param lifecycle - OrderLifecycleManager, for 'tradeClosed'
+   */
+  async startEvents(lifecycle?: EventEmitter): Promise<void> {
+    if (!hasLifecycleHooks(this.strategy)) {
+      return;
+    }
+    if (lifecycle) {
+      this.events.bindLifecycle(lifecycle);
+    }
+
+    const { instrument } = this.config;
+    const source: StrategyEventSource = {
+      subscribeOrders: async (_instrument, callback) => {
+        await this.client.subscribeUserOrders(instrument, (order) => callback(mapDeribitOrder(order)));
+        this.eventChannels.push(`user.orders.${instrument}.raw`);
+      },
+      subscribeFills: async (_instrument, callback) => {
+        await this.client.subscribeUserTrades(instrument, (trades) => trades.forEach(t => callback(mapDeribitTrade(t))));
+        this.eventChannels.push(`user.trades.${instrument}.raw`);
+      },
+    };
+    try {
+      await this.events.subscribe(source);
+    } catch (error: any) {
+      // Paper/unauthenticated clients: position events still arrive, order events do not
+      console.warn(`[StrategyHarness] ⚠️ ${this.options.strategyName}: no order/fill events: ${error.message}`);
+    }
+  }
+
+  async stopEvents(): Promise<void> {
+    this.events.unbind();
+    const channels = this.eventChannels;
+    this.eventChannels = [];
+    for (const channel of channels) {
+      await this.client.unsubscribe(channel).catch(() => {});
+    }
+  }
+
+  /**
+   * Execute an action against the open position (returned by a hook, or the executor's own)
+   */
+  async applyAction(action: StrategyAction): Promise<void> {
+    const { instrument } = this.config;
+    const position = await this.findOpenPosition();
+    if (!position) {
+      throw new Error(`${action.type}: no open position on ${instrument}`);
+    }
+    const amount = Math.abs(position.size);
+    const exit = position.size > 0
+      ? this.client.placeSellOrder.bind(this.client)
+      : this.client.placeBuyOrder.bind(this.client);
+    const ownExits = (await this.client.getOpenOrders(instrument)).filter((o: any) =>
+      o.reduce_only && o.label?.startsWith(`${this.options.labelPrefix}_`)
+    );
+
+    switch (action.type) {
+      case 'move_stop': {
+        const { tick_size } = await this.client.getInstrument(instrument);
+        const stopLoss = Math.round(action.stopLossPrice / tick_size) * tick_size;
+        const label = `${this.options.labelPrefix}_sl_${Date.now()}`;
+
+        // New stop first, so the position is never unprotected
+        const slOrderId = orderId(await exit(instrument, amount, stopLoss, 'stop_market', label, true));
+        for (const old of ownExits.filter((o: any) => o.order_type === 'stop_market')) {
+          await this.client.cancelOrder(old.order_id).catch(() => {});
+        }
+        if (this.openTrade) {
+          const history = getTradeHistoryService();
+          await history.updateOrderIds(this.openTrade.tradeId, slOrderId, this.openTrade.tpOrderId);
+          await history.updateStops(this.openTrade.tradeId, stopLoss, undefined);
+        }
+        console.log(`[StrategyHarness] 🛡️  ${this.options.strategyName}: stop moved to ${stopLoss} (order ${slOrderId})`);
+        return;
+      }
+      case 'close_position': {
+        for (const order of ownExits) {
+          await this.client.cancelOrder(order.order_id).catch(() => {});
+        }
+        const label = `${this.options.labelPrefix}_close_${Date.now()}`;
+        await exit(instrument, amount, undefined, 'market', label, true);
+        console.log(`[StrategyHarness] ${this.options.strategyName}: position closed by strategy`);
+        return;
+      }
+    }
+  }
+}
@@ -1,7 +1,22 @@
+/**
+ * Thor Strategy Executor
+ * Signals come from ThorStrategy via StrategyHarness; this class adds risk-based sizing,
+ * the order-book spread check, session windows/blackouts, reconciliation and the UI analysis state.
+ */
+
 import type { BackendDeribitClient } from '../deribit-client';
+import { instanceLabelPrefix, type CancelOnDisconnectPolicy } from '../deribit-cancel-on-disconnect';
+import { DeribitBroker } from '../brokers/DeribitBroker';
+import type { IBroker } from '../brokers/IBroker';
+import type { LocalOrderBook } from '../brokers/OrderBook';
 import type { AnalysisState, Checkpoint } from '../types/analysis';
-import { getTradeHistoryService, ensureTradeHistoryInitialized } from '../services/trade-history';
+import { getTradeHistoryService } from '../services/trade-history';
+import type { ConfigVersionRef } from '../services/ITradeHistoryStore';
 import { getOrderLifecycleManager, initializeOrderLifecycleManager } from '../services/order-lifecycle-manager';
+import type { AnalysisResult, IStrategy, StrategyConfig } from './IStrategy';
+import { ThorStrategy, THOR_REQUIRED_CANDLES } from './ThorStrategy';
+import { StrategyHarness, candlesFromChartData, roundAmount, toSignalState } from './strategy-harness';
+import { TradingScheduleGate, type ScheduleState, type TradingSchedule } from './trading-schedule';
 
 export interface ThorConfig {
   instrument: string;
@@ -26,49 +41,80 @@ export interface ThorConfig {
   // General safety
   maxDailyTrades: number;
   cooldownCandles: number; // after anti-trend trigger
-}
 
-type SignalType = 'long' | 'short' | 'none';
+  // Which of this strategy's orders Deribit cancels if the backend disconnects (default: client policy)
+  cancelOnDisconnect?: CancelOnDisconnectPolicy;
 
-interface ThorSignal {
-  type: SignalType;
-  reasons: string[];
+  // Session windows and blackouts for new entries (default: 24/7)
+  schedule?: TradingSchedule;
+}
+
+/**
+ * Another IStrategy on Thor's execution path (sizing, spread check, brackets),
+ * e.g. an EnsembleStrategy. Its config still has to carry the ThorConfig risk fields.
+ */
+export interface ThorRuntime {
+  strategy: IStrategy;
+  requiredCandles: number;
+  labelPrefix: string;
+  candleMs?: number; // default 1m; broker history is only loaded for 1m candles
+  maxHoldMs?: number; // close positions open longer than this
 }
 
 export class ThorExecutor {
   private client: BackendDeribitClient;
+  private broker: IBroker; // positions through the broker abstraction, on the same client
   private config: ThorConfig;
   private strategyId: string;
   private strategyName: string;
   private userId?: string; // FASE 3: Multi-user support
+  private configVersion?: ConfigVersionRef; // stamped on trades
 
   private analysisState: AnalysisState;
-
-  // 1m candles
-  private candles: { open: number; high: number; low: number; close: number; ts: number }[] = [];
-  private currentCandle: { open: number; high: number; low: number; close: number; ts: number } | null = null;
-  private candleMs = 60_000;
-  private candleStart = Date.now();
-
-  private dailyTrades = 0;
-  private dailyReset = Date.now();
+  private harness: StrategyHarness; // 1m candles, daily limit, bracket orders
+  private readonly labelPrefix: string; // <runtime.labelPrefix>_<instance>, see instanceLabelPrefix
   private currentTradeId: string | null = null;
+  private positionOpenedAt: number | null = null; // for runtime.maxHoldMs
+  private readonly candleMs: number;
+  private readonly maxHoldMs?: number;
+  private readonly schedule: TradingScheduleGate | null;
+  private scheduleState: ScheduleState | null = null;
 
   // Anti-trend protection (placeholder: controlled via cooldownCandles if extended later)
   private cooldownUntilCandle: number | null = null;
+  private orderBook: LocalOrderBook | null = null;
+  // Listener handle: the client drops the book subscription when its last listener leaves
+  private readonly onOrderBook = (_book: LocalOrderBook): void => {};
 
   constructor(
     client: BackendDeribitClient, 
     strategyId: string, 
     strategyName: string, 
     config: ThorConfig,
-    userId?: string // FASE 3: Optional userId for multi-user support
+    userId?: string, // FASE 3: Optional userId for multi-user support
+    configVersion?: ConfigVersionRef,
+    runtime?: ThorRuntime
   ) {
     this.client = client;
+    this.broker = new DeribitBroker(client);
     this.strategyId = strategyId;
     this.strategyName = strategyName;
     this.config = config;
     this.userId = userId; // FASE 3: Store userId
+    this.configVersion = configVersion;
+    this.candleMs = runtime?.candleMs ?? 60_000;
+    this.maxHoldMs = runtime?.maxHoldMs;
+    this.schedule = config.schedule ? new TradingScheduleGate(config.schedule) : null;
+    this.labelPrefix = instanceLabelPrefix(runtime?.labelPrefix ?? 'thor', strategyId);
+    this.harness = new StrategyHarness(client, runtime?.strategy ?? new ThorStrategy(), ThorExecutor.toStrategyConfig(config), {
+      strategyName,
+      labelPrefix: this.labelPrefix,
+      maxCandles: 300,
+      userId,
+      configVersion,
+      candleMs: this.candleMs,
+      entrySettleMs: 400,
+    });
 
     this.analysisState = {
       strategyId,
@@ -87,109 +133,124 @@ export class ThorExecutor {
       signal: { type: 'none', strength: 0, confidence: 0, reasons: [] },
       checkpoints: [],
       dataPoints: 0,
-      requiredDataPoints: 30,
+      requiredDataPoints: runtime?.requiredCandles ?? THOR_REQUIRED_CANDLES,
       cooldownUntil: null,
       nextCheckAt: Date.now() + 5000,
     };
   }
 
+  /**
+   * ThorConfig as an IStrategy config (throws when a required parameter is missing)
+   */
+  static toStrategyConfig(config: ThorConfig): StrategyConfig {
+    const { instrument, cancelOnDisconnect, schedule, ...parameters } = config;
+    return {
+      instrument,
+      timeframe: '1m',
+      riskPercent: config.fixedRiskUsd && config.fixedRiskUsd > 0
+        ? (config.fixedRiskUsd / config.accountEquityUsd) * 100
+        : config.maxRiskPercent,
+      parameters,
+    };
+  }
+
   async initialize(): Promise<void> {
     console.log('[Thor] INITIALIZE');
     initializeOrderLifecycleManager(this.client);
+    if (this.config.cancelOnDisconnect) {
+      this.client.setCancelOnDisconnectPolicy(`${this.labelPrefix}_`, this.config.cancelOnDisconnect);
+    }
 
-    try {
-      const candles = await this.client.getCandles(this.config.instrument, '1', 200);
-      if (candles && Array.isArray(candles.close)) {
-        const n = candles.close.length;
-        for (let i = Math.max(0, n - 200); i < n; i++) {
-          this.candles.push({
-            open: candles.open[i],
-            high: candles.high[i],
-            low: candles.low[i],
-            close: candles.close[i],
-            ts: candles.timestamp?.[i] ?? Date.now(),
-          });
-        }
-        this.analysisState.dataPoints = this.candles.length;
-        this.analysisState.currentPrice = this.candles[this.candles.length - 1]?.close ?? null;
+    // Other candle sizes build up from ticks
+    if (this.candleMs === 60_000) {
+      try {
+        const candles = await this.client.getCandles(this.config.instrument, '1', 200);
+        this.harness.seedCandles(candlesFromChartData(candles));
+        const closes = this.harness.getCloses();
+        this.analysisState.dataPoints = closes.length;
+        this.analysisState.currentPrice = closes[closes.length - 1] ?? null;
+      } catch (err) {
+        console.error('[Thor] Failed to load historical candles', err);
       }
+    }
+
+    // Local L2 book for the spread filter (falls back to ticker best bid/ask)
+    try {
+      this.orderBook = await this.client.subscribeOrderBook(this.config.instrument, this.onOrderBook);
     } catch (err) {
-      console.error('[Thor] Failed to load historical candles', err);
+      console.warn('[Thor] Order book unavailable, using ticker spread', err);
     }
 
     await this.reconcileOnStartup();
+    await this.harness.startEvents(getOrderLifecycleManager());
+    await this.harness.startMarkPriceFeed();
     this.analysisState.status = 'analyzing';
     this.analysisState.lastUpdated = Date.now();
   }
 
+  /**
+   * Stop lifecycle event delivery and the mark price feed, and release the order book (called when the strategy is stopped)
+   */
+  cleanup(): void {
+    void this.harness.stopEvents();
+    void this.harness.stopMarkPriceFeed();
+    if (this.orderBook) {
+      this.orderBook = null;
+      this.client.unsubscribeOrderBook(this.config.instrument, this.onOrderBook).catch(err => {
+        console.warn('[Thor] Failed to release order book', err);
+      });
+    }
+    if (this.config.cancelOnDisconnect) {
+      this.client.setCancelOnDisconnectPolicy(`${this.labelPrefix}_`, null);
+    }
+  }
+
   getAnalysisState(): AnalysisState {
     return { ...this.analysisState };
   }
 
   async onTicker(price: number): Promise<void> {
+    const now = Date.now();
     this.analysisState.currentPrice = price;
-    this.analysisState.lastUpdated = Date.now();
+    this.analysisState.lastUpdated = now;
+    const session = await this.checkSchedule(now);
 
     if (this.analysisState.status === 'position_open') {
       await this.checkPositionAndResume();
       return;
     }
 
-    const now = Date.now();
-    const elapsed = now - this.candleStart;
-    let closedCandle = false;
-
-    if (elapsed >= this.candleMs) {
-      if (this.currentCandle) {
-        this.candles.push(this.currentCandle);
-        if (this.candles.length > 300) this.candles.shift();
-        closedCandle = true;
-      }
-      this.currentCandle = { open: price, high: price, low: price, close: price, ts: now };
-      this.candleStart = now;
-    } else {
-      if (!this.currentCandle) {
-        this.currentCandle = { open: price, high: price, low: price, close: price, ts: now };
-      } else {
-        this.currentCandle.high = Math.max(this.currentCandle.high, price);
-        this.currentCandle.low = Math.min(this.currentCandle.low, price);
-        this.currentCandle.close = price;
-      }
-    }
+    const closedCandle = this.harness.onPrice(price, now);
+    const candleCount = this.harness.getCandles().length;
 
-    this.analysisState.dataPoints = this.candles.length;
-
-    // Daily reset
-    if (now - this.dailyReset > 24 * 60 * 60 * 1000) {
-      this.dailyTrades = 0;
-      this.dailyReset = now;
-    }
+    this.analysisState.dataPoints = candleCount;
 
-    if (this.candles.length < this.analysisState.requiredDataPoints) {
+    if (candleCount < this.analysisState.requiredDataPoints) {
       this.analysisState.status = 'initializing';
       this.analysisState.checkpoints = [
         {
           id: 'data',
           label: 'Marktdata verzamelen',
           status: 'pending',
-          value: `${this.candles.length}/${this.analysisState.requiredDataPoints}`,
-          description: 'Thor wacht op voldoende 1m candles voor analyse',
+          value: `${candleCount}/${this.analysisState.requiredDataPoints}`,
+          description: `${this.harness.strategy.metadata.name} wacht op voldoende 1m candles voor analyse`,
           timestamp: now,
         },
+        ...(session ? [this.schedule!.checkpoint(session, now)] : []),
       ];
       return;
     }
 
-    this.updateIndicators();
+    const analysis = await this.harness.analyze(price);
+    this.updateIndicators(analysis);
     this.updateCheckpoints();
 
-    const signal = this.analyzeSignal();
-    this.analysisState.signal = {
-      type: signal.type,
-      strength: signal.type === 'none' ? 0 : 70,
-      confidence: signal.type === 'none' ? 0 : 80,
-      reasons: signal.reasons,
-    };
+    const signal = this.harness.dailyLimitReached(this.config.maxDailyTrades, now)
+      ? { type: 'none' as const, strength: 0, confidence: 0, reasons: ['Dagelijkse limiet bereikt'] }
+      : session && !session.tradingAllowed
+        ? { type: 'none' as const, strength: 0, confidence: 0, reasons: [session.reason] }
+        : toSignalState(analysis);
+    this.analysisState.signal = signal;
 
     if (!closedCandle || signal.type === 'none') {
       this.analysisState.status = 'analyzing';
@@ -200,33 +261,27 @@ export class ThorExecutor {
     await this.executeTrade(signal.type);
   }
 
-  private updateIndicators(): void {
-    const closes = this.candles.map(c => c.close);
-    const highs = this.candles.map(c => c.high);
-    const lows = this.candles.map(c => c.low);
-
-    // RSI(4)
-    this.analysisState.indicators.rsi = this.calculateRSI(closes, this.config.rsiPeriod);
-
-    // Volatility via ATR% for filters
-    const atr = this.calculateATR(highs, lows, closes, this.config.atrPeriod);
-    const last = closes[closes.length - 1];
-    const atrPct = atr && last ? (atr / last) * 100 : null;
-    this.analysisState.indicators.volatility = atrPct ?? null;
+  private updateIndicators(analysis: AnalysisResult): void {
+    // RSI, ATR% for filters and EMAs when the strategy has them
+    this.analysisState.indicators.rsi = analysis.indicators.rsi ?? null;
+    this.analysisState.indicators.volatility = analysis.indicators.volatility ?? null;
+    this.analysisState.indicators.emaFast = analysis.indicators.emaFast ?? null;
+    this.analysisState.indicators.emaSlow = analysis.indicators.emaSlow ?? null;
   }
 
   private updateCheckpoints(): void {
     const cps: Checkpoint[] = [];
     const { indicators } = this.analysisState;
+    const { rsiPeriod } = this.harness.config.parameters;
     const now = Date.now();
 
     if (indicators.rsi != null) {
       cps.push({
         id: 'rsi',
-        label: 'RSI(4)',
+        label: rsiPeriod ? `RSI(${rsiPeriod})` : 'RSI',
         status: 'met',
         value: indicators.rsi.toFixed(1),
-  description: 'Momentum voor Thor-strategie',
+  description: `Momentum voor ${this.harness.strategy.metadata.name}-strategie`,
         timestamp: now,
       });
     }
@@ -242,69 +297,48 @@ export class ThorExecutor {
       });
     }
 
+    if (this.schedule && this.scheduleState) {
+      cps.push(this.schedule.checkpoint(this.scheduleState, now));
+    }
+
     cps.push({
       id: 'status',
-      label: 'Thor status',
+      label: `${this.harness.strategy.metadata.name} status`,
       status: 'met',
       value: this.analysisState.status,
-  description: 'Thor-strategie engine',
+  description: `${this.harness.strategy.metadata.name}-strategie engine`,
       timestamp: now,
     });
 
     this.analysisState.checkpoints = cps;
   }
 
-  private analyzeSignal(): ThorSignal {
-    const closes = this.candles.map(c => c.close);
-    const highs = this.candles.map(c => c.high);
-    const lows = this.candles.map(c => c.low);
-    const last = this.candles[this.candles.length - 1];
-    const rsi = this.analysisState.indicators.rsi ?? null;
-    const reasons: string[] = [];
-
-    if (!last || rsi == null) {
-      return { type: 'none', reasons: ['Onvoldoende data'] };
+  /**
+   * Schedule state for this tick; closes the open position when a blackout asks to flatten,
+   * retrying on later ticks until the close succeeds
+   */
+  private async checkSchedule(now: number): Promise<ScheduleState | null> {
+    if (!this.schedule) {
+      return null;
     }
-
-    // Daily trade limit
-    if (this.dailyTrades >= this.config.maxDailyTrades) {
-      return { type: 'none', reasons: ['Dagelijkse limiet bereikt'] };
-    }
-
-    // ATR volatility band
-    const atr = this.calculateATR(highs, lows, closes, this.config.atrPeriod);
-    if (!atr) return { type: 'none', reasons: ['Geen ATR data'] };
-    const atrPct = (atr / last.close) * 100;
-    const atrMin = this.config.minAtrBps / 100;
-    const atrMax = this.config.maxAtrBps / 100;
-    if (atrPct < atrMin || atrPct > atrMax) {
-      return { type: 'none', reasons: ['ATR-filter buiten bereik'] };
-    }
-
-    // Simple BB using closes
-    const bb = this.calculateBollinger(closes, this.config.bbPeriod, this.config.bbStdDev);
-    const middle = bb?.middle ?? last.close;
-
-    // Core VIPER idee (vereenvoudigd): RSI extremes + mean reversion richting BB mid
-    let type: SignalType = 'none';
-    if (rsi <= this.config.rsiLongLevel && last.close < middle) {
-      type = 'long';
-      reasons.push('RSI laag + onder BB mid');
-    } else if (rsi >= this.config.rsiShortLevel && last.close > middle) {
-      type = 'short';
-      reasons.push('RSI hoog + boven BB mid');
+    this.scheduleState = this.schedule.evaluate(now);
+    if (this.analysisState.status === 'position_open' && this.schedule.shouldFlatten(this.scheduleState)) {
+      console.log(`[Thor] 🚫 ${this.scheduleState.reason}: closing position`);
+      try {
+        await this.harness.applyAction({ type: 'close_position', reason: this.scheduleState.reason });
+        this.schedule.markFlattened(this.scheduleState);
+      } catch (err) {
+        console.error('[Thor] Blackout flatten failed, retrying next tick', err);
+      }
     }
-
-    if (type === 'none') return { type, reasons: reasons.length ? reasons : ['Geen Viper signaal'] };
-    return { type, reasons };
+    return this.scheduleState;
   }
 
   private async executeTrade(direction: 'long' | 'short'): Promise<void> {
     try {
       console.log('[Thor] EXECUTE', direction);
 
-      const positions = await this.client.getPositions('USDC');
-      const existing = positions.find((p: any) => p.instrument_name === this.config.instrument && p.size !== 0);
+      const existing = await this.harness.findOpenPosition();
       if (existing) {
         console.error('[Thor] Position already open, skipping');
         this.analysisState.status = 'stopped';
@@ -317,40 +351,22 @@ export class ThorExecutor {
       ]);
 
       const price = ticker.last_price as number;
-      const mid = price;
-
-      // Spread filter if order book available via ticker (best_ask/bid)
-      const bestAsk = (ticker as any).best_ask ?? price;
-      const bestBid = (ticker as any).best_bid ?? price;
-      const spreadPct = ((bestAsk - bestBid) / mid) * 100;
-      const maxSpreadPct = this.config.spreadFilterBps / 100;
-      if (spreadPct > maxSpreadPct) {
-        console.warn('[Thor] Spread te hoog, geen entry', { spreadPct, maxSpreadPct });
+
+      // Spread filter: local order book when synced, else ticker best bid/ask
+      const book = this.orderBook?.isSynced() ? this.orderBook : null;
+      const quote = {
+        bid: book?.bestBid()?.price ?? ticker.best_bid_price ?? price,
+        ask: book?.bestAsk()?.price ?? ticker.best_ask_price ?? price,
+      };
+      const analysis = await this.harness.analyze(price, quote);
+      if (analysis.signal === 'NEUTRAL') {
+        console.warn('[Thor] Geen entry bij uitvoering', { reason: analysis.reason, ...quote });
         return;
       }
 
-      // Determine SL via last 5 swing high/low
-      const swings = this.candles.slice(-5);
-      if (swings.length < 5) return;
-
-      const swingLow = Math.min(...swings.map(c => c.low));
-      const swingHigh = Math.max(...swings.map(c => c.high));
-
-      const minSlDistancePct = 0.05; // 0.05%
-      const offsetPct = 0.02; // 0.02%
-
-      let stopPrice: number;
-      if (direction === 'long') {
-        stopPrice = swingLow * (1 - offsetPct / 100);
-        if ((price - stopPrice) / price * 100 < minSlDistancePct) {
-          stopPrice = price * (1 - minSlDistancePct / 100);
-        }
-      } else {
-        stopPrice = swingHigh * (1 + offsetPct / 100);
-        if ((stopPrice - price) / price * 100 < minSlDistancePct) {
-          stopPrice = price * (1 + minSlDistancePct / 100);
-        }
-      }
+      // SL beyond the last 5 swing high/low, TP at the BB midline
+      const signal = await this.harness.strategy.generateSignal(analysis, this.harness.marketData(price, quote));
+      const stopPrice = signal.stopLossPrice;
 
       // Position sizing based on risk (FIXED for proper USD sizing)
       const riskPercent = this.config.maxRiskPercent;
@@ -369,14 +385,7 @@ export class ThorExecutor {
       // Example: $100 equity, 3% risk = $3 max loss
       // Entry $100, SL $99 => distance $1
       // Amount = $3 / $1 = 3 contracts (each contract is $1 of the coin)
-      let amount = maxRiskUsd / slDistance;
-      
-      // Round to min_trade_amount increments
-      amount = Math.max(
-        Math.round(amount / instrument.min_trade_amount) * instrument.min_trade_amount,
-        instrument.min_trade_amount,
-      );
-      amount = Number(amount.toFixed(8));
+      const amount = roundAmount(maxRiskUsd / slDistance, instrument.min_trade_amount);
 
       if (!Number.isFinite(amount) || amount <= 0) {
         console.error('[Thor] Invalid amount', amount);
@@ -396,61 +405,22 @@ export class ThorExecutor {
         estimatedLossIfSL: (amount * slDistance).toFixed(2),
       });
 
-      // TP at BB midline
-      const closes = this.candles.map(c => c.close);
-      const bb = this.calculateBollinger(closes, this.config.bbPeriod, this.config.bbStdDev);
-      const tpPrice = bb?.middle ?? (direction === 'long' ? price * 1.0015 : price * 0.9985);
-
-      const tick = instrument.tick_size;
-      const round = (v: number) => Math.round(v / tick) * tick;
-
-      const entryPrice = price;
-      const slRounded = round(stopPrice);
-      const tpRounded = round(tpPrice);
-
-      const label = `thor_${direction}_${Date.now()}`;
-
-      const entry = direction === 'long'
-        ? await this.client.placeBuyOrder(this.config.instrument, amount, undefined, 'market', label)
-        : await this.client.placeSellOrder(this.config.instrument, amount, undefined, 'market', label);
-
-      await new Promise(r => setTimeout(r, 400));
-
-      const slOrder = direction === 'long'
-        ? await this.client.placeSellOrder(this.config.instrument, amount, slRounded, 'stop_market', `${label}_sl`, true)
-        : await this.client.placeBuyOrder(this.config.instrument, amount, slRounded, 'stop_market', `${label}_sl`, true);
-
-      const tpOrder = direction === 'long'
-        ? await this.client.placeSellOrder(this.config.instrument, amount, tpRounded, 'limit', `${label}_tp`, true)
-        : await this.client.placeBuyOrder(this.config.instrument, amount, tpRounded, 'limit', `${label}_tp`, true);
-
-      await ensureTradeHistoryInitialized();
-      const history = getTradeHistoryService();
-      this.currentTradeId = await history.recordTrade({
-        userId: this.userId, // FASE 3: Multi-user support
-        strategyName: this.strategyName,
-        instrument: this.config.instrument,
-        side: direction === 'long' ? 'buy' : 'sell',
-        entryOrderId: entry.order?.order_id || entry.order_id,
-        slOrderId: slOrder.order?.order_id || slOrder.order_id,
-        tpOrderId: tpOrder.order?.order_id || tpOrder.order_id,
-        entryPrice,
-        amount,
-        stopLoss: slRounded,
-        takeProfit: tpRounded,
-      });
+      const orders = await this.harness.placeBracket(signal, amount, instrument.tick_size);
+      this.currentTradeId = await this.harness.recordTrade(signal, amount, orders);
 
       this.analysisState.status = 'position_open';
-      this.dailyTrades += 1;
+      this.positionOpenedAt = Date.now();
+      this.harness.countTrade();
       console.log('[Thor] Trade opened', {
         direction,
-        entry: entryPrice,
-        sl: slRounded,
-        tp: tpRounded,
+        entry: price,
+        sl: orders.stopLoss,
+        tp: orders.takeProfit,
         riskUsd: maxRiskUsd,
       });
     } catch (err) {
       console.error('[Thor] Trade execution failed', err);
+      void this.harness.events.error(err as Error, { source: 'execution' });
       this.analysisState.status = 'analyzing';
     }
   }
@@ -462,11 +432,18 @@ export class ThorExecutor {
     }
 
     try {
+      if (this.maxHoldMs && this.positionOpenedAt && Date.now() - this.positionOpenedAt >= this.maxHoldMs) {
+        console.log('[Thor] Max hold time reached, closing position');
+        this.positionOpenedAt = null;
+        await this.harness.applyAction({ type: 'close_position', reason: 'Max hold time' });
+      }
+
       const manager = getOrderLifecycleManager();
       const closed = await manager.checkPositionAndCleanup(this.currentTradeId, this.config.instrument);
       if (closed) {
         this.analysisState.status = 'analyzing';
         this.currentTradeId = null;
+        this.positionOpenedAt = null;
       }
     } catch (err) {
       console.error('[Thor] checkPositionAndResume error', err);
@@ -477,13 +454,11 @@ export class ThorExecutor {
     try {
       const history = getTradeHistoryService();
       const open = await history.queryTrades({ strategyName: this.strategyName, status: 'open', limit: 1 });
-      const positions = await this.client.getPositions('USDC');
-      const existing = positions.find((p: any) =>
-        p.size !== 0 && (p.instrument_name === this.config.instrument || p.instrument === this.config.instrument),
-      );
+      const [existing] = await this.broker.getPositions(this.config.instrument);
 
       if (open.length && existing) {
         this.currentTradeId = open[0].id;
+        this.positionOpenedAt = open[0].entryTime;
         this.analysisState.status = 'position_open';
       } else if (!open.length && !existing) {
         this.analysisState.status = 'analyzing';
@@ -501,14 +476,15 @@ export class ThorExecutor {
         // Create record from position
         const tradeId = await history.recordTrade({
           userId: this.userId, // FASE 3: Multi-user support
+          configVersion: this.configVersion,
           strategyName: this.strategyName,
           instrument: this.config.instrument,
-          side: existing.size > 0 ? 'buy' : 'sell',
+          side: existing.side === 'long' ? 'buy' : 'sell',
           entryOrderId: 'auto_resume',
           slOrderId: undefined,
           tpOrderId: undefined,
-          entryPrice: existing.average_price,
-          amount: Math.abs(existing.size),
+          entryPrice: existing.entryPrice,
+          amount: existing.size,
           stopLoss: 0,
           takeProfit: 0,
         });
@@ -520,47 +496,4 @@ export class ThorExecutor {
       this.analysisState.status = 'analyzing';
     }
   }
-
-  private calculateRSI(prices: number[], period: number): number {
-    if (prices.length < period + 1) return 50;
-    const changes: number[] = [];
-    for (let i = 1; i < prices.length; i++) {
-      changes.push(prices[i] - prices[i - 1]);
-    }
-    const gains = changes.map(c => (c > 0 ? c : 0));
-    const losses = changes.map(c => (c < 0 ? -c : 0));
-    const avgGain = gains.slice(-period).reduce((s, v) => s + v, 0) / period;
-    const avgLoss = losses.slice(-period).reduce((s, v) => s + v, 0) / period;
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - 100 / (1 + rs);
-  }
-
-  private calculateATR(highs: number[], lows: number[], closes: number[], period: number): number | null {
-    if (highs.length < period + 1 || lows.length < period + 1 || closes.length < period + 1) return null;
-    const trs: number[] = [];
-    for (let i = highs.length - period; i < highs.length; i++) {
-      const h = highs[i];
-      const l = lows[i];
-      const cPrev = closes[i - 1];
-      const tr = Math.max(h - l, Math.abs(h - cPrev), Math.abs(l - cPrev));
-      trs.push(tr);
-    }
-    return trs.reduce((s, v) => s + v, 0) / trs.length;
-  }
-
-  private calculateBollinger(prices: number[], period: number, stdDev: number):
-    | { middle: number; upper: number; lower: number }
-    | null {
-    if (prices.length < period) return null;
-    const slice = prices.slice(-period);
-    const mean = slice.reduce((s, v) => s + v, 0) / slice.length;
-    const variance = slice.reduce((s, v) => s + (v - mean) ** 2, 0) / slice.length;
-    const sd = Math.sqrt(variance);
-    return {
-      middle: mean,
-      upper: mean + stdDev * sd,
-      lower: mean - stdDev * sd,
-    };
-  }
 }
@@ -0,0 +1,342 @@
+/**
+ * Trading Schedule
+ * When a strategy may open new positions
+ *
+ * A schedule (config.schedule of a user strategy) has weekday/time session windows in an
+ * IANA timezone and, optionally, follows the blackout calendar: events such as FOMC or CPI
+ * releases, loaded from a local JSON file (BLACKOUT_CALENDAR_FILE, default
+ * ./blackout-calendar.json). During a blackout, including its pre/post buffers, no new
+ * entries are made; with `flatten` the open position is closed once per blackout.
+ *
+ * Strategies without a schedule trade 24/7. Executors use TradingScheduleGate on every
+ * tick and show its checkpoint in AnalysisState.checkpoints.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { Checkpoint } from '../types/analysis';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'ma', tue: 'di', wed: 'wo', thu: 'do', fri: 'vr', sat: 'za', sun: 'zo',
+};
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const sessionWindowSchema = z.object({
+  days: z.array(z.enum(WEEKDAYS)).min(1),
+  start: z.string().regex(TIME, 'expected HH:MM'),
+  end: z.string().regex(TIME, 'expected HH:MM'), // before start: the window runs past midnight
+}).strict();
+
+const blackoutSettingsSchema = z.object({
+  tags: z.array(z.string().min(1)).optional(), // only events with one of these tags (default: all)
+  preBufferMinutes: z.number().min(0).optional(), // overrides the event's buffer
+  postBufferMinutes: z.number().min(0).optional(),
+  flatten: z.boolean().optional(), // close the open position when a blackout starts
+}).strict();
+
+export const tradingScheduleSchema = z.object({
+  timezone: z.string().refine(isTimeZone, 'unknown timezone'),
+  sessions: z.array(sessionWindowSchema).optional(), // none: every day, all day
+  blackouts: blackoutSettingsSchema.optional(), // absent: the calendar is ignored
+}).strict();
+
+const blackoutEventSchema = z.object({
+  name: z.string().min(1),
+  start: z.iso.datetime({ offset: true }),
+  end: z.iso.datetime({ offset: true }).optional(), // default: start
+  tags: z.array(z.string().min(1)).optional(),
+  preBufferMinutes: z.number().min(0).optional(),
+  postBufferMinutes: z.number().min(0).optional(),
+});
+
+export const blackoutCalendarSchema = z.object({
+  description: z.string().optional(),
+  events: z.array(blackoutEventSchema),
+});
+
+export type SessionWindow = z.infer<typeof sessionWindowSchema>;
+export type BlackoutSettings = z.infer<typeof blackoutSettingsSchema>;
+export type TradingSchedule = z.infer<typeof tradingScheduleSchema>;
+export type BlackoutEvent = z.infer<typeof blackoutEventSchema>;
+
+/**
+ * A blackout in effect, buffers included
+ */
+export interface ActiveBlackout {
+  name: string;
+  from: number;
+  until: number;
+  flatten: boolean;
+}
+
+export interface ScheduleState {
+  tradingAllowed: boolean;
+  window: string | null; // the session window we are in (label), null outside sessions
+  blackout: ActiveBlackout | null;
+  reason: string; // why no entries, or what allows them
+}
+
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidScheduleError';
+  }
+}
+
+/**
+ * Validate a schedule from a strategy config
+ * @throws InvalidScheduleError
+ */
+export function parseTradingSchedule(raw: unknown): TradingSchedule {
+  const result = tradingScheduleSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new InvalidScheduleError(`Invalid schedule: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`);
+  }
+  return result.data;
+}
+
+// ============================================================================
+// Time zones
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Weekday and minute of the day of `now` in a timezone
+ */
+function zonedTime(now: number, timezone: string): { day: number; minutes: number } {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(now).map(p => [p.type, p.value]));
+  return {
+    day: WEEKDAYS.indexOf(parts.weekday.toLowerCase() as Weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatZoned(ts: number, timezone: string): string {
+  return new Intl.DateTimeFormat('nl-NL', {
+    timeZone: timezone,
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(ts);
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * Whether `now` falls in the window; windows past midnight belong to the day they start
+ */
+export function inSessionWindow(window: SessionWindow, now: number, timezone: string): boolean {
+  const { day, minutes } = zonedTime(now, timezone);
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const today = window.days.includes(WEEKDAYS[day]);
+
+  if (start === end) {
+    return today;
+  }
+  if (start < end) {
+    return today && minutes >= start && minutes < end;
+  }
+  const yesterday = window.days.includes(WEEKDAYS[(day + 6) % 7]);
+  return (today && minutes >= start) || (yesterday && minutes < end);
+}
+
+export function sessionLabel(window: SessionWindow): string {
+  return `${window.days.map(d => WEEKDAY_LABELS[d]).join(',')} ${window.start}-${window.end}`;
+}
+
+// ============================================================================
+// Blackout calendar
+// ============================================================================
+
+export class BlackoutCalendar {
+  constructor(readonly events: BlackoutEvent[] = []) {}
+
+  /**
+   * @throws when the file is not valid JSON or does not match blackoutCalendarSchema
+   */
+  static fromFile(file: string): BlackoutCalendar {
+    const parsed = blackoutCalendarSchema.parse(JSON.parse(fs.readFileSync(file, 'utf8')));
+    return new BlackoutCalendar(parsed.events);
+  }
+
+  /**
+   * The blackout in effect at `now` for these settings (the one ending last when they overlap)
+   */
+  active(now: number, settings: BlackoutSettings): ActiveBlackout | null {
+    let active: ActiveBlackout | null = null;
+    for (const event of this.events) {
+      if (settings.tags?.length && !event.tags?.some(tag => settings.tags!.includes(tag))) {
+        continue;
+      }
+      const start = Date.parse(event.start);
+      const end = event.end ? Date.parse(event.end) : start;
+      const from = start - (settings.preBufferMinutes ?? event.preBufferMinutes ?? 0) * 60_000;
+      const until = end + (settings.postBufferMinutes ?? event.postBufferMinutes ?? 0) * 60_000;
+      if (now >= from && now < until && (!active || until > active.until)) {
+        active = { name: event.name, from, until, flatten: settings.flatten ?? false };
+      }
+    }
+    return active;
+  }
+}
+
+const RELOAD_CHECK_MS = 60_000;
+
+let loaded: { file: string; mtimeMs: number; checkedAt: number; calendar: BlackoutCalendar } | null = null;
+
+/**
+ * The calendar from BLACKOUT_CALENDAR_FILE; reloaded when the file changes (checked once a minute)
+ * A missing file is an empty calendar; an invalid file keeps the previous one.
+ */
+export function getBlackoutCalendar(now: number = Date.now()): BlackoutCalendar {
+  const file = path.resolve(process.env.BLACKOUT_CALENDAR_FILE || 'blackout-calendar.json');
+  if (loaded?.file === file && now - loaded.checkedAt < RELOAD_CHECK_MS) {
+    return loaded.calendar;
+  }
+
+  let mtimeMs = 0;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    // No calendar file
+  }
+  if (loaded?.file === file && loaded.mtimeMs === mtimeMs) {
+    loaded.checkedAt = now;
+    return loaded.calendar;
+  }
+
+  let calendar = new BlackoutCalendar();
+  if (mtimeMs) {
+    try {
+      calendar = BlackoutCalendar.fromFile(file);
+      console.log(`[TradingSchedule] ✅ Blackout calendar loaded: ${calendar.events.length} events from ${file}`);
+    } catch (error: any) {
+      console.error(`[TradingSchedule] ❌ Invalid blackout calendar ${file}: ${error.message}`);
+      calendar = loaded?.file === file ? loaded.calendar : calendar;
+    }
+  }
+  loaded = { file, mtimeMs, checkedAt: now, calendar };
+  return calendar;
+}
+
+// ============================================================================
+// Gate
+// ============================================================================
+
+/**
+ * Per-executor view of a schedule: entry permission, flatten-once and the UI checkpoint
+ */
+export class TradingScheduleGate {
+  private flattened = new Set<string>(); // blackouts already flattened for
+
+  constructor(
+    readonly schedule: TradingSchedule,
+    private readonly calendar: (now: number) => BlackoutCalendar = getBlackoutCalendar
+  ) {}
+
+  evaluate(now: number = Date.now()): ScheduleState {
+    const { timezone, sessions, blackouts } = this.schedule;
+    const session = sessions?.length
+      ? sessions.find(w => inSessionWindow(w, now, timezone))
+      : undefined;
+    const window = sessions?.length ? (session ? sessionLabel(session) : null) : 'altijd';
+    const blackout = blackouts ? this.calendar(now).active(now, blackouts) : null;
+
+    if (blackout) {
+      return { tradingAllowed: false, window, blackout, reason: `Blackout: ${blackout.name}` };
+    }
+    if (!window) {
+      return { tradingAllowed: false, window, blackout, reason: 'Buiten handelssessie' };
+    }
+    return { tradingAllowed: true, window, blackout, reason: `Handelssessie ${window}` };
+  }
+
+  /**
+   * True while a blackout asks to flatten and its close hasn't succeeded yet
+   * (see markFlattened), so a failed close is retried on the next tick
+   */
+  shouldFlatten(state: ScheduleState): boolean {
+    return !!state.blackout?.flatten && !this.flattened.has(this.blackoutKey(state.blackout));
+  }
+
+  /**
+   * Record that the position was closed for this blackout
+   */
+  markFlattened(state: ScheduleState): void {
+    if (state.blackout) {
+      this.flattened.add(this.blackoutKey(state.blackout));
+    }
+  }
+
+  private blackoutKey(blackout: NonNullable<ScheduleState['blackout']>): string {
+    return `${blackout.name}@${blackout.from}`;
+  }
+
+  checkpoint(state: ScheduleState, now: number = Date.now()): Checkpoint {
+    const { timezone, sessions } = this.schedule;
+    const windows = sessions?.length ? sessions.map(sessionLabel).join('; ') : 'hele week';
+
+    let value: string;
+    let description: string;
+    if (state.blackout) {
+      value = state.blackout.name;
+      description = `Blackout tot ${formatZoned(state.blackout.until, timezone)} (${timezone})` +
+        (state.blackout.flatten ? ', positie wordt gesloten' : '');
+    } else if (!state.window) {
+      value = 'Gesloten';
+      description = `Sessies: ${windows} (${timezone})`;
+    } else {
+      value = state.window;
+      description = `Open (${timezone})`;
+    }
+
+    return {
+      id: 'session',
+      label: 'Handelsvenster',
+      status: state.tradingAllowed ? 'met' : 'pending',
+      value,
+      description,
+      timestamp: now,
+    };
+  }
+}
@@ -3,12 +3,29 @@ import { Candle, Timeframe } from './types';
 export class CandleAggregator {
   private candles1m: Candle[] = [];
   
+  /**
+   * @param maxHistory - 1m candles kept; size it to the longest timeframe x lookback in use
+   */
+  constructor(private readonly maxHistory: number = 250) {}
+  
+  /**
+   * Append a 1m candle; a candle for the last timestamp replaces it (still forming),
+   * older ones are ignored (already seen)
+   */
   addCandle1m(candle: Candle): void {
+    const last = this.candles1m[this.candles1m.length - 1];
+    if (last && candle.timestamp < last.timestamp) {
+      return;
+    }
+    if (last && candle.timestamp === last.timestamp) {
+      this.candles1m[this.candles1m.length - 1] = candle;
+      return;
+    }
+    
     this.candles1m.push(candle);
     
-    const maxHistory = 250;
-    if (this.candles1m.length > maxHistory) {
-      this.candles1m = this.candles1m.slice(-maxHistory);
+    if (this.candles1m.length > this.maxHistory) {
+      this.candles1m = this.candles1m.slice(-this.maxHistory);
     }
   }
   
@@ -17,11 +34,11 @@ export class CandleAggregator {
       return this.candles1m.slice(-limit);
     }
     
-    const multiplier = this.getTimeframeMultiplier(timeframe);
+    const multiplier = CandleAggregator.timeframeMinutes(timeframe);
     return this.aggregateCandles(this.candles1m, multiplier).slice(-limit);
   }
   
-  private getTimeframeMultiplier(timeframe: Timeframe): number {
+  static timeframeMinutes(timeframe: Timeframe): number {
     switch (timeframe) {
       case '1m': return 1;
       case '5m': return 5;
@@ -0,0 +1,272 @@
+import {
+  Candle,
+  Timeframe,
+  RuleNode,
+  RuleOperand,
+  ComparisonOperator,
+  IndicatorName,
+  IndicatorOperand,
+  PriceOperand,
+} from './types';
+import { TechnicalIndicators } from './TechnicalIndicators';
+
+/**
+ * Rule expression trees for JSON-defined strategies
+ *
+ * A node is a comparison `{ left, op, right }` or a group `{ all: [...] }`, `{ any: [...] }`,
+ * `{ not: node }`. Operands are numbers, price fields or indicators, each optionally on
+ * another timeframe:
+ *
+ *   { "all": [
+ *     { "left": { "indicator": "ema", "period": 9 }, "op": "crosses_above", "right": { "indicator": "ema", "period": 21 } },
+ *     { "not": { "left": { "indicator": "rsi", "timeframe": "15m" }, "op": ">", "right": 70 } }
+ *   ] }
+ *
+ * Evaluation is three-valued: a comparison without enough candles is `null` (unknown),
+ * `not` keeps it unknown, and a rule only fires on `true`.
+ */
+
+export type CandleSource = (timeframe: Timeframe) => Candle[];
+
+const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '4h'];
+const OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<=', 'crosses_above', 'crosses_below'];
+const PRICE_FIELDS: PriceOperand['price'][] = ['open', 'high', 'low', 'close', 'volume'];
+
+const DEFAULT_PERIODS: Record<IndicatorName, number> = {
+  ema: 9,
+  sma: 20,
+  rsi: 14,
+  atr: 14,
+  bb_upper: 20,
+  bb_middle: 20,
+  bb_lower: 20,
+  volume_sma: 20,
+};
+
+export class RuleEvaluator {
+  private series = new Map<string, number[]>();
+
+  /**
+   * @param source - candles per timeframe (oldest first)
+   * @param defaultTimeframe - timeframe of operands that do not name one
+   */
+  constructor(private readonly source: CandleSource, private readonly defaultTimeframe: Timeframe) {}
+
+  /**
+   * @returns true/false, or null when an operand lacks data
+   */
+  evaluate(node: RuleNode): boolean | null {
+    if ('all' in node) {
+      const results = node.all.map(child => this.evaluate(child));
+      if (results.includes(false)) return false;
+      return results.includes(null) ? null : true;
+    }
+    if ('any' in node) {
+      const results = node.any.map(child => this.evaluate(child));
+      if (results.includes(true)) return true;
+      return results.includes(null) ? null : false;
+    }
+    if ('not' in node) {
+      const result = this.evaluate(node.not);
+      return result === null ? null : !result;
+    }
+
+    const left = this.valueAt(node.left, 0);
+    const right = this.valueAt(node.right, 0);
+    if (left === null || right === null) return null;
+
+    switch (node.op) {
+      case '>': return left > right;
+      case '>=': return left >= right;
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case 'crosses_above':
+      case 'crosses_below': {
+        const prevLeft = this.valueAt(node.left, 1);
+        const prevRight = this.valueAt(node.right, 1);
+        if (prevLeft === null || prevRight === null) return null;
+        return node.op === 'crosses_above'
+          ? prevLeft <= prevRight && left > right
+          : prevLeft >= prevRight && left < right;
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Operands
+  // ==========================================================================
+
+  /**
+   * Operand value `back` candles before its own offset
+   */
+  private valueAt(operand: RuleOperand, back: number): number | null {
+    if (typeof operand === 'number') {
+      return operand;
+    }
+    const values = this.seriesFor(operand);
+    const index = values.length - 1 - (operand.offset ?? 0) - back;
+    if (index < 0 || !Number.isFinite(values[index])) {
+      return null;
+    }
+    return values[index] * (operand.multiplier ?? 1);
+  }
+
+  private seriesFor(operand: IndicatorOperand | PriceOperand): number[] {
+    const timeframe = operand.timeframe ?? this.defaultTimeframe;
+    const key = 'price' in operand
+      ? `${timeframe}:${operand.price}`
+      : `${timeframe}:${operand.indicator}:${operand.period ?? ''}:${operand.stdDev ?? ''}`;
+
+    let values = this.series.get(key);
+    if (!values) {
+      values = computeSeries(operand, this.source(timeframe));
+      this.series.set(key, values);
+    }
+    return values;
+  }
+
+  // ==========================================================================
+  // Validation & description
+  // ==========================================================================
+
+  /**
+   * Check a (JSON) expression tree
+   * @throws Error naming the offending path, e.g. `rules[1].when.all[0].left: unknown indicator "macd"`
+   */
+  static validate(node: unknown, path: string): void {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      throw new Error(`${path}: expected a condition or an all/any/not group`);
+    }
+    const n = node as Record<string, any>;
+
+    if ('all' in n || 'any' in n) {
+      const key = 'all' in n ? 'all' : 'any';
+      if (!Array.isArray(n[key]) || n[key].length === 0) {
+        throw new Error(`${path}.${key}: expected a non-empty array`);
+      }
+      n[key].forEach((child: unknown, i: number) => RuleEvaluator.validate(child, `${path}.${key}[${i}]`));
+      return;
+    }
+    if ('not' in n) {
+      RuleEvaluator.validate(n.not, `${path}.not`);
+      return;
+    }
+
+    if (!OPERATORS.includes(n.op)) {
+      throw new Error(`${path}.op: unknown operator "${n.op}" (expected ${OPERATORS.join(', ')})`);
+    }
+    validateOperand(n.left, `${path}.left`);
+    validateOperand(n.right, `${path}.right`);
+  }
+
+  /**
+   * Candles per timeframe the tree needs before every operand has a value
+   * (indicator period plus one, offset, and the previous candle for crossovers)
+   */
+  static lookback(node: RuleNode, defaultTimeframe: Timeframe, needs: Partial<Record<Timeframe, number>> = {}): Partial<Record<Timeframe, number>> {
+    if ('all' in node || 'any' in node) {
+      ('all' in node ? node.all : node.any).forEach(child => RuleEvaluator.lookback(child, defaultTimeframe, needs));
+      return needs;
+    }
+    if ('not' in node) {
+      return RuleEvaluator.lookback(node.not, defaultTimeframe, needs);
+    }
+
+    const back = node.op === 'crosses_above' || node.op === 'crosses_below' ? 1 : 0;
+    for (const operand of [node.left, node.right]) {
+      if (typeof operand === 'number') continue;
+      const timeframe = operand.timeframe ?? defaultTimeframe;
+      const candles = ('price' in operand ? 1 : (operand.period ?? DEFAULT_PERIODS[operand.indicator]) + 1)
+        + (operand.offset ?? 0) + back;
+      needs[timeframe] = Math.max(needs[timeframe] ?? 0, candles);
+    }
+    return needs;
+  }
+
+  /**
+   * Human-readable form, used as signal reason: `EMA(9) crosses above EMA(21) AND NOT RSI(14, 15m) > 70`
+   */
+  static describe(node: RuleNode): string {
+    if ('all' in node) return group(node.all, ' AND ');
+    if ('any' in node) return group(node.any, ' OR ');
+    if ('not' in node) return `NOT ${RuleEvaluator.describe(node.not)}`;
+    return `${describeOperand(node.left)} ${node.op.replace('_', ' ')} ${describeOperand(node.right)}`;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function computeSeries(operand: IndicatorOperand | PriceOperand, candles: Candle[]): number[] {
+  if ('price' in operand) {
+    return candles.map(c => c[operand.price]);
+  }
+
+  const period = operand.period ?? DEFAULT_PERIODS[operand.indicator];
+  switch (operand.indicator) {
+    case 'ema': return TechnicalIndicators.calculateEMA(candles, period);
+    case 'sma': return TechnicalIndicators.calculateSMA(candles, period);
+    case 'rsi': return TechnicalIndicators.calculateRSI(candles, period);
+    case 'atr': return TechnicalIndicators.calculateATR(candles, period);
+    case 'bb_upper': return TechnicalIndicators.calculateBollingerBands(candles, period, operand.stdDev ?? 2).upper;
+    case 'bb_middle': return TechnicalIndicators.calculateBollingerBands(candles, period, operand.stdDev ?? 2).middle;
+    case 'bb_lower': return TechnicalIndicators.calculateBollingerBands(candles, period, operand.stdDev ?? 2).lower;
+    case 'volume_sma': return TechnicalIndicators.calculateSMA(candles.map(c => ({ ...c, close: c.volume })), period);
+  }
+}
+
+function validateOperand(operand: unknown, path: string): void {
+  if (typeof operand === 'number') {
+    if (!Number.isFinite(operand)) throw new Error(`${path}: number must be finite`);
+    return;
+  }
+  if (!operand || typeof operand !== 'object') {
+    throw new Error(`${path}: expected a number, { indicator } or { price }`);
+  }
+  const o = operand as Record<string, any>;
+
+  if ('price' in o) {
+    if (!PRICE_FIELDS.includes(o.price)) {
+      throw new Error(`${path}.price: unknown field "${o.price}" (expected ${PRICE_FIELDS.join(', ')})`);
+    }
+  } else if ('indicator' in o) {
+    if (!(o.indicator in DEFAULT_PERIODS)) {
+      throw new Error(`${path}: unknown indicator "${o.indicator}" (expected ${Object.keys(DEFAULT_PERIODS).join(', ')})`);
+    }
+    if (o.period !== undefined && !(Number.isInteger(o.period) && o.period > 0)) {
+      throw new Error(`${path}.period: expected a positive integer`);
+    }
+  } else {
+    throw new Error(`${path}: expected a number, { indicator } or { price }`);
+  }
+
+  if (o.timeframe !== undefined && !TIMEFRAMES.includes(o.timeframe)) {
+    throw new Error(`${path}.timeframe: unknown timeframe "${o.timeframe}" (expected ${TIMEFRAMES.join(', ')})`);
+  }
+  if (o.offset !== undefined && !(Number.isInteger(o.offset) && o.offset >= 0)) {
+    throw new Error(`${path}.offset: expected a non-negative integer`);
+  }
+  if (o.multiplier !== undefined && !Number.isFinite(o.multiplier)) {
+    throw new Error(`${path}.multiplier: expected a number`);
+  }
+}
+
+function describeOperand(operand: RuleOperand): string {
+  if (typeof operand === 'number') {
+    return String(operand);
+  }
+  const args = 'price' in operand
+    ? [operand.timeframe]
+    : [String(operand.period ?? DEFAULT_PERIODS[operand.indicator]), operand.timeframe];
+  const name = 'price' in operand ? operand.price : operand.indicator.toUpperCase();
+  const shown = args.filter(Boolean);
+  let text = shown.length > 0 ? `${name}(${shown.join(', ')})` : name;
+  if (operand.offset) text += `[-${operand.offset}]`;
+  if (operand.multiplier !== undefined && operand.multiplier !== 1) text = `${operand.multiplier} x ${text}`;
+  return text;
+}
+
+function group(nodes: RuleNode[], joiner: string): string {
+  return `(${nodes.map(RuleEvaluator.describe).join(joiner)})`;
+}
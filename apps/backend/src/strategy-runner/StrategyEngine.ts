@@ -1,15 +1,61 @@
-import { StrategyConfig, StrategySignal, Candle } from './types';
+import { StrategyConfig, StrategySignal, StrategyRule, ExpressionRule, Candle, Timeframe } from './types';
 import { TechnicalIndicators } from './TechnicalIndicators';
+import { RuleEvaluator, CandleSource } from './RuleExpression';
+
+const DEFAULT_THRESHOLD = 0.6;
+const MIN_CANDLES = 50; // on the strategy timeframe; covers the legacy rules (SMA 50)
 
 export class StrategyEngine {
   private config: StrategyConfig;
   
   constructor(config: StrategyConfig) {
+    StrategyEngine.validateConfig(config);
     this.config = config;
   }
   
-  evaluate(candles: Candle[]): StrategySignal {
-    if (candles.length < 50) {
+  /**
+   * Check thresholds and expression rules before a config is run
+   * @throws Error naming the offending rule path
+   */
+  static validateConfig(config: StrategyConfig): void {
+    if (config.threshold !== undefined && !(config.threshold > 0 && config.threshold <= 1)) {
+      throw new Error('threshold: expected a number in (0, 1]');
+    }
+    
+    config.rules.forEach((rule, i) => {
+      if (rule.type !== 'expression') return;
+      
+      if (rule.signal !== 'buy' && rule.signal !== 'sell') {
+        throw new Error(`rules[${i}].signal: expected "buy" or "sell"`);
+      }
+      if (rule.weight !== undefined && !(rule.weight > 0)) {
+        throw new Error(`rules[${i}].weight: expected a positive number`);
+      }
+      RuleEvaluator.validate(rule.when, `rules[${i}].when`);
+    });
+  }
+  
+  /**
+   * Candles per timeframe a config needs to evaluate: MIN_CANDLES on the strategy
+   * timeframe, plus the lookback of every expression operand
+   */
+  static candleRequirements(config: StrategyConfig): Partial<Record<Timeframe, number>> {
+    const needs: Partial<Record<Timeframe, number>> = { [config.timeframe]: MIN_CANDLES };
+    for (const rule of config.rules) {
+      if (rule.type === 'expression') {
+        RuleEvaluator.lookback(rule.when, config.timeframe, needs);
+      }
+    }
+    return needs;
+  }
+  
+  /**
+   * @param candles - candles on the strategy timeframe
+   * @param source - candles for other timeframes (e.g. from CandleAggregator); without it,
+   *   expression operands on another timeframe have no data
+   */
+  evaluate(candles: Candle[], source?: CandleSource): StrategySignal {
+    if (candles.length < MIN_CANDLES) {
       return {
         action: 'none',
         confidence: 0,
@@ -19,13 +65,19 @@ export class StrategyEngine {
     
     const currentPrice = candles[candles.length - 1].close;
     const indicators = this.calculateIndicators(candles);
+    const expressions = new RuleEvaluator(
+      timeframe => timeframe === this.config.timeframe ? candles : source?.(timeframe) ?? [],
+      this.config.timeframe
+    );
     
     let buyScore = 0;
     let sellScore = 0;
     const reasons: string[] = [];
     
     for (const rule of this.config.rules) {
-      const result = this.evaluateRule(rule, indicators, currentPrice, candles);
+      const result = rule.type === 'expression'
+        ? this.evaluateExpressionRule(rule, expressions)
+        : this.evaluateRule(rule, indicators, currentPrice, candles);
       
       if (result.signal === 'buy') {
         buyScore += result.weight;
@@ -36,15 +88,17 @@ export class StrategyEngine {
       }
     }
     
-    const totalRules = this.config.rules.length;
+    // Legacy rules count 1 each, expression rules their weight
+    const totalRules = this.config.rules.reduce((sum, rule) => sum + ruleWeight(rule), 0);
+    const threshold = this.config.threshold ?? DEFAULT_THRESHOLD;
     
-    if (buyScore > sellScore && buyScore >= totalRules * 0.6) {
+    if (buyScore > sellScore && buyScore >= totalRules * threshold) {
       return {
         action: 'buy',
         confidence: buyScore / totalRules,
         reason: reasons.join('; '),
       };
-    } else if (sellScore > buyScore && sellScore >= totalRules * 0.6) {
+    } else if (sellScore > buyScore && sellScore >= totalRules * threshold) {
       return {
         action: 'sell',
         confidence: sellScore / totalRules,
@@ -63,9 +117,7 @@ export class StrategyEngine {
     const indicators: Record<string, number | number[]> = {};
     
     const rulesNeedingIndicators = new Set(
-      this.config.rules
-        .filter(r => r.type === 'indicator' && r.indicator)
-        .map(r => r.indicator!)
+      this.config.rules.flatMap(r => (r.type === 'indicator' && r.indicator ? [r.indicator] : []))
     );
     
     if (rulesNeedingIndicators.has('ema')) {
@@ -156,11 +208,30 @@ export class StrategyEngine {
     return { signal: 'none', weight: 0, reason: '' };
   }
   
+  private evaluateExpressionRule(
+    rule: ExpressionRule,
+    expressions: RuleEvaluator
+  ): { signal: 'buy' | 'sell' | 'none'; weight: number; reason: string } {
+    if (expressions.evaluate(rule.when) !== true) {
+      return { signal: 'none', weight: 0, reason: '' };
+    }
+    return {
+      signal: rule.signal,
+      weight: ruleWeight(rule),
+      reason: rule.label ?? RuleEvaluator.describe(rule.when),
+    };
+  }
+  
   getConfig(): StrategyConfig {
     return this.config;
   }
   
   updateConfig(config: StrategyConfig): void {
+    StrategyEngine.validateConfig(config);
     this.config = config;
   }
 }
+
+function ruleWeight(rule: StrategyRule): number {
+  return rule.type === 'expression' ? rule.weight ?? 1 : 1;
+}
@@ -4,15 +4,20 @@ import { StrategyEngine } from './StrategyEngine';
 import { RiskEngine } from './RiskEngine';
 import { StateStore } from './StateStore';
 import { ReconciliationService } from './ReconciliationService';
+import { getTradeHistoryService, ensureTradeHistoryInitialized } from '../services/trade-history';
 import { 
   StrategyConfig, 
   Position, 
   StrategyStatus,
   Candle,
   StrategySignal,
+  Timeframe,
 } from './types';
 import { TechnicalIndicators } from './TechnicalIndicators';
 
+const CANDLE_WINDOW = 100; // candles handed to the engine per timeframe
+const MIN_1M_HISTORY = 250;
+
 export class StrategyRunner {
   private broker: IBroker | null = null;
   private strategyEngine: StrategyEngine | null = null;
@@ -25,6 +30,8 @@ export class StrategyRunner {
   private currentConfig: StrategyConfig | null = null;
   private equity: number = 0;
   private lastSignal: StrategySignal | null = null;
+  private currentTradeId: string | null = null;
+  private candleNeeds: Partial<Record<Timeframe, number>> = {};
   private userId: string;
   private workerId: string;
   
@@ -47,7 +54,17 @@ export class StrategyRunner {
     
     this.currentConfig = config;
     this.strategyEngine = new StrategyEngine(config);
-    console.log(`[StrategyRunner] Strategy loaded: ${config.name}`);
+    
+    // Keep enough 1m candles to aggregate the longest timeframe x lookback the rules use
+    this.candleNeeds = StrategyEngine.candleRequirements(config);
+    const history = Math.max(
+      MIN_1M_HISTORY,
+      ...Object.entries(this.candleNeeds).map(([timeframe, count]) =>
+        CandleAggregator.timeframeMinutes(timeframe as Timeframe) * count!
+      )
+    );
+    this.candleAggregator = new CandleAggregator(history);
+    console.log(`[StrategyRunner] Strategy loaded: ${config.name} (${history} 1m candles of history)`);
   }
   
   setBroker(broker: IBroker): void {
@@ -126,6 +143,60 @@ export class StrategyRunner {
     if (result.orphanedOrders.length > 0) {
       console.log(`[StrategyRunner] Cleaned up ${result.orphanedOrders.length} orphaned orders`);
     }
+    
+    await this.reconcileTradeHistory();
+  }
+  
+  /**
+   * Bring the trade history in line with the broker position, the same way
+   * the Deribit executors do on startup: adopt the open trade, close a ghost
+   * trade whose position is gone, or record a position that has no trade.
+   */
+  private async reconcileTradeHistory(): Promise<void> {
+    if (!this.broker || !this.currentConfig) return;
+    
+    const { name, instrument } = this.currentConfig;
+    
+    try {
+      await ensureTradeHistoryInitialized();
+      const history = getTradeHistoryService();
+      const open = await history.queryTrades({ strategyName: name, instrument, status: 'open', limit: 1 });
+      const [existing] = await this.broker.getPositions(instrument);
+      
+      if (open.length && existing) {
+        this.currentTradeId = open[0].id;
+      } else if (open.length && !existing) {
+        await history.closeTrade({
+          tradeId: open[0].id,
+          exitPrice: open[0].entryPrice,
+          exitReason: 'manual',
+          pnl: 0,
+          pnlPercentage: 0,
+        });
+        console.log(`[StrategyRunner] Closed ghost trade ${open[0].id} (no ${instrument} position)`);
+        this.currentTradeId = null;
+      } else if (!open.length && existing) {
+        const state = this.stateStore.getState();
+        this.currentTradeId = await history.recordTrade({
+          userId: this.userId,
+          strategyName: name,
+          instrument,
+          side: existing.side === 'long' ? 'buy' : 'sell',
+          entryOrderId: 'auto_resume',
+          slOrderId: undefined,
+          tpOrderId: undefined,
+          entryPrice: existing.entryPrice,
+          amount: existing.size,
+          stopLoss: state.position?.stopLoss ?? 0,
+          takeProfit: state.position?.takeProfit ?? 0,
+        });
+        console.log(`[StrategyRunner] Recorded untracked ${instrument} position as trade ${this.currentTradeId}`);
+      } else {
+        this.currentTradeId = null;
+      }
+    } catch (error) {
+      console.error('[StrategyRunner] ❌ Trade history reconciliation failed:', error);
+    }
   }
   
   private runLoop(): void {
@@ -170,17 +241,21 @@ export class StrategyRunner {
         });
       }
       
-      if (!this.candleAggregator.hasEnoughData(this.currentConfig.timeframe, 50)) {
+      const byTimeframe = new Map<Timeframe, Candle[]>();
+      for (const [timeframe, count] of Object.entries(this.candleNeeds) as Array<[Timeframe, number]>) {
+        byTimeframe.set(timeframe, await this.candlesFor(timeframe, count));
+      }
+      
+      const targetCandles = byTimeframe.get(this.currentConfig.timeframe) ?? [];
+      if (targetCandles.length < (this.candleNeeds[this.currentConfig.timeframe] ?? 0)) {
         console.log('[StrategyRunner] Insufficient candle data');
         return;
       }
       
-      const targetCandles = this.candleAggregator.getCandles(
-        this.currentConfig.timeframe,
-        100
+      const signal = this.strategyEngine.evaluate(
+        targetCandles,
+        timeframe => byTimeframe.get(timeframe) ?? []
       );
-      
-      const signal = this.strategyEngine.evaluate(targetCandles);
       this.lastSignal = signal;
       
       if (signal.action === 'buy' || signal.action === 'sell') {
@@ -197,6 +272,26 @@ export class StrategyRunner {
     }
   }
   
+  /**
+   * Candles aggregated from 1m history, or the broker's own candles for the timeframe
+   * while the 1m history is still too short (right after start)
+   */
+  private async candlesFor(timeframe: Timeframe, needed: number): Promise<Candle[]> {
+    const window = Math.max(needed, CANDLE_WINDOW);
+    const aggregated = this.candleAggregator.getCandles(timeframe, window);
+    if (aggregated.length >= needed || timeframe === '1m' || !this.broker || !this.currentConfig) {
+      return aggregated;
+    }
+    
+    try {
+      const backfill = await this.broker.getCandles(this.currentConfig.instrument, timeframe, window);
+      return backfill.map(({ timestamp, open, high, low, close, volume }) => ({ timestamp, open, high, low, close, volume }));
+    } catch (error) {
+      console.warn(`[StrategyRunner] ⚠️ No ${timeframe} backfill, ${aggregated.length}/${needed} candles aggregated:`, error);
+      return aggregated;
+    }
+  }
+  
   private async executeSignal(signal: StrategySignal, candles: Candle[]): Promise<void> {
     if (!this.broker || !this.currentConfig) return;
     
@@ -302,6 +397,22 @@ export class StrategyRunner {
         tpOrderId: undefined,
       };
       
+      try {
+        this.currentTradeId = await getTradeHistoryService().recordTrade({
+          userId: this.userId,
+          strategyName: this.currentConfig.name,
+          instrument: position.instrument,
+          side: position.side,
+          entryOrderId: entryOrder.orderId,
+          entryPrice: currentPrice,
+          amount: riskResult.quantity,
+          stopLoss,
+          takeProfit,
+        });
+      } catch (error) {
+        console.error('[StrategyRunner] ❌ Failed to record trade in history:', error);
+      }
+      
       const state = this.stateStore.getState();
       await this.stateStore.setState({
         position,
@@ -352,16 +463,15 @@ export class StrategyRunner {
           
           console.log('[StrategyRunner] ✅ Position closed detected (SL/TP orders filled or cancelled)');
           
-          // Try to get final exit info from recent trades if possible
-          // For now, we'll use entry price as approximation
-          // TODO: Fetch actual fill price from trade history
-          const exitPrice = position.entryPrice; // Simplified for now
+          // Approximate the fill with the latest 1m close (actual PnL calculated by broker)
+          const exitPrice = await this.latestPrice(position);
           
-          // Calculate PnL (simplified - actual PnL calculated by broker)
           const pnl = position.side === 'buy'
             ? (exitPrice - position.entryPrice) * position.amount
             : (position.entryPrice - exitPrice) * position.amount;
           
+          await this.closeCurrentTrade(position, exitPrice, pnl);
+          
           const state = this.stateStore.getState();
           
           await this.stateStore.setState({
@@ -385,6 +495,39 @@ export class StrategyRunner {
     }, 5000); // Check every 5 seconds
   }
   
+  private async latestPrice(position: Position): Promise<number> {
+    try {
+      const [candle] = (await this.broker?.getCandles(position.instrument, '1m', 1)) ?? [];
+      if (candle) return candle.close;
+    } catch (error) {
+      console.warn('[StrategyRunner] ⚠️ Could not fetch exit price, using entry price:', error);
+    }
+    return position.entryPrice;
+  }
+  
+  private async closeCurrentTrade(position: Position, exitPrice: number, pnl: number): Promise<void> {
+    if (!this.currentTradeId) return;
+    
+    // Whichever bracket leg the exit landed closer to is the one that filled
+    const exitReason = Math.abs(exitPrice - position.stopLoss) <= Math.abs(exitPrice - position.takeProfit)
+      ? 'sl_hit'
+      : 'tp_hit';
+    const notional = position.entryPrice * position.amount;
+    
+    try {
+      await getTradeHistoryService().closeTrade({
+        tradeId: this.currentTradeId,
+        exitPrice,
+        exitReason,
+        pnl,
+        pnlPercentage: notional > 0 ? (pnl / notional) * 100 : 0,
+      });
+      this.currentTradeId = null;
+    } catch (error) {
+      console.error(`[StrategyRunner] ❌ Failed to close trade ${this.currentTradeId} in history:`, error);
+    }
+  }
+  
   stop(): void {
     if (!this.isRunning) {
       return;
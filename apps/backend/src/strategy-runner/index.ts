@@ -5,6 +5,15 @@ export type {
   StrategySignal,
   StrategyConfig,
   StrategyRule,
+  LegacyStrategyRule,
+  ExpressionRule,
+  RuleNode,
+  RuleCondition,
+  RuleOperand,
+  ComparisonOperator,
+  IndicatorName,
+  IndicatorOperand,
+  PriceOperand,
   Position,
   BracketState,
   StrategyStatus
@@ -14,6 +23,7 @@ export * from './StrategyRunner';
 // If you need strategy-runner specific handlers, import directly from './strategy-runner/api'
 export * from './CandleAggregator';
 export * from './StrategyEngine';
+export * from './RuleExpression';
 export * from './RiskEngine';
 export * from './TechnicalIndicators';
 export * from './StateStore';
@@ -29,6 +29,7 @@ export interface StrategyConfig {
   instrument: string;
   timeframe: Timeframe;
   rules: StrategyRule[];
+  threshold?: number; // share of total rule weight a side needs to fire (0-1, default 0.6)
   risk: {
     mode: 'percent' | 'fixed';
     value: number;
@@ -44,7 +45,12 @@ export interface StrategyConfig {
   };
 }
 
-export interface StrategyRule {
+export type StrategyRule = LegacyStrategyRule | ExpressionRule;
+
+/**
+ * Fixed-meaning rule (e.g. indicator 'rsi' + condition 'oversold'), weight 1
+ */
+export interface LegacyStrategyRule {
   type: 'indicator' | 'price' | 'volume' | 'time';
   indicator?: string;
   params?: Record<string, any>;
@@ -52,6 +58,63 @@ export interface StrategyRule {
   value: number | string;
 }
 
+/**
+ * Rule whose condition is an expression tree; adds `weight` to `signal` when `when` holds
+ */
+export interface ExpressionRule {
+  type: 'expression';
+  signal: 'buy' | 'sell';
+  when: RuleNode;
+  weight?: number; // default 1
+  label?: string; // reason text, default: the expression itself
+}
+
+// ============================================================================
+// Rule expressions (see RuleExpression.ts)
+// ============================================================================
+
+export type RuleNode = RuleCondition | RuleAll | RuleAny | RuleNot;
+
+export interface RuleAll {
+  all: RuleNode[];
+}
+
+export interface RuleAny {
+  any: RuleNode[];
+}
+
+export interface RuleNot {
+  not: RuleNode;
+}
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | 'crosses_above' | 'crosses_below';
+
+export interface RuleCondition {
+  left: RuleOperand;
+  op: ComparisonOperator;
+  right: RuleOperand;
+}
+
+export type RuleOperand = number | IndicatorOperand | PriceOperand;
+
+export type IndicatorName = 'ema' | 'sma' | 'rsi' | 'atr' | 'bb_upper' | 'bb_middle' | 'bb_lower' | 'volume_sma';
+
+interface SeriesOperandBase {
+  timeframe?: Timeframe; // default: the strategy timeframe
+  offset?: number; // candles back, default 0 (latest)
+  multiplier?: number; // scale the value, e.g. 1.5 x volume_sma
+}
+
+export interface IndicatorOperand extends SeriesOperandBase {
+  indicator: IndicatorName;
+  period?: number; // default per indicator (ema 9, sma 20, rsi 14, atr 14, bb 20, volume_sma 20)
+  stdDev?: number; // bb_* only, default 2
+}
+
+export interface PriceOperand extends SeriesOperandBase {
+  price: 'open' | 'high' | 'low' | 'close' | 'volume';
+}
+
 export interface BracketState {
   position: Position | null;
   lastExecutionTime: number;
@@ -5,6 +5,8 @@
  */
 
 import { BackendDeribitClient, type DeribitEnvironment } from './deribit-client';
+import { DeribitBroker } from './brokers/DeribitBroker';
+import type { IBroker } from './brokers/IBroker';
 import { stateManager, type StrategyState } from './state-manager';
 import { credentialsManager } from './credentials-manager';
 import { RazorExecutor, type RazorConfig } from './strategies/razor-executor';
@@ -27,6 +29,7 @@ export interface StopStrategyRequest {
 
 export class StrategyService {
   private client: BackendDeribitClient | null = null;
+  private broker: IBroker | null = null; // positions and closes on this.client
   private runningStrategies = new Map<string, NodeJS.Timeout>();
   private strategyExecutors = new Map<string, RazorExecutor | ThorExecutor>();
   private environment: DeribitEnvironment = 'live';
@@ -166,6 +169,7 @@ export class StrategyService {
 
     this.environment = environment;
     this.client = new BackendDeribitClient(environment);
+    this.broker = new DeribitBroker(this.client);
     
     console.log(`[StrategyService] Connecting to Deribit ${environment}...`);
     await this.client.connect({
@@ -212,6 +216,7 @@ export class StrategyService {
     if (this.client) {
       this.client.disconnect();
       this.client = null;
+      this.broker = null;
     }
 
     // Update state - mark as manually disconnected to prevent auto-reconnect
@@ -264,6 +269,7 @@ export class StrategyService {
         console.warn('[StrategyService] Deribit connection failed, starting strategy in mock mode:', (error as Error).message);
         // Create a mock client for development
         this.client = this.createMockClient(request.environment);
+        this.broker = new DeribitBroker(this.client);
         console.log('[StrategyService] Created mock client for development mode');
         
         // Initialize OrderLifecycleManager for mock client
@@ -413,6 +419,7 @@ export class StrategyService {
         maxVolatility: strategy.config.maxVolatility || 5.0, // SCALPING: 5% (was 2.0%)
         rsiOversold: strategy.config.rsiOversold || 40, // SCALPING: 40 (was 30)
         rsiOverbought: strategy.config.rsiOverbought || 60, // SCALPING: 60 (was 70)
+        cancelOnDisconnect: strategy.config.cancelOnDisconnect,
       };
 
       const executor = new RazorExecutor(this.client, strategy.id, strategy.name, config);
@@ -521,6 +528,7 @@ export class StrategyService {
         maxAtrBps: 80,
         maxDailyTrades: 40,
         cooldownCandles: 5,
+        cancelOnDisconnect: strategy.config.cancelOnDisconnect,
       };
 
       const executor = new ThorExecutor(this.client, strategy.id, strategy.name, thorConfig);
@@ -624,8 +632,7 @@ export class StrategyService {
     const instrumentDetails = await this.client.getInstrument(instrument);
     
     console.log('[StrategyService] Fast Test - checking for existing positions');
-    const positions = await this.client.getPositions('USDC');
-    const openPosition = positions.find((p: any) => p.size !== 0);
+    const [openPosition] = await this.broker!.getPositions(instrument);
     
     if (openPosition) {
       throw new Error('Cannot start strategy: existing position found');
@@ -992,11 +999,11 @@ export class StrategyService {
       console.log(`[StrategyService] Manually closing position for ${instrument}`);
       
       // Cancel all open orders first
-      await this.client.cancelAllByInstrument(instrument);
+      await this.broker!.cancelAllOrders(instrument);
       console.log(`[StrategyService] Cancelled all open orders for ${instrument}`);
       
       // Close position at market
-      await this.client.closePosition(instrument, 'market');
+      await this.broker!.closePosition(instrument, { type: 'market' });
       console.log(`[StrategyService] Position closed for ${instrument}`);
       
       // CRITICAL: Trigger trade cleanup immediately
@@ -1331,9 +1338,8 @@ export class StrategyService {
         }
 
         // 1. Check current position
-        const positions = await this.client.getPositions('USDC');
-        const currentPosition = positions.find((p: any) => p.instrument_name === instrumentName);
-        const positionSize = currentPosition ? Math.abs(currentPosition.size) : 0;
+        const [currentPosition] = await this.broker!.getPositions(instrumentName);
+        const positionSize = currentPosition?.size ?? 0;
         
         // 2. Check if orders still exist
         const openOrders = await this.client.getOpenOrders(instrumentName);
@@ -1392,7 +1398,7 @@ export class StrategyService {
         // 5. Timeout protection
         if (checkCount >= maxChecks) {
           console.log('[StrategyService] ⏱️ Max monitoring time reached, force cleanup...');
-          await this.client.cancelAllByInstrument(instrumentName).catch(e => 
+          await this.broker!.cancelAllOrders(instrumentName).catch(e => 
             console.log('[StrategyService] ⚠️ Force cleanup failed:', e.message)
           );
           clearInterval(monitoringInterval);
@@ -1434,16 +1440,13 @@ export class StrategyService {
       }
 
       // Get ALL Deribit positions
-      const positions = await this.client!.getPositions('USDC');
-      console.log(`[StrategyService] 📊 Deribit: ${positions.filter((p: any) => p.size !== 0).length} position(s)`);
+      const positions = await this.broker!.getPositions();
+      console.log(`[StrategyService] 📊 Deribit: ${positions.length} position(s)`);
 
       // Check each open trade
       let ghostCount = 0;
       for (const trade of openTrades) {
-        const hasPosition = positions.some((p: any) => 
-          p.size !== 0 && 
-          (p.instrument_name === trade.instrument || p.instrument === trade.instrument)
-        );
+        const hasPosition = positions.some(p => p.instrument === trade.instrument);
 
         if (!hasPosition) {
           // GHOST TRADE: DB says open but no Deribit position
@@ -1521,7 +1524,7 @@ export class StrategyService {
       getPositions: async () => [],
       getAccountSummary: async () => ({ available_funds: 1000, equity: 1000 }),
       getOpenOrders: async () => [],
-      cancelAllByInstrument: async () => { /* mock */ },
+      cancelAllByInstrument: async () => 0,
       closePosition: async () => { /* mock */ },
     } as any;
 
@@ -26,6 +26,9 @@ export interface IndicatorState {
   emaSlow5m?: number | null;
   trendScore?: number | null; // -3..+3
   pullbackReady?: boolean | null;
+  // Multi-leg (pairs/basis) indicators
+  zScore?: number | null;
+  hedgeRatio?: number | null;
 }
 
 export interface SignalState {
@@ -66,8 +66,9 @@ export interface DeribitCredentials {
 
 /**
  * Deribit environment configuration
+ * - paper: live public market data, orders simulated locally (PaperBroker)
  */
-export type DeribitEnvironment = 'live' | 'testnet';
+export type DeribitEnvironment = 'live' | 'testnet' | 'paper';
 
 /**
  * Generic broker credentials
@@ -1,56 +1,103 @@
 import { kvStorage } from './kv-storage';
-import { userCredentialsService } from './services/user-credentials-service';
-import { BackendDeribitClient } from './deribit-client';
+import { userCredentialsService, DEFAULT_ACCOUNT } from './services/user-credentials-service';
+import { BackendDeribitClient, type DeribitEnvironment } from './deribit-client';
+import { createBroker } from './brokers/BrokerRegistry';
+import { PaperBroker, DeribitPaperMarketData } from './brokers/PaperBroker';
+import { PaperDeribitClient } from './brokers/PaperDeribitClient';
+import type { IBroker } from './brokers/IBroker';
 
 /**
  * UserBrokerRegistry
  * - Manages per-user broker clients
  * - Uses userCredentialsService to load decrypted credentials on connect
  * - Persists manual disconnect flags in kvStorage (keyed by userId)
+ * - Deribit uses BackendDeribitClient; other brokers use their IBroker adapter
+ * - The paper environment uses a PaperBroker on live Deribit market data (no credentials);
+ *   strategies trade it through a PaperDeribitClient (see getTradingClient)
+ * - Clients are keyed by account: each named account (subaccount) has its own
+ *   credentials, connection and margin; omitted accounts mean DEFAULT_ACCOUNT
  */
 class UserBrokerRegistry {
   private clients: Map<string, BackendDeribitClient> = new Map();
+  private brokers: Map<string, IBroker> = new Map();
+  private paperClients: Map<string, PaperDeribitClient> = new Map();
   private connectedAt: Map<string, number> = new Map();
 
-  private kvManualDisconnectKey(userId: string, broker: string, environment: string) {
-    return `user:${userId}:broker:${broker}:env:${environment}:manualDisconnect`;
+  private clientKey(userId: string, broker: string, environment: string, account: string) {
+    return `${userId}:${broker}:${environment}:${account}`;
   }
 
-  private kvConnectedAtKey(userId: string, broker: string, environment: string) {
-    return `user:${userId}:broker:${broker}:env:${environment}:connectedAt`;
+  // Main-account keys keep their pre-subaccount format
+  private kvPrefix(userId: string, broker: string, environment: string, account: string) {
+    const prefix = `user:${userId}:broker:${broker}:env:${environment}`;
+    return account === DEFAULT_ACCOUNT ? prefix : `${prefix}:account:${account}`;
+  }
+
+  private kvManualDisconnectKey(userId: string, broker: string, environment: string, account: string = DEFAULT_ACCOUNT) {
+    return `${this.kvPrefix(userId, broker, environment, account)}:manualDisconnect`;
+  }
+
+  private kvConnectedAtKey(userId: string, broker: string, environment: string, account: string = DEFAULT_ACCOUNT) {
+    return `${this.kvPrefix(userId, broker, environment, account)}:connectedAt`;
   }
 
   /**
    * Connect a user's broker client using stored credentials
    */
-  async connect(userId: string, broker: string = 'deribit', environment: 'testnet' | 'live' = 'testnet') {
+  async connect(
+    userId: string,
+    broker: string = 'deribit',
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
+  ) {
     // Check manual disconnect flag - if user manually disconnected earlier, don't auto-connect
-    const manualKey = this.kvManualDisconnectKey(userId, broker, environment);
+    const manualKey = this.kvManualDisconnectKey(userId, broker, environment, account);
     const manuallyDisconnected = await kvStorage.get(manualKey);
     if (manuallyDisconnected === 'true') {
       throw new Error('User manually disconnected - clear manual disconnect flag to reconnect');
     }
 
+    if (environment === 'paper') {
+      return this.connectPaper(userId, broker, account);
+    }
+
     // Load credentials
-    const creds = await userCredentialsService.loadCredentials(userId, broker, environment);
+    const creds = await userCredentialsService.loadCredentials(userId, broker, environment, account);
     if (!creds) {
-      throw new Error('No credentials found for user');
+      throw new Error(account === DEFAULT_ACCOUNT
+        ? 'No credentials found for user'
+        : `No credentials found for account ${account}`);
     }
 
     // Create client and connect
-    const clientKey = `${userId}:${broker}:${environment}`;
-    let client = this.clients.get(clientKey);
-    if (!client) {
-      client = new BackendDeribitClient(environment);
-      this.clients.set(clientKey, client);
-    }
+    const clientKey = this.clientKey(userId, broker, environment, account);
+    if (broker === 'deribit') {
+      let client = this.clients.get(clientKey);
+      if (!client) {
+        client = new BackendDeribitClient(environment);
+        this.clients.set(clientKey, client);
+      }
+
+      await client.connect({ apiKey: creds.apiKey, apiSecret: creds.apiSecret });
+    } else {
+      let adapter = this.brokers.get(clientKey);
+      if (!adapter) {
+        adapter = createBroker(broker);
+        this.brokers.set(clientKey, adapter);
+      }
 
-    await client.connect({ apiKey: creds.apiKey, apiSecret: creds.apiSecret });
+      await adapter.connect({
+        apiKey: creds.apiKey,
+        apiSecret: creds.apiSecret,
+        passphrase: creds.passphrase,
+        testnet: environment === 'testnet',
+      });
+    }
 
     // Store connectedAt timestamp
     const now = Date.now();
     this.connectedAt.set(clientKey, now);
-    await kvStorage.set(this.kvConnectedAtKey(userId, broker, environment), now.toString());
+    await kvStorage.set(this.kvConnectedAtKey(userId, broker, environment, account), now.toString());
 
     // Clear manual disconnect flag after successful connect
     await kvStorage.delete(manualKey);
@@ -58,20 +105,58 @@ class UserBrokerRegistry {
     return true;
   }
 
+  /**
+   * Connect a paper-trading account (virtual balance, simulated fills)
+   * Each named paper account has its own virtual balance.
+   */
+  private async connectPaper(userId: string, broker: string, account: string) {
+    if (broker !== 'deribit') {
+      throw new Error(`Paper trading is only available with Deribit market data (got ${broker})`);
+    }
+
+    const clientKey = this.clientKey(userId, broker, 'paper', account);
+    let adapter = this.brokers.get(clientKey) as PaperBroker | undefined;
+    if (!adapter) {
+      adapter = new PaperBroker(new DeribitPaperMarketData());
+      this.brokers.set(clientKey, adapter);
+    }
+    let client = this.paperClients.get(clientKey);
+    if (!client) {
+      client = new PaperDeribitClient(adapter);
+      this.paperClients.set(clientKey, client);
+    }
+
+    await adapter.connect({ apiKey: '', apiSecret: '' });
+    await client.connect();
+
+    const now = Date.now();
+    this.connectedAt.set(clientKey, now);
+    await kvStorage.set(this.kvConnectedAtKey(userId, broker, 'paper', account), now.toString());
+    await kvStorage.delete(this.kvManualDisconnectKey(userId, broker, 'paper', account));
+
+    return true;
+  }
+
   /**
    * Disconnect a user's broker client and set manual disconnect flag
    */
-  async disconnect(userId: string, broker: string = 'deribit', environment: 'testnet' | 'live' = 'testnet') {
-    const clientKey = `${userId}:${broker}:${environment}`;
+  async disconnect(
+    userId: string,
+    broker: string = 'deribit',
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
+  ) {
+    const clientKey = this.clientKey(userId, broker, environment, account);
     const client = this.clients.get(clientKey);
-    const manualKey = this.kvManualDisconnectKey(userId, broker, environment);
+    const adapter = this.brokers.get(clientKey);
+    const manualKey = this.kvManualDisconnectKey(userId, broker, environment, account);
 
     // Set manual disconnect so auto-reconnect won't trigger
     await kvStorage.set(manualKey, 'true');
 
     // Clear connectedAt timestamp
     this.connectedAt.delete(clientKey);
-    await kvStorage.delete(this.kvConnectedAtKey(userId, broker, environment));
+    await kvStorage.delete(this.kvConnectedAtKey(userId, broker, environment, account));
 
     if (client) {
       client.disconnect();
@@ -79,21 +164,74 @@ class UserBrokerRegistry {
       return true;
     }
 
+    if (adapter) {
+      this.paperClients.get(clientKey)?.disconnect();
+      this.paperClients.delete(clientKey);
+      await adapter.disconnect();
+      this.brokers.delete(clientKey);
+      return true;
+    }
+
     // If there was no client, still record manual disconnect
     return false;
   }
 
-  getClient(userId: string, broker: string = 'deribit', environment: 'testnet' | 'live' = 'testnet') {
-    return this.clients.get(`${userId}:${broker}:${environment}`) || null;
+  getClient(
+    userId: string,
+    broker: string = 'deribit',
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
+  ) {
+    return this.clients.get(this.clientKey(userId, broker, environment, account)) || null;
+  }
+
+  /**
+   * Get a user's IBroker adapter (non-Deribit brokers)
+   */
+  getBroker(
+    userId: string,
+    broker: string,
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
+  ) {
+    return this.brokers.get(this.clientKey(userId, broker, environment, account)) || null;
+  }
+
+  /**
+   * Client strategy executors trade through: the Deribit client, or for paper
+   * the account's PaperBroker (see getBroker) behind its PaperDeribitClient
+   */
+  getTradingClient(
+    userId: string,
+    broker: string = 'deribit',
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
+  ): BackendDeribitClient | null {
+    if (environment !== 'paper') {
+      return this.getClient(userId, broker, environment, account);
+    }
+    const paper = this.getBroker(userId, broker, environment, account);
+    const client = this.paperClients.get(this.clientKey(userId, broker, environment, account));
+    return paper && client?.broker === paper ? client : null;
+  }
+
+  /**
+   * Accounts with a client or adapter in this broker/environment (connected or reconnecting)
+   */
+  getAccounts(userId: string, broker: string = 'deribit', environment: DeribitEnvironment = 'testnet'): string[] {
+    const prefix = `${userId}:${broker}:${environment}:`;
+    return [...this.clients.keys(), ...this.brokers.keys()]
+      .filter(key => key.startsWith(prefix))
+      .map(key => key.slice(prefix.length));
   }
 
   /**
    * Get any client for user across environments (prefer live)
    */
-  getAnyClient(userId: string, broker: string = 'deribit') {
+  getAnyClient(userId: string, broker: string = 'deribit', account: string = DEFAULT_ACCOUNT) {
     const order: ('live' | 'testnet')[] = ['live', 'testnet'];
     for (const env of order) {
-      const c = this.getClient(userId, broker, env);
+      const c = this.getClient(userId, broker, env, account);
       if (c) return { client: c, environment: env as 'live' | 'testnet' };
     }
     return { client: null, environment: null } as { client: BackendDeribitClient | null; environment: 'live' | 'testnet' | null };
@@ -102,19 +240,21 @@ class UserBrokerRegistry {
   /**
    * Get connection status for user across environments (prefer live)
    */
-  async getAnyConnectionStatus(userId: string, broker: string = 'deribit') {
-    const order: ('live' | 'testnet')[] = ['live', 'testnet'];
+  async getAnyConnectionStatus(userId: string, broker: string = 'deribit', account: string = DEFAULT_ACCOUNT) {
+    const order: DeribitEnvironment[] = ['live', 'testnet', 'paper'];
     for (const env of order) {
-      const client = this.getClient(userId, broker, env);
-      if (client) {
-        const clientKey = `${userId}:${broker}:${env}`;
+      const client = this.getClient(userId, broker, env, account);
+      const adapter = this.getBroker(userId, broker, env, account);
+      if (client || adapter) {
+        const clientKey = this.clientKey(userId, broker, env, account);
         const connectedAt = this.connectedAt.get(clientKey) || 
-          parseInt(await kvStorage.get(this.kvConnectedAtKey(userId, broker, env)) || '0');
+          parseInt(await kvStorage.get(this.kvConnectedAtKey(userId, broker, env, account)) || '0');
         
         return {
-          connected: client.isConnected(),
+          connected: client ? client.isConnected() : adapter!.getConnectionStatus() === 'connected',
           broker,
           environment: env,
+          account,
           manuallyDisconnected: false,
           connectedAt: connectedAt || null,
         };
@@ -122,8 +262,8 @@ class UserBrokerRegistry {
     }
     
     // Check if manually disconnected even if no client
-    const manualKeyLive = this.kvManualDisconnectKey(userId, broker, 'live');
-    const manualKeyTestnet = this.kvManualDisconnectKey(userId, broker, 'testnet');
+    const manualKeyLive = this.kvManualDisconnectKey(userId, broker, 'live', account);
+    const manualKeyTestnet = this.kvManualDisconnectKey(userId, broker, 'testnet', account);
     const manuallyDisconnected = (await kvStorage.get(manualKeyLive)) === 'true' || 
       (await kvStorage.get(manualKeyTestnet)) === 'true';
     
@@ -131,20 +271,30 @@ class UserBrokerRegistry {
       connected: false,
       broker,
       environment: null,
+      account,
       manuallyDisconnected,
       connectedAt: null,
     } as any;
   }
 
-  getConnectionStatus(userId: string, broker: string = 'deribit', environment: 'testnet' | 'live' = 'testnet') {
-    const client = this.getClient(userId, broker, environment);
-    const clientKey = `${userId}:${broker}:${environment}`;
+  getConnectionStatus(
+    userId: string,
+    broker: string = 'deribit',
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
+  ) {
+    const client = this.getClient(userId, broker, environment, account);
+    const adapter = this.getBroker(userId, broker, environment, account);
+    const clientKey = this.clientKey(userId, broker, environment, account);
     const connectedAt = this.connectedAt.get(clientKey);
     
     return {
-      connected: client ? client.isConnected() : false,
+      connected: client
+        ? client.isConnected()
+        : adapter ? adapter.getConnectionStatus() === 'connected' : false,
       broker,
       environment,
+      account,
       manuallyDisconnected: false, // caller can check kvStorage if needed
       connectedAt: connectedAt || null,
     };
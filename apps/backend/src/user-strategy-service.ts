@@ -7,32 +7,49 @@
  * Architecture:
  * - Uses UserBrokerRegistry for per-user broker clients
  * - Uses UserStrategyRepository for persistent strategy state
- * - Delegates execution to existing strategy executors (RazorExecutor, ThorExecutor)
+ * - Delegates execution to existing strategy executors (RazorExecutor, ThorExecutor, MultiLegExecutor)
  * - Maintains backward compatibility with existing StrategyService
  */
 
 import { userBrokerRegistry } from './user-broker-registry';
-import { userStrategyRepository, type UserStrategy, type CreateUserStrategyParams } from './services/user-strategy-repository';
+import { userStrategyRepository, type UserStrategy, type CreateUserStrategyParams, type StrategyConfigVersion } from './services/user-strategy-repository';
+import { diffConfigs, type ConfigChange } from './services/config-diff';
 import { RazorExecutor, type RazorConfig } from './strategies/razor-executor';
 import { ThorExecutor, type ThorConfig } from './strategies/thor-executor';
-import type { DeribitEnvironment } from './deribit-client';
+import { MultiLegExecutor, type MultiLegConfig } from './strategies/multi-leg-executor';
+import { PairsSpreadStrategy } from './strategies/PairsSpreadStrategy';
+import { createRegimeEnsemble } from './strategies/EnsembleStrategy';
+import { ScalpingStrategy, scalpingRequiredCandles } from './strategies/ScalpingStrategy';
+import { FastTestStrategy } from './strategies/FastTestStrategy';
+import { legKey, parseLegKey } from './strategies/multi-leg';
+import { strategyRegistry } from './strategies/StrategyRegistry';
+import { parameterDefaults } from './strategies/ParameterSchema';
+import type { BackendDeribitClient, DeribitEnvironment } from './deribit-client';
+import { instrumentRegistry, UnknownInstrumentError } from './instruments/instrument-registry';
+import { CANCEL_ON_DISCONNECT_POLICIES } from './deribit-cancel-on-disconnect';
+import { parseTradingSchedule, InvalidScheduleError } from './strategies/trading-schedule';
+import { DEFAULT_ACCOUNT, isValidAccountName } from './services/user-credentials-service';
 import type { AnalysisState, PositionMetrics } from './types/analysis';
+import type { ConfigVersionRef } from './services/ITradeHistoryStore';
 
 export interface UserStartStrategyRequest {
   userId: string;
   strategyName: string;
   instrument: string;
+  instruments?: string[]; // multi-leg strategies (e.g. Pairs); replaces instrument
   config: Record<string, any>;
   broker?: string; // default: 'deribit'
   environment: DeribitEnvironment;
+  account?: string; // default: DEFAULT_ACCOUNT
 }
 
 export interface UserStopStrategyRequest {
   userId: string;
   strategyName: string;
-  instrument: string;
+  instrument: string; // multi-leg strategies: legKey() of the legs
   broker?: string; // default: 'deribit'
   environment: DeribitEnvironment;
+  account?: string; // default: DEFAULT_ACCOUNT
 }
 
 export interface UserGetStrategyStatusRequest {
@@ -41,6 +58,16 @@ export interface UserGetStrategyStatusRequest {
   instrument?: string;
   broker?: string;
   environment?: DeribitEnvironment;
+  account?: string;
+}
+
+type StrategyExecutor = RazorExecutor | ThorExecutor | MultiLegExecutor;
+
+/**
+ * The stored strategy's active config version, as stamped on its trades
+ */
+function configVersionOf(strategy: UserStrategy): ConfigVersionRef | undefined {
+  return strategy.configVersion ? { strategyId: strategy.id, version: strategy.configVersion } : undefined;
 }
 
 /**
@@ -50,16 +77,17 @@ export interface UserGetStrategyStatusRequest {
 interface UserStrategyInstance {
   userId: string;
   strategyName: string;
-  instrument: string;
+  instrument: string; // multi-leg strategies: legKey() of the legs
   broker: string;
   environment: DeribitEnvironment;
-  executor: RazorExecutor | ThorExecutor;
+  account: string;
+  executor: StrategyExecutor;
   intervalId?: NodeJS.Timeout;
   startedAt: Date;
 }
 
 export class UserStrategyService {
-  // Map: userId:strategyName:instrument:broker:environment -> UserStrategyInstance
+  // Map: userId:strategyName:instrument:broker:environment[:account] -> UserStrategyInstance
   private runningStrategies = new Map<string, UserStrategyInstance>();
 
   constructor() {}
@@ -106,11 +134,12 @@ export class UserStrategyService {
       // Process each strategy
       for (const strategy of allStrategies) {
         const { userId, strategyName, instrument, broker, environment, config } = strategy;
-        const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment);
+        const account = strategy.account ?? DEFAULT_ACCOUNT;
+        const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment, account);
         
         try {
           // Check if user has active broker connection
-          const client = userBrokerRegistry.getClient(userId, broker, environment);
+          const client = userBrokerRegistry.getTradingClient(userId, broker, environment, account);
           
           if (!client || !client.isConnected()) {
             console.log(`[UserStrategyService] ⚠️  Skipping ${strategyKey}: User not connected to broker`);
@@ -120,7 +149,7 @@ export class UserStrategyService {
             await userStrategyRepository.updateStatus(userId, strategyName, instrument, {
               status: 'paused',
               lastAction: 'auto_resume_skipped',
-            }, broker, environment);
+            }, broker, environment, account);
             
             continue;
           }
@@ -132,14 +161,10 @@ export class UserStrategyService {
             continue;
           }
           
-          // Create strategy executor
-          let executor: RazorExecutor | ThorExecutor;
+          // Create strategy executor (trades are stamped with the stored config version)
+          const executor = this.createExecutor(client, strategyKey, strategyName, config, userId, configVersionOf(strategy));
           
-          if (strategyName.toLowerCase() === 'razor') {
-            executor = new RazorExecutor(client, strategyKey, strategyName, config as RazorConfig, userId);
-          } else if (strategyName.toLowerCase() === 'thor') {
-            executor = new ThorExecutor(client, strategyKey, strategyName, config as ThorConfig, userId);
-          } else {
+          if (!executor) {
             console.log(`[UserStrategyService] ❌ Skipping ${strategyKey}: Unknown strategy type`);
             failedCount++;
             
@@ -148,7 +173,7 @@ export class UserStrategyService {
               lastAction: 'auto_resume_failed',
               errorMessage: 'Unknown strategy type',
               errorCount: 1,
-            }, broker, environment);
+            }, broker, environment, account);
             
             continue;
           }
@@ -160,6 +185,7 @@ export class UserStrategyService {
             instrument,
             broker,
             environment,
+            account,
             executor,
             startedAt: new Date(),
           };
@@ -177,7 +203,7 @@ export class UserStrategyService {
             lastHeartbeat: new Date(),
             errorMessage: undefined, // Clear previous errors
             errorCount: 0,
-          }, broker, environment);
+          }, broker, environment, account);
           
           console.log(`[UserStrategyService] ✅ Auto-resumed: ${strategyKey}`);
           resumedCount++;
@@ -192,7 +218,7 @@ export class UserStrategyService {
             lastAction: 'auto_resume_failed',
             errorMessage: error.message,
             errorCount: (strategy.errorCount || 0) + 1,
-          }, broker, environment);
+          }, broker, environment, account);
         }
       }
       
@@ -214,13 +240,36 @@ export class UserStrategyService {
     const {
       userId,
       strategyName,
-      instrument,
-      config,
       broker = 'deribit',
       environment,
+      account = DEFAULT_ACCOUNT,
     } = request;
 
-    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment);
+    if (!isValidAccountName(account)) {
+      return { success: false, message: `Invalid account name: ${account}` };
+    }
+
+    // Resolve canonical IDs / other brokers' symbols so the same config runs on any exchange
+    let legs: string[];
+    try {
+      legs = (request.instruments?.length ? request.instruments : parseLegKey(request.instrument))
+        .map(leg => instrumentRegistry.toNative(leg, broker));
+    } catch (error) {
+      if (error instanceof UnknownInstrumentError) {
+        return { success: false, message: error.message };
+      }
+      throw error;
+    }
+    // Parameters the request leaves out fall back to the strategy's schema defaults
+    const schema = strategyRegistry.find(strategyName)?.metadata.parameterSchema;
+    const config: Record<string, any> = { ...(schema ? parameterDefaults(schema) : {}), ...request.config, instrument: legs[0] };
+    if (legs.length > 1) {
+      config.instruments = legs;
+    }
+    // Multi-leg strategies are stored and keyed under all their legs
+    const instrument = legKey(legs);
+
+    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment, account);
 
     try {
       // Check if strategy is already running
@@ -231,17 +280,19 @@ export class UserStrategyService {
         };
       }
 
-      // Get user's broker client
-      const client = userBrokerRegistry.getClient(userId, broker, environment);
+      // Get user's broker client (each account has its own connection and margin)
+      const client = userBrokerRegistry.getTradingClient(userId, broker, environment, account);
       if (!client || !client.isConnected()) {
         return {
           success: false,
-          message: 'User is not connected to broker. Please connect first.',
+          message: account === DEFAULT_ACCOUNT
+            ? 'User is not connected to broker. Please connect first.'
+            : `Account ${account} is not connected to broker. Please connect it first.`,
         };
       }
 
       // Validate strategy name
-      const validStrategies = ['razor', 'thor'];
+      const validStrategies = ['razor', 'thor', 'pairs', 'ensemble', 'scalping', 'fasttest'];
       if (!validStrategies.includes(strategyName.toLowerCase())) {
         return {
           success: false,
@@ -249,38 +300,52 @@ export class UserStrategyService {
         };
       }
 
-      // Create strategy executor based on strategy name
-      let executor: RazorExecutor | ThorExecutor;
-      const executorStrategyId = strategyKey; // Use composite key as strategyId
-      
-      if (strategyName.toLowerCase() === 'razor') {
-        executor = new RazorExecutor(client, executorStrategyId, strategyName, config as RazorConfig, userId); // FASE 3: Pass userId
-      } else if (strategyName.toLowerCase() === 'thor') {
-        executor = new ThorExecutor(client, executorStrategyId, strategyName, config as ThorConfig, userId); // FASE 3: Pass userId
-      } else {
+      if (config.cancelOnDisconnect !== undefined && !CANCEL_ON_DISCONNECT_POLICIES.includes(config.cancelOnDisconnect)) {
         return {
           success: false,
-          message: 'Strategy not implemented yet',
+          message: `Invalid cancelOnDisconnect policy. Valid policies: ${CANCEL_ON_DISCONNECT_POLICIES.join(', ')}`,
         };
       }
 
-      // Save strategy to database
+      if (config.schedule !== undefined) {
+        try {
+          config.schedule = parseTradingSchedule(config.schedule);
+        } catch (error) {
+          if (error instanceof InvalidScheduleError) {
+            return { success: false, message: error.message };
+          }
+          throw error;
+        }
+      }
+
+      // Save strategy to database (a changed config becomes a new config version)
       const savedStrategy = await userStrategyRepository.save({
         userId,
         strategyName,
         instrument,
         broker,
         environment,
+        account,
         config,
         status: 'active',
         lastAction: 'manual_start',
         autoReconnect: true,
       });
 
+      // Create strategy executor based on strategy name
+      const executorStrategyId = strategyKey; // Use composite key as strategyId
+      const executor = this.createExecutor(client, executorStrategyId, strategyName, config, userId, configVersionOf(savedStrategy));
+      if (!executor) {
+        return {
+          success: false,
+          message: 'Strategy not implemented yet',
+        };
+      }
+
       // Update connected timestamp
       await userStrategyRepository.updateStatus(userId, strategyName, instrument, {
         connectedAt: new Date(),
-      }, broker, environment);
+      }, broker, environment, account);
 
       // Store running strategy instance
       const instance: UserStrategyInstance = {
@@ -289,6 +354,7 @@ export class UserStrategyService {
         instrument,
         broker,
         environment,
+        account,
         executor,
         startedAt: new Date(),
       };
@@ -313,7 +379,7 @@ export class UserStrategyService {
         status: 'error',
         errorMessage: error.message,
         errorCount: 1,
-      }, broker, environment);
+      }, broker, environment, account);
 
       return {
         success: false,
@@ -332,9 +398,10 @@ export class UserStrategyService {
       instrument,
       broker = 'deribit',
       environment,
+      account = DEFAULT_ACCOUNT,
     } = request;
 
-    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment);
+    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment, account);
 
     try {
       const instance = this.runningStrategies.get(strategyKey);
@@ -346,6 +413,12 @@ export class UserStrategyService {
           clearInterval(instance.intervalId);
         }
 
+        // Multi-leg positions have no per-leg stops: close all legs with the strategy
+        if (instance.executor instanceof MultiLegExecutor) {
+          await instance.executor.closePosition();
+          instance.executor.cleanup();
+        }
+
         // Remove from running strategies
         this.runningStrategies.delete(strategyKey);
         console.log(`[UserStrategyService] ✅ Strategy stopped (was running): ${strategyKey}`);
@@ -361,7 +434,8 @@ export class UserStrategyService {
         instrument,
         true, // manualDisconnect = true
         broker,
-        environment
+        environment,
+        account
       );
 
       console.log(`[UserStrategyService] ✅ Strategy marked as stopped in database: ${strategyKey}`);
@@ -384,7 +458,7 @@ export class UserStrategyService {
    * Get strategy status for a user
    */
   async getStrategyStatus(request: UserGetStrategyStatusRequest): Promise<UserStrategy[]> {
-    const { userId, strategyName, instrument, broker, environment } = request;
+    const { userId, strategyName, instrument, broker, environment, account } = request;
 
     // If specific strategy requested
     if (strategyName && instrument && broker && environment) {
@@ -393,13 +467,15 @@ export class UserStrategyService {
         strategyName,
         instrument,
         broker,
-        environment
+        environment,
+        account
       );
       return strategy ? [strategy] : [];
     }
 
     // Otherwise, get all strategies for user
-    return await userStrategyRepository.findByUser(userId, broker, environment);
+    const strategies = await userStrategyRepository.findByUser(userId, broker, environment);
+    return account ? strategies.filter(s => s.account === account) : strategies;
   }
 
   /**
@@ -410,9 +486,10 @@ export class UserStrategyService {
     strategyName: string,
     instrument: string,
     broker: string = 'deribit',
-    environment: DeribitEnvironment = 'testnet'
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
   ): Promise<AnalysisState | null> {
-    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment);
+    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment, account);
     const instance = this.runningStrategies.get(strategyKey);
 
     if (!instance) {
@@ -471,9 +548,10 @@ export class UserStrategyService {
     strategyName: string,
     instrument: string,
     broker: string = 'deribit',
-    environment: DeribitEnvironment = 'testnet'
+    environment: DeribitEnvironment = 'testnet',
+    account: string = DEFAULT_ACCOUNT
   ): Promise<PositionMetrics | null> {
-    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment);
+    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment, account);
     const instance = this.runningStrategies.get(strategyKey);
 
     if (!instance) {
@@ -485,6 +563,118 @@ export class UserStrategyService {
     return null; // Placeholder
   }
 
+  /**
+   * Config version history of a strategy, newest first (null when the strategy is not found)
+   */
+  async listConfigVersions(
+    userId: string,
+    strategyId: string
+  ): Promise<{ activeVersion: number | null; versions: StrategyConfigVersion[] } | null> {
+    const strategy = await userStrategyRepository.findById(userId, strategyId);
+    if (!strategy) {
+      return null;
+    }
+
+    const versions = await userStrategyRepository.listConfigVersions(strategy.id);
+    return { activeVersion: strategy.configVersion ?? null, versions };
+  }
+
+  /**
+   * Parameter changes between two config versions of a strategy
+   */
+  async diffConfigVersions(
+    userId: string,
+    strategyId: string,
+    from: number,
+    to: number
+  ): Promise<{ success: boolean; message?: string; changes?: ConfigChange[] }> {
+    const strategy = await userStrategyRepository.findById(userId, strategyId);
+    if (!strategy) {
+      return { success: false, message: 'Strategy not found' };
+    }
+
+    const [a, b] = await Promise.all([
+      userStrategyRepository.getConfigVersion(strategy.id, from),
+      userStrategyRepository.getConfigVersion(strategy.id, to),
+    ]);
+    if (!a || !b) {
+      return { success: false, message: `Config version ${!a ? from : to} not found` };
+    }
+
+    return { success: true, changes: diffConfigs(a.config, b.config) };
+  }
+
+  /**
+   * Make an earlier config version active again
+   * A running strategy is restarted on that config; open positions stay open and are
+   * picked up from trade history by the new executor.
+   */
+  async rollbackConfig(
+    userId: string,
+    strategyId: string,
+    version: number
+  ): Promise<{ success: boolean; message: string; configVersion?: number }> {
+    const strategy = await userStrategyRepository.findById(userId, strategyId);
+    if (!strategy) {
+      return { success: false, message: 'Strategy not found' };
+    }
+    if (strategy.configVersion === version) {
+      return { success: false, message: `Config version ${version} is already active` };
+    }
+    const target = await userStrategyRepository.getConfigVersion(strategy.id, version);
+    if (!target) {
+      return { success: false, message: `Config version ${version} not found` };
+    }
+
+    const { strategyName, instrument, broker, environment } = strategy;
+    const account = strategy.account ?? DEFAULT_ACCOUNT;
+    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment, account);
+    const instance = this.runningStrategies.get(strategyKey);
+
+    try {
+      // Build the new executor first: a config that no longer validates leaves the running one untouched
+      let executor: StrategyExecutor | null = null;
+      if (instance) {
+        const client = userBrokerRegistry.getTradingClient(userId, broker, environment, account);
+        if (!client || !client.isConnected()) {
+          return { success: false, message: 'User is not connected to broker. Please connect first.' };
+        }
+        executor = this.createExecutor(client, strategyKey, strategyName, target.config, userId, { strategyId: strategy.id, version });
+        if (!executor) {
+          return { success: false, message: 'Strategy not implemented yet' };
+        }
+      }
+
+      await userStrategyRepository.activateConfigVersion(strategy.id, version);
+
+      if (instance && executor) {
+        if (instance.intervalId) {
+          clearInterval(instance.intervalId);
+        }
+        instance.executor.cleanup();
+        instance.executor = executor; // ticks for the old executor are dropped from here on
+        instance.intervalId = undefined;
+        instance.startedAt = new Date();
+        await this.runStrategyLoop(instance);
+      }
+
+      console.log(`[UserStrategyService] ✅ Config rolled back to v${version}: ${strategyKey}`);
+      return {
+        success: true,
+        message: instance
+          ? `Strategy ${strategyName} restarted on config version ${version}`
+          : `Config version ${version} is now active for ${strategyName}`,
+        configVersion: version,
+      };
+    } catch (error: any) {
+      console.error(`[UserStrategyService] ❌ Failed to roll back config: ${strategyKey}`, error);
+      return {
+        success: false,
+        message: error.message || 'Failed to roll back config',
+      };
+    }
+  }
+
   /**
    * Shutdown service - stop all running strategies
    */
@@ -508,7 +698,8 @@ export class UserStrategyService {
         instance.instrument,
         false, // manualDisconnect = false (allow auto-resume)
         instance.broker,
-        instance.environment
+        instance.environment,
+        instance.account
       );
     }
 
@@ -522,23 +713,75 @@ export class UserStrategyService {
 
   /**
    * Generate unique strategy key
+   * Main-account keys keep their original format (executor strategyIds / trade history)
    */
   private getStrategyKey(
     userId: string,
     strategyName: string,
     instrument: string,
     broker: string,
-    environment: DeribitEnvironment
+    environment: DeribitEnvironment,
+    account: string = DEFAULT_ACCOUNT
   ): string {
-    return `${userId}:${strategyName}:${instrument}:${broker}:${environment}`;
+    const key = `${userId}:${strategyName}:${instrument}:${broker}:${environment}`;
+    return account === DEFAULT_ACCOUNT ? key : `${key}:${account}`;
+  }
+
+  /**
+   * Executor for a strategy name (null when unknown)
+   * The ensemble (Razor + Thor), the scalper and the fast test run on Thor's execution path
+   * with their own strategy instances.
+   */
+  private createExecutor(
+    client: BackendDeribitClient,
+    strategyId: string,
+    strategyName: string,
+    config: Record<string, any>,
+    userId: string,
+    configVersion?: ConfigVersionRef
+  ): StrategyExecutor | null {
+    switch (strategyName.toLowerCase()) {
+      case 'razor':
+        return new RazorExecutor(client, strategyId, strategyName, config as RazorConfig, userId, configVersion);
+      case 'thor':
+        return new ThorExecutor(client, strategyId, strategyName, config as ThorConfig, userId, configVersion);
+      case 'ensemble': {
+        const strategy = createRegimeEnsemble();
+        return new ThorExecutor(client, strategyId, strategyName, config as ThorConfig, userId, configVersion, {
+          strategy,
+          requiredCandles: strategy.requiredCandles,
+          labelPrefix: 'ensemble',
+        });
+      }
+      case 'scalping':
+        return new ThorExecutor(client, strategyId, strategyName, config as ThorConfig, userId, configVersion, {
+          strategy: new ScalpingStrategy(),
+          requiredCandles: scalpingRequiredCandles(config),
+          labelPrefix: 'scalping',
+          candleMs: config.sampleSeconds * 1000,
+          maxHoldMs: config.maxHoldSeconds * 1000,
+        });
+      case 'fasttest':
+        // One candle per interval: ThorExecutor enters on candle close while flat
+        return new ThorExecutor(client, strategyId, strategyName, config as ThorConfig, userId, configVersion, {
+          strategy: new FastTestStrategy(),
+          requiredCandles: 0,
+          labelPrefix: 'fast_test',
+          candleMs: config.orderIntervalSeconds * 1000,
+        });
+      case 'pairs':
+        return new MultiLegExecutor(client, strategyId, strategyName, config as MultiLegConfig, new PairsSpreadStrategy(), userId, configVersion);
+      default:
+        return null;
+    }
   }
 
   /**
    * Run strategy execution loop
    */
   private async runStrategyLoop(instance: UserStrategyInstance): Promise<void> {
-    const { userId, strategyName, instrument, broker, environment, executor } = instance;
-    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment);
+    const { userId, strategyName, instrument, broker, environment, account, executor } = instance;
+    const strategyKey = this.getStrategyKey(userId, strategyName, instrument, broker, environment, account);
 
     console.log(`[UserStrategyService] Starting execution loop: ${strategyKey}`);
 
@@ -549,33 +792,53 @@ export class UserStrategyService {
       console.log(`[UserStrategyService] ✅ Executor initialized for ${strategyKey}`);
 
       // Get user's broker client for ticker subscription
-      const client = userBrokerRegistry.getClient(userId, broker, environment);
+      const client = userBrokerRegistry.getTradingClient(userId, broker, environment, account);
       if (!client || !client.isConnected()) {
         console.error(`[UserStrategyService] Client not connected for ${strategyKey}`);
         return;
       }
 
-      // Subscribe to ticker updates and pass to executor
-      console.log(`[UserStrategyService] Subscribing to ${instrument} ticker for ${strategyKey}...`);
-      await client.subscribeTicker(instrument, async (ticker) => {
-        try {
-          await executor.onTicker(ticker.last_price);
-
-          // Update analysis state in database if executor supports it
-          if (typeof executor.getAnalysisState === 'function') {
-            const analysisState = executor.getAnalysisState();
-            // TODO: Store analysis state in user strategy record
+      // Multi-leg: one ticker per leg, synchronized by the executor
+      if (executor instanceof MultiLegExecutor) {
+        for (const leg of executor.getInstruments()) {
+          console.log(`[UserStrategyService] Subscribing to ${leg} ticker for ${strategyKey}...`);
+          await client.subscribeTicker(leg, async (ticker) => {
+            if (instance.executor !== executor) {
+              return; // replaced by a config rollback
+            }
+            try {
+              await executor.onLegTicker(leg, ticker);
+            } catch (error) {
+              console.error(`[UserStrategyService] Error processing ${leg} ticker for ${strategyKey}:`, error);
+            }
+          });
+        }
+      } else {
+        // Subscribe to ticker updates and pass to executor
+        console.log(`[UserStrategyService] Subscribing to ${instrument} ticker for ${strategyKey}...`);
+        await client.subscribeTicker(instrument, async (ticker) => {
+          if (instance.executor !== executor) {
+            return; // replaced by a config rollback
           }
-
-          // If position is open, update metrics if executor supports it
-          if (executor instanceof RazorExecutor && typeof executor.getPositionMetrics === 'function') {
-            const metrics = await executor.getPositionMetrics();
-            // TODO: Store metrics in user strategy record
+          try {
+            await executor.onTicker(ticker.last_price);
+
+            // Update analysis state in database if executor supports it
+            if (typeof executor.getAnalysisState === 'function') {
+              const analysisState = executor.getAnalysisState();
+              // TODO: Store analysis state in user strategy record
+            }
+
+            // If position is open, update metrics if executor supports it
+            if (executor instanceof RazorExecutor && typeof executor.getPositionMetrics === 'function') {
+              const metrics = await executor.getPositionMetrics();
+              // TODO: Store metrics in user strategy record
+            }
+          } catch (error) {
+            console.error(`[UserStrategyService] Error processing ticker for ${strategyKey}:`, error);
           }
-        } catch (error) {
-          console.error(`[UserStrategyService] Error processing ticker for ${strategyKey}:`, error);
-        }
-      });
+        });
+      }
 
       console.log(`[UserStrategyService] ✅ Ticker subscription active for ${strategyKey}`);
 
@@ -586,7 +849,7 @@ export class UserStrategyService {
         status: 'error',
         errorMessage: error instanceof Error ? error.message : String(error),
         errorCount: 1,
-      }, broker, environment);
+      }, broker, environment, account);
       return;
     }
 
@@ -598,7 +861,8 @@ export class UserStrategyService {
           strategyName,
           instrument,
           broker,
-          environment
+          environment,
+          account
         );
       } catch (error) {
         console.error(`[UserStrategyService] Failed to update heartbeat: ${strategyKey}`, error);
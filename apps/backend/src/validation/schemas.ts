@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { instrumentRegistry } from '../instruments/instrument-registry';
 
 /**
  * Strategy name validation
@@ -19,18 +20,21 @@ export const strategyNameSchema = z.string()
 
 /**
  * Instrument validation
- * - Format: BASE-CURRENCY (e.g., BTC-USD, ETH-USDC)
- * - Uppercase letters only
+ * - Canonical ID (e.g., BTC/USDT:USDT) or any broker's native symbol
+ *   (e.g., BTC-PERPETUAL, BTCUSDT, BTC-USDT-SWAP), see instrument-registry
  */
 export const instrumentSchema = z.string()
   .min(1, 'Instrument is required')
-  .regex(/^[A-Z]+-[A-Z]+$/, 'Instrument must be in format BASE-CURRENCY (e.g., BTC-USD)');
+  .refine(
+    (instrument) => instrumentRegistry.isKnown(instrument),
+    'Instrument must be a canonical ID (e.g., BTC/USDT:USDT) or a broker symbol (e.g., BTC-PERPETUAL)'
+  );
 
 /**
  * Broker type validation
  */
-export const brokerTypeSchema = z.enum(['deribit', 'bybit', 'binance'], {
-  message: 'Broker must be one of: deribit, bybit, binance',
+export const brokerTypeSchema = z.enum(['deribit', 'bybit', 'binance', 'okx'], {
+  message: 'Broker must be one of: deribit, bybit, binance, okx',
 });
 
 /**
@@ -39,6 +43,7 @@ export const brokerTypeSchema = z.enum(['deribit', 'bybit', 'binance'], {
 export const credentialsSchema = z.object({
   apiKey: z.string().min(1, 'API key is required'),
   apiSecret: z.string().min(1, 'API secret is required'),
+  passphrase: z.string().min(1).optional(),
   testnet: z.boolean().optional().default(false),
 }).strict();
 
@@ -68,6 +73,7 @@ export const saveCredentialsRequestSchema = z.object({
   service: brokerTypeSchema,
   apiKey: z.string().min(1, 'API key is required'),
   apiSecret: z.string().min(1, 'API secret is required'),
+  passphrase: z.string().min(1).optional(),
   testnet: z.boolean().optional().default(false),
 }).strict();
 
@@ -0,0 +1,475 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { BinanceBroker, BinanceApiError } from '../src/brokers/BinanceBroker';
+import { BracketEmulator } from '../src/brokers/BracketEmulator';
+import { telegramService } from '../src/notifications/telegram';
+import type { Order, Trade, Candle } from '../src/brokers/IBroker';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret';
+const LISTEN_KEY = 'listen-key-1';
+
+/**
+ * Minimal mock of the Binance USD-M futures REST + WebSocket API
+ */
+class MockBinanceServer {
+  server!: http.Server;
+  wss!: WebSocketServer;
+  restUrl = '';
+  wsUrl = '';
+  orders: any[] = [];
+  cancelled: string[] = [];
+  amended: any[] = [];
+  marketSockets: WebSocket[] = [];
+  userSockets: WebSocket[] = [];
+  marketMessages: any[] = [];
+  listenKeyRequests = 0;
+  rejectOrders = 0; // next N order placements fail
+  positionAmt = '0';
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => this.handleRest(req, res));
+    this.wss = new WebSocketServer({ server: this.server });
+
+    this.wss.on('connection', (ws, req) => {
+      if (req.url === `/ws/${LISTEN_KEY}`) {
+        this.userSockets.push(ws);
+        return;
+      }
+      this.marketSockets.push(ws);
+      ws.on('message', (data) => {
+        const msg = JSON.parse(data.toString());
+        this.marketMessages.push(msg);
+        ws.send(JSON.stringify({ result: null, id: msg.id }));
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.restUrl = `http://127.0.0.1:${port}`;
+    this.wsUrl = `ws://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    for (const ws of [...this.marketSockets, ...this.userSockets]) ws.terminate();
+    this.wss.close();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  pushMarket(payload: unknown): void {
+    for (const ws of this.marketSockets) ws.send(JSON.stringify(payload));
+  }
+
+  pushUser(payload: unknown): void {
+    for (const ws of this.userSockets) ws.send(JSON.stringify(payload));
+  }
+
+  orderUpdate(order: any, status: string, filled: string): any {
+    return {
+      e: 'ORDER_TRADE_UPDATE',
+      E: Date.now(),
+      T: Date.now(),
+      o: {
+        s: order.symbol, c: order.newClientOrderId, S: order.side, o: order.type, ot: order.type,
+        q: order.quantity, p: order.price || '0', sp: order.stopPrice || '0',
+        X: status, i: order.orderId, z: filled,
+      },
+    };
+  }
+
+  private handleRest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url!, this.restUrl);
+    const reply = (status: number, body: unknown) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/fapi/v1/klines') {
+      return reply(200, [
+        [1700000000000, '100', '102', '99', '101', '10', 1700000059999],
+        [1700000060000, '101', '103', '100', '102', '11', 1700000119999],
+      ]);
+    }
+    if (url.pathname === '/fapi/v1/exchangeInfo') {
+      return reply(200, {
+        symbols: [{
+          symbol: 'BTCUSDT',
+          filters: [
+            { filterType: 'PRICE_FILTER', tickSize: '0.10' },
+            { filterType: 'LOT_SIZE', minQty: '0.001', stepSize: '0.001' },
+          ],
+        }],
+      });
+    }
+
+    if (req.headers['x-mbx-apikey'] !== API_KEY) {
+      return reply(401, { code: -2015, msg: 'Invalid API-key' });
+    }
+    if (url.pathname === '/fapi/v1/listenKey') {
+      if (req.method === 'POST') this.listenKeyRequests++;
+      return reply(200, { listenKey: LISTEN_KEY });
+    }
+
+    // Signed endpoints: signature is HMAC of the query string preceding &signature=
+    const [query, signature] = url.search.slice(1).split('&signature=');
+    const expected = crypto.createHmac('sha256', API_SECRET).update(query).digest('hex');
+    if (signature !== expected) {
+      return reply(400, { code: -1022, msg: 'Signature for this request is not valid.' });
+    }
+
+    const params = Object.fromEntries(url.searchParams.entries());
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /fapi/v2/balance':
+        return reply(200, [
+          { asset: 'USDT', balance: '1000', availableBalance: '900' },
+          { asset: 'BNB', balance: '0', availableBalance: '0' },
+        ]);
+      case 'POST /fapi/v1/order': {
+        if (this.rejectOrders > 0) {
+          this.rejectOrders--;
+          return reply(400, { code: -2021, msg: 'Order would immediately trigger.' });
+        }
+        const orderId = this.orders.length + 1;
+        const order = { ...params, orderId };
+        this.orders.push(order);
+        const filled = params.type === 'MARKET';
+        return reply(200, {
+          orderId, symbol: params.symbol, side: params.side, type: params.type, origType: params.type,
+          origQty: params.quantity, price: params.price || '0', stopPrice: params.stopPrice || '0',
+          executedQty: filled ? params.quantity : '0', status: filled ? 'FILLED' : 'NEW',
+          clientOrderId: params.newClientOrderId, updateTime: Date.now(),
+        });
+      }
+      case 'GET /fapi/v1/order': {
+        const order = this.orders.find(o => String(o.orderId) === params.orderId);
+        if (!order) return reply(400, { code: -2013, msg: 'Order does not exist.' });
+        return reply(200, {
+          orderId: order.orderId, symbol: order.symbol, side: order.side, type: order.type, origType: order.type,
+          origQty: order.quantity, price: order.price || '0', stopPrice: order.stopPrice || '0', executedQty: '0',
+          status: 'NEW', reduceOnly: order.reduceOnly === 'true', workingType: order.workingType,
+          timeInForce: order.timeInForce, clientOrderId: order.newClientOrderId,
+        });
+      }
+      case 'PUT /fapi/v1/order':
+        this.amended.push(params);
+        return reply(200, {
+          orderId: Number(params.orderId), symbol: params.symbol, side: params.side, type: 'LIMIT', origType: 'LIMIT',
+          origQty: params.quantity, price: params.price, executedQty: '0', status: 'NEW',
+        });
+      case 'DELETE /fapi/v1/order':
+        this.cancelled.push(params.orderId);
+        return reply(200, { orderId: Number(params.orderId), status: 'CANCELED' });
+      case 'GET /fapi/v1/leverageBracket':
+        return reply(200, [{ symbol: 'BTCUSDT', brackets: [{ bracket: 1, initialLeverage: 125 }] }]);
+      case 'GET /fapi/v2/positionRisk':
+        return reply(200, [{ symbol: 'BTCUSDT', positionAmt: this.positionAmt, entryPrice: '50000', markPrice: '50100', unRealizedProfit: '1', leverage: '10' }]);
+      case 'GET /fapi/v1/openOrders':
+        return reply(200, this.orders
+          .filter(o => o.reduceOnly === 'true' && !this.cancelled.includes(String(o.orderId)))
+          .map(o => ({ orderId: o.orderId, symbol: o.symbol, side: o.side, type: o.type, origQty: o.quantity, status: 'NEW', reduceOnly: true })));
+      default:
+        return reply(400, { code: -1100, msg: 'unknown endpoint' });
+    }
+  }
+}
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2000) => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+};
+
+describe('BinanceBroker (mock USD-M server)', () => {
+  const mock = new MockBinanceServer();
+  let broker: BinanceBroker;
+  let bracketed: BracketEmulator; // as created by createBroker('binance')
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(async () => {
+    mock.orders = [];
+    mock.cancelled = [];
+    mock.amended = [];
+    mock.positionAmt = '0';
+    mock.marketMessages = [];
+    mock.listenKeyRequests = 0;
+    mock.rejectOrders = 0;
+    broker = new BinanceBroker({ restUrl: mock.restUrl, wsUrl: mock.wsUrl });
+    bracketed = new BracketEmulator(broker);
+    await bracketed.connect({ apiKey: API_KEY, apiSecret: API_SECRET, testnet: true });
+  });
+
+  afterEach(async () => {
+    await bracketed.disconnect();
+  });
+
+  it('connects and rejects bad signatures', async () => {
+    expect(broker.getConnectionStatus()).toBe('connected');
+
+    const bad = new BinanceBroker({ restUrl: mock.restUrl, wsUrl: mock.wsUrl });
+    await expect(bad.connect({ apiKey: API_KEY, apiSecret: 'wrong' })).rejects.toBeInstanceOf(BinanceApiError);
+    expect(bad.getConnectionStatus()).toBe('error');
+  });
+
+  it('returns balances', async () => {
+    expect(await broker.getBalance()).toEqual([{ currency: 'USDT', total: 1000, available: 900, locked: 100 }]);
+  });
+
+  it('places reduce-only orders', async () => {
+    const order = await broker.placeOrder({
+      instrument: 'BTCUSDT', side: 'sell', type: 'limit', amount: 0.01, price: 51000, reduceOnly: true,
+    });
+
+    expect(order).toMatchObject({ orderId: '1', side: 'sell', type: 'limit', status: 'open' });
+    expect(mock.orders[0]).toMatchObject({ type: 'LIMIT', price: '51000', timeInForce: 'GTC', reduceOnly: 'true' });
+  });
+
+  it('emulates OTOCO: places legs after a market entry fills', async () => {
+    await bracketed.placeOrder({
+      instrument: 'BTCUSDT', side: 'buy', type: 'market', amount: 0.01, label: 'entry-1',
+      otocoConfig: {
+        stopLoss: { type: 'stop_market', triggerPrice: 49000 },
+        takeProfit: { type: 'take_limit', price: 52000 },
+      },
+    });
+
+    expect(mock.orders).toHaveLength(3);
+    expect(mock.orders[1]).toMatchObject({
+      side: 'SELL', type: 'STOP_MARKET', stopPrice: '49000', reduceOnly: 'true',
+      workingType: 'MARK_PRICE', newClientOrderId: 'entry-1_sl',
+    });
+    expect(mock.orders[2]).toMatchObject({
+      side: 'SELL', type: 'LIMIT', price: '52000', reduceOnly: 'true', newClientOrderId: 'entry-1_tp',
+    });
+  });
+
+  it('emulates OTOCO: places legs when a limit entry fills on the user stream', async () => {
+    await bracketed.placeOrder({
+      instrument: 'BTCUSDT', side: 'sell', type: 'limit', amount: 0.02, price: 50500, label: 'entry-2',
+      otocoConfig: { stopLoss: { type: 'stop_market', triggerPrice: 51500 } },
+    });
+    expect(mock.orders).toHaveLength(1);
+
+    mock.pushUser(mock.orderUpdate(mock.orders[0], 'FILLED', '0.02'));
+
+    await waitFor(() => mock.orders.length === 2);
+    expect(mock.orders[1]).toMatchObject({ side: 'BUY', type: 'STOP_MARKET', quantity: '0.02', newClientOrderId: 'entry-2_sl' });
+  });
+
+  it('emulates OCO: cancels the TP when the SL fills', async () => {
+    const updates: Order[] = [];
+    await bracketed.subscribeOrders('BTCUSDT', (o) => updates.push(o));
+    await bracketed.placeOrder({
+      instrument: 'BTCUSDT', side: 'buy', type: 'market', amount: 0.01, label: 'entry-3',
+      otocoConfig: {
+        stopLoss: { type: 'stop_market', triggerPrice: 49000 },
+        takeProfit: { type: 'take_limit', price: 52000 },
+      },
+    });
+
+    const [, sl, tp] = mock.orders;
+    mock.pushUser(mock.orderUpdate(sl, 'FILLED', '0.01'));
+
+    await waitFor(() => mock.cancelled.includes(String(tp.orderId)));
+    expect(updates.some(u => u.orderId === String(sl.orderId) && u.status === 'filled')).toBe(true);
+  });
+
+  it('sends the trigger and limit price of a stop_limit separately', async () => {
+    await broker.placeOrder({
+      instrument: 'BTCUSDT', side: 'sell', type: 'stop_limit', amount: 0.01, triggerPrice: 49000, price: 48900, trigger: 'last_price', reduceOnly: true,
+    });
+
+    expect(mock.orders[0]).toMatchObject({ type: 'STOP', stopPrice: '49000', price: '48900', workingType: 'CONTRACT_PRICE' });
+  });
+
+  it('moves a stop_limit trigger with its limit offset, or to an explicit limit price', async () => {
+    await broker.placeOrder({
+      instrument: 'BTCUSDT', side: 'sell', type: 'stop_limit', amount: 0.01, triggerPrice: 49000, price: 48900, reduceOnly: true,
+    });
+
+    await broker.editOrder('1', 'BTCUSDT', { price: 49500 });
+    expect(mock.orders[1]).toMatchObject({ type: 'STOP', stopPrice: '49500', price: '49400' });
+
+    await broker.editOrder('2', 'BTCUSDT', { limitPrice: 49450 });
+    expect(mock.orders[2]).toMatchObject({ type: 'STOP', stopPrice: '49500', price: '49450' });
+  });
+
+  it('refuses otocoConfig without the emulator', async () => {
+    await expect(broker.placeOrder({
+      instrument: 'BTCUSDT', side: 'buy', type: 'market', amount: 0.01,
+      otocoConfig: { stopLoss: { type: 'stop_market', triggerPrice: 49000 } },
+    })).rejects.toThrow('no native OTOCO');
+    expect(mock.orders).toHaveLength(0);
+  });
+
+  it('amends limit orders in place', async () => {
+    await broker.placeOrder({ instrument: 'BTCUSDT', side: 'sell', type: 'limit', amount: 0.01, price: 51000 });
+
+    const order = await broker.editOrder('1', 'BTCUSDT', { price: 50800 });
+    expect(mock.amended[0]).toMatchObject({ symbol: 'BTCUSDT', orderId: '1', side: 'SELL', quantity: '0.01', price: '50800' });
+    expect(order).toMatchObject({ orderId: '1', price: 50800, amount: 0.01 });
+  });
+
+  it('replaces a bracket SL on edit and keeps the OCO link', async () => {
+    await bracketed.placeOrder({
+      instrument: 'BTCUSDT', side: 'buy', type: 'market', amount: 0.01, label: 'entry-4',
+      otocoConfig: {
+        stopLoss: { type: 'stop_market', triggerPrice: 49000 },
+        takeProfit: { type: 'take_limit', price: 52000 },
+      },
+    });
+    const [, sl, tp] = mock.orders;
+
+    const moved = await bracketed.editOrder(String(sl.orderId), 'BTCUSDT', { price: 50000 });
+    expect(mock.cancelled).toEqual([String(sl.orderId)]);
+    expect(mock.orders[3]).toMatchObject({
+      side: 'SELL', type: 'STOP_MARKET', stopPrice: '50000', quantity: '0.01',
+      reduceOnly: 'true', workingType: 'MARK_PRICE', newClientOrderId: 'entry-4_sl',
+    });
+    expect(moved).toMatchObject({ orderId: '4', type: 'stop_market', price: 50000 });
+
+    // The replacement SL is now the bracket leg: its fill cancels the TP
+    mock.pushUser(mock.orderUpdate(mock.orders[3], 'FILLED', '0.01'));
+    await waitFor(() => mock.cancelled.includes(String(tp.orderId)));
+  });
+
+  it('puts the original stop back when its replacement is rejected', async () => {
+    await broker.placeOrder({ instrument: 'BTCUSDT', side: 'sell', type: 'stop_market', amount: 0.01, price: 49000, reduceOnly: true });
+    mock.rejectOrders = 1;
+
+    await expect(broker.editOrder('1', 'BTCUSDT', { price: 50200 })).rejects.toBeInstanceOf(BinanceApiError);
+    expect(mock.cancelled).toEqual(['1']);
+    expect(mock.orders[1]).toMatchObject({ type: 'STOP_MARKET', stopPrice: '49000', quantity: '0.01', reduceOnly: 'true' });
+  });
+
+  it('alerts when the original stop cannot be put back either', async () => {
+    const alert = vi.spyOn(telegramService, 'notifyError').mockResolvedValue(true);
+    await broker.placeOrder({ instrument: 'BTCUSDT', side: 'sell', type: 'stop_market', amount: 0.01, price: 49000, reduceOnly: true });
+    mock.rejectOrders = 2;
+
+    await expect(broker.editOrder('1', 'BTCUSDT', { price: 50200 })).rejects.toBeInstanceOf(BinanceApiError);
+    expect(mock.orders).toHaveLength(1);
+    expect(alert).toHaveBeenCalledWith(expect.stringContaining('could not be restored'), expect.objectContaining({ orderId: '1', instrument: 'BTCUSDT' }));
+    alert.mockRestore();
+  });
+
+  it('maps positions and closes them with reduce-only orders', async () => {
+    mock.positionAmt = '-0.02';
+    expect(await broker.getPositions('BTCUSDT')).toEqual([{
+      instrument: 'BTCUSDT', size: 0.02, side: 'short', entryPrice: 50000, markPrice: 50100, unrealizedPnl: 1, leverage: 10,
+    }]);
+
+    await broker.closePosition('BTCUSDT', { amount: 0.01 });
+    expect(mock.orders[0]).toMatchObject({ side: 'BUY', type: 'MARKET', quantity: '0.01', reduceOnly: 'true' });
+  });
+
+  it('cancels reduce-only orphans without a position', async () => {
+    await broker.placeOrder({ instrument: 'BTCUSDT', side: 'sell', type: 'stop_market', amount: 0.01, price: 49000, reduceOnly: true });
+
+    await broker.scanAndCleanOrphans();
+    expect(mock.cancelled).toEqual(['1']);
+  });
+
+  it('keeps reduce-only orders while a position is open', async () => {
+    mock.positionAmt = '0.01';
+    await broker.placeOrder({ instrument: 'BTCUSDT', side: 'sell', type: 'stop_market', amount: 0.01, price: 49000, reduceOnly: true });
+
+    await broker.scanAndCleanOrphans();
+    expect(mock.cancelled).toEqual([]);
+  });
+
+  it('returns candles and instrument info', async () => {
+    const candles = await broker.getCandles('BTCUSDT', '1m', 2);
+    expect(candles[1]).toEqual({ timestamp: 1700000060000, open: 101, high: 103, low: 100, close: 102, volume: 11 });
+
+    const info = await broker.getInstrumentInfo('BTCUSDT');
+    expect(info).toEqual({ minTradeAmount: 0.001, tickSize: 0.1, maxLeverage: 125, amountStep: 0.001 });
+  });
+
+  it('streams aggTrades and klines', async () => {
+    const trades: Trade[] = [];
+    const candles: Array<{ candle: Candle; closed: boolean }> = [];
+    await broker.subscribeTrades('BTCUSDT', (t) => trades.push(t));
+    await broker.subscribeCandles('BTCUSDT', '1m', (candle, closed) => candles.push({ candle, closed }));
+
+    mock.pushMarket({ e: 'aggTrade', s: 'BTCUSDT', a: 42, p: '50000', q: '0.3', T: 1700000000000, m: true });
+    mock.pushMarket({ e: 'kline', s: 'BTCUSDT', k: { t: 1700000000000, i: '1m', o: '1', h: '2', l: '0.5', c: '1.5', v: '9', x: true } });
+
+    await waitFor(() => trades.length === 1 && candles.length === 1);
+    expect(trades[0]).toMatchObject({ tradeId: '42', side: 'sell', amount: 0.3, price: 50000 });
+    expect(candles[0]).toEqual({ candle: { timestamp: 1700000000000, open: 1, high: 2, low: 0.5, close: 1.5, volume: 9 }, closed: true });
+  });
+
+  it('streams own fills from TRADE executions only', async () => {
+    const fills: Trade[] = [];
+    await broker.subscribeFills('BTCUSDT', (f) => fills.push(f));
+
+    const order = { symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: '0.02', price: '50000', orderId: 9, newClientOrderId: 'razor_long_1' };
+    mock.pushUser(mock.orderUpdate(order, 'NEW', '0'));
+    const partial = mock.orderUpdate(order, 'PARTIALLY_FILLED', '0.01');
+    Object.assign(partial.o, { x: 'TRADE', t: 77, l: '0.01', L: '50000', n: '0.2', N: 'USDT', T: 1700000002000 });
+    mock.pushUser(partial);
+
+    await waitFor(() => fills.length === 1);
+    expect(fills[0]).toEqual({
+      tradeId: '77', orderId: '9', instrument: 'BTCUSDT', side: 'buy', amount: 0.01, price: 50000,
+      timestamp: 1700000002000, fee: 0.2, feeCurrency: 'USDT', label: 'razor_long_1',
+    });
+  });
+
+  it('reconnects the market stream and resubscribes every stream', async () => {
+    const trades: Trade[] = [];
+    await broker.subscribeTrades('BTCUSDT', (t) => trades.push(t));
+    await broker.subscribeMarkPrice('BTCUSDT', () => {});
+    mock.marketMessages = [];
+
+    mock.marketSockets[mock.marketSockets.length - 1].terminate();
+    await waitFor(() => mock.marketMessages.length === 1, 3000);
+    expect(mock.marketMessages[0]).toMatchObject({ method: 'SUBSCRIBE', params: ['btcusdt@aggTrade', 'btcusdt@markPrice@1s'] });
+
+    mock.pushMarket({ e: 'aggTrade', s: 'BTCUSDT', a: 43, p: '50100', q: '0.1', T: 1700000001000, m: false });
+    await waitFor(() => trades.length === 1);
+    expect(trades[0]).toMatchObject({ tradeId: '43', side: 'buy' });
+  });
+
+  it('reopens the user-data stream with a fresh listenKey after a drop', async () => {
+    const updates: Order[] = [];
+    await broker.subscribeOrders('BTCUSDT', (o) => updates.push(o));
+    const requests = mock.listenKeyRequests;
+    const sockets = mock.userSockets.length;
+
+    mock.userSockets[sockets - 1].terminate();
+    await waitFor(() => mock.userSockets.length === sockets + 1, 3000);
+    expect(mock.listenKeyRequests).toBe(requests + 1);
+
+    await waitFor(() => broker['userWs'] !== null);
+    mock.pushUser(mock.orderUpdate({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: '0.01', price: '50000', orderId: 7 }, 'NEW', '0'));
+    await waitFor(() => updates.length === 1);
+    expect(updates[0]).toMatchObject({ orderId: '7', status: 'open' });
+  });
+
+  it('ignores the late close of a replaced user-data socket', async () => {
+    await broker.subscribeOrders('BTCUSDT', () => {});
+    const stale = broker['userWs']!;
+    broker['userWs'] = null;
+    await broker.subscribeOrders('BTCUSDT', () => {});
+    const current = broker['userWs'];
+
+    stale.close();
+    await waitFor(() => stale.readyState === WebSocket.CLOSED);
+    expect(broker['userWs']).toBe(current);
+    expect(broker['reconnectTimers'].size).toBe(0);
+  });
+});
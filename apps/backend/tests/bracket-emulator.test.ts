@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PaperBroker } from '../src/brokers/PaperBroker';
+import { BracketEmulator, withBracketEmulation } from '../src/brokers/BracketEmulator';
+import { createBroker } from '../src/brokers/BrokerRegistry';
+import type { BrokerCapabilities, Order, PlaceOrderParams } from '../src/brokers/IBroker';
+
+const INSTRUMENT = 'BTC_USDC-PERPETUAL';
+
+/**
+ * Paper exchange without bracket support: rejects otocoConfig like a real
+ * exchange without OTOCO would
+ */
+class NoOtocoBroker extends PaperBroker {
+  placed: PlaceOrderParams[] = [];
+  maxTriggerOrders: number | null = null;
+  reduceOnly = true;
+
+  getCapabilities(): BrokerCapabilities {
+    return { otoco: 'none', reduceOnly: this.reduceOnly, postOnly: false, triggerSources: ['last_price'], maxTriggerOrders: this.maxTriggerOrders };
+  }
+
+  async placeOrder(params: PlaceOrderParams): Promise<Order> {
+    if (params.otocoConfig) throw new Error('otocoConfig not supported');
+    this.placed.push(params);
+    return super.placeOrder(params);
+  }
+}
+
+const tick = (broker: PaperBroker, price: number, timestamp: number) =>
+  broker.processTick({ instrument: INSTRUMENT, price, timestamp });
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2000) => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 5));
+  }
+};
+
+const otoco = {
+  stopLoss: { type: 'stop_market' as const, triggerPrice: 49000 },
+  takeProfit: { type: 'take_limit' as const, price: 52000 },
+};
+
+describe('BracketEmulator', () => {
+  let inner: NoOtocoBroker;
+  let broker: BracketEmulator;
+
+  beforeEach(async () => {
+    inner = new NoOtocoBroker(null, { takerFee: 0, slippageBps: 0 });
+    broker = new BracketEmulator(inner);
+    await broker.connect({ apiKey: '', apiSecret: '' });
+    tick(inner, 50000, 1);
+  });
+
+  it('places legs right after a market entry fills', async () => {
+    const entry = await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1, label: 'entry-1', otocoConfig: otoco,
+    });
+
+    expect(entry.status).toBe('filled');
+    expect(inner.placed[0].otocoConfig).toBeUndefined();
+    expect(inner.placed.slice(1)).toEqual([
+      expect.objectContaining({ side: 'sell', type: 'stop_market', price: 49000, amount: 1, reduceOnly: true, label: 'entry-1_sl' }),
+      expect.objectContaining({ side: 'sell', type: 'limit', price: 52000, amount: 1, reduceOnly: true, label: 'entry-1_tp' }),
+    ]);
+    expect(broker.getCapabilities().otoco).toBe('emulated');
+  });
+
+  it('places legs when a resting entry fills later', async () => {
+    await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'sell', type: 'limit', amount: 2, price: 50500, label: 'entry-2',
+      otocoConfig: { stopLoss: { type: 'stop_market', triggerPrice: 51500 } },
+    });
+    expect(inner.placed).toHaveLength(1);
+
+    tick(inner, 50600, 2);
+
+    await waitFor(() => inner.placed.length === 2);
+    expect(inner.placed[1]).toMatchObject({ side: 'buy', type: 'stop_market', price: 51500, amount: 2, label: 'entry-2_sl' });
+  });
+
+  it('places a stop_limit SL with its own trigger and limit price', async () => {
+    await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1, label: 'entry-sl',
+      otocoConfig: { stopLoss: { type: 'stop_limit', triggerPrice: 49000, price: 48900 } },
+    });
+    expect(inner.placed[1]).toMatchObject({ type: 'stop_limit', triggerPrice: 49000, price: 48900, label: 'entry-sl_sl' });
+
+    // Triggered at 49000, the sell limit at 48900 is marketable at 48950
+    tick(inner, 48950, 2);
+
+    await waitFor(() => broker.getPendingBrackets().length === 0);
+    expect(await broker.getPositions()).toEqual([]);
+  });
+
+  it('cancels the sibling when one leg fills and forwards updates to subscribers', async () => {
+    // Without reduce-only the paper engine won't cancel the SL itself when flat
+    inner.reduceOnly = false;
+    const updates: Order[] = [];
+    await broker.subscribeOrders(INSTRUMENT, (o) => updates.push(o));
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1, label: 'entry-3', otocoConfig: otoco });
+    const [sl, tp] = await broker.getOpenOrders(INSTRUMENT);
+
+    tick(inner, 52100, 2);
+
+    await waitFor(() => broker.getPendingBrackets().length === 0);
+    expect((await broker.getOrder(tp.orderId, INSTRUMENT)).status).toBe('filled');
+    expect((await broker.getOrder(sl.orderId, INSTRUMENT)).status).toBe('cancelled');
+    expect(await broker.getPositions()).toEqual([]);
+    expect(updates.some(u => u.orderId === tp.orderId && u.status === 'filled')).toBe(true);
+  });
+
+  it('protects a partially filled entry and grows the legs with the fill', async () => {
+    inner.reduceOnly = false;
+    const edit = vi.spyOn(inner, 'editOrder');
+    const entry = await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'buy', type: 'limit', amount: 1, price: 49500, label: 'entry-5', otocoConfig: otoco,
+    });
+    // The paper engine fills at once; report partial fills the way an exchange would
+    const resting = (inner as any).orders.get(entry.orderId);
+    const partialFill = (filled: number) => {
+      resting.filled = filled;
+      (inner as any).emitOrder(resting);
+    };
+
+    partialFill(0.4);
+    await waitFor(() => inner.placed.length === 3);
+    expect(inner.placed.slice(1)).toEqual([
+      expect.objectContaining({ type: 'stop_market', amount: 0.4, label: 'entry-5_sl' }),
+      expect.objectContaining({ type: 'limit', amount: 0.4, label: 'entry-5_tp' }),
+    ]);
+
+    partialFill(0.7);
+    await waitFor(() => edit.mock.calls.length === 2);
+    expect(edit.mock.calls.map(([, , changes]) => changes)).toEqual([{ amount: 0.7 }, { amount: 0.7 }]);
+
+    // The rest fills on the next tick
+    tick(inner, 49400, 2);
+    await waitFor(() => edit.mock.calls.length === 4);
+    const legs = await broker.getOpenOrders(INSTRUMENT);
+    expect(legs.map(o => o.amount)).toEqual([1, 1]);
+    expect(broker.getPendingBrackets()[0]).toMatchObject({ slOrderId: legs[0].orderId, tpOrderId: legs[1].orderId });
+  });
+
+  it('stops the entry and flattens the uncovered fill when the legs cannot grow', async () => {
+    inner.reduceOnly = false;
+    vi.spyOn(inner, 'editOrder').mockRejectedValue(new Error('amend rejected'));
+    const entry = await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'buy', type: 'limit', amount: 1, price: 49500, label: 'entry-6', otocoConfig: otoco,
+    });
+    const resting = (inner as any).orders.get(entry.orderId);
+
+    resting.filled = 0.4;
+    (inner as any).emitOrder(resting);
+    await waitFor(() => inner.placed.length === 3);
+    resting.filled = 0.7;
+    (inner as any).emitOrder(resting);
+
+    await waitFor(() => inner.placed.length === 4);
+    expect(inner.placed[3]).toMatchObject({ side: 'sell', type: 'market', amount: 0.3, label: 'entry-6_flat' });
+    expect((await broker.getOrder(entry.orderId, INSTRUMENT)).status).toBe('cancelled');
+  });
+
+  it('drops the bracket when the entry is cancelled unfilled', async () => {
+    const entry = await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'buy', type: 'limit', amount: 1, price: 48000, otocoConfig: otoco,
+    });
+    expect(broker.getPendingBrackets()).toHaveLength(1);
+
+    await broker.cancelOrder(entry.orderId, INSTRUMENT);
+
+    await waitFor(() => broker.getPendingBrackets().length === 0);
+    expect(inner.placed).toHaveLength(1);
+  });
+
+  it('refuses brackets beyond the trigger order limit', async () => {
+    inner.maxTriggerOrders = 1;
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1, otocoConfig: otoco });
+
+    await expect(broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1, otocoConfig: otoco }))
+      .rejects.toThrow('Trigger order limit reached');
+  });
+
+  it('only wraps brokers without OTOCO support', () => {
+    const paper = new PaperBroker(null);
+    expect(withBracketEmulation(paper)).toBe(paper);
+    expect(withBracketEmulation(inner)).toBeInstanceOf(BracketEmulator);
+    expect(createBroker('okx').getCapabilities().otoco).toBe('native');
+    expect(createBroker('binance').getCapabilities().otoco).toBe('emulated');
+    expect(createBroker('kraken')).toBeInstanceOf(BracketEmulator);
+  });
+});
@@ -0,0 +1,517 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { BybitBroker, BybitApiError } from '../src/brokers/BybitBroker';
+import type { MarkPriceUpdate, Order, Trade } from '../src/brokers/IBroker';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret';
+
+/**
+ * Minimal mock of the Bybit v5 REST + WebSocket API
+ * Verifies request signatures the same way Bybit does
+ */
+class MockBybitServer {
+  server!: http.Server;
+  publicWss!: WebSocketServer;
+  privateWss!: WebSocketServer;
+  restUrl = '';
+  publicWsUrl = '';
+  privateWsUrl = '';
+  createdOrders: any[] = [];
+  amendedOrders: any[] = [];
+  openOrder: Record<string, string> = {}; // overrides on the open conditional order
+  privateMessages: any[] = [];
+  publicMessages: any[] = [];
+  answerAuth = true;
+  privateSockets: WebSocket[] = [];
+  publicSockets: WebSocket[] = [];
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => this.handleRest(req, res));
+    this.publicWss = new WebSocketServer({ noServer: true });
+    this.privateWss = new WebSocketServer({ noServer: true });
+
+    this.server.on('upgrade', (req, socket, head) => {
+      const wss = req.url?.startsWith('/v5/private') ? this.privateWss : this.publicWss;
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+    });
+
+    this.publicWss.on('connection', (ws) => {
+      this.publicSockets.push(ws);
+      ws.on('message', (data) => {
+        const msg = JSON.parse(data.toString());
+        this.publicMessages.push(msg);
+        ws.send(JSON.stringify({ op: msg.op, success: true }));
+      });
+    });
+
+    this.privateWss.on('connection', (ws) => {
+      this.privateSockets.push(ws);
+      ws.on('message', (data) => {
+        const msg = JSON.parse(data.toString());
+        this.privateMessages.push(msg);
+        if (msg.op === 'auth') {
+          if (!this.answerAuth) return;
+          const [key, expires, signature] = msg.args;
+          const expected = crypto.createHmac('sha256', API_SECRET).update(`GET/realtime${expires}`).digest('hex');
+          ws.send(JSON.stringify({ op: 'auth', success: key === API_KEY && signature === expected }));
+        } else {
+          ws.send(JSON.stringify({ op: msg.op, success: true }));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.restUrl = `http://127.0.0.1:${port}`;
+    this.publicWsUrl = `ws://127.0.0.1:${port}/v5/public/linear`;
+    this.privateWsUrl = `ws://127.0.0.1:${port}/v5/private`;
+  }
+
+  async stop(): Promise<void> {
+    for (const ws of [...this.publicSockets, ...this.privateSockets]) ws.terminate();
+    this.publicWss.close();
+    this.privateWss.close();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  broadcastPublic(payload: unknown): void {
+    for (const ws of this.publicSockets) ws.send(JSON.stringify(payload));
+  }
+
+  broadcastPrivate(payload: unknown): void {
+    for (const ws of this.privateSockets) ws.send(JSON.stringify(payload));
+  }
+
+  private handleRest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, this.restUrl);
+      const reply = (result: unknown, retCode = 0, retMsg = 'OK') => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ retCode, retMsg, result, time: Date.now() }));
+      };
+
+      if (url.pathname.startsWith('/v5/market/')) {
+        return this.handleMarket(url, reply);
+      }
+
+      // Private endpoints: verify signature
+      const timestamp = req.headers['x-bapi-timestamp'] as string;
+      const recvWindow = req.headers['x-bapi-recv-window'] as string;
+      const payload = req.method === 'GET' ? url.searchParams.toString() : body;
+      const expected = crypto
+        .createHmac('sha256', API_SECRET)
+        .update(`${timestamp}${req.headers['x-bapi-api-key']}${recvWindow}${payload}`)
+        .digest('hex');
+
+      if (req.headers['x-bapi-api-key'] !== API_KEY || req.headers['x-bapi-sign'] !== expected) {
+        return reply({}, 10004, 'error sign!');
+      }
+
+      switch (url.pathname) {
+        case '/v5/account/wallet-balance':
+          return reply({
+            list: [{
+              accountType: 'UNIFIED',
+              coin: [{ coin: 'USDT', walletBalance: '1000', totalPositionIM: '100', totalOrderIM: '50' }],
+            }],
+          });
+        case '/v5/order/create': {
+          const order = JSON.parse(body);
+          this.createdOrders.push(order);
+          return reply({ orderId: `bybit-${this.createdOrders.length}`, orderLinkId: order.orderLinkId || '' });
+        }
+        case '/v5/order/cancel':
+          return reply({ orderId: JSON.parse(body).orderId });
+        case '/v5/order/amend': {
+          const amend = JSON.parse(body);
+          this.amendedOrders.push(amend);
+          return reply({ orderId: amend.orderId, orderLinkId: '' });
+        }
+        case '/v5/position/list':
+          return reply({
+            list: [
+              {
+                symbol: 'BTCUSDT', side: 'Sell', size: '0.02', avgPrice: '50000', markPrice: '49500',
+                unrealisedPnl: '10', cumRealisedPnl: '-1.5', leverage: '10',
+              },
+              { symbol: 'ETHUSDT', side: '', size: '0', avgPrice: '0', markPrice: '3000', unrealisedPnl: '0', leverage: '10' },
+            ],
+          });
+        case '/v5/order/realtime':
+          return reply({
+            list: [{
+              orderId: 'bybit-1', symbol: 'BTCUSDT', side: 'Sell', orderType: 'Market',
+              stopOrderType: 'StopLoss', qty: '0.01', price: '0', triggerPrice: '49000',
+              cumExecQty: '0', orderStatus: 'Untriggered', createdTime: '1700000000000', orderLinkId: '',
+              ...this.openOrder,
+            }],
+          });
+        default:
+          return reply({}, 10001, 'unknown endpoint');
+      }
+    });
+  }
+
+  private handleMarket(url: URL, reply: (result: unknown, retCode?: number, retMsg?: string) => void): void {
+    switch (url.pathname) {
+      case '/v5/market/kline':
+        return reply({
+          symbol: url.searchParams.get('symbol'),
+          list: [
+            ['1700000120000', '102', '104', '101', '103', '12', '0'],
+            ['1700000060000', '101', '103', '100', '102', '11', '0'],
+            ['1700000000000', '100', '102', '99', '101', '10', '0'],
+          ],
+        });
+      case '/v5/market/funding/history':
+        return reply({
+          category: 'linear',
+          list: [
+            { symbol: 'BTCUSDT', fundingRate: '0.0002', fundingRateTimestamp: '1700028800000' },
+            { symbol: 'BTCUSDT', fundingRate: '0.0001', fundingRateTimestamp: '1700000000000' },
+          ],
+        });
+      case '/v5/market/instruments-info':
+        if (url.searchParams.get('symbol') !== 'BTCUSDT') return reply({ list: [] });
+        return reply({
+          list: [{
+            symbol: 'BTCUSDT',
+            lotSizeFilter: { minOrderQty: '0.001', qtyStep: '0.001' },
+            priceFilter: { tickSize: '0.10' },
+            leverageFilter: { maxLeverage: '100.00' },
+          }],
+        });
+      default:
+        return reply({}, 10001, 'unknown endpoint');
+    }
+  }
+}
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2000) => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+};
+
+describe('BybitBroker (mock v5 server)', () => {
+  const mock = new MockBybitServer();
+  let broker: BybitBroker;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(async () => {
+    mock.createdOrders = [];
+    mock.amendedOrders = [];
+    mock.openOrder = {};
+    mock.privateMessages = [];
+    mock.publicMessages = [];
+    mock.answerAuth = true;
+    broker = new BybitBroker({
+      restUrl: mock.restUrl,
+      publicWsUrl: mock.publicWsUrl,
+      privateWsUrl: mock.privateWsUrl,
+    });
+    await broker.connect({ apiKey: API_KEY, apiSecret: API_SECRET, testnet: true });
+  });
+
+  afterEach(async () => {
+    await broker.disconnect();
+  });
+
+  it('connects with signed requests', () => {
+    expect(broker.getConnectionStatus()).toBe('connected');
+  });
+
+  it('rejects invalid credentials', async () => {
+    const bad = new BybitBroker({ restUrl: mock.restUrl });
+    await expect(bad.connect({ apiKey: API_KEY, apiSecret: 'wrong' })).rejects.toBeInstanceOf(BybitApiError);
+    expect(bad.getConnectionStatus()).toBe('error');
+  });
+
+  it('returns wallet balances', async () => {
+    const balances = await broker.getBalance('USDT');
+    expect(balances).toEqual([{ currency: 'USDT', total: 1000, locked: 150, available: 850 }]);
+  });
+
+  it('maps OTOCO config to attached TP/SL', async () => {
+    const order = await broker.placeOrder({
+      instrument: 'BTCUSDT',
+      side: 'buy',
+      type: 'market',
+      amount: 0.01,
+      label: 'entry-1',
+      otocoConfig: {
+        stopLoss: { type: 'stop_market', triggerPrice: 49000 },
+        takeProfit: { type: 'take_limit', price: 52000 },
+      },
+    });
+
+    expect(order.orderId).toBe('bybit-1');
+    expect(mock.createdOrders[0]).toMatchObject({
+      category: 'linear',
+      symbol: 'BTCUSDT',
+      side: 'Buy',
+      orderType: 'Market',
+      qty: '0.01',
+      orderLinkId: 'entry-1',
+      tpslMode: 'Full',
+      stopLoss: '49000',
+      slTriggerBy: 'MarkPrice',
+      slOrderType: 'Market',
+      takeProfit: '52000',
+      tpOrderType: 'Limit',
+      tpLimitPrice: '52000',
+    });
+  });
+
+  it('places reduce-only stop orders with trigger direction', async () => {
+    await broker.placeOrder({
+      instrument: 'BTCUSDT',
+      side: 'sell',
+      type: 'stop_market',
+      amount: 0.01,
+      price: 49000,
+      reduceOnly: true,
+    });
+
+    expect(mock.createdOrders[0]).toMatchObject({
+      orderType: 'Market',
+      triggerPrice: '49000',
+      triggerDirection: 2,
+      reduceOnly: true,
+    });
+  });
+
+  it('maps open conditional orders', async () => {
+    const orders = await broker.getOpenOrders('BTCUSDT');
+    expect(orders[0]).toMatchObject({
+      orderId: 'bybit-1',
+      side: 'sell',
+      type: 'stop_market',
+      price: 49000,
+      status: 'open',
+    });
+  });
+
+  it('amends conditional orders via triggerPrice', async () => {
+    const order = await broker.editOrder('bybit-1', 'BTCUSDT', { price: 49800, amount: 0.02 });
+
+    expect(mock.amendedOrders[0]).toEqual({
+      category: 'linear',
+      symbol: 'BTCUSDT',
+      orderId: 'bybit-1',
+      qty: '0.02',
+      triggerPrice: '49800',
+    });
+    expect(order).toMatchObject({ orderId: 'bybit-1', type: 'stop_market', price: 49800, amount: 0.02 });
+  });
+
+  it('moves a conditional limit with its limit offset unless a limit price is given', async () => {
+    mock.openOrder = { orderType: 'Limit', price: '48900' };
+
+    const order = await broker.editOrder('bybit-1', 'BTCUSDT', { price: 49500 });
+    expect(mock.amendedOrders[0]).toMatchObject({ triggerPrice: '49500', price: '49400' });
+    expect(order).toMatchObject({ type: 'stop_limit', price: 49400 });
+
+    await broker.editOrder('bybit-1', 'BTCUSDT', { limitPrice: 48950 });
+    expect(mock.amendedOrders[1]).toEqual({ category: 'linear', symbol: 'BTCUSDT', orderId: 'bybit-1', price: '48950' });
+  });
+
+  it('maps open positions', async () => {
+    const positions = await broker.getPositions();
+    expect(positions).toEqual([{
+      instrument: 'BTCUSDT',
+      side: 'short',
+      size: 0.02,
+      entryPrice: 50000,
+      markPrice: 49500,
+      unrealizedPnl: 10,
+      realizedPnl: -1.5,
+      leverage: 10,
+    }]);
+  });
+
+  it('closes positions with reduce-only orders', async () => {
+    await broker.closePosition('BTCUSDT', { amount: 0.005 });
+    await broker.closePosition('BTCUSDT', { type: 'limit', price: 49000 });
+
+    expect(mock.createdOrders[0]).toMatchObject({ side: 'Buy', orderType: 'Market', qty: '0.005', reduceOnly: true });
+    expect(mock.createdOrders[1]).toMatchObject({ side: 'Buy', orderType: 'Limit', qty: '0.02', price: '49000', reduceOnly: true });
+  });
+
+  it('returns candles oldest first', async () => {
+    const candles = await broker.getCandles('BTCUSDT', '1m', 3);
+    expect(candles.map(c => c.timestamp)).toEqual([1700000000000, 1700000060000, 1700000120000]);
+    expect(candles[0]).toMatchObject({ open: 100, high: 102, low: 99, close: 101, volume: 10 });
+  });
+
+  it('returns funding history oldest first', async () => {
+    const history = await broker.getFundingRateHistory('BTCUSDT', 2);
+    expect(history).toEqual([
+      { instrument: 'BTCUSDT', rate: 0.0001, intervalHours: 8, timestamp: 1700000000000 },
+      { instrument: 'BTCUSDT', rate: 0.0002, intervalHours: 8, timestamp: 1700028800000 },
+    ]);
+  });
+
+  it('merges ticker deltas into mark price updates', async () => {
+    const updates: MarkPriceUpdate[] = [];
+    await broker.subscribeMarkPrice('BTCUSDT', (u) => updates.push(u));
+
+    mock.broadcastPublic({
+      topic: 'tickers.BTCUSDT',
+      type: 'snapshot',
+      ts: 1700000000000,
+      data: { symbol: 'BTCUSDT', markPrice: '50010', indexPrice: '50000', fundingRate: '0.0001', nextFundingTime: '1700028800000' },
+    });
+    mock.broadcastPublic({
+      topic: 'tickers.BTCUSDT',
+      type: 'delta',
+      ts: 1700000001000,
+      data: { symbol: 'BTCUSDT', markPrice: '50020' },
+    });
+
+    await waitFor(() => updates.length === 2);
+    expect(updates[1]).toEqual({
+      instrument: 'BTCUSDT',
+      markPrice: 50020,
+      indexPrice: 50000,
+      fundingRate: 0.0001,
+      fundingIntervalHours: 8,
+      nextFundingTime: 1700028800000,
+      timestamp: 1700000001000,
+    });
+  });
+
+  it('returns instrument info', async () => {
+    const info = await broker.getInstrumentInfo('BTCUSDT');
+    expect(info).toEqual({ minTradeAmount: 0.001, tickSize: 0.1, maxLeverage: 100, amountStep: 0.001 });
+    await expect(broker.getInstrumentInfo('DOGEUSDT')).rejects.toThrow('not found');
+  });
+
+  it('streams public trades', async () => {
+    const trades: Trade[] = [];
+    await broker.subscribeTrades('BTCUSDT', (t) => trades.push(t));
+
+    mock.broadcastPublic({
+      topic: 'publicTrade.BTCUSDT',
+      type: 'snapshot',
+      data: [{ T: 1700000000000, s: 'BTCUSDT', S: 'Buy', v: '0.5', p: '50000', i: 't-1' }],
+    });
+
+    await waitFor(() => trades.length === 1);
+    expect(trades[0]).toMatchObject({ tradeId: 't-1', side: 'buy', amount: 0.5, price: 50000 });
+  });
+
+  it('reconnects the public stream and resubscribes trades and tickers', async () => {
+    const trades: Trade[] = [];
+    await broker.subscribeTrades('BTCUSDT', (t) => trades.push(t));
+    await broker.subscribeMarkPrice('BTCUSDT', () => {});
+    const lost = mock.publicSockets[mock.publicSockets.length - 1];
+    mock.publicMessages = [];
+
+    lost.terminate();
+    await waitFor(() => mock.publicMessages.length === 1, 3000);
+    expect(mock.publicMessages[0]).toEqual({ op: 'subscribe', args: ['publicTrade.BTCUSDT', 'tickers.BTCUSDT'] });
+    expect(broker['pingTimers'].size).toBe(1);
+
+    mock.broadcastPublic({
+      topic: 'publicTrade.BTCUSDT',
+      type: 'snapshot',
+      data: [{ T: 1700000001000, s: 'BTCUSDT', S: 'Sell', v: '0.1', p: '50100', i: 't-2' }],
+    });
+    await waitFor(() => trades.length === 1);
+    expect(trades[0]).toMatchObject({ tradeId: 't-2', side: 'sell' });
+  });
+
+  it('leaves the public stream closed when nothing is subscribed', async () => {
+    await broker.subscribeTrades('BTCUSDT', () => {});
+    await broker.unsubscribe('publicTrade.BTCUSDT');
+    const sockets = mock.publicSockets.length;
+
+    mock.publicSockets[sockets - 1].terminate();
+    await waitFor(() => broker['publicWs'] === null);
+    await new Promise(resolve => setTimeout(resolve, 1200));
+    expect(mock.publicSockets).toHaveLength(sockets);
+    expect(broker['reconnectTimers'].size).toBe(0);
+  });
+
+  it('streams private order updates per instrument', async () => {
+    const updates: Order[] = [];
+    await broker.subscribeOrders('BTCUSDT', (o) => updates.push(o));
+
+    mock.broadcastPrivate({
+      topic: 'order',
+      data: [
+        { category: 'linear', orderId: 'o-1', symbol: 'BTCUSDT', side: 'Buy', orderType: 'Limit', qty: '0.01', price: '50000', cumExecQty: '0.01', orderStatus: 'Filled', createdTime: '1700000000000' },
+        { category: 'linear', orderId: 'o-2', symbol: 'ETHUSDT', side: 'Buy', orderType: 'Limit', qty: '1', price: '3000', cumExecQty: '0', orderStatus: 'New', createdTime: '1700000000000' },
+      ],
+    });
+
+    await waitFor(() => updates.length === 1);
+    expect(updates[0]).toMatchObject({ orderId: 'o-1', status: 'filled', filled: 0.01 });
+  });
+
+  it('streams own fills from the execution topic and skips funding', async () => {
+    const fills: Trade[] = [];
+    await broker.subscribeFills('BTCUSDT', (f) => fills.push(f));
+    await waitFor(() => mock.privateMessages.some(m => m.op === 'subscribe'));
+    expect(mock.privateMessages.find(m => m.op === 'subscribe').args).toEqual(['execution']);
+
+    mock.broadcastPrivate({
+      topic: 'execution',
+      data: [
+        { category: 'linear', symbol: 'BTCUSDT', execType: 'Funding', execId: 'f-1', orderId: '', side: 'Sell', execQty: '0.01', execPrice: '50000', execFee: '0.01', execTime: '1700000000000' },
+        { category: 'linear', symbol: 'BTCUSDT', execType: 'Trade', execId: 'e-1', orderId: 'o-1', orderLinkId: 'razor_long_1', side: 'Buy', execQty: '0.004', execPrice: '50000', execFee: '0.11', execTime: '1700000001000' },
+      ],
+    });
+
+    await waitFor(() => fills.length === 1);
+    expect(fills[0]).toEqual({
+      tradeId: 'e-1', orderId: 'o-1', instrument: 'BTCUSDT', side: 'buy', amount: 0.004, price: 50000,
+      timestamp: 1700000001000, fee: 0.11, label: 'razor_long_1',
+    });
+  });
+
+  it('reconnects, re-authenticates and resubscribes the private stream', async () => {
+    const updates: Order[] = [];
+    await broker.subscribeOrders('BTCUSDT', (o) => updates.push(o));
+    await broker.subscribeFills('BTCUSDT', () => {});
+    const lost = mock.privateSockets[mock.privateSockets.length - 1];
+    mock.privateMessages = [];
+
+    lost.terminate();
+    await waitFor(() => mock.privateMessages.some(m => m.op === 'subscribe'), 3000);
+    expect(mock.privateMessages.map(m => m.op)).toEqual(['auth', 'subscribe']);
+    expect(mock.privateMessages[1].args).toEqual(['order', 'execution']);
+
+    mock.broadcastPrivate({
+      topic: 'order',
+      data: [{ category: 'linear', orderId: 'o-3', symbol: 'BTCUSDT', side: 'Sell', orderType: 'Limit', qty: '0.01', price: '51000', cumExecQty: '0', orderStatus: 'New', createdTime: '1700000000000' }],
+    });
+    await waitFor(() => updates.length === 1);
+    expect(updates[0]).toMatchObject({ orderId: 'o-3', status: 'open' });
+  });
+
+  it('rejects when the private stream auth is not answered in time', async () => {
+    mock.answerAuth = false;
+    (broker as any).AUTH_TIMEOUT = 100;
+
+    await expect(broker.subscribeOrders('BTCUSDT', () => {})).rejects.toThrow('WebSocket auth timed out');
+    const socket = mock.privateSockets[mock.privateSockets.length - 1];
+    await waitFor(() => socket.readyState === WebSocket.CLOSED);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const repository = vi.hoisted(() => ({
+  save: vi.fn(),
+  updateStatus: vi.fn(),
+  updateHeartbeat: vi.fn(),
+  markDisconnected: vi.fn(),
+  findById: vi.fn(),
+  getConfigVersion: vi.fn(),
+  listConfigVersions: vi.fn(),
+  activateConfigVersion: vi.fn(),
+}));
+
+const executors = vi.hoisted(() => [] as any[]);
+
+vi.mock('../src/services/user-strategy-repository', () => ({
+  userStrategyRepository: repository,
+}));
+
+vi.mock('../src/services/user-credentials-service', () => ({
+  DEFAULT_ACCOUNT: 'main',
+  isValidAccountName: () => true,
+}));
+
+vi.mock('../src/user-broker-registry', () => ({
+  userBrokerRegistry: { getTradingClient: vi.fn() },
+}));
+
+vi.mock('../src/strategies/razor-executor', () => ({
+  RazorExecutor: class {
+    initialize = vi.fn(async () => {});
+    onTicker = vi.fn(async () => {});
+    cleanup = vi.fn();
+    getAnalysisState = vi.fn();
+    constructor(_client: any, _id: string, _name: string, public config: any, _userId: string, public configVersion?: { strategyId: string; version: number }) {
+      executors.push(this);
+    }
+  },
+}));
+
+import { diffConfigs } from '../src/services/config-diff';
+import { TradeHistoryService } from '../src/services/trade-history';
+import { UserStrategyService } from '../src/user-strategy-service';
+import { userBrokerRegistry } from '../src/user-broker-registry';
+
+describe('diffConfigs', () => {
+  it('lists added, removed and changed parameters by path', () => {
+    const changes = diffConfigs(
+      { rsiPeriod: 4, bbStdDev: 2, filters: { spread: 5, atr: [5, 80] }, legacy: true },
+      { rsiPeriod: 4, bbStdDev: 2.5, filters: { spread: 5, atr: [5, 60] }, maxDailyTrades: 40 }
+    );
+
+    expect(changes).toEqual([
+      { path: 'bbStdDev', type: 'changed', from: 2, to: 2.5 },
+      { path: 'filters.atr', type: 'changed', from: [5, 80], to: [5, 60] },
+      { path: 'legacy', type: 'removed', from: true },
+      { path: 'maxDailyTrades', type: 'added', to: 40 },
+    ]);
+  });
+
+  it('is empty for equal configs', () => {
+    expect(diffConfigs({ a: 1, b: { c: [1] } }, { b: { c: [1] }, a: 1 })).toEqual([]);
+  });
+});
+
+describe('TradeHistoryService', () => {
+  it('stores the config version a trade opened under', async () => {
+    const history = new TradeHistoryService('kv');
+    await history.initialize();
+    const trade = { strategyName: 'Thor', instrument: 'BTC-PERPETUAL', side: 'buy' as const, entryOrderId: 'o', entryPrice: 1, amount: 1, stopLoss: 0, takeProfit: 0 };
+    const v1 = await history.recordTrade({ ...trade, configVersion: { strategyId: 'strategy-1', version: 1 } });
+    await history.recordTrade({ ...trade, configVersion: { strategyId: 'strategy-1', version: 2 } });
+    // Version numbers restart per strategy
+    await history.recordTrade({ ...trade, configVersion: { strategyId: 'strategy-2', version: 2 } });
+
+    expect((await history.getTrade(v1))?.configVersion).toEqual({ strategyId: 'strategy-1', version: 1 });
+    expect((await history.queryTrades({ configVersion: { strategyId: 'strategy-1', version: 2 } })).map(t => t.configVersion))
+      .toEqual([{ strategyId: 'strategy-1', version: 2 }]);
+  });
+});
+
+describe('UserStrategyService config rollback', () => {
+  const userId = 'user-1';
+  const stored = {
+    id: 'strategy-1',
+    userId,
+    strategyName: 'razor',
+    instrument: 'BTC-PERPETUAL',
+    broker: 'deribit',
+    environment: 'testnet',
+    account: 'main',
+    config: { instrument: 'BTC-PERPETUAL', riskPercent: 2 },
+    configVersion: 2,
+  };
+  const tickers = new Map<string, (ticker: any) => Promise<void>>();
+  const client = {
+    isConnected: () => true,
+    subscribeTicker: vi.fn(async (instrument: string, callback: any) => { tickers.set(instrument, callback); }),
+  };
+
+  beforeEach(() => {
+    executors.length = 0;
+    tickers.clear();
+    Object.values(repository).forEach(fn => fn.mockReset());
+    repository.save.mockResolvedValue(stored);
+    repository.findById.mockResolvedValue(stored);
+    repository.getConfigVersion.mockImplementation(async (_id: string, version: number) =>
+      version === 1 ? { version: 1, config: { instrument: 'BTC-PERPETUAL', riskPercent: 1 } } : null);
+    vi.mocked(userBrokerRegistry.getTradingClient).mockReturnValue(client as any);
+  });
+
+  it('restarts a running strategy on the earlier config and drops ticks for the old executor', async () => {
+    const service = new UserStrategyService();
+    await service.startStrategy({ userId, strategyName: 'razor', instrument: 'BTC-PERPETUAL', config: stored.config, environment: 'testnet' });
+    const [current] = executors;
+    expect(current.configVersion).toEqual({ strategyId: stored.id, version: 2 });
+    const oldTicker = tickers.get('BTC-PERPETUAL')!;
+
+    const result = await service.rollbackConfig(userId, stored.id, 1);
+
+    expect(result).toMatchObject({ success: true, configVersion: 1 });
+    expect(repository.activateConfigVersion).toHaveBeenCalledWith(stored.id, 1);
+    expect(current.cleanup).toHaveBeenCalled();
+    const [, restarted] = executors;
+    expect(restarted).toMatchObject({ configVersion: { strategyId: stored.id, version: 1 }, config: { riskPercent: 1 } });
+    expect(restarted.initialize).toHaveBeenCalled();
+
+    await oldTicker({ last_price: 100 });
+    expect(current.onTicker).not.toHaveBeenCalled();
+    await tickers.get('BTC-PERPETUAL')!({ last_price: 100 });
+    expect(restarted.onTicker).toHaveBeenCalledWith(100);
+
+    await service.stopStrategy({ userId, strategyName: 'razor', instrument: 'BTC-PERPETUAL', environment: 'testnet' });
+  });
+
+  it('rejects unknown and already active versions', async () => {
+    const service = new UserStrategyService();
+
+    expect(await service.rollbackConfig(userId, stored.id, 2)).toMatchObject({ success: false, message: 'Config version 2 is already active' });
+    expect(await service.rollbackConfig(userId, stored.id, 7)).toMatchObject({ success: false, message: 'Config version 7 not found' });
+    expect(repository.activateConfigVersion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DeribitBroker, OrderValidationError } from '../src/brokers/DeribitBroker';
+
+const INSTRUMENT = 'BTC_USDC-PERPETUAL';
+
+describe('DeribitBroker positions and order amend', () => {
+  let broker: DeribitBroker;
+  let client: any;
+
+  beforeEach(() => {
+    broker = new DeribitBroker();
+    client = broker['client'];
+    vi.spyOn(client, 'getPositions').mockResolvedValue([
+      {
+        instrument_name: INSTRUMENT,
+        size: -0.3,
+        average_price: 50000,
+        mark_price: 49500,
+        floating_profit_loss: 150,
+        total_profit_loss: 160,
+        realized_profit_loss: 10,
+        leverage: 25,
+      },
+      { instrument_name: 'ETH_USDC-PERPETUAL', size: 0, average_price: 0, mark_price: 3000 },
+    ]);
+  });
+
+  it('queries the settlement currency of the instrument', async () => {
+    const positions = await broker.getPositions(INSTRUMENT);
+
+    expect(client.getPositions).toHaveBeenCalledWith('USDC');
+    expect(positions).toEqual([{
+      instrument: INSTRUMENT,
+      side: 'short',
+      size: 0.3,
+      entryPrice: 50000,
+      markPrice: 49500,
+      unrealizedPnl: 150,
+      realizedPnl: 10,
+      leverage: 25,
+    }]);
+
+    client.getPositions.mockResolvedValue([]);
+    await broker.getPositions('BTC-PERPETUAL');
+    expect(client.getPositions).toHaveBeenLastCalledWith('BTC');
+    await broker.getPositions();
+    expect(client.getPositions).toHaveBeenLastCalledWith('any');
+  });
+
+  it('trades through the client it is given', async () => {
+    const executorClient = {
+      getPositions: vi.fn().mockResolvedValue([{ instrument_name: INSTRUMENT, size: 0.2, average_price: 50000 }]),
+      cancelAllByInstrument: vi.fn().mockResolvedValue(2),
+    };
+    const wrapped = new DeribitBroker(executorClient as any);
+
+    await expect(wrapped.getPositions(INSTRUMENT)).resolves.toEqual([
+      expect.objectContaining({ instrument: INSTRUMENT, side: 'long', size: 0.2, entryPrice: 50000 }),
+    ]);
+    await wrapped.cancelAllOrders(INSTRUMENT);
+    expect(executorClient.cancelAllByInstrument).toHaveBeenCalledWith(INSTRUMENT);
+    expect(client.getPositions).not.toHaveBeenCalled();
+  });
+
+  it('closes the full position with close_position', async () => {
+    const close = vi.spyOn(client, 'closePosition').mockResolvedValue({
+      order: { order_id: 'c-1', instrument_name: INSTRUMENT, direction: 'buy', order_type: 'market', amount: 0.3, order_state: 'filled', filled_amount: 0.3 },
+    });
+
+    const order = await broker.closePosition(INSTRUMENT);
+
+    expect(close).toHaveBeenCalledWith(INSTRUMENT, 'market', undefined);
+    expect(order).toMatchObject({ orderId: 'c-1', side: 'buy', status: 'filled', filled: 0.3 });
+  });
+
+  it('closes part of the position with a reduce-only order', async () => {
+    const place = vi.spyOn(client, 'placeOrder').mockResolvedValue({
+      order: { order_id: 'c-2', instrument_name: INSTRUMENT, direction: 'buy', order_type: 'limit', amount: 0.1, price: 49000, order_state: 'open' },
+    });
+
+    const order = await broker.closePosition(INSTRUMENT, { type: 'limit', price: 49000, amount: 0.1 });
+
+    expect(place).toHaveBeenCalledWith(expect.objectContaining({
+      instrument_name: INSTRUMENT, direction: 'buy', type: 'limit', amount: 0.1, price: 49000, reduce_only: true,
+    }));
+    expect(order).toMatchObject({ orderId: 'c-2', status: 'open', price: 49000 });
+  });
+
+  it('rejects closing without a position or a limit price', async () => {
+    await expect(broker.closePosition('BTC-PERPETUAL')).rejects.toBeInstanceOf(OrderValidationError);
+    await expect(broker.closePosition(INSTRUMENT, { type: 'limit' })).rejects.toThrow('requires a price');
+  });
+
+  it('edits limit prices and stop trigger prices', async () => {
+    const getState = vi.spyOn(client, 'getOrderStatus');
+    const edit = vi.spyOn(client, 'editOrder').mockImplementation(async (id: any, amount: any, price: any, trigger: any) => ({
+      order: { order_id: id, instrument_name: INSTRUMENT, direction: 'sell', order_type: 'stop_market', amount, price, trigger_price: trigger, order_state: 'untriggered' },
+    }));
+
+    getState.mockResolvedValueOnce({ order_id: 'o-1', order_type: 'limit', amount: 0.2, price: 51000 });
+    await broker.editOrder('o-1', INSTRUMENT, { price: 50800 });
+    expect(edit).toHaveBeenLastCalledWith('o-1', 0.2, 50800, undefined);
+
+    getState.mockResolvedValueOnce({ order_id: 'sl-1', order_type: 'stop_market', amount: 0.2, trigger_price: 48000 });
+    const sl = await broker.editOrder('sl-1', INSTRUMENT, { price: 49900, amount: 0.1 });
+    expect(edit).toHaveBeenLastCalledWith('sl-1', 0.1, undefined, 49900);
+    expect(sl).toMatchObject({ orderId: 'sl-1', type: 'stop_market', price: 49900, amount: 0.1, status: 'open' });
+
+    // stop_limit: the limit moves with the trigger unless given
+    getState.mockResolvedValue({ order_id: 'sl-2', order_type: 'stop_limit', amount: 0.2, price: 47900, trigger_price: 48000 });
+    await broker.editOrder('sl-2', INSTRUMENT, { price: 48500 });
+    expect(edit).toHaveBeenLastCalledWith('sl-2', 0.2, 48400, 48500);
+    await broker.editOrder('sl-2', INSTRUMENT, { price: 48500, limitPrice: 48450 });
+    expect(edit).toHaveBeenLastCalledWith('sl-2', 0.2, 48450, 48500);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BackendDeribitClient } from '../src/deribit-client';
+import { resolvePolicy, survivesDisconnect } from '../src/deribit-cancel-on-disconnect';
+
+const entry = { type: 'market', reduce_only: false };
+const stopLoss = { type: 'stop_market', reduce_only: true };
+const takeProfit = { type: 'limit', reduce_only: true };
+
+describe('cancel-on-disconnect policies', () => {
+  it('decides per order which ones survive a disconnect', () => {
+    expect([entry, stopLoss, takeProfit].map(o => survivesDisconnect(o, 'all'))).toEqual([false, false, false]);
+    expect([entry, stopLoss, takeProfit].map(o => survivesDisconnect(o, 'entries'))).toEqual([false, true, true]);
+    expect([entry, stopLoss, takeProfit].map(o => survivesDisconnect(o, 'keep_stops'))).toEqual([false, true, false]);
+    expect([entry, stopLoss, takeProfit].map(o => survivesDisconnect(o, 'off'))).toEqual([true, true, true]);
+  });
+
+  it('resolves the policy from the longest matching label prefix', () => {
+    const policies = new Map([['razor_', 'entries' as const], ['razor_long_', 'all' as const]]);
+
+    expect(resolvePolicy('razor_short_1_sl', policies, 'keep_stops')).toBe('entries');
+    expect(resolvePolicy('razor_long_1_sl', policies, 'keep_stops')).toBe('all');
+    expect(resolvePolicy('thor_long_1', policies, 'keep_stops')).toBe('keep_stops');
+    expect(resolvePolicy(undefined, policies, 'keep_stops')).toBe('keep_stops');
+  });
+});
+
+describe('BackendDeribitClient dead-man switch', () => {
+  let client: BackendDeribitClient;
+  let sendRequest: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    client = new BackendDeribitClient('live', {}, { enabled: true });
+    client['authenticated'] = true;
+    client['credentials'] = { apiKey: 'key', apiSecret: 'secret' };
+    sendRequest = vi.spyOn(client, 'sendRequest').mockResolvedValue({ order: { order_id: 'main' } });
+    vi.spyOn(BackendDeribitClient.prototype, 'connect').mockResolvedValue();
+    vi.spyOn(BackendDeribitClient.prototype, 'isConnected').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('arms cancel-on-disconnect and opens the protective connection', async () => {
+    await client['enableCancelOnDisconnect']();
+
+    expect(sendRequest).toHaveBeenCalledWith('private/enable_cancel_on_disconnect', { scope: 'connection' }, 'high');
+    expect(client.getDeadManSwitchStatus()).toMatchObject({
+      enabled: true,
+      active: true,
+      heartbeatIntervalSec: 10,
+      defaultPolicy: 'keep_stops',
+      protectiveConnection: 'connected',
+    });
+  });
+
+  it('routes orders that should survive over the protective connection', async () => {
+    await client['enableCancelOnDisconnect']();
+    const protectiveOrder = vi.fn().mockResolvedValue({ order: { order_id: 'protected' } });
+    client['protectiveClient']!.placeOrder = protectiveOrder;
+    client.setCancelOnDisconnectPolicy('razor_', 'entries');
+
+    await client.placeOrder({ instrument_name: 'BTC-PERPETUAL', amount: 10, type: 'market', direction: 'buy', label: 'razor_long_1' });
+    await client.placeOrder({ instrument_name: 'BTC-PERPETUAL', amount: 10, type: 'limit', direction: 'sell', price: 51000, reduce_only: true, label: 'razor_long_1_tp' });
+    // Default policy keeps only stops
+    await client.placeOrder({ instrument_name: 'BTC-PERPETUAL', amount: 10, type: 'limit', direction: 'sell', price: 51000, reduce_only: true, label: 'manual_tp' });
+
+    expect(protectiveOrder).toHaveBeenCalledTimes(1);
+    expect(protectiveOrder).toHaveBeenCalledWith(expect.objectContaining({ label: 'razor_long_1_tp' }));
+    expect(sendRequest).toHaveBeenCalledWith('private/buy', expect.objectContaining({ label: 'razor_long_1' }));
+    expect(sendRequest).toHaveBeenCalledWith('private/sell', expect.objectContaining({ label: 'manual_tp' }));
+    expect(client.getDeadManSwitchStatus().policies).toEqual({ razor_: 'entries' });
+  });
+
+  it('places entries with attached brackets over the protective connection when stops are kept', async () => {
+    await client['enableCancelOnDisconnect']();
+    const protectiveOrder = vi.fn().mockResolvedValue({ order: { order_id: 'protected' } });
+    client['protectiveClient']!.placeOrder = protectiveOrder;
+    client.setCancelOnDisconnectPolicy('scalp_', 'all');
+    const otoco_config = [{ direction: 'sell' as const, amount: 10, type: 'stop_market' as const, trigger_price: 49000, reduce_only: true }];
+
+    await client.placeBuyOrder('BTC-PERPETUAL', 10, undefined, 'market', 'razor_long_1', false, { otoco_config });
+    await client.placeBuyOrder('BTC-PERPETUAL', 10, undefined, 'market', 'scalp_long_1', false, { otoco_config });
+
+    expect(protectiveOrder).toHaveBeenCalledTimes(1);
+    expect(protectiveOrder).toHaveBeenCalledWith(expect.objectContaining({ label: 'razor_long_1', otoco_config }));
+    expect(sendRequest).toHaveBeenCalledWith('private/buy', expect.objectContaining({ label: 'scalp_long_1' }));
+    expect(client.getDeadManSwitchStatus().attachedBrackets).toEqual({ '*': 'kept', scalp_: 'cancelled' });
+
+    vi.mocked(BackendDeribitClient.prototype.isConnected).mockReturnValue(false);
+    expect(client.getDeadManSwitchStatus().attachedBrackets).toEqual({ '*': 'cancelled', scalp_: 'cancelled' });
+  });
+
+  it('places everything on the main connection when the switch is off', async () => {
+    client = new BackendDeribitClient('live', {}, { enabled: false });
+    client['authenticated'] = true;
+    sendRequest = vi.spyOn(client, 'sendRequest').mockResolvedValue({});
+
+    await client['enableCancelOnDisconnect']();
+    await client.placeOrder({ instrument_name: 'BTC-PERPETUAL', amount: 10, type: 'stop_market', direction: 'sell', price: 49000, reduce_only: true });
+
+    expect(sendRequest).toHaveBeenCalledTimes(1);
+    expect(sendRequest).toHaveBeenCalledWith('private/sell', expect.objectContaining({ trigger_price: 49000 }));
+    expect(client.getDeadManSwitchStatus()).toMatchObject({
+      enabled: false, active: false, protectiveConnection: 'disabled', attachedBrackets: { '*': 'kept' },
+    });
+  });
+});
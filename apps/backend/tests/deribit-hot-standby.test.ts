@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BackendDeribitClient } from '../src/deribit-client';
+import { NotificationDeduplicator, notificationKey } from '../src/deribit-hot-standby';
+
+const OPEN = 1;
+
+function fakeSocket() {
+  return { readyState: OPEN, send: vi.fn(), close: vi.fn(), terminate: vi.fn() };
+}
+
+function notification(channel: string, data: any): string {
+  return JSON.stringify({ jsonrpc: '2.0', method: 'subscription', params: { channel, data } });
+}
+
+describe('notification deduplication', () => {
+  it('keys notifications by sequence or timestamp', () => {
+    expect(notificationKey({ type: 'change', change_id: 42, bids: [] })).toBe('c42');
+    expect(notificationKey([{ trade_id: '1' }, { trade_id: '2' }])).toBe('t1|t2');
+    expect(notificationKey({ order_id: 'o1', last_update_timestamp: 5, order_state: 'filled' })).toBe('oo1:5:filled');
+    expect(notificationKey({ instrument_name: 'BTC-PERPETUAL', timestamp: 1000, last_price: 1 })).toBe('ts1000');
+  });
+
+  it('drops repeats per channel within the window', () => {
+    const dedup = new NotificationDeduplicator(2);
+
+    expect(dedup.isDuplicate('ticker.BTC-PERPETUAL.raw', { timestamp: 1 })).toBe(false);
+    expect(dedup.isDuplicate('ticker.BTC-PERPETUAL.raw', { timestamp: 1 })).toBe(true);
+    expect(dedup.isDuplicate('ticker.ETH-PERPETUAL.raw', { timestamp: 1 })).toBe(false);
+
+    dedup.isDuplicate('ticker.BTC-PERPETUAL.raw', { timestamp: 2 });
+    dedup.isDuplicate('ticker.BTC-PERPETUAL.raw', { timestamp: 3 });
+    expect(dedup.isDuplicate('ticker.BTC-PERPETUAL.raw', { timestamp: 1 })).toBe(false);
+
+    dedup.forget(['ticker.ETH-PERPETUAL.raw']);
+    expect(dedup.isDuplicate('ticker.ETH-PERPETUAL.raw', { timestamp: 1 })).toBe(false);
+    expect(dedup.getDroppedCount()).toBe(1);
+  });
+});
+
+describe('BackendDeribitClient hot standby', () => {
+  let client: BackendDeribitClient;
+  let primary: ReturnType<typeof fakeSocket>;
+  let standby: ReturnType<typeof fakeSocket>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new BackendDeribitClient('live', {}, { enabled: false }, { enabled: true, stallTimeoutMs: 1000 });
+    primary = fakeSocket();
+    standby = fakeSocket();
+    client['ws'] = primary as any;
+    client['standbyWs'] = standby as any;
+    client['standbyReady'] = true;
+    client['authenticated'] = true;
+    client['credentials'] = { apiKey: 'key', apiSecret: 'secret' };
+    vi.spyOn(client as any, 'connectStandby').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    client['stopHotStandby']();
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('delivers each notification once, from whichever connection is first', () => {
+    const onTicker = vi.fn();
+    client['subscriptions'].set('ticker.BTC-PERPETUAL.raw', onTicker);
+
+    client['handleMessage'](notification('ticker.BTC-PERPETUAL.raw', { timestamp: 1, last_price: 50000 }), primary as any);
+    client['handleMessage'](notification('ticker.BTC-PERPETUAL.raw', { timestamp: 1, last_price: 50000 }), standby as any);
+    client['handleMessage'](notification('ticker.BTC-PERPETUAL.raw', { timestamp: 2, last_price: 50001 }), standby as any);
+    client['handleMessage'](notification('ticker.BTC-PERPETUAL.raw', { timestamp: 2, last_price: 50001 }), primary as any);
+
+    expect(onTicker.mock.calls.map(([data]) => data.last_price)).toEqual([50000, 50001]);
+    expect(client.getHotStandbyStatus().duplicatesDropped).toBe(2);
+  });
+
+  it('routes requests over the standby while the primary lags behind it', async () => {
+    client['subscriptions'].set('ticker.BTC-PERPETUAL.raw', vi.fn());
+    client['handleMessage'](notification('ticker.BTC-PERPETUAL.raw', { timestamp: 1 }), primary as any);
+    vi.advanceTimersByTime(1500);
+    client['handleMessage'](notification('ticker.BTC-PERPETUAL.raw', { timestamp: 2 }), standby as any);
+
+    const request = client['transmit']('public/get_time', {});
+    const sent = JSON.parse(standby.send.mock.calls[0][0]);
+    client['handleMessage'](JSON.stringify({ jsonrpc: '2.0', id: sent.id, result: 123 }), standby as any);
+
+    await expect(request).resolves.toBe(123);
+    expect(primary.send).not.toHaveBeenCalled();
+    expect(client.getHotStandbyStatus()).toMatchObject({ standby: 'ready', failedOver: true });
+  });
+
+  it('mirrors subscription changes to the standby', () => {
+    client['transmit']('public/subscribe', { channels: ['book.BTC-PERPETUAL.100ms'] }).catch(() => {});
+
+    expect(JSON.parse(primary.send.mock.calls[0][0]).method).toBe('public/subscribe');
+    expect(JSON.parse(standby.send.mock.calls[0][0])).toMatchObject({
+      method: 'public/subscribe',
+      params: { channels: ['book.BTC-PERPETUAL.100ms'] },
+    });
+  });
+
+  it('promotes the standby when the primary closes', async () => {
+    const onTicker = vi.fn();
+    client['subscriptions'].set('ticker.BTC-PERPETUAL.raw', onTicker);
+    const lost = client['transmit']('public/get_time', {});
+
+    client['handlePrimaryClose'](primary as any);
+
+    await expect(lost).rejects.toThrow('Connection closed');
+    expect(client['ws']).toBe(standby);
+    expect(client.isConnected()).toBe(true);
+    expect(client.getHotStandbyStatus()).toMatchObject({ failovers: 1, standby: 'down' });
+
+    client['handleMessage'](notification('ticker.BTC-PERPETUAL.raw', { timestamp: 3 }), standby as any);
+    expect(onTicker).toHaveBeenCalledTimes(1);
+  });
+});
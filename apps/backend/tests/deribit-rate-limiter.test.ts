@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DeribitRateLimiter, RateLimitError, classifyRequest } from '../src/deribit-rate-limiter';
+import { MetricsCollector } from '../src/monitoring/metrics';
+
+// 2-request bursts, one request back per 100ms
+const bucket = { maxCredits: 1000, refillPerSecond: 5000, costPerRequest: 500 };
+
+describe('DeribitRateLimiter', () => {
+  let limiter: DeribitRateLimiter;
+  let sent: string[];
+
+  const request = (method: string, params: Record<string, any> = {}, priority?: any) =>
+    limiter.schedule(method, params, async () => {
+      sent.push(method);
+      return method;
+    }, priority);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = new DeribitRateLimiter({ matching: bucket, nonMatching: bucket });
+    sent = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('classifies requests by credit pool and urgency', () => {
+    expect(classifyRequest('private/cancel', { order_id: '1' })).toEqual({ pool: 'matching', priority: 'critical' });
+    expect(classifyRequest('private/close_position')).toEqual({ pool: 'matching', priority: 'critical' });
+    expect(classifyRequest('private/sell', { reduce_only: true })).toEqual({ pool: 'matching', priority: 'critical' });
+    expect(classifyRequest('private/buy', { trigger_price: 49000 })).toEqual({ pool: 'matching', priority: 'critical' });
+    expect(classifyRequest('private/buy', { type: 'limit' })).toEqual({ pool: 'matching', priority: 'high' });
+    expect(classifyRequest('public/auth')).toEqual({ pool: 'non_matching', priority: 'high' });
+    expect(classifyRequest('private/get_positions')).toEqual({ pool: 'non_matching', priority: 'normal' });
+  });
+
+  it('sends immediately while credits last, then waits for refill', async () => {
+    await Promise.all([request('private/get_positions'), request('public/ticker')]);
+    const third = request('private/get_open_orders_by_instrument');
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(sent).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(60);
+    await expect(third).resolves.toBe('private/get_open_orders_by_instrument');
+    expect(limiter.getMetrics()).toMatchObject({ dispatchedTotal: 3, throttledTotal: 1 });
+  });
+
+  it('lets cancels and protective orders jump queued queries', async () => {
+    request('private/buy', { type: 'limit' });
+    request('private/buy', { type: 'limit' });
+    const queued = [
+      request('private/get_order_state', {}, 'low'),
+      request('private/buy', { type: 'limit' }),
+      request('private/sell', { type: 'stop_market', trigger_price: 48000, reduce_only: true }),
+      request('private/cancel', { order_id: '1' }),
+    ];
+    expect(limiter.getMetrics().queueDepth).toEqual({ critical: 2, high: 1, normal: 0, low: 0 });
+
+    await vi.advanceTimersByTimeAsync(300);
+    await Promise.all(queued);
+
+    // get_order_state uses the other pool and isn't held back by the matching engine backlog
+    expect(sent).toEqual([
+      'private/buy', 'private/buy', 'private/get_order_state', 'private/sell', 'private/cancel', 'private/buy',
+    ]);
+  });
+
+  it('backs off and retries when the exchange reports too_many_requests', async () => {
+    let attempts = 0;
+    const result = limiter.schedule('private/cancel', {}, async () => {
+      if (++attempts === 1) throw new Error('too_many_requests');
+      return 'ok';
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.getMetrics().credits.matching).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(result).resolves.toBe('ok');
+    expect(attempts).toBe(2);
+    expect(limiter.getMetrics().exchangeThrottledTotal).toBe(1);
+  });
+
+  it('rejects when the queue is full or cleared', async () => {
+    limiter = new DeribitRateLimiter({ matching: bucket, nonMatching: bucket, maxQueueDepth: 1 });
+    request('public/ticker');
+    request('public/ticker');
+    const waiting = request('public/ticker');
+
+    await expect(request('public/ticker')).rejects.toBeInstanceOf(RateLimitError);
+    limiter.clear(new Error('Connection closed'));
+    await expect(waiting).rejects.toThrow('Connection closed');
+    expect(limiter.getMetrics().droppedTotal).toBe(2);
+  });
+
+  it('reports queue depth and throttling in Prometheus metrics', async () => {
+    const metrics = MetricsCollector.getInstance();
+    metrics.addRequestScheduler(limiter);
+    request('private/cancel');
+    request('private/cancel');
+    request('private/cancel').catch(() => {});
+
+    const output = metrics.toPrometheusFormat();
+    metrics.removeRequestScheduler(limiter);
+    limiter.clear(new Error('done'));
+
+    expect(output).toContain('tradebaas_deribit_request_queue_depth{priority="critical"} 1');
+    expect(output).toContain('tradebaas_deribit_credits_available{pool="matching"} 0');
+    expect(output).toContain('tradebaas_deribit_requests_dispatched_total 2');
+  });
+});
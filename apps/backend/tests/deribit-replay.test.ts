@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { BackendDeribitClient } from '../src/deribit-client';
+import { SessionRecorder, readSessionFile } from '../src/replay/session-recorder';
+import { ReplayDeribitClient, ReplayMismatchError } from '../src/replay/replay-deribit-client';
+
+const INSTRUMENT = 'BTC_USDC-PERPETUAL';
+const ticker = (price: number) => ({
+  jsonrpc: '2.0',
+  method: 'subscription',
+  params: { channel: `ticker.${INSTRUMENT}.raw`, data: { last_price: price } },
+});
+
+/**
+ * Record a session the way BackendDeribitClient would: requests out, responses/notifications in
+ */
+async function recordSession(filePath: string): Promise<void> {
+  const recorder = new SessionRecorder(filePath, 'testnet');
+  recorder.recordOutgoing({ jsonrpc: '2.0', id: 1, method: 'public/auth', params: { client_id: 'key', signature: 'sig', nonce: 'n' } });
+  recorder.recordIncoming({ jsonrpc: '2.0', id: 1, result: { access_token: 'token', refresh_token: 'refresh' } });
+  recorder.recordOutgoing({ jsonrpc: '2.0', id: 2, method: 'public/get_instrument', params: { instrument_name: INSTRUMENT } });
+  recorder.recordIncoming({ jsonrpc: '2.0', id: 2, result: { instrument_name: INSTRUMENT } });
+  recorder.recordOutgoing({ jsonrpc: '2.0', id: 3, method: 'public/subscribe', params: { channels: [`ticker.${INSTRUMENT}.raw`] } });
+  recorder.recordIncoming({ jsonrpc: '2.0', id: 3, result: [`ticker.${INSTRUMENT}.raw`] });
+  recorder.recordIncoming(ticker(50000));
+  recorder.recordIncoming(ticker(50100));
+  recorder.recordOutgoing({ jsonrpc: '2.0', id: 4, method: 'private/get_open_orders_by_instrument', params: { instrument_name: INSTRUMENT } });
+  recorder.recordIncoming(ticker(50200));
+  recorder.recordIncoming({ jsonrpc: '2.0', id: 4, result: [{ order_id: 'sl-1', reduce_only: true }] });
+  recorder.recordOutgoing({ jsonrpc: '2.0', id: 5, method: 'private/cancel', params: { order_id: 'sl-1' } });
+  recorder.recordIncoming({ jsonrpc: '2.0', id: 5, error: { code: 11044, message: 'not_open_order' } });
+  recorder.recordIncoming(ticker(50300));
+  await recorder.close();
+}
+
+describe('Deribit session record/replay', () => {
+  let dir: string;
+  let sessionFile: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deribit-replay-'));
+    sessionFile = path.join(dir, 'session.jsonl.gz');
+    await recordSession(sessionFile);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes a gzipped session with credentials redacted', () => {
+    const raw = fs.readFileSync(sessionFile);
+    expect(raw[0]).toBe(0x1f);
+    expect(zlib.gunzipSync(raw).toString()).not.toMatch(/"token"|"sig"|"key"/);
+
+    const { header, events } = readSessionFile(sessionFile);
+    expect(header).toMatchObject({ type: 'session', version: 1, environment: 'testnet' });
+    expect(events).toHaveLength(14);
+    expect(events[0].msg.params.signature).toBe('[redacted]');
+    expect(events[1].msg.result.access_token).toBe('[redacted]');
+  });
+
+  it('records traffic passing through BackendDeribitClient', async () => {
+    const client = new BackendDeribitClient('testnet');
+    const file = path.join(dir, 'live.jsonl.gz');
+    await client.startRecording(file);
+
+    const sent: string[] = [];
+    (client as any).ws = { readyState: 1, send: (data: string) => sent.push(data) };
+    const pending = client.sendRequest('public/ticker', { instrument_name: INSTRUMENT });
+    (client as any).handleMessage(JSON.stringify({ jsonrpc: '2.0', id: 1, result: { last_price: 1 } }));
+    await expect(pending).resolves.toEqual({ last_price: 1 });
+
+    (client as any).ws = null;
+    await client.stopRecording();
+
+    const { events } = readSessionFile(file);
+    expect(events.map(e => e.dir)).toEqual(['out', 'in']);
+    expect(events[0].msg).toMatchObject({ method: 'public/ticker', params: { instrument_name: INSTRUMENT } });
+  });
+
+  it('creates missing directories for a recording', async () => {
+    const client = new BackendDeribitClient('testnet');
+    const file = path.join(dir, 'sessions', 'testnet', 'live.jsonl.gz');
+    await client.startRecording(file);
+    await client.stopRecording();
+
+    expect(readSessionFile(file).events).toEqual([]);
+  });
+
+  it('stops recording on a write error instead of crashing', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    // A directory cannot be opened as the session file
+    const recorder = new SessionRecorder(dir, 'testnet');
+    await vi.waitFor(() => expect(recorder.isRecording()).toBe(false));
+
+    recorder.recordIncoming(ticker(50000));
+    expect(recorder.getEventCount()).toBe(0);
+    await expect(recorder.close()).resolves.toBeUndefined();
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('stopped: EISDIR'));
+    errors.mockRestore();
+  });
+
+  it('replays responses and interleaves notifications in recorded order', async () => {
+    const client = ReplayDeribitClient.fromFile(sessionFile);
+    await client.connect({ apiKey: '', apiSecret: '' });
+    expect(client.isConnected()).toBe(true);
+
+    const prices: number[] = [];
+    await client.subscribeTicker(INSTRUMENT, (data) => prices.push(data.last_price));
+    expect(prices).toEqual([]);
+
+    // Notifications recorded before the response are delivered first
+    const orders = await client.getOpenOrders(INSTRUMENT);
+    expect(orders).toEqual([{ order_id: 'sl-1', reduce_only: true }]);
+    expect(prices).toEqual([50000, 50100, 50200]);
+
+    // Recorded errors are replayed as rejections
+    await expect(client.cancelOrder('sl-1')).rejects.toThrow('not_open_order');
+
+    expect(await client.playNotifications()).toBe(1);
+    expect(prices).toEqual([50000, 50100, 50200, 50300]);
+    expect(client.isFinished()).toBe(true);
+    expect(client.getUnconsumedRequests()).toEqual([]);
+  });
+
+  it('lets async notification handlers consume requests during playback', async () => {
+    const client = ReplayDeribitClient.fromFile(sessionFile);
+    await client.connect({ apiKey: '', apiSecret: '' });
+
+    const seen: Array<{ price: number; orders: number }> = [];
+    await client.subscribeTicker(INSTRUMENT, async (data) => {
+      if (data.last_price === 50100) {
+        const orders = await client.getOpenOrders(INSTRUMENT);
+        seen.push({ price: data.last_price, orders: orders.length });
+      }
+    });
+
+    await client.playNotifications();
+    expect(seen).toEqual([{ price: 50100, orders: 1 }]);
+    expect(client.getUnconsumedRequests()).toEqual([
+      expect.objectContaining({ method: 'private/cancel', params: { order_id: 'sl-1' } }),
+    ]);
+  });
+
+  it('rejects requests missing from the recording in strict mode', async () => {
+    const strict = ReplayDeribitClient.fromFile(sessionFile);
+    await strict.connect({ apiKey: '', apiSecret: '' });
+    await expect(strict.getPositions('USDC')).rejects.toBeInstanceOf(ReplayMismatchError);
+
+    const lenient = ReplayDeribitClient.fromFile(sessionFile, { strict: false });
+    await lenient.connect({ apiKey: '', apiSecret: '' });
+    await expect(lenient.getPositions('USDC')).resolves.toEqual([]);
+    expect(lenient.getUnmatchedRequests()).toEqual([
+      { method: 'private/get_positions', params: { currency: 'USDC', kind: 'future' } },
+    ]);
+  });
+});
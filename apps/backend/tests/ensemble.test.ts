@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { EnsembleStrategy, createRegimeEnsemble } from '../src/strategies/EnsembleStrategy';
+import type { EnsembleMember, EnsembleContribution } from '../src/strategies/EnsembleStrategy';
+import { BaseStrategy, StrategyMetadata, MarketData, Candle, AnalysisResult, TradeSignal } from '../src/strategies/IStrategy';
+import { strategyRegistry } from '../src/strategies/StrategyRegistry';
+import { parameterDefaults } from '../src/strategies/ParameterSchema';
+
+/**
+ * Member with a fixed analysis; SL/TP 1% around the entry
+ */
+class FixedStrategy extends BaseStrategy {
+  readonly metadata: StrategyMetadata;
+
+  constructor(name: string, private signal: AnalysisResult['signal'], private confidence: number) {
+    super();
+    this.metadata = {
+      name,
+      version: '1.0.0',
+      description: 'fixed',
+      author: 'test',
+      tags: [],
+      defaultConfig: { timeframe: '1m', parameters: {} },
+      requiredParameters: [],
+      optionalParameters: [],
+    };
+  }
+
+  async analyze(): Promise<AnalysisResult> {
+    return { signal: this.signal, confidence: this.confidence, reason: `${this.metadata.name} says ${this.signal}`, indicators: { value: this.confidence } };
+  }
+
+  async generateSignal(analysis: AnalysisResult, marketData: MarketData): Promise<TradeSignal> {
+    const side = analysis.signal === 'LONG' ? 'buy' : 'sell';
+    return {
+      action: side,
+      instrument: marketData.instrument,
+      price: marketData.price,
+      stopLoss: this.calculateStopLoss(marketData.price, side, marketData),
+      takeProfit: this.calculateTakeProfit(marketData.price, side, marketData),
+      confidence: analysis.confidence,
+      reason: this.metadata.name,
+    };
+  }
+
+  calculateStopLoss(entryPrice: number, side: 'buy' | 'sell'): number {
+    return side === 'buy' ? entryPrice * 0.99 : entryPrice * 1.01;
+  }
+
+  calculateTakeProfit(entryPrice: number, side: 'buy' | 'sell'): number {
+    return side === 'buy' ? entryPrice * 1.01 : entryPrice * 0.99;
+  }
+}
+
+const market: MarketData = { instrument: 'BTC_USDC-PERPETUAL', price: 100, timestamp: 0, bid: 100, ask: 100 };
+
+function candles(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({ timestamp: i * 60_000, open: close, high: close, low: close, close, volume: 1 }));
+}
+
+const trending = candles(Array.from({ length: 40 }, (_, i) => 100 + i));
+const ranging = candles(Array.from({ length: 40 }, (_, i) => 100 + (i % 2)));
+
+async function ensemble(members: EnsembleMember[], parameters: Record<string, any> = {}) {
+  const strategy = new EnsembleStrategy({ name: 'Test', description: 'test', members });
+  await strategy.initialize({
+    instrument: market.instrument,
+    timeframe: '1m',
+    riskPercent: 1,
+    parameters: { ...parameterDefaults(strategy.metadata.parameterSchema!), ...parameters },
+  });
+  return strategy;
+}
+
+describe('EnsembleStrategy', () => {
+  it('takes the weighted majority and reports every member', async () => {
+    const s = await ensemble([
+      { strategy: new FixedStrategy('A', 'LONG', 80), weight: 2 },
+      { strategy: new FixedStrategy('B', 'LONG', 60) },
+      { strategy: new FixedStrategy('C', 'SHORT', 90) },
+    ]);
+    const analysis = await s.analyze(market, []);
+
+    expect(analysis.signal).toBe('LONG');
+    expect(analysis.confidence).toBeCloseTo((2 * 80 + 60) / 3);
+    expect(analysis.indicators).toMatchObject({ 'A.value': 80, longVote: 0.75, shortVote: 0.25 });
+    const members: EnsembleContribution[] = analysis.metadata!.members;
+    expect(members.map(m => [m.strategy, m.signal, m.weight])).toEqual([['A', 'LONG', 2], ['B', 'LONG', 1], ['C', 'SHORT', 1]]);
+  });
+
+  it('stays neutral below the vote threshold', async () => {
+    const s = await ensemble([
+      { strategy: new FixedStrategy('A', 'LONG', 80) },
+      { strategy: new FixedStrategy('B', 'NEUTRAL', 0) },
+      { strategy: new FixedStrategy('C', 'NEUTRAL', 0) },
+    ], { voteThreshold: 0.5 });
+
+    expect((await s.analyze(market, [])).signal).toBe('NEUTRAL');
+  });
+
+  it('averages signed confidence', async () => {
+    const s = await ensemble([
+      { strategy: new FixedStrategy('A', 'SHORT', 90) },
+      { strategy: new FixedStrategy('B', 'LONG', 30) },
+    ], { mode: 'confidence_average', minConfidence: 20 });
+    const analysis = await s.analyze(market, []);
+
+    expect(analysis.signal).toBe('SHORT');
+    expect(analysis.confidence).toBeCloseTo(30);
+  });
+
+  it('lets a veto member block the other side', async () => {
+    const s = await ensemble([
+      { strategy: new FixedStrategy('A', 'LONG', 80), weight: 3 },
+      { strategy: new FixedStrategy('B', 'SHORT', 55), veto: true },
+    ]);
+    const analysis = await s.analyze(market, []);
+
+    expect(analysis.signal).toBe('NEUTRAL');
+    expect(analysis.reason).toContain('veto van B');
+    expect(analysis.metadata!.members.find((m: EnsembleContribution) => m.strategy === 'B').vetoed).toBe(true);
+  });
+
+  it('only counts members of the current regime', async () => {
+    const members: EnsembleMember[] = [
+      { strategy: new FixedStrategy('Trend', 'LONG', 70), regimes: ['trending'] },
+      { strategy: new FixedStrategy('Range', 'SHORT', 70), regimes: ['ranging'] },
+    ];
+    const s = await ensemble(members);
+
+    const up = await s.analyze(market, trending);
+    expect(up.metadata!.regime).toBe('trending');
+    expect(up.signal).toBe('LONG');
+
+    const chop = await s.analyze(market, ranging);
+    expect(chop.metadata!.regime).toBe('ranging');
+    expect(chop.signal).toBe('SHORT');
+
+    // Too little history: no regime, both vote and cancel out
+    expect((await s.analyze(market, trending.slice(0, 5))).signal).toBe('NEUTRAL');
+  });
+
+  it('builds the trade signal from the leading member', async () => {
+    const s = await ensemble([
+      { strategy: new FixedStrategy('A', 'SHORT', 60) },
+      { strategy: new FixedStrategy('B', 'SHORT', 90) },
+    ]);
+    const signal = await s.generateSignal(await s.analyze(market, []), market);
+
+    expect(signal).toMatchObject({ action: 'sell', stopLoss: 101, takeProfit: 99, confidence: 75 });
+    expect(signal.metadata!.lead).toBe('B');
+  });
+
+  it('resolves members from the registry', async () => {
+    strategyRegistry.register(new FixedStrategy('EnsembleMemberA', 'LONG', 80));
+    try {
+      const s = EnsembleStrategy.fromRegistry({ name: 'Reg', description: 'r', members: [{ strategy: 'EnsembleMemberA' }] });
+      expect(s.memberNames()).toEqual(['EnsembleMemberA']);
+      expect(() => EnsembleStrategy.fromRegistry({ name: 'Reg', description: 'r', members: [{ strategy: 'Missing' }] })).toThrow();
+    } finally {
+      await strategyRegistry.unregister('EnsembleMemberA');
+    }
+  });
+});
+
+describe('createRegimeEnsemble', () => {
+  it('runs Razor and Thor side by side on their own defaults', async () => {
+    const s = createRegimeEnsemble();
+    await s.initialize({ ...s.metadata.defaultConfig, instrument: market.instrument, timeframe: '1m', riskPercent: 1, parameters: s.metadata.defaultConfig.parameters! });
+    const analysis = await s.analyze(market, trending);
+
+    expect(s.memberNames()).toEqual(['Razor', 'Thor']);
+    expect(analysis.metadata!.members.map((m: EnsembleContribution) => [m.strategy, m.active])).toEqual([['Razor', true], ['Thor', false]]);
+    expect(s.requiredCandles).toBe(30);
+  });
+});
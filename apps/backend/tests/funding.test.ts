@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { accruedFunding, fundingPayment, isExpensiveFundingWindow, upcomingFundingCost } from '../src/brokers/Funding';
+import { deriveExitDetails } from '../src/services/trade-finalizer';
+import type { FundingRate, MarkPriceUpdate } from '../src/brokers/IBroker';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1700000000000;
+
+const update = (overrides: Partial<MarkPriceUpdate> = {}): MarkPriceUpdate => ({
+  instrument: 'BTCUSDT',
+  markPrice: 50010,
+  indexPrice: 50000,
+  fundingRate: 0.0005,
+  fundingIntervalHours: 8,
+  nextFundingTime: NOW + 10 * 60 * 1000,
+  timestamp: NOW,
+  ...overrides,
+});
+
+describe('Funding helpers', () => {
+  it('charges longs and pays shorts on a positive rate', () => {
+    expect(fundingPayment(0.0001, 'buy', 10000)).toBeCloseTo(-1);
+    expect(fundingPayment(0.0001, 'sell', 10000)).toBeCloseTo(1);
+  });
+
+  it('accrues funding settled while the position was open', () => {
+    const history: FundingRate[] = [
+      { instrument: 'BTCUSDT', rate: 0.0001, intervalHours: 8, timestamp: NOW - 8 * HOUR },
+      { instrument: 'BTCUSDT', rate: 0.0002, intervalHours: 8, timestamp: NOW },
+      { instrument: 'BTCUSDT', rate: -0.0001, intervalHours: 8, timestamp: NOW + 8 * HOUR },
+    ];
+
+    // Opened after the first settlement, closed after the last
+    expect(accruedFunding(history, 'buy', 10000, NOW - HOUR, NOW + 9 * HOUR)).toBeCloseTo(-1);
+    expect(accruedFunding(history, 'sell', 10000, NOW - HOUR, NOW)).toBeCloseTo(2);
+  });
+
+  it('charges the full rate only when the next settlement is inside the window', () => {
+    expect(upcomingFundingCost(update(), 'buy', 15 * 60 * 1000, NOW)).toBe(0.0005);
+    expect(upcomingFundingCost(update(), 'sell', 15 * 60 * 1000, NOW)).toBe(-0.0005);
+    expect(upcomingFundingCost(update(), 'buy', 5 * 60 * 1000, NOW)).toBe(0);
+  });
+
+  it('pro-rates continuous funding over the window', () => {
+    const continuous = update({ nextFundingTime: undefined, fundingRate: 0.0008 });
+    expect(upcomingFundingCost(continuous, 'buy', 2 * HOUR, NOW)).toBeCloseTo(0.0002);
+  });
+
+  it('flags entries just before an expensive settlement', () => {
+    expect(isExpensiveFundingWindow(update(), 'buy', 15 * 60 * 1000, 0.0003, NOW)).toBe(true);
+    expect(isExpensiveFundingWindow(update(), 'sell', 15 * 60 * 1000, 0.0003, NOW)).toBe(false);
+    expect(isExpensiveFundingWindow(update(), 'buy', 15 * 60 * 1000, 0.001, NOW)).toBe(false);
+  });
+});
+
+describe('Trade PnL with funding', () => {
+  const trade = {
+    id: 'trade-1',
+    instrument: 'BTC_USDC-PERPETUAL',
+    side: 'buy',
+    entryOrderId: 'entry-1',
+    slOrderId: 'sl-1',
+    tpOrderId: 'tp-1',
+    entryPrice: 100,
+    amount: 10,
+    stopLoss: 95,
+    takeProfit: 110,
+    entryTime: Date.now() - 3 * HOUR,
+  } as any;
+
+  function client(funding: () => Promise<FundingRate[]>) {
+    return {
+      getTicker: vi.fn().mockResolvedValue({ last_price: 110 }),
+      sendRequest: vi.fn().mockResolvedValue({
+        trades: [
+          { order_id: 'entry-1', price: 100, amount: 10, fee: 0.5 },
+          { order_id: 'tp-1', price: 110, amount: 10, fee: 0.5 },
+        ],
+      }),
+      getFundingRateHistory: vi.fn().mockImplementation(funding),
+    } as any;
+  }
+
+  it('includes funding settled while the trade was open', async () => {
+    const rate = (hoursAgo: number, value: number): FundingRate =>
+      ({ instrument: trade.instrument, rate: value, intervalHours: 1, timestamp: Date.now() - hoursAgo * HOUR });
+    const deribit = client(async () => [rate(4, 0.01), rate(2, 0.001), rate(1, 0.001)]);
+
+    const details = await deriveExitDetails(deribit, trade);
+
+    // 1000 notional paid 0.1% twice; the settlement before entry doesn't count
+    expect(details.funding).toBeCloseTo(-2);
+    expect(details.pnl).toBeCloseTo(100 - 1 - 2);
+    expect(details.exitReason).toBe('tp_hit');
+    expect(deribit.getFundingRateHistory).toHaveBeenCalledWith('BTC_USDC-PERPETUAL', expect.any(Number));
+  });
+
+  it('leaves PnL without funding when the history is unavailable', async () => {
+    const details = await deriveExitDetails(client(async () => { throw new Error('timeout'); }), trade);
+
+    expect(details.funding).toBe(0);
+    expect(details.pnl).toBeCloseTo(99);
+  });
+});
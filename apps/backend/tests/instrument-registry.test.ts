@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { InstrumentRegistry, UnknownInstrumentError, instrumentRegistry, parseInstrument } from '../src/instruments/instrument-registry';
+import { strategyStartRequestSchema } from '../src/validation/schemas';
+
+describe('InstrumentRegistry', () => {
+  it('resolves every venue spelling to one canonical instrument', () => {
+    for (const symbol of ['BTC/USDT:USDT', 'BTCUSDT', 'BTC-USDT-SWAP', 'btc_usdt', 'BTC-USDT']) {
+      expect(instrumentRegistry.toCanonical(symbol)).toBe('BTC/USDT:USDT');
+    }
+    expect(instrumentRegistry.toCanonical('BTC-PERPETUAL')).toBe('BTC/USD:BTC');
+    expect(instrumentRegistry.toCanonical('BTC-USD-SWAP')).toBe('BTC/USD:BTC');
+    expect(instrumentRegistry.toCanonical('BTCUSD')).toBe('BTC/USD:BTC');
+    expect(instrumentRegistry.toCanonical('BTC_USDC-PERPETUAL')).toBe('BTC/USDC:USDC');
+    expect(instrumentRegistry.toCanonical('BTCPERP')).toBe('BTC/USDC:USDC');
+  });
+
+  it('describes contract terms', () => {
+    expect(instrumentRegistry.get('BTC/USD:BTC')).toMatchObject({
+      base: 'BTC', quote: 'USD', settle: 'BTC', kind: 'perpetual', contractType: 'inverse',
+    });
+    expect(instrumentRegistry.resolve('ETH-USDT-SWAP')).toMatchObject({ settle: 'USDT', contractType: 'linear' });
+    expect(instrumentRegistry.listing('BTC-PERPETUAL', 'deribit')).toEqual({ symbol: 'BTC-PERPETUAL', contractSize: 10 });
+    expect(instrumentRegistry.listing('BTCUSDT', 'okx')).toEqual({ symbol: 'BTC-USDT-SWAP', contractSize: 0.01 });
+  });
+
+  it('maps to each broker\'s native symbol', () => {
+    expect(instrumentRegistry.toNative('BTC/USDT:USDT', 'binance')).toBe('BTCUSDT');
+    expect(instrumentRegistry.toNative('BTC/USDT:USDT', 'okx')).toBe('BTC-USDT-SWAP');
+    expect(instrumentRegistry.toNative('BTC_USDC-PERPETUAL', 'bybit')).toBe('BTCPERP');
+    expect(instrumentRegistry.toNative('BTC-USD-SWAP', 'deribit')).toBe('BTC-PERPETUAL');
+    expect(instrumentRegistry.toNative('ETH/USDC:USDC', 'paper')).toBe('ETH_USDC-PERPETUAL');
+    // Not seeded: derived from the venue's naming rules
+    expect(instrumentRegistry.toNative('DOGEUSDT', 'okx')).toBe('DOGE-USDT-SWAP');
+  });
+
+  it('handles dated futures', () => {
+    expect(parseInstrument('BTC-27DEC24')).toMatchObject({ kind: 'future', expiry: '241227', contractType: 'inverse' });
+    expect(instrumentRegistry.toCanonical('BTC-27DEC24')).toBe('BTC/USD:BTC-241227');
+    expect(instrumentRegistry.toNative('BTC-USD-250328', 'deribit')).toBe('BTC-28MAR25');
+    expect(instrumentRegistry.toNative('BTC-5JUN25', 'okx')).toBe('BTC-USD-250605');
+  });
+
+  it('rejects unknown symbols and unlisted instruments', () => {
+    expect(() => instrumentRegistry.resolve('UNKNOWN-INSTRUMENT')).toThrow(UnknownInstrumentError);
+    expect(() => instrumentRegistry.toNative('BTC-PERPETUAL', 'binance')).toThrow('not found on binance');
+    expect(() => instrumentRegistry.toNative('BTCUSDT', 'kraken')).toThrow(UnknownInstrumentError);
+    expect(parseInstrument('BTC/USD:USD')).toBeNull();
+  });
+
+  it('registers custom listings', () => {
+    const registry = new InstrumentRegistry([]);
+    registry.register({
+      id: 'PEPE/USDT:USDT', base: 'PEPE', quote: 'USDT', settle: 'USDT', kind: 'perpetual', contractType: 'linear',
+      venues: { bybit: { symbol: '1000PEPEUSDT', contractSize: 1000 } },
+    });
+
+    expect(registry.toCanonical('1000PEPEUSDT', 'bybit')).toBe('PEPE/USDT:USDT');
+    expect(registry.toNative('PEPE-USDT-SWAP', 'bybit')).toBe('1000PEPEUSDT');
+    expect(registry.list()).toHaveLength(1);
+  });
+
+  it('accepts any resolvable instrument in strategy start requests', () => {
+    const parse = (instrument: string) => strategyStartRequestSchema.safeParse({ strategyName: 'razor', instrument });
+
+    expect(parse('BTC-PERPETUAL').success).toBe(true);
+    expect(parse('BTC/USDT:USDT').success).toBe(true);
+    expect(parse('BTC-USDT-SWAP').success).toBe(true);
+    expect(parse('NOT A SYMBOL').success).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const history = vi.hoisted(() => ({
+  recordTrade: vi.fn(),
+  closeTrade: vi.fn(),
+  getOpenTrade: vi.fn(),
+}));
+
+vi.mock('../src/services/trade-history', () => ({
+  getTradeHistoryService: () => history,
+  ensureTradeHistoryInitialized: async () => {},
+}));
+
+import { LegSynchronizer, LegExecutionError, LegRiskError, legKey, parseLegKey } from '../src/strategies/multi-leg';
+import type { LegCandles, LegSnapshot } from '../src/strategies/multi-leg';
+import { LegOrderManager } from '../src/strategies/leg-orders';
+import { PairsSpreadStrategy } from '../src/strategies/PairsSpreadStrategy';
+import { MultiLegExecutor } from '../src/strategies/multi-leg-executor';
+import type { Candle, StrategyConfig } from '../src/strategies/IStrategy';
+import { BackendDeribitClient } from '../src/deribit-client';
+import { instanceLabelPrefix, type CancelOnDisconnectPolicy } from '../src/deribit-cancel-on-disconnect';
+
+const A = 'BTC_USDC-PERPETUAL';
+const B = 'ETH_USDC-PERPETUAL';
+const MINUTE = 60_000;
+
+function quote(instrument: string, price: number, timestamp: number) {
+  return { instrument, price, timestamp, bid: price, ask: price };
+}
+
+function candles(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({ timestamp: i * MINUTE, open: close, high: close, low: close, close, volume: 0 }));
+}
+
+// B drifts with small noise; A = 30 × B with its own noise, so the spread mean-reverts
+const closesB = Array.from({ length: 60 }, (_, i) => 3000 + i * 2 + Math.sin(i) * 5);
+const closesA = closesB.map((b, i) => b * 30 * (1 + Math.cos(i * 1.7) * 0.001));
+
+const pairsConfig: StrategyConfig = {
+  instrument: A,
+  instruments: [A, B],
+  timeframe: '1m',
+  riskPercent: 1,
+  parameters: { lookback: 50, entryZ: 2, exitZ: 0.5, stopZ: 6, notionalUsd: 1000, maxHoldMinutes: 0 },
+};
+
+function snapshot(priceA: number, priceB: number): LegSnapshot {
+  return { [A]: quote(A, priceA, 0), [B]: quote(B, priceB, 0) };
+}
+
+describe('LegSynchronizer', () => {
+  it('only releases minutes that closed on every leg', () => {
+    const sync = new LegSynchronizer([A, B], 2000);
+    sync.update(quote(A, 100, 0));
+    sync.update(quote(B, 10, 500));
+    sync.update(quote(A, 101, MINUTE + 100)); // closes minute 0 on A only
+
+    expect(sync.latestAlignedMinute()).toBeNull();
+    sync.update(quote(B, 11, MINUTE + 200));
+
+    const aligned = sync.candles();
+    expect(sync.latestAlignedMinute()).toBe(0);
+    expect(aligned[A].map(c => c.close)).toEqual([100]);
+    expect(aligned[B].map(c => c.close)).toEqual([10]);
+  });
+
+  it('withholds the snapshot while a leg is stale', () => {
+    const sync = new LegSynchronizer([A, B], 2000);
+    sync.update(quote(A, 100, 10_000));
+    expect(sync.snapshot(10_500)).toBeNull();
+    expect(sync.staleLegs(10_500)).toEqual([B]);
+
+    sync.update(quote(B, 10, 9_000));
+    expect(sync.snapshot(10_500)).not.toBeNull();
+    expect(sync.snapshot(11_500)).toBeNull();
+  });
+
+  it('keys legs for storage and back', () => {
+    expect(legKey([A, B])).toBe(`${A}+${B}`);
+    expect(parseLegKey(legKey([A, B]))).toEqual([A, B]);
+    expect(parseLegKey(A)).toEqual([A]);
+  });
+});
+
+describe('PairsSpreadStrategy', () => {
+  const aligned: LegCandles = { [A]: candles(closesA), [B]: candles(closesB) };
+  const lastB = closesB[closesB.length - 1];
+
+  async function strategy(parameters: Record<string, any> = {}) {
+    const s = new PairsSpreadStrategy();
+    await s.initialize({ ...pairsConfig, parameters: { ...pairsConfig.parameters, ...parameters } });
+    return s;
+  }
+
+  it('sells a rich spread and buys the hedge leg', async () => {
+    const s = await strategy();
+    const analysis = await s.analyzeLegs(snapshot(lastB * 30 * 1.002, lastB), aligned, null);
+
+    expect(analysis.action).toBe('enter');
+    expect(analysis.direction).toBe('short');
+    expect(analysis.legs!.map(l => [l.instrument, l.side])).toEqual([[A, 'sell'], [B, 'buy']]);
+    expect(analysis.legs![1].weight).toBeCloseTo(analysis.indicators.hedgeRatio);
+  });
+
+  it('holds inside the band and exits once the spread reverts', async () => {
+    const s = await strategy({ hedgeRatio: 1 });
+    const fair = snapshot(lastB * 30, lastB);
+    expect((await s.analyzeLegs(fair, aligned, null)).action).toBe('hold');
+
+    const position = { legs: [], direction: 'short' as const, openedAt: Date.now() };
+    const exit = await s.analyzeLegs(fair, aligned, position);
+    expect(exit).toMatchObject({ action: 'exit', exitKind: 'target' });
+  });
+
+  it('rejects configs that are not a pair', async () => {
+    const s = new PairsSpreadStrategy();
+    expect(() => s.validateConfig({ ...pairsConfig, instruments: [A] })).toThrow('exactly 2 instruments');
+    expect(() => s.validateConfig({ ...pairsConfig, instruments: [A, A] })).toThrow('must be distinct');
+    expect(() => s.validateConfig({ ...pairsConfig, parameters: { ...pairsConfig.parameters, exitZ: 3 } }))
+      .toThrow('exitZ < entryZ < stopZ');
+    await expect(s.analyze(quote(A, 1, 0), [])).rejects.toThrow('multi-leg strategy');
+  });
+});
+
+describe('LegOrderManager', () => {
+  beforeEach(() => {
+    history.recordTrade.mockReset().mockResolvedValue('trade-1');
+    history.closeTrade.mockReset().mockResolvedValue(undefined);
+  });
+
+  function fakeClient() {
+    return {
+      getInstrument: vi.fn(async (name: string) => ({ instrument_name: name, min_trade_amount: name === A ? 0.0001 : 0.001 })),
+      placeBuyOrder: vi.fn(async (_i: string, amount: number) => ({ order: { order_id: 'buy', filled_amount: amount, average_price: 3000 } })),
+      placeSellOrder: vi.fn(async (_i: string, amount: number) => ({ order: { order_id: 'sell', filled_amount: amount, average_price: 90_000 } })),
+    };
+  }
+  const targets = [
+    { instrument: A, side: 'sell' as const, weight: 1 },
+    { instrument: B, side: 'buy' as const, weight: 1 },
+  ];
+  const options = { strategyName: 'Pairs', labelPrefix: 'pairs', retryDelayMs: 0 };
+
+  it('opens every leg and records each one', async () => {
+    const client = fakeClient();
+    const position = await new LegOrderManager(client as any, options).enter(targets, snapshot(90_000, 3000), 900, 'short');
+
+    expect(position.legs.map(l => [l.instrument, l.side, l.amount])).toEqual([[A, 'sell', 0.01], [B, 'buy', 0.3]]);
+    expect(history.recordTrade).toHaveBeenCalledTimes(2);
+  });
+
+  it('unwinds filled legs when a later leg fails', async () => {
+    const client = fakeClient();
+    client.placeBuyOrder.mockImplementation(async (_i: string, amount: number, _p?: number, _t?: string, _l?: string, reduceOnly?: boolean) => {
+      if (!reduceOnly) throw new Error('not_enough_funds');
+      return { order: { order_id: 'x', filled_amount: amount, average_price: 90_000 } };
+    });
+
+    await expect(new LegOrderManager(client as any, options).enter(targets, snapshot(90_000, 3000), 900, 'short'))
+      .rejects.toBeInstanceOf(LegExecutionError);
+    // The filled sell of A is bought back reduce-only
+    expect(client.placeBuyOrder).toHaveBeenLastCalledWith(A, 0.01, undefined, 'market', expect.stringMatching(/^pairs_unwind_/), true);
+    expect(history.recordTrade).not.toHaveBeenCalled();
+  });
+
+  it('reports legs it cannot unwind as leg risk', async () => {
+    const client = fakeClient();
+    client.placeBuyOrder.mockRejectedValue(new Error('rejected'));
+
+    const error = await new LegOrderManager(client as any, options)
+      .enter(targets, snapshot(90_000, 3000), 900, 'short')
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(LegRiskError);
+    expect(error.openLegs).toMatchObject([{ instrument: A, side: 'sell', amount: 0.01 }]);
+    // one failed entry on B, three unwind attempts on A
+    expect(client.placeBuyOrder).toHaveBeenCalledTimes(4);
+  });
+
+  it('refuses entries whose lot rounding breaks the hedge, before any order', async () => {
+    const client = fakeClient();
+    client.getInstrument.mockResolvedValue({ min_trade_amount: 1 });
+
+    await expect(new LegOrderManager(client as any, options).enter(targets, snapshot(90_000, 3000), 900, 'short'))
+      .rejects.toThrow(/off the 900.00 USD target/);
+    expect(client.placeSellOrder).not.toHaveBeenCalled();
+  });
+
+  it('records inverse leg PnL in USD next to linear legs', async () => {
+    const INVERSE = 'BTC-PERPETUAL';
+    const client = fakeClient();
+    client.getInstrument.mockImplementation(async (name: string) => name === INVERSE
+      ? { instrument_name: name, min_trade_amount: 10, instrument_type: 'reversed' }
+      : { instrument_name: name, min_trade_amount: 0.001, instrument_type: 'linear' });
+    history.recordTrade.mockResolvedValueOnce('trade-btc').mockResolvedValueOnce('trade-eth');
+    const manager = new LegOrderManager(client as any, options);
+    const position = await manager.enter(
+      [{ instrument: INVERSE, side: 'sell', weight: 1 }, { instrument: B, side: 'buy', weight: 1 }],
+      { [INVERSE]: quote(INVERSE, 90_000, 0), [B]: quote(B, 3000, 0) },
+      900,
+      'short'
+    );
+    expect(position.legs.map(l => [l.instrument, l.amount, l.inverse])).toEqual([[INVERSE, 900, true], [B, 0.3, false]]);
+
+    // BTC rallies to 100k, ETH to 3100
+    client.placeBuyOrder.mockImplementation(async (_i: string, amount: number) => ({ order: { order_id: 'x', filled_amount: amount, average_price: 100_000 } }));
+    client.placeSellOrder.mockImplementation(async (_i: string, amount: number) => ({ order: { order_id: 'y', filled_amount: amount, average_price: 3100 } }));
+    await manager.exit(position);
+
+    // 900 USD short: 900 × (1/90k − 1/100k) = 0.001 BTC lost, 100 USD at the exit price
+    const pnl = Object.fromEntries(history.closeTrade.mock.calls.map(([c]) => [c.tradeId, c.pnl]));
+    expect(pnl['trade-btc']).toBeCloseTo(-100, 6);
+    expect(pnl['trade-eth']).toBeCloseTo(30, 6);
+
+    // A restored leg without the flag is looked up
+    history.closeTrade.mockClear();
+    await manager.exit({ legs: [{ instrument: INVERSE, side: 'sell', amount: 900, entryPrice: 90_000, orderId: 'o', tradeId: 'restored' }], direction: 'short', openedAt: 0 });
+    expect(history.closeTrade.mock.calls[0][0].pnl).toBeCloseTo(-100, 6);
+  });
+});
+
+describe('MultiLegExecutor', () => {
+  it('evaluates once per aligned minute and only with fresh quotes on every leg', async () => {
+    history.getOpenTrade.mockResolvedValue(null);
+    const client = {
+      getCandles: vi.fn(async () => ({ close: [], ticks: [] })),
+      getInstrument: vi.fn(),
+      placeBuyOrder: vi.fn(),
+      placeSellOrder: vi.fn(),
+      setCancelOnDisconnectPolicy: vi.fn(),
+    };
+    const strategy = new PairsSpreadStrategy();
+    const analyzeLegs = vi.spyOn(strategy, 'analyzeLegs');
+    const executor = new MultiLegExecutor(client as any, 'id', 'Pairs', {
+      instruments: [A, B], ...pairsConfig.parameters, notionalUsd: 1000,
+    }, strategy);
+    await executor.initialize();
+
+    await executor.onLegTicker(A, { last_price: 90_000 }, 1_000);
+    await executor.onLegTicker(B, { last_price: 3000 }, 1_500);
+    await executor.onLegTicker(A, { last_price: 90_100 }, MINUTE + 100);
+    expect(analyzeLegs).not.toHaveBeenCalled(); // B has not closed minute 0 yet
+
+    await executor.onLegTicker(B, { last_price: 3010 }, MINUTE + 200);
+    await executor.onLegTicker(A, { last_price: 90_200 }, MINUTE + 300);
+    expect(analyzeLegs).toHaveBeenCalledTimes(1);
+    expect(executor.getAnalysisState()).toMatchObject({ instrument: `${A}+${B}`, dataPoints: 1, requiredDataPoints: 50 });
+
+    // next aligned minute, but A's quote is too old by then
+    await executor.onLegTicker(A, { last_price: 90_300 }, 2 * MINUTE + 100);
+    await executor.onLegTicker(B, { last_price: 3020 }, 2 * MINUTE + 5_000);
+    expect(analyzeLegs).toHaveBeenCalledTimes(1);
+    expect(executor.getAnalysisState().checkpoints.find(c => c.id === 'sync')?.status).toBe('pending');
+  });
+
+  it('keeps a cancel-on-disconnect policy per instance and removes it on cleanup', async () => {
+    history.getOpenTrade.mockResolvedValue(null);
+    const client = new BackendDeribitClient('testnet');
+    vi.spyOn(client, 'getCandles').mockResolvedValue({ close: [], ticks: [] } as any);
+    const pairs = (strategyId: string, cancelOnDisconnect: CancelOnDisconnectPolicy) => new MultiLegExecutor(client, strategyId, 'Pairs', {
+      instruments: [A, B], ...pairsConfig.parameters, notionalUsd: 1000, cancelOnDisconnect,
+    }, new PairsSpreadStrategy());
+    const first = pairs('user-1:pairs', 'entries');
+    const second = pairs('user-2:pairs', 'keep_stops');
+    await first.initialize();
+    await second.initialize();
+
+    const firstPrefix = `${instanceLabelPrefix('pairs', 'user-1:pairs')}_`;
+    const secondPrefix = `${instanceLabelPrefix('pairs', 'user-2:pairs')}_`;
+    expect(client.getDeadManSwitchStatus().policies).toEqual({ [firstPrefix]: 'entries', [secondPrefix]: 'keep_stops' });
+
+    first.cleanup();
+    expect(client.getDeadManSwitchStatus().policies).toEqual({ [secondPrefix]: 'keep_stops' });
+  });
+});
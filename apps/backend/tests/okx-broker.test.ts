@@ -0,0 +1,577 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { OKXBroker, OKXApiError, toOkxInstId } from '../src/brokers/OKXBroker';
+import type { Order, Trade } from '../src/brokers/IBroker';
+
+const API_KEY = 'test-key';
+const API_SECRET = 'test-secret';
+const PASSPHRASE = 'test-passphrase';
+
+const sign = (payload: string) => crypto.createHmac('sha256', API_SECRET).update(payload).digest('base64');
+
+/**
+ * Minimal mock of the OKX v5 REST + WebSocket API
+ * Verifies request signatures and passphrase the same way OKX does
+ */
+class MockOKXServer {
+  server!: http.Server;
+  publicWss!: WebSocketServer;
+  privateWss!: WebSocketServer;
+  restUrl = '';
+  publicWsUrl = '';
+  privateWsUrl = '';
+  createdOrders: any[] = [];
+  createdAlgos: any[] = [];
+  amends: Array<{ path: string; body: any }> = [];
+  cancels: Array<{ path: string; body: any }> = [];
+  orderLookups: string[] = [];
+  simulatedHeaders: Array<string | undefined> = [];
+  privateSockets: WebSocket[] = [];
+  publicSockets: WebSocket[] = [];
+  publicMessages: any[] = [];
+  privateMessages: any[] = [];
+  answerLogin = true;
+  garbageBeforeLogin = false;
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => this.handleRest(req, res));
+    this.publicWss = new WebSocketServer({ noServer: true });
+    this.privateWss = new WebSocketServer({ noServer: true });
+
+    this.server.on('upgrade', (req, socket, head) => {
+      const wss = req.url?.startsWith('/ws/v5/private') ? this.privateWss : this.publicWss;
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+    });
+
+    this.publicWss.on('connection', (ws) => {
+      this.publicSockets.push(ws);
+      ws.on('message', (data) => {
+        if (data.toString() === 'ping') return ws.send('pong');
+        const msg = JSON.parse(data.toString());
+        this.publicMessages.push(msg);
+        ws.send(JSON.stringify({ event: msg.op, arg: msg.args[0] }));
+      });
+    });
+
+    this.privateWss.on('connection', (ws) => {
+      this.privateSockets.push(ws);
+      ws.on('message', (data) => {
+        if (data.toString() === 'ping') return ws.send('pong');
+        const msg = JSON.parse(data.toString());
+        this.privateMessages.push(msg);
+        if (msg.op === 'login') {
+          if (this.garbageBeforeLogin) ws.send('{"event":');
+          if (!this.answerLogin) return;
+          const { apiKey, passphrase, timestamp, sign: signature } = msg.args[0];
+          const ok = apiKey === API_KEY
+            && passphrase === PASSPHRASE
+            && signature === sign(`${timestamp}GET/users/self/verify`);
+          ws.send(JSON.stringify(ok
+            ? { event: 'login', code: '0', msg: '' }
+            : { event: 'error', code: '60009', msg: 'Login failed.' }));
+        } else {
+          ws.send(JSON.stringify({ event: msg.op, arg: msg.args[0] }));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.restUrl = `http://127.0.0.1:${port}`;
+    this.publicWsUrl = `ws://127.0.0.1:${port}/ws/v5/public`;
+    this.privateWsUrl = `ws://127.0.0.1:${port}/ws/v5/private`;
+  }
+
+  async stop(): Promise<void> {
+    for (const ws of [...this.publicSockets, ...this.privateSockets]) ws.terminate();
+    this.publicWss.close();
+    this.privateWss.close();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  broadcastPublic(payload: unknown): void {
+    for (const ws of this.publicSockets) ws.send(JSON.stringify(payload));
+  }
+
+  broadcastPrivate(payload: unknown): void {
+    for (const ws of this.privateSockets) ws.send(JSON.stringify(payload));
+  }
+
+  private handleRest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, this.restUrl);
+      const reply = (data: unknown, code = '0', msg = '') => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ code, msg, data }));
+      };
+
+      this.simulatedHeaders.push(req.headers['x-simulated-trading'] as string | undefined);
+
+      if (url.pathname.startsWith('/api/v5/market/') || url.pathname.startsWith('/api/v5/public/')) {
+        return this.handlePublic(url, reply);
+      }
+
+      // Private endpoints: verify signature + passphrase
+      const timestamp = req.headers['ok-access-timestamp'] as string;
+      const expected = sign(`${timestamp}${req.method}${req.url}${body}`);
+
+      if (req.headers['ok-access-key'] !== API_KEY || req.headers['ok-access-sign'] !== expected) {
+        return reply([], '50113', 'Invalid Sign');
+      }
+      if (req.headers['ok-access-passphrase'] !== PASSPHRASE) {
+        return reply([], '50105', 'Request header OK-ACCESS-PASSPHRASE incorrect.');
+      }
+
+      switch (url.pathname) {
+        case '/api/v5/account/balance':
+          return reply([{
+            details: [{ ccy: 'USDT', eq: '1000', availBal: '850', frozenBal: '150' }],
+          }]);
+        case '/api/v5/trade/order': {
+          if (req.method === 'GET') {
+            this.orderLookups.push(url.searchParams.get('ordId')!);
+            if (url.searchParams.get('ordId')!.startsWith('algo-')) {
+              return reply([], '51603', 'Order does not exist');
+            }
+            return reply([{
+              ordId: url.searchParams.get('ordId'), instId: url.searchParams.get('instId'), side: 'buy', ordType: 'limit',
+              sz: '3', px: '49900', accFillSz: '0', state: 'live', cTime: '1700000000000', clOrdId: '',
+            }]);
+          }
+          const order = JSON.parse(body);
+          this.createdOrders.push(order);
+          return reply([{ ordId: `okx-${this.createdOrders.length}`, clOrdId: order.clOrdId || '', sCode: '0', sMsg: '' }]);
+        }
+        case '/api/v5/trade/order-algo': {
+          if (req.method === 'GET') {
+            return reply([{
+              algoId: url.searchParams.get('algoId'), instId: 'BTC-USDT-SWAP', side: 'sell', ordType: 'conditional',
+              sz: '2', slTriggerPx: '49000', slOrdPx: '48900', slTriggerPxType: 'mark', state: 'live', cTime: '1700000000000',
+            }]);
+          }
+          const algo = JSON.parse(body);
+          this.createdAlgos.push(algo);
+          return reply([{ algoId: `algo-${this.createdAlgos.length}`, sCode: '0', sMsg: '' }]);
+        }
+        case '/api/v5/trade/amend-order': {
+          const amend = JSON.parse(body);
+          this.amends.push({ path: url.pathname, body: amend });
+          return amend.ordId.startsWith('algo-')
+            ? reply([{ ordId: amend.ordId, sCode: '51603', sMsg: 'Order does not exist' }], '1', 'Operation failed.')
+            : reply([{ ordId: amend.ordId, sCode: '0', sMsg: '' }]);
+        }
+        case '/api/v5/trade/cancel-order': {
+          const cancel = JSON.parse(body);
+          this.cancels.push({ path: url.pathname, body: cancel });
+          if (cancel.ordId === 'okx-busy') {
+            return reply([{ ordId: cancel.ordId, sCode: '50001', sMsg: 'Service temporarily unavailable' }], '1', 'Operation failed.');
+          }
+          return cancel.ordId.startsWith('okx-')
+            ? reply([{ ordId: cancel.ordId, sCode: '0', sMsg: '' }])
+            : reply([{ ordId: cancel.ordId, sCode: '51400', sMsg: 'Order cancellation failed as the order does not exist' }], '1', 'Operation failed.');
+        }
+        case '/api/v5/trade/cancel-algos': {
+          const [cancel] = JSON.parse(body);
+          this.cancels.push({ path: url.pathname, body: cancel });
+          return cancel.algoId.startsWith('algo-')
+            ? reply([{ algoId: cancel.algoId, sCode: '0', sMsg: '' }])
+            : reply([{ algoId: cancel.algoId, sCode: '51603', sMsg: 'Order does not exist' }], '1', 'Operation failed.');
+        }
+        case '/api/v5/trade/amend-algos': {
+          const amend = JSON.parse(body);
+          this.amends.push({ path: url.pathname, body: amend });
+          return reply([{ algoId: amend.algoId, sCode: '0', sMsg: '' }]);
+        }
+        case '/api/v5/account/positions':
+          return reply([
+            {
+              instId: 'BTC-USDT-SWAP', posSide: 'net', pos: '-4', avgPx: '50000', markPx: '49000',
+              upl: '40', realizedPnl: '2.5', lever: '20',
+            },
+            { instId: 'ETH-USDT-SWAP', posSide: 'net', pos: '0', avgPx: '', markPx: '3000', upl: '0', lever: '20' },
+          ]);
+        case '/api/v5/trade/orders-pending':
+          return reply([{
+            ordId: 'okx-1', instId: 'BTC-USDT-SWAP', side: 'buy', ordType: 'limit',
+            sz: '2', px: '50000', accFillSz: '0', state: 'live', cTime: '1700000000000', clOrdId: 'entry1',
+          }]);
+        case '/api/v5/trade/orders-algo-pending':
+          return reply([{
+            algoId: 'algo-1', instId: 'BTC-USDT-SWAP', side: 'sell', ordType: 'conditional',
+            sz: '2', slTriggerPx: '49000', slOrdPx: '-1', state: 'live', cTime: '1700000000000',
+          }]);
+        default:
+          return reply([], '50000', 'unknown endpoint');
+      }
+    });
+  }
+
+  private handlePublic(url: URL, reply: (data: unknown, code?: string, msg?: string) => void): void {
+    switch (url.pathname) {
+      case '/api/v5/market/candles':
+        return reply([
+          ['1700000120000', '102', '104', '101', '103', '12', '0', '0', '1'],
+          ['1700000060000', '101', '103', '100', '102', '11', '0', '0', '1'],
+          ['1700000000000', '100', '102', '99', '101', '10', '0', '0', '1'],
+        ]);
+      case '/api/v5/public/instruments':
+        if (url.searchParams.get('instId') !== 'BTC-USDT-SWAP') return reply([]);
+        return reply([{
+          instId: 'BTC-USDT-SWAP', minSz: '0.01', lotSz: '0.01', tickSz: '0.1', lever: '125', ctVal: '0.01',
+        }]);
+      default:
+        return reply([], '50000', 'unknown endpoint');
+    }
+  }
+}
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2000) => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+};
+
+describe('toOkxInstId', () => {
+  it('maps common spellings to swap instIds', () => {
+    expect(toOkxInstId('BTC-USDT-SWAP')).toBe('BTC-USDT-SWAP');
+    expect(toOkxInstId('BTCUSDT')).toBe('BTC-USDT-SWAP');
+    expect(toOkxInstId('eth-usdt')).toBe('ETH-USDT-SWAP');
+    expect(toOkxInstId('SOL_USDC')).toBe('SOL-USDC-SWAP');
+    expect(() => toOkxInstId('BTC')).toThrow('Cannot map');
+  });
+});
+
+describe('OKXBroker (mock v5 server)', () => {
+  const mock = new MockOKXServer();
+  let broker: OKXBroker;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(async () => {
+    mock.createdOrders = [];
+    mock.amends = [];
+    mock.cancels = [];
+    mock.orderLookups = [];
+    mock.createdAlgos = [];
+    mock.simulatedHeaders = [];
+    mock.publicMessages = [];
+    mock.privateMessages = [];
+    mock.answerLogin = true;
+    mock.garbageBeforeLogin = false;
+    broker = new OKXBroker({
+      restUrl: mock.restUrl,
+      publicWsUrl: mock.publicWsUrl,
+      privateWsUrl: mock.privateWsUrl,
+    });
+    await broker.connect({ apiKey: API_KEY, apiSecret: API_SECRET, passphrase: PASSPHRASE, testnet: true });
+  });
+
+  afterEach(async () => {
+    await broker.disconnect();
+  });
+
+  it('connects with signed demo-trading requests', () => {
+    expect(broker.getConnectionStatus()).toBe('connected');
+    expect(mock.simulatedHeaders).toEqual(['1']);
+  });
+
+  it('requires a passphrase and rejects a wrong one', async () => {
+    const noPassphrase = new OKXBroker({ restUrl: mock.restUrl });
+    await expect(noPassphrase.connect({ apiKey: API_KEY, apiSecret: API_SECRET })).rejects.toThrow('passphrase');
+
+    const bad = new OKXBroker({ restUrl: mock.restUrl });
+    await expect(bad.connect({ apiKey: API_KEY, apiSecret: API_SECRET, passphrase: 'wrong' }))
+      .rejects.toBeInstanceOf(OKXApiError);
+    expect(bad.getConnectionStatus()).toBe('error');
+  });
+
+  it('returns account balances', async () => {
+    const balances = await broker.getBalance('USDT');
+    expect(balances).toEqual([{ currency: 'USDT', total: 1000, locked: 150, available: 850 }]);
+  });
+
+  it('maps OTOCO config to attached algo orders', async () => {
+    const order = await broker.placeOrder({
+      instrument: 'BTCUSDT',
+      side: 'buy',
+      type: 'market',
+      amount: 2,
+      label: 'entry_1',
+      otocoConfig: {
+        stopLoss: { type: 'stop_market', triggerPrice: 49000 },
+        takeProfit: { type: 'take_limit', price: 52000 },
+      },
+    });
+
+    expect(order).toMatchObject({ orderId: 'okx-1', instrument: 'BTC-USDT-SWAP', label: 'entry_1' });
+    expect(mock.createdOrders[0]).toEqual({
+      instId: 'BTC-USDT-SWAP',
+      tdMode: 'cross',
+      side: 'buy',
+      ordType: 'market',
+      sz: '2',
+      clOrdId: 'entry1',
+      attachAlgoOrds: [{
+        tpTriggerPx: '52000',
+        tpOrdPx: '52000',
+        tpTriggerPxType: 'last',
+        slTriggerPx: '49000',
+        slOrdPx: '-1',
+        slTriggerPxType: 'mark',
+      }],
+    });
+  });
+
+  it('places standalone stop orders as conditional algo orders', async () => {
+    const order = await broker.placeOrder({
+      instrument: 'BTC-USDT-SWAP',
+      side: 'sell',
+      type: 'stop_market',
+      amount: 2,
+      price: 49000,
+      reduceOnly: true,
+    });
+
+    expect(order.orderId).toBe('algo-1');
+    expect(mock.createdOrders).toHaveLength(0);
+    expect(mock.createdAlgos[0]).toMatchObject({
+      instId: 'BTC-USDT-SWAP',
+      ordType: 'conditional',
+      slTriggerPx: '49000',
+      slOrdPx: '-1',
+      reduceOnly: true,
+    });
+  });
+
+  it('merges regular and algo open orders', async () => {
+    const orders = await broker.getOpenOrders('BTCUSDT');
+    expect(orders).toHaveLength(2);
+    expect(orders[0]).toMatchObject({ orderId: 'okx-1', type: 'limit', price: 50000, status: 'open', label: 'entry1' });
+    expect(orders[1]).toMatchObject({ orderId: 'algo-1', side: 'sell', type: 'stop_market', price: 49000, status: 'open' });
+  });
+
+  it('amends regular orders and falls back to amending algos', async () => {
+    const order = await broker.editOrder('okx-1', 'BTCUSDT', { price: 49900, amount: 3 });
+    expect(mock.amends[0]).toEqual({
+      path: '/api/v5/trade/amend-order',
+      body: { instId: 'BTC-USDT-SWAP', ordId: 'okx-1', newSz: '3', newPx: '49900' },
+    });
+    expect(order).toMatchObject({ orderId: 'okx-1', price: 49900, amount: 3 });
+
+    const sl = await broker.editOrder('algo-1', 'BTC-USDT-SWAP', { price: 49500 });
+    expect(mock.amends[2]).toEqual({
+      path: '/api/v5/trade/amend-algos',
+      body: { instId: 'BTC-USDT-SWAP', algoId: 'algo-1', newSlTriggerPx: '49500', newSlTriggerPxType: 'mark', newSlOrdPx: '49400' },
+    });
+    expect(sl).toMatchObject({ orderId: 'algo-1', type: 'stop_limit', price: 49500 });
+
+    await broker.editOrder('algo-1', 'BTC-USDT-SWAP', { limitPrice: 48950 });
+    expect(mock.amends[3].body).toMatchObject({ newSlTriggerPx: '49000', newSlOrdPx: '48950' });
+  });
+
+  it('looks algo ids up on the algo endpoint', async () => {
+    // Unknown id: the regular book answers "does not exist", the algo book has it
+    const sl = await broker.getOrder('algo-7', 'BTCUSDT');
+    expect(sl).toMatchObject({ orderId: 'algo-7', type: 'stop_limit', price: 49000, status: 'open' });
+    expect(mock.orderLookups).toEqual(['algo-7']);
+
+    // Placed in this session: straight to the algo endpoint
+    const placed = await broker.placeOrder({ instrument: 'BTC-USDT-SWAP', side: 'sell', type: 'stop_market', amount: 2, price: 49000 });
+    await broker.getOrder(placed.orderId, 'BTCUSDT');
+    expect(mock.orderLookups).toEqual(['algo-7']);
+
+    expect(await broker.getOrder('okx-1', 'BTCUSDT')).toMatchObject({ orderId: 'okx-1', type: 'limit' });
+  });
+
+  it('cancels algo orders on the algo endpoint and only ignores unknown ids', async () => {
+    await broker.cancelOrder('okx-1', 'BTCUSDT');
+    await broker.cancelOrder('algo-3', 'BTCUSDT');
+    await broker.cancelOrder('gone', 'BTCUSDT');
+    expect(mock.cancels.map(c => [c.path.split('/').pop(), c.body.ordId ?? c.body.algoId])).toEqual([
+      ['cancel-order', 'okx-1'],
+      ['cancel-order', 'algo-3'],
+      ['cancel-algos', 'algo-3'],
+      ['cancel-order', 'gone'],
+      ['cancel-algos', 'gone'],
+    ]);
+
+    // Other failures are not swallowed, and not retried as algo
+    mock.cancels = [];
+    const error = await broker.cancelOrder('okx-busy', 'BTCUSDT').catch(e => e);
+    expect(error).toBeInstanceOf(OKXApiError);
+    expect(error.code).toBe('50001');
+    expect(mock.cancels).toHaveLength(1);
+
+    // Known algo ids skip the regular book
+    mock.cancels = [];
+    await broker.getOpenOrders('BTCUSDT');
+    await broker.cancelOrder('algo-1', 'BTCUSDT');
+    expect(mock.cancels.map(c => c.path)).toEqual(['/api/v5/trade/cancel-algos']);
+  });
+
+  it('maps net-mode positions and closes them with reduce-only orders', async () => {
+    expect(await broker.getPositions()).toEqual([{
+      instrument: 'BTC-USDT-SWAP',
+      side: 'short',
+      size: 4,
+      entryPrice: 50000,
+      markPrice: 49000,
+      unrealizedPnl: 40,
+      realizedPnl: 2.5,
+      leverage: 20,
+    }]);
+
+    await broker.closePosition('BTCUSDT', { type: 'limit', price: 48500, amount: 1 });
+    expect(mock.createdOrders[0]).toMatchObject({
+      instId: 'BTC-USDT-SWAP', side: 'buy', ordType: 'limit', sz: '1', px: '48500', reduceOnly: true,
+    });
+  });
+
+  it('returns candles oldest first', async () => {
+    const candles = await broker.getCandles('BTCUSDT', '1m', 3);
+    expect(candles.map(c => c.timestamp)).toEqual([1700000000000, 1700000060000, 1700000120000]);
+    expect(candles[0]).toMatchObject({ open: 100, high: 102, low: 99, close: 101, volume: 10 });
+  });
+
+  it('maps instrument names to instIds for instrument info', async () => {
+    const info = await broker.getInstrumentInfo('BTCUSDT');
+    expect(info).toEqual({ minTradeAmount: 0.01, tickSize: 0.1, maxLeverage: 125, amountStep: 0.01 });
+    expect(await broker.getContractSize('BTC_USDT')).toBe(0.01);
+    await expect(broker.getInstrumentInfo('DOGEUSDT')).rejects.toThrow('not found');
+  });
+
+  it('streams public trades', async () => {
+    const trades: Trade[] = [];
+    await broker.subscribeTrades('BTCUSDT', (t) => trades.push(t));
+
+    mock.broadcastPublic({
+      arg: { channel: 'trades', instId: 'BTC-USDT-SWAP' },
+      data: [{ instId: 'BTC-USDT-SWAP', tradeId: 't-1', px: '50000', sz: '3', side: 'buy', ts: '1700000000000' }],
+    });
+
+    await waitFor(() => trades.length === 1);
+    expect(trades[0]).toMatchObject({ tradeId: 't-1', instrument: 'BTC-USDT-SWAP', side: 'buy', amount: 3, price: 50000 });
+  });
+
+  it('logs in on the private stream and routes order updates per instId', async () => {
+    const updates: Order[] = [];
+    await broker.subscribeOrders('BTCUSDT', (o) => updates.push(o));
+
+    mock.broadcastPrivate({
+      arg: { channel: 'orders', instType: 'SWAP', instId: 'BTC-USDT-SWAP' },
+      data: [
+        { ordId: 'o-1', instId: 'BTC-USDT-SWAP', side: 'buy', ordType: 'limit', sz: '2', px: '50000', accFillSz: '2', state: 'filled', cTime: '1700000000000' },
+        { ordId: 'o-2', instId: 'ETH-USDT-SWAP', side: 'buy', ordType: 'limit', sz: '1', px: '3000', accFillSz: '0', state: 'live', cTime: '1700000000000' },
+      ],
+    });
+
+    await waitFor(() => updates.length === 1);
+    expect(updates[0]).toMatchObject({ orderId: 'o-1', status: 'filled', filled: 2 });
+  });
+
+  it('streams own fills from the orders channel alongside order updates', async () => {
+    const updates: Order[] = [];
+    const fills: Trade[] = [];
+    await broker.subscribeOrders('BTCUSDT', (o) => updates.push(o));
+    await broker.subscribeFills('BTCUSDT', (f) => fills.push(f));
+
+    mock.broadcastPrivate({
+      arg: { channel: 'orders', instType: 'SWAP', instId: 'BTC-USDT-SWAP' },
+      data: [
+        { ordId: 'o-5', clOrdId: 'razor_long_1', instId: 'BTC-USDT-SWAP', side: 'buy', ordType: 'limit', sz: '2', px: '50000', accFillSz: '1', state: 'partially_filled', cTime: '1700000000000',
+          tradeId: 't-9', fillSz: '1', fillPx: '50000', fillTime: '1700000001000', fillFee: '-0.25', fillFeeCcy: 'USDT' },
+        { ordId: 'o-6', instId: 'BTC-USDT-SWAP', side: 'sell', ordType: 'limit', sz: '1', px: '51000', accFillSz: '0', state: 'live', cTime: '1700000000000', tradeId: '', fillSz: '0' },
+      ],
+    });
+
+    await waitFor(() => updates.length === 2 && fills.length === 1);
+    expect(fills[0]).toEqual({
+      tradeId: 't-9', orderId: 'o-5', instrument: 'BTC-USDT-SWAP', side: 'buy', amount: 1, price: 50000,
+      timestamp: 1700000001000, fee: 0.25, feeCurrency: 'USDT', label: 'razor_long_1',
+    });
+  });
+
+  it('reconnects the public stream and resubscribes trades and mark price', async () => {
+    const trades: Trade[] = [];
+    await broker.subscribeTrades('BTCUSDT', (t) => trades.push(t));
+    await broker.subscribeMarkPrice('BTCUSDT', () => {});
+    mock.publicMessages = [];
+
+    mock.publicSockets[mock.publicSockets.length - 1].terminate();
+    await waitFor(() => mock.publicMessages.length === 1, 3000);
+    expect(mock.publicMessages[0]).toEqual({
+      op: 'subscribe',
+      args: [
+        { channel: 'trades', instId: 'BTC-USDT-SWAP' },
+        { channel: 'mark-price', instId: 'BTC-USDT-SWAP' },
+        { channel: 'funding-rate', instId: 'BTC-USDT-SWAP' },
+        { channel: 'index-tickers', instId: 'BTC-USDT' },
+      ],
+    });
+    expect(broker['pingTimers'].size).toBe(1);
+
+    mock.broadcastPublic({
+      arg: { channel: 'trades', instId: 'BTC-USDT-SWAP' },
+      data: [{ tradeId: 't-2', instId: 'BTC-USDT-SWAP', side: 'sell', sz: '1', px: '50100', ts: '1700000001000' }],
+    });
+    await waitFor(() => trades.length === 1);
+    expect(trades[0]).toMatchObject({ tradeId: 't-2', side: 'sell' });
+  });
+
+  it('reconnects, logs in again and resubscribes the orders channel once per instrument', async () => {
+    const updates: Order[] = [];
+    await broker.subscribeOrders('BTCUSDT', (o) => updates.push(o));
+    await broker.subscribeFills('BTCUSDT', () => {});
+    mock.privateMessages = [];
+
+    mock.privateSockets[mock.privateSockets.length - 1].terminate();
+    await waitFor(() => mock.privateMessages.some(m => m.op === 'subscribe'), 3000);
+    expect(mock.privateMessages.map(m => m.op)).toEqual(['login', 'subscribe']);
+    expect(mock.privateMessages[1].args).toEqual([{ channel: 'orders', instType: 'SWAP', instId: 'BTC-USDT-SWAP' }]);
+
+    mock.broadcastPrivate({
+      arg: { channel: 'orders', instType: 'SWAP', instId: 'BTC-USDT-SWAP' },
+      data: [{ ordId: 'o-7', instId: 'BTC-USDT-SWAP', side: 'sell', ordType: 'limit', sz: '1', px: '51000', accFillSz: '0', state: 'live', cTime: '1700000000000' }],
+    });
+    await waitFor(() => updates.length === 1);
+    expect(updates[0]).toMatchObject({ orderId: 'o-7', status: 'open' });
+  });
+
+  it('rejects when the private stream login is not answered in time', async () => {
+    mock.answerLogin = false;
+    (broker as any).LOGIN_TIMEOUT = 100;
+
+    await expect(broker.subscribeOrders('BTCUSDT', () => {})).rejects.toThrow('WebSocket login timed out');
+    const socket = mock.privateSockets[mock.privateSockets.length - 1];
+    await waitFor(() => socket.readyState === WebSocket.CLOSED);
+  });
+
+  it('skips unparseable frames while waiting for the login answer', async () => {
+    mock.garbageBeforeLogin = true;
+
+    await broker.subscribeOrders('BTCUSDT', () => {});
+    expect(broker['privateWs']).not.toBeNull();
+  });
+
+  it('fails the private stream when login is rejected', async () => {
+    const bad = new OKXBroker({ restUrl: mock.restUrl, privateWsUrl: mock.privateWsUrl });
+    await bad.connect({ apiKey: API_KEY, apiSecret: API_SECRET, passphrase: PASSPHRASE });
+    (bad as any).credentials.passphrase = 'wrong';
+
+    await expect(bad.subscribeOrders('BTCUSDT', () => {})).rejects.toBeInstanceOf(OKXApiError);
+    await bad.disconnect();
+  });
+});
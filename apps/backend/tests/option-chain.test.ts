@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  OptionChainService,
+  UnknownExpiryError,
+  contractsToCover,
+  parseOptionInstrument,
+  underlyingExposure,
+} from '../src/instruments/option-chain';
+import { DeribitBroker, InsufficientMarginError, OrderValidationError } from '../src/brokers/DeribitBroker';
+
+const DEC = Date.UTC(2030, 11, 27, 8);
+const JAN = Date.UTC(2031, 0, 31, 8);
+
+const instrument = (name: string, strike: number, expiry: number) => ({
+  instrument_name: name,
+  kind: 'option',
+  strike,
+  expiration_timestamp: expiry,
+  contract_size: 1,
+  min_trade_amount: 0.1,
+  tick_size: 0.0005,
+  is_active: true,
+});
+
+const ticker = (name: string, delta: number) => ({
+  instrument_name: name,
+  mark_price: 0.05,
+  mark_iv: 55,
+  best_bid_price: 0.045,
+  best_ask_price: 0.055,
+  bid_iv: 53,
+  ask_iv: 57,
+  underlying_price: 60000,
+  open_interest: 12,
+  greeks: { delta, gamma: 0.0001, vega: 40, theta: -25, rho: 10 },
+  timestamp: 1700000000000,
+});
+
+describe('parseOptionInstrument', () => {
+  it('parses inverse and linear option names', () => {
+    expect(parseOptionInstrument('BTC-27DEC30-60000-C')).toEqual({
+      instrumentName: 'BTC-27DEC30-60000-C',
+      base: 'BTC',
+      settle: 'BTC',
+      expiry: DEC,
+      expiryLabel: '27DEC30',
+      strike: 60000,
+      optionType: 'call',
+      contractType: 'inverse',
+    });
+    expect(parseOptionInstrument('XRP_USDC-5JAN31-0d625-P')).toMatchObject({
+      base: 'XRP', settle: 'USDC', strike: 0.625, optionType: 'put', contractType: 'linear', expiryLabel: '5JAN31',
+    });
+    expect(parseOptionInstrument('BTC-PERPETUAL')).toBeNull();
+    expect(parseOptionInstrument('BTC-27DEC30')).toBeNull();
+  });
+
+  it('sizes hedges in whole lots of the underlying', () => {
+    // 30000 USD inverse perp at 60000 = 0.5 BTC
+    const exposure = underlyingExposure(30000, 'inverse', 60000);
+    expect(exposure).toBe(0.5);
+    expect(contractsToCover(exposure, { contractSize: 1, minTradeAmount: 0.1 })).toBe(0.5);
+    expect(contractsToCover(0.37, { contractSize: 1, minTradeAmount: 0.1 })).toBe(0.3);
+    expect(underlyingExposure(2, 'linear', 60000)).toBe(2);
+  });
+});
+
+describe('OptionChainService', () => {
+  let client: { getInstruments: ReturnType<typeof vi.fn>; getTicker: ReturnType<typeof vi.fn> };
+  let service: OptionChainService;
+
+  beforeEach(() => {
+    client = {
+      getInstruments: vi.fn().mockResolvedValue([
+        instrument('BTC-31JAN31-60000-C', 60000, JAN),
+        instrument('BTC-27DEC30-65000-C', 65000, DEC),
+        instrument('BTC-27DEC30-55000-P', 55000, DEC),
+        instrument('BTC-27DEC30-60000-P', 60000, DEC),
+        instrument('BTC-27DEC30-60000-C', 60000, DEC),
+      ]),
+      getTicker: vi.fn().mockImplementation(async (name: string) => ticker(name, name.endsWith('-C') ? 0.5 : -0.5)),
+    };
+    service = new OptionChainService(client as any);
+  });
+
+  it('lists expiries nearest first with sorted strikes', async () => {
+    const expiries = await service.getExpiries('btc');
+
+    expect(client.getInstruments).toHaveBeenCalledWith('BTC', 'option');
+    expect(expiries).toEqual([
+      { base: 'BTC', expiry: DEC, expiryLabel: '27DEC30', strikes: [55000, 60000, 65000] },
+      { base: 'BTC', expiry: JAN, expiryLabel: '31JAN31', strikes: [60000] },
+    ]);
+
+    await service.getExpiries('BTC');
+    expect(client.getInstruments).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds a chain for the nearest expiry with greeks and IV', async () => {
+    const chain = await service.getChain('BTC');
+
+    expect(chain).toMatchObject({ currency: 'BTC', base: 'BTC', expiry: DEC, expiryLabel: '27DEC30', underlyingPrice: 60000 });
+    expect(chain.rows.map(r => r.strike)).toEqual([55000, 60000, 65000]);
+    expect(chain.rows[0].call).toBeUndefined();
+    expect(chain.rows[1].call).toMatchObject({ instrumentName: 'BTC-27DEC30-60000-C', markIv: 55, bidIv: 53 });
+    expect(chain.rows[1].put?.greeks).toEqual({ delta: -0.5, gamma: 0.0001, vega: 40, theta: -25, rho: 10 });
+  });
+
+  it('filters by expiry and strike range', async () => {
+    const chain = await service.getChain('BTC', { expiry: '27dec30', minStrike: 60000 });
+
+    expect(chain.rows.map(r => r.strike)).toEqual([60000, 65000]);
+    expect(client.getTicker).toHaveBeenCalledTimes(3);
+    await expect(service.getChain('BTC', { expiry: '1FEB31' })).rejects.toBeInstanceOf(UnknownExpiryError);
+  });
+
+  it('keeps the USDC underlyings apart', async () => {
+    client.getInstruments.mockResolvedValue([
+      instrument('SOL_USDC-27DEC30-150-C', 150, DEC),
+      instrument('XRP_USDC-27DEC30-0d625-P', 0.625, DEC),
+      instrument('SOL_USDC-27DEC30-160-P', 160, DEC),
+    ]);
+
+    expect(await service.getExpiries('USDC')).toEqual([
+      { base: 'SOL', expiry: DEC, expiryLabel: '27DEC30', strikes: [150, 160] },
+      { base: 'XRP', expiry: DEC, expiryLabel: '27DEC30', strikes: [0.625] },
+    ]);
+
+    const chain = await service.getChain('USDC', { base: 'sol' });
+    expect(chain).toMatchObject({ currency: 'USDC', base: 'SOL', expiryLabel: '27DEC30' });
+    expect(chain.rows.map(r => r.strike)).toEqual([150, 160]);
+    expect(client.getTicker).not.toHaveBeenCalledWith('XRP_USDC-27DEC30-0d625-P');
+    await expect(service.getChain('USDC', { base: 'ADA' })).rejects.toThrow('No ADA options expiring (any)');
+  });
+});
+
+describe('DeribitBroker option orders', () => {
+  let broker: DeribitBroker;
+  let client: any;
+
+  beforeEach(() => {
+    broker = new DeribitBroker();
+    client = broker['client'];
+    vi.spyOn(client, 'getInstrument').mockResolvedValue({ min_trade_amount: 0.1, tick_size: 0.0005, contract_size: 1 });
+    vi.spyOn(client, 'getAccountSummary').mockResolvedValue({ available_funds: 0.05 });
+  });
+
+  it('checks the premium against funds in the settlement currency', async () => {
+    const place = vi.spyOn(client, 'placeOrder').mockResolvedValue({ order_id: 'opt-1', order_state: 'open' });
+
+    const order = await broker.placeOrder({ instrument: 'BTC-27DEC30-55000-P', side: 'buy', type: 'limit', amount: 0.5, price: 0.02 });
+
+    expect(client.getAccountSummary).toHaveBeenCalledWith('BTC');
+    expect(place).toHaveBeenCalledWith(expect.objectContaining({ instrument_name: 'BTC-27DEC30-55000-P', amount: 0.5, price: 0.02 }));
+    expect(order).toMatchObject({ orderId: 'opt-1', amount: 0.5 });
+
+    await expect(broker.placeOrder({ instrument: 'BTC-27DEC30-55000-P', side: 'buy', type: 'limit', amount: 1, price: 0.06 }))
+      .rejects.toBeInstanceOf(InsufficientMarginError);
+  });
+
+  it('rejects brackets on options', async () => {
+    await expect(broker.placeOrder({
+      instrument: 'BTC-27DEC30-65000-C',
+      side: 'sell',
+      type: 'limit',
+      amount: 0.5,
+      price: 0.03,
+      otocoConfig: { stopLoss: { type: 'stop_market', triggerPrice: 0.06 } },
+    } as any)).rejects.toBeInstanceOf(OrderValidationError);
+  });
+
+  it('looks up option instrument info by its Deribit name', async () => {
+    await expect(broker.getInstrumentInfo('BTC-27DEC30-55000-P')).resolves.toMatchObject({ minTradeAmount: 0.1, tickSize: 0.0005 });
+    expect(client.getInstrument).toHaveBeenCalledWith('BTC-27DEC30-55000-P');
+  });
+
+  it('queries option positions for option instruments', async () => {
+    const getPositions = vi.spyOn(client, 'getPositions').mockResolvedValue([]);
+    await broker.getPositions('BTC-27DEC30-55000-P');
+    expect(getPositions).toHaveBeenCalledWith('BTC', 'option');
+  });
+});
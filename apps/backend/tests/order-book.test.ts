@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LocalOrderBook } from '../src/brokers/OrderBook';
+import { BackendDeribitClient } from '../src/deribit-client';
+import { DeribitBroker } from '../src/brokers/DeribitBroker';
+import type { OrderBookSnapshot, Trade } from '../src/brokers/IBroker';
+
+const INSTRUMENT = 'BTC-PERPETUAL';
+const CHANNEL = `book.${INSTRUMENT}.100ms`;
+
+const snapshot = (changeId: number) => ({
+  type: 'snapshot',
+  timestamp: 1000,
+  change_id: changeId,
+  bids: [['new', 50000, 100], ['new', 49990, 300], ['new', 49980, 50]],
+  asks: [['new', 50010, 200], ['new', 50020, 400]],
+});
+
+describe('LocalOrderBook', () => {
+  let book: LocalOrderBook;
+
+  beforeEach(() => {
+    book = new LocalOrderBook(INSTRUMENT);
+    book.applySnapshot([[50000, 100], [49990, 300]], [[50010, 200], [50020, 400]], 10, 1000);
+  });
+
+  it('applies incremental updates in change id order', () => {
+    expect(book.applyDelta([[50000, 0], [50005, 20]], [[50010, 150]], 11, 10, 1100)).toBe(true);
+
+    expect(book.bestBid()).toEqual({ price: 50005, amount: 20 });
+    expect(book.getBids()).toEqual([{ price: 50005, amount: 20 }, { price: 49990, amount: 300 }]);
+    expect(book.snapshot(1)).toEqual({
+      instrument: INSTRUMENT,
+      bids: [{ price: 50005, amount: 20 }],
+      asks: [{ price: 50010, amount: 150 }],
+      changeId: 11,
+      timestamp: 1100,
+    });
+  });
+
+  it('invalidates on a change id gap', () => {
+    expect(book.applyDelta([[50000, 10]], [], 13, 12, 1100)).toBe(false);
+    expect(book.isSynced()).toBe(false);
+    expect(book.getBids()).toEqual([]);
+    expect(book.applyDelta([[50000, 10]], [], 14, 13, 1200)).toBe(false);
+  });
+
+  it('exposes spread, imbalance and queue ahead', () => {
+    expect(book.midPrice()).toBe(50005);
+    expect(book.spreadBps()).toBeCloseTo((10 / 50005) * 10000, 10);
+    expect(book.imbalance()).toBeCloseTo((400 - 600) / 1000, 10);
+    expect(book.imbalance(1)).toBeCloseTo((100 - 200) / 300, 10);
+    expect(book.volumeAhead('buy', 49990)).toBe(400);
+    expect(book.volumeAhead('sell', 50010)).toBe(200);
+  });
+});
+
+describe('Deribit order book feed', () => {
+  let client: BackendDeribitClient;
+  let send: ReturnType<typeof vi.fn>;
+  const notify = (data: any) => client['subscriptions'].get(CHANNEL)!(data);
+
+  beforeEach(() => {
+    client = new BackendDeribitClient('testnet');
+    send = vi.spyOn(client, 'sendRequest').mockResolvedValue([CHANNEL]) as any;
+  });
+
+  it('shares one book per instrument and notifies only when synced', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const book = await client.subscribeOrderBook(INSTRUMENT, first);
+    expect(await client.subscribeOrderBook(INSTRUMENT, second)).toBe(book);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith('public/subscribe', { channels: [CHANNEL] });
+
+    notify({ type: 'change', change_id: 5, prev_change_id: 4, bids: [], asks: [] });
+    expect(first).not.toHaveBeenCalled();
+
+    notify(snapshot(10));
+    notify({ type: 'change', timestamp: 1100, change_id: 11, prev_change_id: 10, bids: [['delete', 50000, 0]], asks: [['change', 50010, 50]] });
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(book.bestBid()).toEqual({ price: 49990, amount: 300 });
+    expect(book.bestAsk()).toEqual({ price: 50010, amount: 50 });
+
+    await client.unsubscribeOrderBook(INSTRUMENT, first);
+    expect(send).not.toHaveBeenCalledWith('public/unsubscribe', expect.anything());
+    await client.unsubscribeOrderBook(INSTRUMENT, second);
+    expect(send).toHaveBeenLastCalledWith('public/unsubscribe', { channels: [CHANNEL] });
+  });
+
+  it('resubscribes for a fresh snapshot after a sequence gap', async () => {
+    const listener = vi.fn();
+    const book = await client.subscribeOrderBook(INSTRUMENT, listener);
+    notify(snapshot(10));
+    send.mockClear();
+
+    notify({ type: 'change', change_id: 13, prev_change_id: 12, bids: [], asks: [] });
+    notify({ type: 'change', change_id: 14, prev_change_id: 13, bids: [], asks: [] });
+    await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(2));
+
+    expect(book.isSynced()).toBe(false);
+    expect(send.mock.calls.map(c => c[0])).toEqual(['public/unsubscribe', 'public/subscribe']);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    notify(snapshot(20));
+    expect(book.isSynced()).toBe(true);
+    expect(book.getChangeId()).toBe(20);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('DeribitBroker.subscribeOrderBook', () => {
+  it('delivers depth-limited snapshots and unsubscribes by book channel', async () => {
+    const broker = new DeribitBroker();
+    const client = broker['client'];
+    const send = vi.spyOn(client, 'sendRequest').mockResolvedValue([CHANNEL]);
+    const books: OrderBookSnapshot[] = [];
+
+    await broker.subscribeOrderBook(INSTRUMENT, 2, (b) => books.push(b));
+    client['subscriptions'].get(CHANNEL)!(snapshot(10));
+
+    expect(books[0].bids).toEqual([{ price: 50000, amount: 100 }, { price: 49990, amount: 300 }]);
+    expect(books[0].asks).toHaveLength(2);
+
+    await broker.unsubscribe(`book:${INSTRUMENT}`);
+    expect(send).toHaveBeenLastCalledWith('public/unsubscribe', { channels: [CHANNEL] });
+    await expect(broker.unsubscribe(`candles:${INSTRUMENT}`)).rejects.toThrow('Unknown channel');
+  });
+});
+
+describe('DeribitBroker trade and fill streams', () => {
+  it('keeps public trades and own fills on separate channels', async () => {
+    const broker = new DeribitBroker();
+    const client = broker['client'];
+    const send = vi.spyOn(client, 'sendRequest').mockResolvedValue([]);
+    client['authenticated'] = true;
+    const trades: Trade[] = [];
+    const fills: Trade[] = [];
+
+    await broker.subscribeTrades(INSTRUMENT, (t) => trades.push(t));
+    await broker.subscribeFills(INSTRUMENT, (f) => fills.push(f));
+    expect(send.mock.calls).toEqual([
+      ['public/subscribe', { channels: [`trades.${INSTRUMENT}.raw`] }],
+      ['private/subscribe', { channels: [`user.trades.${INSTRUMENT}.raw`] }],
+    ]);
+
+    client['subscriptions'].get(`trades.${INSTRUMENT}.raw`)!([
+      { trade_id: 'p-1', instrument_name: INSTRUMENT, direction: 'sell', amount: 100, price: 50000, timestamp: 1 },
+    ]);
+    client['subscriptions'].get(`user.trades.${INSTRUMENT}.raw`)!([
+      { trade_id: 'u-1', order_id: 'o-1', instrument_name: INSTRUMENT, direction: 'buy', amount: 10, price: 50001, timestamp: 2, label: 'razor_long_1' },
+    ]);
+    expect(trades).toEqual([expect.objectContaining({ tradeId: 'p-1', orderId: '' })]);
+    expect(fills).toEqual([expect.objectContaining({ tradeId: 'u-1', orderId: 'o-1', label: 'razor_long_1' })]);
+
+    await broker.unsubscribe(`trades:${INSTRUMENT}`);
+    await broker.unsubscribe(`fills:${INSTRUMENT}`);
+    expect(send.mock.calls.slice(2)).toEqual([
+      ['public/unsubscribe', { channels: [`trades.${INSTRUMENT}.raw`] }],
+      ['private/unsubscribe', { channels: [`user.trades.${INSTRUMENT}.raw`] }],
+    ]);
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PaperBroker, type PaperMarketData, type PaperTick } from '../src/brokers/PaperBroker';
+import type { Order, Trade } from '../src/brokers/IBroker';
+
+const INSTRUMENT = 'BTC_USDC-PERPETUAL';
+
+/**
+ * In-memory market data: ticks are pushed by the test
+ */
+class FakeMarketData implements PaperMarketData {
+  callbacks = new Map<string, (tick: PaperTick) => void>();
+  connected = false;
+
+  async connect() { this.connected = true; }
+  async disconnect() { this.connected = false; }
+  async getTicker(instrument: string): Promise<PaperTick> {
+    return { instrument, price: 50000, bid: 49995, ask: 50005, timestamp: 1 };
+  }
+  async subscribeTicker(instrument: string, callback: (tick: PaperTick) => void) {
+    this.callbacks.set(instrument, callback);
+  }
+  async unsubscribeTicker(instrument: string) { this.callbacks.delete(instrument); }
+  async getCandles() { return []; }
+  async getInstrumentInfo() {
+    return { minTradeAmount: 0.0001, tickSize: 1, maxLeverage: 50, amountStep: 0.0001 };
+  }
+
+  push(price: number, timestamp: number, spread = 0): void {
+    this.callbacks.get(INSTRUMENT)?.({
+      instrument: INSTRUMENT,
+      price,
+      bid: spread ? price - spread : undefined,
+      ask: spread ? price + spread : undefined,
+      timestamp,
+    });
+  }
+}
+
+describe('PaperBroker', () => {
+  let market: FakeMarketData;
+  let broker: PaperBroker;
+
+  beforeEach(async () => {
+    market = new FakeMarketData();
+    broker = new PaperBroker(market, { initialBalance: 10000, takerFee: 0.001, makerFee: 0.0002, slippageBps: 10 });
+    await broker.connect({ apiKey: '', apiSecret: '' });
+  });
+
+  it('connects without credentials', () => {
+    expect(broker.getConnectionStatus()).toBe('connected');
+    expect(market.connected).toBe(true);
+  });
+
+  it('fills market orders at the ask plus slippage and charges taker fee', async () => {
+    const order = await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 0.1 });
+
+    const expectedPrice = 50005 * 1.001;
+    expect(order.status).toBe('filled');
+    expect(order.price).toBeCloseTo(expectedPrice, 6);
+
+    const [fill] = broker.getFills();
+    expect(fill.fee).toBeCloseTo(0.1 * expectedPrice * 0.001, 6);
+    expect((await broker.getPositions())[0]).toMatchObject({ instrument: INSTRUMENT, side: 'long', size: 0.1 });
+  });
+
+  it('rests limit orders and fills them as maker once traded through', async () => {
+    const order = await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'limit', amount: 1, price: 49000 });
+    expect(order.status).toBe('open');
+
+    market.push(49500, 2);
+    expect((await broker.getOrder(order.orderId, INSTRUMENT)).status).toBe('open');
+
+    market.push(48990, 3);
+    const filled = await broker.getOrder(order.orderId, INSTRUMENT);
+    expect(filled).toMatchObject({ status: 'filled', price: 49000, filled: 1 });
+    expect(broker.getFills()[0].fee).toBeCloseTo(49000 * 0.0002, 6);
+  });
+
+  it('triggers stop orders on last price', async () => {
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1 });
+    const stop = await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'sell', type: 'stop_market', amount: 1, price: 49000, reduceOnly: true,
+    });
+
+    market.push(49100, 2);
+    expect((await broker.getOrder(stop.orderId, INSTRUMENT)).status).toBe('open');
+
+    market.push(48950, 3);
+    expect((await broker.getOrder(stop.orderId, INSTRUMENT)).status).toBe('filled');
+    expect(await broker.getPositions()).toEqual([]);
+  });
+
+  it('places OTOCO legs on entry fill and cancels the sibling when one fills', async () => {
+    const updates: Order[] = [];
+    await broker.subscribeOrders(INSTRUMENT, (o) => updates.push(o));
+
+    const entry = await broker.placeOrder({
+      instrument: INSTRUMENT,
+      side: 'buy',
+      type: 'market',
+      amount: 1,
+      label: 'razor_entry',
+      otocoConfig: {
+        stopLoss: { type: 'stop_market', triggerPrice: 49000 },
+        takeProfit: { type: 'take_limit', price: 52000 },
+      },
+    });
+
+    const legs = await broker.getOpenOrders(INSTRUMENT);
+    expect(legs.map(l => l.label).sort()).toEqual(['razor_entry_sl', 'razor_entry_tp']);
+    expect(legs.every(l => l.ocoRef === entry.orderId)).toBe(true);
+
+    market.push(52100, 2);
+
+    expect(await broker.getOpenOrders(INSTRUMENT)).toEqual([]);
+    const tp = updates.find(u => u.label === 'razor_entry_tp' && u.status === 'filled');
+    const sl = updates.find(u => u.label === 'razor_entry_sl' && u.status === 'cancelled');
+    // Triggered take_limit crosses the book: fills at market (less slippage), never below its limit
+    expect(tp?.price).toBeCloseTo(52100 * 0.999, 6);
+    expect(sl).toBeDefined();
+  });
+
+  it('tracks realized PnL and fees in the virtual balance', async () => {
+    const flat = new PaperBroker(market, { initialBalance: 1000, takerFee: 0.001, makerFee: 0, slippageBps: 0 });
+    await flat.connect({ apiKey: '', apiSecret: '' });
+
+    await flat.placeOrder({ instrument: INSTRUMENT, side: 'sell', type: 'market', amount: 0.5 });
+    expect((await flat.getPositions())[0]).toMatchObject({ side: 'short', size: 0.5, entryPrice: 49995 });
+
+    market.push(48000, 2, 5);
+    const [open] = await flat.getPositions(INSTRUMENT);
+    expect(open.markPrice).toBe(48000);
+    expect(open.unrealizedPnl).toBeCloseTo((48000 - 49995) * -0.5, 6);
+
+    await flat.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 0.5 });
+
+    const fees = flat.getFills().reduce((sum, f) => sum + (f.fee || 0), 0);
+    const realized = (49995 - 48005) * 0.5;
+    const [balance] = await flat.getBalance();
+    expect(balance.currency).toBe('USDC');
+    expect(balance.total).toBeCloseTo(1000 + realized - fees, 6);
+    expect(balance.locked).toBe(0);
+  });
+
+  it('cancels reduce-only orders once the position is flat', async () => {
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1 });
+    const tp = await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'sell', type: 'take_market', amount: 1, price: 55000, reduceOnly: true,
+    });
+
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'sell', type: 'market', amount: 1 });
+
+    expect((await broker.getOrder(tp.orderId, INSTRUMENT)).status).toBe('cancelled');
+  });
+
+  it('edits open orders and re-matches them at the new price', async () => {
+    const order = await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'limit', amount: 1, price: 49000 });
+
+    const edited = await broker.editOrder(order.orderId, INSTRUMENT, { price: 49500, amount: 2 });
+    expect(edited).toMatchObject({ status: 'open', price: 49500, amount: 2 });
+
+    // Amended through the market: takes liquidity immediately
+    const taken = await broker.editOrder(order.orderId, INSTRUMENT, { price: 51000 });
+    expect(taken.status).toBe('filled');
+    expect(taken.price).toBeCloseTo(50005 * 1.001, 6);
+    await expect(broker.editOrder(order.orderId, INSTRUMENT, { price: 1 })).rejects.toThrow('already filled');
+  });
+
+  it('moves a stop trigger with editOrder', async () => {
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1 });
+    const sl = await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'sell', type: 'stop_market', amount: 1, price: 48000, reduceOnly: true,
+    });
+
+    await broker.editOrder(sl.orderId, INSTRUMENT, { price: 49800 });
+    market.push(49900, 2);
+    expect((await broker.getOrder(sl.orderId, INSTRUMENT)).status).toBe('open');
+    market.push(49790, 3);
+    expect((await broker.getOrder(sl.orderId, INSTRUMENT)).status).toBe('filled');
+  });
+
+  it('moves a stop_limit with its limit offset unless a limit price is given', async () => {
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1 });
+    const sl = await broker.placeOrder({
+      instrument: INSTRUMENT, side: 'sell', type: 'stop_limit', amount: 1, triggerPrice: 48000, price: 47900, reduceOnly: true,
+    });
+
+    await broker.editOrder(sl.orderId, INSTRUMENT, { price: 49800 });
+    expect((broker as any).orders.get(sl.orderId)).toMatchObject({ triggerPrice: 49800, limitPrice: 49700 });
+
+    await broker.editOrder(sl.orderId, INSTRUMENT, { limitPrice: 49750 });
+    expect((broker as any).orders.get(sl.orderId)).toMatchObject({ triggerPrice: 49800, limitPrice: 49750 });
+  });
+
+  it('closes positions fully or partially with reduce-only orders', async () => {
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1 });
+
+    const partial = await broker.closePosition(INSTRUMENT, { amount: 0.4 });
+    expect(partial).toMatchObject({ side: 'sell', status: 'filled', amount: 0.4 });
+    expect((await broker.getPositions(INSTRUMENT))[0].size).toBeCloseTo(0.6, 10);
+
+    const limit = await broker.closePosition(INSTRUMENT, { type: 'limit', price: 51000 });
+    expect(limit).toMatchObject({ status: 'open', price: 51000 });
+    expect(limit.amount).toBeCloseTo(0.6, 10);
+
+    await broker.closePosition(INSTRUMENT);
+    expect(await broker.getPositions()).toEqual([]);
+    // Flat: the resting reduce-only limit is cancelled
+    expect((await broker.getOrder(limit.orderId, INSTRUMENT)).status).toBe('cancelled');
+    await expect(broker.closePosition(INSTRUMENT)).rejects.toThrow('No open position');
+  });
+
+  it('streams ticks as trades and supports cancel', async () => {
+    const trades: Trade[] = [];
+    await broker.subscribeTrades(INSTRUMENT, (t) => trades.push(t));
+    market.push(50100, 5);
+    expect(trades[0]).toMatchObject({ instrument: INSTRUMENT, price: 50100, timestamp: 5 });
+
+    const order = await broker.placeOrder({ instrument: INSTRUMENT, side: 'sell', type: 'limit', amount: 1, price: 60000 });
+    await broker.cancelOrder(order.orderId, INSTRUMENT);
+    expect((await broker.getOrder(order.orderId, INSTRUMENT)).status).toBe('cancelled');
+    await expect(broker.cancelOrder(order.orderId, INSTRUMENT)).rejects.toThrow('already cancelled');
+  });
+
+  it('streams own fills with the order label', async () => {
+    const fills: Trade[] = [];
+    await broker.subscribeFills(INSTRUMENT, (f) => fills.push(f));
+
+    const order = await broker.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1, label: 'razor_long_1' });
+    expect(fills).toHaveLength(1);
+    expect(fills[0]).toMatchObject({ orderId: order.orderId, side: 'buy', amount: 1, label: 'razor_long_1' });
+
+    await broker.unsubscribe(`fills:${INSTRUMENT}`);
+    await broker.placeOrder({ instrument: INSTRUMENT, side: 'sell', type: 'market', amount: 1 });
+    expect(fills).toHaveLength(1);
+  });
+
+  it('accepts replayed ticks without a market data source', async () => {
+    const replay = new PaperBroker(null, { takerFee: 0, slippageBps: 0 });
+    await replay.connect({ apiKey: '', apiSecret: '' });
+
+    await expect(replay.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1 }))
+      .rejects.toThrow('No market data');
+
+    replay.processTick({ instrument: INSTRUMENT, price: 100, timestamp: 1 });
+    const order = await replay.placeOrder({ instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 1 });
+    expect(order).toMatchObject({ status: 'filled', price: 100 });
+  });
+});
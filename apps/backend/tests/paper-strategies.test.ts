@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+
+const repository = vi.hoisted(() => ({
+  save: vi.fn(),
+  updateStatus: vi.fn(),
+  updateHeartbeat: vi.fn(),
+  markDisconnected: vi.fn(),
+}));
+
+vi.mock('../src/services/user-strategy-repository', () => ({
+  userStrategyRepository: repository,
+}));
+
+vi.mock('../src/kv-storage', () => ({
+  kvStorage: {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(undefined),
+    delete: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../src/services/user-credentials-service', () => ({
+  DEFAULT_ACCOUNT: 'main',
+  isValidAccountName: () => true,
+  userCredentialsService: { loadCredentials: vi.fn() },
+}));
+
+import { BackendDeribitClient } from '../src/deribit-client';
+import { DeribitPaperMarketData, PaperBroker } from '../src/brokers/PaperBroker';
+import { PaperDeribitClient } from '../src/brokers/PaperDeribitClient';
+import { userBrokerRegistry } from '../src/user-broker-registry';
+import { UserStrategyService } from '../src/user-strategy-service';
+import { FastTestStrategy } from '../src/strategies/FastTestStrategy';
+import { parameterDefaults } from '../src/strategies/ParameterSchema';
+
+const INSTRUMENT = 'BTC_USDC-PERPETUAL';
+
+describe('paper strategies', () => {
+  const tickers = new Map<string, (ticker: any) => Promise<void>>();
+
+  beforeEach(() => {
+    tickers.clear();
+    Object.values(repository).forEach(fn => fn.mockReset());
+    repository.save.mockImplementation(async (strategy: any) => ({ ...strategy, id: 'strategy-1', configVersion: 1 }));
+
+    // Live public data: a flat BTC market, no network
+    vi.spyOn(BackendDeribitClient.prototype, 'connect').mockResolvedValue();
+    vi.spyOn(BackendDeribitClient.prototype, 'disconnect').mockImplementation(() => {});
+    vi.spyOn(BackendDeribitClient.prototype, 'isConnected').mockReturnValue(true);
+    vi.spyOn(BackendDeribitClient.prototype, 'getCandles').mockResolvedValue({ ticks: [], open: [], high: [], low: [], close: [], volume: [] } as any);
+    vi.spyOn(BackendDeribitClient.prototype, 'subscribeOrderBook').mockResolvedValue({ isSynced: () => false } as any);
+    vi.spyOn(BackendDeribitClient.prototype, 'getInstrument').mockResolvedValue({ tick_size: 0.5, min_trade_amount: 0.001 } as any);
+    vi.spyOn(BackendDeribitClient.prototype, 'getTicker').mockResolvedValue({ last_price: 100_000, best_bid_price: 100_000, best_ask_price: 100_000 } as any);
+    vi.spyOn(BackendDeribitClient.prototype, 'subscribeTicker').mockImplementation(async (instrument: string, callback: any) => {
+      tickers.set(instrument, callback);
+    });
+    vi.spyOn(DeribitPaperMarketData.prototype, 'getTicker').mockImplementation(async (instrument: string) =>
+      ({ instrument, price: 100_000, bid: 100_000, ask: 100_000, timestamp: Date.now() }));
+    vi.spyOn(DeribitPaperMarketData.prototype, 'subscribeTicker').mockResolvedValue();
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await userBrokerRegistry.disconnect('user-1', 'deribit', 'paper');
+    vi.restoreAllMocks();
+  });
+
+  it('starts, saves and trades a strategy on the paper broker', async () => {
+    await userBrokerRegistry.connect('user-1', 'deribit', 'paper');
+    const broker = userBrokerRegistry.getBroker('user-1', 'deribit', 'paper') as PaperBroker;
+    const client = userBrokerRegistry.getTradingClient('user-1', 'deribit', 'paper');
+    expect(userBrokerRegistry.getClient('user-1', 'deribit', 'paper')).toBeNull();
+    expect(client).toBeInstanceOf(PaperDeribitClient);
+    expect((client as PaperDeribitClient).broker).toBe(broker);
+
+    const service = new UserStrategyService();
+    vi.setSystemTime(Date.parse('2026-10-19T10:00:00Z'));
+    const result = await service.startStrategy({
+      userId: 'user-1',
+      strategyName: 'fasttest',
+      instrument: INSTRUMENT,
+      config: {
+        ...parameterDefaults(new FastTestStrategy().metadata.parameterSchema!),
+        accountEquityUsd: 1000,
+        orderIntervalSeconds: 5,
+      },
+      environment: 'paper',
+    });
+
+    expect(result).toMatchObject({ success: true, strategyId: 'strategy-1' });
+    expect(repository.save).toHaveBeenCalledWith(expect.objectContaining({ environment: 'paper', instrument: INSTRUMENT }));
+
+    await tickers.get(INSTRUMENT)!({ last_price: 100_000 });
+    vi.setSystemTime(Date.parse('2026-10-19T10:00:05Z'));
+    await tickers.get(INSTRUMENT)!({ last_price: 100_000 });
+
+    const [position] = await broker.getPositions(INSTRUMENT);
+    expect(position).toMatchObject({ side: 'long' });
+    const protective = await broker.getOpenOrders(INSTRUMENT);
+    expect(protective.map(o => o.type).sort()).toEqual(['limit', 'stop_market']);
+    expect(protective.every(o => o.reduceOnly)).toBe(true);
+    expect(await client!.getPositions('USDC')).toEqual([
+      expect.objectContaining({ instrument_name: INSTRUMENT, size: position.size, direction: 'buy' }),
+    ]);
+
+    await service.stopStrategy({ userId: 'user-1', strategyName: 'fasttest', instrument: INSTRUMENT, environment: 'paper' });
+  });
+
+  it('allows the paper environment in user_strategies', () => {
+    const migration = fs.readFileSync(path.join(__dirname, '../migrations/007_allow_paper_environment.sql'), 'utf8');
+    expect(migration).toContain("CHECK (environment IN ('live', 'testnet', 'paper'))");
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const history = vi.hoisted(() => ({
+  queryTrades: vi.fn(async () => []),
+  recordTrade: vi.fn(async () => 'trade-1'),
+  closeTrade: vi.fn(),
+}));
+const lifecycle = vi.hoisted(() => ({
+  checkPositionAndCleanup: vi.fn(async () => false),
+  on: vi.fn(),
+  off: vi.fn(),
+}));
+
+vi.mock('../src/services/trade-history', () => ({
+  getTradeHistoryService: () => history,
+  ensureTradeHistoryInitialized: async () => {},
+}));
+
+vi.mock('../src/services/order-lifecycle-manager', () => ({
+  initializeOrderLifecycleManager: () => lifecycle,
+  getOrderLifecycleManager: () => lifecycle,
+}));
+
+import { ScalpingStrategy, scalpingRequiredCandles } from '../src/strategies/ScalpingStrategy';
+import { FastTestStrategy } from '../src/strategies/FastTestStrategy';
+import { ThorExecutor, type ThorConfig } from '../src/strategies/thor-executor';
+import { parameterDefaults } from '../src/strategies/ParameterSchema';
+import { instanceLabelPrefix } from '../src/deribit-cancel-on-disconnect';
+import type { Candle, IStrategy, MarketData } from '../src/strategies/IStrategy';
+
+function candlesFrom(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({ timestamp: i * 2000, open: close, high: close, low: close, close, volume: 0 }));
+}
+
+function market(price: number, timestamp = 0, spread = 0): MarketData {
+  return { instrument: 'BTC_USDC-PERPETUAL', price, timestamp, bid: price - spread / 2, ask: price + spread / 2 };
+}
+
+async function initialized<T extends IStrategy>(strategy: T, parameters: Record<string, any> = {}): Promise<T> {
+  await strategy.initialize({
+    instrument: 'BTC_USDC-PERPETUAL',
+    timeframe: '2s',
+    riskPercent: 1,
+    parameters: { ...parameterDefaults(strategy.metadata.parameterSchema!), ...parameters },
+  });
+  return strategy;
+}
+
+// Steady climb, then a slow pullback: EMAs still bullish, RSI between 30 and 50
+const uptrendDip = [
+  ...Array.from({ length: 30 }, (_, i) => 100_000 + i * 30),
+  ...Array.from({ length: 12 }, (_, i) => 100_870 - i * 10),
+];
+const downtrendBounce = uptrendDip.map(p => 200_000 - p);
+
+describe('ScalpingStrategy', () => {
+  it('goes long with the EMA trend on an RSI dip, SL/TP at a fixed percentage', async () => {
+    const strategy = await initialized(new ScalpingStrategy());
+    const analysis = await strategy.analyze(market(100_760), candlesFrom(uptrendDip));
+
+    expect(analysis.signal).toBe('LONG');
+    expect(analysis.indicators.emaFast).toBeGreaterThan(analysis.indicators.emaSlow);
+    expect(analysis.indicators.rsi).toBeGreaterThan(30);
+    expect(analysis.indicators.rsi).toBeLessThan(50);
+    expect(analysis.confidence).toBeGreaterThanOrEqual(65);
+
+    const signal = await strategy.generateSignal(analysis, market(100_000));
+    expect(signal).toMatchObject({ side: 'buy', entryPrice: 100_000 });
+    expect(signal.stopLossPrice).toBeCloseTo(99_700);
+    expect(signal.takeProfitPrice).toBeCloseTo(100_300);
+  });
+
+  it('goes short on the mirrored setup', async () => {
+    const strategy = await initialized(new ScalpingStrategy());
+    const analysis = await strategy.analyze(market(downtrendBounce.at(-1)!), candlesFrom(downtrendBounce));
+
+    expect(analysis.signal).toBe('SHORT');
+    const signal = await strategy.generateSignal(analysis, market(100_000));
+    expect(signal.stopLossPrice).toBeCloseTo(100_300);
+  });
+
+  it('waits for enough candles and skips wide spreads', async () => {
+    const strategy = await initialized(new ScalpingStrategy());
+
+    const early = await strategy.analyze(market(100_000), candlesFrom(uptrendDip.slice(0, 10)));
+    expect(early.signal).toBe('NEUTRAL');
+    expect(early.metadata?.reasons).toEqual(['Onvoldoende data']);
+
+    const wide = await strategy.analyze(market(100_760, 0, 100), candlesFrom(uptrendDip));
+    expect(wide.signal).toBe('NEUTRAL');
+    expect(wide.metadata?.reasons).toEqual(['Spread te hoog']);
+  });
+
+  it('cools down after a closed position', async () => {
+    const strategy = await initialized(new ScalpingStrategy(), { cooldownSeconds: 30 });
+    await strategy.onPositionClosed({ instrument: 'BTC_USDC-PERPETUAL', exitReason: 'Take profit hit', timestamp: 1_000 });
+
+    const cooling = await strategy.analyze(market(100_760, 11_000), candlesFrom(uptrendDip));
+    expect(cooling.signal).toBe('NEUTRAL');
+    expect(cooling.metadata?.reasons).toEqual(['Cooldown (20s)']);
+    expect((await strategy.analyze(market(100_760, 31_000), candlesFrom(uptrendDip))).signal).toBe('LONG');
+  });
+
+  it('needs candles for the slowest indicator', () => {
+    expect(scalpingRequiredCandles({ emaSlowPeriod: 21, rsiPeriod: 14 })).toBe(21);
+    expect(scalpingRequiredCandles({ emaSlowPeriod: 10, rsiPeriod: 14 })).toBe(15);
+  });
+});
+
+describe('FastTestStrategy', () => {
+  it('always asks for a long with fixed SL/TP', async () => {
+    const strategy = await initialized(new FastTestStrategy(), { stopLossPercent: 0.5, takeProfitPercent: 1 });
+    const analysis = await strategy.analyze(market(100_000), []);
+
+    expect(analysis.signal).toBe('LONG');
+    const signal = await strategy.generateSignal(analysis, market(100_000));
+    expect(signal).toMatchObject({ side: 'buy', stopLossPrice: 99_500, takeProfitPrice: 101_000 });
+  });
+});
+
+describe('ThorExecutor runtime', () => {
+  let positions: any[];
+  const client = {
+    getCandles: vi.fn(),
+    subscribeOrderBook: vi.fn(async (_instrument: string, _listener: unknown) => ({ isSynced: () => false })),
+    unsubscribeOrderBook: vi.fn(async () => {}),
+    getPositions: vi.fn(async () => positions),
+    getInstrument: vi.fn(async () => ({ tick_size: 0.5, min_trade_amount: 0.001 })),
+    getTicker: vi.fn(async () => ({ last_price: 100_000, best_bid_price: 100_000, best_ask_price: 100_000 })),
+    placeBuyOrder: vi.fn(async () => ({ order: { order_id: 'buy' } })),
+    placeSellOrder: vi.fn(async () => ({ order: { order_id: 'sell' } })),
+    getOpenOrders: vi.fn(async () => []),
+    cancelOrder: vi.fn(),
+  };
+
+  beforeEach(() => {
+    positions = [];
+    Object.values(client).forEach(fn => fn.mockClear());
+    history.recordTrade.mockClear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('enters once per candle interval and closes positions held past the max hold time', async () => {
+    const strategy = new FastTestStrategy();
+    const config = { ...parameterDefaults(strategy.metadata.parameterSchema!), instrument: 'BTC_USDC-PERPETUAL', accountEquityUsd: 1000 };
+    const executor = new ThorExecutor(client as any, 'id', 'FastTest', config as ThorConfig, 'user-1', { strategyId: 'strategy-1', version: 3 }, {
+      strategy,
+      requiredCandles: 0,
+      labelPrefix: 'fast_test',
+      candleMs: 5_000,
+      maxHoldMs: 60_000,
+    });
+
+    const prefix = instanceLabelPrefix('fast_test', 'id');
+    await executor.initialize();
+    expect(client.getCandles).not.toHaveBeenCalled();
+
+    await executor.onTicker(100_000);
+    expect(client.placeBuyOrder).not.toHaveBeenCalled();
+
+    vi.setSystemTime(5_000);
+    await executor.onTicker(100_000);
+    expect(client.placeBuyOrder).toHaveBeenCalledWith('BTC_USDC-PERPETUAL', 0.017, undefined, 'market', `${prefix}_long_5000`);
+    expect(history.recordTrade).toHaveBeenCalledWith(expect.objectContaining({ strategyName: 'FastTest', configVersion: { strategyId: 'strategy-1', version: 3 }, userId: 'user-1' }));
+    expect(executor.getAnalysisState().status).toBe('position_open');
+
+    positions = [{ instrument_name: 'BTC_USDC-PERPETUAL', size: 0.017 }];
+    vi.setSystemTime(30_000);
+    await executor.onTicker(100_100);
+    expect(client.placeSellOrder).toHaveBeenCalledTimes(2); // SL + TP only
+
+    vi.setSystemTime(66_000);
+    await executor.onTicker(100_100);
+    expect(client.placeSellOrder).toHaveBeenLastCalledWith('BTC_USDC-PERPETUAL', 0.017, undefined, 'market', `${prefix}_close_66000`, true);
+
+    executor.cleanup();
+  });
+
+  it('releases its order book listener on cleanup', async () => {
+    const strategy = new FastTestStrategy();
+    const config = { ...parameterDefaults(strategy.metadata.parameterSchema!), instrument: 'BTC_USDC-PERPETUAL', accountEquityUsd: 1000 };
+    const executor = new ThorExecutor(client as any, 'id', 'FastTest', config as ThorConfig, 'user-1', { strategyId: 'strategy-1', version: 1 }, {
+      strategy,
+      requiredCandles: 0,
+      labelPrefix: 'fast_test',
+      candleMs: 5_000,
+    });
+    await executor.initialize();
+    const [instrument, listener] = client.subscribeOrderBook.mock.calls[0];
+
+    executor.cleanup();
+    expect(client.unsubscribeOrderBook).toHaveBeenCalledWith(instrument, listener);
+  });
+});
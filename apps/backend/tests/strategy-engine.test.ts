@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { StrategyEngine } from '../src/strategy-runner/StrategyEngine';
+import { RuleEvaluator } from '../src/strategy-runner/RuleExpression';
+import { CandleAggregator } from '../src/strategy-runner/CandleAggregator';
+import type { Candle, StrategyConfig, StrategyRule, RuleNode } from '../src/strategy-runner/types';
+
+function candles(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({
+    timestamp: i * 60_000,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+  }));
+}
+
+function config(rules: StrategyRule[], threshold?: number): StrategyConfig {
+  return {
+    id: 'test',
+    name: 'Test',
+    instrument: 'BTC_USDC-PERPETUAL',
+    timeframe: '1m',
+    rules,
+    threshold,
+    risk: { mode: 'percent', value: 1, maxLeverage: 10 },
+    stopLoss: { type: 'percent', value: 1 },
+    takeProfit: { type: 'risk_reward', value: 2 },
+  };
+}
+
+// Downtrend, then a jump on the last candle: EMA(3) crosses above EMA(10) only there
+const crossUp = [...Array.from({ length: 59 }, (_, i) => 200 - i), 200];
+
+const emaCross: RuleNode = {
+  left: { indicator: 'ema', period: 3 },
+  op: 'crosses_above',
+  right: { indicator: 'ema', period: 10 },
+};
+
+describe('RuleEvaluator', () => {
+  const evaluator = (closes: number[]) => new RuleEvaluator(() => candles(closes), '1m');
+
+  it('detects a crossover only on the candle where it happens', () => {
+    expect(evaluator(crossUp).evaluate(emaCross)).toBe(true);
+    expect(evaluator(crossUp.slice(0, -1)).evaluate(emaCross)).toBe(false);
+    expect(evaluator(crossUp).evaluate({ ...emaCross, op: '>' })).toBe(true);
+  });
+
+  it('combines conditions with all/any/not', () => {
+    const e = evaluator(crossUp);
+    const rsiHigh: RuleNode = { left: { indicator: 'rsi' }, op: '>', right: 90 };
+    const closeAbove: RuleNode = { left: { price: 'close' }, op: '>=', right: { price: 'close', offset: 1, multiplier: 1.3 } };
+
+    expect(e.evaluate({ all: [emaCross, { not: rsiHigh }] })).toBe(true);
+    expect(e.evaluate({ all: [emaCross, rsiHigh] })).toBe(false);
+    expect(e.evaluate({ any: [rsiHigh, closeAbove] })).toBe(true);
+  });
+
+  it('treats missing data as unknown, also under not', () => {
+    const e = evaluator(crossUp.slice(0, 5));
+    const rsiHigh: RuleNode = { left: { indicator: 'rsi' }, op: '>', right: 70 };
+
+    expect(e.evaluate(rsiHigh)).toBeNull();
+    expect(e.evaluate({ not: rsiHigh })).toBeNull();
+    expect(e.evaluate({ any: [{ not: rsiHigh }, { left: 1, op: '<', right: 2 }] })).toBe(true);
+  });
+
+  it('describes expressions for signal reasons', () => {
+    expect(RuleEvaluator.describe({
+      all: [emaCross, { not: { left: { indicator: 'rsi', timeframe: '15m' }, op: '>', right: 70 } }],
+    })).toBe('(EMA(3) crosses above EMA(10) AND NOT RSI(14, 15m) > 70)');
+  });
+
+  it('rejects invalid expressions with the offending path', () => {
+    expect(() => RuleEvaluator.validate({ all: [emaCross, { left: { indicator: 'macd' }, op: '>', right: 0 }] }, 'when'))
+      .toThrow('when.all[1].left: unknown indicator "macd"');
+    expect(() => RuleEvaluator.validate({ left: 1, op: 'equals', right: 1 }, 'when')).toThrow('when.op: unknown operator "equals"');
+    expect(() => RuleEvaluator.validate({ left: { price: 'close', timeframe: '2h' }, op: '>', right: 1 }, 'when'))
+      .toThrow('when.left.timeframe: unknown timeframe "2h"');
+    expect(() => RuleEvaluator.validate({ any: [] }, 'when')).toThrow('when.any: expected a non-empty array');
+  });
+});
+
+describe('StrategyEngine', () => {
+  it('fires expression rules with their label as reason', () => {
+    const engine = new StrategyEngine(config([
+      { type: 'expression', signal: 'buy', label: 'EMA bull cross', when: emaCross },
+    ]));
+
+    expect(engine.evaluate(candles(crossUp))).toEqual({ action: 'buy', confidence: 1, reason: 'EMA bull cross' });
+    expect(engine.evaluate(candles(crossUp.slice(0, -1))).action).toBe('none');
+  });
+
+  it('applies the per-strategy threshold to the total rule weight', () => {
+    const rules: StrategyRule[] = [
+      { type: 'expression', signal: 'buy', weight: 2, when: emaCross },
+      { type: 'expression', signal: 'sell', when: { left: { indicator: 'rsi' }, op: '>', right: 90 } },
+    ];
+
+    // buy scores 2 of 3
+    expect(new StrategyEngine(config(rules)).evaluate(candles(crossUp)).action).toBe('buy');
+    expect(new StrategyEngine(config(rules, 0.7)).evaluate(candles(crossUp)).action).toBe('none');
+  });
+
+  it('reads other timeframes from the candle source', () => {
+    const aggregator = new CandleAggregator();
+    // 5m closes rise steadily, the 1m candles end flat
+    for (const candle of candles(Array.from({ length: 100 }, (_, i) => 100 + Math.floor(i / 5)))) {
+      aggregator.addCandle1m(candle);
+    }
+    const engine = new StrategyEngine(config([
+      {
+        type: 'expression',
+        signal: 'buy',
+        when: { left: { price: 'close', timeframe: '5m' }, op: '>', right: { indicator: 'sma', period: 10, timeframe: '5m' } },
+      },
+    ]));
+    const oneMinute = aggregator.getCandles('1m', 100);
+
+    expect(engine.evaluate(oneMinute, tf => aggregator.getCandles(tf, 100)).action).toBe('buy');
+    expect(engine.evaluate(oneMinute).action).toBe('none');
+  });
+
+  it('keeps scoring legacy rules', () => {
+    const engine = new StrategyEngine(config([
+      { type: 'indicator', indicator: 'ema', condition: 'crossover', value: 0 },
+    ]));
+
+    expect(engine.evaluate(candles(Array.from({ length: 60 }, (_, i) => 100 + i))).action).toBe('buy');
+  });
+
+  it('validates configs on load', () => {
+    expect(() => new StrategyEngine(config([], 1.5))).toThrow('threshold: expected a number in (0, 1]');
+    expect(() => new StrategyEngine(config([
+      { type: 'indicator', indicator: 'rsi', condition: 'oversold', value: 30 },
+      { type: 'expression', signal: 'buy', when: { left: { indicator: 'ema', period: 0 }, op: '>', right: 1 } },
+    ]))).toThrow('rules[1].when.left.period: expected a positive integer');
+  });
+
+  it('derives the candles each timeframe needs from the rules', () => {
+    const json = JSON.parse(fs.readFileSync(path.join(__dirname, '../src/strategies/ema-cross-trend.json'), 'utf8'));
+
+    // EMA(50) on 1h needs 51 hourly candles; the 5m rules stay under the 50-candle minimum
+    expect(StrategyEngine.candleRequirements(json)).toEqual({ '5m': 50, '1h': 51 });
+    expect(RuleEvaluator.lookback({ ...emaCross, left: { indicator: 'ema', period: 3, offset: 2 } }, '1m'))
+      .toEqual({ '1m': 12 });
+  });
+
+  it('loads the bundled JSON strategies', () => {
+    for (const file of ['ema-cross-trend.json', 'ema-rsi-scalper.json', 'bb-mean-reversion.json']) {
+      const json = JSON.parse(fs.readFileSync(path.join(__dirname, '../src/strategies', file), 'utf8'));
+      expect(() => new StrategyEngine(json)).not.toThrow();
+    }
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { RazorStrategy } from '../src/strategies/RazorStrategy';
+import { StrategyEventDispatcher, hasLifecycleHooks } from '../src/strategies/strategy-events';
+import { StrategyHarness } from '../src/strategies/strategy-harness';
+import { BackendDeribitClient } from '../src/deribit-client';
+import { DeribitBroker } from '../src/brokers/DeribitBroker';
+import type { Order, Fill, StrategyConfig, StrategyAction } from '../src/strategies/IStrategy';
+
+const INSTRUMENT = 'BTC_USDC-PERPETUAL';
+
+const config: StrategyConfig = {
+  instrument: INSTRUMENT,
+  timeframe: '1m',
+  riskPercent: 0.5,
+  parameters: { stopLossPercent: 0.5, takeProfitPercent: 1, minVolatility: 0.01, maxVolatility: 5, rsiOversold: 40, rsiOverbought: 60 },
+};
+
+function order(overrides: Partial<Order> = {}): Order {
+  return {
+    orderId: 'o-1', instrument: INSTRUMENT, side: 'buy', type: 'market', amount: 0.01,
+    filled: 0, status: 'open', timestamp: 0, label: 'razor_long_1', ...overrides,
+  };
+}
+
+function fill(overrides: Partial<Fill> = {}): Fill {
+  return {
+    tradeId: 't-1', orderId: 'o-1', instrument: INSTRUMENT, side: 'buy', amount: 0.01,
+    price: 100_000, timestamp: 0, label: 'razor_long_1', ...overrides,
+  };
+}
+
+/**
+ * Razor that moves its stop to the entry fill price
+ */
+class BreakEvenRazor extends RazorStrategy {
+  events: string[] = [];
+
+  async onOrderUpdate(order: Order): Promise<void> {
+    this.events.push(`order:${order.orderId}:${order.status}`);
+  }
+
+  async onFill(fill: Fill): Promise<StrategyAction[]> {
+    this.events.push(`fill:${fill.tradeId}`);
+    return [{ type: 'move_stop', stopLossPrice: fill.price + 0.3, reason: 'break-even' }];
+  }
+
+  async onPositionClosed(event: { tradeId?: string; exitReason: string }): Promise<void> {
+    this.events.push(`closed:${event.tradeId}:${event.exitReason}`);
+  }
+
+  async onError(error: Error, context: { source: string; hook?: string }): Promise<void> {
+    this.events.push(`error:${context.source}${context.hook ? `:${context.hook}` : ''}:${error.message}`);
+  }
+}
+
+describe('StrategyEventDispatcher', () => {
+  function fakeSource() {
+    const listeners: { orders?: (o: Order) => void; fills?: (f: Fill) => void } = {};
+    return {
+      listeners,
+      subscribeOrders: vi.fn(async (_i: string, cb: (o: Order) => void) => { listeners.orders = cb; }),
+      subscribeFills: vi.fn(async (_i: string, cb: (f: Fill) => void) => { listeners.fills = cb; }),
+    };
+  }
+
+  it('delivers own order updates and fills in order, and reports rejections', async () => {
+    const strategy = new BreakEvenRazor();
+    const onAction = vi.fn().mockResolvedValue(undefined);
+    const dispatcher = new StrategyEventDispatcher(strategy, { strategyName: 'Razor', instrument: INSTRUMENT, labelPrefix: 'razor_' }, onAction);
+    const source = fakeSource();
+    await dispatcher.subscribe(source);
+
+    source.listeners.orders!(order({ label: 'thor_long_1', orderId: 'other' }));
+    source.listeners.orders!(order({ status: 'filled' }));
+    source.listeners.fills!(fill());
+    source.listeners.orders!(order({ orderId: 'o-2', label: 'razor_long_1_sl', status: 'rejected' }));
+    await dispatcher.fill(fill({ tradeId: 't-2', label: undefined }));
+
+    expect(strategy.events).toEqual([
+      'order:o-1:filled',
+      'fill:t-1',
+      'order:o-2:rejected',
+      'error:order:Order o-2 (razor_long_1_sl) rejected',
+      'fill:t-2',
+    ]);
+    expect(onAction).toHaveBeenCalledWith({ type: 'move_stop', stopLossPrice: 100_000.3, reason: 'break-even' });
+  });
+
+  it('reports hooks that throw and failed actions to onError', async () => {
+    const strategy = new BreakEvenRazor();
+    strategy.onOrderUpdate = async () => { throw new Error('boom'); };
+    const dispatcher = new StrategyEventDispatcher(
+      strategy,
+      { strategyName: 'Razor', instrument: INSTRUMENT },
+      async () => { throw new Error('no open position'); }
+    );
+
+    await dispatcher.orderUpdate(order());
+    await dispatcher.fill(fill());
+
+    expect(strategy.events).toEqual([
+      'error:hook:onOrderUpdate:boom',
+      'fill:t-1',
+      'error:execution:no open position',
+    ]);
+  });
+
+  it('forwards tradeClosed for its own strategy once per trade', async () => {
+    const strategy = new BreakEvenRazor();
+    const dispatcher = new StrategyEventDispatcher(strategy, { strategyName: 'Razor', instrument: INSTRUMENT });
+    const lifecycle = new EventEmitter();
+    dispatcher.bindLifecycle(lifecycle);
+
+    await dispatcher.positionClosed({ instrument: INSTRUMENT, tradeId: 'trade-1', exitReason: 'Stop loss hit', timestamp: 0 });
+    lifecycle.emit('tradeClosed', { tradeId: 'trade-1', strategyName: 'Razor', instrument: INSTRUMENT, exitReason: 'position_closed' });
+    lifecycle.emit('tradeClosed', { tradeId: 'trade-2', strategyName: 'Thor', instrument: INSTRUMENT, exitReason: 'position_closed' });
+    lifecycle.emit('tradeClosed', { tradeId: 'trade-3', strategyName: 'Razor', instrument: INSTRUMENT, exitReason: 'manual' });
+    dispatcher.unbind();
+    lifecycle.emit('tradeClosed', { tradeId: 'trade-4', strategyName: 'Razor', instrument: INSTRUMENT, exitReason: 'manual' });
+    await dispatcher.fill(fill());
+
+    expect(strategy.events.filter(e => e.startsWith('closed'))).toEqual(['closed:trade-1:Stop loss hit', 'closed:trade-3:manual']);
+  });
+
+  it('knows which strategies have hooks', () => {
+    expect(hasLifecycleHooks(new RazorStrategy())).toBe(false);
+    expect(hasLifecycleHooks(new BreakEvenRazor())).toBe(true);
+  });
+});
+
+describe('StrategyHarness lifecycle hooks', () => {
+  function fakeClient() {
+    const channels = new Map<string, (data: any) => void>();
+    return {
+      channels,
+      getPositions: vi.fn().mockResolvedValue([{ instrument_name: INSTRUMENT, size: 0.01, direction: 'buy' }]),
+      getInstrument: vi.fn().mockResolvedValue({ tick_size: 0.5 }),
+      getTicker: vi.fn(),
+      placeBuyOrder: vi.fn(),
+      placeSellOrder: vi.fn().mockResolvedValue({ order: { order_id: 'sl-2' } }),
+      getOpenOrders: vi.fn().mockResolvedValue([
+        { order_id: 'sl-1', order_type: 'stop_market', reduce_only: true, label: 'razor_long_1_sl' },
+        { order_id: 'tp-1', order_type: 'limit', reduce_only: true, label: 'razor_long_1_tp' },
+      ]),
+      cancelOrder: vi.fn().mockResolvedValue({}),
+      subscribeUserOrders: vi.fn(async (i: string, cb: any) => { channels.set(`user.orders.${i}.raw`, cb); }),
+      subscribeUserTrades: vi.fn(async (i: string, cb: any) => { channels.set(`user.trades.${i}.raw`, cb); }),
+      unsubscribe: vi.fn().mockResolvedValue(undefined),
+    };
+  }
+
+  it('moves the stop a hook asks for: new stop first, then the old one cancelled', async () => {
+    const client = fakeClient();
+    const strategy = new BreakEvenRazor();
+    const harness = new StrategyHarness(client as any, strategy, config, { strategyName: 'Razor', labelPrefix: 'razor', maxCandles: 50 });
+    await harness.startEvents(new EventEmitter());
+
+    client.channels.get(`user.trades.${INSTRUMENT}.raw`)!([
+      { trade_id: 't-1', order_id: 'entry-1', instrument_name: INSTRUMENT, direction: 'buy', amount: 0.01, price: 100_000, label: 'razor_long_1' },
+    ]);
+    await expect.poll(() => client.cancelOrder.mock.calls.length).toBe(1);
+
+    expect(client.placeSellOrder).toHaveBeenCalledWith(INSTRUMENT, 0.01, 100_000.5, 'stop_market', expect.stringMatching(/^razor_sl_\d+$/), true);
+    expect(client.cancelOrder).toHaveBeenCalledWith('sl-1');
+    expect(client.placeSellOrder.mock.invocationCallOrder[0]).toBeLessThan(client.cancelOrder.mock.invocationCallOrder[0]);
+
+    await harness.stopEvents();
+    expect(client.unsubscribe.mock.calls.map(c => c[0])).toEqual([`user.orders.${INSTRUMENT}.raw`, `user.trades.${INSTRUMENT}.raw`]);
+  });
+
+  it('does not subscribe for strategies without hooks', async () => {
+    const client = fakeClient();
+    const harness = new StrategyHarness(client as any, new RazorStrategy(), config, { strategyName: 'Razor', labelPrefix: 'razor', maxCandles: 50 });
+    await harness.startEvents(new EventEmitter());
+
+    expect(client.subscribeUserOrders).not.toHaveBeenCalled();
+    expect(client.subscribeUserTrades).not.toHaveBeenCalled();
+  });
+});
+
+describe('Deribit own order and fill feeds', () => {
+  it('subscribes user channels privately and keeps them private on resubscribe', async () => {
+    const client = new BackendDeribitClient('testnet');
+    client['authenticated'] = true;
+    const send = vi.spyOn(client, 'sendRequest').mockResolvedValue([]) as any;
+    client['subscriptions'].set('ticker.BTC-PERPETUAL.raw', () => {});
+
+    const orders: Order[] = [];
+    const broker = new DeribitBroker();
+    broker['client'] = client;
+    await broker.subscribeOrders(INSTRUMENT, (o) => orders.push(o));
+    expect(send).toHaveBeenLastCalledWith('private/subscribe', { channels: [`user.orders.${INSTRUMENT}.raw`] });
+
+    client['subscriptions'].get(`user.orders.${INSTRUMENT}.raw`)!({
+      order_id: 'o-1', instrument_name: INSTRUMENT, direction: 'sell', order_type: 'stop_market',
+      amount: 0.01, trigger_price: 99_000, filled_amount: 0, order_state: 'rejected', label: 'razor_long_1_sl',
+    });
+    expect(orders[0]).toMatchObject({ orderId: 'o-1', side: 'sell', price: 99_000, status: 'rejected', label: 'razor_long_1_sl' });
+
+    await client['resubscribeAll']();
+    expect(send).toHaveBeenCalledWith('public/subscribe', { channels: ['ticker.BTC-PERPETUAL.raw'] });
+    expect(send).toHaveBeenCalledWith('private/subscribe', { channels: [`user.orders.${INSTRUMENT}.raw`] });
+
+    await broker.unsubscribe(`orders:${INSTRUMENT}`);
+    expect(send).toHaveBeenLastCalledWith('private/unsubscribe', { channels: [`user.orders.${INSTRUMENT}.raw`] });
+  });
+});
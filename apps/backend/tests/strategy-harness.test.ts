@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RazorStrategy } from '../src/strategies/RazorStrategy';
+import { ThorStrategy } from '../src/strategies/ThorStrategy';
+import { StrategyHarness, candlesFromChartData, toSignalState } from '../src/strategies/strategy-harness';
+import type { Candle, MarketData, StrategyConfig } from '../src/strategies/IStrategy';
+
+const MINUTE = 60_000;
+
+function candlesFrom(closes: number[], wick = 0.001): Candle[] {
+  return closes.map((close, i) => ({
+    timestamp: i * MINUTE,
+    open: close,
+    high: close * (1 + wick),
+    low: close * (1 - wick),
+    close,
+    volume: 0,
+  }));
+}
+
+function market(price: number): MarketData {
+  return { instrument: 'BTC_USDC-PERPETUAL', price, timestamp: 0, bid: price, ask: price };
+}
+
+const razorConfig: StrategyConfig = {
+  instrument: 'BTC_USDC-PERPETUAL',
+  timeframe: '1m',
+  riskPercent: 0.5,
+  parameters: {
+    stopLossPercent: 0.5,
+    takeProfitPercent: 1,
+    minVolatility: 0.01,
+    maxVolatility: 5,
+    rsiOversold: 40,
+    rsiOverbought: 60,
+  },
+};
+
+const thorConfig: StrategyConfig = {
+  instrument: 'BTC_USDC-PERPETUAL',
+  timeframe: '1m',
+  riskPercent: 3,
+  parameters: {
+    rsiPeriod: 4,
+    rsiLongLevel: 30,
+    rsiShortLevel: 70,
+    bbPeriod: 20,
+    bbStdDev: 2,
+    atrPeriod: 14,
+    spreadFilterBps: 5,
+    minAtrBps: 5,
+    maxAtrBps: 80,
+  },
+};
+
+// Slow uptrend, then a sharp five-candle drop: oversold with the EMAs still bullish
+const pullback = [
+  ...Array.from({ length: 40 }, (_, i) => 100_000 + i * 20),
+  100_500, 100_300, 100_100, 99_900, 99_700,
+];
+
+describe('RazorStrategy', () => {
+  it('signals LONG on an oversold dip in an uptrend, with SL/TP from the config', async () => {
+    const strategy = new RazorStrategy();
+    await strategy.initialize(razorConfig);
+
+    const analysis = await strategy.analyze(market(99_700), candlesFrom(pullback));
+    expect(analysis.signal).toBe('LONG');
+    expect(analysis.metadata?.strength).toBeGreaterThanOrEqual(58);
+    expect(analysis.indicators.rsi).toBeLessThan(40);
+
+    const signal = await strategy.generateSignal(analysis, market(100_000));
+    expect(signal.side).toBe('buy');
+    expect(signal.stopLossPrice).toBeCloseTo(99_500);
+    expect(signal.takeProfitPrice).toBeCloseTo(101_000);
+  });
+
+  it('rejects configs without the required parameters', () => {
+    const { stopLossPercent, ...parameters } = razorConfig.parameters;
+    expect(() => new RazorStrategy().validateConfig({ ...razorConfig, parameters })).toThrow(
+      'missing required parameter: stopLossPercent'
+    );
+  });
+});
+
+describe('ThorStrategy', () => {
+  const candles = candlesFrom(pullback, 0.002);
+
+  it('places the stop beyond the swing low and the target at the Bollinger midline', async () => {
+    const strategy = new ThorStrategy();
+    await strategy.initialize(thorConfig);
+
+    const analysis = await strategy.analyze(market(99_700), candles);
+    expect(analysis.signal).toBe('LONG');
+
+    const signal = await strategy.generateSignal(analysis, market(99_700));
+    expect(signal.stopLossPrice).toBeCloseTo(analysis.indicators.swingLow * (1 - 0.0002));
+    expect(signal.takeProfitPrice).toBe(analysis.indicators.bbMiddle);
+  });
+
+  it('stays neutral when the quoted spread is wider than the filter', async () => {
+    const strategy = new ThorStrategy();
+    await strategy.initialize(thorConfig);
+
+    const wide = { ...market(99_700), bid: 99_650, ask: 99_750 };
+    const analysis = await strategy.analyze(wide, candles);
+    expect(toSignalState(analysis)).toMatchObject({ type: 'none', reasons: ['Spread te hoog'] });
+  });
+});
+
+describe('StrategyHarness', () => {
+  function fakeClient() {
+    return {
+      getPositions: vi.fn().mockResolvedValue([]),
+      getInstrument: vi.fn(),
+      getTicker: vi.fn(),
+      placeBuyOrder: vi.fn().mockResolvedValue({ order: { order_id: 'entry-1' } }),
+      placeSellOrder: vi.fn().mockResolvedValueOnce({ order: { order_id: 'sl-1' } }).mockResolvedValueOnce({ order: { order_id: 'tp-1' } }),
+    };
+  }
+
+  it('builds 1m candles from ticks and analyzes only closed candles', async () => {
+    const harness = new StrategyHarness(fakeClient() as any, new RazorStrategy(), razorConfig, {
+      strategyName: 'Razor',
+      labelPrefix: 'razor',
+      maxCandles: 50,
+    });
+    harness.seedCandles(candlesFromChartData({ ticks: [0, MINUTE], open: [1, 2], high: [1, 2], low: [1, 2], close: [1, 2], volume: [0, 0] }));
+
+    const start = Date.now();
+    expect(harness.onPrice(100, start)).toBe(false);
+    expect(harness.onPrice(105, start + 30_000)).toBe(false);
+    expect(harness.onPrice(99, start + MINUTE + 1)).toBe(true);
+
+    expect(harness.getCandles()).toHaveLength(3);
+    expect(harness.getCandles()[2]).toMatchObject({ open: 100, high: 105, low: 100, close: 105 });
+    expect((await harness.analyze(99)).signal).toBe('NEUTRAL');
+  });
+
+  it('places a labelled entry with reduce-only SL and TP rounded to the tick size', async () => {
+    vi.useFakeTimers();
+    const client = fakeClient();
+    const harness = new StrategyHarness(client as any, new RazorStrategy(), razorConfig, {
+      strategyName: 'Razor',
+      labelPrefix: 'razor',
+      maxCandles: 50,
+    });
+
+    const placing = harness.placeBracket(
+      { side: 'buy', entryPrice: 100_000, stopLossPrice: 99_500.3, takeProfitPrice: 101_000.8, confidence: 80, reason: '' },
+      0.001,
+      0.5
+    );
+    await vi.runAllTimersAsync();
+    const orders = await placing;
+    vi.useRealTimers();
+
+    expect(orders).toMatchObject({ entryOrderId: 'entry-1', slOrderId: 'sl-1', tpOrderId: 'tp-1', stopLoss: 99_500.5, takeProfit: 101_001 });
+    expect(client.placeBuyOrder).toHaveBeenCalledWith('BTC_USDC-PERPETUAL', 0.001, undefined, 'market', orders.label);
+    expect(client.placeSellOrder).toHaveBeenCalledWith('BTC_USDC-PERPETUAL', 0.001, 99_500.5, 'stop_market', `${orders.label}_sl`, true);
+    expect(client.placeSellOrder).toHaveBeenCalledWith('BTC_USDC-PERPETUAL', 0.001, 101_001, 'limit', `${orders.label}_tp`, true);
+    expect(orders.label).toMatch(/^razor_long_\d+$/);
+  });
+
+  it('adds mark price and funding from the feed to the market data', async () => {
+    let push: (update: any) => void = () => {};
+    const client = {
+      ...fakeClient(),
+      subscribeMarkPrice: vi.fn().mockImplementation(async (_instrument, callback) => { push = callback; }),
+      unsubscribeMarkPrice: vi.fn().mockResolvedValue(undefined),
+    };
+    const harness = new StrategyHarness(client as any, new RazorStrategy(), razorConfig, {
+      strategyName: 'Razor',
+      labelPrefix: 'razor',
+      maxCandles: 50,
+    });
+
+    expect(harness.marketData(100).fundingRate).toBeUndefined();
+    await harness.startMarkPriceFeed();
+    push({ instrument: 'BTC_USDC-PERPETUAL', markPrice: 100.2, indexPrice: 100.1, fundingRate: 0.0001, fundingIntervalHours: 8, timestamp: 0 });
+
+    expect(harness.marketData(100)).toMatchObject({ price: 100, markPrice: 100.2, indexPrice: 100.1, fundingRate: 0.0001, fundingIntervalHours: 8 });
+    expect(client.subscribeMarkPrice).toHaveBeenCalledWith('BTC_USDC-PERPETUAL', expect.any(Function));
+
+    await harness.stopMarkPriceFeed();
+    expect(client.unsubscribeMarkPrice).toHaveBeenCalledWith('BTC_USDC-PERPETUAL');
+    expect(harness.marketData(100).markPrice).toBeUndefined();
+  });
+});
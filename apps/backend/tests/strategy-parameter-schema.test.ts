@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { RazorStrategy } from '../src/strategies/RazorStrategy';
+import { ThorStrategy } from '../src/strategies/ThorStrategy';
+import { StrategyConfigError, type StrategyConfig } from '../src/strategies/IStrategy';
+import {
+  applyParameterDefaults,
+  parameterDefaults,
+  validateParameters,
+  type ParameterSchemaMap,
+} from '../src/strategies/ParameterSchema';
+
+const schema: ParameterSchemaMap = {
+  stopLossPercent: { type: 'number', label: 'SL', required: true, min: 0.05, max: 10 },
+  atrPeriod: { type: 'integer', label: 'ATR', default: 14, min: 2 },
+  breakEvenEnabled: { type: 'boolean', label: 'BE', default: true },
+  mode: { type: 'enum', label: 'Mode', options: ['fast', 'slow'] },
+};
+
+describe('ParameterSchema', () => {
+  it('accepts valid values and ignores unknown parameters', () => {
+    expect(validateParameters(schema, { stopLossPercent: 0.5, atrPeriod: 10, mode: 'fast', extra: 'x' })).toEqual([]);
+  });
+
+  it('reports type, range, integer and option violations', () => {
+    expect(validateParameters(schema, { stopLossPercent: 20, atrPeriod: 2.5, breakEvenEnabled: 'yes', mode: 'medium' })).toEqual([
+      'stopLossPercent must be <= 10',
+      'atrPeriod must be an integer',
+      'breakEvenEnabled must be true or false',
+      'mode must be one of: fast, slow',
+    ]);
+    expect(validateParameters(schema, { atrPeriod: '14' })).toEqual(['stopLossPercent is required', 'atrPeriod must be a number']);
+  });
+
+  it('fills only missing values from defaults', () => {
+    expect(parameterDefaults(schema)).toEqual({ atrPeriod: 14, breakEvenEnabled: true });
+    expect(applyParameterDefaults(schema, { atrPeriod: 20, breakEvenEnabled: null })).toEqual({ atrPeriod: 20, breakEvenEnabled: true });
+  });
+});
+
+describe('strategy parameter schemas', () => {
+  const config = (parameters: Record<string, any>): StrategyConfig => ({
+    instrument: 'BTC_USDC-PERPETUAL',
+    timeframe: '1m',
+    riskPercent: 1,
+    parameters,
+  });
+
+  it.each([new RazorStrategy(), new ThorStrategy()])('$metadata.name defaults satisfy its own schema', strategy => {
+    const { parameterSchema, parameterGroups, defaultConfig } = strategy.metadata;
+    expect(() => strategy.validateConfig(config(defaultConfig.parameters!))).not.toThrow();
+
+    // Every parameter belongs to a published group
+    const groups = new Set(parameterGroups!.map(g => g.id));
+    for (const param of Object.values(parameterSchema!)) {
+      expect(groups.has(param.group!)).toBe(true);
+    }
+  });
+
+  it('rejects out-of-range values with every problem listed', () => {
+    const strategy = new RazorStrategy();
+    const parameters = { ...strategy.metadata.defaultConfig.parameters, stopLossPercent: -1, maxDailyTrades: 1.5 };
+
+    expect(() => strategy.validateConfig(config(parameters))).toThrow(StrategyConfigError);
+    expect(() => strategy.validateConfig(config(parameters))).toThrow(
+      'Invalid Razor config: stopLossPercent must be >= 0.05; maxDailyTrades must be an integer'
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StrategyRegistry } from '../src/strategies/StrategyRegistry';
+import { StrategyPluginLoader } from '../src/strategies/plugin-loader';
+import { PluginTimeoutError } from '../src/strategies/plugin-sandbox';
+import { RazorStrategy } from '../src/strategies/RazorStrategy';
+import type { MarketData, StrategyConfig } from '../src/strategies/IStrategy';
+
+function plugin(name: string, version: string, analyzeBody: string): string {
+  return `
+    module.exports = {
+      metadata: {
+        name: '${name}',
+        version: '${version}',
+        parameterSchema: { lookback: { type: 'integer', label: 'Lookback', default: 3, min: 1 } },
+      },
+      analyze(marketData, candles, config) {
+        ${analyzeBody}
+      },
+    };
+  `;
+}
+
+const breakout = plugin('Breakout', '1.0.0', `
+  const recent = candles.slice(-config.parameters.lookback - 1, -1);
+  const high = Math.max(...recent.map(c => c.high));
+  const signal = marketData.price > high ? 'LONG' : 'NEUTRAL';
+  return { signal, confidence: signal === 'LONG' ? 75 : 0, reason: 'breakout', indicators: { high } };
+`);
+
+const config: StrategyConfig = {
+  instrument: 'BTC_USDC-PERPETUAL',
+  timeframe: '1m',
+  riskPercent: 1,
+  parameters: { lookback: 3 },
+};
+
+const market: MarketData = { instrument: 'BTC_USDC-PERPETUAL', price: 105, timestamp: 0, bid: 105, ask: 105 };
+const candles = [100, 101, 102, 103].map((close, i) => ({
+  timestamp: i * 60_000, open: close, high: close + 1, low: close - 1, close, volume: 0,
+}));
+
+describe('StrategyPluginLoader', () => {
+  let dir: string;
+  let registry: StrategyRegistry;
+  let loader: StrategyPluginLoader;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'strategy-plugins-'));
+    registry = StrategyRegistry.getInstance();
+    await registry.clear();
+    loader = new StrategyPluginLoader({ dir, sandbox: { timeoutMs: 100, memoryMb: 32 }, debounceMs: 20 }, registry);
+  });
+
+  afterEach(async () => {
+    await loader.stop();
+    await registry.clear();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('registers plugins found at startup and runs analyze() in the sandbox', async () => {
+    fs.writeFileSync(path.join(dir, 'breakout.js'), breakout);
+
+    expect(await loader.start()).toBe(1);
+    const strategy = registry.get('Breakout');
+    expect(strategy.metadata.tags).toContain('plugin');
+
+    await strategy.initialize(config);
+    const analysis = await strategy.analyze(market, candles);
+    expect(analysis).toMatchObject({ signal: 'LONG', confidence: 75, indicators: { high: 103 } });
+
+    const signal = await strategy.generateSignal(analysis, market);
+    expect(signal.side).toBe('buy');
+    expect(signal.stopLossPrice).toBeCloseTo(105 * 0.995);
+  });
+
+  it('enforces the parameter schema the plugin publishes', async () => {
+    fs.writeFileSync(path.join(dir, 'breakout.js'), breakout);
+    await loader.start();
+
+    expect(() => registry.get('Breakout').validateConfig({ ...config, parameters: { lookback: 0 } })).toThrow(
+      'lookback must be >= 1'
+    );
+  });
+
+  it('times out a runaway analyze() without blocking the event loop', async () => {
+    fs.writeFileSync(path.join(dir, 'spin.js'), plugin('Spin', '1.0.0', 'while (true) {}'));
+    await loader.start();
+    const strategy = registry.get('Spin');
+    await strategy.initialize(config);
+
+    let ticks = 0;
+    const interval = setInterval(() => ticks++, 10);
+    await expect(strategy.analyze(market, candles)).rejects.toBeInstanceOf(PluginTimeoutError);
+    clearInterval(interval);
+
+    expect(ticks).toBeGreaterThan(3);
+  });
+
+  it('hot-reloads a changed file and unregisters a deleted one', async () => {
+    const file = path.join(dir, 'breakout.js');
+    fs.writeFileSync(file, breakout);
+    await loader.start();
+
+    fs.writeFileSync(file, breakout.replace("version: '1.0.0'", "version: '1.1.0'"));
+    await expect.poll(() => registry.has('Breakout') && registry.get('Breakout').metadata.version, { timeout: 3000 }).toBe('1.1.0');
+
+    fs.unlinkSync(file);
+    await expect.poll(() => registry.has('Breakout'), { timeout: 3000 }).toBe(false);
+  });
+
+  it('keeps the running version when a reload fails, and refuses built-in names', async () => {
+    registry.register(new RazorStrategy());
+    fs.writeFileSync(path.join(dir, 'breakout.js'), breakout);
+    fs.writeFileSync(path.join(dir, 'razor.js'), plugin('Razor', '9.9.9', "return { signal: 'LONG' };"));
+    await loader.start();
+
+    fs.writeFileSync(path.join(dir, 'breakout.js'), 'module.exports = {');
+    await loader.reload('breakout.js');
+
+    expect(registry.get('Breakout').metadata.version).toBe('1.0.0');
+    expect(registry.get('Razor')).toBeInstanceOf(RazorStrategy);
+    expect(loader.getStatus()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ file: 'breakout.js', strategyName: 'Breakout', error: expect.stringContaining('SyntaxError') }),
+      expect.objectContaining({ file: 'razor.js', strategyName: null, error: 'strategy name "Razor" is a built-in strategy' }),
+    ]));
+  });
+
+  it('gives plugins no access to the host', async () => {
+    fs.writeFileSync(path.join(dir, 'escape.js'), plugin('Escape', '1.0.0', `
+      return { signal: 'NEUTRAL', confidence: 0, reason: [typeof require, typeof process, typeof setTimeout].join(','), indicators: {} };
+    `));
+    await loader.start();
+    const strategy = registry.get('Escape');
+    await strategy.initialize(config);
+
+    expect((await strategy.analyze(market, candles)).reason).toBe('undefined,undefined,undefined');
+  });
+
+  it('does not hand out the host process through the constructor chain', async () => {
+    fs.writeFileSync(path.join(dir, 'escape.js'), plugin('Escape', '1.0.0', `
+      const host = globalThis.constructor.constructor('return process')();
+      return { signal: 'NEUTRAL', confidence: 0, reason: Object.keys(host.env).join(','), indicators: {} };
+    `));
+    await loader.start();
+    const strategy = registry.get('Escape');
+    await strategy.initialize(config);
+
+    await expect(strategy.analyze(market, candles)).rejects.toThrow('Code generation from strings disallowed');
+  });
+});
@@ -1,6 +1,19 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const history = vi.hoisted(() => ({
+  recordTrade: vi.fn(),
+  closeTrade: vi.fn(),
+  queryTrades: vi.fn(),
+}));
+
+vi.mock('../src/services/trade-history', () => ({
+  getTradeHistoryService: () => history,
+  ensureTradeHistoryInitialized: async () => {},
+}));
+
 import { CandleAggregator } from '../src/strategy-runner/CandleAggregator';
-import { Candle } from '../src/strategy-runner/types';
+import { StrategyRunner } from '../src/strategy-runner/StrategyRunner';
+import { Candle, Position } from '../src/strategy-runner/types';
 
 describe('CandleAggregator', () => {
   it('should add and retrieve 1m candles', () => {
@@ -60,4 +73,142 @@ describe('CandleAggregator', () => {
     expect(aggregator.hasEnoughData('1m', 10)).toBe(true);
     expect(aggregator.hasEnoughData('1m', 20)).toBe(false);
   });
+
+  it('replaces the forming candle, ignores older ones and keeps maxHistory candles', () => {
+    const aggregator = new CandleAggregator(3);
+    const candle = (minute: number, close: number): Candle =>
+      ({ timestamp: minute * 60000, open: close, high: close, low: close, close, volume: 1 });
+
+    for (const minute of [0, 1, 2, 3]) {
+      aggregator.addCandle1m(candle(minute, 100));
+    }
+    aggregator.addCandle1m(candle(3, 105));
+    aggregator.addCandle1m(candle(1, 90));
+
+    expect(aggregator.getCandles('1m', 10).map(c => [c.timestamp / 60000, c.close])).toEqual([[1, 100], [2, 100], [3, 105]]);
+  });
+});
+
+describe('StrategyRunner candle history', () => {
+  const config = {
+    id: 'trend',
+    name: 'Trend',
+    instrument: 'BTCUSDT',
+    timeframe: '5m',
+    rules: [{
+      type: 'expression',
+      signal: 'buy',
+      when: { left: { price: 'close', timeframe: '1h' }, op: '>', right: { indicator: 'ema', period: 50, timeframe: '1h' } },
+    }],
+    risk: { mode: 'percent', value: 1, maxLeverage: 10 },
+    stopLoss: { type: 'percent', value: 1 },
+    takeProfit: { type: 'risk_reward', value: 2 },
+  } as any;
+
+  const hourly = Array.from({ length: 100 }, (_, i) =>
+    ({ timestamp: i * 3600000, open: 100, high: 101, low: 99, close: 100, volume: 1 }));
+
+  it('sizes the 1m history to the longest timeframe x lookback', async () => {
+    const runner: any = new StrategyRunner('user-1', 'worker-1');
+    await runner.loadStrategy(config);
+
+    expect(runner.candleNeeds).toEqual({ '5m': 50, '1h': 51 });
+    expect(runner.candleAggregator.maxHistory).toBe(51 * 60);
+  });
+
+  it('fetches a timeframe from the broker until the aggregated history covers it', async () => {
+    const runner: any = new StrategyRunner('user-1', 'worker-1');
+    await runner.loadStrategy(config);
+    runner.broker = { getCandles: vi.fn().mockResolvedValue(hourly) };
+
+    expect(await runner.candlesFor('1h', 51)).toHaveLength(100);
+    expect(runner.broker.getCandles).toHaveBeenCalledWith('BTCUSDT', '1h', 100);
+
+    runner.broker.getCandles.mockRejectedValue(new Error('rate limited'));
+    expect(await runner.candlesFor('1h', 51)).toEqual([]);
+  });
+});
+
+describe('StrategyRunner trade history', () => {
+  const config = { id: 'ema', name: 'EMA Cross', instrument: 'BTCUSDT' } as any;
+
+  function runnerWith(broker: Record<string, unknown>): any {
+    const runner: any = new StrategyRunner('user-1', 'worker-1');
+    runner.broker = broker;
+    runner.currentConfig = config;
+    return runner;
+  }
+
+  const position: Position = {
+    orderId: 'entry-1',
+    instrument: 'BTCUSDT',
+    side: 'buy',
+    entryPrice: 100,
+    amount: 2,
+    stopLoss: 95,
+    takeProfit: 110,
+    entryTime: 0,
+  };
+
+  beforeEach(() => {
+    history.recordTrade.mockReset().mockResolvedValue('trade-new');
+    history.closeTrade.mockReset().mockResolvedValue(undefined);
+    history.queryTrades.mockReset().mockResolvedValue([]);
+  });
+
+  it('records a position the history does not know about', async () => {
+    const runner = runnerWith({
+      getPositions: vi.fn().mockResolvedValue([
+        { instrument: 'BTCUSDT', side: 'short', size: 0.5, entryPrice: 64000, markPrice: 64100, unrealizedPnl: -50 },
+      ]),
+    });
+
+    await runner.reconcileTradeHistory();
+
+    expect(history.queryTrades).toHaveBeenCalledWith({ strategyName: 'EMA Cross', instrument: 'BTCUSDT', status: 'open', limit: 1 });
+    expect(history.recordTrade).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      strategyName: 'EMA Cross',
+      side: 'sell',
+      entryOrderId: 'auto_resume',
+      entryPrice: 64000,
+      amount: 0.5,
+    }));
+    expect(runner.currentTradeId).toBe('trade-new');
+  });
+
+  it('closes an open trade whose position is gone', async () => {
+    history.queryTrades.mockResolvedValue([{ id: 'trade-ghost', entryPrice: 64000 }]);
+    const runner = runnerWith({ getPositions: vi.fn().mockResolvedValue([]) });
+
+    await runner.reconcileTradeHistory();
+
+    expect(history.closeTrade).toHaveBeenCalledWith({
+      tradeId: 'trade-ghost',
+      exitPrice: 64000,
+      exitReason: 'manual',
+      pnl: 0,
+      pnlPercentage: 0,
+    });
+    expect(runner.currentTradeId).toBeNull();
+  });
+
+  it('closes the trade at the latest price with the nearer bracket as the reason', async () => {
+    const runner = runnerWith({
+      getCandles: vi.fn().mockResolvedValue([{ timestamp: 0, open: 109, high: 110, low: 109, close: 110, volume: 1 }]),
+    });
+    runner.currentTradeId = 'trade-7';
+
+    const exitPrice = await runner.latestPrice(position);
+    await runner.closeCurrentTrade(position, exitPrice, (exitPrice - position.entryPrice) * position.amount);
+
+    expect(history.closeTrade).toHaveBeenCalledWith({
+      tradeId: 'trade-7',
+      exitPrice: 110,
+      exitReason: 'tp_hit',
+      pnl: 20,
+      pnlPercentage: 10,
+    });
+    expect(runner.currentTradeId).toBeNull();
+  });
 });
@@ -0,0 +1,288 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const history = vi.hoisted(() => ({
+  queryTrades: vi.fn(async () => []),
+  recordTrade: vi.fn(async () => 'trade-1'),
+  closeTrade: vi.fn(),
+}));
+const lifecycle = vi.hoisted(() => ({
+  checkPositionAndCleanup: vi.fn(async () => false),
+  on: vi.fn(),
+  off: vi.fn(),
+}));
+
+vi.mock('../src/services/trade-history', () => ({
+  getTradeHistoryService: () => history,
+  ensureTradeHistoryInitialized: async () => {},
+}));
+
+vi.mock('../src/services/order-lifecycle-manager', () => ({
+  initializeOrderLifecycleManager: () => lifecycle,
+  getOrderLifecycleManager: () => lifecycle,
+}));
+
+import {
+  BlackoutCalendar,
+  InvalidScheduleError,
+  TradingScheduleGate,
+  getBlackoutCalendar,
+  inSessionWindow,
+  parseTradingSchedule,
+  type Weekday,
+} from '../src/strategies/trading-schedule';
+import { FastTestStrategy } from '../src/strategies/FastTestStrategy';
+import { ThorExecutor, type ThorConfig } from '../src/strategies/thor-executor';
+import { parameterDefaults } from '../src/strategies/ParameterSchema';
+import { instanceLabelPrefix } from '../src/deribit-cancel-on-disconnect';
+
+const AMS = 'Europe/Amsterdam'; // UTC+2 until 25 October 2026
+
+const fomc = new BlackoutCalendar([
+  { name: 'FOMC', start: '2026-10-28T18:00:00Z', end: '2026-10-28T18:30:00Z', tags: ['FOMC'], preBufferMinutes: 30, postBufferMinutes: 60 },
+  { name: 'CPI', start: '2026-10-14T12:30:00Z', tags: ['CPI'], preBufferMinutes: 15 },
+]);
+
+describe('parseTradingSchedule', () => {
+  it('accepts a schedule and rejects unknown timezones and bad times', () => {
+    expect(parseTradingSchedule({ timezone: AMS, sessions: [{ days: ['mon'], start: '08:00', end: '22:00' }] }))
+      .toMatchObject({ timezone: AMS });
+
+    expect(() => parseTradingSchedule({ timezone: 'Mars/Olympus' })).toThrow(InvalidScheduleError);
+    expect(() => parseTradingSchedule({ timezone: AMS, sessions: [{ days: ['mon'], start: '8:00', end: '22:00' }] }))
+      .toThrow('Invalid schedule: sessions.0.start: expected HH:MM');
+  });
+});
+
+describe('inSessionWindow', () => {
+  it('uses the local time of the schedule timezone', () => {
+    const window = { days: ['mon', 'tue', 'wed', 'thu', 'fri'] as Weekday[], start: '08:00', end: '22:00' };
+    expect(inSessionWindow(window, Date.parse('2026-10-19T05:59:00Z'), AMS)).toBe(false); // mon 07:59
+    expect(inSessionWindow(window, Date.parse('2026-10-19T06:00:00Z'), AMS)).toBe(true);
+    expect(inSessionWindow(window, Date.parse('2026-10-19T19:59:00Z'), AMS)).toBe(true);
+    expect(inSessionWindow(window, Date.parse('2026-10-19T20:00:00Z'), AMS)).toBe(false); // mon 22:00
+    expect(inSessionWindow(window, Date.parse('2026-10-24T10:00:00Z'), AMS)).toBe(false); // saturday
+  });
+
+  it('lets a window past midnight belong to the day it starts', () => {
+    const friday = { days: ['fri'] as Weekday[], start: '22:00', end: '02:00' };
+    expect(inSessionWindow(friday, Date.parse('2026-10-23T20:30:00Z'), AMS)).toBe(true); // fri 22:30
+    expect(inSessionWindow(friday, Date.parse('2026-10-23T22:30:00Z'), AMS)).toBe(true); // sat 00:30
+    expect(inSessionWindow(friday, Date.parse('2026-10-24T00:00:00Z'), AMS)).toBe(false); // sat 02:00
+    expect(inSessionWindow(friday, Date.parse('2026-10-24T20:30:00Z'), AMS)).toBe(false); // sat 22:30
+  });
+});
+
+describe('BlackoutCalendar', () => {
+  it('applies the event buffers and filters by tag', () => {
+    expect(fomc.active(Date.parse('2026-10-28T17:29:00Z'), {})).toBeNull();
+    expect(fomc.active(Date.parse('2026-10-28T17:30:00Z'), {})).toMatchObject({
+      name: 'FOMC',
+      until: Date.parse('2026-10-28T19:30:00Z'),
+      flatten: false,
+    });
+    expect(fomc.active(Date.parse('2026-10-28T19:30:00Z'), {})).toBeNull();
+
+    expect(fomc.active(Date.parse('2026-10-28T18:00:00Z'), { tags: ['CPI'] })).toBeNull();
+    expect(fomc.active(Date.parse('2026-10-14T12:20:00Z'), { tags: ['CPI'] })?.name).toBe('CPI');
+  });
+
+  it('lets the schedule override the buffers', () => {
+    const settings = { preBufferMinutes: 0, postBufferMinutes: 5, flatten: true };
+    expect(fomc.active(Date.parse('2026-10-28T17:59:00Z'), settings)).toBeNull();
+    expect(fomc.active(Date.parse('2026-10-28T18:34:00Z'), settings)).toMatchObject({ name: 'FOMC', flatten: true });
+  });
+
+  it('loads the calendar file and keeps the previous one when it becomes invalid', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blackouts-'));
+    const file = path.join(dir, 'calendar.json');
+    process.env.BLACKOUT_CALENDAR_FILE = file;
+    try {
+      expect(getBlackoutCalendar(0).events).toEqual([]);
+
+      fs.writeFileSync(file, JSON.stringify({ events: fomc.events }));
+      expect(getBlackoutCalendar(1_000).events).toEqual([]); // checked at most once a minute
+      expect(getBlackoutCalendar(61_000).events).toHaveLength(2);
+
+      fs.writeFileSync(file, '{"events": [{"name": "x"}]}');
+      fs.utimesSync(file, new Date(), new Date(Date.now() + 10_000));
+      expect(getBlackoutCalendar(122_000).events).toHaveLength(2);
+    } finally {
+      delete process.env.BLACKOUT_CALENDAR_FILE;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('TradingScheduleGate', () => {
+  const schedule = parseTradingSchedule({
+    timezone: AMS,
+    sessions: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '08:00', end: '22:00' }],
+    blackouts: { tags: ['FOMC'], flatten: true },
+  });
+
+  it('allows entries inside a session and shows the window as a checkpoint', () => {
+    const gate = new TradingScheduleGate(schedule, () => fomc);
+    const now = Date.parse('2026-10-19T10:00:00Z');
+    const state = gate.evaluate(now);
+
+    expect(state).toMatchObject({ tradingAllowed: true, window: 'ma,di,wo,do,vr 08:00-22:00', blackout: null });
+    expect(gate.checkpoint(state, now)).toMatchObject({
+      id: 'session',
+      label: 'Handelsvenster',
+      status: 'met',
+      value: 'ma,di,wo,do,vr 08:00-22:00',
+    });
+  });
+
+  it('pauses entries outside sessions', () => {
+    const gate = new TradingScheduleGate(schedule, () => fomc);
+    const state = gate.evaluate(Date.parse('2026-10-24T10:00:00Z'));
+
+    expect(state).toMatchObject({ tradingAllowed: false, window: null, reason: 'Buiten handelssessie' });
+    expect(gate.checkpoint(state)).toMatchObject({ status: 'pending', value: 'Gesloten' });
+  });
+
+  it('pauses entries during a blackout and flattens until the close succeeds', () => {
+    const gate = new TradingScheduleGate(schedule, () => fomc);
+    const first = gate.evaluate(Date.parse('2026-10-28T17:45:00Z'));
+
+    expect(first).toMatchObject({ tradingAllowed: false, reason: 'Blackout: FOMC' });
+    expect(gate.checkpoint(first).description).toContain('positie wordt gesloten');
+    expect(gate.shouldFlatten(first)).toBe(true);
+    expect(gate.shouldFlatten(gate.evaluate(Date.parse('2026-10-28T17:50:00Z')))).toBe(true);
+
+    gate.markFlattened(first);
+    expect(gate.shouldFlatten(gate.evaluate(Date.parse('2026-10-28T18:10:00Z')))).toBe(false);
+  });
+
+  it('trades all week without sessions and ignores the calendar without blackout settings', () => {
+    const gate = new TradingScheduleGate({ timezone: 'UTC' }, () => fomc);
+    expect(gate.evaluate(Date.parse('2026-10-28T18:00:00Z'))).toMatchObject({ tradingAllowed: true, window: 'altijd' });
+  });
+});
+
+describe('ThorExecutor with a schedule', () => {
+  let positions: any[];
+  const client = {
+    getCandles: vi.fn(),
+    subscribeOrderBook: vi.fn(async () => ({ isSynced: () => false })),
+    unsubscribeOrderBook: vi.fn(async () => {}),
+    getPositions: vi.fn(async () => positions),
+    getInstrument: vi.fn(async () => ({ tick_size: 0.5, min_trade_amount: 0.001 })),
+    getTicker: vi.fn(async () => ({ last_price: 100_000, best_bid_price: 100_000, best_ask_price: 100_000 })),
+    placeBuyOrder: vi.fn(async () => ({ order: { order_id: 'buy' } })),
+    placeSellOrder: vi.fn(async () => ({ order: { order_id: 'sell' } })),
+    getOpenOrders: vi.fn(async () => []),
+    cancelOrder: vi.fn(),
+  };
+  let dir: string;
+
+  beforeEach(() => {
+    positions = [];
+    Object.values(client).forEach(fn => fn.mockClear());
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blackouts-'));
+    const file = path.join(dir, 'calendar.json');
+    fs.writeFileSync(file, JSON.stringify({ events: fomc.events }));
+    process.env.BLACKOUT_CALENDAR_FILE = file;
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.BLACKOUT_CALENDAR_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function executor(): ThorExecutor {
+    const strategy = new FastTestStrategy();
+    const config = {
+      ...parameterDefaults(strategy.metadata.parameterSchema!),
+      instrument: 'BTC_USDC-PERPETUAL',
+      accountEquityUsd: 1000,
+      schedule: parseTradingSchedule({
+        timezone: AMS,
+        sessions: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '08:00', end: '22:00' }],
+        blackouts: { tags: ['FOMC'], flatten: true },
+      }),
+    };
+    return new ThorExecutor(client as any, 'id', 'FastTest', config as ThorConfig, 'user-1', { strategyId: 'strategy-1', version: 1 }, {
+      strategy,
+      requiredCandles: 0,
+      labelPrefix: 'fast_test',
+      candleMs: 5_000,
+    });
+  }
+
+  it('makes no entries outside the session and shows why', async () => {
+    const thor = executor();
+    await thor.initialize();
+
+    vi.setSystemTime(Date.parse('2026-10-24T10:00:00Z'));
+    await thor.onTicker(100_000);
+    vi.setSystemTime(Date.parse('2026-10-24T10:00:05Z'));
+    await thor.onTicker(100_000);
+
+    expect(client.placeBuyOrder).not.toHaveBeenCalled();
+    const state = thor.getAnalysisState();
+    expect(state.signal.reasons).toEqual(['Buiten handelssessie']);
+    expect(state.checkpoints.find(c => c.id === 'session')).toMatchObject({ status: 'pending', value: 'Gesloten' });
+
+    thor.cleanup();
+  });
+
+  it('closes the open position when a flattening blackout starts', async () => {
+    const thor = executor();
+    await thor.initialize();
+
+    vi.setSystemTime(Date.parse('2026-10-28T17:00:00Z'));
+    await thor.onTicker(100_000);
+    vi.setSystemTime(Date.parse('2026-10-28T17:00:05Z'));
+    await thor.onTicker(100_000);
+    expect(client.placeBuyOrder).toHaveBeenCalledTimes(1);
+    expect(thor.getAnalysisState().status).toBe('position_open');
+
+    positions = [{ instrument_name: 'BTC_USDC-PERPETUAL', size: 0.017 }];
+    const blackout = Date.parse('2026-10-28T17:30:00Z');
+    vi.setSystemTime(blackout);
+    await thor.onTicker(100_000);
+    expect(client.placeSellOrder).toHaveBeenLastCalledWith('BTC_USDC-PERPETUAL', 0.017, undefined, 'market', `${instanceLabelPrefix('fast_test', 'id')}_close_${blackout}`, true);
+
+    vi.setSystemTime(blackout + 10_000);
+    await thor.onTicker(100_000);
+    expect(client.placeSellOrder).toHaveBeenCalledTimes(3); // SL + TP + one close
+
+    thor.cleanup();
+  });
+
+  it('retries the blackout close on the next tick when it fails', async () => {
+    const thor = executor();
+    await thor.initialize();
+
+    vi.setSystemTime(Date.parse('2026-10-28T17:00:00Z'));
+    await thor.onTicker(100_000);
+    vi.setSystemTime(Date.parse('2026-10-28T17:00:05Z'));
+    await thor.onTicker(100_000);
+    expect(thor.getAnalysisState().status).toBe('position_open');
+
+    positions = [{ instrument_name: 'BTC_USDC-PERPETUAL', size: 0.017 }];
+    client.placeSellOrder.mockRejectedValueOnce(new Error('Connection closed'));
+    const blackout = Date.parse('2026-10-28T17:30:00Z');
+    vi.setSystemTime(blackout);
+    await thor.onTicker(100_000);
+    expect(client.placeSellOrder).toHaveBeenCalledTimes(3); // SL + TP + failed close
+
+    vi.setSystemTime(blackout + 10_000);
+    await thor.onTicker(100_000);
+    expect(client.placeSellOrder).toHaveBeenCalledTimes(4);
+    expect(client.placeSellOrder).toHaveBeenLastCalledWith('BTC_USDC-PERPETUAL', 0.017, undefined, 'market', `${instanceLabelPrefix('fast_test', 'id')}_close_${blackout + 10_000}`, true);
+
+    vi.setSystemTime(blackout + 20_000);
+    await thor.onTicker(100_000);
+    expect(client.placeSellOrder).toHaveBeenCalledTimes(4);
+
+    thor.cleanup();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../src/kv-storage', () => ({
+  kvStorage: {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(undefined),
+    delete: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../src/services/user-credentials-service', () => ({
+  DEFAULT_ACCOUNT: 'main',
+  isValidAccountName: (account: string) => /^[a-z0-9][a-z0-9_-]{0,63}$/i.test(account),
+  userCredentialsService: {
+    loadCredentials: vi.fn(async (_userId: string, _broker: string, _environment: string, account: string) =>
+      account === 'missing' ? null : { apiKey: `key-${account}`, apiSecret: `secret-${account}` }
+    ),
+  },
+}));
+
+import { userBrokerRegistry } from '../src/user-broker-registry';
+import { kvStorage } from '../src/kv-storage';
+import { BackendDeribitClient } from '../src/deribit-client';
+import { userCredentialsService } from '../src/services/user-credentials-service';
+
+describe('UserBrokerRegistry accounts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(BackendDeribitClient.prototype, 'connect').mockResolvedValue();
+    vi.spyOn(BackendDeribitClient.prototype, 'disconnect').mockImplementation(() => {});
+  });
+
+  it('keeps a separate client per account with its own credentials', async () => {
+    await userBrokerRegistry.connect('user-1', 'deribit', 'testnet');
+    await userBrokerRegistry.connect('user-1', 'deribit', 'testnet', 'scalper');
+
+    const main = userBrokerRegistry.getClient('user-1', 'deribit', 'testnet');
+    const scalper = userBrokerRegistry.getClient('user-1', 'deribit', 'testnet', 'scalper');
+
+    expect(main).not.toBeNull();
+    expect(scalper).not.toBeNull();
+    expect(scalper).not.toBe(main);
+    expect(userCredentialsService.loadCredentials).toHaveBeenCalledWith('user-1', 'deribit', 'testnet', 'scalper');
+    expect(vi.mocked(BackendDeribitClient.prototype.connect).mock.calls.map(([creds]) => creds.apiKey))
+      .toEqual(['key-main', 'key-scalper']);
+    expect(userBrokerRegistry.getAccounts('user-1', 'deribit', 'testnet').sort()).toEqual(['main', 'scalper']);
+  });
+
+  it('scopes manual-disconnect flags per account, keeping main-account keys unchanged', async () => {
+    await userBrokerRegistry.disconnect('user-2', 'deribit', 'testnet');
+    await userBrokerRegistry.disconnect('user-2', 'deribit', 'testnet', 'hedge');
+
+    expect(kvStorage.set).toHaveBeenCalledWith('user:user-2:broker:deribit:env:testnet:manualDisconnect', 'true');
+    expect(kvStorage.set).toHaveBeenCalledWith('user:user-2:broker:deribit:env:testnet:account:hedge:manualDisconnect', 'true');
+  });
+
+  it('rejects accounts without stored credentials', async () => {
+    await expect(userBrokerRegistry.connect('user-3', 'deribit', 'testnet', 'missing'))
+      .rejects.toThrow('No credentials found for account missing');
+    expect(userBrokerRegistry.getClient('user-3', 'deribit', 'testnet', 'missing')).toBeNull();
+  });
+});
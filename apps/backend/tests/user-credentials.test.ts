@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const pool = vi.hoisted(() => {
+  process.env.ENCRYPTION_MASTER_KEY ??= 'test-master-key-with-at-least-32-characters';
+  return { query: vi.fn() };
+});
+
+vi.mock('../src/db', () => ({ pool }));
+
+import { userCredentialsService } from '../src/services/user-credentials-service';
+import { encryptData } from '../src/services/encryption-service';
+
+describe('UserCredentialsService encryption', () => {
+  beforeEach(() => {
+    pool.query.mockReset().mockResolvedValue({ rows: [] });
+  });
+
+  it('encrypts every field with its own IV and decrypts them again', async () => {
+    await userCredentialsService.saveCredentials({
+      userId: 'user-1', broker: 'okx', environment: 'live', apiKey: 'key', apiSecret: 'secret', passphrase: 'phrase',
+    });
+    const [, params] = pool.query.mock.calls[0];
+    const [, , , apiKeyEncrypted, apiSecretEncrypted, keyIv, salt, passphraseEncrypted, , secretIv, passphraseIv] = params;
+    expect(new Set([keyIv, secretIv, passphraseIv]).size).toBe(3);
+
+    pool.query.mockResolvedValueOnce({
+      rows: [{
+        api_key_encrypted: apiKeyEncrypted,
+        api_secret_encrypted: apiSecretEncrypted,
+        encryption_iv: keyIv,
+        encryption_salt: salt,
+        api_passphrase_encrypted: passphraseEncrypted,
+        api_secret_iv: secretIv,
+        api_passphrase_iv: passphraseIv,
+      }],
+    });
+    await expect(userCredentialsService.loadCredentials('user-1', 'okx', 'live'))
+      .resolves.toEqual({ apiKey: 'key', apiSecret: 'secret', passphrase: 'phrase' });
+  });
+
+  it('reads rows saved with one shared IV', async () => {
+    const key = encryptData('key', 'user-1');
+    const shared = { salt: key.salt, iv: key.iv };
+    pool.query.mockResolvedValueOnce({
+      rows: [{
+        api_key_encrypted: key.encrypted,
+        api_secret_encrypted: encryptData('secret', 'user-1', shared).encrypted,
+        encryption_iv: key.iv,
+        encryption_salt: key.salt,
+        api_passphrase_encrypted: null,
+        api_secret_iv: null,
+        api_passphrase_iv: null,
+      }],
+    });
+
+    await expect(userCredentialsService.loadCredentials('user-1', 'deribit', 'live'))
+      .resolves.toEqual({ apiKey: 'key', apiSecret: 'secret', passphrase: undefined });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const pg = vi.hoisted(() => {
+  const client = { query: vi.fn(), release: vi.fn() };
+  return { client, query: vi.fn(), connect: vi.fn(async () => client) };
+});
+
+vi.mock('pg', () => ({
+  Pool: class {
+    query = pg.query;
+    connect = pg.connect;
+  },
+}));
+
+vi.mock('../src/services/user-credentials-service', () => ({
+  DEFAULT_ACCOUNT: 'main',
+}));
+
+import { userStrategyRepository } from '../src/services/user-strategy-repository';
+
+describe('UserStrategyRepository config versions', () => {
+  const existing = { id: 'strategy-1', config: { riskPercent: 1 }, configVersion: 1 };
+  const params = {
+    userId: 'user-1',
+    strategyName: 'razor',
+    instrument: 'BTC-PERPETUAL',
+    environment: 'testnet' as const,
+    config: { riskPercent: 2 },
+    lastAction: 'manual_start',
+  };
+
+  beforeEach(() => {
+    pg.query.mockReset().mockResolvedValue({ rows: [existing] });
+    pg.client.query.mockReset();
+    pg.client.release.mockReset();
+  });
+
+  it('writes the strategy row and its new version in one transaction', async () => {
+    pg.client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('UPDATE user_strategies') && sql.includes('RETURNING')) {
+        return { rows: [{ ...existing, config: params.config }] };
+      }
+      if (sql.includes('SELECT config FROM user_strategy_config_versions')) {
+        return { rows: [{ config: existing.config }] };
+      }
+      if (sql.includes('INSERT INTO user_strategy_config_versions')) {
+        return { rows: [{ version: 2 }] };
+      }
+      return { rows: [] };
+    });
+
+    const saved = await userStrategyRepository.save(params);
+
+    expect(saved.configVersion).toBe(2);
+    const statements = pg.client.query.mock.calls.map(([sql]) => (sql as string).trim().split(/\s+/).slice(0, 2).join(' '));
+    expect(statements).toEqual([
+      'BEGIN',
+      'UPDATE user_strategies', // takes the row lock
+      'SELECT config',
+      'INSERT INTO',
+      'UPDATE user_strategies',
+      'COMMIT',
+    ]);
+    expect(pg.client.release).toHaveBeenCalled();
+  });
+
+  it('rolls back the strategy row when its version cannot be written', async () => {
+    pg.client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO user_strategy_config_versions')) {
+        throw new Error('duplicate key value violates unique constraint "unique_strategy_config_version"');
+      }
+      if (sql.includes('RETURNING')) {
+        return { rows: [{ ...existing, config: params.config }] };
+      }
+      return { rows: [] };
+    });
+
+    await expect(userStrategyRepository.save(params)).rejects.toThrow('unique_strategy_config_version');
+    expect(pg.client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(pg.client.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import {
+  backendAPI,
+  type StrategyParameterSchema,
+  type StrategyParameterGroup,
+  type StrategyParameterValue,
+} from '@/lib/backend-api';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { CaretDown, CaretUp, ArrowCounterClockwise } from '@phosphor-icons/react';
+
+type ParameterValues = Record<string, StrategyParameterValue>;
+
+interface StrategyParametersFormProps {
+  strategyId: string;
+  values: ParameterValues; // overrides only; missing keys use the schema default
+  onChange: (values: ParameterValues) => void;
+  disabled?: boolean;
+}
+
+const OTHER_GROUP: StrategyParameterGroup = { id: 'other', label: 'Overig' };
+
+function rangeHint(param: StrategyParameterSchema): string | null {
+  if (param.min !== undefined && param.max !== undefined) return `${param.min} - ${param.max}`;
+  if (param.min !== undefined) return `min ${param.min}`;
+  if (param.max !== undefined) return `max ${param.max}`;
+  return null;
+}
+
+function outOfRange(param: StrategyParameterSchema, value: StrategyParameterValue | undefined): boolean {
+  if (typeof value !== 'number') return false;
+  if (param.type === 'integer' && !Number.isInteger(value)) return true;
+  return (param.min !== undefined && value < param.min) || (param.max !== undefined && value > param.max);
+}
+
+/**
+ * Config form rendered from the strategy's parameter schema (GET /api/v2/strategies/:id)
+ */
+export function StrategyParametersForm({ strategyId, values, onChange, disabled }: StrategyParametersFormProps) {
+  const [schema, setSchema] = useState<Record<string, StrategyParameterSchema>>({});
+  const [groups, setGroups] = useState<StrategyParameterGroup[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    backendAPI.getStrategy(strategyId)
+      .then((result) => {
+        if (cancelled || !result.success) return;
+        setSchema(result.strategy.parameterSchema ?? {});
+        setGroups(result.strategy.parameterGroups ?? []);
+      })
+      .catch((error) => {
+        console.warn('[StrategyParametersForm] Could not load parameter schema:', error);
+        if (!cancelled) {
+          setSchema({});
+          setGroups([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId]);
+
+  const names = Object.keys(schema);
+  if (names.length === 0) {
+    return null;
+  }
+
+  const overrides = Object.keys(values).filter((name) => name in schema).length;
+  const knownGroups = new Set(groups.map((g) => g.id));
+  const sections = [...groups, OTHER_GROUP]
+    .map((group) => ({
+      group,
+      params: names.filter((name) =>
+        group.id === OTHER_GROUP.id
+          ? !schema[name].group || !knownGroups.has(schema[name].group!)
+          : schema[name].group === group.id
+      ),
+    }))
+    .filter((section) => section.params.length > 0);
+
+  const setValue = (name: string, value: StrategyParameterValue | undefined) => {
+    const next = { ...values };
+    if (value === undefined || value === schema[name].default) {
+      delete next[name];
+    } else {
+      next[name] = value;
+    }
+    onChange(next);
+  };
+
+  const renderControl = (name: string, param: StrategyParameterSchema) => {
+    const value = values[name] ?? param.default;
+
+    if (param.type === 'boolean') {
+      return (
+        <Switch
+          checked={value === true}
+          onCheckedChange={(checked) => setValue(name, checked)}
+          disabled={disabled}
+        />
+      );
+    }
+
+    if (param.type === 'enum') {
+      return (
+        <Select value={value as string | undefined} onValueChange={(v) => setValue(name, v)} disabled={disabled}>
+          <SelectTrigger className="bg-muted/30 border-border/30 h-9 rounded-lg w-32">
+            <SelectValue placeholder="-" />
+          </SelectTrigger>
+          <SelectContent>
+            {(param.options ?? []).map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    const numeric = param.type === 'number' || param.type === 'integer';
+    return (
+      <div className="flex items-center gap-1.5">
+        <Input
+          type={numeric ? 'number' : 'text'}
+          value={value === undefined ? '' : String(value)}
+          min={param.min}
+          max={param.max}
+          step={param.step ?? (param.type === 'integer' ? 1 : 'any')}
+          onChange={(e) => {
+            const raw = e.target.value;
+            if (raw === '') return setValue(name, undefined);
+            if (!numeric) return setValue(name, raw);
+            const parsed = Number(raw);
+            if (Number.isFinite(parsed)) setValue(name, parsed);
+          }}
+          disabled={disabled}
+          aria-invalid={outOfRange(param, value)}
+          className="bg-muted/30 border-border/30 h-9 rounded-lg w-24 text-right"
+        />
+        {param.unit && <span className="text-xs text-muted-foreground w-10">{param.unit}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-3">
+      <div className="flex items-center justify-between">
+        <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors">
+          {open ? <CaretUp className="w-3.5 h-3.5" weight="bold" /> : <CaretDown className="w-3.5 h-3.5" weight="bold" />}
+          Strategie parameters
+          {overrides > 0 && <span className="text-accent">({overrides} aangepast)</span>}
+        </CollapsibleTrigger>
+        {overrides > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            disabled={disabled}
+            className="p-1 rounded text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+            title="Herstel standaardwaarden"
+          >
+            <ArrowCounterClockwise className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      <CollapsibleContent className="space-y-4">
+        {sections.map(({ group, params }) => (
+          <div key={group.id} className="space-y-2 rounded-lg bg-muted/10 border border-border/20 p-3">
+            <div>
+              <div className="text-xs font-semibold">{group.label}</div>
+              {group.description && <p className="text-xs text-muted-foreground">{group.description}</p>}
+            </div>
+            {params.map((name) => {
+              const param = schema[name];
+              const hint = rangeHint(param);
+              return (
+                <div key={name} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <Label className="text-xs">
+                      {param.label}
+                      {param.required && <span className="text-destructive">*</span>}
+                    </Label>
+                    {(param.description || hint) && (
+                      <p className={`text-xs ${outOfRange(param, values[name]) ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {[param.description, hint].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                  {renderControl(name, param)}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -12,6 +12,7 @@ import { toast } from 'sonner';
 import { AnalysisDetailsDialog } from '@/components/dialogs/AnalysisDetailsDialog';
 import { StrategyErrorLogsDialog } from '@/components/dialogs/StrategyErrorLogsDialog';
 import { CurrentPositionCard } from '@/components/trading/CurrentPositionCard';
+import { StrategyParametersForm } from '@/components/trading/StrategyParametersForm';
 import { Badge } from '@/components/ui/badge';
 
 interface StrategyTradingCardProps {
@@ -40,6 +41,12 @@ export function StrategyTradingCard(props?: StrategyTradingCardProps) {
     value: 1,
   });
   
+  // Per-strategy parameter overrides, merged into the start config by the store
+  const [strategyParameters, setStrategyParameters] = useKV<Record<string, Record<string, number | boolean | string>>>(
+    'strategy-parameters',
+    {}
+  );
+  
   const [analysisDialogOpen, setAnalysisDialogOpen] = useState(false);
   const [errorLogsDialogOpen, setErrorLogsDialogOpen] = useState(false);
 
@@ -376,6 +383,15 @@ export function StrategyTradingCard(props?: StrategyTradingCardProps) {
               </p>
             </div>
 
+            {selectedStrategy && (
+              <StrategyParametersForm
+                strategyId={selectedStrategy}
+                values={strategyParameters?.[selectedStrategy] ?? {}}
+                onChange={(values) => setStrategyParameters((current) => ({ ...(current ?? {}), [selectedStrategy]: values }))}
+                disabled={actualStrategyStatus !== 'stopped' && !(actualStrategyStatus === 'in-position' && !strategy)}
+              />
+            )}
+
             <Button
               onClick={handleStrategyToggle}
               disabled={
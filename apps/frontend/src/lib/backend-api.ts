@@ -29,6 +29,29 @@ export interface DeribitCredentials {
   apiSecret: string;
 }
 
+export type StrategyParameterValue = number | boolean | string;
+
+/** Mirrors backend ParameterSchema (apps/backend/src/strategies/ParameterSchema.ts) */
+export interface StrategyParameterSchema {
+  type: 'number' | 'integer' | 'boolean' | 'string' | 'enum';
+  label: string;
+  description?: string;
+  group?: string;
+  unit?: string;
+  default?: StrategyParameterValue;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+}
+
+export interface StrategyParameterGroup {
+  id: string;
+  label: string;
+  description?: string;
+}
+
 export interface BackendStrategy {
   id: string;
   name: string;
@@ -36,6 +59,8 @@ export interface BackendStrategy {
   author: string;
   version: string;
   tags: string[];
+  parameterSchema?: Record<string, StrategyParameterSchema>; // only on GET /api/v2/strategies/:id
+  parameterGroups?: StrategyParameterGroup[];
 }
 
 class BackendAPI {
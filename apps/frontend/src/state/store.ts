@@ -4,8 +4,6 @@ import { DeribitClient, DeribitEnvironment, ConnectionState, DeribitCredentials,
 import { saveEncrypted, loadEncrypted } from '@/lib/encryption';
 import type { ErrorLog } from '@/components/dialogs/ErrorDetailsDialog';
 import { calculatePosition, buildBracket, type RiskMode, type RiskEngineInput } from '@/lib/riskEngine';
-import { ScalpingStrategy, DEFAULT_SCALPING_CONFIG, type ActivePosition } from '@/lib/strategies/scalpingStrategy';
-import { FastTestStrategy, DEFAULT_FAST_TEST_CONFIG } from '@/lib/strategies/fastTestStrategy';
 // VortexStrategy removed - legacy code
 import { RazorStrategy, DEFAULT_RAZOR_CONFIG } from '@/lib/strategies/razorStrategy';
 import { backendClient } from '@/lib/backend-client';
@@ -46,11 +44,15 @@ const safeKV = {
 const STRATEGY_NAME_MAP: Record<string, string> = {
   razor: 'Razor',
   thor: 'Thor',
+  scalping: 'Scalping',
+  'fast-test': 'FastTest',
 };
 
 const STRATEGY_ID_MAP: Record<string, string> = {
   Razor: 'razor',
   Thor: 'thor',
+  Scalping: 'scalping',
+  FastTest: 'fast-test',
 };
 
 function strategyNameToId(name: string): string {
@@ -75,6 +77,24 @@ interface TestOrderResult {
   takeProfit: number;
 }
 
+export interface ActivePosition {
+  id?: string;
+  orderId: string;
+  instrumentName: string;
+  side: 'buy' | 'sell';
+  entryPrice: number;
+  amount: number;
+  stopPrice: number;
+  stopLoss?: number;
+  takeProfitPrice: number;
+  takeProfit?: number;
+  entryTime: number;
+  slOrderId?: string;
+  tpOrderId?: string;
+  confidence?: number;
+  strategyName?: string; // Which strategy created this position
+}
+
 export type StrategyStatus = 'stopped' | 'analyzing' | 'active' | 'paused' | 'in-position';
 
 interface TradingStore {
@@ -88,7 +108,7 @@ interface TradingStore {
   strategyErrorLogs: ErrorLog[];
   riskSettings: RiskSettings;
   
-  strategy: ScalpingStrategy | FastTestStrategy | RazorStrategy | null;
+  strategy: RazorStrategy | null;
   strategyStatus: StrategyStatus;
   activePosition: ActivePosition | null;
   selectedStrategy: string;
@@ -118,7 +138,7 @@ interface TradingStore {
   setSelectedStrategy: (strategyId: string) => void;
   checkForOpenPosition: () => Promise<void>;
   closePosition: () => Promise<void>;
-  getAnalysisState: () => ReturnType<ScalpingStrategy['getAnalysisState'] | FastTestStrategy['getAnalysisState'] | RazorStrategy['getAnalysisState']> | null;
+  getAnalysisState: () => ReturnType<RazorStrategy['getAnalysisState']> | null;
   startPositionMonitor: () => void;
   stopPositionMonitor: () => void;
   startRealTimeConnectionPolling: () => void;
@@ -779,6 +799,9 @@ export const useTradingStore = create<TradingStore>((set, get) => ({
     // Convert strategy ID to friendly name for backend (use helper)
     const strategyName = strategyIdToName(strategyId);
     
+    // Parameter overrides from the strategy config form (backend fills in schema defaults)
+    const strategyParameters = await safeKV.get<Record<string, Record<string, unknown>>>('strategy-parameters');
+    
     // Start strategy on backend (PRIMARY execution - orders + SL/TP!)
     console.log('[Store] Sending strategy to backend for 24/7 execution with order placement...');
     const backendResponse = await backendStrategyClient.startStrategy({
@@ -787,6 +810,7 @@ export const useTradingStore = create<TradingStore>((set, get) => ({
       environment: environment,
       disclaimerAccepted: disclaimerAccepted || false,
       config: {
+        ...(strategyParameters?.[strategyId] ?? {}),
         riskMode: riskSettings.mode,
         riskValue: riskSettings.value,
       },